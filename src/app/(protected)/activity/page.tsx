@@ -0,0 +1,91 @@
+import { redirect } from "next/navigation";
+import { z } from "zod/v4";
+import { getAuthContext } from "@/lib/permissions/rbac";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getActivityFeed } from "@/modules/engine/services/timeline.service";
+import { getUserOptions } from "@/modules/users/services/user.service";
+import { ActivityFeed } from "@/modules/engine/components/ActivityFeed";
+import {
+  TimelineEventTypes,
+  type ActivityFeedPage,
+  type ActivityFeedParams,
+  type TimelineEventType,
+} from "@/modules/engine/types/timeline.types";
+import { isDayValue } from "@/modules/engine/types/view-layout.types";
+import { AppError } from "@/lib/utils/errors";
+
+export const metadata = {
+  title: "Activity — AressCRM",
+};
+
+export default async function ActivityPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ type?: string; user?: string; events?: string; from?: string; to?: string }>;
+}) {
+  const ctx = await getAuthContext();
+  if (!ctx) redirect("/login");
+
+  const { type, user, events, from, to } = await searchParams;
+
+  // Filters come from the URL; unknown event types, users that aren't
+  // UUIDs and bad dates are dropped
+  const eventTypes = (events ?? "")
+    .split(",")
+    .filter((t): t is TimelineEventType => TimelineEventTypes.some((et) => et.value === t));
+  const filters: ActivityFeedParams = {
+    objectType: type || undefined,
+    userId: user && z.uuid().safeParse(user).success ? user : undefined,
+    eventTypes,
+    from: isDayValue(from) ? from : undefined,
+    to: isDayValue(to) ? to : undefined,
+  };
+
+  let feed: ActivityFeedPage;
+  try {
+    feed = await getActivityFeed(ctx, filters);
+  } catch (err) {
+    if (err instanceof AppError && err.code === "FORBIDDEN") {
+      return (
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="space-y-6">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Activity</h1>
+            <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-yellow-800">
+              <p className="font-medium">Access Denied</p>
+              <p className="mt-1 text-sm">
+                You don&apos;t have permission to view objects.
+              </p>
+            </div>
+          </div>
+        </div>
+      );
+    }
+    if (err instanceof AppError && err.code === "NOT_FOUND") redirect("/activity");
+    throw err;
+  }
+
+  const admin = createAdminClient();
+  const [{ data: objectTypes }, users] = await Promise.all([
+    admin.from("object_types").select("name, display_name").order("display_name"),
+    getUserOptions(ctx),
+  ]);
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Activity</h1>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            What changed across the records you can see — new records, status changes, notes and proposals.
+          </p>
+        </div>
+        <ActivityFeed
+          feed={feed}
+          filters={filters}
+          objectTypes={(objectTypes ?? []).map((t) => ({ name: t.name, displayName: t.display_name }))}
+          users={users}
+        />
+      </div>
+    </div>
+  );
+}
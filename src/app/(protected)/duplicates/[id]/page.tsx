@@ -0,0 +1,58 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { getAuthContext } from "@/lib/permissions/rbac";
+import { getDuplicateCandidate } from "@/modules/engine/services/duplicate.service";
+import { getObject } from "@/modules/engine/services/object.service";
+import { MergeTool } from "@/modules/engine/components/MergeTool";
+import { AppError } from "@/lib/utils/errors";
+
+export const metadata = {
+  title: "Merge Duplicates — AressCRM",
+};
+
+export default async function MergeDuplicatesPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const ctx = await getAuthContext();
+  if (!ctx) redirect("/login");
+
+  const { id } = await params;
+
+  let candidate;
+  try {
+    candidate = await getDuplicateCandidate(ctx, id);
+  } catch (err) {
+    if (err instanceof AppError && (err.code === "NOT_FOUND" || err.code === "FORBIDDEN")) {
+      notFound();
+    }
+    throw err;
+  }
+
+  const [objectA, objectB] = await Promise.all([
+    getObject(ctx, candidate.objectA.id),
+    getObject(ctx, candidate.objectB.id),
+  ]);
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6">
+      <div className="space-y-6">
+        <div>
+          <Link
+            href="/duplicates"
+            className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            <ArrowLeft size={14} />
+            Duplicates
+          </Link>
+          <h1 className="mt-2 text-2xl font-bold text-gray-900 dark:text-white">
+            Merge {candidate.objectTypeName} records
+          </h1>
+        </div>
+        <MergeTool candidate={candidate} objects={[objectA, objectB]} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { redirect } from "next/navigation";
+import { getAuthContext } from "@/lib/permissions/rbac";
+import { getDuplicateCandidates } from "@/modules/engine/services/duplicate.service";
+import { DuplicateQueue } from "@/modules/engine/components/DuplicateQueue";
+import { AppError } from "@/lib/utils/errors";
+
+export const metadata = {
+  title: "Duplicates — AressCRM",
+};
+
+export default async function DuplicatesPage() {
+  const ctx = await getAuthContext();
+  if (!ctx) redirect("/login");
+
+  let candidates;
+  try {
+    candidates = await getDuplicateCandidates(ctx);
+  } catch (err) {
+    if (err instanceof AppError && err.code === "FORBIDDEN") {
+      return (
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="space-y-6">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Duplicates</h1>
+            <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-yellow-800">
+              <p className="font-medium">Access Denied</p>
+              <p className="mt-1 text-sm">
+                You don&apos;t have permission to review and merge duplicates.
+              </p>
+            </div>
+          </div>
+        </div>
+      );
+    }
+    throw err;
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Duplicates</h1>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Pairs of records flagged by the duplicate rules, most similar first.
+          </p>
+        </div>
+        <DuplicateQueue candidates={candidates} />
+      </div>
+    </div>
+  );
+}
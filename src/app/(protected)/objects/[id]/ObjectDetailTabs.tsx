@@ -6,17 +6,22 @@ import { ObjectEditForm } from "@/modules/engine/components/ObjectEditForm";
 import { RelationManager } from "@/modules/engine/components/RelationManager";
 import { Timeline } from "@/modules/engine/components/Timeline";
 import { ProcessorInsights } from "@/modules/engine/components/ProcessorInsights";
+import { RecordHistory } from "@/modules/engine/components/RecordHistory";
 import type { ObjectWithModules } from "@/modules/engine/types/object.types";
 import type { RelatedObject } from "@/modules/engine/types/object.types";
 import type { ModuleSchema } from "@/modules/engine/types/module.types";
-import type { TimelineEvent } from "@/modules/engine/services/timeline.service";
+import type { TimelinePage } from "@/modules/engine/types/timeline.types";
+import type { ObjectHistory } from "@/modules/engine/types/history.types";
 
-type TabKey = "view" | "edit" | "relations" | "timeline" | "insights";
+type TabKey = "view" | "edit" | "relations" | "timeline" | "history" | "insights";
 
 interface Props {
   object: ObjectWithModules;
   relations: RelatedObject[];
-  timelineEvents: TimelineEvent[];
+  /** First page of the timeline */
+  timeline: TimelinePage;
+  history: ObjectHistory;
+  canRevert: boolean;
   availableModules: {
     id: string;
     name: string;
@@ -28,12 +33,14 @@ interface Props {
 }
 
 /**
- * Client-side tab switcher for object detail: View / Edit / Relations / Timeline / Insights
+ * Client-side tab switcher for object detail: View / Edit / Relations / Timeline / History / Insights
  */
 export function ObjectDetailTabs({
   object,
   relations,
-  timelineEvents,
+  timeline,
+  history,
+  canRevert,
   availableModules,
   requiredModuleIds,
 }: Props) {
@@ -43,7 +50,11 @@ export function ObjectDetailTabs({
     { key: "view", label: "View" },
     { key: "edit", label: "Edit" },
     { key: "relations", label: `Relations (${relations.length})` },
-    { key: "timeline", label: `Timeline (${timelineEvents.length})` },
+    {
+      key: "timeline",
+      label: `Timeline (${timeline.events.length}${timeline.nextCursor ? "+" : ""})`,
+    },
+    { key: "history", label: "History" },
     { key: "insights", label: "Insights" },
   ];
 
@@ -82,9 +93,11 @@ export function ObjectDetailTabs({
       )}
 
       {activeTab === "timeline" && (
-        <Timeline objectId={object.id} events={timelineEvents} />
+        <Timeline objectId={object.id} events={timeline.events} nextCursor={timeline.nextCursor} />
       )}
 
+      {activeTab === "history" && <RecordHistory history={history} canRevert={canRevert} />}
+
       {activeTab === "insights" && (
         <ProcessorInsights object={object} />
       )}
@@ -5,6 +5,8 @@ import { getRelations } from "@/modules/engine/services/relation.service";
 import { getModules } from "@/modules/engine/services/module.service";
 import { getObjectType } from "@/modules/engine/services/object-type.service";
 import { getTimeline } from "@/modules/engine/services/timeline.service";
+import { getObjectHistory } from "@/modules/engine/services/history.service";
+import { getRecordAccess } from "@/modules/engine/services/sharing.service";
 import { ObjectDetailTabs } from "./ObjectDetailTabs";
 import { ArrowLeft } from "lucide-react";
 import Link from "next/link";
@@ -26,11 +28,13 @@ export default async function ObjectDetailPage({
   const object = await getObject(ctx, id);
   if (!object) notFound();
 
-  const [relations, allModules, objectType, timelineEvents] = await Promise.all([
+  const [relations, allModules, objectType, timeline, history, access] = await Promise.all([
     getRelations(ctx, id),
     getModules(ctx),
     getObjectType(ctx, object.object_type_id),
     getTimeline(ctx, id),
+    getObjectHistory(ctx, id),
+    getRecordAccess(ctx, object),
   ]);
 
   // Build required module IDs from object type (as array for client serialization)
@@ -71,7 +75,9 @@ export default async function ObjectDetailPage({
       <ObjectDetailTabs
         object={object}
         relations={relations}
-        timelineEvents={timelineEvents}
+        timeline={timeline}
+        history={history}
+        canRevert={access.canUpdate}
         availableModules={availableModules}
         requiredModuleIds={requiredModuleIds}
       />
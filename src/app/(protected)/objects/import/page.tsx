@@ -0,0 +1,53 @@
+import { redirect } from "next/navigation";
+import { getAuthContext } from "@/lib/permissions/rbac";
+import { getObjectTypes } from "@/modules/engine/services/object-type.service";
+import { getModules } from "@/modules/engine/services/module.service";
+import { ImportWizard } from "@/modules/engine/components/ImportWizard";
+import type { ObjectTypeWithSchemas } from "@/modules/engine/types/object.types";
+
+export const metadata = {
+  title: "Import Objects — AressCRM",
+};
+
+export default async function ImportObjectsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ type?: string }>;
+}) {
+  const ctx = await getAuthContext();
+  if (!ctx) redirect("/login");
+
+  const params = await searchParams;
+  const [objectTypes, allModules] = await Promise.all([
+    getObjectTypes(ctx),
+    getModules(ctx),
+  ]);
+
+  const schemaMap = new Map(
+    allModules.map((m) => [m.id, m.schema])
+  );
+
+  const objectTypesWithSchemas: ObjectTypeWithSchemas[] = objectTypes.map(
+    (ot) => ({
+      ...ot,
+      modules: ot.modules.map((m) => ({
+        ...m,
+        schema: schemaMap.get(m.module_id) ?? { fields: [] },
+      })),
+    })
+  );
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6">
+      <div className="mx-auto max-w-3xl space-y-6">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          Import Objects
+        </h1>
+        <ImportWizard
+          objectTypes={objectTypesWithSchemas}
+          initialTypeId={params.type}
+        />
+      </div>
+    </div>
+  );
+}
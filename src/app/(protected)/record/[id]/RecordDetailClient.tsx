@@ -9,6 +9,10 @@ import { ObjectEditForm } from "@/modules/engine/components/ObjectEditForm";
 import { deleteObjectAction } from "@/modules/engine/actions/object.actions";
 import type { ObjectWithModules } from "@/modules/engine/types/object.types";
 import type { ModuleSchema } from "@/modules/engine/types/module.types";
+import type { RecordAccess, RecordShare } from "@/modules/engine/types/sharing.types";
+import type { TimelinePage } from "@/modules/engine/types/timeline.types";
+import { RecordSharing } from "@/modules/engine/components/RecordSharing";
+import { Timeline } from "@/modules/engine/components/Timeline";
 import {
   ArrowLeft,
   Calendar,
@@ -16,7 +20,6 @@ import {
   Tag,
   Edit3,
   Trash2,
-  Clock,
   Link2,
   StickyNote,
   ChevronDown,
@@ -33,16 +36,6 @@ interface Relation {
   objectTypeName: string;
 }
 
-interface TimelineEvent {
-  id: string;
-  event_type: string;
-  title: string;
-  description: string | null;
-  metadata: any;
-  created_by: string | null;
-  created_at: string;
-}
-
 interface RecordDetailClientProps {
   object: ObjectWithModules;
   availableModules: {
@@ -54,8 +47,14 @@ interface RecordDetailClientProps {
   }[];
   requiredModuleIds: string[];
   relations: Relation[];
-  timeline: TimelineEvent[];
-  permissions: string[];
+  /** First page of the timeline */
+  timeline: TimelinePage;
+  access: RecordAccess;
+  sharing: {
+    shares: RecordShare[];
+    users: { id: string; full_name: string }[];
+    teams: { id: string; name: string }[];
+  };
 }
 
 // ── Component ────────────────────────────────
@@ -66,18 +65,19 @@ export function RecordDetailClient({
   requiredModuleIds,
   relations,
   timeline,
-  permissions,
+  access,
+  sharing,
 }: RecordDetailClientProps) {
   const router = useRouter();
-  const [activeTab, setActiveTab] = useState<"details" | "timeline" | "relations">("details");
+  const [activeTab, setActiveTab] = useState<"details" | "timeline" | "relations" | "sharing">("details");
   const [editing, setEditing] = useState(false);
   const [deleting, setDeleting] = useState(false);
 
-  const canEdit = permissions.includes("object:update") || permissions.includes("object:update:own");
-  const canDelete = permissions.includes("object:delete") || permissions.includes("object:delete:own");
+  const canEdit = access.canUpdate;
+  const canDelete = access.canDelete;
 
   const handleDelete = useCallback(async () => {
-    if (!confirm("Are you sure you want to delete this record? This cannot be undone.")) return;
+    if (!confirm("Move this record to the trash? You can restore it from the Trash page.")) return;
     setDeleting(true);
     const result = await deleteObjectAction(object.id);
     if (result.success) {
@@ -155,7 +155,7 @@ export function RecordDetailClient({
 
         {/* Tabs */}
         <div className="mt-4 flex gap-1">
-          {(["details", "timeline", "relations"] as const).map((tab) => (
+          {(["details", "timeline", "relations", "sharing"] as const).map((tab) => (
             <button
               key={tab}
               onClick={() => setActiveTab(tab)}
@@ -172,9 +172,14 @@ export function RecordDetailClient({
                   {relations.length}
                 </span>
               )}
-              {tab === "timeline" && timeline.length > 0 && (
+              {tab === "timeline" && timeline.events.length > 0 && (
                 <span className="ml-1.5 rounded-full bg-gray-100 px-1.5 py-0.5 text-[10px] dark:bg-gray-800">
-                  {timeline.length}
+                  {timeline.events.length}{timeline.nextCursor ? "+" : ""}
+                </span>
+              )}
+              {tab === "sharing" && sharing.shares.length > 0 && (
+                <span className="ml-1.5 rounded-full bg-gray-100 px-1.5 py-0.5 text-[10px] dark:bg-gray-800">
+                  {sharing.shares.length}
                 </span>
               )}
             </button>
@@ -200,8 +205,19 @@ export function RecordDetailClient({
           )
         )}
 
-        {activeTab === "timeline" && <TimelineView events={timeline} />}
+        {activeTab === "timeline" && (
+          <Timeline objectId={object.id} events={timeline.events} nextCursor={timeline.nextCursor} />
+        )}
         {activeTab === "relations" && <RelationsView relations={relations} />}
+        {activeTab === "sharing" && (
+          <RecordSharing
+            objectId={object.id}
+            shares={sharing.shares}
+            users={sharing.users}
+            teams={sharing.teams}
+            canShare={access.canShare}
+          />
+        )}
       </div>
     </div>
   );
@@ -259,44 +275,6 @@ function formatDetailValue(value: unknown, type: string): string {
   return String(value);
 }
 
-// ── Timeline View ────────────────────────────
-
-function TimelineView({ events }: { events: TimelineEvent[] }) {
-  if (events.length === 0) {
-    return <p className="text-sm text-gray-400">No timeline events yet.</p>;
-  }
-
-  return (
-    <div className="space-y-3">
-      {events.map((event) => (
-        <div
-          key={event.id}
-          className="flex gap-3 rounded-lg border border-gray-100 bg-white px-4 py-3 dark:border-gray-800 dark:bg-gray-900"
-        >
-          <div className="mt-0.5 flex-shrink-0">
-            <Clock size={14} className="text-gray-400" />
-          </div>
-          <div className="flex-1">
-            <div className="flex items-baseline justify-between gap-2">
-              <span className="text-sm font-medium text-gray-800 dark:text-gray-200">
-                {event.title}
-              </span>
-              <span className="text-[10px] text-gray-400">
-                {new Date(event.created_at).toLocaleString()}
-              </span>
-            </div>
-            {event.description && (
-              <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400">
-                {event.description}
-              </p>
-            )}
-          </div>
-        </div>
-      ))}
-    </div>
-  );
-}
-
 // ── Relations View ───────────────────────────
 
 function RelationsView({ relations }: { relations: Relation[] }) {
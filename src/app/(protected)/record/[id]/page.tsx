@@ -3,6 +3,10 @@ import { getAuthContext } from "@/lib/permissions/rbac";
 import { getObject } from "@/modules/engine/services/object.service";
 import { createAdminClient } from "@/lib/supabase/admin";
 import { parseModuleSchema } from "@/modules/engine/types/module.types";
+import { getRecordAccess, getRecordShares } from "@/modules/engine/services/sharing.service";
+import { getTimeline } from "@/modules/engine/services/timeline.service";
+import { getUserOptions } from "@/modules/users/services/user.service";
+import { getTeamOptions } from "@/modules/teams/services/team.service";
 import { RecordDetailClient } from "./RecordDetailClient";
 
 export default async function RecordDetailPage({
@@ -68,7 +72,8 @@ export default async function RecordDetailPage({
     const { data: relObjs } = await admin
       .from("objects")
       .select("id, object_types(name, display_name)")
-      .in("id", relatedIds);
+      .in("id", relatedIds)
+      .is("deleted_at", null);
 
     for (const ro of relObjs ?? []) {
       relatedObjects[ro.id] = {
@@ -78,30 +83,39 @@ export default async function RecordDetailPage({
     }
   }
 
+  // Relations to trashed objects stay hidden until they're restored
   const relations = [
-    ...(relationsFrom ?? []).map((r) => ({
-      relationId: r.id,
-      relationType: r.relation_type,
-      direction: "outgoing" as const,
-      objectId: r.to_object_id,
-      objectTypeName: relatedObjects[r.to_object_id]?.typeName ?? "Unknown",
-    })),
-    ...(relationsTo ?? []).map((r) => ({
-      relationId: r.id,
-      relationType: r.relation_type,
-      direction: "incoming" as const,
-      objectId: r.from_object_id,
-      objectTypeName: relatedObjects[r.from_object_id]?.typeName ?? "Unknown",
-    })),
+    ...(relationsFrom ?? [])
+      .filter((r) => relatedObjects[r.to_object_id])
+      .map((r) => ({
+        relationId: r.id,
+        relationType: r.relation_type,
+        direction: "outgoing" as const,
+        objectId: r.to_object_id,
+        objectTypeName: relatedObjects[r.to_object_id]?.typeName ?? "Unknown",
+      })),
+    ...(relationsTo ?? [])
+      .filter((r) => relatedObjects[r.from_object_id])
+      .map((r) => ({
+        relationId: r.id,
+        relationType: r.relation_type,
+        direction: "incoming" as const,
+        objectId: r.from_object_id,
+        objectTypeName: relatedObjects[r.from_object_id]?.typeName ?? "Unknown",
+      })),
   ];
 
-  // Load timeline events
-  const { data: timeline } = await admin
-    .from("timeline_events")
-    .select("*")
-    .eq("object_id", id)
-    .order("created_at", { ascending: false })
-    .limit(50);
+  // First page of timeline events
+  const timeline = await getTimeline(ctx, id);
+
+  // Edit/delete/share controls follow record access (own, team, shares)
+  const [access, shares] = await Promise.all([
+    getRecordAccess(ctx, object),
+    getRecordShares(ctx, id),
+  ]);
+  const [users, teams] = access.canShare
+    ? await Promise.all([getUserOptions(ctx), getTeamOptions()])
+    : [[], []];
 
   return (
     <RecordDetailClient
@@ -109,8 +123,9 @@ export default async function RecordDetailPage({
       availableModules={availableModules}
       requiredModuleIds={requiredModuleIds}
       relations={relations}
-      timeline={timeline ?? []}
-      permissions={Array.from(ctx.permissions)}
+      timeline={timeline}
+      access={access}
+      sharing={{ shares, users, teams }}
     />
   );
 }
@@ -1,9 +1,14 @@
 import { redirect } from "next/navigation";
-import { getAuthContext, requirePermission } from "@/lib/permissions/rbac";
+import { getAuthContext, hasPermission, requirePermission } from "@/lib/permissions/rbac";
 import { Actions } from "@/lib/permissions/actions";
 import { getModules } from "@/modules/engine/services/module.service";
 import { getObjectTypes } from "@/modules/engine/services/object-type.service";
 import { getObjectTypeRelations } from "@/modules/engine/services/object-type-relation.service";
+import { getWorkflows } from "@/modules/engine/services/workflow.service";
+import { getAutomationRules } from "@/modules/engine/services/automation.service";
+import { getRollupFields } from "@/modules/engine/services/rollup.service";
+import { getDuplicateRules } from "@/modules/engine/services/duplicate.service";
+import { getUserOptions } from "@/modules/users/services/user.service";
 import { DataModelHub } from "@/modules/engine/components/DataModelHub";
 import type { ModuleRowTyped } from "@/modules/engine/types/module.types";
 import { parseModuleSchema } from "@/modules/engine/types/module.types";
@@ -36,10 +41,24 @@ export default async function RegistryPage() {
     );
   }
 
-  const [rawModules, objectTypes, relations] = await Promise.all([
+  const [
+    rawModules,
+    objectTypes,
+    relations,
+    workflows,
+    automations,
+    rollups,
+    duplicateRules,
+    users,
+  ] = await Promise.all([
     getModules(ctx),
     getObjectTypes(ctx),
     getObjectTypeRelations(ctx),
+    getWorkflows(),
+    hasPermission(ctx, Actions.OBJECT_TYPE_MANAGE) ? getAutomationRules(ctx) : [],
+    getRollupFields(ctx),
+    getDuplicateRules(ctx),
+    getUserOptions(ctx),
   ]);
 
   // Ensure schemas are parsed
@@ -57,6 +76,11 @@ export default async function RegistryPage() {
         modules={modules}
         objectTypes={objectTypes}
         relations={relations}
+        workflows={workflows}
+        automations={automations}
+        rollups={rollups}
+        duplicateRules={duplicateRules}
+        users={users}
       />
     </div>
   );
@@ -1,6 +1,6 @@
 import Link from "next/link";
 import { redirect } from "next/navigation";
-import { Shield, Users } from "lucide-react";
+import { Shield, Users, UsersRound, Webhook } from "lucide-react";
 import { getAuthContext } from "@/lib/permissions/rbac";
 
 export const metadata = {
@@ -22,6 +22,20 @@ const settingsLinks = [
     icon: <Users size={24} />,
     permission: "user:manage",
   },
+  {
+    label: "Teams",
+    description: "Group users for team-scoped access and record sharing",
+    href: "/settings/teams",
+    icon: <UsersRound size={24} />,
+    permission: "team:manage",
+  },
+  {
+    label: "Webhooks",
+    description: "Send object and proposal events to external systems",
+    href: "/settings/webhooks",
+    icon: <Webhook size={24} />,
+    permission: "settings:manage",
+  },
 ];
 
 export default async function SettingsPage() {
@@ -1,6 +1,10 @@
 import { redirect } from "next/navigation";
 import { getAuthContext } from "@/lib/permissions/rbac";
-import { getRoles, getAllPermissions } from "@/modules/roles/services/role.service";
+import {
+  getRoles,
+  getAllPermissions,
+  getFieldPermissionTargets,
+} from "@/modules/roles/services/role.service";
 import { RoleManager } from "@/modules/roles/components/RoleManager";
 import { AppError } from "@/lib/utils/errors";
 
@@ -14,12 +18,14 @@ export default async function RolesPage() {
 
   let roles = null;
   let permissions = null;
+  let fieldTargets = null;
   let error = null;
 
   try {
-    [roles, permissions] = await Promise.all([
+    [roles, permissions, fieldTargets] = await Promise.all([
       getRoles(ctx),
       getAllPermissions(ctx),
+      getFieldPermissionTargets(ctx),
     ]);
   } catch (err) {
     if (err instanceof AppError && err.code === "FORBIDDEN") {
@@ -54,10 +60,15 @@ export default async function RolesPage() {
           Roles & Permissions
         </h1>
         <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
-          Create and manage roles with granular permission control.
+          Create and manage roles with granular permission control, down to
+          which module fields each role can see or edit.
         </p>
       </div>
-      <RoleManager initialRoles={roles!} allPermissions={permissions!} />
+      <RoleManager
+        initialRoles={roles!}
+        allPermissions={permissions!}
+        fieldTargets={fieldTargets!}
+      />
       </div>
     </div>
   );
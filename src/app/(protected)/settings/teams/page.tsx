@@ -0,0 +1,63 @@
+import { redirect } from "next/navigation";
+import { getAuthContext } from "@/lib/permissions/rbac";
+import { AppError } from "@/lib/utils/errors";
+import { getTeams } from "@/modules/teams/services/team.service";
+import { getUserOptions } from "@/modules/users/services/user.service";
+import { TeamManager } from "@/modules/teams/components/TeamManager";
+
+export const metadata = {
+  title: "Teams — AressCRM",
+};
+
+export default async function TeamsPage() {
+  const ctx = await getAuthContext();
+  if (!ctx) redirect("/login");
+
+  let teams = null;
+  let error = null;
+
+  try {
+    teams = await getTeams(ctx);
+  } catch (err) {
+    if (err instanceof AppError && err.code === "FORBIDDEN") {
+      error = "You don't have permission to manage teams.";
+    } else {
+      throw err;
+    }
+  }
+
+  if (error) {
+    return (
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="space-y-6">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Teams
+          </h1>
+          <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-yellow-800">
+            <p className="font-medium">Access Denied</p>
+            <p className="mt-1 text-sm">{error}</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const users = await getUserOptions(ctx);
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Teams
+          </h1>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Roles with a team permission (e.g. <code>object:read:team</code>) can work on records
+            owned or created by anyone on their teams. Records can also be shared with a whole team.
+          </p>
+        </div>
+        <TeamManager teams={teams!} users={users} />
+      </div>
+    </div>
+  );
+}
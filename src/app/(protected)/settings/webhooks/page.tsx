@@ -0,0 +1,84 @@
+import { redirect } from "next/navigation";
+import { getAuthContext } from "@/lib/permissions/rbac";
+import { AppError } from "@/lib/utils/errors";
+import { getObjectTypes } from "@/modules/engine/services/object-type.service";
+import {
+  getWebhooks,
+  getWebhookDeliveries,
+} from "@/modules/webhooks/services/webhook.service";
+import { WebhookManager } from "@/modules/webhooks/components/WebhookManager";
+import { WebhookDeliveryLog } from "@/modules/webhooks/components/WebhookDeliveryLog";
+
+export const metadata = {
+  title: "Webhooks — AressCRM",
+};
+
+export default async function WebhooksPage() {
+  const ctx = await getAuthContext();
+  if (!ctx) redirect("/login");
+
+  let webhooks = null;
+  let error = null;
+
+  try {
+    webhooks = await getWebhooks(ctx);
+  } catch (err) {
+    if (err instanceof AppError && err.code === "FORBIDDEN") {
+      error = "You don't have permission to manage webhooks.";
+    } else {
+      throw err;
+    }
+  }
+
+  if (error) {
+    return (
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="space-y-6">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Webhooks
+          </h1>
+          <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-yellow-800">
+            <p className="font-medium">Access Denied</p>
+            <p className="mt-1 text-sm">{error}</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const [objectTypes, { deliveries, total }] = await Promise.all([
+    getObjectTypes(ctx),
+    getWebhookDeliveries(ctx, { limit: 25 }),
+  ]);
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6">
+      <div className="space-y-8">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Webhooks
+          </h1>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Notify external systems when objects, relations and proposals change.
+            Deliveries are signed with HMAC-SHA256 (<code>X-AressCRM-Signature</code>) and
+            retried with backoff.
+          </p>
+        </div>
+        <WebhookManager
+          initialWebhooks={webhooks!}
+          objectTypes={objectTypes.map((t) => ({ id: t.id, display_name: t.display_name }))}
+        />
+        <div className="space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Delivery Log
+          </h2>
+          <WebhookDeliveryLog
+            webhooks={webhooks!}
+            initialDeliveries={deliveries}
+            initialTotal={total}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
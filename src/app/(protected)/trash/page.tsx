@@ -0,0 +1,50 @@
+import { redirect } from "next/navigation";
+import { getAuthContext } from "@/lib/permissions/rbac";
+import { getTrash, getTrashRetentionDays } from "@/modules/engine/services/trash.service";
+import { TrashBin } from "@/modules/engine/components/TrashBin";
+import { AppError } from "@/lib/utils/errors";
+
+export const metadata = {
+  title: "Trash — AressCRM",
+};
+
+export default async function TrashPage() {
+  const ctx = await getAuthContext();
+  if (!ctx) redirect("/login");
+
+  let objects;
+  try {
+    objects = await getTrash(ctx);
+  } catch (err) {
+    if (err instanceof AppError && err.code === "FORBIDDEN") {
+      return (
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="space-y-6">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Trash</h1>
+            <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-yellow-800">
+              <p className="font-medium">Access Denied</p>
+              <p className="mt-1 text-sm">
+                You don&apos;t have permission to delete or restore objects.
+              </p>
+            </div>
+          </div>
+        </div>
+      );
+    }
+    throw err;
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Trash</h1>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Deleted objects keep their modules and relations until they are restored or purged.
+          </p>
+        </div>
+        <TrashBin objects={objects} retentionDays={getTrashRetentionDays()} />
+      </div>
+    </div>
+  );
+}
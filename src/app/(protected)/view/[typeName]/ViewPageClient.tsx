@@ -2,11 +2,42 @@
 
 import { useRouter, useSearchParams } from "next/navigation";
 import { useCallback, useState, useTransition } from "react";
-import type { ObjectWithModules } from "@/modules/engine/types/object.types";
-import type { View, ViewFilter, ViewSort } from "@/modules/engine/services/view.service";
+import type { ObjectGroups, ObjectWithModules } from "@/modules/engine/types/object.types";
+import type { View, ViewFieldConfig, ViewSort } from "@/modules/engine/services/view.service";
 import type { ModuleFieldDef } from "@/modules/engine/types/module.types";
+import {
+  RECORD_MODULE,
+  RecordFields,
+  type ViewFilterNode,
+} from "@/modules/engine/types/view-filter.types";
+import {
+  DATE_LAYOUT_LIMIT,
+  DATE_LAYOUTS,
+  DEFAULT_CARD_FIELDS,
+  type AggregateFunction,
+  type CalendarMode,
+  type ViewFieldRef,
+  type ViewLayoutConfig,
+  type ViewLayoutType,
+} from "@/modules/engine/types/view-layout.types";
 import { RecordTable, type ColumnDef } from "@/components/records/RecordTable";
-import { RecordKanban } from "@/components/records/RecordKanban";
+import {
+  NO_VALUE,
+  RecordKanban,
+  type KanbanChanges,
+  type KanbanColumnTotal,
+} from "@/components/records/RecordKanban";
+import {
+  RecordCalendar,
+  type DateChanges,
+  type DateFieldOption,
+} from "@/components/records/RecordCalendar";
+import { RecordTimeline } from "@/components/records/RecordTimeline";
+import { RecordGallery, type GalleryField } from "@/components/records/RecordGallery";
+import {
+  BulkActionBar,
+  type BulkRelationOption,
+} from "@/components/records/BulkActionBar";
 import { ViewToolbar, type AvailableField } from "@/components/views/ViewToolbar";
 import { createViewAction, updateViewAction, deleteViewAction } from "@/modules/engine/actions/view.actions";
 import { updateObjectModuleAction } from "@/modules/engine/actions/object.actions";
@@ -27,13 +58,40 @@ interface ViewPageClientProps {
   objects: ObjectWithModules[];
   total: number;
   currentPage: number;
+  /** Keyset cursor of the next page, when the query runs in the database */
+  nextCursor: string | null;
   columns: ColumnDef[];
   availableFields: AvailableField[];
   kanbanFieldDef: ModuleFieldDef | null;
   kanbanModuleName: string | null;
   kanbanFieldKey: string | null;
+  /** Calendar and timeline: date fields and the range shown */
+  dateLayout: {
+    startField: ViewFieldRef | null;
+    endField: ViewFieldRef | null;
+    mode: CalendarMode;
+    anchor: string;
+    range: { start: string; end: string };
+  };
+  /** Grouped table or kanban: counts and totals over every matching record */
+  groups: ObjectGroups | null;
+  /** Options for the bulk action bar */
+  bulk: {
+    modules: { id: string; displayName: string }[];
+    users: { id: string; full_name: string }[];
+    stage: { options: { value: string; label: string }[] } | null;
+    relations: BulkRelationOption[];
+  };
 }
 
+/** Record columns offered next to module fields in filters and sorts */
+const RECORD_FIELD_OPTIONS: AvailableField[] = RecordFields.map((f) => ({
+  module: RECORD_MODULE,
+  field: f.key,
+  label: `Record — ${f.label}`,
+  fieldDef: f,
+}));
+
 // ── Component ────────────────────────────────
 
 export function ViewPageClient({
@@ -43,18 +101,76 @@ export function ViewPageClient({
   objects,
   total,
   currentPage,
+  nextCursor,
   columns,
   availableFields,
   kanbanFieldDef,
   kanbanModuleName,
   kanbanFieldKey,
+  dateLayout,
+  groups,
+  bulk,
 }: ViewPageClientProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [isPending, startTransition] = useTransition();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
 
   const activeView = views.find((v) => v.id === activeViewId) ?? views[0];
-  const totalPages = Math.ceil(total / 50);
+  const isDateLayout = DATE_LAYOUTS.includes(activeView.layoutType);
+  const totalPages = isDateLayout ? 1 : Math.ceil(total / 50);
+
+  // A saved field reference with its label and definition
+  const fieldOption = (ref: ViewFieldRef | null): DateFieldOption | null => {
+    const af = availableFields.find((f) => f.module === ref?.module && f.field === ref?.field);
+    return af ? { module: af.module, field: af.field, label: af.label, fieldDef: af.fieldDef } : null;
+  };
+  const startField = fieldOption(dateLayout.startField);
+  const endField = fieldOption(dateLayout.endField);
+
+  // Gallery cards show the view's visible fields, or the first few
+  const cardFields: GalleryField[] =
+    activeView.visibleFields.length > 0 ? columns : columns.slice(0, DEFAULT_CARD_FIELDS);
+  const coverField = fieldOption(activeView.layoutConfig.coverField ?? null);
+  const titleField = fieldOption(activeView.layoutConfig.titleField ?? null);
+
+  // Kanban cards show the same fields, without the one the columns show
+  const kanbanCardFields = cardFields
+    .filter((cf) => cf.module !== kanbanModuleName || cf.field !== kanbanFieldKey)
+    .map((cf) => ({ ...cf, label: cf.fieldDef.label }));
+  const swimlaneField = fieldOption(activeView.layoutConfig.swimlaneField ?? null);
+  const sumField = fieldOption(activeView.layoutConfig.sumField ?? null);
+  const kanbanColumns = (kanbanFieldDef?.options ?? []).map((o) => ({ value: o.value, label: o.label }));
+
+  // Server counts per kanban column; values without a column are pooled
+  const kanbanColumnTotals: Record<string, KanbanColumnTotal> | undefined =
+    activeView.layoutType === "kanban" && groups
+      ? groups.groups.reduce<Record<string, KanbanColumnTotal>>((totals, group) => {
+          const column =
+            group.value != null && kanbanColumns.some((c) => c.value === group.value)
+              ? group.value
+              : NO_VALUE;
+          const sum = sumField
+            ? group.aggregates[`${sumField.module}.${sumField.field}`]?.sum ?? null
+            : null;
+          const prev = totals[column];
+          totals[column] = {
+            count: (prev?.count ?? 0) + group.count,
+            sum: prev?.sum != null || sum != null ? (prev?.sum ?? 0) + (sum ?? 0) : null,
+          };
+          return totals;
+        }, {})
+      : undefined;
+
+  // Grouped tables: the group field, with user names for owner columns
+  const groupBy =
+    [...availableFields, ...RECORD_FIELD_OPTIONS].find(
+      (f) => f.module === activeView.groupByModule && f.field === activeView.groupByField
+    ) ?? null;
+  const groupLabels =
+    groupBy?.module === RECORD_MODULE
+      ? Object.fromEntries(bulk.users.map((u) => [u.id, u.full_name]))
+      : undefined;
 
   // ── Navigation Helpers ──────────────────────
 
@@ -74,15 +190,16 @@ export function ViewPageClient({
 
   const handleViewChange = useCallback(
     (viewId: string) => {
+      setSelectedIds([]);
       startTransition(() => {
-        pushParams({ view: viewId, page: undefined });
+        pushParams({ view: viewId, page: undefined, cursor: undefined });
       });
     },
     [pushParams]
   );
 
   const handleLayoutToggle = useCallback(
-    async (layout: "table" | "kanban") => {
+    async (layout: ViewLayoutType) => {
       await updateViewAction(activeView.id, { layoutType: layout });
       startTransition(() => router.refresh());
     },
@@ -90,10 +207,10 @@ export function ViewPageClient({
   );
 
   const handleFiltersChange = useCallback(
-    async (filters: ViewFilter[]) => {
+    async (filters: ViewFilterNode[]) => {
       await updateViewAction(activeView.id, { filters });
       startTransition(() => {
-        pushParams({ page: undefined }); // Reset to page 1
+        pushParams({ page: undefined, cursor: undefined }); // Reset to page 1
         router.refresh();
       });
     },
@@ -103,9 +220,12 @@ export function ViewPageClient({
   const handleSortsChange = useCallback(
     async (sorts: ViewSort[]) => {
       await updateViewAction(activeView.id, { sorts });
-      startTransition(() => router.refresh());
+      startTransition(() => {
+        pushParams({ page: undefined, cursor: undefined });
+        router.refresh();
+      });
     },
-    [activeView.id, router]
+    [activeView.id, router, pushParams]
   );
 
   const handleCreateView = useCallback(
@@ -142,26 +262,6 @@ export function ViewPageClient({
     [router]
   );
 
-  const handleRecordMove = useCallback(
-    async (objectId: string, newValue: string) => {
-      if (!kanbanModuleName || !kanbanFieldKey) return;
-
-      // Find the object's module id for the kanban module
-      const obj = objects.find((o) => o.id === objectId);
-      if (!obj) return;
-
-      const mod = obj.modules.find((m) => m.moduleName === kanbanModuleName);
-      if (!mod) return;
-
-      // Server update only — optimistic UI is handled in RecordKanban
-      await updateObjectModuleAction(objectId, mod.id, {
-        ...mod.data,
-        [kanbanFieldKey]: newValue,
-      });
-    },
-    [objects, kanbanModuleName, kanbanFieldKey]
-  );
-
   const handleKanbanFieldChange = useCallback(
     async (moduleName: string, fieldKey: string) => {
       await updateViewAction(activeView.id, {
@@ -173,6 +273,85 @@ export function ViewPageClient({
     [activeView.id, router]
   );
 
+  const handleLayoutConfigChange = useCallback(
+    async (layoutConfig: ViewLayoutConfig) => {
+      await updateViewAction(activeView.id, { layoutConfig });
+      startTransition(() => router.refresh());
+    },
+    [activeView.id, router]
+  );
+
+  const handleGroupByChange = useCallback(
+    async (group: ViewFieldRef | null) => {
+      await updateViewAction(activeView.id, {
+        groupByModule: group?.module ?? null,
+        groupByField: group?.field ?? null,
+      });
+      startTransition(() => {
+        pushParams({ page: undefined, cursor: undefined });
+        router.refresh();
+      });
+    },
+    [activeView.id, router, pushParams]
+  );
+
+  const handleAggregateFunctionChange = useCallback(
+    (colKey: string, fn: AggregateFunction) =>
+      handleLayoutConfigChange({
+        ...activeView.layoutConfig,
+        aggregates: { ...activeView.layoutConfig.aggregates, [colKey]: fn },
+      }),
+    [activeView.layoutConfig, handleLayoutConfigChange]
+  );
+
+  const handleVisibleFieldsChange = useCallback(
+    async (visibleFields: ViewFieldConfig[]) => {
+      await updateViewAction(activeView.id, { visibleFields });
+      startTransition(() => router.refresh());
+    },
+    [activeView.id, router]
+  );
+
+  const handleCalendarModeChange = useCallback(
+    (calendarMode: CalendarMode) =>
+      handleLayoutConfigChange({ ...activeView.layoutConfig, calendarMode }),
+    [activeView.layoutConfig, handleLayoutConfigChange]
+  );
+
+  const handleDateChange = useCallback(
+    (anchor: string) => {
+      startTransition(() => {
+        pushParams({ date: anchor });
+      });
+    },
+    [pushParams]
+  );
+
+  const handleRecordFieldsChange = useCallback(
+    async (objectId: string, changes: DateChanges | KanbanChanges) => {
+      const obj = objects.find((o) => o.id === objectId);
+      if (!obj) return;
+
+      // One update per module holding a moved field; optimistic UI is
+      // handled in the calendar, timeline and kanban
+      for (const [moduleName, values] of Object.entries(changes)) {
+        const mod = obj.modules.find((m) => m.moduleName === moduleName);
+        if (!mod) continue;
+        await updateObjectModuleAction(objectId, mod.moduleId, { ...mod.data, ...values });
+      }
+    },
+    [objects]
+  );
+
+  const handleModuleDataSave = useCallback(
+    async (objectId: string, moduleId: string, data: Record<string, unknown>) => {
+      // Optimistic UI and per-cell errors are handled in RecordTable
+      const result = await updateObjectModuleAction(objectId, moduleId, data);
+      return result.success ? null : result.error;
+    },
+    []
+  );
+
   const handleExport = useCallback(() => {
     // Build CSV from current objects using columns config
     const headers = columns.map((c) => c.label);
@@ -201,9 +380,13 @@ export function ViewPageClient({
 
   const handlePageChange = useCallback(
     (newPage: number) => {
-      pushParams({ page: String(newPage) });
+      // Step forward by cursor so rows don't shift between pages
+      pushParams({
+        page: String(newPage),
+        cursor: newPage === currentPage + 1 && nextCursor ? nextCursor : undefined,
+      });
     },
-    [pushParams]
+    [pushParams, currentPage, nextCursor]
   );
 
   // ── Render ──────────────────────────────────
@@ -240,10 +423,35 @@ export function ViewPageClient({
         onCreateView={handleCreateView}
         onDeleteView={handleDeleteView}
         onKanbanFieldChange={handleKanbanFieldChange}
+        onGroupByChange={handleGroupByChange}
+        onLayoutConfigChange={handleLayoutConfigChange}
+        dateFields={{ startField: dateLayout.startField, endField: dateLayout.endField }}
+        cardFields={cardFields}
+        kanbanColumns={kanbanColumns}
+        onVisibleFieldsChange={handleVisibleFieldsChange}
         onExport={handleExport}
         recordCount={total}
+        recordFields={RECORD_FIELD_OPTIONS}
+        users={bulk.users}
       />
 
+      {/* Bulk actions on the selected records */}
+      {activeView.layoutType === "table" && (
+        <BulkActionBar
+          objectTypeId={objectType.id}
+          viewId={activeView.id}
+          total={total}
+          pageIds={objects.map((o) => o.id)}
+          selectedIds={selectedIds}
+          onSelectionChange={setSelectedIds}
+          fields={availableFields}
+          modules={bulk.modules}
+          users={bulk.users}
+          stage={bulk.stage}
+          relations={bulk.relations}
+        />
+      )}
+
       {/* Loading overlay */}
       {isPending && (
         <div className="flex h-1 bg-gray-100 dark:bg-gray-800">
@@ -261,6 +469,54 @@ export function ViewPageClient({
             onSortChange={handleSortsChange}
             onRecordClick={handleRecordClick}
             loading={isPending}
+            selectedIds={selectedIds}
+            onSelectionChange={setSelectedIds}
+            groupBy={groupBy}
+            groups={groups}
+            groupLabels={groupLabels}
+            aggregateFunctions={activeView.layoutConfig.aggregates}
+            onAggregateFunctionChange={handleAggregateFunctionChange}
+            onModuleDataSave={handleModuleDataSave}
+          />
+        ) : activeView.layoutType === "gallery" ? (
+          <RecordGallery
+            objects={objects}
+            cardFields={cardFields}
+            coverField={coverField}
+            titleField={titleField}
+            onRecordClick={handleRecordClick}
+            loading={isPending}
+          />
+        ) : isDateLayout && !startField ? (
+          <div className="flex flex-1 items-center justify-center text-sm text-gray-400">
+            No date field available for this view.
+            <br />
+            Switch to Table view or add a date field to your modules.
+          </div>
+        ) : activeView.layoutType === "calendar" && startField ? (
+          <RecordCalendar
+            objects={objects}
+            startField={startField}
+            mode={dateLayout.mode}
+            anchor={dateLayout.anchor}
+            range={dateLayout.range}
+            onModeChange={handleCalendarModeChange}
+            onAnchorChange={handleDateChange}
+            onRecordMove={handleRecordFieldsChange}
+            onRecordClick={handleRecordClick}
+            loading={isPending}
+          />
+        ) : activeView.layoutType === "timeline" && startField ? (
+          <RecordTimeline
+            objects={objects}
+            startField={startField}
+            endField={endField}
+            anchor={dateLayout.anchor}
+            range={dateLayout.range}
+            onAnchorChange={handleDateChange}
+            onRecordMove={handleRecordFieldsChange}
+            onRecordClick={handleRecordClick}
+            loading={isPending}
           />
         ) : kanbanFieldDef && kanbanModuleName && kanbanFieldKey ? (
           <RecordKanban
@@ -268,16 +524,12 @@ export function ViewPageClient({
             kanbanModuleName={kanbanModuleName}
             kanbanFieldKey={kanbanFieldKey}
             kanbanFieldDef={kanbanFieldDef}
-            cardFields={availableFields
-              .filter((af) => af.module !== kanbanModuleName || af.field !== kanbanFieldKey)
-              .slice(0, 3)
-              .map((af) => ({
-                module: af.module,
-                field: af.field,
-                label: af.fieldDef.label,
-                fieldDef: af.fieldDef,
-              }))}
-            onRecordMove={handleRecordMove}
+            cardFields={kanbanCardFields}
+            swimlaneField={swimlaneField}
+            wipLimits={activeView.layoutConfig.wipLimits}
+            sumField={sumField}
+            columnTotals={kanbanColumnTotals}
+            onRecordMove={handleRecordFieldsChange}
             onRecordClick={handleRecordClick}
             loading={isPending}
           />
@@ -290,6 +542,14 @@ export function ViewPageClient({
         )}
       </div>
 
+      {/* Date layouts load one range, up to a limit */}
+      {isDateLayout && total > DATE_LAYOUT_LIMIT && (
+        <div className="border-t border-gray-200 px-6 py-2 text-xs text-gray-400 dark:border-gray-800">
+          Showing the first {DATE_LAYOUT_LIMIT.toLocaleString()} of {total.toLocaleString()} records
+          in this period. Add filters to narrow it down.
+        </div>
+      )}
+
       {/* Pagination */}
       {totalPages > 1 && (
         <div className="flex items-center justify-between border-t border-gray-200 px-6 py-2 dark:border-gray-800">
@@ -2,9 +2,27 @@ import { Suspense } from "react";
 import { notFound, redirect } from "next/navigation";
 import { getAuthContext } from "@/lib/permissions/rbac";
 import { createAdminClient } from "@/lib/supabase/admin";
-import { getObjects } from "@/modules/engine/services/object.service";
+import { getObjectGroups, getObjects } from "@/modules/engine/services/object.service";
 import { getViewsForType, ensureDefaultView } from "@/modules/engine/services/view.service";
-import { parseModuleSchema } from "@/modules/engine/types/module.types";
+import {
+  dateRangeFilter,
+  viewFiltersToObjectFilters,
+  viewSortsToObjectSorts,
+} from "@/modules/engine/services/view-query.service";
+import { getRollupFields } from "@/modules/engine/services/rollup.service";
+import { getActiveWorkflow } from "@/modules/engine/services/workflow.service";
+import { getObjectTypeRelations } from "@/modules/engine/services/object-type-relation.service";
+import { getUserOptions } from "@/modules/users/services/user.service";
+import { displayFieldType, parseModuleSchema } from "@/modules/engine/types/module.types";
+import type { ModuleFieldDef } from "@/modules/engine/types/module.types";
+import { ROLLUP_MODULE } from "@/modules/engine/types/rollup.types";
+import {
+  DATE_LAYOUTS,
+  DATE_LAYOUT_LIMIT,
+  dateLayoutRange,
+  isDayValue,
+  type ViewFieldRef,
+} from "@/modules/engine/types/view-layout.types";
 import { ViewPageClient } from "./ViewPageClient";
 
 export default async function ViewPage({
@@ -12,13 +30,13 @@ export default async function ViewPage({
   searchParams,
 }: {
   params: Promise<{ typeName: string }>;
-  searchParams: Promise<{ view?: string; page?: string }>;
+  searchParams: Promise<{ view?: string; page?: string; cursor?: string; date?: string }>;
 }) {
   const ctx = await getAuthContext();
   if (!ctx) redirect("/login");
 
   const { typeName } = await params;
-  const { view: viewId, page } = await searchParams;
+  const { view: viewId, page, cursor, date } = await searchParams;
 
   const admin = createAdminClient();
 
@@ -68,38 +86,82 @@ export default async function ViewPage({
   // 5. Load objects with filters from the active view
   const currentPage = page ? parseInt(page, 10) : 1;
 
-  // Convert view filters to ObjectFilter format
-  const objectFilters = activeView.filters.map((f) => ({
-    moduleName: f.module,
-    fieldKey: f.field,
-    operator: f.operator as any,
-    value: f.value as any,
-  }));
+  // The view's filters and sorts run in the database; "next page" links
+  // carry a keyset cursor, other pages go by offset
+  const objectFilters = viewFiltersToObjectFilters(activeView.filters);
+
+  // Calendars and timelines load the records of one date range around
+  // the `date` param, placed by the saved date fields or the first one
+  const dateFieldRefs: ViewFieldRef[] = moduleSchemas.flatMap((mod) =>
+    mod.schema.fields
+      .filter((f) => f.type === "date" || f.type === "datetime")
+      .map((f) => ({ module: mod.moduleName, field: f.key }))
+  );
+  const findDateField = (ref: ViewFieldRef | undefined) =>
+    dateFieldRefs.find((f) => f.module === ref?.module && f.field === ref?.field) ?? null;
+  const { layoutConfig } = activeView;
+  const startField = findDateField(layoutConfig.startField) ?? dateFieldRefs[0] ?? null;
+  const endField = activeView.layoutType === "timeline" ? findDateField(layoutConfig.endField) : null;
+  const calendarMode = layoutConfig.calendarMode ?? "month";
+  const anchor = isDayValue(date) ? date.slice(0, 10) : new Date().toISOString().slice(0, 10);
+  const range = dateLayoutRange(activeView.layoutType, calendarMode, anchor);
+  const dateField = DATE_LAYOUTS.includes(activeView.layoutType) ? startField : null;
+
+  if (dateField) objectFilters.push(dateRangeFilter(dateField, endField, range));
 
-  // Convert view sorts
-  const sortModule = activeView.sorts?.[0]?.module;
-  const sortField = activeView.sorts?.[0]?.field;
-  const sortOrder = activeView.sorts?.[0]?.direction;
+  // Grouped tables sort by the group field first, so each group's rows
+  // are contiguous across pages
+  const groupBy =
+    activeView.layoutType === "table" && activeView.groupByModule && activeView.groupByField
+      ? { moduleName: activeView.groupByModule, fieldKey: activeView.groupByField }
+      : null;
+  const viewSorts = viewSortsToObjectSorts(activeView.sorts ?? []);
+  const tableSorts = groupBy
+    ? [
+        { ...groupBy, direction: "asc" as const },
+        ...viewSorts.filter(
+          (s) => s.moduleName !== groupBy.moduleName || s.fieldKey !== groupBy.fieldKey
+        ),
+      ]
+    : viewSorts;
 
-  const { objects, total } = await getObjects(ctx, {
+  const { objects, total, nextCursor } = await getObjects(ctx, {
     objectType: typeName,
     filters: objectFilters.length > 0 ? objectFilters : undefined,
-    sortModule,
-    sortField,
-    sortOrder,
-    page: currentPage,
-    limit: 50,
+    sorts: dateField
+      ? [{ moduleName: dateField.module, fieldKey: dateField.field, direction: "asc" }]
+      : tableSorts,
+    page: dateField ? 1 : currentPage,
+    cursor: dateField ? undefined : cursor,
+    limit: dateField ? DATE_LAYOUT_LIMIT : 50,
   });
 
   // 6. Build available fields for filter/sort/column config
-  const availableFields = moduleSchemas.flatMap((mod) =>
-    mod.schema.fields.map((field) => ({
-      module: mod.moduleName,
-      field: field.key,
-      label: `${mod.displayName} — ${field.label}`,
-      fieldDef: field,
-    }))
-  );
+  // Rollups sit alongside module fields under a reserved module name
+  const rollups = await getRollupFields(ctx, objectType.id);
+  const availableFields = [
+    ...moduleSchemas.flatMap((mod) =>
+      mod.schema.fields.map((field) => ({
+        module: mod.moduleName,
+        field: field.key,
+        label: `${mod.displayName} — ${field.label}`,
+        fieldDef: field,
+      }))
+    ),
+    ...rollups.map((r) => {
+      const fieldDef: ModuleFieldDef = {
+        key: r.key,
+        label: r.label,
+        type: ["count", "sum", "avg"].includes(r.aggregate) ? "number" : "text",
+      };
+      return {
+        module: ROLLUP_MODULE,
+        field: r.key,
+        label: `Rollup — ${r.label}`,
+        fieldDef,
+      };
+    }),
+  ];
 
   // 7. Build column definitions
   // If the view has visible fields configured, use those.
@@ -148,6 +210,74 @@ export default async function ViewPage({
     }
   }
 
+  const defaultKanbanField = availableFields.find((af) => af.fieldDef.type === "select");
+  const kanbanModuleName = activeView.kanbanModuleName ?? defaultKanbanField?.module ?? null;
+  const kanbanFieldKey = activeView.kanbanFieldKey ?? defaultKanbanField?.field ?? null;
+
+  // Group counts and totals cover every matching record, not just this
+  // page: per group of a grouped table over its numeric columns, per
+  // kanban column over the board's sum field
+  const isNumericField = (af: (typeof availableFields)[number]) =>
+    displayFieldType(af.fieldDef) === "number";
+  const numericColumns = availableFields.filter(
+    (af) =>
+      isNumericField(af) &&
+      (activeView.visibleFields.length === 0 ||
+        activeView.visibleFields.some((vf) => vf.module === af.module && vf.field === af.field))
+  );
+  const sumField = availableFields.find(
+    (af) =>
+      isNumericField(af) &&
+      af.module === layoutConfig.sumField?.module &&
+      af.field === layoutConfig.sumField?.field
+  );
+  const groups = groupBy
+    ? await getObjectGroups(ctx, {
+        objectType: typeName,
+        filters: objectFilters,
+        groupBy,
+        aggregates: numericColumns.map((af) => ({ moduleName: af.module, fieldKey: af.field })),
+      })
+    : activeView.layoutType === "kanban" && kanbanFieldDef && kanbanModuleName && kanbanFieldKey
+      ? await getObjectGroups(ctx, {
+          objectType: typeName,
+          filters: objectFilters,
+          groupBy: { moduleName: kanbanModuleName, fieldKey: kanbanFieldKey },
+          aggregates: sumField ? [{ moduleName: sumField.module, fieldKey: sumField.field }] : [],
+        })
+      : null;
+
+  // 9. Options for bulk actions on selected records
+  const [{ data: allModules }, users, workflow, relationDefs] = await Promise.all([
+    admin.from("modules").select("id, display_name").order("display_name"),
+    getUserOptions(ctx),
+    getActiveWorkflow(objectType.id),
+    getObjectTypeRelations(ctx, objectType.id),
+  ]);
+
+  // The stage is the workflow field, else the conventional stage.status select
+  const stageOptions = workflow
+    ? workflow.states.map((s) => ({ value: s.value, label: s.label }))
+    : availableFields.find((af) => af.module === "stage" && af.field === "status")?.fieldDef
+        .options ?? null;
+
+  const bulkRelations = relationDefs
+    .filter((r) => r.is_active)
+    .map((r) =>
+      r.source_type_id === objectType.id
+        ? {
+            relationType: r.source_field_name,
+            label: `${r.source_field_name} → ${r.target_type_display_name ?? r.target_type_name}`,
+            targetType: r.target_type_name ?? "",
+          }
+        : {
+            relationType: r.target_field_name,
+            label: `${r.target_field_name} → ${r.source_type_display_name ?? r.source_type_name}`,
+            targetType: r.source_type_name ?? "",
+          }
+    )
+    .filter((r) => r.targetType);
+
   // Serialize for client
   const serializedViews = views.map((v) => ({
     ...v,
@@ -167,11 +297,20 @@ export default async function ViewPage({
       objects={objects}
       total={total}
       currentPage={currentPage}
+      nextCursor={nextCursor}
       columns={columns as any}
       availableFields={availableFields}
       kanbanFieldDef={kanbanFieldDef}
-      kanbanModuleName={activeView.kanbanModuleName ?? availableFields.find((af) => af.fieldDef.type === "select")?.module ?? null}
-      kanbanFieldKey={activeView.kanbanFieldKey ?? availableFields.find((af) => af.fieldDef.type === "select")?.field ?? null}
+      kanbanModuleName={kanbanModuleName}
+      kanbanFieldKey={kanbanFieldKey}
+      dateLayout={{ startField, endField, mode: calendarMode, anchor, range }}
+      groups={groups}
+      bulk={{
+        modules: (allModules ?? []).map((m) => ({ id: m.id, displayName: m.display_name })),
+        users,
+        stage: stageOptions ? { options: stageOptions } : null,
+        relations: bulkRelations,
+      }}
     />
   );
 }
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getAuthContext } from "@/lib/permissions/rbac";
 import { handleApiError } from "@/lib/utils/api";
 import * as queryService from "@/modules/engine/services/query.service";
+import { getLatestProcessorResults } from "@/modules/engine/services/processor-result.service";
 
 /**
  * GET /api/dashboard — Dashboard stats with optional aggregation params
@@ -9,6 +10,7 @@ import * as queryService from "@/modules/engine/services/query.service";
  * Query params:
  *   ?aggregate=component.field.sum    (returns numeric aggregation)
  *   ?countBy=component.field          (returns distribution)
+ *   ?processor=project[&objectTypeId=] (returns stored results of the latest scheduled run)
  *   (no params)                       (returns full dashboard stats)
  */
 export async function GET(request: NextRequest) {
@@ -53,6 +55,17 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ data: result });
     }
 
+    // Stored processor results mode
+    const processor = searchParams.get("processor");
+    if (processor) {
+      const result = await getLatestProcessorResults(
+        ctx,
+        processor,
+        searchParams.get("objectTypeId") ?? undefined
+      );
+      return NextResponse.json({ data: result });
+    }
+
     // Default: full dashboard stats
     const stats = await queryService.getDashboardStats(ctx);
     return NextResponse.json({ data: stats });
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Actions } from "@/lib/permissions/actions";
+import { handleApiError } from "@/lib/utils/api";
+import { isCronAuthorized } from "@/lib/cron/auth";
+import { scanDuplicates } from "@/modules/engine/services/duplicate.service";
+
+/**
+ * POST /api/duplicates/scan
+ *
+ * Runs every active duplicate rule and adds newly flagged pairs to the
+ * review queue. Call it from a scheduler (e.g. nightly).
+ * Security: Requires CRON_SECRET or SUPABASE_SERVICE_ROLE_KEY as Authorization
+ * header, or a signed-in user with object:merge.
+ *
+ * Usage:
+ * curl -X POST http://localhost:3000/api/duplicates/scan \
+ *   -H "Authorization: Bearer <CRON_SECRET>"
+ */
+export async function POST(req: NextRequest) {
+  try {
+    if (!(await isCronAuthorized(req, Actions.OBJECT_MERGE))) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const summary = await scanDuplicates();
+    return NextResponse.json(summary);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
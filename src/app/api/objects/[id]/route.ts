@@ -23,7 +23,7 @@ export async function GET(
 }
 
 /**
- * DELETE /api/objects/[id] — Delete object
+ * DELETE /api/objects/[id] — Move object to the trash
  */
 export async function DELETE(
   request: Request,
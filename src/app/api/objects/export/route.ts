@@ -1,81 +1,70 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getAuthContext, requirePermission } from "@/lib/permissions/rbac";
+import {
+  getAuthContext,
+  getFieldPermission,
+  getModulePermission,
+  requirePermission,
+} from "@/lib/permissions/rbac";
 import { Actions } from "@/lib/permissions/actions";
+import type { AuthContext } from "@/lib/permissions/rbac";
 import { createAdminClient } from "@/lib/supabase/admin";
+import type { Json } from "@/lib/supabase/database.types";
 import { handleApiError } from "@/lib/utils/api";
-
-/**
- * GET /api/objects/export?type=deal&format=csv
- *
- * Exports objects data in CSV, JSON, or plain text format.
- * Query params:
- *   - type: object type name to filter (optional)
- *   - format: csv | json | text (default: csv)
- *   - limit: max rows (default: 500)
- */
-export async function GET(req: NextRequest) {
-  try {
-  const ctx = await getAuthContext();
-  if (!ctx) {
-    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-  }
-
-  // Check read permission before allowing export
-  requirePermission(ctx, Actions.OBJECT_READ);
-
-  const { searchParams } = req.nextUrl;
-  const objectType = searchParams.get("type") || undefined;
-  const format = searchParams.get("format") || "csv";
-  const limit = Math.min(Number(searchParams.get("limit") || 500), 5000);
-
+import { AppError } from "@/lib/utils/errors";
+import { bulkSelectionSchema } from "@/modules/engine/schemas/bulk.schema";
+import { resolveSelection } from "@/modules/engine/services/bulk.service";
+import { requireRecordScope } from "@/modules/engine/services/sharing.service";
+import type { BulkSelection } from "@/modules/engine/types/bulk.types";
+
+type ExportObject = {
+  id: string;
+  object_type_id: string;
+  created_at: string;
+  object_types: { name: string; display_name: string } | null;
+};
+
+const EXPORT_SELECT = "id, object_type_id, created_at, updated_at, object_types(name, display_name)";
+
+/** IDs per `in` filter, to keep request URLs short */
+const ID_CHUNK_SIZE = 200;
+
+// ── Helpers ──────────────────────────────────
+
+/** One row per object, from the modules and fields the user can read */
+async function buildRows(
+  ctx: AuthContext,
+  objects: ExportObject[]
+): Promise<Record<string, string>[]> {
   const admin = createAdminClient();
 
-  // Get objects
-  let query = admin
-    .from("objects")
-    .select("id, object_type_id, created_at, updated_at, object_types(name, display_name)")
-    .order("created_at", { ascending: false })
-    .limit(limit);
-
-  if (objectType) {
-    const { data: typeRow } = await admin
-      .from("object_types")
-      .select("id")
-      .eq("name", objectType)
-      .single();
-    if (typeRow) {
-      query = query.eq("object_type_id", typeRow.id);
-    }
-  }
-
-  const { data: objects, error } = await query;
-  if (error) {
-    return NextResponse.json({ error: error.message }, { status: 500 });
-  }
-  if (!objects || objects.length === 0) {
-    return new NextResponse("No data found", { status: 404 });
+  // Load all module data
+  const objectIds = objects.map((o) => o.id);
+  const allMods: { object_id: string; module_id: string; data: Json }[] = [];
+  for (let i = 0; i < objectIds.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await admin
+      .from("object_modules")
+      .select("object_id, module_id, data, modules(name)")
+      .in("object_id", objectIds.slice(i, i + ID_CHUNK_SIZE));
+    if (error) throw new AppError("DB_ERROR", error.message);
+    allMods.push(...(data ?? []));
   }
 
-  // Load all module data
-  const objectIds = objects.map((o: any) => o.id);
-  const { data: allMods } = await admin
-    .from("object_modules")
-    .select("object_id, data, modules(name)")
-    .in("object_id", objectIds);
-
-  // Build rows
-  const rows = objects.map((o: any) => {
-    const objMods = (allMods ?? []).filter((m: any) => m.object_id === o.id);
+  return objects.map((o) => {
+    const objMods = allMods.filter(
+      (m) =>
+        m.object_id === o.id && getModulePermission(ctx, m.module_id, o.object_type_id).canRead
+    );
     const row: Record<string, string> = {
       id: o.id,
-      type: (o as any).object_types?.display_name ?? "Unknown",
+      type: o.object_types?.display_name ?? "Unknown",
       created_at: o.created_at,
     };
 
     for (const mod of objMods) {
-      const modName = (mod as any).modules?.name ?? "unknown";
+      const modName = (mod as unknown as { modules: { name: string } | null }).modules?.name ?? "unknown";
       if (mod.data && typeof mod.data === "object") {
         for (const [key, value] of Object.entries(mod.data as Record<string, unknown>)) {
+          if (!getFieldPermission(ctx, mod.module_id, o.object_type_id, key).canRead) continue;
           row[`${modName}_${key}`] = String(value ?? "");
         }
       }
@@ -83,7 +72,10 @@ export async function GET(req: NextRequest) {
 
     return row;
   });
+}
 
+/** Serialize rows as a csv, json or text download */
+function respond(rows: Record<string, string>[], format: string, filename: string) {
   // Derive all columns
   const colSet = new Set<string>();
   for (const row of rows) {
@@ -91,8 +83,6 @@ export async function GET(req: NextRequest) {
   }
   const columns = Array.from(colSet);
 
-  const filename = `export-${objectType ?? "all"}-${new Date().toISOString().slice(0, 10)}`;
-
   if (format === "json") {
     return NextResponse.json(rows, {
       headers: {
@@ -126,6 +116,120 @@ export async function GET(req: NextRequest) {
       "Content-Disposition": `attachment; filename="${filename}.csv"`,
     },
   });
+}
+
+// ── Handlers ─────────────────────────────────
+
+/**
+ * GET /api/objects/export?type=deal&format=csv
+ *
+ * Exports objects data in CSV, JSON, or plain text format.
+ * Query params:
+ *   - type: object type name to filter (optional)
+ *   - format: csv | json | text (default: csv)
+ *   - limit: max rows (default: 500)
+ */
+export async function GET(req: NextRequest) {
+  try {
+  const ctx = await getAuthContext();
+  if (!ctx) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  // Check read permission before allowing export
+  requirePermission(ctx, Actions.OBJECT_READ);
+
+  const { searchParams } = req.nextUrl;
+  const objectType = searchParams.get("type") || undefined;
+  const format = searchParams.get("format") || "csv";
+  const limit = Math.min(Number(searchParams.get("limit") || 500), 5000);
+
+  const admin = createAdminClient();
+
+  // Get objects
+  let query = admin
+    .from("objects")
+    .select(EXPORT_SELECT)
+    .is("deleted_at", null)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (objectType) {
+    const { data: typeRow } = await admin
+      .from("object_types")
+      .select("id")
+      .eq("name", objectType)
+      .single();
+    if (typeRow) {
+      query = query.eq("object_type_id", typeRow.id);
+    }
+  }
+
+  const { data: objects, error } = await query;
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!objects || objects.length === 0) {
+    return new NextResponse("No data found", { status: 404 });
+  }
+
+  const rows = await buildRows(ctx, objects as unknown as ExportObject[]);
+  const filename = `export-${objectType ?? "all"}-${new Date().toISOString().slice(0, 10)}`;
+  return respond(rows, format, filename);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
+
+/**
+ * POST /api/objects/export
+ *
+ * Exports a record selection — explicit IDs or every record matching a
+ * view — e.g. the selection of a bulk action.
+ * Body: { selection: { objectTypeId, ids } | { objectTypeId, viewId }, format }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    // The selection is limited to the records the user can read
+    await requireRecordScope(ctx, "read");
+
+    const body = (await req.json().catch(() => ({}))) as { selection?: unknown; format?: string };
+    const parsed = bulkSelectionSchema.safeParse(body.selection);
+    if (!parsed.success) {
+      throw new AppError(
+        "VALIDATION",
+        parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join(", ")
+      );
+    }
+    const format = body.format || "csv";
+
+    const ids = await resolveSelection(ctx, parsed.data as BulkSelection);
+    if (ids.length === 0) {
+      return new NextResponse("No data found", { status: 404 });
+    }
+
+    const admin = createAdminClient();
+    const objects: ExportObject[] = [];
+    for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+      const { data, error } = await admin
+        .from("objects")
+        .select(EXPORT_SELECT)
+        .in("id", ids.slice(i, i + ID_CHUNK_SIZE))
+        .is("deleted_at", null);
+      if (error) throw new AppError("DB_ERROR", error.message);
+      objects.push(...((data ?? []) as unknown as ExportObject[]));
+    }
+    objects.sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+    const rows = await buildRows(ctx, objects);
+    const typeName = objects[0]?.object_types?.name ?? "selection";
+    const filename = `export-${typeName}-${new Date().toISOString().slice(0, 10)}`;
+    return respond(rows, format, filename);
   } catch (err) {
     return handleApiError(err);
   }
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthContext } from "@/lib/permissions/rbac";
+import { handleApiError } from "@/lib/utils/api";
+import { AppError } from "@/lib/utils/errors";
+import { parseCsv, toCsv } from "@/lib/utils/csv";
+import { importObjects } from "@/modules/engine/services/import.service";
+import type {
+  ImportColumnMapping,
+  ImportDedupeKey,
+  ImportFormat,
+} from "@/modules/engine/types/import.types";
+
+interface ImportRequestBody {
+  objectTypeId: string;
+  /** Raw file content; parsed according to format */
+  content?: string;
+  format?: ImportFormat;
+  /** Already-parsed records (alternative to content) */
+  rows?: Record<string, unknown>[];
+  mappings: ImportColumnMapping[];
+  dedupeKey?: ImportDedupeKey;
+  dryRun?: boolean;
+  fileName?: string;
+}
+
+function parseContent(content: string, format: ImportFormat): Record<string, unknown>[] {
+  if (format === "csv") return parseCsv(content).rows;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new AppError("VALIDATION", "File is not valid JSON");
+  }
+  if (!Array.isArray(parsed) || parsed.some((r) => typeof r !== "object" || r === null)) {
+    throw new AppError("VALIDATION", "JSON imports must be an array of objects");
+  }
+  return parsed as Record<string, unknown>[];
+}
+
+/**
+ * POST /api/objects/import
+ *
+ * Imports CSV or JSON records as objects of one type.
+ * Body: { objectTypeId, content + format | rows, mappings, dedupeKey?, dryRun?, fileName? }
+ * Query params:
+ *   - report: "csv" returns the row error report as a CSV download
+ *             instead of the JSON summary
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = (await req.json()) as ImportRequestBody;
+    if (!body.objectTypeId || !Array.isArray(body.mappings)) {
+      throw new AppError("VALIDATION", "objectTypeId and mappings are required");
+    }
+
+    const rows =
+      body.rows ??
+      (body.content !== undefined ? parseContent(body.content, body.format ?? "csv") : []);
+
+    const result = await importObjects(ctx, {
+      objectTypeId: body.objectTypeId,
+      rows,
+      mappings: body.mappings,
+      dedupeKey: body.dedupeKey,
+      dryRun: body.dryRun,
+      fileName: body.fileName,
+    });
+
+    if (req.nextUrl.searchParams.get("report") === "csv") {
+      const csv = toCsv(
+        ["row", "column", "message"],
+        result.errors.map((e) => ({ ...e }))
+      );
+      return new NextResponse(csv, {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="import-errors-${Date.now()}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json(result);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
@@ -2,11 +2,16 @@ import { NextResponse } from "next/server";
 import { getAuthContext } from "@/lib/permissions/rbac";
 import { handleApiError } from "@/lib/utils/api";
 import * as objectService from "@/modules/engine/services/object.service";
-import type { ObjectQueryParams, ObjectFilter } from "@/modules/engine/types/object.types";
+import type {
+  ObjectQueryParams,
+  ObjectFilter,
+  ObjectSort,
+} from "@/modules/engine/types/object.types";
 
 /**
  * GET /api/objects — List objects with filtering
- * Query params: type, page, limit, search, filter[module][field][op]=value
+ * Query params: type, page, limit, search, cursor, filter[module][field][op]=value,
+ * sort[module][field]=asc|desc (in order of precedence)
  */
 export async function GET(request: Request) {
   try {
@@ -19,6 +24,7 @@ export async function GET(request: Request) {
       page: Number(url.searchParams.get("page") ?? "1"),
       limit: Number(url.searchParams.get("limit") ?? "50"),
       search: url.searchParams.get("search") ?? undefined,
+      cursor: url.searchParams.get("cursor") ?? undefined,
     };
 
     // Parse filters: filter[module][field][op]=value
@@ -36,6 +42,20 @@ export async function GET(request: Request) {
     }
     if (filters.length > 0) params.filters = filters;
 
+    // Parse sorts: sort[module][field]=asc|desc
+    const sorts: ObjectSort[] = [];
+    for (const [key, value] of url.searchParams.entries()) {
+      const match = key.match(/^sort\[(\w+)\]\[(\w+)\]$/);
+      if (match) {
+        sorts.push({
+          moduleName: match[1],
+          fieldKey: match[2],
+          direction: value === "asc" ? "asc" : "desc",
+        });
+      }
+    }
+    if (sorts.length > 0) params.sorts = sorts;
+
     const result = await objectService.getObjects(ctx, params);
     return NextResponse.json(result);
   } catch (err) {
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Actions } from "@/lib/permissions/actions";
+import { handleApiError } from "@/lib/utils/api";
+import { isCronAuthorized } from "@/lib/cron/auth";
+import { purgeExpiredTrash } from "@/modules/engine/services/trash.service";
+
+/**
+ * POST /api/objects/trash/purge
+ *
+ * Permanently deletes objects that have been in the trash longer than
+ * TRASH_RETENTION_DAYS (default 30). Call it from a scheduler (e.g. nightly).
+ * Security: Requires CRON_SECRET or SUPABASE_SERVICE_ROLE_KEY as Authorization
+ * header, or a signed-in user with settings:manage.
+ *
+ * Usage:
+ * curl -X POST http://localhost:3000/api/objects/trash/purge \
+ *   -H "Authorization: Bearer <CRON_SECRET>"
+ */
+export async function POST(req: NextRequest) {
+  try {
+    if (!(await isCronAuthorized(req, Actions.SETTINGS_MANAGE))) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const summary = await purgeExpiredTrash();
+    return NextResponse.json(summary);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
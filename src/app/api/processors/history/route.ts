@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthContext } from "@/lib/permissions/rbac";
+import { handleApiError } from "@/lib/utils/api";
+import { getProcessorHistory } from "@/modules/engine/services/processor-result.service";
+
+/**
+ * GET /api/processors/history?objectId=xxx[&processor=project][&limit=30]
+ * Stored results from scheduled processor runs for one object, oldest first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const objectId = searchParams.get("objectId");
+
+    if (!objectId) {
+      return NextResponse.json(
+        { error: "objectId is required" },
+        { status: 400 }
+      );
+    }
+
+    const history = await getProcessorHistory(ctx, objectId, {
+      processor: searchParams.get("processor") ?? undefined,
+      limit: searchParams.has("limit") ? Number(searchParams.get("limit")) : undefined,
+    });
+
+    return NextResponse.json({ history });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Actions } from "@/lib/permissions/actions";
+import { handleApiError } from "@/lib/utils/api";
+import { isCronAuthorized } from "@/lib/cron/auth";
+import { runScheduledProcessors } from "@/modules/engine/services/processor-result.service";
+
+/**
+ * POST /api/processors/run
+ *
+ * Runs every processor over all eligible objects and stores the results in
+ * processor_results. Call it from a scheduler (e.g. hourly or nightly).
+ * Security: Requires CRON_SECRET or SUPABASE_SERVICE_ROLE_KEY as Authorization
+ * header, or a signed-in user with settings:manage.
+ *
+ * Usage:
+ * curl -X POST http://localhost:3000/api/processors/run \
+ *   -H "Authorization: Bearer <CRON_SECRET>"
+ */
+export async function POST(req: NextRequest) {
+  try {
+    if (!(await isCronAuthorized(req, Actions.SETTINGS_MANAGE))) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const summary = await runScheduledProcessors();
+    return NextResponse.json(summary);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { getAuthContext } from "@/lib/permissions/rbac";
+import { handleApiError } from "@/lib/utils/api";
+import * as searchService from "@/modules/engine/services/search.service";
+
+/**
+ * GET /api/search — Search records, object types, views and pages
+ * Query params: q, limit (per result group)
+ */
+export async function GET(request: Request) {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const url = new URL(request.url);
+    const q = url.searchParams.get("q") ?? "";
+    const limit = Math.min(Math.max(Number(url.searchParams.get("limit") ?? "8") || 8, 1), 50);
+
+    const data = await searchService.globalSearch(ctx, q, limit);
+    return NextResponse.json({ data });
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleApiError } from "@/lib/utils/api";
+import { hasCronSecret } from "@/lib/cron/auth";
+import { processWebhookQueue } from "@/modules/webhooks/services/delivery.service";
+
+/**
+ * POST /api/webhooks/deliver
+ *
+ * Works the webhook delivery queue: sends every pending delivery whose
+ * backoff has elapsed. Call it from a scheduler (e.g. every minute) so
+ * retries go out even when no new events arrive.
+ * Security: Requires CRON_SECRET or SUPABASE_SERVICE_ROLE_KEY as Authorization header.
+ *
+ * Usage:
+ * curl -X POST http://localhost:3000/api/webhooks/deliver \
+ *   -H "Authorization: Bearer <CRON_SECRET>"
+ */
+export async function POST(req: NextRequest) {
+  try {
+    if (!hasCronSecret(req)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await processWebhookQueue();
+    return NextResponse.json(result);
+  } catch (err) {
+    return handleApiError(err);
+  }
+}
@@ -19,6 +19,7 @@ import {
   Store,
 } from "lucide-react";
 import { LogoutButton } from "./LogoutButton";
+import { CommandPalette } from "./CommandPalette";
 
 // ── Types ────────────────────────────────────
 
@@ -42,14 +43,15 @@ interface SidebarProps {
 export function AppSidebar({ permissions, objectTypes = [], userId, userEmail }: SidebarProps) {
   const pathname = usePathname();
   const [collapsed, setCollapsed] = useState(false);
-  const [searchOpen, setSearchOpen] = useState(false);
-  const [searchQuery, setSearchQuery] = useState("");
 
   const hasObjectRead =
-    permissions.includes("object:read") || permissions.includes("object:read:own");
+    permissions.includes("object:read") ||
+    permissions.includes("object:read:team") ||
+    permissions.includes("object:read:own");
   const hasSettings =
     permissions.includes("role:manage") ||
     permissions.includes("user:manage") ||
+    permissions.includes("team:manage") ||
     permissions.includes("settings:manage") ||
     permissions.includes("module:manage") ||
     permissions.includes("object_type:manage");
@@ -108,39 +110,35 @@ export function AppSidebar({ permissions, objectTypes = [], userId, userEmail }:
       {/* ── Search ── */}
       {!collapsed && (
         <div className="border-b border-gray-100 px-2 py-2 dark:border-gray-800/60">
-          {!searchOpen ? (
-            <button
-              onClick={() => setSearchOpen(true)}
-              className="flex w-full items-center gap-2 rounded-md border border-gray-200 px-2.5 py-1.5 text-xs text-gray-400 transition-colors hover:border-gray-300 hover:text-gray-500 dark:border-gray-800 dark:hover:border-gray-700"
-            >
-              <Search size={14} />
-              <span>Search</span>
-              <kbd className="ml-auto rounded border border-gray-200 px-1 text-[10px] text-gray-300 dark:border-gray-700">
-                /
-              </kbd>
-            </button>
-          ) : (
-            <input
-              autoFocus
-              type="text"
-              placeholder="Search objects..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              onBlur={() => { if (!searchQuery) setSearchOpen(false); }}
-              className="w-full rounded-md border border-gray-300 px-2.5 py-1.5 text-xs focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-700 dark:bg-gray-800 dark:text-white"
-            />
-          )}
+          <CommandPalette
+            trigger={(open) => (
+              <button
+                onClick={open}
+                className="flex w-full items-center gap-2 rounded-md border border-gray-200 px-2.5 py-1.5 text-xs text-gray-400 transition-colors hover:border-gray-300 hover:text-gray-500 dark:border-gray-800 dark:hover:border-gray-700"
+              >
+                <Search size={14} />
+                <span>Search</span>
+                <kbd className="ml-auto rounded border border-gray-200 px-1 text-[10px] text-gray-300 dark:border-gray-700">
+                  /
+                </kbd>
+              </button>
+            )}
+          />
         </div>
       )}
       {collapsed && (
         <div className="flex justify-center border-b border-gray-100 py-2 dark:border-gray-800/60">
-          <button
-            onClick={() => { setCollapsed(false); setSearchOpen(true); }}
-            className="rounded p-1.5 text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
-            title="Search"
-          >
-            <Search size={16} />
-          </button>
+          <CommandPalette
+            trigger={(open) => (
+              <button
+                onClick={open}
+                className="rounded p-1.5 text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+                title="Search"
+              >
+                <Search size={16} />
+              </button>
+            )}
+          />
         </div>
       )}
 
@@ -181,13 +179,7 @@ export function AppSidebar({ permissions, objectTypes = [], userId, userEmail }:
               </div>
             )}
             {collapsed && <div className="mt-3 mb-1 border-t border-gray-100 dark:border-gray-800" />}
-            {objectTypes
-              .filter((ot) =>
-                !searchQuery ||
-                ot.display_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                ot.name.toLowerCase().includes(searchQuery.toLowerCase())
-              )
-              .map((ot) => {
+            {objectTypes.map((ot) => {
               const href = `/view/${ot.name}`;
               const isActive = pathname === href || pathname.startsWith(href + "/");
 
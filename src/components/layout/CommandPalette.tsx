@@ -0,0 +1,262 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { clsx } from "clsx";
+import { Box, FileText, LayoutList, Loader2, Search } from "lucide-react";
+import type { GlobalSearchResults } from "@/modules/engine/types/search.types";
+
+// ── Types ────────────────────────────────────
+
+interface PaletteItem {
+  key: string;
+  group: string;
+  label: string;
+  detail?: string;
+  href: string;
+  color?: string;
+  kind: "object" | "type" | "view" | "page";
+}
+
+interface Props {
+  /** Custom trigger; defaults to a search button */
+  trigger?: (open: () => void) => React.ReactNode;
+}
+
+const SEARCH_DELAY_MS = 200;
+
+function toItems(results: GlobalSearchResults): PaletteItem[] {
+  return [
+    ...results.objects.map((o) => ({
+      key: `object:${o.id}`,
+      group: "Records",
+      label: o.displayName,
+      detail: o.objectType.displayName,
+      href: `/record/${o.id}`,
+      color: o.objectType.color,
+      kind: "object" as const,
+    })),
+    ...results.objectTypes.map((t) => ({
+      key: `type:${t.id}`,
+      group: "Object Types",
+      label: t.displayName,
+      href: `/view/${t.name}`,
+      color: t.color,
+      kind: "type" as const,
+    })),
+    ...results.views.map((v) => ({
+      key: `view:${v.id}`,
+      group: "Views",
+      label: v.name,
+      detail: v.objectTypeDisplayName,
+      href: `/view/${v.objectTypeName}?view=${v.id}`,
+      kind: "view" as const,
+    })),
+    ...results.pages.map((p) => ({
+      key: `page:${p.id}`,
+      group: "Pages",
+      label: p.name,
+      href: `/pages/${p.slug}`,
+      kind: "page" as const,
+    })),
+  ];
+}
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+  );
+}
+
+// ── Component ────────────────────────────────
+
+/**
+ * Global search across records of every object type, object types, views
+ * and pages. Opens with ⌘K / Ctrl+K or "/".
+ */
+export function CommandPalette({ trigger }: Props) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [items, setItems] = useState<PaletteItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [active, setActive] = useState(0);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const requestId = useRef(0);
+
+  function close() {
+    if (timer.current) clearTimeout(timer.current);
+    requestId.current++;
+    setOpen(false);
+    setQuery("");
+    setItems([]);
+    setLoading(false);
+    setActive(0);
+  }
+
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      // Another palette instance already took this key press
+      if (e.defaultPrevented) return;
+      const isShortcut = (e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k";
+      if (isShortcut || (e.key === "/" && !isTypingTarget(e.target))) {
+        e.preventDefault();
+        setOpen(true);
+      }
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  function handleQuery(value: string) {
+    setQuery(value);
+    setActive(0);
+    if (timer.current) clearTimeout(timer.current);
+
+    const term = value.trim();
+    if (!term) {
+      requestId.current++;
+      setItems([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    timer.current = setTimeout(async () => {
+      const id = ++requestId.current;
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(term)}`);
+        const body = res.ok ? await res.json() : null;
+        if (id !== requestId.current) return;
+        setItems(body?.data ? toItems(body.data as GlobalSearchResults) : []);
+      } catch {
+        if (id === requestId.current) setItems([]);
+      } finally {
+        if (id === requestId.current) setLoading(false);
+      }
+    }, SEARCH_DELAY_MS);
+  }
+
+  function go(item: PaletteItem) {
+    close();
+    router.push(item.href);
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent) {
+    if (e.key === "Escape") {
+      close();
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActive((i) => (items.length === 0 ? 0 : (i + 1) % items.length));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActive((i) => (items.length === 0 ? 0 : (i - 1 + items.length) % items.length));
+    } else if (e.key === "Enter" && items[active]) {
+      e.preventDefault();
+      go(items[active]);
+    }
+  }
+
+  const openPalette = () => setOpen(true);
+
+  return (
+    <>
+      {trigger ? (
+        trigger(openPalette)
+      ) : (
+        <button
+          type="button"
+          onClick={openPalette}
+          className="flex w-64 items-center gap-2 rounded-md border border-gray-200 px-3 py-1.5 text-sm text-gray-400 transition-colors hover:border-gray-300 hover:text-gray-500 dark:border-gray-800 dark:hover:border-gray-700"
+        >
+          <Search size={14} />
+          <span>Search…</span>
+          <kbd className="ml-auto rounded border border-gray-200 px-1 text-[10px] text-gray-300 dark:border-gray-700">
+            ⌘K
+          </kbd>
+        </button>
+      )}
+
+      {open && (
+        <div
+          className="fixed inset-0 z-50 flex items-start justify-center bg-black/40 px-4 pt-[15vh]"
+          onMouseDown={close}
+        >
+          <div
+            className="w-full max-w-xl overflow-hidden rounded-xl border border-gray-200 bg-white shadow-2xl dark:border-gray-800 dark:bg-gray-900"
+            onMouseDown={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center gap-2 border-b border-gray-100 px-4 dark:border-gray-800">
+              <Search size={16} className="text-gray-400" />
+              <input
+                autoFocus
+                type="text"
+                value={query}
+                onChange={(e) => handleQuery(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder="Search records, views and pages…"
+                className="h-12 flex-1 bg-transparent text-sm text-gray-900 placeholder:text-gray-400 focus:outline-none dark:text-white"
+              />
+              {loading && <Loader2 size={16} className="animate-spin text-gray-400" />}
+            </div>
+
+            <div className="max-h-96 overflow-y-auto py-2">
+              {!query.trim() && (
+                <p className="px-4 py-6 text-center text-sm text-gray-400">
+                  Type to search across all records, views and pages.
+                </p>
+              )}
+              {query.trim() && !loading && items.length === 0 && (
+                <p className="px-4 py-6 text-center text-sm text-gray-400">No results.</p>
+              )}
+              {items.map((item, index) => (
+                <div key={item.key}>
+                  {(index === 0 || items[index - 1].group !== item.group) && (
+                    <p className="px-4 pb-1 pt-2 text-[10px] font-semibold uppercase tracking-wider text-gray-400">
+                      {item.group}
+                    </p>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => go(item)}
+                    onMouseEnter={() => setActive(index)}
+                    className={clsx(
+                      "flex w-full items-center gap-3 px-4 py-2 text-left text-sm",
+                      index === active
+                        ? "bg-blue-50 text-blue-700 dark:bg-blue-950/50 dark:text-blue-300"
+                        : "text-gray-700 dark:text-gray-300"
+                    )}
+                  >
+                    <ItemIcon item={item} />
+                    <span className="truncate">{item.label}</span>
+                    {item.detail && (
+                      <span className="ml-auto shrink-0 text-xs text-gray-400">{item.detail}</span>
+                    )}
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+// ── Item Icon ────────────────────────────────
+
+function ItemIcon({ item }: { item: PaletteItem }) {
+  if (item.kind === "view") return <LayoutList size={14} className="shrink-0 text-gray-400" />;
+  if (item.kind === "page") return <FileText size={14} className="shrink-0 text-gray-400" />;
+  if (item.kind === "type") {
+    return <Box size={14} className="shrink-0" style={{ color: item.color ?? "#6B7280" }} />;
+  }
+  return (
+    <span
+      className="inline-block h-3 w-3 shrink-0 rounded"
+      style={{ backgroundColor: item.color ?? "#6B7280" }}
+    />
+  );
+}
@@ -15,6 +15,9 @@ import {
   Kanban,
   FileText,
   Search,
+  Trash2,
+  Copy,
+  Activity,
 } from "lucide-react";
 import { useState } from "react";
 
@@ -57,13 +60,19 @@ export function Sidebar({ permissions, objectTypes = [] }: SidebarProps) {
       label: "Objects",
       href: "/objects",
       icon: <Box size={20} />,
-      permissionAny: ["object:read", "object:read:own"],
+      permissionAny: ["object:read", "object:read:team", "object:read:own"],
     },
     {
       label: "Pipeline",
       href: "/pipeline",
       icon: <Kanban size={20} />,
-      permissionAny: ["object:read", "object:read:own"],
+      permissionAny: ["object:read", "object:read:team", "object:read:own"],
+    },
+    {
+      label: "Activity",
+      href: "/activity",
+      icon: <Activity size={20} />,
+      permissionAny: ["object:read", "object:read:team", "object:read:own"],
     },
     {
       label: "Pages",
@@ -76,6 +85,18 @@ export function Sidebar({ permissions, objectTypes = [] }: SidebarProps) {
       icon: <Layers size={20} />,
       permissionAny: ["module:manage", "object_type:manage"],
     },
+    {
+      label: "Trash",
+      href: "/trash",
+      icon: <Trash2 size={20} />,
+      permissionAny: ["object:delete", "object:delete:team", "object:delete:own"],
+    },
+    {
+      label: "Duplicates",
+      href: "/duplicates",
+      icon: <Copy size={20} />,
+      permission: "object:merge",
+    },
     {
       label: "Audit Logs",
       href: "/audit",
@@ -86,7 +107,7 @@ export function Sidebar({ permissions, objectTypes = [] }: SidebarProps) {
       label: "Settings",
       href: "/settings",
       icon: <Settings size={20} />,
-      permissionAny: ["role:manage", "user:manage", "settings:manage"],
+      permissionAny: ["role:manage", "user:manage", "team:manage", "settings:manage"],
     },
   ];
 
@@ -157,6 +178,7 @@ export function Sidebar({ permissions, objectTypes = [] }: SidebarProps) {
         {/* Dynamic object type shortcuts */}
         {objectTypes.length > 0 &&
           (permissions.includes("object:read") ||
+            permissions.includes("object:read:team") ||
             permissions.includes("object:read:own")) && (
             <>
               {!collapsed && (
@@ -1,5 +1,6 @@
 import { createClient } from "@/lib/supabase/server";
 import { LogoutButton } from "./LogoutButton";
+import { CommandPalette } from "./CommandPalette";
 
 export async function Topbar({ userId }: { userId: string }) {
   const supabase = await createClient();
@@ -13,7 +14,7 @@ export async function Topbar({ userId }: { userId: string }) {
 
   return (
     <header className="flex h-16 items-center justify-between border-b border-gray-200 bg-white px-6 dark:border-gray-800 dark:bg-gray-900">
-      <div />
+      <CommandPalette />
       <div className="flex items-center gap-4">
         <span className="text-sm text-gray-700 dark:text-gray-300">
           {profile?.full_name ?? "User"}
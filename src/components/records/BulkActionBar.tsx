@@ -0,0 +1,470 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { clsx } from "clsx";
+import { Download, Layers, X } from "lucide-react";
+import { DynamicField, tw } from "@/modules/engine/components/DynamicField";
+import { ObjectPicker } from "@/modules/engine/components/ObjectPicker";
+import { getBulkJobAction, startBulkJobAction } from "@/modules/engine/actions/bulk.actions";
+import type { ModuleFieldDef } from "@/modules/engine/types/module.types";
+import { ROLLUP_MODULE } from "@/modules/engine/types/rollup.types";
+import type {
+  BulkAction,
+  BulkActionType,
+  BulkJob,
+  BulkSelection,
+} from "@/modules/engine/types/bulk.types";
+import { BulkActionTypes } from "@/modules/engine/types/bulk.types";
+
+// ── Types ────────────────────────────────────
+
+export interface BulkFieldOption {
+  module: string;
+  field: string;
+  label: string;
+  fieldDef: ModuleFieldDef;
+}
+
+export interface BulkRelationOption {
+  relationType: string;
+  label: string;
+  /** Name of the object type on the other side */
+  targetType: string;
+}
+
+interface BulkActionBarProps {
+  objectTypeId: string;
+  viewId: string;
+  /** Records matching the view */
+  total: number;
+  /** Records on the current page */
+  pageIds: string[];
+  selectedIds: string[];
+  onSelectionChange: (ids: string[]) => void;
+  fields: BulkFieldOption[];
+  modules: { id: string; displayName: string }[];
+  users: { id: string; full_name: string }[];
+  stage: { options: { value: string; label: string }[] } | null;
+  relations: BulkRelationOption[];
+}
+
+/** Milliseconds between progress polls */
+const POLL_INTERVAL = 1000;
+
+// ── Component ────────────────────────────────
+
+/**
+ * Actions on the records selected in a RecordTable: pick an action, run
+ * it as a server-side job and follow its progress.
+ */
+export function BulkActionBar({
+  objectTypeId,
+  viewId,
+  total,
+  pageIds,
+  selectedIds,
+  onSelectionChange,
+  fields,
+  modules,
+  users,
+  stage,
+  relations,
+}: BulkActionBarProps) {
+  const router = useRouter();
+  const [allMatching, setAllMatching] = useState(false);
+  const [actionType, setActionType] = useState<BulkActionType | "">("");
+  const [fieldKey, setFieldKey] = useState("");
+  const [value, setValue] = useState<unknown>(null);
+  const [target, setTarget] = useState("");
+  const [job, setJob] = useState<BulkJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [starting, setStarting] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const settableFields = fields.filter(
+    (f) => f.module !== ROLLUP_MODULE && f.fieldDef.type !== "formula"
+  );
+  const selectedField = settableFields.find((f) => `${f.module}.${f.field}` === fieldKey);
+  const selectedRelation = relations.find((r) => r.relationType === target);
+  const actionOptions = BulkActionTypes.filter(
+    (a) =>
+      (a.value !== "change_stage" || !!stage) &&
+      (a.value !== "add_relation" || relations.length > 0)
+  );
+
+  const count = allMatching ? total : selectedIds.length;
+  const pageSelected = pageIds.length > 0 && pageIds.every((id) => selectedIds.includes(id));
+  const running = job?.status === "queued" || job?.status === "running";
+
+  // A changed selection no longer means "everything in the view"
+  useEffect(() => {
+    if (!pageSelected) setAllMatching(false);
+  }, [pageSelected]);
+
+  // Poll the job until it finishes
+  useEffect(() => {
+    if (!job || !running) return;
+    const timer = setTimeout(async () => {
+      const result = await getBulkJobAction(job.id);
+      if (!result.success) {
+        setError(result.error);
+        setJob(null);
+        return;
+      }
+      setJob(result.data);
+      if (result.data.status === "completed" || result.data.status === "failed") {
+        router.refresh();
+      }
+    }, POLL_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [job, running, router]);
+
+  if (count === 0 && !job) return null;
+
+  const selection: BulkSelection = allMatching
+    ? { objectTypeId, viewId }
+    : { objectTypeId, ids: selectedIds };
+
+  function resetForm() {
+    setActionType("");
+    setFieldKey("");
+    setValue(null);
+    setTarget("");
+  }
+
+  function clear() {
+    setAllMatching(false);
+    onSelectionChange([]);
+  }
+
+  function buildAction(): BulkAction | null {
+    switch (actionType) {
+      case "set_field":
+        return selectedField
+          ? {
+              type: "set_field",
+              moduleName: selectedField.module,
+              fieldKey: selectedField.field,
+              value,
+            }
+          : null;
+      case "change_stage":
+        return typeof value === "string" && value ? { type: "change_stage", value } : null;
+      case "reassign_owner":
+        return { type: "reassign_owner", ownerId: target || null };
+      case "attach_module":
+      case "detach_module":
+        return target ? { type: actionType, moduleId: target } : null;
+      case "add_relation":
+        return selectedRelation && typeof value === "string" && value
+          ? { type: "add_relation", toObjectId: value, relationType: selectedRelation.relationType }
+          : null;
+      case "delete":
+        return { type: "delete" };
+      default:
+        return null;
+    }
+  }
+
+  async function handleApply() {
+    const action = buildAction();
+    if (!action) return;
+    if (
+      action.type === "delete" &&
+      !confirm(`Move ${count} record${count === 1 ? "" : "s"} to the trash?`)
+    )
+      return;
+
+    setError(null);
+    setStarting(true);
+    try {
+      const result = await startBulkJobAction({ selection, action });
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      setJob(result.data);
+      resetForm();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to start bulk action");
+    } finally {
+      setStarting(false);
+    }
+  }
+
+  async function handleExport() {
+    setError(null);
+    setExporting(true);
+    try {
+      const res = await fetch("/api/objects/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ selection, format: "csv" }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        setError(body?.error ?? "Failed to export records");
+        return;
+      }
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download =
+        res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ?? "export.csv";
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to export records");
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  function dismissJob() {
+    setJob(null);
+    clear();
+  }
+
+  // ── Job progress / summary ──
+
+  if (job) {
+    const percent = job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0;
+    return (
+      <div className="space-y-2 border-b border-gray-200 bg-blue-50/60 px-6 py-2 text-sm dark:border-gray-800 dark:bg-blue-950/20">
+        <div className="flex items-center gap-3">
+          <span className="font-medium text-gray-900 dark:text-white">
+            {BulkActionTypes.find((a) => a.value === job.action.type)?.label}
+          </span>
+          {running ? (
+            <>
+              <div className="h-1.5 w-48 overflow-hidden rounded-full bg-gray-200 dark:bg-gray-800">
+                <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+              </div>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {job.processed} of {job.total}
+              </span>
+            </>
+          ) : (
+            <span
+              className={clsx(
+                "text-xs",
+                job.status === "failed" || job.failed > 0
+                  ? "text-amber-600 dark:text-amber-400"
+                  : "text-green-700 dark:text-green-400"
+              )}
+            >
+              {job.status === "failed" ? "Stopped · " : "Done · "}
+              {job.succeeded} updated
+              {job.failed > 0 && ` · ${job.failed} failed`}
+            </span>
+          )}
+          {!running && (
+            <button
+              type="button"
+              onClick={dismissJob}
+              className="ml-auto rounded p-1 text-gray-400 hover:text-gray-600"
+            >
+              <X size={14} />
+            </button>
+          )}
+        </div>
+        {!running && job.errors.length > 0 && (
+          <ul className="max-h-32 overflow-auto text-xs text-red-600 dark:text-red-400">
+            {job.errors.map((e, i) => (
+              <li key={i}>
+                {e.objectId ? (
+                  <a href={`/record/${e.objectId}`} className="underline">
+                    {e.objectId.slice(0, 8)}
+                  </a>
+                ) : (
+                  "Job"
+                )}
+                : {e.message}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+
+  // ── Selection and action form ──
+
+  return (
+    <div className="space-y-2 border-b border-gray-200 bg-blue-50/60 px-6 py-2 text-sm dark:border-gray-800 dark:bg-blue-950/20">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-medium text-gray-900 dark:text-white">
+          <Layers size={14} className="mr-1 inline" />
+          {count} selected
+        </span>
+        {pageSelected && total > pageIds.length && (
+          <button
+            type="button"
+            onClick={() => setAllMatching(!allMatching)}
+            className="text-xs font-medium text-blue-600 hover:underline"
+          >
+            {allMatching
+              ? `Select only the ${pageIds.length} on this page`
+              : `Select all ${total} matching this view`}
+          </button>
+        )}
+
+        <select
+          value={actionType}
+          onChange={(e) => {
+            resetForm();
+            setActionType(e.target.value as BulkActionType | "");
+          }}
+          className="rounded-lg border border-gray-300 px-2 py-1 text-sm dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+        >
+          <option value="">Choose action…</option>
+          {actionOptions.map((a) => (
+            <option key={a.value} value={a.value}>
+              {a.label}
+            </option>
+          ))}
+        </select>
+
+        {actionType === "set_field" && (
+          <select
+            value={fieldKey}
+            onChange={(e) => {
+              setFieldKey(e.target.value);
+              setValue(null);
+            }}
+            className="rounded-lg border border-gray-300 px-2 py-1 text-sm dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+          >
+            <option value="">Select field…</option>
+            {settableFields.map((f) => (
+              <option key={`${f.module}.${f.field}`} value={`${f.module}.${f.field}`}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {actionType === "change_stage" && stage && (
+          <select
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => setValue(e.target.value)}
+            className="rounded-lg border border-gray-300 px-2 py-1 text-sm dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+          >
+            <option value="">Select stage…</option>
+            {stage.options.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {actionType === "reassign_owner" && (
+          <select
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            className="rounded-lg border border-gray-300 px-2 py-1 text-sm dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+          >
+            <option value="">No owner</option>
+            {users.map((u) => (
+              <option key={u.id} value={u.id}>
+                {u.full_name}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {(actionType === "attach_module" || actionType === "detach_module") && (
+          <select
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            className="rounded-lg border border-gray-300 px-2 py-1 text-sm dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+          >
+            <option value="">Select module…</option>
+            {modules.map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.displayName}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {actionType === "add_relation" && (
+          <select
+            value={target}
+            onChange={(e) => {
+              setTarget(e.target.value);
+              setValue(null);
+            }}
+            className="rounded-lg border border-gray-300 px-2 py-1 text-sm dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+          >
+            <option value="">Select relation…</option>
+            {relations.map((r) => (
+              <option key={r.relationType} value={r.relationType}>
+                {r.label}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {actionType && (
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={starting || !buildAction()}
+            className={actionType === "delete" ? tw.btnDanger : tw.btnPrimary}
+          >
+            {starting ? "Starting…" : `Apply to ${count}`}
+          </button>
+        )}
+
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={exporting}
+            className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-800"
+          >
+            <Download size={12} />
+            {exporting ? "Exporting…" : "Export"}
+          </button>
+          <button
+            type="button"
+            onClick={clear}
+            className="rounded p-1 text-gray-400 hover:text-gray-600"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      {actionType === "set_field" && selectedField && (
+        <div className="max-w-md">
+          <DynamicField
+            field={selectedField.fieldDef}
+            value={value}
+            onChange={(_, v) => setValue(v)}
+          />
+        </div>
+      )}
+
+      {actionType === "add_relation" && selectedRelation && (
+        <div className="max-w-md">
+          <ObjectPicker
+            field={{
+              key: selectedRelation.relationType,
+              label: selectedRelation.label,
+              type: "relation",
+              targetType: selectedRelation.targetType,
+            }}
+            value={value}
+            onChange={setValue}
+          />
+        </div>
+      )}
+
+      {error && <div className={tw.error}>{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,455 @@
+"use client";
+
+import { useState, useCallback, useMemo, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { clsx } from "clsx";
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  pointerWithin,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragStartEvent,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import type { ObjectWithModules } from "@/modules/engine/types/object.types";
+import type { ModuleFieldDef } from "@/modules/engine/types/module.types";
+import {
+  addDays,
+  daysBetween,
+  isDayValue,
+  shiftDateValue,
+  type CalendarMode,
+  type ViewFieldRef,
+} from "@/modules/engine/types/view-layout.types";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+// ── Types ────────────────────────────────────
+
+export interface DateFieldOption extends ViewFieldRef {
+  label: string;
+  fieldDef: ModuleFieldDef;
+}
+
+/** New date values of a moved record, by module name then field key */
+export type DateChanges = Record<string, Record<string, string>>;
+
+interface RecordCalendarProps {
+  objects: ObjectWithModules[];
+  /** Date field records are placed on */
+  startField: DateFieldOption;
+  mode: CalendarMode;
+  /** Day the calendar is centered on (YYYY-MM-DD) */
+  anchor: string;
+  /** Days shown, end exclusive */
+  range: { start: string; end: string };
+  onModeChange: (mode: CalendarMode) => void;
+  onAnchorChange: (anchor: string) => void;
+  /** Called when a record is dragged to another day */
+  onRecordMove?: (objectId: string, changes: DateChanges) => void;
+  onRecordClick?: (objectId: string) => void;
+  loading?: boolean;
+}
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+/** Items a month cell lists before collapsing the rest */
+const MONTH_CELL_ITEMS = 3;
+
+// ── Helpers ──────────────────────────────────
+
+export function getDateValue(obj: ObjectWithModules, field: ViewFieldRef): string | null {
+  const value = obj.modules.find((m) => m.moduleName === field.module)?.data?.[field.field];
+  return isDayValue(value) ? value : null;
+}
+
+/**
+ * Shift a record's date fields by whole days: the new values, and the
+ * record with them applied for optimistic display.
+ */
+export function shiftObjectDates(
+  obj: ObjectWithModules,
+  fields: ViewFieldRef[],
+  days: number
+): { changes: DateChanges; object: ObjectWithModules } {
+  const changes: DateChanges = {};
+  for (const field of fields) {
+    const value = getDateValue(obj, field);
+    if (!value) continue;
+    changes[field.module] = {
+      ...changes[field.module],
+      [field.field]: shiftDateValue(value, days),
+    };
+  }
+  return {
+    changes,
+    object: {
+      ...obj,
+      modules: obj.modules.map((mod) =>
+        changes[mod.moduleName]
+          ? { ...mod, data: { ...mod.data, ...changes[mod.moduleName] } }
+          : mod
+      ),
+    },
+  };
+}
+
+function todayDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function formatTime(value: string): string | null {
+  const time = value.slice(11, 16);
+  return /^\d{2}:\d{2}$/.test(time) ? time : null;
+}
+
+function rangeTitle(mode: CalendarMode | "timeline", anchor: string): string {
+  const date = new Date(`${anchor}T00:00:00Z`);
+  if (mode === "day") {
+    return date.toLocaleDateString(undefined, {
+      weekday: "long", day: "numeric", month: "long", year: "numeric", timeZone: "UTC",
+    });
+  }
+  return date.toLocaleDateString(undefined, { month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+// ── Sub-Components ───────────────────────────
+
+/** Previous / today / next navigation with the range title */
+export function DateNavigator({
+  mode,
+  anchor,
+  onAnchorChange,
+  children,
+}: {
+  mode: CalendarMode | "timeline";
+  anchor: string;
+  onAnchorChange: (anchor: string) => void;
+  children?: React.ReactNode;
+}) {
+  const step = (direction: 1 | -1) => {
+    if (mode === "day") return onAnchorChange(addDays(anchor, direction));
+    if (mode === "week") return onAnchorChange(addDays(anchor, 7 * direction));
+    // Months: step from the 1st so short months aren't skipped
+    const date = new Date(`${anchor.slice(0, 8)}01T00:00:00Z`);
+    date.setUTCMonth(date.getUTCMonth() + direction);
+    onAnchorChange(date.toISOString().slice(0, 10));
+  };
+
+  return (
+    <div className="flex items-center gap-2 border-b border-gray-200 px-4 py-2 dark:border-gray-800">
+      <button
+        onClick={() => onAnchorChange(todayDay())}
+        className="rounded-md border border-gray-200 px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-800"
+      >
+        Today
+      </button>
+      <button
+        onClick={() => step(-1)}
+        className="rounded p-1 text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+      >
+        <ChevronLeft size={16} />
+      </button>
+      <button
+        onClick={() => step(1)}
+        className="rounded p-1 text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+      >
+        <ChevronRight size={16} />
+      </button>
+      <span className="text-sm font-medium text-gray-700 dark:text-gray-200">
+        {rangeTitle(mode, anchor)}
+      </span>
+      <div className="ml-auto flex items-center gap-2">{children}</div>
+    </div>
+  );
+}
+
+function ItemLabel({
+  object,
+  startField,
+}: {
+  object: ObjectWithModules;
+  startField: DateFieldOption;
+}) {
+  const value = getDateValue(object, startField);
+  const time = startField.fieldDef.type === "datetime" && value ? formatTime(value) : null;
+  return (
+    <>
+      {time && <span className="text-[10px] text-blue-500">{time}</span>}
+      <span className="truncate">{object.displayName}</span>
+    </>
+  );
+}
+
+function CalendarItem({
+  object,
+  startField,
+  onClick,
+}: {
+  object: ObjectWithModules;
+  startField: DateFieldOption;
+  onClick?: () => void;
+}) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: object.id,
+    data: { object },
+  });
+
+  return (
+    <button
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      onClick={onClick}
+      className={clsx(
+        "flex w-full items-center gap-1 truncate rounded border border-blue-200 bg-blue-50 px-1.5 py-0.5 text-left text-xs text-blue-800 transition-colors hover:bg-blue-100 dark:border-blue-900 dark:bg-blue-950/40 dark:text-blue-200",
+        isDragging && "opacity-40"
+      )}
+    >
+      <ItemLabel object={object} startField={startField} />
+    </button>
+  );
+}
+
+function DayCell({
+  day,
+  muted,
+  tall,
+  children,
+}: {
+  day: string;
+  muted?: boolean;
+  tall?: boolean;
+  children: React.ReactNode;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: `day-${day}`, data: { day } });
+  const isToday = day === todayDay();
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={clsx(
+        "flex flex-col gap-1 border-b border-r border-gray-200 p-1 dark:border-gray-800",
+        tall ? "min-h-[320px]" : "min-h-[110px]",
+        isOver && "bg-blue-50/60 dark:bg-blue-950/30",
+        muted && !isOver && "bg-gray-50/60 dark:bg-gray-900/40"
+      )}
+    >
+      <span
+        className={clsx(
+          "self-end rounded-full px-1.5 text-xs",
+          isToday
+            ? "bg-blue-600 font-semibold text-white"
+            : muted
+              ? "text-gray-300 dark:text-gray-600"
+              : "text-gray-500 dark:text-gray-400"
+        )}
+      >
+        {Number(day.slice(8, 10))}
+      </span>
+      {children}
+    </div>
+  );
+}
+
+// ── Main Component ───────────────────────────
+
+export function RecordCalendar({
+  objects,
+  startField,
+  mode,
+  anchor,
+  range,
+  onModeChange,
+  onAnchorChange,
+  onRecordMove,
+  onRecordClick,
+  loading = false,
+}: RecordCalendarProps) {
+  const router = useRouter();
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [mounted, setMounted] = useState(false);
+
+  // Local copy of objects for optimistic moves
+  const [localObjects, setLocalObjects] = useState<ObjectWithModules[]>(objects);
+  useEffect(() => { setLocalObjects(objects); }, [objects]);
+
+  // DndContext IDs differ between SSR and client; render it after mount
+  useEffect(() => { setMounted(true); }, []);
+
+  const days = useMemo(() => {
+    const list: string[] = [];
+    for (let day = range.start; day < range.end; day = addDays(day, 1)) list.push(day);
+    return list;
+  }, [range.start, range.end]);
+
+  const objectsByDay = useMemo(() => {
+    const groups = new Map<string, ObjectWithModules[]>();
+    for (const obj of localObjects) {
+      const day = getDateValue(obj, startField)?.slice(0, 10);
+      if (!day) continue;
+      groups.set(day, [...(groups.get(day) ?? []), obj]);
+    }
+    return groups;
+  }, [localObjects, startField]);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor)
+  );
+
+  const handleDragStart = useCallback((event: DragStartEvent) => {
+    setActiveId(String(event.active.id));
+  }, []);
+
+  const handleDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      setActiveId(null);
+      const targetDay = (event.over?.data.current as { day?: string } | undefined)?.day;
+      const obj = localObjects.find((o) => o.id === String(event.active.id));
+      const currentDay = obj ? getDateValue(obj, startField) : null;
+      if (!obj || !targetDay || !currentDay || !onRecordMove) return;
+
+      const shift = daysBetween(currentDay, targetDay);
+      if (shift === 0) return;
+
+      const { changes, object } = shiftObjectDates(obj, [startField], shift);
+      setLocalObjects((prev) => prev.map((o) => (o.id === obj.id ? object : o)));
+      onRecordMove(obj.id, changes);
+    },
+    [localObjects, startField, onRecordMove]
+  );
+
+  const handleItemClick = useCallback(
+    (objectId: string) => {
+      if (onRecordClick) onRecordClick(objectId);
+      else router.push(`/record/${objectId}`);
+    },
+    [onRecordClick, router]
+  );
+
+  const activeObject = activeId ? localObjects.find((o) => o.id === activeId) : null;
+
+  const renderItems = (day: string, limit?: number) => {
+    const items = objectsByDay.get(day) ?? [];
+    const shown = limit !== undefined ? items.slice(0, limit) : items;
+    return (
+      <>
+        {shown.map((obj) => (
+          <CalendarItem
+            key={obj.id}
+            object={obj}
+            startField={startField}
+            onClick={() => handleItemClick(obj.id)}
+          />
+        ))}
+        {items.length > shown.length && (
+          <button
+            onClick={() => {
+              onModeChange("day");
+              onAnchorChange(day);
+            }}
+            className="px-1.5 text-left text-[11px] text-gray-500 hover:text-blue-600"
+          >
+            +{items.length - shown.length} more
+          </button>
+        )}
+      </>
+    );
+  };
+
+  const modeSwitch = (
+    <div className="flex rounded-md border border-gray-200 text-xs dark:border-gray-700">
+      {(["month", "week", "day"] as const).map((m) => (
+        <button
+          key={m}
+          onClick={() => onModeChange(m)}
+          className={clsx(
+            "px-2 py-1 capitalize first:rounded-l-md last:rounded-r-md",
+            mode === m
+              ? "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100"
+              : "text-gray-500 hover:text-gray-700 dark:text-gray-400"
+          )}
+        >
+          {m}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (loading || !mounted) {
+    return (
+      <div className="flex flex-1 items-center justify-center">
+        <div className="flex items-center gap-2 text-sm text-gray-400">
+          <div className="h-4 w-4 animate-spin rounded-full border-2 border-blue-500 border-t-transparent" />
+          Loading…
+        </div>
+      </div>
+    );
+  }
+
+  const anchorMonth = anchor.slice(0, 7);
+
+  return (
+    <div className="flex flex-1 flex-col overflow-hidden">
+      <DateNavigator mode={mode} anchor={anchor} onAnchorChange={onAnchorChange}>
+        {modeSwitch}
+      </DateNavigator>
+
+      <DndContext
+        sensors={sensors}
+        collisionDetection={pointerWithin}
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
+      >
+        <div className="flex-1 overflow-y-auto">
+          {mode === "day" ? (
+            <div className="grid grid-cols-1 border-l border-t border-gray-200 dark:border-gray-800">
+              <DayCell day={anchor} tall>
+                {renderItems(anchor)}
+              </DayCell>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-7 border-l border-gray-200 dark:border-gray-800">
+                {days.slice(0, 7).map((day, i) => (
+                  <div
+                    key={day}
+                    className="border-b border-r border-gray-200 px-2 py-1 text-xs font-medium text-gray-500 dark:border-gray-800"
+                  >
+                    {WEEKDAYS[i]}
+                    {mode === "week" && ` ${Number(day.slice(8, 10))}`}
+                  </div>
+                ))}
+              </div>
+              <div className="grid grid-cols-7 border-l border-gray-200 dark:border-gray-800">
+                {days.map((day) => (
+                  <DayCell
+                    key={day}
+                    day={day}
+                    muted={mode === "month" && day.slice(0, 7) !== anchorMonth}
+                    tall={mode === "week"}
+                  >
+                    {renderItems(day, mode === "month" ? MONTH_CELL_ITEMS : undefined)}
+                  </DayCell>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DragOverlay>
+          {activeObject && (
+            <div className="flex w-40 items-center gap-1 truncate rounded border border-blue-400 bg-white px-1.5 py-0.5 text-xs shadow-md dark:bg-gray-900">
+              <ItemLabel object={activeObject} startField={startField} />
+            </div>
+          )}
+        </DragOverlay>
+      </DndContext>
+    </div>
+  );
+}
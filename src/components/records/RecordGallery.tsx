@@ -0,0 +1,221 @@
+"use client";
+
+import { useCallback } from "react";
+import { useRouter } from "next/navigation";
+import type { ObjectWithModules } from "@/modules/engine/types/object.types";
+import type { ModuleFieldDef } from "@/modules/engine/types/module.types";
+import { displayFieldType } from "@/modules/engine/types/module.types";
+import { ROLLUP_MODULE } from "@/modules/engine/types/rollup.types";
+
+// ── Types ────────────────────────────────────
+
+export interface GalleryField {
+  module: string;
+  field: string;
+  label: string;
+  fieldDef: ModuleFieldDef;
+}
+
+interface RecordGalleryProps {
+  objects: ObjectWithModules[];
+  /** Secondary fields shown on each card */
+  cardFields: GalleryField[];
+  /** Field holding the cover image URL; cards show a placeholder without it */
+  coverField?: GalleryField | null;
+  /** Field shown as the title; defaults to the record's display name */
+  titleField?: GalleryField | null;
+  onRecordClick?: (objectId: string) => void;
+  loading?: boolean;
+  emptyMessage?: string;
+}
+
+// ── Helpers ──────────────────────────────────
+
+function getFieldValue(
+  obj: ObjectWithModules,
+  moduleName: string,
+  fieldKey: string
+): unknown {
+  if (moduleName === ROLLUP_MODULE) return obj.rollups?.[fieldKey] ?? null;
+  const mod = obj.modules.find((m) => m.moduleName === moduleName);
+  return mod?.data?.[fieldKey] ?? null;
+}
+
+function formatValue(
+  value: unknown,
+  fieldDef: ModuleFieldDef,
+  references: Record<string, string> = {}
+): string {
+  if (value == null || value === "") return "—";
+  switch (displayFieldType(fieldDef)) {
+    case "boolean": return value ? "Yes" : "No";
+    case "number": return Number(value).toLocaleString();
+    case "date":
+      try { return new Date(String(value)).toLocaleDateString(); }
+      catch { return String(value); }
+    case "datetime":
+      try { return new Date(String(value)).toLocaleString(); }
+      catch { return String(value); }
+    case "select": {
+      const opt = fieldDef.options?.find((o) => o.value === value);
+      return opt?.label ?? String(value);
+    }
+    case "multiselect":
+      return (Array.isArray(value) ? value : [value])
+        .map((v) => fieldDef.options?.find((o) => o.value === v)?.label ?? String(v))
+        .join(", ");
+    case "relation":
+      return (Array.isArray(value) ? value : [value])
+        .map((id) => references[String(id)] ?? "Unknown")
+        .join(", ");
+    default: return String(value);
+  }
+}
+
+/** Cover values that can be shown as an image */
+function imageUrl(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const url = value.trim();
+  return /^(https?:\/\/|\/)/.test(url) ? url : null;
+}
+
+// ── Sub-Components ───────────────────────────
+
+function GalleryCard({
+  object,
+  cardFields,
+  coverField,
+  titleField,
+  onClick,
+}: {
+  object: ObjectWithModules;
+  cardFields: GalleryField[];
+  coverField?: GalleryField | null;
+  titleField?: GalleryField | null;
+  onClick: () => void;
+}) {
+  const titleValue = titleField ? getFieldValue(object, titleField.module, titleField.field) : null;
+  const title =
+    titleField && titleValue != null && titleValue !== ""
+      ? formatValue(titleValue, titleField.fieldDef, object.references)
+      : object.displayName;
+  const cover = coverField
+    ? imageUrl(getFieldValue(object, coverField.module, coverField.field))
+    : null;
+
+  return (
+    <button
+      onClick={onClick}
+      className="group flex flex-col overflow-hidden rounded-lg border border-gray-200 bg-white text-left shadow-sm transition-shadow hover:shadow-md dark:border-gray-700 dark:bg-gray-900"
+    >
+      {/* Cover */}
+      {coverField && (
+        <div className="relative h-36 w-full overflow-hidden bg-gray-100 dark:bg-gray-800">
+          {cover ? (
+            // Covers come from arbitrary hosts, so next/image can't optimize them
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={cover}
+              alt=""
+              loading="lazy"
+              className="h-full w-full object-cover transition-transform group-hover:scale-[1.02]"
+            />
+          ) : (
+            <div
+              className="flex h-full w-full items-center justify-center text-3xl font-semibold text-white/90"
+              style={{ backgroundColor: object.object_type?.color ?? "#9CA3AF" }}
+            >
+              {title.charAt(0).toUpperCase()}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-1 flex-col gap-2 p-3">
+        <span className="truncate text-sm font-medium text-gray-900 group-hover:text-blue-600 dark:text-white dark:group-hover:text-blue-400">
+          {title}
+        </span>
+
+        {cardFields.length > 0 && (
+          <div className="space-y-1">
+            {cardFields.map((cf) => (
+              <div
+                key={`${cf.module}.${cf.field}`}
+                className="flex items-baseline justify-between gap-2 text-xs"
+              >
+                <span className="flex-shrink-0 text-gray-400 dark:text-gray-500">
+                  {cf.fieldDef.label}
+                </span>
+                <span className="truncate text-gray-600 dark:text-gray-400">
+                  {formatValue(
+                    getFieldValue(object, cf.module, cf.field),
+                    cf.fieldDef,
+                    object.references
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </button>
+  );
+}
+
+// ── Main Component ───────────────────────────
+
+export function RecordGallery({
+  objects,
+  cardFields,
+  coverField,
+  titleField,
+  onRecordClick,
+  loading = false,
+  emptyMessage = "No records found.",
+}: RecordGalleryProps) {
+  const router = useRouter();
+
+  const handleCardClick = useCallback(
+    (objectId: string) => {
+      if (onRecordClick) onRecordClick(objectId);
+      else router.push(`/record/${objectId}`);
+    },
+    [onRecordClick, router]
+  );
+
+  if (loading) {
+    return (
+      <div className="flex flex-1 items-center justify-center">
+        <div className="flex items-center gap-2 text-sm text-gray-400">
+          <div className="h-4 w-4 animate-spin rounded-full border-2 border-blue-500 border-t-transparent" />
+          Loading…
+        </div>
+      </div>
+    );
+  }
+
+  if (objects.length === 0) {
+    return (
+      <div className="flex flex-1 items-center justify-center text-sm text-gray-400">
+        {emptyMessage}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4">
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+        {objects.map((obj) => (
+          <GalleryCard
+            key={obj.id}
+            object={obj}
+            cardFields={cardFields}
+            coverField={coverField}
+            titleField={titleField}
+            onClick={() => handleCardClick(obj.id)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -23,7 +23,9 @@ import { CSS } from "@dnd-kit/utilities";
 import { useDroppable } from "@dnd-kit/core";
 import type { ObjectWithModules } from "@/modules/engine/types/object.types";
 import type { ModuleFieldDef, SelectOption } from "@/modules/engine/types/module.types";
-import { GripVertical, Plus } from "lucide-react";
+import { displayFieldType } from "@/modules/engine/types/module.types";
+import { ROLLUP_MODULE } from "@/modules/engine/types/rollup.types";
+import { AlertTriangle, ChevronDown, ChevronRight, GripVertical } from "lucide-react";
 
 // ── Types ────────────────────────────────────
 
@@ -33,6 +35,27 @@ interface KanbanColumn {
   color?: string;
 }
 
+interface KanbanLane {
+  value: string;
+  label: string;
+}
+
+interface KanbanField {
+  module: string;
+  field: string;
+  label: string;
+  fieldDef: ModuleFieldDef;
+}
+
+/** New field values of a moved card, by module name then field key */
+export type KanbanChanges = Record<string, Record<string, string>>;
+
+/** Cards in a column over every matching record, and the sum field's total */
+export interface KanbanColumnTotal {
+  count: number;
+  sum: number | null;
+}
+
 interface RecordKanbanProps {
   objects: ObjectWithModules[];
   /** Module containing the kanban grouping field */
@@ -42,19 +65,28 @@ interface RecordKanbanProps {
   /** Field definition for the kanban field — used to get columns from options */
   kanbanFieldDef: ModuleFieldDef;
   /** Secondary fields to show on cards */
-  cardFields?: {
-    module: string;
-    field: string;
-    label: string;
-    fieldDef: ModuleFieldDef;
-  }[];
-  /** Called when a record is moved between columns */
-  onRecordMove?: (objectId: string, newValue: string) => void;
+  cardFields?: KanbanField[];
+  /** Second field that splits the board into rows */
+  swimlaneField?: KanbanField | null;
+  /** Most cards a column should hold, by column value; fuller columns are flagged */
+  wipLimits?: Record<string, number>;
+  /** Numeric field the column footers sum */
+  sumField?: KanbanField | null;
+  /** Totals per column value (NO_VALUE for the rest); without them the loaded cards are counted */
+  columnTotals?: Record<string, KanbanColumnTotal>;
+  /** Called when a record is moved to another column or swimlane */
+  onRecordMove?: (objectId: string, changes: KanbanChanges) => void;
   /** Called when a record card is clicked */
   onRecordClick?: (objectId: string) => void;
   loading?: boolean;
 }
 
+/** Column and swimlane of records without a known value */
+export const NO_VALUE = "__none__";
+
+/** The single lane of a board without swimlanes */
+const ALL_LANES = "__all__";
+
 // ── Helpers ──────────────────────────────────
 
 function getFieldValue(
@@ -62,13 +94,18 @@ function getFieldValue(
   moduleName: string,
   fieldKey: string
 ): unknown {
+  if (moduleName === ROLLUP_MODULE) return obj.rollups?.[fieldKey] ?? null;
   const mod = obj.modules.find((m) => m.moduleName === moduleName);
   return mod?.data?.[fieldKey] ?? null;
 }
 
-function formatValue(value: unknown, fieldDef: ModuleFieldDef): string {
+function formatValue(
+  value: unknown,
+  fieldDef: ModuleFieldDef,
+  references: Record<string, string> = {}
+): string {
   if (value == null || value === "") return "—";
-  switch (fieldDef.type) {
+  switch (displayFieldType(fieldDef)) {
     case "number": return Number(value).toLocaleString();
     case "date":
       try { return new Date(String(value)).toLocaleDateString(); }
@@ -77,55 +114,135 @@ function formatValue(value: unknown, fieldDef: ModuleFieldDef): string {
       const opt = fieldDef.options?.find((o) => o.value === value);
       return opt?.label ?? String(value);
     }
+    case "relation":
+      return (Array.isArray(value) ? value : [value])
+        .map((id) => references[String(id)] ?? "Unknown")
+        .join(", ");
     default: return String(value);
   }
 }
 
+function formatSum(value: number | null): string {
+  return value == null ? "—" : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+/** Set field values on a copy of an object's module data */
+function applyChanges(obj: ObjectWithModules, changes: KanbanChanges): ObjectWithModules {
+  return {
+    ...obj,
+    modules: obj.modules.map((mod) =>
+      changes[mod.moduleName] ? { ...mod, data: { ...mod.data, ...changes[mod.moduleName] } } : mod
+    ),
+  };
+}
+
 // ── Sub-Components ───────────────────────────
 
-function KanbanColumnContainer({
+function KanbanColumnHeader({
   column,
   count,
-  children,
+  limit,
 }: {
   column: KanbanColumn;
   count: number;
+  limit?: number;
+}) {
+  const over = limit != null && count > limit;
+  const full = limit != null && count === limit;
+
+  return (
+    <div
+      className={clsx(
+        "flex w-[280px] flex-shrink-0 items-center gap-2 rounded-lg border px-3 py-2.5",
+        over
+          ? "border-red-300 bg-red-50 dark:border-red-800 dark:bg-red-950/30"
+          : "border-gray-200 bg-gray-50 dark:border-gray-800 dark:bg-gray-900"
+      )}
+    >
+      {column.color && (
+        <span
+          className="h-2.5 w-2.5 flex-shrink-0 rounded-full"
+          style={{ backgroundColor: column.color }}
+        />
+      )}
+      <span className="truncate text-sm font-medium text-gray-700 dark:text-gray-300">
+        {column.label}
+      </span>
+      {over && (
+        <span title={`Over the WIP limit of ${limit}`} className="text-red-500">
+          <AlertTriangle size={13} />
+        </span>
+      )}
+      <span
+        className={clsx(
+          "ml-auto rounded px-1.5 py-0.5 text-xs",
+          over
+            ? "bg-red-100 font-medium text-red-700 dark:bg-red-900/50 dark:text-red-300"
+            : full
+              ? "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300"
+              : "bg-gray-200/80 text-gray-500 dark:bg-gray-700 dark:text-gray-400"
+        )}
+      >
+        {limit != null ? `${count} / ${limit}` : count}
+      </span>
+    </div>
+  );
+}
+
+function KanbanCell({
+  column,
+  lane,
+  atLimit,
+  children,
+}: {
+  column: string;
+  lane: string;
+  /** Dropping here would take the column past its WIP limit */
+  atLimit: boolean;
   children: React.ReactNode;
 }) {
   const { setNodeRef, isOver } = useDroppable({
-    id: `column-${column.value}`,
-    data: { column: column.value },
+    id: `cell-${lane}-${column}`,
+    data: { column, lane },
   });
 
   return (
     <div
       ref={setNodeRef}
       className={clsx(
-        "flex h-full w-[280px] flex-shrink-0 flex-col rounded-lg border transition-colors",
-        isOver
-          ? "border-blue-400 bg-blue-50/30 dark:border-blue-600 dark:bg-blue-950/20"
-          : "border-gray-200 bg-gray-50/50 dark:border-gray-800 dark:bg-gray-900/30"
+        "min-h-[72px] w-[280px] flex-shrink-0 space-y-1.5 rounded-lg border p-2 transition-colors",
+        isOver && atLimit
+          ? "border-amber-400 bg-amber-50/40 dark:border-amber-600 dark:bg-amber-950/20"
+          : isOver
+            ? "border-blue-400 bg-blue-50/30 dark:border-blue-600 dark:bg-blue-950/20"
+            : "border-gray-200 bg-gray-50/50 dark:border-gray-800 dark:bg-gray-900/30"
       )}
     >
-      {/* Column header */}
-      <div className="flex items-center gap-2 border-b border-gray-200 px-3 py-2.5 dark:border-gray-800">
-        {column.color && (
-          <span
-            className="h-2.5 w-2.5 flex-shrink-0 rounded-full"
-            style={{ backgroundColor: column.color }}
-          />
-        )}
-        <span className="truncate text-sm font-medium text-gray-700 dark:text-gray-300">
-          {column.label}
-        </span>
-        <span className="ml-auto rounded bg-gray-200/80 px-1.5 py-0.5 text-xs text-gray-500 dark:bg-gray-700 dark:text-gray-400">
-          {count}
+      {children}
+    </div>
+  );
+}
+
+function KanbanColumnFooter({
+  total,
+  sumField,
+}: {
+  total: KanbanColumnTotal;
+  sumField?: KanbanField | null;
+}) {
+  return (
+    <div className="flex w-[280px] flex-shrink-0 items-baseline justify-between gap-2 rounded-lg border border-gray-200 bg-gray-50 px-3 py-2 text-xs text-gray-500 dark:border-gray-800 dark:bg-gray-900 dark:text-gray-400">
+      <span>
+        {total.count.toLocaleString()} record{total.count !== 1 ? "s" : ""}
+      </span>
+      {sumField && (
+        <span className="truncate">
+          <span className="text-gray-400">{sumField.label}</span>{" "}
+          <span className="font-medium text-gray-700 dark:text-gray-200">
+            {formatSum(total.sum)}
+          </span>
         </span>
-      </div>
-      {/* Cards */}
-      <div className="flex-1 space-y-1.5 overflow-y-auto p-2">
-        {children}
-      </div>
+      )}
     </div>
   );
 }
@@ -137,7 +254,7 @@ function KanbanCard({
   isDragging,
 }: {
   object: ObjectWithModules;
-  cardFields?: RecordKanbanProps["cardFields"];
+  cardFields?: KanbanField[];
   onClick?: () => void;
   isDragging?: boolean;
 }) {
@@ -201,7 +318,7 @@ function KanbanCard({
                   {cf.label}
                 </span>
                 <span className="truncate text-gray-600 dark:text-gray-400">
-                  {formatValue(val, cf.fieldDef)}
+                  {formatValue(val, cf.fieldDef, object.references)}
                 </span>
               </div>
             );
@@ -220,6 +337,10 @@ export function RecordKanban({
   kanbanFieldKey,
   kanbanFieldDef,
   cardFields,
+  swimlaneField = null,
+  wipLimits = {},
+  sumField = null,
+  columnTotals,
   onRecordMove,
   onRecordClick,
   loading = false,
@@ -227,6 +348,7 @@ export function RecordKanban({
   const router = useRouter();
   const [activeId, setActiveId] = useState<string | null>(null);
   const [mounted, setMounted] = useState(false);
+  const [collapsedLanes, setCollapsedLanes] = useState<Set<string>>(new Set());
 
   // Local copy of objects for optimistic kanban moves
   const [localObjects, setLocalObjects] = useState<ObjectWithModules[]>(objects);
@@ -248,24 +370,74 @@ export function RecordKanban({
     }));
   }, [kanbanFieldDef]);
 
-  // Group objects into columns
-  const objectsByColumn = useMemo(() => {
-    const groups: Record<string, ObjectWithModules[]> = {};
-    columns.forEach((c) => { groups[c.value] = []; });
-    // "Uncategorized" column for objects without a valid value
-    groups["__none__"] = [];
-
-    localObjects.forEach((obj) => {
+  // Records without a valid value go to the "Uncategorized" column
+  const columnOf = useCallback(
+    (obj: ObjectWithModules) => {
       const val = getFieldValue(obj, kanbanModuleName, kanbanFieldKey);
-      const key = val != null ? String(val) : "__none__";
-      if (groups[key]) {
-        groups[key].push(obj);
-      } else {
-        groups["__none__"].push(obj);
-      }
-    });
-    return groups;
-  }, [localObjects, columns, kanbanModuleName, kanbanFieldKey]);
+      return val != null && columns.some((c) => c.value === String(val)) ? String(val) : NO_VALUE;
+    },
+    [columns, kanbanModuleName, kanbanFieldKey]
+  );
+
+  const laneOf = useCallback(
+    (obj: ObjectWithModules) => {
+      if (!swimlaneField) return ALL_LANES;
+      const val = getFieldValue(obj, swimlaneField.module, swimlaneField.field);
+      return val != null && val !== "" ? String(val) : NO_VALUE;
+    },
+    [swimlaneField]
+  );
+
+  // Swimlanes in option order for selects, else alphabetically; empty last
+  const lanes: KanbanLane[] = useMemo(() => {
+    if (!swimlaneField) return [{ value: ALL_LANES, label: "" }];
+    const values = new Set(localObjects.map(laneOf));
+    const options = swimlaneField.fieldDef.options ?? [];
+    const ordered = [
+      ...options.filter((o) => values.has(o.value)).map((o) => ({ value: o.value, label: o.label })),
+      ...[...values]
+        .filter((v) => v !== NO_VALUE && !options.some((o) => o.value === v))
+        .sort((a, b) => a.localeCompare(b))
+        .map((v) => ({ value: v, label: v })),
+    ];
+    return values.has(NO_VALUE) ? [...ordered, { value: NO_VALUE, label: "No value" }] : ordered;
+  }, [swimlaneField, localObjects, laneOf]);
+
+  // Cards by lane, then column
+  const cards = useMemo(() => {
+    const result = new Map<string, Map<string, ObjectWithModules[]>>();
+    for (const obj of localObjects) {
+      const lane = laneOf(obj);
+      const column = columnOf(obj);
+      const byColumn = result.get(lane) ?? new Map<string, ObjectWithModules[]>();
+      byColumn.set(column, [...(byColumn.get(column) ?? []), obj]);
+      result.set(lane, byColumn);
+    }
+    return result;
+  }, [localObjects, laneOf, columnOf]);
+
+  const hasUncategorized = localObjects.some((obj) => columnOf(obj) === NO_VALUE);
+  const boardColumns: KanbanColumn[] = hasUncategorized
+    ? [{ value: NO_VALUE, label: "Uncategorized", color: "#9CA3AF" }, ...columns]
+    : columns;
+
+  // Server totals when given, else the loaded cards
+  const totalOf = useCallback(
+    (column: string): KanbanColumnTotal => {
+      if (columnTotals) return columnTotals[column] ?? { count: 0, sum: null };
+      const list = localObjects.filter((obj) => columnOf(obj) === column);
+      const numbers = sumField
+        ? list
+            .map((obj) => Number(getFieldValue(obj, sumField.module, sumField.field)))
+            .filter((n) => Number.isFinite(n))
+        : [];
+      return {
+        count: list.length,
+        sum: numbers.length > 0 ? numbers.reduce((a, b) => a + b, 0) : null,
+      };
+    },
+    [columnTotals, localObjects, columnOf, sumField]
+  );
 
   // DnD sensors
   const sensors = useSensors(
@@ -281,44 +453,44 @@ export function RecordKanban({
     (event: DragEndEvent) => {
       setActiveId(null);
       const { active, over } = event;
-      if (!over || !onRecordMove) return;
-
-      // Determine target column
-      const overData = over.data?.current as any;
-      let targetColumn: string | null = null;
-
-      if (overData?.column) {
-        // Dropped on column container
-        targetColumn = overData.column;
-      } else if (overData?.object) {
-        // Dropped on another card — find that card's column
-        const dropObj = overData.object as ObjectWithModules;
-        const val = getFieldValue(dropObj, kanbanModuleName, kanbanFieldKey);
-        targetColumn = val != null ? String(val) : null;
+      const obj = localObjects.find((o) => o.id === String(active.id));
+      if (!over || !obj || !onRecordMove) return;
+
+      // Dropped on a cell, or on a card — take that card's cell
+      const overData = over.data?.current as
+        | { column?: string; lane?: string; object?: ObjectWithModules }
+        | undefined;
+      const target = overData?.column
+        ? { column: overData.column, lane: overData.lane ?? ALL_LANES }
+        : overData?.object
+          ? { column: columnOf(overData.object), lane: laneOf(overData.object) }
+          : null;
+      if (!target) return;
+
+      // Cards can't be moved to "no value": the fields keep their value
+      const changes: KanbanChanges = {};
+      if (target.column !== NO_VALUE && target.column !== columnOf(obj)) {
+        changes[kanbanModuleName] = { [kanbanFieldKey]: target.column };
       }
-
-      if (targetColumn && targetColumn !== "__none__") {
-        // Optimistic update: move the object in local state immediately
-        setLocalObjects((prev) =>
-          prev.map((obj) => {
-            if (obj.id !== String(active.id)) return obj;
-            return {
-              ...obj,
-              modules: obj.modules.map((mod) => {
-                if (mod.moduleName !== kanbanModuleName) return mod;
-                return {
-                  ...mod,
-                  data: { ...mod.data, [kanbanFieldKey]: targetColumn },
-                };
-              }),
-            };
-          })
-        );
-        // Fire server update in the background (no await / no router.refresh)
-        onRecordMove(String(active.id), targetColumn);
+      if (
+        swimlaneField &&
+        target.lane !== NO_VALUE &&
+        target.lane !== ALL_LANES &&
+        target.lane !== laneOf(obj)
+      ) {
+        changes[swimlaneField.module] = {
+          ...changes[swimlaneField.module],
+          [swimlaneField.field]: target.lane,
+        };
       }
+      if (Object.keys(changes).length === 0) return;
+
+      // Optimistic update: move the object in local state immediately
+      setLocalObjects((prev) => prev.map((o) => (o.id === obj.id ? applyChanges(o, changes) : o)));
+      // Fire server update in the background (no await / no router.refresh)
+      onRecordMove(obj.id, changes);
     },
-    [onRecordMove, kanbanModuleName, kanbanFieldKey]
+    [localObjects, onRecordMove, columnOf, laneOf, kanbanModuleName, kanbanFieldKey, swimlaneField]
   );
 
   const handleCardClick = useCallback(
@@ -332,6 +504,15 @@ export function RecordKanban({
     [onRecordClick, router]
   );
 
+  const toggleLane = useCallback((lane: string) => {
+    setCollapsedLanes((prev) => {
+      const next = new Set(prev);
+      if (next.has(lane)) next.delete(lane);
+      else next.add(lane);
+      return next;
+    });
+  }, []);
+
   const activeObject = activeId
     ? localObjects.find((o) => o.id === activeId)
     : null;
@@ -354,51 +535,79 @@ export function RecordKanban({
       onDragStart={handleDragStart}
       onDragEnd={handleDragEnd}
     >
-      <div className="flex flex-1 gap-3 overflow-x-auto p-4">
-        {/* Uncategorized column */}
-        {objectsByColumn["__none__"]?.length > 0 && (
-          <KanbanColumnContainer
-            column={{ value: "__none__", label: "Uncategorized", color: "#9CA3AF" }}
-            count={objectsByColumn["__none__"].length}
-          >
-            <SortableContext
-              items={objectsByColumn["__none__"].map((o) => o.id)}
-              strategy={verticalListSortingStrategy}
-            >
-              {objectsByColumn["__none__"].map((obj) => (
-                <KanbanCard
-                  key={obj.id}
-                  object={obj}
-                  cardFields={cardFields}
-                  onClick={() => handleCardClick(obj.id)}
-                />
-              ))}
-            </SortableContext>
-          </KanbanColumnContainer>
-        )}
+      <div className="flex-1 overflow-auto p-4">
+        <div className="flex min-w-max flex-col gap-2">
+          {/* Column headers */}
+          <div className="sticky top-0 z-10 flex gap-3 bg-white pb-1 dark:bg-gray-950">
+            {boardColumns.map((col) => (
+              <KanbanColumnHeader
+                key={col.value}
+                column={col}
+                count={totalOf(col.value).count}
+                limit={col.value === NO_VALUE ? undefined : wipLimits[col.value]}
+              />
+            ))}
+          </div>
+
+          {/* Swimlanes (a single unlabeled one without a swimlane field) */}
+          {lanes.map((lane) => {
+            const byColumn = cards.get(lane.value);
+            const collapsed = collapsedLanes.has(lane.value);
+            const laneCount = [...(byColumn?.values() ?? [])].reduce((n, l) => n + l.length, 0);
+            return (
+              <div key={lane.value} className="flex flex-col gap-1.5">
+                {swimlaneField && (
+                  <button
+                    onClick={() => toggleLane(lane.value)}
+                    className="flex items-center gap-1.5 px-1 pt-2 text-xs font-semibold text-gray-600 dark:text-gray-300"
+                    aria-expanded={!collapsed}
+                  >
+                    {collapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                    {lane.label}
+                    <span className="font-normal text-gray-400">{laneCount}</span>
+                  </button>
+                )}
+                {!collapsed && (
+                  <div className="flex gap-3">
+                    {boardColumns.map((col) => {
+                      const list = byColumn?.get(col.value) ?? [];
+                      const limit = wipLimits[col.value];
+                      return (
+                        <KanbanCell
+                          key={col.value}
+                          column={col.value}
+                          lane={lane.value}
+                          atLimit={limit != null && totalOf(col.value).count >= limit}
+                        >
+                          <SortableContext
+                            items={list.map((o) => o.id)}
+                            strategy={verticalListSortingStrategy}
+                          >
+                            {list.map((obj) => (
+                              <KanbanCard
+                                key={obj.id}
+                                object={obj}
+                                cardFields={cardFields}
+                                onClick={() => handleCardClick(obj.id)}
+                              />
+                            ))}
+                          </SortableContext>
+                        </KanbanCell>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
 
-        {/* Status columns */}
-        {columns.map((col) => (
-          <KanbanColumnContainer
-            key={col.value}
-            column={col}
-            count={objectsByColumn[col.value]?.length ?? 0}
-          >
-            <SortableContext
-              items={(objectsByColumn[col.value] ?? []).map((o) => o.id)}
-              strategy={verticalListSortingStrategy}
-            >
-              {(objectsByColumn[col.value] ?? []).map((obj) => (
-                <KanbanCard
-                  key={obj.id}
-                  object={obj}
-                  cardFields={cardFields}
-                  onClick={() => handleCardClick(obj.id)}
-                />
-              ))}
-            </SortableContext>
-          </KanbanColumnContainer>
-        ))}
+          {/* Column footers */}
+          <div className="flex gap-3 pt-1">
+            {boardColumns.map((col) => (
+              <KanbanColumnFooter key={col.value} total={totalOf(col.value)} sumField={sumField} />
+            ))}
+          </div>
+        </div>
       </div>
 
       {/* Drag overlay */}
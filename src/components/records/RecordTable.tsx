@@ -1,12 +1,25 @@
 "use client";
 
-import { useCallback, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { clsx } from "clsx";
-import type { ObjectWithModules } from "@/modules/engine/types/object.types";
+import type {
+  FieldAggregates,
+  ObjectGroups,
+  ObjectWithModules,
+} from "@/modules/engine/types/object.types";
 import type { ModuleFieldDef, SelectOption } from "@/modules/engine/types/module.types";
+import { displayFieldType } from "@/modules/engine/types/module.types";
+import { validateModuleData } from "@/modules/engine/schemas/dynamic-validator";
+import { DynamicField } from "@/modules/engine/components/DynamicField";
+import { ROLLUP_MODULE } from "@/modules/engine/types/rollup.types";
+import { RECORD_MODULE } from "@/modules/engine/types/view-filter.types";
+import {
+  AggregateFunctions,
+  type AggregateFunction,
+} from "@/modules/engine/types/view-layout.types";
 import type { ViewFieldConfig, ViewSort } from "@/modules/engine/services/view.service";
-import { ChevronUp, ChevronDown, GripVertical } from "lucide-react";
+import { ChevronUp, ChevronDown, ChevronRight, GripVertical } from "lucide-react";
 
 // ── Types ────────────────────────────────────
 
@@ -29,8 +42,41 @@ interface RecordTableProps {
   linkToDetail?: boolean;
   loading?: boolean;
   emptyMessage?: string;
+  /** Selected record IDs — with onSelectionChange, rows get checkboxes */
+  selectedIds?: string[];
+  onSelectionChange?: (ids: string[]) => void;
+  /** Field rows are grouped by; rows must come sorted by it */
+  groupBy?: { module: string; field: string; fieldDef: ModuleFieldDef } | null;
+  /** Counts and numeric aggregates per group and in total, over all pages */
+  groups?: ObjectGroups | null;
+  /** Display labels of group values, e.g. user names for owner IDs */
+  groupLabels?: Record<string, string>;
+  /** Aggregate shown per numeric column, keyed "module.field" (default sum) */
+  aggregateFunctions?: Record<string, AggregateFunction>;
+  onAggregateFunctionChange?: (colKey: string, fn: AggregateFunction) => void;
+  /**
+   * Saves a record module's data after inline edits, resolving with an
+   * error message when the write fails. Without it cells aren't editable.
+   */
+  onModuleDataSave?: (
+    objectId: string,
+    moduleId: string,
+    data: Record<string, unknown>
+  ) => Promise<string | null>;
 }
 
+/** Position in the visible rows and sorted columns */
+interface CellPos {
+  row: number;
+  col: number;
+}
+
+type MoveDirection = "up" | "down" | "left" | "right";
+
+type TableItem =
+  | { kind: "group"; key: string; value: string | null; count: number | null }
+  | { kind: "row"; object: ObjectWithModules; index: number };
+
 // ── Helpers ──────────────────────────────────
 
 function getCellValue(
@@ -38,14 +84,19 @@ function getCellValue(
   moduleName: string,
   fieldKey: string
 ): unknown {
+  if (moduleName === ROLLUP_MODULE) return object.rollups?.[fieldKey] ?? null;
   const mod = object.modules.find((m) => m.moduleName === moduleName);
   return mod?.data?.[fieldKey] ?? null;
 }
 
-function formatCellValue(value: unknown, fieldDef: ModuleFieldDef): string {
+function formatCellValue(
+  value: unknown,
+  fieldDef: ModuleFieldDef,
+  references: Record<string, string> = {}
+): string {
   if (value == null || value === "") return "—";
 
-  switch (fieldDef.type) {
+  switch (displayFieldType(fieldDef)) {
     case "boolean":
       return value ? "Yes" : "No";
     case "date":
@@ -68,16 +119,200 @@ function formatCellValue(value: unknown, fieldDef: ModuleFieldDef): string {
     }
     case "url":
       return String(value);
+    case "relation": {
+      const ids = Array.isArray(value) ? value : [value];
+      if (ids.length === 0) return "—";
+      return ids.map((id) => references[String(id)] ?? "Unknown").join(", ");
+    }
     default:
       return String(value);
   }
 }
 
+/** A row's group value as stored text; null for empty values */
+function getGroupValue(
+  object: ObjectWithModules,
+  moduleName: string,
+  fieldKey: string
+): string | null {
+  const raw =
+    moduleName === RECORD_MODULE
+      ? object[fieldKey as keyof ObjectWithModules]
+      : getCellValue(object, moduleName, fieldKey);
+  return raw == null || raw === "" ? null : String(raw);
+}
+
+function formatGroupValue(
+  value: string | null,
+  fieldDef: ModuleFieldDef,
+  labels: Record<string, string>
+): string {
+  if (value === null) return "No value";
+  if (labels[value]) return labels[value];
+  if (displayFieldType(fieldDef) === "boolean") return value === "true" ? "Yes" : "No";
+  return formatCellValue(value, fieldDef);
+}
+
+function formatAggregate(aggregates: FieldAggregates | undefined, fn: AggregateFunction): string {
+  const value = aggregates?.[fn];
+  return value == null ? "—" : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+/** Key of one record's field, for edits and errors */
+function cellKey(objectId: string, moduleName: string, fieldKey: string): string {
+  return `${objectId}:${moduleName}.${fieldKey}`;
+}
+
+/** Field types a typed character starts editing with */
+const TYPE_TO_EDIT = new Set(["text", "email", "phone", "url", "textarea", "number"]);
+
+/** Empty values are stored as absent */
+function normalizeCellValue(value: unknown): unknown {
+  if (value === null || value === "") return undefined;
+  if (typeof value === "number" && Number.isNaN(value)) return undefined;
+  return value;
+}
+
+/** Check one value with the module's dynamic validator */
+function validateCell(fieldDef: ModuleFieldDef, value: unknown): string | null {
+  const result = validateModuleData(
+    { fields: [fieldDef] },
+    value === undefined ? {} : { [fieldDef.key]: value }
+  );
+  return result.success ? null : result.errors[0].replace(/^[^:]*:\s*/, "");
+}
+
+/** A cell value as clipboard text */
+function toClipboardText(value: unknown): string {
+  if (value == null) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value).replace(/[\t\n]/g, " ");
+}
+
+/** Clipboard text as a value of the field; unparseable text is left for the validator */
+function parseCellText(text: string, fieldDef: ModuleFieldDef): unknown {
+  const trimmed = text.trim();
+  if (trimmed === "") return undefined;
+  const option = (v: string) =>
+    fieldDef.options?.find(
+      (o) => o.value.toLowerCase() === v.toLowerCase() || o.label.toLowerCase() === v.toLowerCase()
+    )?.value ?? v;
+
+  switch (fieldDef.type) {
+    case "number": {
+      const num = Number(trimmed.replace(/,/g, ""));
+      return Number.isFinite(num) ? num : trimmed;
+    }
+    case "boolean":
+      if (/^(true|yes|1|x)$/i.test(trimmed)) return true;
+      if (/^(false|no|0)$/i.test(trimmed)) return false;
+      return trimmed;
+    case "select":
+      return option(trimmed);
+    case "multiselect":
+      return trimmed.split(",").map((v) => option(v.trim())).filter(Boolean);
+    case "relation": {
+      const ids = trimmed.split(",").map((v) => v.trim()).filter(Boolean);
+      return fieldDef.multiple ? ids : ids[0];
+    }
+    case "textarea":
+      return text;
+    default:
+      return trimmed;
+  }
+}
+
+/** Rows of tab-separated clipboard text */
+function parseClipboard(text: string): string[][] {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  if (lines.length > 1 && lines[lines.length - 1] === "") lines.pop();
+  return lines.map((line) => line.split("\t"));
+}
+
 function getSelectColor(value: unknown, fieldDef: ModuleFieldDef): string | undefined {
   if (fieldDef.type !== "select" || value == null) return undefined;
   return fieldDef.options?.find((o) => o.value === value)?.color;
 }
 
+// ── Cell Editor ──────────────────────────────
+
+function CellEditor({
+  fieldDef,
+  initialValue,
+  error,
+  onCommit,
+  onCancel,
+}: {
+  fieldDef: ModuleFieldDef;
+  initialValue: unknown;
+  error?: string;
+  /** Save the draft, then move the active cell (null: stay) */
+  onCommit: (value: unknown, move: MoveDirection | null) => void;
+  onCancel: () => void;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [draft, setDraft] = useState<unknown>(initialValue);
+  // Enter, Tab and blur can all follow one another; only the first counts
+  const done = useRef(false);
+
+  const finish = useCallback(
+    (value: unknown, move: MoveDirection | null) => {
+      if (done.current) return;
+      done.current = true;
+      onCommit(value, move);
+    },
+    [onCommit]
+  );
+
+  useEffect(() => {
+    const el = ref.current?.querySelector<HTMLElement>("input, select, textarea");
+    el?.focus();
+    if (el instanceof HTMLInputElement && ["text", "email", "tel", "url"].includes(el.type)) {
+      el.setSelectionRange(el.value.length, el.value.length);
+    }
+  }, []);
+
+  // Choices save as soon as they're picked
+  const commitOnChange = fieldDef.type === "select" || fieldDef.type === "boolean";
+
+  return (
+    <div
+      ref={ref}
+      className="absolute left-0 top-0 z-30 min-w-full rounded-md border border-blue-500 bg-white p-1 shadow-lg dark:bg-gray-900"
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        e.stopPropagation();
+        if (e.key === "Escape") {
+          e.preventDefault();
+          done.current = true;
+          onCancel();
+        } else if (e.key === "Tab") {
+          e.preventDefault();
+          finish(draft, e.shiftKey ? "left" : "right");
+        } else if (e.key === "Enter" && !(fieldDef.type === "textarea" && e.shiftKey)) {
+          e.preventDefault();
+          finish(draft, e.shiftKey ? "up" : "down");
+        }
+      }}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) finish(draft, null);
+      }}
+    >
+      <DynamicField
+        field={fieldDef}
+        value={draft}
+        bare
+        onChange={(_, value) => {
+          setDraft(value);
+          if (commitOnChange) finish(value, null);
+        }}
+      />
+      {error && <p className="mt-1 px-1 text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
+
 // ── Component ────────────────────────────────
 
 export function RecordTable({
@@ -89,9 +324,18 @@ export function RecordTable({
   linkToDetail = true,
   loading = false,
   emptyMessage = "No records found",
+  selectedIds = [],
+  onSelectionChange,
+  groupBy = null,
+  groups = null,
+  groupLabels = {},
+  aggregateFunctions = {},
+  onAggregateFunctionChange,
+  onModuleDataSave,
 }: RecordTableProps) {
   const router = useRouter();
   const [hoveredRow, setHoveredRow] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
   const [colWidths, setColWidths] = useState<Record<string, number>>(() => {
     const w: Record<string, number> = {};
     columns.forEach((c) => { w[`${c.module}.${c.field}`] = c.width; });
@@ -104,6 +348,350 @@ export function RecordTable({
     [columns]
   );
 
+  // Rows with a header before each run of one group value; rows of
+  // collapsed groups are left out
+  const items = useMemo((): TableItem[] => {
+    if (!groupBy) return objects.map((object, index) => ({ kind: "row", object, index }));
+    const result: TableItem[] = [];
+    let current: string | undefined;
+    objects.forEach((object, index) => {
+      const value = getGroupValue(object, groupBy.module, groupBy.field);
+      const key = JSON.stringify(value);
+      if (key !== current) {
+        current = key;
+        const group = groups?.groups.find((g) => g.value === value);
+        result.push({ kind: "group", key, value, count: group?.count ?? null });
+      }
+      if (!collapsed.has(key)) result.push({ kind: "row", object, index });
+    });
+    return result;
+  }, [objects, groupBy, groups, collapsed]);
+
+  const toggleGroup = useCallback((key: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }, []);
+
+  const isNumeric = (col: ColumnDef) => displayFieldType(col.fieldDef) === "number";
+  const aggregateFn = (colKey: string): AggregateFunction => aggregateFunctions[colKey] ?? "sum";
+
+  // Clicking a footer total moves on to the next aggregate
+  const cycleAggregate = useCallback(
+    (colKey: string) => {
+      if (!onAggregateFunctionChange) return;
+      const fns = AggregateFunctions.map((a) => a.value);
+      const next = fns[(fns.indexOf(aggregateFunctions[colKey] ?? "sum") + 1) % fns.length];
+      onAggregateFunctionChange(colKey, next);
+    },
+    [aggregateFunctions, onAggregateFunctionChange]
+  );
+
+  // ── Inline editing ──────────────────────────
+
+  const editable = !!onModuleDataSave;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [active, setActive] = useState<CellPos | null>(null);
+  const [anchor, setAnchor] = useState<CellPos | null>(null);
+  const [editing, setEditing] = useState<{ pos: CellPos; initial: unknown } | null>(null);
+  // Saved values shown until the refreshed objects arrive
+  const [overrides, setOverrides] = useState<Record<string, unknown>>({});
+  const [cellErrors, setCellErrors] = useState<Record<string, string>>({});
+  const pending = useRef(new Set<string>());
+
+  useEffect(() => {
+    setOverrides((prev) =>
+      Object.fromEntries(Object.entries(prev).filter(([key]) => pending.current.has(key)))
+    );
+  }, [objects]);
+
+  const visibleRows = useMemo(
+    () =>
+      items
+        .filter((item): item is Extract<TableItem, { kind: "row" }> => item.kind === "row")
+        .map((item) => item.object),
+    [items]
+  );
+  const rowIndex = useMemo(
+    () => new Map(visibleRows.map((obj, i) => [obj.id, i])),
+    [visibleRows]
+  );
+
+  const valueOf = useCallback(
+    (obj: ObjectWithModules, col: ColumnDef): unknown => {
+      const key = cellKey(obj.id, col.module, col.field);
+      return key in overrides ? overrides[key] : getCellValue(obj, col.module, col.field);
+    },
+    [overrides]
+  );
+
+  const canEdit = useCallback(
+    (obj: ObjectWithModules, col: ColumnDef) => {
+      if (!editable || col.module === ROLLUP_MODULE || col.fieldDef.type === "formula") return false;
+      const mod = obj.modules.find((m) => m.moduleName === col.module);
+      return !!mod && !mod.readOnlyFields?.includes(col.field);
+    },
+    [editable]
+  );
+
+  // Selected range, as inclusive bounds
+  const range = useMemo(() => {
+    if (!active) return null;
+    const from = anchor ?? active;
+    return {
+      top: Math.min(from.row, active.row),
+      bottom: Math.max(from.row, active.row),
+      left: Math.min(from.col, active.col),
+      right: Math.max(from.col, active.col),
+    };
+  }, [active, anchor]);
+
+  const selectCell = useCallback((pos: CellPos, extend: boolean) => {
+    setAnchor((prev) => (extend ? prev : pos));
+    setActive(pos);
+    containerRef.current?.focus({ preventScroll: true });
+  }, []);
+
+  const moveActive = useCallback(
+    (direction: MoveDirection, extend = false) => {
+      if (!active) return;
+      const delta = {
+        up: [-1, 0],
+        down: [1, 0],
+        left: [0, -1],
+        right: [0, 1],
+      }[direction];
+      const row = Math.min(Math.max(active.row + delta[0], 0), visibleRows.length - 1);
+      const col = Math.min(Math.max(active.col + delta[1], 0), sortedColumns.length - 1);
+      if (!extend) setAnchor({ row, col });
+      else if (!anchor) setAnchor(active);
+      setActive({ row, col });
+    },
+    [active, anchor, visibleRows.length, sortedColumns.length]
+  );
+
+  useEffect(() => {
+    if (!active) return;
+    containerRef.current
+      ?.querySelector(`[data-cell="${active.row}:${active.col}"]`)
+      ?.scrollIntoView({ block: "nearest", inline: "nearest" });
+  }, [active]);
+
+  /**
+   * Validate and save edited cells: invalid values get an error and are
+   * not sent, valid ones show at once and roll back if the save fails.
+   * Each record module is saved once with all of its edits.
+   */
+  const applyEdits = useCallback(
+    (edits: { object: ObjectWithModules; col: ColumnDef; value: unknown }[]) => {
+      if (!onModuleDataSave) return;
+      const errors: Record<string, string | null> = {};
+      const changed: Record<string, unknown> = {};
+
+      for (const edit of edits) {
+        if (!canEdit(edit.object, edit.col)) continue;
+        const key = cellKey(edit.object.id, edit.col.module, edit.col.field);
+        const value = normalizeCellValue(edit.value);
+        const error = validateCell(edit.col.fieldDef, value);
+        errors[key] = error;
+        if (!error) changed[key] = value ?? null;
+      }
+
+      const merged = { ...overrides, ...changed };
+      setOverrides(merged);
+      setCellErrors((prev) => {
+        const next = { ...prev };
+        for (const [key, error] of Object.entries(errors)) {
+          if (error) next[key] = error;
+          else delete next[key];
+        }
+        return next;
+      });
+
+      // One write per record module, with its other unsaved edits
+      const writes = new Map<string, { object: ObjectWithModules; moduleName: string; keys: string[] }>();
+      for (const edit of edits) {
+        const key = cellKey(edit.object.id, edit.col.module, edit.col.field);
+        if (!(key in changed)) continue;
+        const id = `${edit.object.id}:${edit.col.module}`;
+        const write = writes.get(id) ?? { object: edit.object, moduleName: edit.col.module, keys: [] };
+        write.keys.push(key);
+        writes.set(id, write);
+      }
+
+      for (const { object, moduleName, keys } of writes.values()) {
+        const mod = object.modules.find((m) => m.moduleName === moduleName);
+        if (!mod) continue;
+        const prefix = `${object.id}:${moduleName}.`;
+        const data = { ...mod.data };
+        for (const [key, value] of Object.entries(merged)) {
+          if (!key.startsWith(prefix)) continue;
+          const field = key.slice(prefix.length);
+          if (value == null) delete data[field];
+          else data[field] = value;
+        }
+
+        keys.forEach((key) => pending.current.add(key));
+        onModuleDataSave(object.id, mod.moduleId, data).then((error) => {
+          keys.forEach((key) => pending.current.delete(key));
+          if (!error) return;
+          setOverrides((prev) =>
+            Object.fromEntries(Object.entries(prev).filter(([key]) => !keys.includes(key)))
+          );
+          setCellErrors((prev) => ({
+            ...prev,
+            ...Object.fromEntries(keys.map((key) => [key, error])),
+          }));
+        });
+      }
+    },
+    [onModuleDataSave, canEdit, overrides]
+  );
+
+  const startEditing = useCallback(
+    (pos: CellPos, initial?: unknown) => {
+      const obj = visibleRows[pos.row];
+      const col = sortedColumns[pos.col];
+      if (!obj || !col || !canEdit(obj, col)) return;
+      setEditing({ pos, initial: initial !== undefined ? initial : valueOf(obj, col) });
+    },
+    [visibleRows, sortedColumns, canEdit, valueOf]
+  );
+
+  const commitEditing = useCallback(
+    (value: unknown, move: MoveDirection | null) => {
+      if (!editing) return;
+      const obj = visibleRows[editing.pos.row];
+      const col = sortedColumns[editing.pos.col];
+      setEditing(null);
+      if (obj && col && JSON.stringify(value) !== JSON.stringify(valueOf(obj, col))) {
+        applyEdits([{ object: obj, col, value }]);
+      }
+      if (move) moveActive(move);
+      containerRef.current?.focus({ preventScroll: true });
+    },
+    [editing, visibleRows, sortedColumns, valueOf, applyEdits, moveActive]
+  );
+
+  const cancelEditing = useCallback(() => {
+    setEditing(null);
+    containerRef.current?.focus({ preventScroll: true });
+  }, []);
+
+  // Edits to every editable cell in the selected range
+  const rangeEdits = useCallback(
+    (value: (row: number, col: number) => unknown) => {
+      if (!range) return [];
+      const edits = [];
+      for (let row = range.top; row <= range.bottom; row++) {
+        for (let col = range.left; col <= range.right; col++) {
+          const object = visibleRows[row];
+          const column = sortedColumns[col];
+          if (object && column) edits.push({ object, col: column, value: value(row, col) });
+        }
+      }
+      return edits;
+    },
+    [range, visibleRows, sortedColumns]
+  );
+
+  const handleGridKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (!active || editing) return;
+      const shortcut = e.metaKey || e.ctrlKey;
+
+      if (e.key.startsWith("Arrow")) {
+        e.preventDefault();
+        moveActive(e.key.slice(5).toLowerCase() as MoveDirection, e.shiftKey);
+      } else if (e.key === "Tab") {
+        e.preventDefault();
+        moveActive(e.shiftKey ? "left" : "right");
+      } else if (e.key === "Enter" || e.key === "F2") {
+        e.preventDefault();
+        startEditing(active);
+      } else if (e.key === "Escape") {
+        setActive(null);
+        setAnchor(null);
+      } else if (e.key === "Delete" || e.key === "Backspace") {
+        e.preventDefault();
+        applyEdits(rangeEdits(() => undefined));
+      } else if (shortcut && e.key.toLowerCase() === "d" && range) {
+        // Fill down: the range's first row, or the row above a single row
+        e.preventDefault();
+        const source = range.bottom > range.top ? range.top : range.top - 1;
+        if (source < 0) return;
+        applyEdits(
+          rangeEdits((_, col) => valueOf(visibleRows[source], sortedColumns[col]))
+        );
+      } else if (e.key.length === 1 && !shortcut && !e.altKey) {
+        const col = sortedColumns[active.col];
+        if (col && TYPE_TO_EDIT.has(col.fieldDef.type)) {
+          e.preventDefault();
+          const typed = Number(e.key);
+          startEditing(
+            active,
+            col.fieldDef.type === "number" ? (Number.isNaN(typed) ? null : typed) : e.key
+          );
+        }
+      }
+    },
+    [active, editing, range, moveActive, startEditing, applyEdits, rangeEdits, valueOf, visibleRows, sortedColumns]
+  );
+
+  const handleCopy = useCallback(
+    (e: React.ClipboardEvent) => {
+      if (!range || editing) return;
+      const lines = [];
+      for (let row = range.top; row <= range.bottom; row++) {
+        const cells = [];
+        for (let col = range.left; col <= range.right; col++) {
+          const obj = visibleRows[row];
+          const column = sortedColumns[col];
+          cells.push(obj && column ? toClipboardText(valueOf(obj, column)) : "");
+        }
+        lines.push(cells.join("\t"));
+      }
+      e.clipboardData.setData("text/plain", lines.join("\n"));
+      e.preventDefault();
+    },
+    [range, editing, visibleRows, sortedColumns, valueOf]
+  );
+
+  const handlePaste = useCallback(
+    (e: React.ClipboardEvent) => {
+      if (!range || editing) return;
+      const matrix = parseClipboard(e.clipboardData.getData("text/plain"));
+      if (matrix.length === 0) return;
+      e.preventDefault();
+
+      // A single value fills the whole range; a block pastes from its corner
+      const single = matrix.length === 1 && matrix[0].length === 1;
+      const bottom = single ? range.bottom : range.top + matrix.length - 1;
+      const right = single ? range.right : range.left + matrix[0].length - 1;
+      const edits = [];
+      for (let row = range.top; row <= Math.min(bottom, visibleRows.length - 1); row++) {
+        for (let col = range.left; col <= Math.min(right, sortedColumns.length - 1); col++) {
+          const text = single ? matrix[0][0] : matrix[row - range.top]?.[col - range.left];
+          if (text === undefined) continue;
+          const column = sortedColumns[col];
+          edits.push({ object: visibleRows[row], col: column, value: parseCellText(text, column.fieldDef) });
+        }
+      }
+      applyEdits(edits);
+      if (!single) {
+        setAnchor({ row: range.top, col: range.left });
+        setActive({
+          row: Math.min(bottom, visibleRows.length - 1),
+          col: Math.min(right, sortedColumns.length - 1),
+        });
+      }
+    },
+    [range, editing, visibleRows, sortedColumns, applyEdits]
+  );
+
   // Handle column sort toggle
   const handleSort = useCallback(
     (col: ColumnDef) => {
@@ -122,6 +710,32 @@ export function RecordTable({
     [sorts, onSortChange]
   );
 
+  const selectable = !!onSelectionChange;
+  const selected = useMemo(() => new Set(selectedIds), [selectedIds]);
+  const allSelected = objects.length > 0 && objects.every((o) => selected.has(o.id));
+
+  const toggleRow = useCallback(
+    (objectId: string) => {
+      if (!onSelectionChange) return;
+      onSelectionChange(
+        selected.has(objectId)
+          ? selectedIds.filter((id) => id !== objectId)
+          : [...selectedIds, objectId]
+      );
+    },
+    [onSelectionChange, selected, selectedIds]
+  );
+
+  const togglePage = useCallback(() => {
+    if (!onSelectionChange) return;
+    const pageIds = new Set(objects.map((o) => o.id));
+    onSelectionChange(
+      allSelected
+        ? selectedIds.filter((id) => !pageIds.has(id))
+        : [...new Set([...selectedIds, ...pageIds])]
+    );
+  }, [onSelectionChange, objects, allSelected, selectedIds]);
+
   const handleRowClick = useCallback(
     (objectId: string) => {
       if (onRecordClick) {
@@ -160,14 +774,31 @@ export function RecordTable({
 
   return (
     <div className="flex flex-1 flex-col overflow-hidden">
-      <div className="flex-1 overflow-auto">
+      <div
+        ref={containerRef}
+        className="flex-1 overflow-auto focus:outline-none"
+        tabIndex={editable ? 0 : undefined}
+        onKeyDown={editable ? handleGridKeyDown : undefined}
+        onCopy={editable ? handleCopy : undefined}
+        onPaste={editable ? handlePaste : undefined}
+      >
         <table className="w-full border-collapse text-sm">
           {/* ── Header ── */}
           <thead className="sticky top-0 z-10">
             <tr className="border-b border-gray-200 bg-gray-50 dark:border-gray-800 dark:bg-gray-900/80">
-              {/* Row number */}
+              {/* Row number, or select-page checkbox */}
               <th className="w-10 px-2 py-2 text-center text-xs font-medium text-gray-400">
-                #
+                {selectable ? (
+                  <input
+                    type="checkbox"
+                    aria-label="Select all on this page"
+                    checked={allSelected}
+                    onChange={togglePage}
+                    className="h-3.5 w-3.5 cursor-pointer"
+                  />
+                ) : (
+                  "#"
+                )}
               </th>
               {/* Name column (always first) */}
               <th className="sticky left-0 z-20 min-w-[180px] bg-gray-50 px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500 dark:bg-gray-900/80 dark:text-gray-400">
@@ -232,93 +863,228 @@ export function RecordTable({
             )}
 
             {!loading &&
-              objects.map((obj, idx) => (
-                <tr
-                  key={obj.id}
-                  onClick={() => handleRowClick(obj.id)}
-                  onMouseEnter={() => setHoveredRow(obj.id)}
-                  onMouseLeave={() => setHoveredRow(null)}
-                  className={clsx(
-                    "cursor-pointer border-b border-gray-100 transition-colors dark:border-gray-800/50",
-                    hoveredRow === obj.id
-                      ? "bg-blue-50/60 dark:bg-blue-950/20"
-                      : idx % 2 === 0
-                        ? "bg-white dark:bg-gray-950"
-                        : "bg-gray-50/40 dark:bg-gray-900/40"
-                  )}
-                >
-                  {/* Row number */}
-                  <td className="px-2 py-2.5 text-center text-xs text-gray-400">
-                    {idx + 1}
-                  </td>
+              items.map((item) => {
+                if (item.kind === "group") {
+                  const group = groups?.groups.find((g) => g.value === item.value);
+                  const isCollapsed = collapsed.has(item.key);
+                  return (
+                    <tr
+                      key={`group-${item.key}`}
+                      className="border-b border-gray-200 bg-gray-100/70 dark:border-gray-800 dark:bg-gray-900"
+                    >
+                      <td colSpan={2} className="sticky left-0 z-10 bg-gray-100/70 px-2 py-1.5 dark:bg-gray-900">
+                        <button
+                          onClick={() => toggleGroup(item.key)}
+                          className="flex items-center gap-1.5 text-xs font-semibold text-gray-700 dark:text-gray-200"
+                          aria-expanded={!isCollapsed}
+                        >
+                          {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                          <span className="truncate">
+                            {groupBy
+                              ? formatGroupValue(item.value, groupBy.fieldDef, groupLabels)
+                              : item.value}
+                          </span>
+                          {item.count !== null && (
+                            <span className="rounded-full bg-gray-200 px-1.5 text-[10px] font-medium text-gray-500 dark:bg-gray-800 dark:text-gray-400">
+                              {item.count.toLocaleString()}
+                            </span>
+                          )}
+                        </button>
+                      </td>
+                      {sortedColumns.map((col) => {
+                        const colKey = `${col.module}.${col.field}`;
+                        return (
+                          <td
+                            key={colKey}
+                            className="truncate px-3 py-1.5 text-xs text-gray-500 dark:text-gray-400"
+                          >
+                            {isNumeric(col) && group?.aggregates[colKey]
+                              ? formatAggregate(group.aggregates[colKey], aggregateFn(colKey))
+                              : null}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                }
 
-                  {/* Name (sticky) */}
-                  <td
+                const { object: obj, index: idx } = item;
+                return (
+                  <tr
+                    key={obj.id}
+                    onClick={() => handleRowClick(obj.id)}
+                    onMouseEnter={() => setHoveredRow(obj.id)}
+                    onMouseLeave={() => setHoveredRow(null)}
                     className={clsx(
-                      "sticky left-0 z-10 min-w-[180px] px-3 py-2.5 font-medium",
-                      hoveredRow === obj.id
-                        ? "bg-blue-50/60 text-blue-700 dark:bg-blue-950/20 dark:text-blue-300"
+                      "cursor-pointer border-b border-gray-100 transition-colors dark:border-gray-800/50",
+                      hoveredRow === obj.id || selected.has(obj.id)
+                        ? "bg-blue-50/60 dark:bg-blue-950/20"
                         : idx % 2 === 0
-                          ? "bg-white text-gray-900 dark:bg-gray-950 dark:text-white"
-                          : "bg-gray-50/40 text-gray-900 dark:bg-gray-900/40 dark:text-white"
+                          ? "bg-white dark:bg-gray-950"
+                          : "bg-gray-50/40 dark:bg-gray-900/40"
                     )}
                   >
-                    <span className="truncate">{obj.displayName}</span>
-                  </td>
-
-                  {/* Data columns */}
-                  {sortedColumns.map((col) => {
-                    const colKey = `${col.module}.${col.field}`;
-                    const width = colWidths[colKey] ?? col.width;
-                    const value = getCellValue(obj, col.module, col.field);
-                    const selectColor = getSelectColor(value, col.fieldDef);
-
-                    return (
-                      <td
-                        key={colKey}
-                        className="px-3 py-2.5 text-gray-600 dark:text-gray-400"
-                        style={{ width, minWidth: 80, maxWidth: width }}
-                      >
-                        {col.fieldDef.type === "select" && selectColor ? (
-                          <span
-                            className="inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium"
-                            style={{
-                              backgroundColor: `${selectColor}20`,
-                              color: selectColor,
-                            }}
-                          >
-                            {formatCellValue(value, col.fieldDef)}
-                          </span>
-                        ) : col.fieldDef.type === "boolean" ? (
-                          <span
-                            className={clsx(
-                              "inline-block h-4 w-4 rounded",
-                              value
-                                ? "bg-green-500"
-                                : "border border-gray-300 dark:border-gray-600"
-                            )}
-                          />
-                        ) : col.fieldDef.type === "url" && value ? (
-                          <a
-                            href={String(value)}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-blue-600 underline hover:text-blue-800 dark:text-blue-400"
-                            onClick={(e) => e.stopPropagation()}
-                          >
-                            {String(value).replace(/^https?:\/\//, "").slice(0, 30)}
-                          </a>
-                        ) : (
-                          <span className="block truncate">
-                            {formatCellValue(value, col.fieldDef)}
-                          </span>
-                        )}
-                      </td>
-                    );
-                  })}
-                </tr>
-              ))}
+                    {/* Row number, or row checkbox */}
+                    <td
+                      className="px-2 py-2.5 text-center text-xs text-gray-400"
+                      onClick={selectable ? (e) => e.stopPropagation() : undefined}
+                    >
+                      {selectable ? (
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${obj.displayName}`}
+                          checked={selected.has(obj.id)}
+                          onChange={() => toggleRow(obj.id)}
+                          className="h-3.5 w-3.5 cursor-pointer"
+                        />
+                      ) : (
+                        idx + 1
+                      )}
+                    </td>
+
+                    {/* Name (sticky) */}
+                    <td
+                      className={clsx(
+                        "sticky left-0 z-10 min-w-[180px] px-3 py-2.5 font-medium",
+                        hoveredRow === obj.id || selected.has(obj.id)
+                          ? "bg-blue-50/60 text-blue-700 dark:bg-blue-950/20 dark:text-blue-300"
+                          : idx % 2 === 0
+                            ? "bg-white text-gray-900 dark:bg-gray-950 dark:text-white"
+                            : "bg-gray-50/40 text-gray-900 dark:bg-gray-900/40 dark:text-white"
+                      )}
+                    >
+                      <span className="truncate">{obj.displayName}</span>
+                    </td>
+
+                    {/* Data columns */}
+                    {sortedColumns.map((col, colIdx) => {
+                      const colKey = `${col.module}.${col.field}`;
+                      const width = colWidths[colKey] ?? col.width;
+                      const value = valueOf(obj, col);
+                      const selectColor = getSelectColor(value, col.fieldDef);
+                      const pos = { row: rowIndex.get(obj.id) ?? 0, col: colIdx };
+                      const key = cellKey(obj.id, col.module, col.field);
+                      const error = cellErrors[key];
+                      const isActive = active?.row === pos.row && active.col === pos.col;
+                      const inRange =
+                        !!range &&
+                        pos.row >= range.top &&
+                        pos.row <= range.bottom &&
+                        pos.col >= range.left &&
+                        pos.col <= range.right;
+                      const isEditing =
+                        editing?.pos.row === pos.row && editing.pos.col === pos.col;
+
+                      return (
+                        <td
+                          key={colKey}
+                          data-cell={`${pos.row}:${pos.col}`}
+                          title={error}
+                          className={clsx(
+                            "relative px-3 py-2.5 text-gray-600 dark:text-gray-400",
+                            inRange && !isActive && "bg-blue-100/50 dark:bg-blue-900/20",
+                            isActive && "outline outline-2 -outline-offset-2 outline-blue-500",
+                            error && "bg-red-50 dark:bg-red-950/30"
+                          )}
+                          style={{ width, minWidth: 80, maxWidth: width }}
+                          onClick={
+                            editable
+                              ? (e) => {
+                                  e.stopPropagation();
+                                  selectCell(pos, e.shiftKey);
+                                }
+                              : undefined
+                          }
+                          onDoubleClick={editable ? () => startEditing(pos) : undefined}
+                        >
+                          {error && (
+                            <span className="absolute right-0 top-0 h-0 w-0 border-l-[6px] border-t-[6px] border-l-transparent border-t-red-500" />
+                          )}
+                          {isEditing && (
+                            <CellEditor
+                              fieldDef={col.fieldDef}
+                              initialValue={editing.initial}
+                              error={error}
+                              onCommit={commitEditing}
+                              onCancel={cancelEditing}
+                            />
+                          )}
+                          {col.fieldDef.type === "select" && selectColor ? (
+                            <span
+                              className="inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium"
+                              style={{
+                                backgroundColor: `${selectColor}20`,
+                                color: selectColor,
+                              }}
+                            >
+                              {formatCellValue(value, col.fieldDef, obj.references)}
+                            </span>
+                          ) : displayFieldType(col.fieldDef) === "boolean" ? (
+                            <span
+                              className={clsx(
+                                "inline-block h-4 w-4 rounded",
+                                value
+                                  ? "bg-green-500"
+                                  : "border border-gray-300 dark:border-gray-600"
+                              )}
+                            />
+                          ) : col.fieldDef.type === "url" && value ? (
+                            <a
+                              href={String(value)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-blue-600 underline hover:text-blue-800 dark:text-blue-400"
+                              onClick={(e) => e.stopPropagation()}
+                            >
+                              {String(value).replace(/^https?:\/\//, "").slice(0, 30)}
+                            </a>
+                          ) : (
+                            <span className="block truncate">
+                              {formatCellValue(value, col.fieldDef, obj.references)}
+                            </span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
           </tbody>
+
+          {/* ── Totals of all matching records ── */}
+          {groups && !loading && (
+            <tfoot className="sticky bottom-0 z-10">
+              <tr className="border-t border-gray-200 bg-gray-50 dark:border-gray-800 dark:bg-gray-900">
+                <td
+                  colSpan={2}
+                  className="sticky left-0 z-20 bg-gray-50 px-3 py-2 text-xs font-medium text-gray-500 dark:bg-gray-900 dark:text-gray-400"
+                >
+                  {groups.total.count.toLocaleString()} record{groups.total.count !== 1 ? "s" : ""}
+                </td>
+                {sortedColumns.map((col) => {
+                  const colKey = `${col.module}.${col.field}`;
+                  const aggregates = groups.total.aggregates[colKey];
+                  if (!isNumeric(col) || !aggregates) return <td key={colKey} />;
+                  const fn = aggregateFn(colKey);
+                  return (
+                    <td key={colKey} className="px-3 py-2 text-xs">
+                      <button
+                        onClick={() => cycleAggregate(colKey)}
+                        disabled={!onAggregateFunctionChange}
+                        className="flex items-baseline gap-1 text-gray-700 enabled:hover:text-blue-600 dark:text-gray-200"
+                        title={onAggregateFunctionChange ? "Change aggregate" : undefined}
+                      >
+                        <span className="text-[10px] uppercase tracking-wider text-gray-400">
+                          {AggregateFunctions.find((a) => a.value === fn)?.label}
+                        </span>
+                        <span className="font-medium">{formatAggregate(aggregates, fn)}</span>
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            </tfoot>
+          )}
         </table>
       </div>
     </div>
@@ -0,0 +1,270 @@
+"use client";
+
+import { useState, useCallback, useMemo, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { clsx } from "clsx";
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  useDraggable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import type { ObjectWithModules } from "@/modules/engine/types/object.types";
+import { addDays, daysBetween } from "@/modules/engine/types/view-layout.types";
+import {
+  DateNavigator,
+  getDateValue,
+  shiftObjectDates,
+  type DateChanges,
+  type DateFieldOption,
+} from "./RecordCalendar";
+
+// ── Types ────────────────────────────────────
+
+interface RecordTimelineProps {
+  objects: ObjectWithModules[];
+  /** Date field bars start on */
+  startField: DateFieldOption;
+  /** Date field bars end on; without it a bar spans its start day */
+  endField: DateFieldOption | null;
+  /** Day in the month shown (YYYY-MM-DD) */
+  anchor: string;
+  /** Days shown, end exclusive */
+  range: { start: string; end: string };
+  onAnchorChange: (anchor: string) => void;
+  /** Called when a bar is dragged to other days */
+  onRecordMove?: (objectId: string, changes: DateChanges) => void;
+  onRecordClick?: (objectId: string) => void;
+  loading?: boolean;
+}
+
+/** Width of one day column, in pixels */
+const DAY_WIDTH = 32;
+
+// ── Helpers ──────────────────────────────────
+
+function isWeekend(day: string): boolean {
+  const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+  return weekday === 0 || weekday === 6;
+}
+
+/** First and last day of a record's bar, or null without a start */
+function barDays(
+  obj: ObjectWithModules,
+  startField: DateFieldOption,
+  endField: DateFieldOption | null
+): [string, string] | null {
+  const start = getDateValue(obj, startField)?.slice(0, 10);
+  if (!start) return null;
+  const end = endField ? getDateValue(obj, endField)?.slice(0, 10) : null;
+  return [start, end && end >= start ? end : start];
+}
+
+// ── Sub-Components ───────────────────────────
+
+function TimelineBar({
+  object,
+  days,
+  range,
+  onClick,
+}: {
+  object: ObjectWithModules;
+  days: [string, string];
+  range: { start: string; end: string };
+  onClick?: () => void;
+}) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: object.id,
+    data: { object },
+  });
+
+  // Clip to the range; the clipped side shows square
+  const lastDay = addDays(range.end, -1);
+  const from = days[0] < range.start ? range.start : days[0];
+  const to = days[1] > lastDay ? lastDay : days[1];
+  const left = daysBetween(range.start, from) * DAY_WIDTH;
+  const width = (daysBetween(from, to) + 1) * DAY_WIDTH;
+
+  return (
+    <button
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      onClick={onClick}
+      title={days[0] === days[1] ? days[0] : `${days[0]} → ${days[1]}`}
+      style={{
+        left,
+        width: width - 4,
+        transform: transform ? `translateX(${transform.x}px)` : undefined,
+      }}
+      className={clsx(
+        "absolute top-1.5 h-6 truncate bg-blue-500 px-2 text-left text-xs text-white shadow-sm hover:bg-blue-600",
+        days[0] < range.start ? "rounded-r" : days[1] > lastDay ? "rounded-l" : "rounded",
+        isDragging && "z-10 opacity-80 shadow-md"
+      )}
+    >
+      {object.displayName}
+    </button>
+  );
+}
+
+// ── Main Component ───────────────────────────
+
+export function RecordTimeline({
+  objects,
+  startField,
+  endField,
+  anchor,
+  range,
+  onAnchorChange,
+  onRecordMove,
+  onRecordClick,
+  loading = false,
+}: RecordTimelineProps) {
+  const router = useRouter();
+  const [mounted, setMounted] = useState(false);
+
+  // Local copy of objects for optimistic moves
+  const [localObjects, setLocalObjects] = useState<ObjectWithModules[]>(objects);
+  useEffect(() => { setLocalObjects(objects); }, [objects]);
+
+  // DndContext IDs differ between SSR and client; render it after mount
+  useEffect(() => { setMounted(true); }, []);
+
+  const days = useMemo(() => {
+    const list: string[] = [];
+    for (let day = range.start; day < range.end; day = addDays(day, 1)) list.push(day);
+    return list;
+  }, [range.start, range.end]);
+
+  const rows = useMemo(
+    () =>
+      localObjects
+        .map((obj) => ({ object: obj, days: barDays(obj, startField, endField) }))
+        .filter((row): row is { object: ObjectWithModules; days: [string, string] } => !!row.days),
+    [localObjects, startField, endField]
+  );
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor)
+  );
+
+  const handleDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      const shift = Math.round(event.delta.x / DAY_WIDTH);
+      const obj = localObjects.find((o) => o.id === String(event.active.id));
+      if (!obj || shift === 0 || !onRecordMove) return;
+
+      // Start and end move together, keeping the duration
+      const fields = endField ? [startField, endField] : [startField];
+      const { changes, object } = shiftObjectDates(obj, fields, shift);
+      setLocalObjects((prev) => prev.map((o) => (o.id === obj.id ? object : o)));
+      onRecordMove(obj.id, changes);
+    },
+    [localObjects, startField, endField, onRecordMove]
+  );
+
+  const handleBarClick = useCallback(
+    (objectId: string) => {
+      if (onRecordClick) onRecordClick(objectId);
+      else router.push(`/record/${objectId}`);
+    },
+    [onRecordClick, router]
+  );
+
+  if (loading || !mounted) {
+    return (
+      <div className="flex flex-1 items-center justify-center">
+        <div className="flex items-center gap-2 text-sm text-gray-400">
+          <div className="h-4 w-4 animate-spin rounded-full border-2 border-blue-500 border-t-transparent" />
+          Loading…
+        </div>
+      </div>
+    );
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  const trackWidth = days.length * DAY_WIDTH;
+
+  return (
+    <div className="flex flex-1 flex-col overflow-hidden">
+      <DateNavigator mode="timeline" anchor={anchor} onAnchorChange={onAnchorChange}>
+        <span className="text-xs text-gray-400">
+          {startField.label}
+          {endField ? ` → ${endField.label}` : ""}
+        </span>
+      </DateNavigator>
+
+      <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+        <div className="flex-1 overflow-auto">
+          <div style={{ width: 220 + trackWidth }}>
+            {/* Day header */}
+            <div className="sticky top-0 z-20 flex border-b border-gray-200 bg-white dark:border-gray-800 dark:bg-gray-950">
+              <div className="sticky left-0 z-10 w-[220px] flex-shrink-0 border-r border-gray-200 bg-white px-3 py-1.5 text-xs font-medium text-gray-500 dark:border-gray-800 dark:bg-gray-950">
+                Record
+              </div>
+              {days.map((day) => (
+                <div
+                  key={day}
+                  style={{ width: DAY_WIDTH }}
+                  className={clsx(
+                    "flex-shrink-0 py-1.5 text-center text-[11px]",
+                    day === today
+                      ? "font-semibold text-blue-600"
+                      : isWeekend(day)
+                        ? "text-gray-300 dark:text-gray-600"
+                        : "text-gray-500 dark:text-gray-400"
+                  )}
+                >
+                  {Number(day.slice(8, 10))}
+                </div>
+              ))}
+            </div>
+
+            {rows.length === 0 && (
+              <div className="px-4 py-10 text-center text-sm text-gray-400">
+                No records in this period.
+              </div>
+            )}
+
+            {rows.map((row) => (
+              <div
+                key={row.object.id}
+                className="flex border-b border-gray-100 hover:bg-gray-50/60 dark:border-gray-800/60 dark:hover:bg-gray-900/40"
+              >
+                <button
+                  onClick={() => handleBarClick(row.object.id)}
+                  className="sticky left-0 z-10 w-[220px] flex-shrink-0 truncate border-r border-gray-200 bg-white px-3 py-2 text-left text-sm text-gray-700 hover:text-blue-600 dark:border-gray-800 dark:bg-gray-950 dark:text-gray-200"
+                >
+                  {row.object.displayName}
+                </button>
+                <div className="relative h-9 flex-shrink-0" style={{ width: trackWidth }}>
+                  {/* Weekend shading */}
+                  {days.map((day, i) =>
+                    isWeekend(day) ? (
+                      <div
+                        key={day}
+                        className="absolute inset-y-0 bg-gray-50 dark:bg-gray-900/60"
+                        style={{ left: i * DAY_WIDTH, width: DAY_WIDTH }}
+                      />
+                    ) : null
+                  )}
+                  <TimelineBar
+                    object={row.object}
+                    days={row.days}
+                    range={range}
+                    onClick={() => handleBarClick(row.object.id)}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </DndContext>
+    </div>
+  );
+}
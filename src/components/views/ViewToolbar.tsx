@@ -2,8 +2,30 @@
 
 import { useState, useCallback, useRef, useEffect } from "react";
 import { clsx } from "clsx";
-import type { View, ViewFilter, ViewSort } from "@/modules/engine/services/view.service";
+import type { View, ViewFieldConfig, ViewSort } from "@/modules/engine/services/view.service";
 import type { ModuleFieldDef } from "@/modules/engine/types/module.types";
+import { displayFieldType } from "@/modules/engine/types/module.types";
+import { ROLLUP_MODULE } from "@/modules/engine/types/rollup.types";
+import {
+  CURRENT_USER,
+  MAX_FILTER_DEPTH,
+  RECORD_MODULE,
+  ViewFilterOperators,
+  isFilterGroup,
+  type ViewFilter,
+  type ViewFilterGroup,
+  type ViewFilterNode,
+  type ViewFilterOperator,
+} from "@/modules/engine/types/view-filter.types";
+import {
+  DATE_LAYOUTS,
+  GROUPABLE_FIELD_TYPES,
+  SWIMLANE_FIELD_TYPES,
+  ViewLayoutTypes,
+  type ViewFieldRef,
+  type ViewLayoutConfig,
+  type ViewLayoutType,
+} from "@/modules/engine/types/view-layout.types";
 import {
   ChevronDown,
   Filter,
@@ -18,6 +40,11 @@ import {
   Eye,
   Download,
   Columns3,
+  CalendarDays,
+  ChartGantt,
+  LayoutDashboard,
+  Rows3,
+  SlidersHorizontal,
 } from "lucide-react";
 
 // ── Types ────────────────────────────────────
@@ -34,19 +61,43 @@ interface ViewToolbarProps {
   activeView: View;
   availableFields: AvailableField[];
   onViewChange: (viewId: string) => void;
-  onLayoutToggle: (layout: "table" | "kanban") => void;
-  onFiltersChange: (filters: ViewFilter[]) => void;
+  onLayoutToggle: (layout: ViewLayoutType) => void;
+  onFiltersChange: (filters: ViewFilterNode[]) => void;
   onSortsChange: (sorts: ViewSort[]) => void;
   onCreateView?: (name: string) => void;
   onDeleteView?: (viewId: string) => void;
   /** Called when user selects a different kanban grouping field */
   onKanbanFieldChange?: (moduleName: string, fieldKey: string) => void;
+  /** Called when the table's group field changes (null: no grouping) */
+  onGroupByChange?: (group: ViewFieldRef | null) => void;
+  /** Called when user picks the date fields of a calendar or timeline */
+  onLayoutConfigChange?: (config: ViewLayoutConfig) => void;
+  /** Date fields the calendar or timeline uses (saved or defaulted) */
+  dateFields?: { startField: ViewFieldRef | null; endField: ViewFieldRef | null };
+  /** Gallery and kanban: secondary fields the cards show (saved or defaulted) */
+  cardFields?: ViewFieldRef[];
+  /** Kanban: the board's columns, to set WIP limits on */
+  kanbanColumns?: { value: string; label: string }[];
+  /** Called when user picks the fields a gallery or kanban card shows */
+  onVisibleFieldsChange?: (fields: ViewFieldConfig[]) => void;
   /** Called when user clicks CSV export */
   onExport?: () => void;
   /** Total record count to show */
   recordCount?: number;
+  /** Record columns (owner, creator, timestamps) to filter and sort by */
+  recordFields?: AvailableField[];
+  /** Users offered for owner / creator filters */
+  users?: { id: string; full_name: string }[];
 }
 
+const LAYOUT_ICONS: Record<ViewLayoutType, typeof Table2> = {
+  table: Table2,
+  kanban: LayoutGrid,
+  calendar: CalendarDays,
+  timeline: ChartGantt,
+  gallery: LayoutDashboard,
+};
+
 // ── Dropdown Shared Hook ─────────────────────
 
 function useDropdown() {
@@ -174,74 +225,305 @@ function ViewSelector({
 
 // ── Filter Builder ───────────────────────────
 
-const OPERATORS = [
-  { value: "eq", label: "is" },
-  { value: "neq", label: "is not" },
-  { value: "contains", label: "contains" },
-  { value: "gt", label: "greater than" },
-  { value: "lt", label: "less than" },
-  { value: "gte", label: "≥" },
-  { value: "lte", label: "≤" },
-  { value: "is_empty", label: "is empty" },
-  { value: "is_not_empty", label: "is not empty" },
-];
+/** Record fields whose value is a user, picked from a list */
+const USER_FIELDS = new Set(["owner_id", "created_by"]);
+
+const DATE_TYPES = new Set(["date", "datetime"]);
+
+interface FilterFieldsProps {
+  fields: AvailableField[];
+  users: { id: string; full_name: string }[];
+}
+
+/**
+ * The builder edits a single root group. Stored filters are ANDed, so an
+ * AND root is stored as its conditions and an OR root as a one-group list.
+ */
+function toRootGroup(filters: ViewFilterNode[]): ViewFilterGroup {
+  if (filters.length === 1 && isFilterGroup(filters[0])) return filters[0];
+  return { conjunction: "and", conditions: filters };
+}
+
+function fromRootGroup(root: ViewFilterGroup): ViewFilterNode[] {
+  if (root.conjunction === "and" || root.conditions.length === 0) return root.conditions;
+  return [root];
+}
+
+function countConditions(nodes: ViewFilterNode[]): number {
+  return nodes.reduce(
+    (sum, node) => sum + (isFilterGroup(node) ? countConditions(node.conditions) : 1),
+    0
+  );
+}
+
+/** Replace the node at `path` (child indexes from the root) */
+function updateNodeAt(
+  group: ViewFilterGroup,
+  path: number[],
+  update: (node: ViewFilterNode) => ViewFilterNode | null
+): ViewFilterGroup {
+  const [idx, ...rest] = path;
+  const conditions = [...group.conditions];
+  const child = conditions[idx];
+  const next =
+    rest.length === 0 ? update(child) : isFilterGroup(child) ? updateNodeAt(child, rest, update) : child;
+  if (next === null) conditions.splice(idx, 1);
+  else conditions[idx] = next;
+  return { ...group, conditions };
+}
+
+function isUserSelect(filter: ViewFilter): boolean {
+  return filter.module === RECORD_MODULE && USER_FIELDS.has(filter.field) && filter.operator !== "in";
+}
+
+function FilterConditionRow({
+  filter,
+  fields,
+  users,
+  onChange,
+  onApply,
+  onRemove,
+}: FilterFieldsProps & {
+  filter: ViewFilter;
+  onChange: (updates: Partial<ViewFilter>) => void;
+  onApply: () => void;
+  onRemove: () => void;
+}) {
+  const fieldDef = fields.find((f) => f.module === filter.module && f.field === filter.field)?.fieldDef;
+  const isDate = !!fieldDef && DATE_TYPES.has(fieldDef.type);
+  const isUser = isUserSelect(filter);
+  const operators = ViewFilterOperators.filter((op) => !op.dateOnly || isDate);
+  const input = ViewFilterOperators.find((op) => op.value === filter.operator)?.input ?? "text";
+
+  return (
+    <div className="flex items-center gap-2">
+      {/* Field selector */}
+      <select
+        value={`${filter.module}.${filter.field}`}
+        onChange={(e) => {
+          const [mod, fld] = e.target.value.split(".");
+          const next = fields.find((f) => f.module === mod && f.field === fld)?.fieldDef;
+          const keepsOperator =
+            !ViewFilterOperators.find((op) => op.value === filter.operator)?.dateOnly ||
+            (!!next && DATE_TYPES.has(next.type));
+          onChange({ module: mod, field: fld, ...(keepsOperator ? {} : { operator: "eq", value: "" }) });
+        }}
+        className="rounded border border-gray-200 px-2 py-1 text-xs dark:border-gray-700 dark:bg-gray-800"
+      >
+        {fields.map((af) => (
+          <option key={`${af.module}.${af.field}`} value={`${af.module}.${af.field}`}>
+            {af.label}
+          </option>
+        ))}
+      </select>
+
+      {/* Operator */}
+      <select
+        value={filter.operator}
+        onChange={(e) => onChange({ operator: e.target.value as ViewFilterOperator })}
+        className="rounded border border-gray-200 px-2 py-1 text-xs dark:border-gray-700 dark:bg-gray-800"
+      >
+        {operators.map((op) => (
+          <option key={op.value} value={op.value}>
+            {op.label}
+          </option>
+        ))}
+      </select>
+
+      {/* Value — typed values only apply on Enter or Apply button */}
+      {input === "text" && isUser && (
+        <select
+          value={String(filter.value ?? "")}
+          onChange={(e) => onChange({ value: e.target.value })}
+          className="min-w-0 flex-1 rounded border border-gray-200 px-2 py-1 text-xs dark:border-gray-700 dark:bg-gray-800"
+        >
+          <option value="">Select user…</option>
+          <option value={CURRENT_USER}>Current user</option>
+          {users.map((u) => (
+            <option key={u.id} value={u.id}>
+              {u.full_name}
+            </option>
+          ))}
+        </select>
+      )}
+      {input === "text" && !isUser && (
+        <input
+          value={Array.isArray(filter.value) ? filter.value.join(", ") : String(filter.value ?? "")}
+          onChange={(e) => onChange({ value: e.target.value })}
+          onKeyDown={(e) => e.key === "Enter" && onApply()}
+          placeholder={filter.operator === "in" ? "a, b, c… (Enter to apply)" : "Value… (Enter to apply)"}
+          className="min-w-0 flex-1 rounded border border-gray-200 px-2 py-1 text-xs dark:border-gray-700 dark:bg-gray-800"
+        />
+      )}
+      {input === "days" && (
+        <input
+          type="number"
+          min={0}
+          value={String(filter.value ?? "")}
+          onChange={(e) => onChange({ value: e.target.value })}
+          onKeyDown={(e) => e.key === "Enter" && onApply()}
+          placeholder="Days"
+          className="w-20 rounded border border-gray-200 px-2 py-1 text-xs dark:border-gray-700 dark:bg-gray-800"
+        />
+      )}
+      {input === "none" && <div className="flex-1" />}
+
+      {/* Remove */}
+      <button onClick={onRemove} className="text-gray-400 hover:text-red-500">
+        <X size={14} />
+      </button>
+    </div>
+  );
+}
+
+function FilterGroupEditor({
+  group,
+  depth,
+  fields,
+  users,
+  onChange,
+  onApply,
+  onRemove,
+}: FilterFieldsProps & {
+  group: ViewFilterGroup;
+  depth: number;
+  /** `apply` is false while a value is being typed */
+  onChange: (group: ViewFilterGroup, apply: boolean) => void;
+  onApply: () => void;
+  onRemove?: () => void;
+}) {
+  const update = (
+    path: number[],
+    fn: (node: ViewFilterNode) => ViewFilterNode | null,
+    apply = true
+  ) => onChange(updateNodeAt(group, path, fn), apply);
+
+  const newCondition = (): ViewFilter => ({
+    module: fields[0].module,
+    field: fields[0].field,
+    operator: "eq",
+    value: "",
+  });
+
+  return (
+    <div
+      className={clsx(
+        "space-y-2",
+        depth > 0 && "rounded-md border border-gray-200 bg-gray-50/60 p-2 dark:border-gray-700 dark:bg-gray-800/40"
+      )}
+    >
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <span>Match</span>
+        <div className="flex rounded-md border border-gray-200 dark:border-gray-700">
+          {(["and", "or"] as const).map((c) => (
+            <button
+              key={c}
+              onClick={() => onChange({ ...group, conjunction: c }, true)}
+              className={clsx(
+                "px-2 py-0.5 first:rounded-l-md last:rounded-r-md",
+                group.conjunction === c
+                  ? "bg-blue-600 text-white"
+                  : "hover:bg-gray-100 dark:hover:bg-gray-800"
+              )}
+            >
+              {c === "and" ? "All" : "Any"}
+            </button>
+          ))}
+        </div>
+        <span>of these conditions</span>
+        {onRemove && (
+          <button onClick={onRemove} className="ml-auto text-gray-400 hover:text-red-500" title="Remove group">
+            <Trash2 size={13} />
+          </button>
+        )}
+      </div>
+
+      {group.conditions.map((node, idx) =>
+        isFilterGroup(node) ? (
+          <FilterGroupEditor
+            key={idx}
+            group={node}
+            depth={depth + 1}
+            fields={fields}
+            users={users}
+            onChange={(next, apply) => update([idx], () => next, apply)}
+            onApply={onApply}
+            onRemove={() => update([idx], () => null)}
+          />
+        ) : (
+          <FilterConditionRow
+            key={idx}
+            filter={node}
+            fields={fields}
+            users={users}
+            onChange={(updates) =>
+              // Typed values wait for Enter / Apply; a picked user applies at once
+              update([idx], (n) => ({ ...n, ...updates }), !("value" in updates) || isUserSelect(node))
+            }
+            onApply={onApply}
+            onRemove={() => update([idx], () => null)}
+          />
+        )
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => onChange({ ...group, conditions: [...group.conditions, newCondition()] }, true)}
+          disabled={fields.length === 0}
+          className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-blue-600 disabled:opacity-50"
+        >
+          <Plus size={12} />
+          Add condition
+        </button>
+        {depth + 1 < MAX_FILTER_DEPTH && (
+          <button
+            onClick={() =>
+              onChange(
+                {
+                  ...group,
+                  conditions: [
+                    ...group.conditions,
+                    { conjunction: group.conjunction === "and" ? "or" : "and", conditions: [newCondition()] },
+                  ],
+                },
+                true
+              )
+            }
+            disabled={fields.length === 0}
+            className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-blue-600 disabled:opacity-50"
+          >
+            <Plus size={12} />
+            Add group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
 
 function FilterBuilder({
   filters,
-  availableFields,
+  fields,
+  users,
   onFiltersChange,
-}: {
-  filters: ViewFilter[];
-  availableFields: AvailableField[];
-  onFiltersChange: (filters: ViewFilter[]) => void;
+}: FilterFieldsProps & {
+  filters: ViewFilterNode[];
+  onFiltersChange: (filters: ViewFilterNode[]) => void;
 }) {
   const { open, setOpen, ref } = useDropdown();
 
-  // Local draft state so we only apply on Enter / Apply button
-  const [draft, setDraft] = useState<ViewFilter[]>(filters);
+  // Local draft state so typed values only apply on Enter / Apply button
+  const [draft, setDraft] = useState<ViewFilterGroup>(() => toRootGroup(filters));
 
   // Sync draft when upstream filters change (e.g. view switch)
-  useEffect(() => { setDraft(filters); }, [filters]);
+  useEffect(() => { setDraft(toRootGroup(filters)); }, [filters]);
 
   const applyFilters = useCallback(
-    (next: ViewFilter[]) => { onFiltersChange(next); },
+    (next: ViewFilterGroup) => { onFiltersChange(fromRootGroup(next)); },
     [onFiltersChange]
   );
 
-  const addFilter = () => {
-    if (availableFields.length === 0) return;
-    const first = availableFields[0];
-    const next = [
-      ...draft,
-      { module: first.module, field: first.field, operator: "eq" as const, value: "" },
-    ];
-    setDraft(next);
-    // Apply immediately when adding or removing (no text input involved)
-    applyFilters(next);
-  };
-
-  const removeFilter = (idx: number) => {
-    const next = draft.filter((_, i) => i !== idx);
-    setDraft(next);
-    applyFilters(next);
-  };
-
-  const updateFilter = (idx: number, updates: Partial<ViewFilter>) => {
-    const next = [...draft];
-    next[idx] = { ...next[idx], ...updates };
-    setDraft(next);
-
-    // For non-text changes (field selector, operator), apply immediately
-    if (!("value" in updates)) {
-      applyFilters(next);
-    }
-  };
-
-  const handleKeyDown = (e: React.KeyboardEvent, idx: number) => {
-    if (e.key === "Enter") {
-      applyFilters(draft);
-    }
-  };
+  const count = countConditions(draft.conditions);
 
   return (
     <div ref={ref} className="relative">
@@ -249,95 +531,44 @@ function FilterBuilder({
         onClick={() => setOpen(!open)}
         className={clsx(
           "flex items-center gap-1.5 rounded-md px-2.5 py-1.5 text-sm font-medium transition-colors",
-          draft.length > 0
+          count > 0
             ? "bg-blue-50 text-blue-700 dark:bg-blue-950/40 dark:text-blue-300"
             : "text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800"
         )}
       >
         <Filter size={15} />
         <span>Filter</span>
-        {draft.length > 0 && (
+        {count > 0 && (
           <span className="rounded-full bg-blue-200 px-1.5 py-0.5 text-[10px] font-semibold text-blue-700 dark:bg-blue-800 dark:text-blue-300">
-            {draft.length}
+            {count}
           </span>
         )}
       </button>
 
       {open && (
-        <div className="absolute left-0 top-full z-50 mt-1 w-[500px] rounded-lg border border-gray-200 bg-white p-3 shadow-lg dark:border-gray-700 dark:bg-gray-900">
-          <div className="space-y-2">
-            {draft.map((filter, idx) => (
-              <div key={idx} className="flex items-center gap-2">
-                {/* Field selector */}
-                <select
-                  value={`${filter.module}.${filter.field}`}
-                  onChange={(e) => {
-                    const [mod, fld] = e.target.value.split(".");
-                    updateFilter(idx, { module: mod, field: fld });
-                  }}
-                  className="rounded border border-gray-200 px-2 py-1 text-xs dark:border-gray-700 dark:bg-gray-800"
-                >
-                  {availableFields.map((af) => (
-                    <option key={`${af.module}.${af.field}`} value={`${af.module}.${af.field}`}>
-                      {af.label}
-                    </option>
-                  ))}
-                </select>
-
-                {/* Operator */}
-                <select
-                  value={filter.operator}
-                  onChange={(e) =>
-                    updateFilter(idx, { operator: e.target.value as ViewFilter["operator"] })
-                  }
-                  className="rounded border border-gray-200 px-2 py-1 text-xs dark:border-gray-700 dark:bg-gray-800"
-                >
-                  {OPERATORS.map((op) => (
-                    <option key={op.value} value={op.value}>
-                      {op.label}
-                    </option>
-                  ))}
-                </select>
-
-                {/* Value — only applied on Enter or Apply button */}
-                {filter.operator !== "is_empty" && filter.operator !== "is_not_empty" && (
-                  <input
-                    value={String(filter.value ?? "")}
-                    onChange={(e) => updateFilter(idx, { value: e.target.value })}
-                    onKeyDown={(e) => handleKeyDown(e, idx)}
-                    placeholder="Value… (Enter to apply)"
-                    className="flex-1 rounded border border-gray-200 px-2 py-1 text-xs dark:border-gray-700 dark:bg-gray-800"
-                  />
-                )}
-
-                {/* Remove */}
-                <button
-                  onClick={() => removeFilter(idx)}
-                  className="text-gray-400 hover:text-red-500"
-                >
-                  <X size={14} />
-                </button>
-              </div>
-            ))}
-          </div>
+        <div className="absolute left-0 top-full z-50 mt-1 w-[560px] rounded-lg border border-gray-200 bg-white p-3 shadow-lg dark:border-gray-700 dark:bg-gray-900">
+          <FilterGroupEditor
+            group={draft}
+            depth={0}
+            fields={fields}
+            users={users}
+            onChange={(next, apply) => {
+              setDraft(next);
+              if (apply) applyFilters(next);
+            }}
+            onApply={() => applyFilters(draft)}
+          />
 
-          <div className="mt-2 flex items-center justify-between">
-            <button
-              onClick={addFilter}
-              className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-blue-600"
-            >
-              <Plus size={12} />
-              Add filter
-            </button>
-            {draft.length > 0 && (
+          {count > 0 && (
+            <div className="mt-2 flex justify-end">
               <button
                 onClick={() => applyFilters(draft)}
                 className="rounded-md bg-blue-600 px-3 py-1 text-xs font-medium text-white hover:bg-blue-700 transition-colors"
               >
                 Apply
               </button>
-            )}
-          </div>
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -514,6 +745,444 @@ function KanbanFieldSelector({
   );
 }
 
+function GroupBySelector({
+  fields,
+  activeModule,
+  activeField,
+  onGroupByChange,
+}: {
+  fields: AvailableField[];
+  activeModule: string | null;
+  activeField: string | null;
+  onGroupByChange: (group: ViewFieldRef | null) => void;
+}) {
+  const { open, setOpen, ref } = useDropdown();
+
+  const current = fields.find((f) => f.module === activeModule && f.field === activeField);
+
+  if (fields.length === 0) return null;
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={clsx(
+          "flex items-center gap-1.5 rounded-md px-2.5 py-1.5 text-sm font-medium transition-colors",
+          current
+            ? "bg-blue-50 text-blue-700 dark:bg-blue-950/40 dark:text-blue-300"
+            : "text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800"
+        )}
+        title="Group rows"
+      >
+        <Rows3 size={15} />
+        <span className="max-w-[120px] truncate">{current ? current.fieldDef.label : "Group"}</span>
+        <ChevronDown size={12} />
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-full z-50 mt-1 max-h-80 w-60 overflow-y-auto rounded-lg border border-gray-200 bg-white p-1 shadow-lg dark:border-gray-700 dark:bg-gray-900">
+          <div className="px-2 py-1.5 text-[10px] font-semibold uppercase tracking-wider text-gray-400">
+            Group by
+          </div>
+          <button
+            onClick={() => {
+              onGroupByChange(null);
+              setOpen(false);
+            }}
+            className={clsx(
+              "flex w-full items-center gap-2 rounded-md px-3 py-1.5 text-sm",
+              !current
+                ? "bg-blue-50 text-blue-700 dark:bg-blue-950/40 dark:text-blue-300"
+                : "text-gray-600 hover:bg-gray-50 dark:text-gray-400 dark:hover:bg-gray-800"
+            )}
+          >
+            <span className="flex-1 text-left">No grouping</span>
+            {!current && <Check size={14} />}
+          </button>
+          {fields.map((f) => {
+            const active = f.module === activeModule && f.field === activeField;
+            return (
+              <button
+                key={`${f.module}.${f.field}`}
+                onClick={() => {
+                  onGroupByChange({ module: f.module, field: f.field });
+                  setOpen(false);
+                }}
+                className={clsx(
+                  "flex w-full items-center gap-2 rounded-md px-3 py-1.5 text-sm",
+                  active
+                    ? "bg-blue-50 text-blue-700 dark:bg-blue-950/40 dark:text-blue-300"
+                    : "text-gray-600 hover:bg-gray-50 dark:text-gray-400 dark:hover:bg-gray-800"
+                )}
+              >
+                <span className="flex-1 truncate text-left">{f.label}</span>
+                {active && <Check size={14} />}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DateFieldSelector({
+  availableFields,
+  layoutType,
+  startField,
+  endField,
+  onChange,
+}: {
+  availableFields: AvailableField[];
+  layoutType: ViewLayoutType;
+  startField: ViewFieldRef | null;
+  endField: ViewFieldRef | null;
+  onChange: (config: Pick<ViewLayoutConfig, "startField" | "endField">) => void;
+}) {
+  const { open, setOpen, ref } = useDropdown();
+
+  // Calendars and timelines place records by module date fields
+  const dateFields = availableFields.filter(
+    (af) => af.module !== RECORD_MODULE && DATE_TYPES.has(af.fieldDef.type)
+  );
+  const labelOf = (f: ViewFieldRef | null) =>
+    dateFields.find((df) => df.module === f?.module && df.field === f?.field)?.label;
+  const currentLabel = labelOf(startField) ?? "Date field";
+
+  if (dateFields.length === 0) return null;
+
+  const renderOptions = (
+    title: string,
+    active: ViewFieldRef | null,
+    pick: (f: ViewFieldRef | undefined) => void,
+    allowNone: boolean
+  ) => (
+    <>
+      <div className="px-2 py-1.5 text-[10px] font-semibold uppercase tracking-wider text-gray-400">
+        {title}
+      </div>
+      {allowNone && (
+        <button
+          onClick={() => pick(undefined)}
+          className={clsx(
+            "flex w-full items-center gap-2 rounded-md px-3 py-1.5 text-sm",
+            !active
+              ? "bg-blue-50 text-blue-700 dark:bg-blue-950/40 dark:text-blue-300"
+              : "text-gray-600 hover:bg-gray-50 dark:text-gray-400 dark:hover:bg-gray-800"
+          )}
+        >
+          <span className="flex-1 truncate text-left">None</span>
+          {!active && <Check size={14} />}
+        </button>
+      )}
+      {dateFields.map((df) => {
+        const selected = df.module === active?.module && df.field === active?.field;
+        return (
+          <button
+            key={`${df.module}.${df.field}`}
+            onClick={() => pick({ module: df.module, field: df.field })}
+            className={clsx(
+              "flex w-full items-center gap-2 rounded-md px-3 py-1.5 text-sm",
+              selected
+                ? "bg-blue-50 text-blue-700 dark:bg-blue-950/40 dark:text-blue-300"
+                : "text-gray-600 hover:bg-gray-50 dark:text-gray-400 dark:hover:bg-gray-800"
+            )}
+          >
+            <span className="flex-1 truncate text-left">{df.label}</span>
+            {selected && <Check size={14} />}
+          </button>
+        );
+      })}
+    </>
+  );
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1.5 rounded-md px-2.5 py-1.5 text-sm font-medium text-gray-500 hover:bg-gray-100 transition-colors dark:text-gray-400 dark:hover:bg-gray-800"
+        title="Date fields"
+      >
+        <CalendarDays size={15} />
+        <span className="max-w-[160px] truncate">
+          {currentLabel}
+          {layoutType === "timeline" && endField && labelOf(endField) ? ` → ${labelOf(endField)}` : ""}
+        </span>
+        <ChevronDown size={12} />
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-full z-50 mt-1 max-h-96 w-64 overflow-y-auto rounded-lg border border-gray-200 bg-white p-1 shadow-lg dark:border-gray-700 dark:bg-gray-900">
+          {renderOptions(
+            layoutType === "timeline" ? "Start date" : "Date",
+            startField,
+            (f) => f && onChange({ startField: f, endField: endField ?? undefined }),
+            false
+          )}
+          {layoutType === "timeline" &&
+            renderOptions(
+              "End date",
+              endField,
+              (f) => onChange({ startField: startField ?? undefined, endField: f }),
+              true
+            )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CardFieldsSelector({
+  availableFields,
+  layoutType,
+  cardFields,
+  layoutConfig,
+  onCardFieldsChange,
+  onLayoutConfigChange,
+}: {
+  availableFields: AvailableField[];
+  /** Only gallery cards have a cover and a title field */
+  layoutType: ViewLayoutType;
+  /** Secondary fields the cards show now */
+  cardFields: ViewFieldRef[];
+  layoutConfig: ViewLayoutConfig;
+  onCardFieldsChange: (fields: ViewFieldRef[]) => void;
+  onLayoutConfigChange: (config: ViewLayoutConfig) => void;
+}) {
+  const { open, setOpen, ref } = useDropdown();
+
+  const key = (f: ViewFieldRef | undefined) => (f ? `${f.module}.${f.field}` : "");
+  const toRef = (value: string): ViewFieldRef | undefined => {
+    const af = availableFields.find((f) => key(f) === value);
+    return af ? { module: af.module, field: af.field } : undefined;
+  };
+  const isShown = (af: AvailableField) => cardFields.some((f) => key(f) === key(af));
+
+  // Covers are image URLs; titles are plain values
+  const coverFields = availableFields.filter((af) => ["url", "text"].includes(af.fieldDef.type));
+  const titleFields = availableFields.filter((af) =>
+    ["text", "email", "phone", "url", "select"].includes(af.fieldDef.type)
+  );
+
+  const toggle = (af: AvailableField) =>
+    onCardFieldsChange(
+      isShown(af)
+        ? cardFields.filter((f) => key(f) !== key(af))
+        : [...cardFields, { module: af.module, field: af.field }]
+    );
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1.5 rounded-md px-2.5 py-1.5 text-sm font-medium text-gray-500 hover:bg-gray-100 transition-colors dark:text-gray-400 dark:hover:bg-gray-800"
+        title="Card fields"
+      >
+        <Settings2 size={15} />
+        <span>Cards</span>
+        <ChevronDown size={12} />
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-full z-50 mt-1 w-72 rounded-lg border border-gray-200 bg-white p-2 shadow-lg dark:border-gray-700 dark:bg-gray-900">
+          {layoutType === "gallery" && (
+            <>
+            <label className="block px-1 pb-2 text-xs text-gray-500">
+              Cover
+              <select
+                value={key(layoutConfig.coverField)}
+                onChange={(e) =>
+                  onLayoutConfigChange({ ...layoutConfig, coverField: toRef(e.target.value) })
+                }
+                className="mt-1 w-full rounded border border-gray-200 px-2 py-1 text-xs dark:border-gray-700 dark:bg-gray-800"
+              >
+                <option value="">None</option>
+                {coverFields.map((af) => (
+                  <option key={key(af)} value={key(af)}>
+                    {af.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="block px-1 pb-2 text-xs text-gray-500">
+              Title
+              <select
+                value={key(layoutConfig.titleField)}
+                onChange={(e) =>
+                  onLayoutConfigChange({ ...layoutConfig, titleField: toRef(e.target.value) })
+                }
+                className="mt-1 w-full rounded border border-gray-200 px-2 py-1 text-xs dark:border-gray-700 dark:bg-gray-800"
+              >
+                <option value="">Record name</option>
+                {titleFields.map((af) => (
+                  <option key={key(af)} value={key(af)}>
+                    {af.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            </>
+          )}
+
+          <div
+            className={clsx(
+              "px-1 pb-1 text-[10px] font-semibold uppercase tracking-wider text-gray-400",
+              layoutType === "gallery" && "border-t border-gray-100 pt-2 dark:border-gray-800"
+            )}
+          >
+            Fields
+          </div>
+          <div className="max-h-64 overflow-y-auto">
+            {availableFields.map((af) => (
+              <label
+                key={key(af)}
+                className="flex cursor-pointer items-center gap-2 rounded-md px-2 py-1 text-sm text-gray-600 hover:bg-gray-50 dark:text-gray-400 dark:hover:bg-gray-800"
+              >
+                <input type="checkbox" checked={isShown(af)} onChange={() => toggle(af)} />
+                <span className="flex-1 truncate">{af.label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function KanbanSettings({
+  availableFields,
+  columns,
+  kanbanField,
+  layoutConfig,
+  onLayoutConfigChange,
+}: {
+  availableFields: AvailableField[];
+  /** The board's columns */
+  columns: { value: string; label: string }[];
+  /** The field the columns come from, not offered as a swimlane */
+  kanbanField: ViewFieldRef | null;
+  layoutConfig: ViewLayoutConfig;
+  onLayoutConfigChange: (config: ViewLayoutConfig) => void;
+}) {
+  const { open, setOpen, ref } = useDropdown();
+
+  const key = (f: ViewFieldRef | null | undefined) => (f ? `${f.module}.${f.field}` : "");
+  const toRef = (value: string): ViewFieldRef | undefined => {
+    const af = availableFields.find((f) => key(f) === value);
+    return af ? { module: af.module, field: af.field } : undefined;
+  };
+
+  const swimlaneFields = availableFields.filter(
+    (af) =>
+      af.module !== ROLLUP_MODULE &&
+      SWIMLANE_FIELD_TYPES.includes(af.fieldDef.type) &&
+      key(af) !== key(kanbanField)
+  );
+  const sumFields = availableFields.filter((af) => displayFieldType(af.fieldDef) === "number");
+  const wipLimits = layoutConfig.wipLimits ?? {};
+  const active = !!layoutConfig.swimlaneField || !!layoutConfig.sumField || Object.keys(wipLimits).length > 0;
+
+  // An empty or non-positive limit removes it
+  const setLimit = (column: string, value: string) => {
+    const rest = Object.fromEntries(Object.entries(wipLimits).filter(([c]) => c !== column));
+    const limit = parseInt(value, 10);
+    onLayoutConfigChange({
+      ...layoutConfig,
+      wipLimits: limit > 0 ? { ...rest, [column]: limit } : rest,
+    });
+  };
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={clsx(
+          "flex items-center gap-1.5 rounded-md px-2.5 py-1.5 text-sm font-medium transition-colors",
+          active
+            ? "bg-blue-50 text-blue-700 dark:bg-blue-950/40 dark:text-blue-300"
+            : "text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800"
+        )}
+        title="Swimlanes, totals and WIP limits"
+      >
+        <SlidersHorizontal size={15} />
+        <span>Board</span>
+        <ChevronDown size={12} />
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-full z-50 mt-1 w-72 rounded-lg border border-gray-200 bg-white p-2 shadow-lg dark:border-gray-700 dark:bg-gray-900">
+          <label className="block px-1 pb-2 text-xs text-gray-500">
+            Swimlanes
+            <select
+              value={key(layoutConfig.swimlaneField)}
+              onChange={(e) =>
+                onLayoutConfigChange({ ...layoutConfig, swimlaneField: toRef(e.target.value) })
+              }
+              className="mt-1 w-full rounded border border-gray-200 px-2 py-1 text-xs dark:border-gray-700 dark:bg-gray-800"
+            >
+              <option value="">None</option>
+              {swimlaneFields.map((af) => (
+                <option key={key(af)} value={key(af)}>
+                  {af.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block px-1 pb-2 text-xs text-gray-500">
+            Column total
+            <select
+              value={key(layoutConfig.sumField)}
+              onChange={(e) =>
+                onLayoutConfigChange({ ...layoutConfig, sumField: toRef(e.target.value) })
+              }
+              className="mt-1 w-full rounded border border-gray-200 px-2 py-1 text-xs dark:border-gray-700 dark:bg-gray-800"
+            >
+              <option value="">Count only</option>
+              {sumFields.map((af) => (
+                <option key={key(af)} value={key(af)}>
+                  {af.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {columns.length > 0 && (
+            <>
+              <div className="border-t border-gray-100 px-1 pb-1 pt-2 text-[10px] font-semibold uppercase tracking-wider text-gray-400 dark:border-gray-800">
+                WIP limits
+              </div>
+              <div className="max-h-64 space-y-1 overflow-y-auto">
+                {columns.map((col) => (
+                  <label
+                    key={col.value}
+                    className="flex items-center gap-2 px-1 text-sm text-gray-600 dark:text-gray-400"
+                  >
+                    <span className="flex-1 truncate">{col.label}</span>
+                    <input
+                      type="number"
+                      min={1}
+                      placeholder="—"
+                      defaultValue={wipLimits[col.value] ?? ""}
+                      onBlur={(e) => {
+                        if (e.target.value !== String(wipLimits[col.value] ?? "")) {
+                          setLimit(col.value, e.target.value);
+                        }
+                      }}
+                      className="w-16 rounded border border-gray-200 px-2 py-0.5 text-right text-xs dark:border-gray-700 dark:bg-gray-800"
+                    />
+                  </label>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ── Main Toolbar Component ───────────────────
 
 export function ViewToolbar({
@@ -527,9 +1196,19 @@ export function ViewToolbar({
   onCreateView,
   onDeleteView,
   onKanbanFieldChange,
+  onGroupByChange,
+  onLayoutConfigChange,
+  dateFields,
+  cardFields = [],
+  kanbanColumns = [],
+  onVisibleFieldsChange,
   onExport,
   recordCount,
+  recordFields = [],
+  users = [],
 }: ViewToolbarProps) {
+  const queryFields = [...availableFields, ...recordFields];
+
   return (
     <div className="flex items-center gap-1 border-b border-gray-200 px-4 py-1.5 dark:border-gray-800">
       {/* View selector */}
@@ -547,14 +1226,15 @@ export function ViewToolbar({
       {/* Filter */}
       <FilterBuilder
         filters={activeView.filters}
-        availableFields={availableFields}
+        fields={queryFields}
+        users={users}
         onFiltersChange={onFiltersChange}
       />
 
       {/* Sort */}
       <SortBuilder
         sorts={activeView.sorts}
-        availableFields={availableFields}
+        availableFields={queryFields}
         onSortsChange={onSortsChange}
       />
 
@@ -571,35 +1251,105 @@ export function ViewToolbar({
         </>
       )}
 
+      {/* Row grouping (table) */}
+      {activeView.layoutType === "table" && onGroupByChange && (
+        <>
+          <div className="mx-1 h-5 w-px bg-gray-200 dark:bg-gray-700" />
+          <GroupBySelector
+            fields={[
+              ...availableFields.filter(
+                (af) => af.module !== ROLLUP_MODULE && GROUPABLE_FIELD_TYPES.includes(af.fieldDef.type)
+              ),
+              ...recordFields.filter((rf) => USER_FIELDS.has(rf.field)),
+            ]}
+            activeModule={activeView.groupByModule}
+            activeField={activeView.groupByField}
+            onGroupByChange={onGroupByChange}
+          />
+        </>
+      )}
+
+      {/* Date fields (calendar and timeline) */}
+      {DATE_LAYOUTS.includes(activeView.layoutType) && onLayoutConfigChange && (
+        <>
+          <div className="mx-1 h-5 w-px bg-gray-200 dark:bg-gray-700" />
+          <DateFieldSelector
+            availableFields={availableFields}
+            layoutType={activeView.layoutType}
+            startField={dateFields?.startField ?? null}
+            endField={dateFields?.endField ?? null}
+            onChange={(config) => onLayoutConfigChange({ ...activeView.layoutConfig, ...config })}
+          />
+        </>
+      )}
+
+      {/* Swimlanes, column totals and WIP limits (kanban) */}
+      {activeView.layoutType === "kanban" && onLayoutConfigChange && (
+        <KanbanSettings
+          availableFields={availableFields}
+          columns={kanbanColumns}
+          kanbanField={
+            activeView.kanbanModuleName && activeView.kanbanFieldKey
+              ? { module: activeView.kanbanModuleName, field: activeView.kanbanFieldKey }
+              : null
+          }
+          layoutConfig={activeView.layoutConfig}
+          onLayoutConfigChange={onLayoutConfigChange}
+        />
+      )}
+
+      {/* Card fields (gallery and kanban) */}
+      {(activeView.layoutType === "gallery" || activeView.layoutType === "kanban") &&
+        onVisibleFieldsChange && onLayoutConfigChange && (
+        <>
+          {activeView.layoutType === "gallery" && (
+            <div className="mx-1 h-5 w-px bg-gray-200 dark:bg-gray-700" />
+          )}
+          <CardFieldsSelector
+            availableFields={availableFields}
+            layoutType={activeView.layoutType}
+            cardFields={cardFields}
+            layoutConfig={activeView.layoutConfig}
+            onCardFieldsChange={(fields) =>
+              // Keep the saved column widths of fields that stay
+              onVisibleFieldsChange(
+                fields.map((f, position) => ({
+                  ...activeView.visibleFields.find(
+                    (vf) => vf.module === f.module && vf.field === f.field
+                  ),
+                  ...f,
+                  position,
+                }))
+              )
+            }
+            onLayoutConfigChange={onLayoutConfigChange}
+          />
+        </>
+      )}
+
       {/* Divider */}
       <div className="mx-1 h-5 w-px bg-gray-200 dark:bg-gray-700" />
 
       {/* Layout toggle */}
       <div className="flex items-center rounded-md border border-gray-200 dark:border-gray-700">
-        <button
-          onClick={() => onLayoutToggle("table")}
-          className={clsx(
-            "rounded-l-md px-2 py-1 transition-colors",
-            activeView.layoutType === "table"
-              ? "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-200"
-              : "text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
-          )}
-          title="Table view"
-        >
-          <Table2 size={15} />
-        </button>
-        <button
-          onClick={() => onLayoutToggle("kanban")}
-          className={clsx(
-            "rounded-r-md px-2 py-1 transition-colors",
-            activeView.layoutType === "kanban"
-              ? "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-200"
-              : "text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
-          )}
-          title="Kanban view"
-        >
-          <LayoutGrid size={15} />
-        </button>
+        {ViewLayoutTypes.map(({ value, label }) => {
+          const Icon = LAYOUT_ICONS[value];
+          return (
+            <button
+              key={value}
+              onClick={() => onLayoutToggle(value)}
+              className={clsx(
+                "px-2 py-1 transition-colors first:rounded-l-md last:rounded-r-md",
+                activeView.layoutType === value
+                  ? "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-200"
+                  : "text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+              )}
+              title={`${label} view`}
+            >
+              <Icon size={15} />
+            </button>
+          );
+        })}
       </div>
 
       {/* CSV Export */}
@@ -2,6 +2,7 @@ import { createClient } from "@/lib/supabase/server";
 import { createAdminClient } from "@/lib/supabase/admin";
 import type { AuthContext } from "@/lib/permissions/rbac";
 import type { Json } from "@/lib/supabase/database.types";
+import { enqueueWebhookEvent } from "@/modules/webhooks/services/delivery.service";
 
 export type AuditCategory = "auth" | "data" | "settings" | "admin";
 
@@ -17,6 +18,7 @@ interface AuditEntry {
 
 /**
  * Logs an audit entry for an authenticated user action.
+ * Audited actions double as webhook events, so matching subscriptions are queued here.
  * CHANGE: Cast values to Json type for Supabase compatibility
  */
 export async function auditLog(
@@ -34,6 +36,8 @@ export async function auditLog(
     new_values: (entry.newValues as Json) ?? null,
     metadata: (entry.metadata as Json) ?? {},
   });
+
+  await enqueueWebhookEvent(ctx.userId, entry);
 }
 
 /**
@@ -0,0 +1,28 @@
+import type { NextRequest } from "next/server";
+import { getAuthContext, hasPermission } from "@/lib/permissions/rbac";
+import type { Action } from "@/lib/permissions/actions";
+
+/**
+ * Whether the request carries CRON_SECRET or SUPABASE_SERVICE_ROLE_KEY
+ * as its Authorization bearer token.
+ */
+export function hasCronSecret(req: NextRequest): boolean {
+  const authHeader = req.headers.get("authorization");
+  const providedKey = authHeader?.replace("Bearer ", "");
+  const validKeys = [process.env.CRON_SECRET, process.env.SUPABASE_SERVICE_ROLE_KEY].filter(
+    Boolean
+  );
+  return !!providedKey && validKeys.includes(providedKey);
+}
+
+/**
+ * Auth for endpoints a scheduler calls: a cron secret, or else a signed-in
+ * user holding `action` (when one is given) so admins can run them by hand.
+ */
+export async function isCronAuthorized(req: NextRequest, action?: Action): Promise<boolean> {
+  if (hasCronSecret(req)) return true;
+  if (!action) return false;
+
+  const ctx = await getAuthContext();
+  return !!ctx && hasPermission(ctx, action);
+}
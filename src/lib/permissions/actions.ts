@@ -10,10 +10,15 @@ export const Actions = {
   OBJECT_CREATE: "object:create",
   OBJECT_READ: "object:read",
   OBJECT_READ_OWN: "object:read:own",
+  OBJECT_READ_TEAM: "object:read:team",
   OBJECT_UPDATE: "object:update",
   OBJECT_UPDATE_OWN: "object:update:own",
+  OBJECT_UPDATE_TEAM: "object:update:team",
   OBJECT_DELETE: "object:delete",
   OBJECT_DELETE_OWN: "object:delete:own",
+  OBJECT_DELETE_TEAM: "object:delete:team",
+  OBJECT_SHARE: "object:share",
+  OBJECT_MERGE: "object:merge",
 
   // Relation operations
   RELATION_CREATE: "relation:create",
@@ -28,6 +33,7 @@ export const Actions = {
   AUDIT_VIEW: "audit:view",
   ROLE_MANAGE: "role:manage",
   USER_MANAGE: "user:manage",
+  TEAM_MANAGE: "team:manage",
   SETTINGS_MANAGE: "settings:manage",
 } as const;
 
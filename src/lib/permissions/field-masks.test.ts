@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { mergeFieldMasks, type FieldMaskRow, type ModuleGrantRow } from "./field-masks";
+
+const MONETARY = "mod-monetary";
+const OTHER = "mod-other";
+const DEAL = "type-deal";
+
+const amountHidden: FieldMaskRow = {
+  role_id: "sales",
+  module_id: MONETARY,
+  object_type_id: null,
+  field_key: "amount",
+  can_read: false,
+  can_write: false,
+};
+
+function grant(roleId: string, moduleId: string | null, objectTypeId: string | null = null): ModuleGrantRow {
+  return { role_id: roleId, module_id: moduleId, object_type_id: objectTypeId, can_read: true };
+}
+
+describe("mergeFieldMasks", () => {
+  it("keeps a mask when the other role can't read the module", () => {
+    const merged = mergeFieldMasks(
+      ["sales", "support"],
+      [amountHidden],
+      [grant("sales", MONETARY), grant("support", OTHER)]
+    );
+
+    expect(merged.get(`${MONETARY}:all:amount`)).toEqual({ canRead: false, canWrite: false });
+  });
+
+  it("lifts a mask when another role reads the module without one", () => {
+    const merged = mergeFieldMasks(
+      ["sales", "finance"],
+      [amountHidden],
+      [grant("sales", MONETARY), grant("finance", null)]
+    );
+
+    expect(merged.get(`${MONETARY}:all:amount`)).toEqual({ canRead: true, canWrite: true });
+  });
+
+  it("lifts a mask only for the type another role reads", () => {
+    const merged = mergeFieldMasks(
+      ["sales", "deals"],
+      [amountHidden],
+      [grant("sales", MONETARY), grant("deals", MONETARY, DEAL)]
+    );
+
+    expect(merged.get(`${MONETARY}:all:amount`)).toEqual({ canRead: false, canWrite: false });
+    expect(merged.get(`${MONETARY}:${DEAL}:amount`)).toEqual({ canRead: true, canWrite: true });
+  });
+});
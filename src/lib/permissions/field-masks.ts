@@ -0,0 +1,88 @@
+import type { FieldPermission } from "./rbac";
+
+export type FieldMaskRow = {
+  role_id: string;
+  module_id: string;
+  object_type_id: string | null;
+  field_key: string;
+  can_read: boolean;
+  can_write: boolean;
+};
+
+export type ModuleGrantRow = {
+  role_id: string;
+  module_id: string | null;
+  object_type_id: string | null;
+  can_read: boolean;
+};
+
+const FULL_FIELD_ACCESS: FieldPermission = { canRead: true, canWrite: true };
+
+/** Whether a role's module grants let it read the module for a type ("all": every type) */
+function roleCanReadModule(
+  grants: ModuleGrantRow[],
+  roleId: string,
+  moduleId: string,
+  typeKey: string
+): boolean {
+  return grants.some(
+    (g) =>
+      g.role_id === roleId &&
+      g.can_read &&
+      (g.module_id === null || g.module_id === moduleId) &&
+      (g.object_type_id === null || g.object_type_id === typeKey)
+  );
+}
+
+/**
+ * Combine field masks across roles like module permissions combine: of the
+ * roles that can read the module, a role without a mask has full access to
+ * the field, so a field stays restricted only if every such role restricts
+ * it. Roles that can't read the module don't count. A role's type-specific
+ * mask falls back to its all-types mask.
+ */
+export function mergeFieldMasks(
+  roleIds: string[],
+  rows: FieldMaskRow[],
+  grants: ModuleGrantRow[]
+): Map<string, FieldPermission> {
+  const byRole = new Map<string, Map<string, FieldPermission>>();
+  for (const row of rows) {
+    const masks = byRole.get(row.role_id) ?? new Map<string, FieldPermission>();
+    masks.set(`${row.module_id}:${row.object_type_id ?? "all"}:${row.field_key}`, {
+      canRead: row.can_read,
+      canWrite: row.can_write,
+    });
+    byRole.set(row.role_id, masks);
+  }
+
+  const keys = new Set([...byRole.values()].flatMap((masks) => [...masks.keys()]));
+  // A role that reads the module for one type only doesn't count for the
+  // all-types entry, so all-types masks also get an entry per such type
+  for (const key of [...keys]) {
+    const [moduleId, typeKey, ...field] = key.split(":");
+    if (typeKey !== "all") continue;
+    for (const g of grants) {
+      if (g.can_read && g.object_type_id && (g.module_id === null || g.module_id === moduleId)) {
+        keys.add(`${moduleId}:${g.object_type_id}:${field.join(":")}`);
+      }
+    }
+  }
+
+  const merged = new Map<string, FieldPermission>();
+  for (const key of keys) {
+    const [moduleId, typeKey, ...field] = key.split(":");
+    const fallback = `${moduleId}:all:${field.join(":")}`;
+    const perm = { canRead: false, canWrite: false };
+    for (const roleId of roleIds) {
+      if (!roleCanReadModule(grants, roleId, moduleId, typeKey)) continue;
+      const masks = byRole.get(roleId);
+      const mask = masks?.get(key) ?? masks?.get(fallback) ?? FULL_FIELD_ACCESS;
+      perm.canRead ||= mask.canRead;
+      perm.canWrite ||= mask.canWrite;
+    }
+    // Kept even when unrestricted, so it overrides the all-types entry
+    merged.set(key, perm);
+  }
+  return merged;
+}
@@ -1,6 +1,7 @@
 import { createClient } from "@/lib/supabase/server";
 import { AppError } from "@/lib/utils/errors";
 import type { Action } from "./actions";
+import { mergeFieldMasks } from "./field-masks";
 
 export interface ModulePermission {
   canRead: boolean;
@@ -8,12 +9,24 @@ export interface ModulePermission {
   canDelete: boolean;
 }
 
+export interface FieldPermission {
+  canRead: boolean;
+  canWrite: boolean;
+}
+
+const FULL_FIELD_ACCESS: FieldPermission = { canRead: true, canWrite: true };
+
 export interface AuthContext {
   userId: string;
   email?: string;
   permissions: Set<string>;
   /** Module-level permissions keyed by "moduleId:objectTypeId" or "all:all" */
   modulePermissions: Map<string, ModulePermission>;
+  /**
+   * Field masks keyed by "moduleId:objectTypeId:fieldKey" (type "all" for
+   * every type). Fields without an entry inherit the module permission.
+   */
+  fieldPermissions: Map<string, FieldPermission>;
 }
 
 /**
@@ -50,12 +63,13 @@ export async function getAuthContext(): Promise<AuthContext | null> {
     .eq("user_id", user.id);
 
   const modulePermissions = new Map<string, ModulePermission>();
+  let fieldPermissions = new Map<string, FieldPermission>();
 
   if (roleIds && roleIds.length > 0) {
     const ids = roleIds.map((r) => r.role_id);
     const { data: modPerms } = await supabase
       .from("role_module_permissions")
-      .select("module_id, object_type_id, can_read, can_write, can_delete")
+      .select("role_id, module_id, object_type_id, can_read, can_write, can_delete")
       .in("role_id", ids);
 
     modPerms?.forEach((mp) => {
@@ -70,9 +84,41 @@ export async function getAuthContext(): Promise<AuthContext | null> {
         canDelete: (existing?.canDelete ?? false) || mp.can_delete,
       });
     });
+
+    // Load field masks
+    const { data: fieldMasks } = await supabase
+      .from("role_field_permissions")
+      .select("role_id, module_id, object_type_id, field_key, can_read, can_write")
+      .in("role_id", ids);
+
+    fieldPermissions = mergeFieldMasks(ids, fieldMasks ?? [], modPerms ?? []);
   }
 
-  return { userId: user.id, email: user.email, permissions, modulePermissions };
+  return {
+    userId: user.id,
+    email: user.email,
+    permissions,
+    modulePermissions,
+    fieldPermissions,
+  };
+}
+
+/** Placeholder user id for work done by scheduled jobs */
+export const SYSTEM_USER_ID = "00000000-0000-0000-0000-000000000000";
+
+/**
+ * Read-only context for scheduled jobs that run without a signed-in user.
+ * Grants object read access across all modules — never use it for writes.
+ */
+export function getSystemAuthContext(): AuthContext {
+  return {
+    userId: SYSTEM_USER_ID,
+    permissions: new Set(["object:read"]),
+    modulePermissions: new Map([
+      ["all:all", { canRead: true, canWrite: false, canDelete: false }],
+    ]),
+    fieldPermissions: new Map(),
+  };
 }
 
 /**
@@ -115,6 +161,36 @@ export function getModulePermission(
   return { canRead: false, canWrite: false, canDelete: false };
 }
 
+/**
+ * Gets the field mask for a field of a module, checking the type-specific
+ * mask before the all-types one. With a null object type the result holds
+ * for every type: a field counts as hidden if any type hides it.
+ * Module access is checked separately (getModulePermission).
+ */
+export function getFieldPermission(
+  ctx: AuthContext,
+  moduleId: string,
+  objectTypeId: string | null,
+  fieldKey: string
+): FieldPermission {
+  if (objectTypeId) {
+    return (
+      ctx.fieldPermissions.get(`${moduleId}:${objectTypeId}:${fieldKey}`) ??
+      ctx.fieldPermissions.get(`${moduleId}:all:${fieldKey}`) ??
+      FULL_FIELD_ACCESS
+    );
+  }
+
+  const perm = { ...FULL_FIELD_ACCESS };
+  for (const [key, mask] of ctx.fieldPermissions) {
+    const [maskModule, , ...field] = key.split(":");
+    if (maskModule !== moduleId || field.join(":") !== fieldKey) continue;
+    perm.canRead &&= mask.canRead;
+    perm.canWrite &&= mask.canWrite;
+  }
+  return perm;
+}
+
 /**
  * Throws if the user lacks the specified module access.
  */
@@ -21,11 +21,12 @@ export interface Database {
           id: string;
           full_name: string;
           avatar_url: string | null;
+          activity_seen_at: string | null;
           created_at: string;
           updated_at: string;
         };
         Insert: { id: string; full_name: string; avatar_url?: string | null };
-        Update: { full_name?: string; avatar_url?: string | null };
+        Update: { full_name?: string; avatar_url?: string | null; activity_seen_at?: string | null };
         Relationships: [];
       };
       roles: {
@@ -66,6 +67,7 @@ export interface Database {
           description: string | null;
           icon: string | null;
           schema: Json;
+          schema_version: number;
           is_active: boolean;
           created_at: string;
           updated_at: string;
@@ -77,6 +79,7 @@ export interface Database {
           description?: string | null;
           icon?: string | null;
           schema: Json;
+          schema_version?: number;
           is_active?: boolean;
         };
         Update: {
@@ -85,6 +88,7 @@ export interface Database {
           description?: string | null;
           icon?: string | null;
           schema?: Json;
+          schema_version?: number;
           is_active?: boolean;
         };
         Relationships: [];
@@ -147,6 +151,8 @@ export interface Database {
           created_by: string;
           created_at: string;
           updated_at: string;
+          deleted_at: string | null;
+          deleted_by: string | null;
         };
         Insert: {
           id?: string;
@@ -157,6 +163,8 @@ export interface Database {
         Update: {
           object_type_id?: string;
           owner_id?: string | null;
+          deleted_at?: string | null;
+          deleted_by?: string | null;
         };
         Relationships: [];
       };
@@ -180,6 +188,30 @@ export interface Database {
         };
         Relationships: [];
       };
+      object_search_index: {
+        Row: {
+          object_id: string;
+          module_id: string;
+          object_type_id: string;
+          content: string;
+          document: unknown;
+          updated_at: string;
+        };
+        Insert: {
+          object_id: string;
+          module_id: string;
+          object_type_id: string;
+          content?: string;
+          document?: unknown;
+          updated_at?: string;
+        };
+        Update: {
+          content?: string;
+          document?: unknown;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
       object_relations: {
         Row: {
           id: string;
@@ -197,11 +229,98 @@ export interface Database {
           metadata?: Json;
         };
         Update: {
+          from_object_id?: string;
+          to_object_id?: string;
           relation_type?: string;
           metadata?: Json;
         };
         Relationships: [];
       };
+      timeline_events: {
+        Row: {
+          id: string;
+          object_id: string;
+          event_type: string;
+          title: string;
+          description: string | null;
+          metadata: Json;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          object_id: string;
+          event_type: string;
+          title: string;
+          description?: string | null;
+          metadata?: Json;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          object_id?: string;
+          title?: string;
+          description?: string | null;
+          metadata?: Json;
+        };
+        Relationships: [];
+      };
+      views: {
+        Row: {
+          id: string;
+          object_type_id: string;
+          name: string;
+          icon: string | null;
+          layout_type: string;
+          layout_config: Json;
+          kanban_field_key: string | null;
+          kanban_module_name: string | null;
+          filters: Json;
+          sorts: Json;
+          visible_fields: Json;
+          group_by_field: string | null;
+          group_by_module: string | null;
+          is_default: boolean;
+          visibility: string;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          object_type_id: string;
+          name: string;
+          icon?: string | null;
+          layout_type?: string;
+          layout_config?: Json;
+          kanban_field_key?: string | null;
+          kanban_module_name?: string | null;
+          filters?: Json;
+          sorts?: Json;
+          visible_fields?: Json;
+          group_by_field?: string | null;
+          group_by_module?: string | null;
+          is_default?: boolean;
+          visibility?: string;
+          created_by?: string | null;
+        };
+        Update: {
+          name?: string;
+          icon?: string | null;
+          layout_type?: string;
+          layout_config?: Json;
+          kanban_field_key?: string | null;
+          kanban_module_name?: string | null;
+          filters?: Json;
+          sorts?: Json;
+          visible_fields?: Json;
+          group_by_field?: string | null;
+          group_by_module?: string | null;
+          is_default?: boolean;
+          visibility?: string;
+        };
+        Relationships: [];
+      };
       object_type_relations: {
         Row: {
           id: string;
@@ -234,6 +353,444 @@ export interface Database {
         };
         Relationships: [];
       };
+      object_type_workflows: {
+        Row: {
+          id: string;
+          object_type_id: string;
+          module_name: string;
+          field_key: string;
+          states: Json;
+          transitions: Json;
+          is_active: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          object_type_id: string;
+          module_name?: string;
+          field_key?: string;
+          states?: Json;
+          transitions?: Json;
+          is_active?: boolean;
+          created_by?: string | null;
+        };
+        Update: {
+          module_name?: string;
+          field_key?: string;
+          states?: Json;
+          transitions?: Json;
+          is_active?: boolean;
+        };
+        Relationships: [];
+      };
+      automation_rules: {
+        Row: {
+          id: string;
+          object_type_id: string;
+          name: string;
+          description: string | null;
+          trigger: Json;
+          conditions: Json;
+          actions: Json;
+          is_active: boolean;
+          position: number;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          object_type_id: string;
+          name: string;
+          description?: string | null;
+          trigger: Json;
+          conditions?: Json;
+          actions?: Json;
+          is_active?: boolean;
+          position?: number;
+          created_by?: string | null;
+        };
+        Update: {
+          name?: string;
+          description?: string | null;
+          trigger?: Json;
+          conditions?: Json;
+          actions?: Json;
+          is_active?: boolean;
+          position?: number;
+        };
+        Relationships: [];
+      };
+      webhooks: {
+        Row: {
+          id: string;
+          name: string;
+          url: string;
+          secret: string;
+          events: string[];
+          object_type_ids: string[];
+          is_active: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          url: string;
+          secret: string;
+          events?: string[];
+          object_type_ids?: string[];
+          is_active?: boolean;
+          created_by?: string | null;
+        };
+        Update: {
+          name?: string;
+          url?: string;
+          secret?: string;
+          events?: string[];
+          object_type_ids?: string[];
+          is_active?: boolean;
+        };
+        Relationships: [];
+      };
+      webhook_deliveries: {
+        Row: {
+          id: string;
+          webhook_id: string;
+          event: string;
+          payload: Json;
+          status: string;
+          attempts: number;
+          next_attempt_at: string;
+          last_attempt_at: string | null;
+          response_status: number | null;
+          response_body: string | null;
+          error: string | null;
+          duration_ms: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          webhook_id: string;
+          event: string;
+          payload: Json;
+          status?: string;
+          attempts?: number;
+          next_attempt_at?: string;
+        };
+        Update: {
+          status?: string;
+          attempts?: number;
+          next_attempt_at?: string;
+          last_attempt_at?: string | null;
+          response_status?: number | null;
+          response_body?: string | null;
+          error?: string | null;
+          duration_ms?: number | null;
+        };
+        Relationships: [];
+      };
+      processor_results: {
+        Row: {
+          id: string;
+          run_id: string;
+          object_id: string;
+          object_type_id: string;
+          processor: string;
+          success: boolean;
+          data: Json | null;
+          error: string | null;
+          source_fields: string[];
+          computed_at: string;
+        };
+        Insert: {
+          id?: string;
+          run_id: string;
+          object_id: string;
+          object_type_id: string;
+          processor: string;
+          success: boolean;
+          data?: Json | null;
+          error?: string | null;
+          source_fields?: string[];
+          computed_at?: string;
+        };
+        Update: {
+          data?: Json | null;
+          error?: string | null;
+        };
+        Relationships: [];
+      };
+      module_schema_versions: {
+        Row: {
+          id: string;
+          module_id: string;
+          version: number;
+          schema: Json;
+          migrations: Json;
+          status: string;
+          affected_count: number;
+          processed_count: number;
+          error: string | null;
+          created_by: string | null;
+          created_at: string;
+          completed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          module_id: string;
+          version: number;
+          schema: Json;
+          migrations?: Json;
+          status?: string;
+          affected_count?: number;
+          processed_count?: number;
+          error?: string | null;
+          created_by?: string | null;
+          completed_at?: string | null;
+        };
+        Update: {
+          status?: string;
+          affected_count?: number;
+          processed_count?: number;
+          error?: string | null;
+          completed_at?: string | null;
+        };
+        Relationships: [];
+      };
+      rollup_fields: {
+        Row: {
+          id: string;
+          object_type_id: string;
+          relation_id: string;
+          key: string;
+          label: string;
+          aggregate: string;
+          module_name: string | null;
+          field_key: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          object_type_id: string;
+          relation_id: string;
+          key: string;
+          label: string;
+          aggregate: string;
+          module_name?: string | null;
+          field_key?: string | null;
+          created_by?: string | null;
+        };
+        Update: {
+          relation_id?: string;
+          label?: string;
+          aggregate?: string;
+          module_name?: string | null;
+          field_key?: string | null;
+        };
+        Relationships: [];
+      };
+      rollup_values: {
+        Row: {
+          rollup_id: string;
+          object_id: string;
+          value: Json | null;
+          related_count: number;
+          computed_at: string;
+        };
+        Insert: {
+          rollup_id: string;
+          object_id: string;
+          value?: Json | null;
+          related_count?: number;
+          computed_at?: string;
+        };
+        Update: {
+          value?: Json | null;
+          related_count?: number;
+          computed_at?: string;
+        };
+        Relationships: [];
+      };
+      duplicate_rules: {
+        Row: {
+          id: string;
+          object_type_id: string;
+          name: string;
+          match_keys: Json;
+          threshold: number;
+          is_active: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          object_type_id: string;
+          name: string;
+          match_keys?: Json;
+          threshold?: number;
+          is_active?: boolean;
+          created_by?: string | null;
+        };
+        Update: {
+          name?: string;
+          match_keys?: Json;
+          threshold?: number;
+          is_active?: boolean;
+        };
+        Relationships: [];
+      };
+      duplicate_candidates: {
+        Row: {
+          id: string;
+          object_type_id: string;
+          rule_id: string | null;
+          object_a_id: string;
+          object_b_id: string;
+          score: number;
+          status: string;
+          reviewed_by: string | null;
+          reviewed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          object_type_id: string;
+          rule_id?: string | null;
+          object_a_id: string;
+          object_b_id: string;
+          score?: number;
+          status?: string;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+        };
+        Update: {
+          score?: number;
+          status?: string;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+        };
+        Relationships: [];
+      };
+      bulk_jobs: {
+        Row: {
+          id: string;
+          object_type_id: string;
+          action: Json;
+          object_ids: string[];
+          status: string;
+          total: number;
+          processed: number;
+          succeeded: number;
+          failed: number;
+          errors: Json;
+          created_by: string;
+          started_at: string | null;
+          finished_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          object_type_id: string;
+          action: Json;
+          object_ids?: string[];
+          status?: string;
+          total?: number;
+          processed?: number;
+          succeeded?: number;
+          failed?: number;
+          errors?: Json;
+          created_by: string;
+          started_at?: string | null;
+          finished_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          status?: string;
+          processed?: number;
+          succeeded?: number;
+          failed?: number;
+          errors?: Json;
+          started_at?: string | null;
+          finished_at?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      teams: {
+        Row: {
+          id: string;
+          name: string;
+          description: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          description?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      team_members: {
+        Row: {
+          team_id: string;
+          user_id: string;
+          created_at: string;
+        };
+        Insert: {
+          team_id: string;
+          user_id: string;
+          created_at?: string;
+        };
+        Update: {
+          team_id?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      record_shares: {
+        Row: {
+          id: string;
+          object_id: string;
+          user_id: string | null;
+          team_id: string | null;
+          access: string;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          object_id: string;
+          user_id?: string | null;
+          team_id?: string | null;
+          access?: string;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          access?: string;
+        };
+        Relationships: [];
+      };
       role_module_permissions: {
         Row: {
           id: string;
@@ -260,6 +817,36 @@ export interface Database {
         };
         Relationships: [];
       };
+      role_field_permissions: {
+        Row: {
+          id: string;
+          role_id: string;
+          module_id: string;
+          object_type_id: string | null;
+          field_key: string;
+          can_read: boolean;
+          can_write: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          role_id: string;
+          module_id: string;
+          object_type_id?: string | null;
+          field_key: string;
+          can_read?: boolean;
+          can_write?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          can_read?: boolean;
+          can_write?: boolean;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
       audit_logs: {
         Row: {
           id: string;
@@ -319,6 +906,63 @@ export interface Database {
           count: number;
         }[];
       };
+      search_object_index: {
+        Args: {
+          p_query: string;
+          p_object_type_id?: string | null;
+          p_scope_user_ids?: string[] | null;
+          p_scope_object_ids?: string[];
+          p_limit?: number;
+        };
+        Returns: {
+          object_id: string;
+          module_id: string;
+          object_type_id: string;
+          rank: number;
+        }[];
+      };
+      query_objects: {
+        Args: {
+          p_object_type_id?: string | null;
+          p_filters?: Json;
+          p_sorts?: Json;
+          p_scope_user_ids?: string[] | null;
+          p_scope_object_ids?: string[];
+          p_ids?: string[] | null;
+          p_after?: Json | null;
+          p_offset?: number;
+          p_limit?: number;
+        };
+        Returns: Json;
+      };
+      query_object_groups: {
+        Args: {
+          p_object_type_id?: string | null;
+          p_filters?: Json;
+          p_group?: Json | null;
+          p_aggregates?: Json;
+          p_scope_user_ids?: string[] | null;
+          p_scope_object_ids?: string[];
+          p_ids?: string[] | null;
+          p_group_limit?: number;
+        };
+        Returns: Json;
+      };
+      query_activity_feed: {
+        Args: {
+          p_object_type_id?: string | null;
+          p_actor_id?: string | null;
+          p_event_types?: string[] | null;
+          p_from?: string | null;
+          p_to?: string | null;
+          p_scope_user_ids?: string[] | null;
+          p_scope_object_ids?: string[];
+          p_cursor_at?: string | null;
+          p_cursor_id?: string | null;
+          p_limit?: number;
+        };
+        Returns: Json;
+      };
     };
     Enums: Record<string, never>;
   };
@@ -0,0 +1,80 @@
+/**
+ * Minimal RFC 4180 CSV helpers shared by import/export.
+ * Handles quoted fields, escaped quotes ("") and newlines inside quotes.
+ */
+
+/**
+ * Parse CSV text into a header row and records keyed by header.
+ */
+export function parseCsv(text: string): {
+  columns: string[];
+  rows: Record<string, string>[];
+} {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Strip a UTF-8 BOM (Excel adds one)
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Drop blank lines
+  const nonEmpty = records.filter((r) => r.some((v) => v.trim() !== ""));
+  if (nonEmpty.length === 0) return { columns: [], rows: [] };
+
+  const columns = nonEmpty[0].map((c) => c.trim());
+  const rows = nonEmpty.slice(1).map((r) =>
+    Object.fromEntries(columns.map((c, idx) => [c, r[idx] ?? ""]))
+  );
+
+  return { columns, rows };
+}
+
+/**
+ * Serialize records to CSV with every value quoted.
+ */
+export function toCsv(columns: string[], rows: Record<string, unknown>[]): string {
+  const escape = (v: unknown) => `"${String(v ?? "").replace(/"/g, '""')}"`;
+  return [
+    columns.map(escape).join(","),
+    ...rows.map((r) => columns.map((c) => escape(r[c])).join(",")),
+  ].join("\n");
+}
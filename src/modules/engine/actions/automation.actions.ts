@@ -0,0 +1,62 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getAuthContext } from "@/lib/permissions/rbac";
+import * as automationService from "../services/automation.service";
+import type { AutomationRuleInput } from "../types/automation.types";
+
+export async function createAutomationRuleAction(
+  objectTypeId: string,
+  input: AutomationRuleInput
+): Promise<ActionResult<{ id: string }>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    const rule = await automationService.createAutomationRule(ctx, objectTypeId, input);
+    revalidatePath("/registry");
+    return { success: true, data: { id: rule.id } };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to create automation",
+    };
+  }
+}
+
+export async function updateAutomationRuleAction(
+  ruleId: string,
+  input: AutomationRuleInput
+): Promise<ActionResult<{ id: string }>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    const rule = await automationService.updateAutomationRule(ctx, ruleId, input);
+    revalidatePath("/registry");
+    return { success: true, data: { id: rule.id } };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to update automation",
+    };
+  }
+}
+
+export async function deleteAutomationRuleAction(
+  ruleId: string
+): Promise<ActionResult<void>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    await automationService.deleteAutomationRule(ctx, ruleId);
+    revalidatePath("/registry");
+    return { success: true, data: undefined };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to delete automation",
+    };
+  }
+}
@@ -0,0 +1,41 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getAuthContext } from "@/lib/permissions/rbac";
+import * as bulkService from "../services/bulk.service";
+import type { BulkJob, BulkJobInput } from "../types/bulk.types";
+
+export async function startBulkJobAction(
+  input: BulkJobInput
+): Promise<ActionResult<BulkJob>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    const job = await bulkService.startBulkJob(ctx, input);
+    return { success: true, data: job };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to start bulk action",
+    };
+  }
+}
+
+export async function getBulkJobAction(jobId: string): Promise<ActionResult<BulkJob>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    const job = await bulkService.getBulkJob(ctx, jobId);
+    if (job.status === "completed" || job.status === "failed") {
+      revalidatePath("/view", "layout");
+    }
+    return { success: true, data: job };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to load bulk action",
+    };
+  }
+}
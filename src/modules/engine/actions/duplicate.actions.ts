@@ -0,0 +1,123 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getAuthContext } from "@/lib/permissions/rbac";
+import * as duplicateService from "../services/duplicate.service";
+import type {
+  DuplicateRuleInput,
+  DuplicateScanSummary,
+  MergeInput,
+  MergeSummary,
+} from "../types/duplicate.types";
+
+export async function createDuplicateRuleAction(
+  objectTypeId: string,
+  input: DuplicateRuleInput
+): Promise<ActionResult<{ id: string }>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    const rule = await duplicateService.createDuplicateRule(ctx, objectTypeId, input);
+    revalidatePath("/registry");
+    return { success: true, data: { id: rule.id } };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to create duplicate rule",
+    };
+  }
+}
+
+export async function updateDuplicateRuleAction(
+  ruleId: string,
+  input: DuplicateRuleInput
+): Promise<ActionResult<{ id: string }>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    const rule = await duplicateService.updateDuplicateRule(ctx, ruleId, input);
+    revalidatePath("/registry");
+    return { success: true, data: { id: rule.id } };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to update duplicate rule",
+    };
+  }
+}
+
+export async function deleteDuplicateRuleAction(
+  ruleId: string
+): Promise<ActionResult<void>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    await duplicateService.deleteDuplicateRule(ctx, ruleId);
+    revalidatePath("/registry");
+    return { success: true, data: undefined };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to delete duplicate rule",
+    };
+  }
+}
+
+export async function scanDuplicatesAction(
+  objectTypeId?: string
+): Promise<ActionResult<DuplicateScanSummary>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    const summary = await duplicateService.runDuplicateScan(ctx, objectTypeId);
+    revalidatePath("/duplicates");
+    return { success: true, data: summary };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to scan for duplicates",
+    };
+  }
+}
+
+export async function dismissDuplicateAction(
+  candidateId: string
+): Promise<ActionResult<void>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    await duplicateService.dismissDuplicate(ctx, candidateId);
+    revalidatePath("/duplicates");
+    return { success: true, data: undefined };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to dismiss duplicate",
+    };
+  }
+}
+
+export async function mergeObjectsAction(
+  input: MergeInput
+): Promise<ActionResult<MergeSummary>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    const summary = await duplicateService.mergeObjects(ctx, input);
+    revalidatePath("/duplicates");
+    revalidatePath("/trash");
+    revalidatePath(`/objects/${input.survivorId}`);
+    return { success: true, data: summary };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to merge objects",
+    };
+  }
+}
@@ -0,0 +1,22 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getAuthContext } from "@/lib/permissions/rbac";
+import * as historyService from "../services/history.service";
+
+export async function revertObjectToVersionAction(
+  objectId: string,
+  versionId: string
+): Promise<ActionResult<string[]>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    const modules = await historyService.revertObjectToVersion(ctx, objectId, versionId);
+    revalidatePath(`/objects/${objectId}`);
+    revalidatePath(`/record/${objectId}`);
+    return { success: true, data: modules };
+  } catch (err: unknown) {
+    return { success: false, error: err instanceof Error ? err.message : "Failed to revert object" };
+  }
+}
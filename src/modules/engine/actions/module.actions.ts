@@ -3,7 +3,13 @@
 import { revalidatePath } from "next/cache";
 import { getAuthContext } from "@/lib/permissions/rbac";
 import * as moduleService from "../services/module.service";
-import type { ModuleCreateInput, ModuleUpdateInput } from "../types/module.types";
+import * as schemaMigrationService from "../services/schema-migration.service";
+import type { ModuleCreateInput, ModuleSchema, ModuleUpdateInput } from "../types/module.types";
+import type {
+  ModuleSchemaVersion,
+  SchemaChangePreview,
+  SchemaMigrationStep,
+} from "../types/schema-migration.types";
 
 export async function createModuleAction(
   input: ModuleCreateInput
@@ -47,3 +53,50 @@ export async function deleteModuleAction(
     return { success: false, error: err.message ?? "Failed to delete module" };
   }
 }
+
+export async function previewSchemaChangeAction(
+  moduleId: string,
+  schema: ModuleSchema,
+  migrations: SchemaMigrationStep[]
+): Promise<ActionResult<SchemaChangePreview>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) throw new Error("Unauthorized");
+    const preview = await schemaMigrationService.previewSchemaChange(
+      ctx,
+      moduleId,
+      schema,
+      migrations
+    );
+    return { success: true, data: preview };
+  } catch (err) {
+    return { success: false, error: err instanceof Error ? err.message : "Failed to preview schema change" };
+  }
+}
+
+export async function getModuleSchemaVersionsAction(
+  moduleId: string
+): Promise<ActionResult<ModuleSchemaVersion[]>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) throw new Error("Unauthorized");
+    const versions = await schemaMigrationService.getModuleSchemaVersions(ctx, moduleId);
+    return { success: true, data: versions };
+  } catch (err) {
+    return { success: false, error: err instanceof Error ? err.message : "Failed to load schema history" };
+  }
+}
+
+export async function retrySchemaMigrationAction(
+  versionId: string
+): Promise<ActionResult> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) throw new Error("Unauthorized");
+    await schemaMigrationService.retrySchemaMigration(ctx, versionId);
+    revalidatePath("/registry");
+    return { success: true, data: undefined };
+  } catch (err) {
+    return { success: false, error: err instanceof Error ? err.message : "Failed to retry migration" };
+  }
+}
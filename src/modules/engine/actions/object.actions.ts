@@ -51,6 +51,7 @@ export async function deleteObjectAction(
     revalidatePath("/objects");
     revalidatePath("/view");
     revalidatePath("/dashboard");
+    revalidatePath("/trash");
     return { success: true, data: undefined };
   } catch (err: any) {
     return { success: false, error: err.message ?? "Failed to delete object" };
@@ -0,0 +1,62 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getAuthContext } from "@/lib/permissions/rbac";
+import * as rollupService from "../services/rollup.service";
+import type { RollupFieldInput } from "../types/rollup.types";
+
+export async function createRollupFieldAction(
+  objectTypeId: string,
+  input: RollupFieldInput
+): Promise<ActionResult<{ id: string }>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    const rollup = await rollupService.createRollupField(ctx, objectTypeId, input);
+    revalidatePath("/registry");
+    return { success: true, data: { id: rollup.id } };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to create rollup",
+    };
+  }
+}
+
+export async function updateRollupFieldAction(
+  rollupId: string,
+  input: RollupFieldInput
+): Promise<ActionResult<{ id: string }>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    const rollup = await rollupService.updateRollupField(ctx, rollupId, input);
+    revalidatePath("/registry");
+    return { success: true, data: { id: rollup.id } };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to update rollup",
+    };
+  }
+}
+
+export async function deleteRollupFieldAction(
+  rollupId: string
+): Promise<ActionResult<void>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    await rollupService.deleteRollupField(ctx, rollupId);
+    revalidatePath("/registry");
+    return { success: true, data: undefined };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to delete rollup",
+    };
+  }
+}
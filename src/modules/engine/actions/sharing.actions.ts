@@ -0,0 +1,38 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getAuthContext } from "@/lib/permissions/rbac";
+import * as sharingService from "../services/sharing.service";
+import type { RecordShareInput } from "../types/sharing.types";
+
+export async function shareRecordAction(
+  objectId: string,
+  input: RecordShareInput
+): Promise<ActionResult<void>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    await sharingService.shareRecord(ctx, objectId, input);
+    revalidatePath(`/record/${objectId}`);
+    return { success: true, data: undefined };
+  } catch (err: unknown) {
+    return { success: false, error: err instanceof Error ? err.message : "Failed to share record" };
+  }
+}
+
+export async function revokeRecordShareAction(
+  shareId: string,
+  objectId: string
+): Promise<ActionResult<void>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    await sharingService.revokeRecordShare(ctx, shareId);
+    revalidatePath(`/record/${objectId}`);
+    return { success: true, data: undefined };
+  } catch (err: unknown) {
+    return { success: false, error: err instanceof Error ? err.message : "Failed to remove share" };
+  }
+}
@@ -3,6 +3,12 @@
 import { revalidatePath } from "next/cache";
 import { getAuthContext } from "@/lib/permissions/rbac";
 import * as timelineService from "../services/timeline.service";
+import type {
+  ActivityFeedPage,
+  ActivityFeedParams,
+  TimelinePage,
+  TimelineQueryParams,
+} from "../types/timeline.types";
 
 export async function addNoteAction(
   objectId: string,
@@ -22,3 +28,53 @@ export async function addNoteAction(
     };
   }
 }
+
+export async function getTimelineAction(
+  objectId: string,
+  params: TimelineQueryParams = {}
+): Promise<ActionResult<TimelinePage>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    const page = await timelineService.getTimeline(ctx, objectId, params);
+    return { success: true, data: page };
+  } catch (err: unknown) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to load timeline",
+    };
+  }
+}
+
+export async function getActivityFeedAction(
+  params: ActivityFeedParams = {}
+): Promise<ActionResult<ActivityFeedPage>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    const page = await timelineService.getActivityFeed(ctx, params);
+    return { success: true, data: page };
+  } catch (err: unknown) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to load activity",
+    };
+  }
+}
+
+export async function markActivitySeenAction(): Promise<ActionResult<void>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    await timelineService.markActivitySeen(ctx);
+    return { success: true, data: undefined };
+  } catch (err: unknown) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to update activity",
+    };
+  }
+}
@@ -0,0 +1,34 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getAuthContext } from "@/lib/permissions/rbac";
+import * as trashService from "../services/trash.service";
+
+export async function restoreObjectAction(objectId: string): Promise<ActionResult<void>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    await trashService.restoreObject(ctx, objectId);
+    revalidatePath("/trash");
+    revalidatePath("/objects");
+    revalidatePath("/view");
+    revalidatePath("/dashboard");
+    return { success: true, data: undefined };
+  } catch (err: unknown) {
+    return { success: false, error: err instanceof Error ? err.message : "Failed to restore object" };
+  }
+}
+
+export async function purgeObjectAction(objectId: string): Promise<ActionResult<void>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    await trashService.purgeObject(ctx, objectId);
+    revalidatePath("/trash");
+    return { success: true, data: undefined };
+  } catch (err: unknown) {
+    return { success: false, error: err instanceof Error ? err.message : "Failed to delete object" };
+  }
+}
@@ -0,0 +1,43 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getAuthContext } from "@/lib/permissions/rbac";
+import * as workflowService from "../services/workflow.service";
+import type { WorkflowSaveInput } from "../types/workflow.types";
+
+export async function saveWorkflowAction(
+  objectTypeId: string,
+  input: WorkflowSaveInput
+): Promise<ActionResult<{ id: string }>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    const workflow = await workflowService.saveWorkflow(ctx, objectTypeId, input);
+    revalidatePath("/registry");
+    return { success: true, data: { id: workflow.id } };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to save workflow",
+    };
+  }
+}
+
+export async function deleteWorkflowAction(
+  objectTypeId: string
+): Promise<ActionResult<void>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Not authenticated" };
+
+    await workflowService.deleteWorkflow(ctx, objectTypeId);
+    revalidatePath("/registry");
+    return { success: true, data: undefined };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Failed to delete workflow",
+    };
+  }
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { tw } from "./DynamicField";
+import { TimelineEventDetails, TimelineEventIcon, formatRelativeTime } from "./Timeline";
+import {
+  TimelineEventTypes,
+  type ActivityFeedPage,
+  type ActivityFeedParams,
+  type TimelineEventType,
+} from "@/modules/engine/types/timeline.types";
+import {
+  getActivityFeedAction,
+  markActivitySeenAction,
+} from "@/modules/engine/actions/timeline.actions";
+import { Clock } from "lucide-react";
+
+interface Props {
+  /** First page for the current filters */
+  feed: ActivityFeedPage;
+  filters: ActivityFeedParams;
+  objectTypes: { name: string; displayName: string }[];
+  users: { id: string; full_name: string }[];
+}
+
+export function ActivityFeed({ feed, filters, objectTypes, users }: Props) {
+  const router = useRouter();
+  const [items, setItems] = useState(feed.items);
+  const [cursor, setCursor] = useState(feed.nextCursor);
+  const [fetching, setFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The visit is recorded on leaving the page, so unread markers stay while
+  // the user changes filters
+  useEffect(() => {
+    return () => {
+      markActivitySeenAction();
+    };
+  }, []);
+
+  // Fresh server data (new filters) replaces the list
+  useEffect(() => {
+    setItems(feed.items);
+    setCursor(feed.nextCursor);
+  }, [feed]);
+
+  const eventTypes = filters.eventTypes ?? [];
+
+  function applyFilters(next: ActivityFeedParams) {
+    const params = new URLSearchParams();
+    if (next.objectType) params.set("type", next.objectType);
+    if (next.userId) params.set("user", next.userId);
+    if (next.eventTypes && next.eventTypes.length > 0) params.set("events", next.eventTypes.join(","));
+    if (next.from) params.set("from", next.from);
+    if (next.to) params.set("to", next.to);
+    const query = params.toString();
+    router.push(query ? `/activity?${query}` : "/activity");
+  }
+
+  function toggleEventType(type: TimelineEventType) {
+    applyFilters({
+      ...filters,
+      eventTypes: eventTypes.includes(type)
+        ? eventTypes.filter((t) => t !== type)
+        : [...eventTypes, type],
+    });
+  }
+
+  async function loadMore() {
+    if (!cursor) return;
+    setFetching(true);
+    setError(null);
+    const result = await getActivityFeedAction({ ...filters, cursor });
+    setFetching(false);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setItems((prev) => [...prev, ...result.data.items]);
+    setCursor(result.data.nextCursor);
+  }
+
+  const unreadCount = items.filter((item) => item.unread).length;
+  const hasFilters =
+    !!filters.objectType || !!filters.userId || eventTypes.length > 0 || !!filters.from || !!filters.to;
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className={tw.card}>
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          <div>
+            <label className={tw.label}>Object Type</label>
+            <select
+              className={tw.input}
+              value={filters.objectType ?? ""}
+              onChange={(e) => applyFilters({ ...filters, objectType: e.target.value || undefined })}
+            >
+              <option value="">All types</option>
+              {objectTypes.map((t) => (
+                <option key={t.name} value={t.name}>
+                  {t.displayName}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={tw.label}>User</label>
+            <select
+              className={tw.input}
+              value={filters.userId ?? ""}
+              onChange={(e) => applyFilters({ ...filters, userId: e.target.value || undefined })}
+            >
+              <option value="">Everyone</option>
+              {users.map((u) => (
+                <option key={u.id} value={u.id}>
+                  {u.full_name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={tw.label}>From</label>
+            <input
+              type="date"
+              className={tw.input}
+              value={filters.from ?? ""}
+              onChange={(e) => applyFilters({ ...filters, from: e.target.value || undefined })}
+            />
+          </div>
+          <div>
+            <label className={tw.label}>To</label>
+            <input
+              type="date"
+              className={tw.input}
+              value={filters.to ?? ""}
+              onChange={(e) => applyFilters({ ...filters, to: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+
+        <div className="mt-3 flex flex-wrap items-center gap-1.5">
+          {TimelineEventTypes.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => toggleEventType(value)}
+              className={`rounded-full border px-2.5 py-0.5 text-xs transition-colors ${
+                eventTypes.includes(value)
+                  ? "border-blue-300 bg-blue-50 text-blue-700 dark:border-blue-700 dark:bg-blue-950 dark:text-blue-300"
+                  : "border-gray-200 text-gray-500 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-gray-800"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+          {hasFilters && (
+            <button
+              type="button"
+              onClick={() => applyFilters({})}
+              className="px-1.5 text-xs text-gray-400 hover:text-gray-600"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+      </div>
+
+      {unreadCount > 0 && (
+        <p className="text-sm text-blue-600 dark:text-blue-400">
+          {unreadCount} new since your last visit
+        </p>
+      )}
+      {error && <div className={tw.error}>{error}</div>}
+
+      {/* Events */}
+      {items.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500">
+          {hasFilters ? "No activity matches these filters." : "No activity yet."}
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white dark:divide-gray-800 dark:border-gray-800 dark:bg-gray-900">
+          {items.map((item) => (
+            <div
+              key={item.id}
+              className={`flex gap-3 px-4 py-3 ${item.unread ? "bg-blue-50/50 dark:bg-blue-950/20" : ""}`}
+            >
+              <TimelineEventIcon eventType={item.eventType} />
+              <div className="min-w-0 flex-1">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-900 dark:text-white">
+                      <span className="font-medium">{item.title}</span>
+                      {" on "}
+                      <Link
+                        href={`/objects/${item.object.id}`}
+                        className="font-medium text-blue-600 hover:underline dark:text-blue-400"
+                      >
+                        {item.object.displayName}
+                      </Link>
+                    </p>
+                    <p className="mt-0.5 text-xs text-gray-500">
+                      {item.object.objectType.displayName}
+                      {item.actorName && ` · by ${item.actorName}`}
+                    </p>
+                    {item.description && (
+                      <p className="mt-0.5 text-sm text-gray-600 dark:text-gray-400">
+                        {item.description}
+                      </p>
+                    )}
+                  </div>
+                  <span className="flex flex-shrink-0 items-center gap-1.5 text-xs text-gray-400">
+                    {item.unread && <span className="h-2 w-2 rounded-full bg-blue-500" title="New" />}
+                    <Clock size={10} />
+                    <span title={new Date(item.createdAt).toLocaleString()}>
+                      {formatRelativeTime(item.createdAt)}
+                    </span>
+                  </span>
+                </div>
+                <TimelineEventDetails event={item} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {cursor && (
+        <div className="text-center">
+          <button type="button" onClick={loadMore} disabled={fetching} className={tw.btnSecondary}>
+            {fetching ? "Loading…" : "Load more"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,695 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { clsx } from "clsx";
+import { tw } from "./DynamicField";
+import {
+  createAutomationRuleAction,
+  updateAutomationRuleAction,
+  deleteAutomationRuleAction,
+} from "@/modules/engine/actions/automation.actions";
+import type { ModuleRowTyped } from "@/modules/engine/types/module.types";
+import type { ObjectTypeWithModules } from "@/modules/engine/types/object.types";
+import type {
+  AutomationAction,
+  AutomationActionType,
+  AutomationCondition,
+  AutomationConditionOperator,
+  AutomationRule,
+  AutomationRuleInput,
+  AutomationTrigger,
+  AutomationTriggerType,
+} from "@/modules/engine/types/automation.types";
+import {
+  AutomationActionTypes,
+  AutomationTriggerTypes,
+} from "@/modules/engine/types/automation.types";
+import { Pencil, Plus, Trash2, ToggleLeft, ToggleRight, Zap } from "lucide-react";
+
+// ── Types ────────────────────────────────────
+
+interface Props {
+  objectType: ObjectTypeWithModules;
+  modules: ModuleRowTyped[];
+  allObjectTypes: ObjectTypeWithModules[];
+  automations: AutomationRule[];
+  users: { id: string; full_name: string }[];
+}
+
+const OPERATORS: { value: AutomationConditionOperator; label: string }[] = [
+  { value: "eq", label: "equals" },
+  { value: "neq", label: "does not equal" },
+  { value: "gt", label: ">" },
+  { value: "lt", label: "<" },
+  { value: "gte", label: "≥" },
+  { value: "lte", label: "≤" },
+  { value: "contains", label: "contains" },
+  { value: "is_empty", label: "is empty" },
+  { value: "is_not_empty", label: "is not empty" },
+];
+
+const EMPTY_RULE: AutomationRuleInput = {
+  name: "",
+  trigger: { type: "object_created" },
+  conditions: [],
+  actions: [{ type: "add_timeline_note", note: "" }],
+  isActive: true,
+};
+
+function defaultAction(type: AutomationActionType): AutomationAction {
+  switch (type) {
+    case "set_field":
+      return { type, module: "", field: "", value: "" };
+    case "create_related_object":
+      return { type, objectTypeId: "", relationType: "", modules: {} };
+    case "add_timeline_note":
+      return { type, note: "" };
+    case "assign_owner":
+      return { type, ownerId: "" };
+  }
+}
+
+function describeTrigger(trigger: AutomationTrigger): string {
+  const label =
+    AutomationTriggerTypes.find((t) => t.value === trigger.type)?.label ?? trigger.type;
+  switch (trigger.type) {
+    case "field_changed":
+      return `${label}: ${trigger.module}${trigger.field ? `.${trigger.field}` : ""}`;
+    case "stage_entered":
+      return `${label}: ${trigger.stage}`;
+    case "relation_added":
+      return trigger.relationType ? `${label}: ${trigger.relationType}` : label;
+    default:
+      return label;
+  }
+}
+
+// ── Component ────────────────────────────────
+
+export function AutomationManager({
+  objectType,
+  modules,
+  allObjectTypes,
+  automations,
+  users,
+}: Props) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | "new" | null>(null);
+
+  async function handleToggle(rule: AutomationRule) {
+    setError(null);
+    try {
+      const result = await updateAutomationRuleAction(rule.id, {
+        name: rule.name,
+        description: rule.description ?? undefined,
+        trigger: rule.trigger,
+        conditions: rule.conditions,
+        actions: rule.actions,
+        isActive: !rule.isActive,
+        position: rule.position,
+      });
+      if (!result.success) {
+        setError(result.error ?? "Failed to update automation");
+        return;
+      }
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to update automation");
+    }
+  }
+
+  async function handleDelete(rule: AutomationRule) {
+    if (!confirm(`Delete automation "${rule.name}"?`)) return;
+    setError(null);
+    try {
+      const result = await deleteAutomationRuleAction(rule.id);
+      if (!result.success) {
+        setError(result.error ?? "Failed to delete automation");
+        return;
+      }
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to delete automation");
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Run actions automatically when {objectType.display_name} records change.
+        </p>
+        {editingId === null && (
+          <button type="button" onClick={() => setEditingId("new")} className={tw.btnPrimary}>
+            <Plus size={14} className="mr-1 inline" />
+            New Automation
+          </button>
+        )}
+      </div>
+
+      {error && <div className={tw.error}>{error}</div>}
+
+      {editingId === "new" && (
+        <RuleEditor
+          objectType={objectType}
+          modules={modules}
+          allObjectTypes={allObjectTypes}
+          users={users}
+          initial={{ ...EMPTY_RULE, position: automations.length }}
+          onCancel={() => setEditingId(null)}
+          onSave={async (input) => {
+            const result = await createAutomationRuleAction(objectType.id, input);
+            if (result.success) setEditingId(null);
+            return result;
+          }}
+        />
+      )}
+
+      {automations.length === 0 && editingId !== "new" ? (
+        <div className={tw.card}>
+          <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+            No automations yet.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {automations.map((rule) =>
+            editingId === rule.id ? (
+              <RuleEditor
+                key={rule.id}
+                objectType={objectType}
+                modules={modules}
+                allObjectTypes={allObjectTypes}
+                users={users}
+                initial={{
+                  name: rule.name,
+                  description: rule.description ?? undefined,
+                  trigger: rule.trigger,
+                  conditions: rule.conditions,
+                  actions: rule.actions,
+                  isActive: rule.isActive,
+                  position: rule.position,
+                }}
+                onCancel={() => setEditingId(null)}
+                onSave={async (input) => {
+                  const result = await updateAutomationRuleAction(rule.id, input);
+                  if (result.success) setEditingId(null);
+                  return result;
+                }}
+              />
+            ) : (
+              <div
+                key={rule.id}
+                className={clsx(tw.card, "flex items-center gap-3", !rule.isActive && "opacity-60")}
+              >
+                <Zap size={16} className="shrink-0 text-amber-500" />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    {rule.name}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {describeTrigger(rule.trigger)}
+                    {rule.conditions.length > 0 &&
+                      ` · ${rule.conditions.length} condition${rule.conditions.length === 1 ? "" : "s"}`}
+                    {` · ${rule.actions.length} action${rule.actions.length === 1 ? "" : "s"}`}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleToggle(rule)}
+                  className="rounded p-1 text-gray-400 hover:text-gray-600"
+                  title={rule.isActive ? "Disable" : "Enable"}
+                >
+                  {rule.isActive ? (
+                    <ToggleRight size={18} className="text-green-600" />
+                  ) : (
+                    <ToggleLeft size={18} />
+                  )}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setEditingId(rule.id)}
+                  className="rounded p-1 text-gray-400 hover:text-blue-600"
+                >
+                  <Pencil size={14} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(rule)}
+                  className="rounded p-1 text-gray-400 hover:text-red-600"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ── Rule Editor ──────────────────────────────
+
+function RuleEditor({
+  objectType,
+  modules,
+  allObjectTypes,
+  users,
+  initial,
+  onCancel,
+  onSave,
+}: {
+  objectType: ObjectTypeWithModules;
+  modules: ModuleRowTyped[];
+  allObjectTypes: ObjectTypeWithModules[];
+  users: { id: string; full_name: string }[];
+  initial: AutomationRuleInput;
+  onCancel: () => void;
+  onSave: (input: AutomationRuleInput) => Promise<ActionResult<{ id: string }>>;
+}) {
+  const router = useRouter();
+  const [rule, setRule] = useState<AutomationRuleInput>(initial);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [relatedModulesJson, setRelatedModulesJson] = useState<Record<number, string>>(() =>
+    Object.fromEntries(
+      initial.actions.map((a, idx) => [
+        idx,
+        a.type === "create_related_object" ? JSON.stringify(a.modules, null, 2) : "{}",
+      ])
+    )
+  );
+
+  // Modules attached to this type, with their schemas
+  const typeModules = objectType.modules
+    .map((m) => modules.find((mod) => mod.id === m.module_id))
+    .filter((m): m is ModuleRowTyped => !!m);
+
+  const fieldRefs = typeModules.flatMap((mod) =>
+    mod.schema.fields.map((f) => ({
+      value: `${mod.name}.${f.key}`,
+      label: `${mod.display_name} › ${f.label}`,
+    }))
+  );
+
+  function setTrigger(partial: Partial<AutomationTrigger>) {
+    setRule((prev) => ({ ...prev, trigger: { ...prev.trigger, ...partial } }));
+  }
+
+  function updateCondition(idx: number, partial: Partial<AutomationCondition>) {
+    setRule((prev) => ({
+      ...prev,
+      conditions: prev.conditions.map((c, i) => (i === idx ? { ...c, ...partial } : c)),
+    }));
+  }
+
+  function updateAction(idx: number, action: AutomationAction) {
+    setRule((prev) => ({
+      ...prev,
+      actions: prev.actions.map((a, i) => (i === idx ? action : a)),
+    }));
+  }
+
+  function removeAction(idx: number) {
+    setRule((prev) => ({ ...prev, actions: prev.actions.filter((_, i) => i !== idx) }));
+    setRelatedModulesJson((prev) =>
+      Object.fromEntries(
+        Object.entries(prev)
+          .filter(([key]) => Number(key) !== idx)
+          .map(([key, json]) => [Number(key) > idx ? Number(key) - 1 : Number(key), json])
+      )
+    );
+  }
+
+  async function handleSave() {
+    setLoading(true);
+    setError(null);
+    try {
+      // Parse the JSON module data of create_related_object actions
+      const actions: AutomationAction[] = [];
+      for (const [idx, action] of rule.actions.entries()) {
+        if (action.type === "create_related_object") {
+          try {
+            actions.push({ ...action, modules: JSON.parse(relatedModulesJson[idx] || "{}") });
+          } catch {
+            setError(`Action ${idx + 1}: module data is not valid JSON`);
+            return;
+          }
+        } else {
+          actions.push(action);
+        }
+      }
+
+      const result = await onSave({ ...rule, actions });
+      if (!result.success) {
+        setError(result.error ?? "Failed to save automation");
+        return;
+      }
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to save automation");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const trigger = rule.trigger;
+  const triggerModule = typeModules.find((m) => m.name === trigger.module);
+
+  return (
+    <div className={clsx(tw.card, "space-y-4")}>
+      {error && <div className={tw.error}>{error}</div>}
+
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        <div>
+          <label className={tw.label}>Name *</label>
+          <input
+            className={tw.input}
+            value={rule.name}
+            onChange={(e) => setRule({ ...rule, name: e.target.value })}
+            placeholder="e.g. Notify on won deals"
+          />
+        </div>
+        <div>
+          <label className={tw.label}>Description</label>
+          <input
+            className={tw.input}
+            value={rule.description ?? ""}
+            onChange={(e) => setRule({ ...rule, description: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+
+      {/* Trigger */}
+      <div>
+        <h4 className="mb-2 text-sm font-semibold text-gray-900 dark:text-white">When</h4>
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+          <select
+            className={tw.input}
+            value={trigger.type}
+            onChange={(e) =>
+              setRule({ ...rule, trigger: { type: e.target.value as AutomationTriggerType } })
+            }
+          >
+            {AutomationTriggerTypes.map((t) => (
+              <option key={t.value} value={t.value}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+
+          {trigger.type === "field_changed" && (
+            <>
+              <select
+                className={tw.input}
+                value={trigger.module ?? ""}
+                onChange={(e) => setTrigger({ module: e.target.value || undefined, field: undefined })}
+              >
+                <option value="">Select module…</option>
+                {typeModules.map((m) => (
+                  <option key={m.id} value={m.name}>
+                    {m.display_name}
+                  </option>
+                ))}
+              </select>
+              <select
+                className={tw.input}
+                value={trigger.field ?? ""}
+                onChange={(e) => setTrigger({ field: e.target.value || undefined })}
+                disabled={!triggerModule}
+              >
+                <option value="">Any field</option>
+                {triggerModule?.schema.fields.map((f) => (
+                  <option key={f.key} value={f.key}>
+                    {f.label}
+                  </option>
+                ))}
+              </select>
+            </>
+          )}
+
+          {trigger.type === "stage_entered" && (
+            <input
+              className={tw.input}
+              value={trigger.stage ?? ""}
+              onChange={(e) => setTrigger({ stage: e.target.value || undefined })}
+              placeholder="Stage value, e.g. won"
+            />
+          )}
+
+          {trigger.type === "relation_added" && (
+            <input
+              className={tw.input}
+              value={trigger.relationType ?? ""}
+              onChange={(e) => setTrigger({ relationType: e.target.value || undefined })}
+              placeholder="Relation type (any if empty)"
+            />
+          )}
+        </div>
+      </div>
+
+      {/* Conditions */}
+      <div>
+        <div className="mb-2 flex items-center justify-between">
+          <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Only if</h4>
+          <button
+            type="button"
+            onClick={() =>
+              setRule({
+                ...rule,
+                conditions: [...rule.conditions, { module: "", field: "", operator: "eq" }],
+              })
+            }
+            className="text-xs font-medium text-blue-600 hover:text-blue-700"
+          >
+            + Add Condition
+          </button>
+        </div>
+        {rule.conditions.length === 0 ? (
+          <p className="text-xs text-gray-400">Always runs when triggered.</p>
+        ) : (
+          <div className="space-y-2">
+            {rule.conditions.map((c, idx) => (
+              <div key={idx} className="flex items-center gap-2">
+                <select
+                  className={tw.input}
+                  value={c.module && c.field ? `${c.module}.${c.field}` : ""}
+                  onChange={(e) => {
+                    const [module, field] = e.target.value.split(".");
+                    updateCondition(idx, { module, field });
+                  }}
+                >
+                  <option value="">Select field…</option>
+                  {fieldRefs.map((ref) => (
+                    <option key={ref.value} value={ref.value}>
+                      {ref.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className={tw.input}
+                  value={c.operator}
+                  onChange={(e) =>
+                    updateCondition(idx, {
+                      operator: e.target.value as AutomationConditionOperator,
+                    })
+                  }
+                >
+                  {OPERATORS.map((op) => (
+                    <option key={op.value} value={op.value}>
+                      {op.label}
+                    </option>
+                  ))}
+                </select>
+                {c.operator !== "is_empty" && c.operator !== "is_not_empty" && (
+                  <input
+                    className={tw.input}
+                    value={String(c.value ?? "")}
+                    onChange={(e) => updateCondition(idx, { value: e.target.value })}
+                    placeholder="Value"
+                  />
+                )}
+                <button
+                  type="button"
+                  onClick={() =>
+                    setRule({
+                      ...rule,
+                      conditions: rule.conditions.filter((_, i) => i !== idx),
+                    })
+                  }
+                  className="rounded p-1 text-gray-400 hover:text-red-600"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Actions */}
+      <div>
+        <div className="mb-2 flex items-center justify-between">
+          <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Then</h4>
+          <button
+            type="button"
+            onClick={() =>
+              setRule({ ...rule, actions: [...rule.actions, defaultAction("add_timeline_note")] })
+            }
+            className="text-xs font-medium text-blue-600 hover:text-blue-700"
+          >
+            + Add Action
+          </button>
+        </div>
+        <div className="space-y-2">
+          {rule.actions.map((action, idx) => (
+            <div
+              key={idx}
+              className="space-y-2 rounded-lg border border-gray-200 p-3 dark:border-gray-800"
+            >
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-medium text-gray-400">{idx + 1}.</span>
+                <select
+                  className={tw.input}
+                  value={action.type}
+                  onChange={(e) =>
+                    updateAction(idx, defaultAction(e.target.value as AutomationActionType))
+                  }
+                >
+                  {AutomationActionTypes.map((t) => (
+                    <option key={t.value} value={t.value}>
+                      {t.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => removeAction(idx)}
+                  className="rounded p-1 text-gray-400 hover:text-red-600"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+
+              {action.type === "set_field" && (
+                <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                  <select
+                    className={tw.input}
+                    value={action.module && action.field ? `${action.module}.${action.field}` : ""}
+                    onChange={(e) => {
+                      const [module, field] = e.target.value.split(".");
+                      updateAction(idx, { ...action, module, field });
+                    }}
+                  >
+                    <option value="">Select field…</option>
+                    {fieldRefs.map((ref) => (
+                      <option key={ref.value} value={ref.value}>
+                        {ref.label}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    className={tw.input}
+                    value={String(action.value ?? "")}
+                    onChange={(e) => updateAction(idx, { ...action, value: e.target.value })}
+                    placeholder="New value"
+                  />
+                </div>
+              )}
+
+              {action.type === "create_related_object" && (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                    <select
+                      className={tw.input}
+                      value={action.objectTypeId}
+                      onChange={(e) =>
+                        updateAction(idx, { ...action, objectTypeId: e.target.value })
+                      }
+                    >
+                      <option value="">Select object type…</option>
+                      {allObjectTypes.map((ot) => (
+                        <option key={ot.id} value={ot.id}>
+                          {ot.display_name}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      className={tw.input}
+                      value={action.relationType}
+                      onChange={(e) =>
+                        updateAction(idx, { ...action, relationType: e.target.value })
+                      }
+                      placeholder="Relation type, e.g. has_task"
+                    />
+                  </div>
+                  <textarea
+                    className={clsx(tw.input, "font-mono text-xs")}
+                    rows={4}
+                    value={relatedModulesJson[idx] ?? "{}"}
+                    onChange={(e) =>
+                      setRelatedModulesJson((prev) => ({ ...prev, [idx]: e.target.value }))
+                    }
+                    placeholder='{ "identity": { "name": "Follow up" } }'
+                  />
+                </div>
+              )}
+
+              {action.type === "add_timeline_note" && (
+                <textarea
+                  className={tw.input}
+                  rows={2}
+                  value={action.note}
+                  onChange={(e) => updateAction(idx, { ...action, note: e.target.value })}
+                  placeholder="Note text"
+                />
+              )}
+
+              {action.type === "assign_owner" && (
+                <select
+                  className={tw.input}
+                  value={action.ownerId}
+                  onChange={(e) => updateAction(idx, { ...action, ownerId: e.target.value })}
+                >
+                  <option value="">Select user…</option>
+                  {users.map((u) => (
+                    <option key={u.id} value={u.id}>
+                      {u.full_name}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between border-t border-gray-200 pt-4 dark:border-gray-800">
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          <input
+            type="checkbox"
+            checked={rule.isActive ?? true}
+            onChange={(e) => setRule({ ...rule, isActive: e.target.checked })}
+          />
+          Active
+        </label>
+        <div className="flex gap-2">
+          <button type="button" onClick={onCancel} className={tw.btnSecondary}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={loading || !rule.name.trim()}
+            className={tw.btnPrimary}
+          >
+            {loading ? "Saving..." : "Save Automation"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
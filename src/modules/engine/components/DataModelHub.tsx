@@ -10,6 +10,10 @@ import { ObjectTypeDetail } from "./ObjectTypeDetail";
 import type { ModuleRowTyped } from "@/modules/engine/types/module.types";
 import type { ObjectTypeWithModules } from "@/modules/engine/types/object.types";
 import type { ObjectTypeRelation } from "@/modules/engine/types/relation.types";
+import type { Workflow } from "@/modules/engine/types/workflow.types";
+import type { AutomationRule } from "@/modules/engine/types/automation.types";
+import type { RollupField } from "@/modules/engine/types/rollup.types";
+import type { DuplicateRule } from "@/modules/engine/types/duplicate.types";
 import {
   Database,
   Box,
@@ -27,6 +31,11 @@ interface Props {
   modules: ModuleRowTyped[];
   objectTypes: ObjectTypeWithModules[];
   relations: ObjectTypeRelation[];
+  workflows: Workflow[];
+  automations: AutomationRule[];
+  rollups: RollupField[];
+  duplicateRules: DuplicateRule[];
+  users: { id: string; full_name: string }[];
 }
 
 type Tab = "objects" | "modules";
@@ -34,7 +43,16 @@ type View = "list" | "detail";
 
 // ── Component ────────────────────────────────
 
-export function DataModelHub({ modules, objectTypes, relations }: Props) {
+export function DataModelHub({
+  modules,
+  objectTypes,
+  relations,
+  workflows,
+  automations,
+  rollups,
+  duplicateRules,
+  users,
+}: Props) {
   const router = useRouter();
   const [activeTab, setActiveTab] = useState<Tab>("objects");
   const [view, setView] = useState<View>("list");
@@ -87,6 +105,13 @@ export function DataModelHub({ modules, objectTypes, relations }: Props) {
         modules={modules}
         relations={getRelationsForType(selectedObjectType.id)}
         allObjectTypes={objectTypes}
+        workflow={
+          workflows.find((w) => w.objectTypeId === selectedObjectType.id) ?? null
+        }
+        automations={automations.filter((a) => a.objectTypeId === selectedObjectType.id)}
+        rollups={rollups.filter((r) => r.objectTypeId === selectedObjectType.id)}
+        duplicateRules={duplicateRules.filter((r) => r.objectTypeId === selectedObjectType.id)}
+        users={users}
         onBack={backToList}
       />
     );
@@ -186,7 +211,7 @@ export function DataModelHub({ modules, objectTypes, relations }: Props) {
         </div>
       )}
 
-      {activeTab === "modules" && <ModuleManager modules={modules} />}
+      {activeTab === "modules" && <ModuleManager modules={modules} objectTypes={objectTypes} />}
     </div>
   );
 }
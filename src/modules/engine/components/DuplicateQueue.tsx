@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Copy, GitMerge, RefreshCw, X } from "lucide-react";
+import {
+  dismissDuplicateAction,
+  scanDuplicatesAction,
+} from "@/modules/engine/actions/duplicate.actions";
+import type { DuplicateCandidate } from "@/modules/engine/types/duplicate.types";
+
+interface Props {
+  candidates: DuplicateCandidate[];
+}
+
+/**
+ * Open duplicate pairs, with scan, dismiss and a link to the merge tool.
+ */
+export function DuplicateQueue({ candidates }: Props) {
+  const router = useRouter();
+  const [typeFilter, setTypeFilter] = useState<string>("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const typeNames = [...new Set(candidates.map((c) => c.objectTypeName))].sort();
+  const visible = typeFilter
+    ? candidates.filter((c) => c.objectTypeName === typeFilter)
+    : candidates;
+
+  async function handleScan() {
+    setError(null);
+    setNotice(null);
+    setScanning(true);
+    try {
+      const result = await scanDuplicatesAction();
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      setNotice(
+        `Scanned ${result.data.objectsScanned} objects · ${result.data.pairsFlagged} new pair${
+          result.data.pairsFlagged === 1 ? "" : "s"
+        }`
+      );
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to scan for duplicates");
+    } finally {
+      setScanning(false);
+    }
+  }
+
+  async function handleDismiss(candidate: DuplicateCandidate) {
+    setError(null);
+    setBusyId(candidate.id);
+    try {
+      const result = await dismissDuplicateAction(candidate.id);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to dismiss duplicate");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value)}
+          className="rounded-lg border border-gray-300 px-2 py-1.5 text-sm dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+        >
+          <option value="">All types ({candidates.length})</option>
+          {typeNames.map((name) => (
+            <option key={name} value={name}>
+              {name} ({candidates.filter((c) => c.objectTypeName === name).length})
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleScan}
+          disabled={scanning}
+          className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-800"
+        >
+          <RefreshCw size={12} className={scanning ? "animate-spin" : undefined} />
+          {scanning ? "Scanning…" : "Scan now"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600 dark:bg-red-950 dark:text-red-400">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="rounded-lg bg-green-50 p-3 text-sm text-green-700 dark:bg-green-950 dark:text-green-400">
+          {notice}
+        </div>
+      )}
+
+      {visible.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-gray-300 p-10 text-center dark:border-gray-700">
+          <Copy size={28} className="mx-auto text-gray-300 dark:text-gray-600" />
+          <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+            No duplicates to review. Add duplicate rules to an object type in the data model.
+          </p>
+        </div>
+      ) : (
+        <ul className="rounded-xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-gray-900">
+          {visible.map((candidate) => (
+            <li
+              key={candidate.id}
+              className="flex items-center justify-between gap-4 border-b border-gray-100 px-4 py-3 last:border-0 dark:border-gray-800/50"
+            >
+              <div className="min-w-0">
+                <p className="truncate text-sm font-medium text-gray-900 dark:text-white">
+                  <Link href={`/objects/${candidate.objectA.id}`} className="hover:underline">
+                    {candidate.objectA.displayName}
+                  </Link>
+                  <span className="mx-2 text-gray-400">≈</span>
+                  <Link href={`/objects/${candidate.objectB.id}`} className="hover:underline">
+                    {candidate.objectB.displayName}
+                  </Link>
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {candidate.objectTypeName} · {Math.round(candidate.score * 100)}% match
+                  {candidate.ruleName && ` · ${candidate.ruleName}`}
+                </p>
+              </div>
+              <div className="flex flex-shrink-0 items-center gap-2">
+                <Link
+                  href={`/duplicates/${candidate.id}`}
+                  className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-800"
+                >
+                  <GitMerge size={12} />
+                  Review &amp; merge
+                </Link>
+                <button
+                  onClick={() => handleDismiss(candidate)}
+                  disabled={busyId === candidate.id}
+                  className="inline-flex items-center gap-1 rounded-lg px-3 py-1.5 text-xs font-medium text-gray-500 hover:bg-gray-100 disabled:opacity-50 dark:text-gray-400 dark:hover:bg-gray-800"
+                >
+                  <X size={12} />
+                  Not a duplicate
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,360 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { clsx } from "clsx";
+import { tw } from "./DynamicField";
+import {
+  createDuplicateRuleAction,
+  updateDuplicateRuleAction,
+  deleteDuplicateRuleAction,
+} from "@/modules/engine/actions/duplicate.actions";
+import type { ModuleRowTyped } from "@/modules/engine/types/module.types";
+import type { ObjectTypeWithModules } from "@/modules/engine/types/object.types";
+import type {
+  DuplicateMatch,
+  DuplicateRule,
+  DuplicateRuleInput,
+} from "@/modules/engine/types/duplicate.types";
+import { DuplicateMatches } from "@/modules/engine/types/duplicate.types";
+import { Copy, Pencil, Plus, Trash2, X } from "lucide-react";
+
+// ── Types ────────────────────────────────────
+
+interface Props {
+  objectType: ObjectTypeWithModules;
+  modules: ModuleRowTyped[];
+  rules: DuplicateRule[];
+}
+
+const EMPTY_RULE: DuplicateRuleInput = {
+  name: "",
+  matchKeys: [{ moduleName: "", fieldKey: "", match: "exact" }],
+  threshold: 0.85,
+  isActive: true,
+};
+
+/** Default match for a field type */
+function defaultMatch(fieldType: string): DuplicateMatch {
+  if (fieldType === "email") return "email";
+  if (fieldType === "phone") return "phone";
+  return fieldType === "text" ? "fuzzy" : "exact";
+}
+
+// ── Component ────────────────────────────────
+
+export function DuplicateRuleManager({ objectType, modules, rules }: Props) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | "new" | null>(null);
+
+  function describeRule(rule: DuplicateRule): string {
+    const keys = rule.matchKeys.map((k) => {
+      const match = DuplicateMatches.find((m) => m.value === k.match)?.label ?? k.match;
+      return `${k.moduleName}.${k.fieldKey} (${match})`;
+    });
+    const fuzzy = rule.matchKeys.some((k) => k.match === "fuzzy");
+    return `${keys.join(" + ")}${fuzzy ? ` · ${Math.round(rule.threshold * 100)}% similar` : ""}`;
+  }
+
+  async function handleToggle(rule: DuplicateRule) {
+    setError(null);
+    try {
+      const result = await updateDuplicateRuleAction(rule.id, {
+        name: rule.name,
+        matchKeys: rule.matchKeys,
+        threshold: rule.threshold,
+        isActive: !rule.isActive,
+      });
+      if (!result.success) {
+        setError(result.error ?? "Failed to update duplicate rule");
+        return;
+      }
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to update duplicate rule");
+    }
+  }
+
+  async function handleDelete(rule: DuplicateRule) {
+    if (!confirm(`Delete duplicate rule "${rule.name}"?`)) return;
+    setError(null);
+    try {
+      const result = await deleteDuplicateRuleAction(rule.id);
+      if (!result.success) {
+        setError(result.error ?? "Failed to delete duplicate rule");
+        return;
+      }
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to delete duplicate rule");
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Flag {objectType.display_name} records that match on every key of a rule. Flagged
+          pairs go to the duplicates queue for review.
+        </p>
+        {editingId === null && objectType.modules.length > 0 && (
+          <button type="button" onClick={() => setEditingId("new")} className={tw.btnPrimary}>
+            <Plus size={14} className="mr-1 inline" />
+            New Rule
+          </button>
+        )}
+      </div>
+
+      {error && <div className={tw.error}>{error}</div>}
+
+      {editingId === "new" && (
+        <DuplicateRuleEditor
+          objectType={objectType}
+          modules={modules}
+          initial={EMPTY_RULE}
+          onCancel={() => setEditingId(null)}
+          onSave={async (input) => {
+            const result = await createDuplicateRuleAction(objectType.id, input);
+            if (result.success) setEditingId(null);
+            return result;
+          }}
+        />
+      )}
+
+      {rules.length === 0 && editingId !== "new" ? (
+        <div className={tw.card}>
+          <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+            No duplicate rules yet.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule) =>
+            editingId === rule.id ? (
+              <DuplicateRuleEditor
+                key={rule.id}
+                objectType={objectType}
+                modules={modules}
+                initial={{
+                  name: rule.name,
+                  matchKeys: rule.matchKeys,
+                  threshold: rule.threshold,
+                  isActive: rule.isActive,
+                }}
+                onCancel={() => setEditingId(null)}
+                onSave={async (input) => {
+                  const result = await updateDuplicateRuleAction(rule.id, input);
+                  if (result.success) setEditingId(null);
+                  return result;
+                }}
+              />
+            ) : (
+              <div
+                key={rule.id}
+                className={clsx(tw.card, "flex items-center gap-3", !rule.isActive && "opacity-60")}
+              >
+                <Copy size={16} className="shrink-0 text-amber-500" />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    {rule.name}
+                    {!rule.isActive && (
+                      <span className="ml-2 text-xs font-normal text-gray-400">Paused</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{describeRule(rule)}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleToggle(rule)}
+                  className="rounded px-2 py-1 text-xs text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800"
+                >
+                  {rule.isActive ? "Pause" : "Resume"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setEditingId(rule.id)}
+                  className="rounded p-1 text-gray-400 hover:text-blue-600"
+                >
+                  <Pencil size={14} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(rule)}
+                  className="rounded p-1 text-gray-400 hover:text-red-600"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ── Rule Editor ──────────────────────────────
+
+function DuplicateRuleEditor({
+  objectType,
+  modules,
+  initial,
+  onCancel,
+  onSave,
+}: {
+  objectType: ObjectTypeWithModules;
+  modules: ModuleRowTyped[];
+  initial: DuplicateRuleInput;
+  onCancel: () => void;
+  onSave: (input: DuplicateRuleInput) => Promise<ActionResult<{ id: string }>>;
+}) {
+  const router = useRouter();
+  const [rule, setRule] = useState<DuplicateRuleInput>(initial);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Fields of the type's modules that can be matched
+  const fieldOptions = objectType.modules
+    .map((m) => modules.find((mod) => mod.id === m.module_id))
+    .filter((m): m is ModuleRowTyped => !!m)
+    .flatMap((mod) =>
+      mod.schema.fields
+        .filter((f) => f.type !== "formula" && f.type !== "relation")
+        .map((f) => ({
+          value: `${mod.name}.${f.key}`,
+          label: `${mod.display_name} › ${f.label}`,
+          type: f.type,
+        }))
+    );
+
+  function setKey(index: number, patch: Partial<DuplicateRuleInput["matchKeys"][number]>) {
+    setRule({
+      ...rule,
+      matchKeys: rule.matchKeys.map((k, i) => (i === index ? { ...k, ...patch } : k)),
+    });
+  }
+
+  async function handleSave() {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await onSave(rule);
+      if (!result.success) {
+        setError(result.error ?? "Failed to save duplicate rule");
+        return;
+      }
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to save duplicate rule");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const hasFuzzy = rule.matchKeys.some((k) => k.match === "fuzzy");
+
+  return (
+    <div className={clsx(tw.card, "space-y-4")}>
+      {error && <div className={tw.error}>{error}</div>}
+
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        <div>
+          <label className={tw.label}>Name *</label>
+          <input
+            className={tw.input}
+            value={rule.name}
+            onChange={(e) => setRule({ ...rule, name: e.target.value })}
+            placeholder="e.g. Same email"
+          />
+        </div>
+        {hasFuzzy && (
+          <div>
+            <label className={tw.label}>Fuzzy similarity (%)</label>
+            <input
+              type="number"
+              min={50}
+              max={100}
+              className={tw.input}
+              value={Math.round((rule.threshold ?? 0.85) * 100)}
+              onChange={(e) => setRule({ ...rule, threshold: Number(e.target.value) / 100 })}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label className={tw.label}>Match keys — all must agree</label>
+        {rule.matchKeys.map((key, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <select
+              className={tw.input}
+              value={key.moduleName && key.fieldKey ? `${key.moduleName}.${key.fieldKey}` : ""}
+              onChange={(e) => {
+                const option = fieldOptions.find((f) => f.value === e.target.value);
+                const [moduleName, fieldKey] = e.target.value.split(".");
+                setKey(index, {
+                  moduleName: moduleName ?? "",
+                  fieldKey: fieldKey ?? "",
+                  match: option ? defaultMatch(option.type) : key.match,
+                });
+              }}
+            >
+              <option value="">Select field…</option>
+              {fieldOptions.map((f) => (
+                <option key={f.value} value={f.value}>
+                  {f.label}
+                </option>
+              ))}
+            </select>
+            <select
+              className={clsx(tw.input, "max-w-[12rem]")}
+              value={key.match}
+              onChange={(e) => setKey(index, { match: e.target.value as DuplicateMatch })}
+            >
+              {DuplicateMatches.map((m) => (
+                <option key={m.value} value={m.value}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+            {rule.matchKeys.length > 1 && (
+              <button
+                type="button"
+                onClick={() =>
+                  setRule({ ...rule, matchKeys: rule.matchKeys.filter((_, i) => i !== index) })
+                }
+                className="rounded p-1 text-gray-400 hover:text-red-600"
+              >
+                <X size={14} />
+              </button>
+            )}
+          </div>
+        ))}
+        {rule.matchKeys.length < 5 && (
+          <button
+            type="button"
+            onClick={() =>
+              setRule({
+                ...rule,
+                matchKeys: [...rule.matchKeys, { moduleName: "", fieldKey: "", match: "exact" }],
+              })
+            }
+            className="text-xs font-medium text-blue-600 hover:underline"
+          >
+            + Add key
+          </button>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className={tw.btnSecondary}>
+          Cancel
+        </button>
+        <button type="button" onClick={handleSave} disabled={loading} className={tw.btnPrimary}>
+          {loading ? "Saving..." : "Save Rule"}
+        </button>
+      </div>
+    </div>
+  );
+}
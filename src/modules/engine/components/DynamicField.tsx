@@ -1,6 +1,7 @@
 "use client";
 
 import type { ModuleFieldDef, SelectOption } from "@/modules/engine/types/module.types";
+import { ObjectPicker } from "./ObjectPicker";
 
 /**
  * Common Tailwind classes shared across the engine UI.
@@ -29,183 +30,174 @@ interface DynamicFieldProps {
   value: unknown;
   onChange: (key: string, value: unknown) => void;
   disabled?: boolean;
+  /** Render only the control, without its label (inline editors) */
+  bare?: boolean;
 }
 
 /**
  * Renders an appropriate input control based on the module field definition.
  */
-export function DynamicField({ field, value, onChange, disabled }: DynamicFieldProps) {
+export function DynamicField({ field, value, onChange, disabled, bare }: DynamicFieldProps) {
   const id = `field-${field.key}`;
 
   const handleChange = (val: unknown) => onChange(field.key, val);
 
+  const labeled = (control: React.ReactNode, htmlFor?: string) =>
+    bare ? (
+      control
+    ) : (
+      <div>
+        <label htmlFor={htmlFor} className={tw.label}>
+          {field.label}
+          {field.required && " *"}
+        </label>
+        {control}
+      </div>
+    );
+
   switch (field.type) {
     case "text":
     case "email":
     case "phone":
     case "url":
-      return (
-        <div>
-          <label htmlFor={id} className={tw.label}>
-            {field.label}
-            {field.required && " *"}
-          </label>
-          <input
-            id={id}
-            type={field.type === "phone" ? "tel" : field.type === "url" ? "url" : field.type}
-            value={String(value ?? "")}
-            onChange={(e) => handleChange(e.target.value)}
-            required={field.required}
-            disabled={disabled}
-            className={tw.input}
-          />
-        </div>
+      return labeled(
+        <input
+          id={id}
+          type={field.type === "phone" ? "tel" : field.type === "url" ? "url" : field.type}
+          value={String(value ?? "")}
+          onChange={(e) => handleChange(e.target.value)}
+          required={field.required}
+          disabled={disabled}
+          className={tw.input}
+        />,
+        id
       );
 
     case "number":
-      return (
-        <div>
-          <label htmlFor={id} className={tw.label}>
-            {field.label}
-            {field.required && " *"}
-          </label>
-          <input
-            id={id}
-            type="number"
-            value={value != null ? String(value) : ""}
-            onChange={(e) =>
-              handleChange(e.target.value === "" ? null : Number(e.target.value))
-            }
-            required={field.required}
-            min={field.min}
-            max={field.max}
-            step="any"
-            disabled={disabled}
-            className={tw.input}
-          />
-        </div>
+      return labeled(
+        <input
+          id={id}
+          type="number"
+          value={value != null ? String(value) : ""}
+          onChange={(e) =>
+            handleChange(e.target.value === "" ? null : Number(e.target.value))
+          }
+          required={field.required}
+          min={field.min}
+          max={field.max}
+          step="any"
+          disabled={disabled}
+          className={tw.input}
+        />,
+        id
       );
 
     case "date":
-      return (
-        <div>
-          <label htmlFor={id} className={tw.label}>
-            {field.label}
-            {field.required && " *"}
-          </label>
-          <input
-            id={id}
-            type="date"
-            value={String(value ?? "")}
-            onChange={(e) => handleChange(e.target.value || null)}
-            required={field.required}
-            disabled={disabled}
-            className={tw.input}
-          />
-        </div>
+      return labeled(
+        <input
+          id={id}
+          type="date"
+          value={String(value ?? "")}
+          onChange={(e) => handleChange(e.target.value || null)}
+          required={field.required}
+          disabled={disabled}
+          className={tw.input}
+        />,
+        id
       );
 
     case "datetime":
-      return (
-        <div>
-          <label htmlFor={id} className={tw.label}>
-            {field.label}
-            {field.required && " *"}
-          </label>
-          <input
-            id={id}
-            type="datetime-local"
-            value={String(value ?? "")}
-            onChange={(e) => handleChange(e.target.value || null)}
-            required={field.required}
-            disabled={disabled}
-            className={tw.input}
-          />
-        </div>
+      return labeled(
+        <input
+          id={id}
+          type="datetime-local"
+          value={String(value ?? "")}
+          onChange={(e) => handleChange(e.target.value || null)}
+          required={field.required}
+          disabled={disabled}
+          className={tw.input}
+        />,
+        id
       );
 
     case "textarea":
-      return (
-        <div>
-          <label htmlFor={id} className={tw.label}>
-            {field.label}
-            {field.required && " *"}
-          </label>
-          <textarea
-            id={id}
-            value={String(value ?? "")}
-            onChange={(e) => handleChange(e.target.value)}
-            required={field.required}
-            disabled={disabled}
-            rows={3}
-            className={tw.input}
-          />
-        </div>
+      return labeled(
+        <textarea
+          id={id}
+          value={String(value ?? "")}
+          onChange={(e) => handleChange(e.target.value)}
+          required={field.required}
+          disabled={disabled}
+          rows={3}
+          className={tw.input}
+        />,
+        id
       );
 
     case "select":
-      return (
-        <div>
-          <label htmlFor={id} className={tw.label}>
-            {field.label}
-            {field.required && " *"}
-          </label>
-          <select
-            id={id}
-            value={String(value ?? "")}
-            onChange={(e) => handleChange(e.target.value || null)}
-            required={field.required}
-            disabled={disabled}
-            className={tw.input}
-          >
-            <option value="">— Select —</option>
-            {(field.options ?? []).map((opt: SelectOption) => (
-              <option key={opt.value} value={opt.value}>
-                {opt.label}
-              </option>
-            ))}
-          </select>
-        </div>
+      return labeled(
+        <select
+          id={id}
+          value={String(value ?? "")}
+          onChange={(e) => handleChange(e.target.value || null)}
+          required={field.required}
+          disabled={disabled}
+          className={tw.input}
+        >
+          <option value="">— Select —</option>
+          {(field.options ?? []).map((opt: SelectOption) => (
+            <option key={opt.value} value={opt.value}>
+              {opt.label}
+            </option>
+          ))}
+        </select>,
+        id
       );
 
     case "multiselect":
-      return (
-        <div>
-          <label className={tw.label}>
-            {field.label}
-            {field.required && " *"}
-          </label>
-          <div className="flex flex-wrap gap-2">
-            {(field.options ?? []).map((opt: SelectOption) => {
-              const selected = Array.isArray(value) && value.includes(opt.value);
-              return (
-                <button
-                  key={opt.value}
-                  type="button"
-                  disabled={disabled}
-                  onClick={() => {
-                    const current = Array.isArray(value) ? [...value] : [];
-                    if (selected) {
-                      handleChange(current.filter((v) => v !== opt.value));
-                    } else {
-                      handleChange([...current, opt.value]);
-                    }
-                  }}
-                  className={`rounded-full border px-3 py-1 text-xs font-medium transition ${
-                    selected
-                      ? "border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-950 dark:text-blue-300"
-                      : "border-gray-300 text-gray-600 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-gray-800"
-                  }`}
-                >
-                  {opt.label}
-                </button>
-              );
-            })}
-          </div>
+      return labeled(
+        <div className="flex flex-wrap gap-2">
+          {(field.options ?? []).map((opt: SelectOption) => {
+            const selected = Array.isArray(value) && value.includes(opt.value);
+            return (
+              <button
+                key={opt.value}
+                type="button"
+                disabled={disabled}
+                onClick={() => {
+                  const current = Array.isArray(value) ? [...value] : [];
+                  if (selected) {
+                    handleChange(current.filter((v) => v !== opt.value));
+                  } else {
+                    handleChange([...current, opt.value]);
+                  }
+                }}
+                className={`rounded-full border px-3 py-1 text-xs font-medium transition ${
+                  selected
+                    ? "border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-950 dark:text-blue-300"
+                    : "border-gray-300 text-gray-600 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-gray-800"
+                }`}
+              >
+                {opt.label}
+              </button>
+            );
+          })}
         </div>
       );
 
     case "boolean":
+      if (bare) {
+        return (
+          <input
+            id={id}
+            type="checkbox"
+            checked={Boolean(value)}
+            onChange={(e) => handleChange(e.target.checked)}
+            disabled={disabled}
+            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800"
+          />
+        );
+      }
       return (
         <div className="flex items-center gap-2">
           <input
@@ -222,6 +214,32 @@ export function DynamicField({ field, value, onChange, disabled }: DynamicFieldP
         </div>
       );
 
+    case "formula":
+      // Computed on read: shown, never edited
+      return (
+        <div>
+          <label className={tw.label}>{field.label}</label>
+          <div className="rounded-lg border border-dashed border-gray-300 px-3 py-2 text-sm text-gray-600 dark:border-gray-700 dark:text-gray-400">
+            {value == null || value === ""
+              ? "Computed"
+              : field.resultType === "boolean"
+                ? value ? "Yes" : "No"
+                : String(value)}
+          </div>
+        </div>
+      );
+
+    case "relation":
+      return (
+        <ObjectPicker
+          field={field}
+          value={value}
+          onChange={handleChange}
+          disabled={disabled}
+          bare={bare}
+        />
+      );
+
     default:
       return (
         <div>
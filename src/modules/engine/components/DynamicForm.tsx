@@ -8,13 +8,21 @@ interface DynamicFormProps {
   data: Record<string, unknown>;
   onChange: (data: Record<string, unknown>) => void;
   disabled?: boolean;
+  /** Keys of fields shown but not editable */
+  readOnlyFields?: string[];
 }
 
 /**
  * Renders a full form for a single module by mapping its schema fields
  * to DynamicField controls. Manages a flat key-value data object.
  */
-export function DynamicForm({ schema, data, onChange, disabled }: DynamicFormProps) {
+export function DynamicForm({
+  schema,
+  data,
+  onChange,
+  disabled,
+  readOnlyFields = [],
+}: DynamicFormProps) {
   function handleFieldChange(key: string, value: unknown) {
     onChange({ ...data, [key]: value });
   }
@@ -27,7 +35,7 @@ export function DynamicForm({ schema, data, onChange, disabled }: DynamicFormPro
           field={field}
           value={data[field.key]}
           onChange={handleFieldChange}
-          disabled={disabled}
+          disabled={disabled || readOnlyFields.includes(field.key)}
         />
       ))}
     </div>
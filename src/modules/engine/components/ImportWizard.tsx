@@ -0,0 +1,399 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Upload, CheckCircle2, AlertTriangle, Download } from "lucide-react";
+import { tw } from "./DynamicField";
+import { parseCsv, toCsv } from "@/lib/utils/csv";
+import type { ObjectTypeWithSchemas } from "@/modules/engine/types/object.types";
+import type {
+  ImportColumnMapping,
+  ImportFormat,
+  ImportResult,
+} from "@/modules/engine/types/import.types";
+
+interface Props {
+  objectTypes: ObjectTypeWithSchemas[];
+  /** Pre-select an object type (e.g. from ?type= query param) */
+  initialTypeId?: string;
+}
+
+type Step = "upload" | "map" | "done";
+
+/** Rows shown in the preview table */
+const PREVIEW_ROWS = 5;
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Bulk import wizard.
+ *
+ * 1. User picks an object type and a CSV/JSON file (parsed in the browser)
+ * 2. Columns are mapped to module fields (auto-suggested by name) and an
+ *    optional dedupe key is chosen
+ * 3. A dry run validates every row; the import then commits valid rows
+ * 4. Row errors can be downloaded as a CSV report
+ */
+export function ImportWizard({ objectTypes, initialTypeId }: Props) {
+  const router = useRouter();
+  const [step, setStep] = useState<Step>("upload");
+  const [typeId, setTypeId] = useState(initialTypeId ?? "");
+  const [fileName, setFileName] = useState("");
+  const [columns, setColumns] = useState<string[]>([]);
+  const [rows, setRows] = useState<Record<string, unknown>[]>([]);
+  // Column header → "module.field" ("" = skip)
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [dedupe, setDedupe] = useState("");
+  const [validation, setValidation] = useState<ImportResult | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedType = objectTypes.find((t) => t.id === typeId);
+  const fieldOptions = (selectedType?.modules ?? []).flatMap((m) =>
+    m.schema.fields
+      .filter((f) => f.type !== "formula" && f.type !== "relation")
+      .map((f) => ({
+        value: `${m.module_name}.${f.key}`,
+        label: `${m.display_name} → ${f.label}${f.required ? " *" : ""}`,
+        match: [normalize(f.key), normalize(f.label)],
+      }))
+  );
+
+  const mappings: ImportColumnMapping[] = Object.entries(targets)
+    .filter(([, target]) => target)
+    .map(([column, target]) => {
+      const [module, field] = target.split(".");
+      return { column, module, field };
+    });
+
+  function suggestTargets(cols: string[]): Record<string, string> {
+    const used = new Set<string>();
+    const suggested: Record<string, string> = {};
+    for (const col of cols) {
+      const key = normalize(col);
+      const option = fieldOptions.find(
+        (o) => !used.has(o.value) && (o.match.includes(key) || normalize(o.value) === key)
+      );
+      suggested[col] = option?.value ?? "";
+      if (option) used.add(option.value);
+    }
+    return suggested;
+  }
+
+  async function handleFile(file: File) {
+    setError(null);
+    const text = await file.text();
+    const format: ImportFormat = file.name.toLowerCase().endsWith(".json") ? "json" : "csv";
+
+    try {
+      let parsedColumns: string[];
+      let parsedRows: Record<string, unknown>[];
+
+      if (format === "json") {
+        const data = JSON.parse(text);
+        if (!Array.isArray(data)) throw new Error("JSON file must contain an array of objects");
+        parsedRows = data;
+        parsedColumns = [...new Set(data.flatMap((r) => Object.keys(r ?? {})))];
+      } else {
+        const parsed = parseCsv(text);
+        parsedColumns = parsed.columns;
+        parsedRows = parsed.rows;
+      }
+
+      if (parsedRows.length === 0) throw new Error("The file contains no rows");
+
+      setFileName(file.name);
+      setColumns(parsedColumns);
+      setRows(parsedRows);
+      setTargets(suggestTargets(parsedColumns));
+      setDedupe("");
+      setValidation(null);
+      setStep("map");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read file");
+    }
+  }
+
+  async function runImport(dryRun: boolean) {
+    setError(null);
+    setLoading(true);
+    try {
+      const [dedupeModule, dedupeField] = dedupe.split(".");
+      const res = await fetch("/api/objects/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          objectTypeId: typeId,
+          rows,
+          mappings,
+          dedupeKey: dedupe ? { module: dedupeModule, field: dedupeField } : undefined,
+          dryRun,
+          fileName,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(json.error ?? "Import failed");
+        return;
+      }
+
+      if (dryRun) {
+        setValidation(json);
+      } else {
+        setResult(json);
+        setStep("done");
+        router.refresh();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function downloadReport(report: ImportResult) {
+    const csv = toCsv(
+      ["row", "column", "message"],
+      report.errors.map((e) => ({ ...e }))
+    );
+    const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `import-errors-${fileName.replace(/\.[^.]+$/, "") || "file"}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  function reset() {
+    setStep("upload");
+    setColumns([]);
+    setRows([]);
+    setTargets({});
+    setValidation(null);
+    setResult(null);
+    setError(null);
+  }
+
+  // ── Step 1: upload ──
+  if (step === "upload") {
+    return (
+      <div className={`${tw.card} space-y-4`}>
+        {error && <div className={tw.error}>{error}</div>}
+        <div>
+          <label className={tw.label}>Object type</label>
+          <select
+            value={typeId}
+            onChange={(e) => setTypeId(e.target.value)}
+            className={tw.input}
+          >
+            <option value="">Select a type…</option>
+            {objectTypes.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.display_name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={tw.label}>File (CSV or JSON array)</label>
+          <label
+            className={`flex cursor-pointer flex-col items-center gap-2 rounded-lg border-2 border-dashed border-gray-300 p-6 text-sm text-gray-500 hover:border-blue-400 dark:border-gray-700 dark:text-gray-400 ${
+              !typeId ? "pointer-events-none opacity-50" : ""
+            }`}
+          >
+            <Upload size={20} />
+            Choose a file to upload
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              disabled={!typeId}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+      </div>
+    );
+  }
+
+  // ── Step 3: done ──
+  if (step === "done" && result) {
+    return (
+      <div className={`${tw.card} space-y-4`}>
+        <div className="flex items-center gap-2 text-green-600 dark:text-green-400">
+          <CheckCircle2 size={18} />
+          <span className="font-medium">
+            Imported {result.created} of {result.total} rows
+          </span>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {result.skipped} skipped as duplicates, {result.failed} failed validation.
+        </p>
+        <div className="flex gap-2">
+          {result.errors.length > 0 && (
+            <button onClick={() => downloadReport(result)} className={tw.btnSecondary}>
+              <Download size={14} className="mr-1 inline" />
+              Download error report
+            </button>
+          )}
+          <button onClick={reset} className={tw.btnSecondary}>
+            Import another file
+          </button>
+          <button
+            onClick={() => router.push(`/objects?type=${typeId}`)}
+            className={tw.btnPrimary}
+          >
+            View objects
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // ── Step 2: map ──
+  return (
+    <div className="space-y-4">
+      {error && <div className={tw.error}>{error}</div>}
+
+      <div className={tw.card}>
+        <div className="mb-3 flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-gray-900 dark:text-white">
+            Map columns — {fileName} ({rows.length} rows)
+          </h2>
+          <button onClick={reset} className="text-xs text-gray-500 hover:underline">
+            Choose another file
+          </button>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-800">
+                <th className="py-2 pr-4 font-medium text-gray-500 dark:text-gray-400">Column</th>
+                <th className="py-2 pr-4 font-medium text-gray-500 dark:text-gray-400">Sample</th>
+                <th className="py-2 font-medium text-gray-500 dark:text-gray-400">Field</th>
+              </tr>
+            </thead>
+            <tbody>
+              {columns.map((col) => (
+                <tr key={col} className="border-b border-gray-100 last:border-0 dark:border-gray-800/50">
+                  <td className="py-2 pr-4 font-medium text-gray-700 dark:text-gray-300">{col}</td>
+                  <td className="max-w-48 truncate py-2 pr-4 text-gray-500 dark:text-gray-400">
+                    {rows
+                      .slice(0, PREVIEW_ROWS)
+                      .map((r) => r[col])
+                      .filter((v) => v !== undefined && v !== "")
+                      .map(String)
+                      .join(", ")}
+                  </td>
+                  <td className="py-2">
+                    <select
+                      value={targets[col] ?? ""}
+                      onChange={(e) => {
+                        setTargets({ ...targets, [col]: e.target.value });
+                        setValidation(null);
+                      }}
+                      className={tw.input}
+                    >
+                      <option value="">— Skip —</option>
+                      {fieldOptions.map((o) => (
+                        <option
+                          key={o.value}
+                          value={o.value}
+                          disabled={Object.entries(targets).some(
+                            ([c, t]) => c !== col && t === o.value
+                          )}
+                        >
+                          {o.label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className={tw.card}>
+        <label className={tw.label}>Skip duplicates by</label>
+        <select
+          value={dedupe}
+          onChange={(e) => {
+            setDedupe(e.target.value);
+            setValidation(null);
+          }}
+          className={tw.input}
+        >
+          <option value="">Don&apos;t check for duplicates</option>
+          {mappings.map((m) => (
+            <option key={`${m.module}.${m.field}`} value={`${m.module}.${m.field}`}>
+              {fieldOptions.find((o) => o.value === `${m.module}.${m.field}`)?.label} ({m.column})
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Rows matching an existing record or an earlier row (case-insensitive) are skipped.
+        </p>
+      </div>
+
+      {validation && (
+        <div className={`${tw.card} space-y-2`}>
+          <div className="flex items-center gap-2 text-sm">
+            {validation.failed === 0 ? (
+              <CheckCircle2 size={16} className="text-green-600" />
+            ) : (
+              <AlertTriangle size={16} className="text-amber-500" />
+            )}
+            <span className="text-gray-700 dark:text-gray-300">
+              {validation.created} ready to import, {validation.skipped} duplicates,{" "}
+              {validation.failed} with errors.
+            </span>
+          </div>
+          {validation.errors.length > 0 && (
+            <>
+              <ul className="max-h-48 space-y-1 overflow-y-auto text-xs text-gray-600 dark:text-gray-400">
+                {validation.errors.slice(0, 50).map((e, i) => (
+                  <li key={i}>
+                    Row {e.row}
+                    {e.column && ` (${e.column})`}: {e.message}
+                  </li>
+                ))}
+              </ul>
+              <button onClick={() => downloadReport(validation)} className={tw.btnSecondary}>
+                <Download size={14} className="mr-1 inline" />
+                Download error report
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={() => runImport(true)}
+          disabled={loading || mappings.length === 0}
+          className={tw.btnSecondary}
+        >
+          {loading ? "Working…" : "Validate (dry run)"}
+        </button>
+        <button
+          onClick={() => runImport(false)}
+          disabled={loading || !validation || validation.created === 0}
+          className={tw.btnPrimary}
+        >
+          Import {validation ? validation.created : ""} rows
+        </button>
+      </div>
+    </div>
+  );
+}
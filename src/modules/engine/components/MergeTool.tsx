@@ -0,0 +1,244 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { clsx } from "clsx";
+import { ArrowLeftRight, GitMerge } from "lucide-react";
+import { tw } from "./DynamicField";
+import { mergeObjectsAction } from "@/modules/engine/actions/duplicate.actions";
+import type { DuplicateCandidate, MergeSource } from "@/modules/engine/types/duplicate.types";
+import type { ObjectWithModules } from "@/modules/engine/types/object.types";
+import type { AttachedModule } from "@/modules/engine/types/module.types";
+
+interface Props {
+  candidate: DuplicateCandidate;
+  objects: [ObjectWithModules, ObjectWithModules];
+}
+
+type MergeRow = {
+  moduleName: string;
+  fieldKey: string;
+  label: string;
+  survivorValue: unknown;
+  loserValue: unknown;
+  locked: boolean;
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.length > 0 ? value.map(String).join(", ") : "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (isEmpty(a) && isEmpty(b)) return true;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Fields that differ between the two objects, for modules both have */
+function buildRows(survivor: ObjectWithModules, loser: ObjectWithModules): MergeRow[] {
+  const rows: MergeRow[] = [];
+  for (const mod of survivor.modules) {
+    const other = loser.modules.find((m) => m.moduleName === mod.moduleName);
+    if (!other) continue;
+    for (const field of mod.schema.fields) {
+      if (field.type === "formula" || !(field.key in mod.data || field.key in other.data)) continue;
+      if (sameValue(mod.data[field.key], other.data[field.key])) continue;
+      rows.push({
+        moduleName: mod.moduleName,
+        fieldKey: field.key,
+        label: `${mod.displayName} › ${field.label}`,
+        survivorValue: mod.data[field.key],
+        loserValue: other.data[field.key],
+        locked: (mod.readOnlyFields ?? []).includes(field.key),
+      });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Side-by-side merge of a duplicate pair: pick the record to keep and,
+ * per differing field, which record's value it keeps.
+ */
+export function MergeTool({ candidate, objects }: Props) {
+  const router = useRouter();
+  // Keep the older record by default
+  const [survivorIndex, setSurvivorIndex] = useState<0 | 1>(
+    objects[0].created_at <= objects[1].created_at ? 0 : 1
+  );
+  const [choices, setChoices] = useState<Record<string, MergeSource>>({});
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const survivor = objects[survivorIndex];
+  const loser = objects[survivorIndex === 0 ? 1 : 0];
+  const rows = buildRows(survivor, loser);
+  const loserOnly: AttachedModule[] = loser.modules.filter(
+    (m) => !survivor.modules.some((s) => s.moduleName === m.moduleName)
+  );
+
+  function swap() {
+    setSurvivorIndex(survivorIndex === 0 ? 1 : 0);
+    setChoices({});
+  }
+
+  async function handleMerge() {
+    if (
+      !confirm(
+        `Merge "${loser.displayName}" into "${survivor.displayName}"? "${loser.displayName}" will be moved to the trash.`
+      )
+    )
+      return;
+
+    setError(null);
+    setMerging(true);
+    try {
+      const result = await mergeObjectsAction({
+        survivorId: survivor.id,
+        loserId: loser.id,
+        fields: Object.entries(choices)
+          .filter(([, source]) => source === "loser")
+          .map(([key, source]) => {
+            const [moduleName, ...field] = key.split(".");
+            return { moduleName, fieldKey: field.join("."), source };
+          }),
+      });
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      router.push(`/objects/${survivor.id}`);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to merge objects");
+    } finally {
+      setMerging(false);
+    }
+  }
+
+  const columns = [
+    { key: "survivor" as const, object: survivor, title: "Keep" },
+    { key: "loser" as const, object: loser, title: "Merge and move to trash" },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {Math.round(candidate.score * 100)}% match
+          {candidate.ruleName && ` · ${candidate.ruleName}`}
+        </p>
+        <button onClick={swap} type="button" className={tw.btnSecondary}>
+          <ArrowLeftRight size={14} className="mr-1 inline" />
+          Swap records
+        </button>
+      </div>
+
+      {error && <div className={tw.error}>{error}</div>}
+
+      <div className="grid grid-cols-2 gap-4">
+        {columns.map((col) => (
+          <div key={col.key} className={tw.card}>
+            <p className="text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+              {col.title}
+            </p>
+            <p className="mt-1 truncate text-sm font-semibold text-gray-900 dark:text-white">
+              {col.object.displayName}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Created {new Date(col.object.created_at).toLocaleDateString()}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div className={tw.card}>
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            The two records have the same values in every field you can see.
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                <th className="pb-2 font-medium">Field</th>
+                <th className="pb-2 font-medium">{survivor.displayName}</th>
+                <th className="pb-2 font-medium">{loser.displayName}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                const key = `${row.moduleName}.${row.fieldKey}`;
+                const choice = choices[key] ?? "survivor";
+                return (
+                  <tr
+                    key={key}
+                    className="border-t border-gray-100 align-top dark:border-gray-800"
+                  >
+                    <td className="py-2 pr-3 text-gray-900 dark:text-white">{row.label}</td>
+                    {(["survivor", "loser"] as MergeSource[]).map((source) => (
+                      <td key={source} className="py-2 pr-3">
+                        <label
+                          className={clsx(
+                            "flex items-start gap-2",
+                            row.locked ? "cursor-not-allowed opacity-60" : "cursor-pointer"
+                          )}
+                        >
+                          <input
+                            type="radio"
+                            name={key}
+                            checked={choice === source}
+                            disabled={row.locked}
+                            onChange={() => setChoices({ ...choices, [key]: source })}
+                            className="mt-0.5"
+                          />
+                          <span
+                            className={clsx(
+                              choice === source
+                                ? "text-gray-900 dark:text-white"
+                                : "text-gray-400 dark:text-gray-500"
+                            )}
+                          >
+                            {formatValue(source === "survivor" ? row.survivorValue : row.loserValue)}
+                          </span>
+                        </label>
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {loserOnly.length > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Also copied from {loser.displayName}:{" "}
+          {loserOnly.map((m) => m.displayName).join(", ")}.
+        </p>
+      )}
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Relations and timeline events of {loser.displayName} move to {survivor.displayName}.
+      </p>
+
+      <div className="flex justify-end">
+        <button type="button" onClick={handleMerge} disabled={merging} className={tw.btnPrimary}>
+          <GitMerge size={14} className="mr-1 inline" />
+          {merging ? "Merging…" : "Merge records"}
+        </button>
+      </div>
+    </div>
+  );
+}
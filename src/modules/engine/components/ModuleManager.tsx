@@ -3,10 +3,13 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { tw } from "./DynamicField";
+import { SchemaMigrationPanel } from "./SchemaMigrationPanel";
+import { SchemaVersionHistory } from "./SchemaVersionHistory";
 import {
   createModuleAction,
   updateModuleAction,
   deleteModuleAction,
+  previewSchemaChangeAction,
 } from "@/modules/engine/actions/module.actions";
 import type {
   ModuleRowTyped,
@@ -15,6 +18,11 @@ import type {
   ModuleSchema,
   ModuleCreateInput,
 } from "@/modules/engine/types/module.types";
+import type {
+  SchemaChangePreview,
+  SchemaMigrationStep,
+} from "@/modules/engine/types/schema-migration.types";
+import { buildFormulaSchemaMap, checkModuleFormulas } from "@/modules/engine/formulas";
 import { Plus, Edit2, Trash2, X } from "lucide-react";
 
 // Utility to convert text to kebab-case slug
@@ -43,15 +51,19 @@ const FIELD_TYPES: ModuleFieldType[] = [
   "multiselect",
   "boolean",
   "url",
+  "formula",
+  "relation",
 ];
 
 interface Props {
   modules: ModuleRowTyped[];
+  /** Targets for relation fields */
+  objectTypes?: { name: string; display_name: string }[];
 }
 
 type Mode = "list" | "create" | "edit";
 
-export function ModuleManager({ modules }: Props) {
+export function ModuleManager({ modules, objectTypes = [] }: Props) {
   const router = useRouter();
   const [mode, setMode] = useState<Mode>("list");
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -64,6 +76,10 @@ export function ModuleManager({ modules }: Props) {
   const [description, setDescription] = useState("");
   const [icon, setIcon] = useState("");
   const [fields, setFields] = useState<ClientModuleField[]>([]);
+
+  // Schema change review (edit mode)
+  const [preview, setPreview] = useState<SchemaChangePreview | null>(null);
+  const [steps, setSteps] = useState<SchemaMigrationStep[]>([]);
   
   // Track if slug/key were manually modified
   const [slugManuallyModified, setSlugManuallyModified] = useState(false);
@@ -75,6 +91,21 @@ export function ModuleManager({ modules }: Props) {
     }
   }, [displayName, slugManuallyModified]);
 
+  // Re-check the change against existing records when migrations change
+  useEffect(() => {
+    if (!editingId || !preview) return;
+    let cancelled = false;
+    previewSchemaChangeAction(editingId, buildSchema(), steps).then((result) => {
+      if (cancelled) return;
+      if (result.success) setPreview(result.data);
+      else setError(result.error);
+    });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [steps]);
+
   function resetForm() {
     setName("");
     setDisplayName("");
@@ -84,6 +115,8 @@ export function ModuleManager({ modules }: Props) {
     setEditingId(null);
     setError(null);
     setSlugManuallyModified(false);
+    setPreview(null);
+    setSteps([]);
   }
 
   function startCreate() {
@@ -102,7 +135,14 @@ export function ModuleManager({ modules }: Props) {
     setSlugManuallyModified(true); // In edit mode, assume slug is already set
   }
 
+  // Editing fields invalidates a reviewed schema change
+  function invalidatePreview() {
+    setPreview(null);
+    setSteps([]);
+  }
+
   function addField() {
+    invalidatePreview();
     setFields((prev) => [
       ...prev,
       { key: "", type: "text", label: "", required: false, keyManuallySet: false },
@@ -110,6 +150,7 @@ export function ModuleManager({ modules }: Props) {
   }
 
   function updateField(idx: number, partial: Partial<ClientModuleField>) {
+    invalidatePreview();
     setFields((prev) =>
       prev.map((f, i) => {
         if (i !== idx) return f;
@@ -127,21 +168,42 @@ export function ModuleManager({ modules }: Props) {
   }
 
   function removeField(idx: number) {
+    invalidatePreview();
     setFields((prev) => prev.filter((_, i) => i !== idx));
   }
 
-  async function handleSubmit(e: React.FormEvent) {
-    e.preventDefault();
-    setLoading(true);
-    setError(null);
-
-    const schema: ModuleSchema = {
+  function buildSchema(): ModuleSchema {
+    return {
       fields: fields.map((f) => {
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
         const { keyManuallySet, ...cleanField } = f as any;
         return cleanField as ModuleFieldDef;
       }),
     };
+  }
+
+  // Type-check formula fields as they are edited (the server checks again on save)
+  const formulaCheck = checkModuleFormulas(
+    name || "module",
+    buildSchema(),
+    buildFormulaSchemaMap(modules.filter((m) => m.id !== editingId))
+  );
+  const formulaErrors = new Map(formulaCheck.errors.map((e) => [e.field, e.message]));
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    if (formulaCheck.errors.length > 0) {
+      setError(
+        `Formula errors — ${formulaCheck.errors.map((e) => `${e.field}: ${e.message}`).join("; ")}`
+      );
+      return;
+    }
+
+    setLoading(true);
+
+    const schema = buildSchema();
     const payload: ModuleCreateInput = {
       name,
       display_name: displayName,
@@ -151,10 +213,27 @@ export function ModuleManager({ modules }: Props) {
     };
 
     try {
+      // Schema edits are reviewed against existing records before saving
+      if (mode === "edit" && !preview) {
+        const check = await previewSchemaChangeAction(editingId!, schema, steps);
+        if (!check.success) {
+          setError(check.error);
+          return;
+        }
+        const { diff, issues } = check.data;
+        if (
+          diff.added.length + diff.removed.length + diff.changed.length > 0 ||
+          issues.length > 0
+        ) {
+          setPreview(check.data);
+          return;
+        }
+      }
+
       const result =
         mode === "create"
           ? await createModuleAction(payload)
-          : await updateModuleAction(editingId!, payload);
+          : await updateModuleAction(editingId!, { ...payload, migrations: steps });
 
       if (!result.success) {
         setError(result.error ?? "Operation failed");
@@ -228,7 +307,7 @@ export function ModuleManager({ modules }: Props) {
                   )}
                   <p className="mt-1 text-xs text-gray-400">
                     {mod.schema.fields.length} field
-                    {mod.schema.fields.length !== 1 ? "s" : ""}
+                    {mod.schema.fields.length !== 1 ? "s" : ""} · v{mod.schema_version}
                   </p>
                 </div>
 
@@ -403,11 +482,19 @@ export function ModuleManager({ modules }: Props) {
                       <select
                         className={tw.input}
                         value={field.type}
-                        onChange={(e) =>
+                        onChange={(e) => {
+                          const type = e.target.value as ModuleFieldType;
+                          // Formula values are computed, never entered
                           updateField(idx, {
-                            type: e.target.value as ModuleFieldType,
-                          })
-                        }
+                            type,
+                            ...(type === "formula"
+                              ? { required: false, default: undefined }
+                              : { formula: undefined, resultType: undefined }),
+                            ...(type === "relation"
+                              ? { default: undefined }
+                              : { targetType: undefined, multiple: undefined }),
+                          });
+                        }}
                       >
                         {FIELD_TYPES.map((t) => (
                           <option key={t} value={t}>
@@ -500,6 +587,72 @@ export function ModuleManager({ modules }: Props) {
                     </div>
                   )}
 
+                  {/* Expression for formula fields */}
+                  {field.type === "formula" && (
+                    <div className="mt-2">
+                      <label className="text-xs font-medium text-gray-600 dark:text-gray-400">
+                        Formula
+                      </label>
+                      <textarea
+                        className={`${tw.input} font-mono`}
+                        rows={2}
+                        placeholder="e.g. monetary.amount * monetary.probability / 100"
+                        value={field.formula ?? ""}
+                        onChange={(e) => updateField(idx, { formula: e.target.value })}
+                      />
+                      {field.key && formulaErrors.has(field.key) ? (
+                        <p className="mt-1 text-[10px] text-red-600 dark:text-red-400">
+                          {formulaErrors.get(field.key)}
+                        </p>
+                      ) : (
+                        <p className="mt-1 text-[10px] text-gray-500">
+                          Returns{" "}
+                          {formulaCheck.schema.fields.find((f) => f.key === field.key)?.resultType ??
+                            "a value"}
+                          . Reference fields as module.field or by key within this module;
+                          created_at and updated_at are available.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Target type for relation fields */}
+                  {field.type === "relation" && (
+                    <div className="mt-2 grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="text-xs font-medium text-gray-600 dark:text-gray-400">
+                          Links to
+                        </label>
+                        <select
+                          className={tw.input}
+                          value={field.targetType ?? ""}
+                          onChange={(e) =>
+                            updateField(idx, { targetType: e.target.value || undefined })
+                          }
+                        >
+                          <option value="">Select object type…</option>
+                          {objectTypes.map((t) => (
+                            <option key={t.name} value={t.name}>
+                              {t.display_name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <label className="flex items-end gap-2 pb-2 text-xs font-medium text-gray-600 dark:text-gray-400">
+                        <input
+                          type="checkbox"
+                          checked={field.multiple ?? false}
+                          onChange={(e) => updateField(idx, { multiple: e.target.checked })}
+                        />
+                        Allow multiple
+                      </label>
+                      <p className="col-span-2 text-[10px] text-gray-500">
+                        Needs an active relation between the object types; its cardinality
+                        applies. The field key is used as the relation type.
+                      </p>
+                    </div>
+                  )}
+
                   {/* Default value for boolean */}
                   {field.type === "boolean" && (
                     <div className="mt-2">
@@ -519,7 +672,9 @@ export function ModuleManager({ modules }: Props) {
                   {/* Default value for non-special types */}
                   {field.type !== "select" &&
                     field.type !== "multiselect" &&
-                    field.type !== "boolean" && (
+                    field.type !== "boolean" &&
+                    field.type !== "formula" &&
+                    field.type !== "relation" && (
                     <div className="mt-2">
                       <label className="text-xs font-medium text-gray-600 dark:text-gray-400">
                         Default
@@ -537,16 +692,20 @@ export function ModuleManager({ modules }: Props) {
 
                   <div className="mt-2 flex items-center justify-between">
                     {/* Required checkbox */}
-                    <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
-                      <input
-                        type="checkbox"
-                        checked={field.required ?? false}
-                        onChange={(e) =>
-                          updateField(idx, { required: e.target.checked })
-                        }
-                      />
-                      Required
-                    </label>
+                    {field.type === "formula" ? (
+                      <span className="text-xs text-gray-400">Computed on read</span>
+                    ) : (
+                      <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+                        <input
+                          type="checkbox"
+                          checked={field.required ?? false}
+                          onChange={(e) =>
+                            updateField(idx, { required: e.target.checked })
+                          }
+                        />
+                        Required
+                      </label>
+                    )}
 
                     {/* Remove button */}
                     <button
@@ -563,6 +722,17 @@ export function ModuleManager({ modules }: Props) {
           )}
         </div>
 
+        {preview && (
+          <SchemaMigrationPanel
+            preview={preview}
+            schema={buildSchema()}
+            steps={steps}
+            onChange={setSteps}
+          />
+        )}
+
+        {mode === "edit" && editingId && <SchemaVersionHistory moduleId={editingId} />}
+
         <div className="flex justify-end gap-2">
           <button
             type="button"
@@ -578,12 +748,14 @@ export function ModuleManager({ modules }: Props) {
           <button
             type="submit"
             className={tw.btnPrimary}
-            disabled={loading}
+            disabled={loading || (preview?.issues.some((i) => i.blocking) ?? false)}
           >
             {loading
               ? "Saving…"
               : mode === "create"
               ? "Create Module"
+              : preview
+              ? "Apply Schema Change"
               : "Update Module"}
           </button>
         </div>
@@ -2,6 +2,7 @@
 
 import { tw } from "./DynamicField";
 import type { AttachedModule, ModuleSchema } from "@/modules/engine/types/module.types";
+import { displayFieldType } from "@/modules/engine/types/module.types";
 import type { ObjectWithModules } from "@/modules/engine/types/object.types";
 import { Calendar, User, Tag } from "lucide-react";
 
@@ -40,7 +41,11 @@ export function ObjectDetailView({ object }: Props) {
 
       {/* Module cards */}
       {object.modules.map((mod) => (
-        <ModuleDataCard key={mod.moduleId} module={mod} />
+        <ModuleDataCard
+          key={mod.moduleId}
+          module={mod}
+          references={object.references ?? {}}
+        />
       ))}
 
       {object.modules.length === 0 && (
@@ -56,7 +61,13 @@ export function ObjectDetailView({ object }: Props) {
 
 // ── Module data card ──────────────────────────
 
-function ModuleDataCard({ module: mod }: { module: AttachedModule }) {
+function ModuleDataCard({
+  module: mod,
+  references,
+}: {
+  module: AttachedModule;
+  references: Record<string, string>;
+}) {
   return (
     <div className={tw.card}>
       <h3 className="mb-3 text-sm font-semibold text-gray-900 dark:text-white">
@@ -76,7 +87,9 @@ function ModuleDataCard({ module: mod }: { module: AttachedModule }) {
                   {field.label}
                 </dt>
                 <dd className="mt-0.5 text-sm text-gray-900 dark:text-white">
-                  {renderFieldValue(value, field.type)}
+                  {field.type === "relation"
+                    ? renderRelationValue(value, references)
+                    : renderFieldValue(value, displayFieldType(field))}
                 </dd>
               </div>
             );
@@ -87,6 +100,12 @@ function ModuleDataCard({ module: mod }: { module: AttachedModule }) {
   );
 }
 
+function renderRelationValue(value: unknown, references: Record<string, string>): string {
+  const ids = Array.isArray(value) ? value : value ? [value] : [];
+  if (ids.length === 0) return "—";
+  return ids.map((id) => references[String(id)] ?? "Unknown").join(", ");
+}
+
 function renderFieldValue(value: unknown, type: string): string {
   if (value == null || value === "") return "—";
   if (type === "boolean") return value ? "Yes" : "No";
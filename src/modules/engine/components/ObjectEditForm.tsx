@@ -192,6 +192,7 @@ export function ObjectEditForm({
               <div className="mt-3">
                 <DynamicForm
                   schema={mod.schema}
+                  readOnlyFields={mod.readOnlyFields}
                   data={moduleData[mod.moduleId] ?? {}}
                   onChange={(data) =>
                     setModuleData((prev) => ({
@@ -7,7 +7,7 @@ import { tw } from "./DynamicField";
 import { deleteObjectAction } from "@/modules/engine/actions/object.actions";
 import type { ObjectWithModules } from "@/modules/engine/types/object.types";
 import type { ObjectTypeWithModules } from "@/modules/engine/types/object.types";
-import { Plus, Filter, Trash2, Eye, ChevronDown, ChevronLeft, ChevronRight } from "lucide-react";
+import { Plus, Filter, Trash2, Eye, ChevronDown, ChevronLeft, ChevronRight, Upload } from "lucide-react";
 
 interface Props {
   objects: ObjectWithModules[];
@@ -35,7 +35,7 @@ export function ObjectList({
   const [error, setError] = useState<string | null>(null);
 
   async function handleDelete(id: string) {
-    if (!confirm("Are you sure you want to delete this object?")) return;
+    if (!confirm("Move this object to the trash?")) return;
     setDeletingId(id);
     setError(null);
     try {
@@ -84,10 +84,16 @@ export function ObjectList({
           )}
         </div>
 
-        <Link href="/objects/new" className={tw.btnPrimary}>
-          <Plus size={14} className="mr-1 inline" />
-          New Object
-        </Link>
+        <div className="flex items-center gap-2">
+          <Link href="/objects/import" className={tw.btnSecondary}>
+            <Upload size={14} className="mr-1 inline" />
+            Import
+          </Link>
+          <Link href="/objects/new" className={tw.btnPrimary}>
+            <Plus size={14} className="mr-1 inline" />
+            New Object
+          </Link>
+        </div>
       </div>
 
       {error && <div className={tw.error}>{error}</div>}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { tw } from "./DynamicField";
+import type { ModuleFieldDef } from "@/modules/engine/types/module.types";
+import { Search, X } from "lucide-react";
+
+interface Props {
+  field: ModuleFieldDef;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  disabled?: boolean;
+  /** Render without the field label */
+  bare?: boolean;
+}
+
+function selectedIds(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === "string");
+  return typeof value === "string" && value !== "" ? [value] : [];
+}
+
+/**
+ * Searchable picker for relation fields: finds objects of the field's
+ * target type and stores their IDs.
+ */
+export function ObjectPicker({ field, value, onChange, disabled, bare }: Props) {
+  const ids = selectedIds(value);
+  const [labels, setLabels] = useState<Record<string, string>>({});
+  const [search, setSearch] = useState("");
+  const [results, setResults] = useState<{ id: string; displayName: string }[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  // Resolve display names of the objects already selected
+  const unresolved = ids.filter((id) => !(id in labels)).join(",");
+  useEffect(() => {
+    if (!unresolved) return;
+    for (const id of unresolved.split(",")) {
+      fetch(`/api/objects/${id}`)
+        .then((res) => (res.ok ? res.json() : null))
+        .then((body) =>
+          setLabels((prev) => ({ ...prev, [id]: body?.data?.displayName ?? "Unknown object" }))
+        )
+        .catch(() => setLabels((prev) => ({ ...prev, [id]: "Unknown object" })));
+    }
+  }, [unresolved]);
+
+  async function handleSearch(query: string) {
+    setSearch(query);
+    if (query.length < 2) {
+      setResults([]);
+      return;
+    }
+
+    setSearching(true);
+    try {
+      const res = await fetch(
+        `/api/objects?type=${encodeURIComponent(field.targetType ?? "")}&search=${encodeURIComponent(query)}&limit=10`
+      );
+      if (res.ok) {
+        const data = await res.json();
+        setResults(
+          (data.objects ?? []).filter((o: { id: string }) => !ids.includes(o.id))
+        );
+      }
+    } catch {
+      /* ignore search errors */
+    } finally {
+      setSearching(false);
+    }
+  }
+
+  function select(obj: { id: string; displayName: string }) {
+    setLabels((prev) => ({ ...prev, [obj.id]: obj.displayName }));
+    onChange(field.multiple ? [...ids, obj.id] : obj.id);
+    setSearch("");
+    setResults([]);
+  }
+
+  function remove(id: string) {
+    onChange(field.multiple ? ids.filter((i) => i !== id) : undefined);
+  }
+
+  const canAdd = !disabled && (field.multiple || ids.length === 0);
+
+  return (
+    <div>
+      {!bare && (
+        <label className={tw.label}>
+          {field.label}
+          {field.required && " *"}
+        </label>
+      )}
+
+      {ids.length > 0 && (
+        <div className="mb-2 flex flex-wrap gap-2">
+          {ids.map((id) => (
+            <span
+              key={id}
+              className="inline-flex items-center gap-1 rounded-full border border-blue-200 bg-blue-50 px-3 py-1 text-xs font-medium text-blue-700 dark:border-blue-900 dark:bg-blue-950 dark:text-blue-300"
+            >
+              {labels[id] ?? "Loading…"}
+              {!disabled && (
+                <button
+                  type="button"
+                  onClick={() => remove(id)}
+                  className="text-blue-400 hover:text-blue-700"
+                >
+                  <X size={12} />
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {canAdd && (
+        <div className="relative">
+          <Search size={14} className="absolute left-3 top-2.5 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => handleSearch(e.target.value)}
+            placeholder={`Search ${field.targetType ?? "objects"}…`}
+            className={`${tw.input} pl-8`}
+          />
+          {(results.length > 0 || searching) && (
+            <div className="absolute z-10 mt-1 max-h-48 w-full overflow-y-auto rounded-lg border border-gray-200 bg-white shadow-lg dark:border-gray-700 dark:bg-gray-900">
+              {searching && <p className="px-3 py-2 text-xs text-gray-400">Searching…</p>}
+              {results.map((obj) => (
+                <button
+                  key={obj.id}
+                  type="button"
+                  onClick={() => select(obj)}
+                  className="block w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 dark:text-gray-300 dark:hover:bg-gray-800"
+                >
+                  {obj.displayName}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
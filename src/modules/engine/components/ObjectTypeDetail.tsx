@@ -4,6 +4,10 @@ import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { clsx } from "clsx";
 import { tw } from "./DynamicField";
+import { WorkflowEditor } from "./WorkflowEditor";
+import { AutomationManager } from "./AutomationManager";
+import { RollupManager } from "./RollupManager";
+import { DuplicateRuleManager } from "./DuplicateRuleManager";
 import { toggleObjectTypeActiveAction } from "@/modules/engine/actions/datamodel.actions";
 import {
   createObjectTypeRelationAction,
@@ -12,6 +16,10 @@ import {
 } from "@/modules/engine/actions/datamodel.actions";
 import type { ModuleRowTyped, ModuleFieldDef } from "@/modules/engine/types/module.types";
 import type { ObjectTypeWithModules } from "@/modules/engine/types/object.types";
+import type { Workflow } from "@/modules/engine/types/workflow.types";
+import type { AutomationRule } from "@/modules/engine/types/automation.types";
+import type { RollupField } from "@/modules/engine/types/rollup.types";
+import type { DuplicateRule } from "@/modules/engine/types/duplicate.types";
 import type {
   ObjectTypeRelation,
   ObjectTypeRelationCreateInput,
@@ -37,6 +45,10 @@ import {
   Link as LinkIcon,
   AlignLeft,
   Globe,
+  GitBranch,
+  Zap,
+  Sigma,
+  Copy,
 } from "lucide-react";
 
 // ── Types ────────────────────────────────────
@@ -46,10 +58,22 @@ interface Props {
   modules: ModuleRowTyped[];
   relations: ObjectTypeRelation[];
   allObjectTypes: ObjectTypeWithModules[];
+  workflow: Workflow | null;
+  automations: AutomationRule[];
+  rollups: RollupField[];
+  duplicateRules: DuplicateRule[];
+  users: { id: string; full_name: string }[];
   onBack: () => void;
 }
 
-type Tab = "fields" | "relations" | "settings";
+type Tab =
+  | "fields"
+  | "relations"
+  | "rollups"
+  | "duplicates"
+  | "workflow"
+  | "automations"
+  | "settings";
 
 // Field type icon and color mapping
 const FIELD_TYPE_META: Record<
@@ -67,6 +91,8 @@ const FIELD_TYPE_META: Record<
   select: { icon: <List size={14} />, color: "#f97316", label: "Select" },
   multiselect: { icon: <List size={14} />, color: "#ef4444", label: "Multi-Select" },
   boolean: { icon: <CheckSquare size={14} />, color: "#22c55e", label: "Boolean" },
+  formula: { icon: <Sigma size={14} />, color: "#0ea5e9", label: "Formula" },
+  relation: { icon: <LinkIcon size={14} />, color: "#10b981", label: "Relation" },
 };
 
 // ── Component ────────────────────────────────
@@ -76,6 +102,11 @@ export function ObjectTypeDetail({
   modules,
   relations,
   allObjectTypes,
+  workflow,
+  automations,
+  rollups,
+  duplicateRules,
+  users,
   onBack,
 }: Props) {
   const router = useRouter();
@@ -181,6 +212,33 @@ export function ObjectTypeDetail({
           label="Relations"
           count={relations.length}
         />
+        <TabButton
+          active={activeTab === "rollups"}
+          onClick={() => setActiveTab("rollups")}
+          icon={<Sigma size={14} />}
+          label="Rollups"
+          count={rollups.length}
+        />
+        <TabButton
+          active={activeTab === "duplicates"}
+          onClick={() => setActiveTab("duplicates")}
+          icon={<Copy size={14} />}
+          label="Duplicates"
+          count={duplicateRules.length}
+        />
+        <TabButton
+          active={activeTab === "workflow"}
+          onClick={() => setActiveTab("workflow")}
+          icon={<GitBranch size={14} />}
+          label="Workflow"
+        />
+        <TabButton
+          active={activeTab === "automations"}
+          onClick={() => setActiveTab("automations")}
+          icon={<Zap size={14} />}
+          label="Automations"
+          count={automations.length}
+        />
         <TabButton
           active={activeTab === "settings"}
           onClick={() => setActiveTab("settings")}
@@ -204,6 +262,35 @@ export function ObjectTypeDetail({
           allObjectTypes={allObjectTypes}
         />
       )}
+      {activeTab === "rollups" && (
+        <RollupManager
+          objectType={objectType}
+          modules={modules}
+          relations={relations}
+          allObjectTypes={allObjectTypes}
+          rollups={rollups}
+        />
+      )}
+      {activeTab === "duplicates" && (
+        <DuplicateRuleManager objectType={objectType} modules={modules} rules={duplicateRules} />
+      )}
+      {activeTab === "workflow" && (
+        <WorkflowEditor
+          key={workflow?.updatedAt ?? "new"}
+          objectType={objectType}
+          modules={modules}
+          workflow={workflow}
+        />
+      )}
+      {activeTab === "automations" && (
+        <AutomationManager
+          objectType={objectType}
+          modules={modules}
+          allObjectTypes={allObjectTypes}
+          automations={automations}
+          users={users}
+        />
+      )}
       {activeTab === "settings" && (
         <SettingsTab
           objectType={objectType}
@@ -6,6 +6,8 @@ import Link from "next/link";
 import { tw } from "./DynamicField";
 import { addWidgetAction, removeWidgetAction, updateWidgetAction } from "@/modules/engine/actions/page.actions";
 import type { Page, PageWidget, WidgetConfig } from "@/modules/engine/services/page.service";
+import { TimelineEventTypes, type ActivityFeedPage } from "@/modules/engine/types/timeline.types";
+import { formatRelativeTime } from "./Timeline";
 import {
   ResponsiveContainer,
   BarChart,
@@ -199,6 +201,8 @@ function WidgetRenderer({
       return <TableViewWidget data={data} />;
     case "processor_report":
       return <ProcessorReportWidget data={data} />;
+    case "activity_feed":
+      return <ActivityFeedWidget data={data} />;
     default:
       return <pre className="text-xs">{JSON.stringify(data, null, 2)}</pre>;
   }
@@ -399,6 +403,46 @@ function TimelineWidget({ data }: { data: any }) {
   );
 }
 
+// ── Activity Feed Widget ─────────────────────
+
+function ActivityFeedWidget({ data }: { data: ActivityFeedPage }) {
+  const items = data.items ?? [];
+  if (items.length === 0) {
+    return <p className="py-4 text-center text-xs text-gray-400">No recent activity</p>;
+  }
+
+  return (
+    <div className="max-h-64 space-y-3 overflow-y-auto">
+      {items.map((item) => (
+        <div key={item.id} className="flex gap-3">
+          <div
+            className={`mt-1.5 h-2.5 w-2.5 flex-shrink-0 rounded-full ${item.unread ? "bg-blue-500" : "bg-gray-300 dark:bg-gray-700"}`}
+          />
+          <div className="min-w-0 flex-1">
+            <p className="text-sm text-gray-900 dark:text-white">
+              <span className="font-medium">{item.title}</span>
+              {" · "}
+              <Link
+                href={`/objects/${item.object.id}`}
+                className="text-blue-600 hover:underline dark:text-blue-400"
+              >
+                {item.object.displayName}
+              </Link>
+            </p>
+            <p className="mt-0.5 text-xs text-gray-400">
+              {item.object.objectType.displayName}
+              {item.actorName && ` · ${item.actorName}`} · {formatRelativeTime(item.createdAt)}
+            </p>
+          </div>
+        </div>
+      ))}
+      <Link href="/activity" className="block text-xs text-blue-600 hover:underline dark:text-blue-400">
+        View all activity
+      </Link>
+    </div>
+  );
+}
+
 // ── Table View Widget ────────────────────────
 
 function TableViewWidget({ data }: { data: any }) {
@@ -575,7 +619,7 @@ function EditWidgetForm({
           </div>
         </>
       )}
-      {(widget.widgetType === "object_list" || widget.widgetType === "pipeline" || widget.widgetType === "table_view") && (
+      {(widget.widgetType === "object_list" || widget.widgetType === "pipeline" || widget.widgetType === "table_view" || widget.widgetType === "activity_feed") && (
         <div>
           <label className={tw.label}>Object Type</label>
           <select className={tw.input} value={config.objectType ?? ""} onChange={(e) => setConfig({ ...config, objectType: e.target.value })}>
@@ -586,6 +630,9 @@ function EditWidgetForm({
           </select>
         </div>
       )}
+      {widget.widgetType === "activity_feed" && (
+        <EventTypesPicker config={config} onChange={setConfig} />
+      )}
       <div>
         <label className={tw.label}>Width</label>
         <select className={tw.input} value={width} onChange={(e) => setWidth(Number(e.target.value))}>
@@ -605,6 +652,44 @@ function EditWidgetForm({
   );
 }
 
+// ── Event Types Picker ───────────────────────
+
+/** Event types an activity_feed widget shows; all when none is picked */
+function EventTypesPicker({
+  config,
+  onChange,
+}: {
+  config: WidgetConfig;
+  onChange: (config: WidgetConfig) => void;
+}) {
+  const selected = config.eventTypes ?? [];
+
+  return (
+    <div>
+      <label className={tw.label}>Event Types</label>
+      <div className="flex flex-wrap gap-1.5">
+        {TimelineEventTypes.map(({ value, label }) => (
+          <label key={value} className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+            <input
+              type="checkbox"
+              checked={selected.includes(value)}
+              onChange={() =>
+                onChange({
+                  ...config,
+                  eventTypes: selected.includes(value)
+                    ? selected.filter((t) => t !== value)
+                    : [...selected, value],
+                })
+              }
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // ── Add Widget Form ──────────────────────────
 
 function AddWidgetForm({
@@ -632,6 +717,7 @@ function AddWidgetForm({
     { value: "timeline", label: "Timeline", description: "Recent timeline events" },
     { value: "table_view", label: "Table View", description: "Filterable table with export" },
     { value: "processor_report", label: "Processor Report", description: "Run a processor on objects" },
+    { value: "activity_feed", label: "Activity Feed", description: "Recent activity across records" },
   ];
 
   async function handleSubmit(e: React.FormEvent) {
@@ -736,7 +822,7 @@ function AddWidgetForm({
           </div>
         )}
 
-        {(widgetType === "object_list" || widgetType === "pipeline") && (
+        {(widgetType === "object_list" || widgetType === "pipeline" || widgetType === "activity_feed") && (
           <div>
             <label className={tw.label}>Object Type</label>
             <select
@@ -754,6 +840,10 @@ function AddWidgetForm({
           </div>
         )}
 
+        {widgetType === "activity_feed" && (
+          <EventTypesPicker config={config} onChange={setConfig} />
+        )}
+
         {widgetType === "stat_card" && (
           <div>
             <label className={tw.label}>Aggregation</label>
@@ -173,7 +173,15 @@ export function PipelineView({
       >
         <div className="flex gap-3 overflow-x-auto pb-4">
           {columns.map((col) => (
-            <DroppableColumn key={col.value} id={col.value} label={col.label} color={col.color} count={col.objects.length}>
+            <DroppableColumn
+              key={col.value}
+              id={col.value}
+              label={col.label}
+              color={col.color}
+              count={col.objects.length}
+              total={col.objects.reduce((sum, o) => sum + (o.monetaryValue ?? 0), 0)}
+              currency={col.objects.find((o) => o.monetaryCurrency)?.monetaryCurrency}
+            >
               {col.objects.map((obj) => (
                 <DraggableCard
                   key={obj.id}
@@ -208,12 +216,17 @@ function DroppableColumn({
   label,
   color,
   count,
+  total,
+  currency,
   children,
 }: {
   id: string;
   label: string;
   color?: string;
   count: number;
+  /** Sum of the column's monetary values */
+  total: number;
+  currency?: string;
   children: React.ReactNode;
 }) {
   const { isOver, setNodeRef } = useDroppable({ id });
@@ -245,6 +258,18 @@ function DroppableColumn({
       <div className="flex-1 space-y-2 overflow-y-auto p-2" style={{ maxHeight: "65vh" }}>
         {children}
       </div>
+
+      {/* Column footer */}
+      <div className="flex items-center justify-between border-t border-gray-200 px-3 py-2 text-xs text-gray-500 dark:border-gray-800 dark:text-gray-400">
+        <span>
+          {count} object{count !== 1 ? "s" : ""}
+        </span>
+        {total !== 0 && (
+          <span className="font-medium text-gray-700 dark:text-gray-300">
+            {currency ?? "USD"} {total.toLocaleString()}
+          </span>
+        )}
+      </div>
     </div>
   );
 }
@@ -4,6 +4,7 @@ import { useEffect, useState } from "react";
 import { tw } from "./DynamicField";
 import type { ObjectWithModules } from "@/modules/engine/types/object.types";
 import type { ProcessorResult } from "@/modules/engine/processors/base.processor";
+import type { StoredProcessorResult } from "@/modules/engine/types/processor.types";
 import {
   Activity,
   TrendingUp,
@@ -21,22 +22,56 @@ interface Props {
   object: ObjectWithModules;
 }
 
+/**
+ * Which metric of each processor's output is charted over time.
+ */
+const TREND_METRICS: Record<
+  string,
+  {
+    label: string;
+    value: (data: Record<string, unknown>) => number;
+    lowerIsBetter?: boolean;
+    flag?: (data: Record<string, unknown>) => boolean;
+    flagLabel?: string;
+  }
+> = {
+  project: { label: "Health score", value: (d) => Number(d.healthScore ?? 0) },
+  ticket: {
+    label: "Age (days)",
+    value: (d) => Number(d.ageDays ?? 0),
+    lowerIsBetter: true,
+    flag: (d) => !!d.isStale,
+    flagLabel: "stale",
+  },
+  reporting: { label: "Weighted value", value: (d) => Number(d.weightedValue ?? 0) },
+};
+
 /**
  * Shows processor insights on an object detail page.
- * Automatically runs all eligible processors and displays their results.
+ * Automatically runs all eligible processors and displays their results,
+ * with a trend from stored scheduled runs when history is available.
  */
 export function ProcessorInsights({ object }: Props) {
   const [results, setResults] = useState<ProcessorResult[]>([]);
+  const [history, setHistory] = useState<StoredProcessorResult[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     async function load() {
       try {
-        const res = await fetch(`/api/processors?objectId=${object.id}`);
+        const [res, historyRes] = await Promise.all([
+          fetch(`/api/processors?objectId=${object.id}`),
+          fetch(`/api/processors/history?objectId=${object.id}&limit=90`),
+        ]);
         if (!res.ok) throw new Error("Failed to load processor insights");
         const data = await res.json();
         setResults(data.results ?? []);
+        // History is optional — the card still renders without it
+        if (historyRes.ok) {
+          const historyData = await historyRes.json();
+          setHistory(historyData.history ?? []);
+        }
       } catch (err: unknown) {
         setError(err instanceof Error ? err.message : "Failed to load");
       } finally {
@@ -70,7 +105,13 @@ export function ProcessorInsights({ object }: Props) {
   return (
     <div className="space-y-4">
       {results.map((result, i) => (
-        <ProcessorCard key={i} result={result} />
+        <div key={i}>
+          <ProcessorCard result={result} />
+          <ProcessorTrend
+            processor={result.processor}
+            history={history.filter((h) => h.processor === result.processor && h.success)}
+          />
+        </div>
       ))}
     </div>
   );
@@ -270,6 +311,71 @@ function ProjectCard({ data }: { data: any }) {
   );
 }
 
+function ProcessorTrend({
+  processor,
+  history,
+}: {
+  processor: string;
+  history: StoredProcessorResult[];
+}) {
+  const metric = TREND_METRICS[processor];
+  if (!metric || history.length < 2) return null;
+
+  const points = history.map((h) => ({
+    value: metric.value((h.data ?? {}) as Record<string, unknown>),
+    flagged: metric.flag?.((h.data ?? {}) as Record<string, unknown>) ?? false,
+    at: h.computedAt,
+  }));
+
+  const width = 240;
+  const height = 40;
+  const values = points.map((p) => p.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const x = (i: number) => (i / (points.length - 1)) * width;
+  const y = (v: number) => height - 4 - ((v - min) / range) * (height - 8);
+
+  const first = values[0];
+  const last = values[values.length - 1];
+  const delta = last - first;
+  const improved = metric.lowerIsBetter ? delta < 0 : delta > 0;
+
+  return (
+    <div className="mt-1 flex items-center gap-3 rounded-b-lg px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+      <TrendingUp size={12} className="shrink-0" />
+      <span className="shrink-0">{metric.label}</span>
+      <svg width={width} height={height} className="shrink-0 overflow-visible">
+        <polyline
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={1.5}
+          className="text-blue-500"
+          points={points.map((p, i) => `${x(i)},${y(p.value)}`).join(" ")}
+        />
+        {points.map((p, i) =>
+          p.flagged ? (
+            <circle key={i} cx={x(i)} cy={y(p.value)} r={2.5} className="fill-amber-500">
+              <title>{`${new Date(p.at).toLocaleDateString()} — ${metric.flagLabel}`}</title>
+            </circle>
+          ) : null
+        )}
+      </svg>
+      <span
+        className={
+          delta === 0 ? "text-gray-500" : improved ? "text-green-600" : "text-red-600"
+        }
+      >
+        {delta > 0 ? "+" : ""}
+        {Number(delta.toFixed(1)).toLocaleString()}
+      </span>
+      <span className="text-gray-400">
+        over {points.length} runs since {new Date(points[0].at).toLocaleDateString()}
+      </span>
+    </div>
+  );
+}
+
 function GenericCard({ result }: { result: ProcessorResult }) {
   if (!result.success) return null;
   return (
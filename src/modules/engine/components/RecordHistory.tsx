@@ -0,0 +1,266 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { clsx } from "clsx";
+import { History, RotateCcw } from "lucide-react";
+import { tw } from "./DynamicField";
+import { revertObjectToVersionAction } from "@/modules/engine/actions/history.actions";
+import { HistoryActions } from "@/modules/engine/types/history.types";
+import type { ObjectHistory, ObjectVersion } from "@/modules/engine/types/history.types";
+
+interface Props {
+  history: ObjectHistory;
+  canRevert: boolean;
+}
+
+type PanelKey = "changes" | "snapshot";
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.length > 0 ? value.map(String).join(", ") : "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function actionLabel(version: ObjectVersion): string {
+  return HistoryActions.find((a) => a.value === version.action)?.label ?? version.action;
+}
+
+/**
+ * Versions of a record rebuilt from the audit log: field-level changes,
+ * the full module data at any point in time, and revert.
+ */
+export function RecordHistory({ history, canRevert }: Props) {
+  const router = useRouter();
+  const { versions } = history;
+  const [selectedId, setSelectedId] = useState<string | null>(versions[0]?.id ?? null);
+  const [panel, setPanel] = useState<PanelKey>("changes");
+  const [asOf, setAsOf] = useState("");
+  const [reverting, setReverting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const selected = versions.find((v) => v.id === selectedId) ?? null;
+  const isLatest = selected?.id === versions[0]?.id;
+
+  function moduleLabel(name: string) {
+    return history.modules.find((m) => m.name === name)?.displayName ?? name;
+  }
+
+  function fieldLabel(moduleName: string, key: string) {
+    return (
+      history.modules.find((m) => m.name === moduleName)?.fields.find((f) => f.key === key)
+        ?.label ?? key
+    );
+  }
+
+  /** Select the version in effect at a point in time */
+  function handleAsOf(value: string) {
+    setAsOf(value);
+    if (!value) return;
+    const at = new Date(value).getTime();
+    const version = versions.find((v) => new Date(v.createdAt).getTime() <= at);
+    setSelectedId(version?.id ?? null);
+    setPanel("snapshot");
+  }
+
+  async function handleRevert() {
+    if (!selected) return;
+    if (
+      !confirm(
+        `Revert this record to the version from ${new Date(selected.createdAt).toLocaleString()}?`
+      )
+    )
+      return;
+
+    setError(null);
+    setNotice(null);
+    setReverting(true);
+    try {
+      const result = await revertObjectToVersionAction(history.objectId, selected.id);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      setNotice(`Reverted ${result.data.map(moduleLabel).join(", ")}`);
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to revert object");
+    } finally {
+      setReverting(false);
+    }
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className={tw.card}>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No recorded changes for this object yet.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {versions.length} version{versions.length === 1 ? "" : "s"} from the audit log
+          {history.truncated && " (older changes are not shown)"}
+        </p>
+        <label className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+          Show record as of
+          <input
+            type="datetime-local"
+            value={asOf}
+            onChange={(e) => handleAsOf(e.target.value)}
+            className="rounded-lg border border-gray-300 px-2 py-1 text-sm dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+          />
+        </label>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600 dark:bg-red-950 dark:text-red-400">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="rounded-lg bg-green-50 p-3 text-sm text-green-700 dark:bg-green-950 dark:text-green-400">
+          {notice}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+        {/* Version list */}
+        <ul className="max-h-[32rem] space-y-1 overflow-y-auto">
+          {versions.map((version) => (
+            <li key={version.id}>
+              <button
+                onClick={() => setSelectedId(version.id)}
+                className={clsx(
+                  "w-full rounded-lg border px-3 py-2 text-left transition",
+                  version.id === selectedId
+                    ? "border-blue-500 bg-blue-50 dark:bg-blue-950"
+                    : "border-gray-200 hover:bg-gray-50 dark:border-gray-800 dark:hover:bg-gray-800"
+                )}
+              >
+                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                  {actionLabel(version)}
+                  {version.changes.length > 0 && (
+                    <span className="ml-1 text-xs font-normal text-gray-400">
+                      · {version.changes.length} field{version.changes.length === 1 ? "" : "s"}
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {new Date(version.createdAt).toLocaleString()}
+                  {version.actorName && ` · ${version.actorName}`}
+                </p>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {/* Selected version */}
+        <div className={clsx(tw.card, "lg:col-span-2")}>
+          {!selected ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              The record didn&apos;t exist yet at that time.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex gap-1">
+                  {(["changes", "snapshot"] as PanelKey[]).map((key) => (
+                    <button
+                      key={key}
+                      onClick={() => setPanel(key)}
+                      className={clsx(
+                        "rounded-lg px-3 py-1 text-xs font-medium",
+                        panel === key
+                          ? "bg-gray-900 text-white dark:bg-white dark:text-gray-900"
+                          : "text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800"
+                      )}
+                    >
+                      {key === "changes" ? "Changes" : "Full record"}
+                    </button>
+                  ))}
+                </div>
+                {canRevert && !isLatest && Object.keys(selected.snapshot).length > 0 && (
+                  <button
+                    onClick={handleRevert}
+                    disabled={reverting}
+                    className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-800"
+                  >
+                    <RotateCcw size={12} />
+                    {reverting ? "Reverting…" : "Revert to this version"}
+                  </button>
+                )}
+              </div>
+
+              {panel === "changes" &&
+                (selected.changes.length === 0 ? (
+                  <p className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                    <History size={14} />
+                    No field changes in this entry.
+                  </p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                        <th className="pb-2 font-medium">Field</th>
+                        <th className="pb-2 font-medium">Before</th>
+                        <th className="pb-2 font-medium">After</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {selected.changes.map((change) => (
+                        <tr
+                          key={`${change.moduleName}.${change.fieldKey}`}
+                          className="border-t border-gray-100 align-top dark:border-gray-800"
+                        >
+                          <td className="py-2 pr-3 text-gray-900 dark:text-white">
+                            <span className="text-xs text-gray-400">{change.moduleLabel} · </span>
+                            {change.fieldLabel}
+                          </td>
+                          <td className="py-2 pr-3 text-red-600 line-through dark:text-red-400">
+                            {formatValue(change.before)}
+                          </td>
+                          <td className="py-2 text-green-700 dark:text-green-400">
+                            {formatValue(change.after)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ))}
+
+              {panel === "snapshot" &&
+                Object.entries(selected.snapshot).map(([moduleName, data]) => (
+                  <div key={moduleName}>
+                    <h4 className="mb-2 text-sm font-semibold text-gray-900 dark:text-white">
+                      {moduleLabel(moduleName)}
+                    </h4>
+                    <dl className="grid grid-cols-1 gap-x-4 gap-y-2 sm:grid-cols-2">
+                      {Object.entries(data).map(([key, value]) => (
+                        <div key={key}>
+                          <dt className="text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                            {fieldLabel(moduleName, key)}
+                          </dt>
+                          <dd className="mt-0.5 text-sm text-gray-900 dark:text-white">
+                            {formatValue(value)}
+                          </dd>
+                        </div>
+                      ))}
+                    </dl>
+                  </div>
+                ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { clsx } from "clsx";
+import { tw } from "./DynamicField";
+import {
+  shareRecordAction,
+  revokeRecordShareAction,
+} from "@/modules/engine/actions/sharing.actions";
+import type { RecordShare, ShareAccess } from "@/modules/engine/types/sharing.types";
+import { ShareAccessLevels } from "@/modules/engine/types/sharing.types";
+import { Trash2, User, Users } from "lucide-react";
+
+interface Props {
+  objectId: string;
+  shares: RecordShare[];
+  users: { id: string; full_name: string }[];
+  teams: { id: string; name: string }[];
+  canShare: boolean;
+}
+
+/**
+ * Lists who a record is shared with and, for users allowed to share,
+ * grants or revokes read/write access for users and teams.
+ */
+export function RecordSharing({ objectId, shares, users, teams, canShare }: Props) {
+  const router = useRouter();
+  const [grantee, setGrantee] = useState("");
+  const [access, setAccess] = useState<ShareAccess>("read");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  async function handleShare() {
+    const [kind, id] = grantee.split(":");
+    if (!id) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await shareRecordAction(objectId, {
+        userId: kind === "user" ? id : null,
+        teamId: kind === "team" ? id : null,
+        access,
+      });
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      setGrantee("");
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to share record");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleChangeAccess(share: RecordShare, next: ShareAccess) {
+    setError(null);
+    try {
+      const result = await shareRecordAction(objectId, {
+        userId: share.userId,
+        teamId: share.teamId,
+        access: next,
+      });
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to update share");
+    }
+  }
+
+  async function handleRevoke(share: RecordShare) {
+    if (!confirm(`Stop sharing with ${share.granteeName}?`)) return;
+    setError(null);
+    try {
+      const result = await revokeRecordShareAction(share.id, objectId);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to remove share");
+    }
+  }
+
+  const sharedUserIds = new Set(shares.map((s) => s.userId));
+  const sharedTeamIds = new Set(shares.map((s) => s.teamId));
+
+  return (
+    <div className="max-w-2xl space-y-4">
+      {error && <div className={tw.error}>{error}</div>}
+
+      {canShare && (
+        <div className={clsx(tw.card, "flex flex-wrap items-end gap-2")}>
+          <div className="min-w-48 flex-1">
+            <label className={tw.label}>Share with</label>
+            <select className={tw.input} value={grantee} onChange={(e) => setGrantee(e.target.value)}>
+              <option value="">Select a user or team…</option>
+              {teams.some((t) => !sharedTeamIds.has(t.id)) && (
+                <optgroup label="Teams">
+                  {teams
+                    .filter((t) => !sharedTeamIds.has(t.id))
+                    .map((t) => (
+                      <option key={t.id} value={`team:${t.id}`}>
+                        {t.name}
+                      </option>
+                    ))}
+                </optgroup>
+              )}
+              <optgroup label="Users">
+                {users
+                  .filter((u) => !sharedUserIds.has(u.id))
+                  .map((u) => (
+                    <option key={u.id} value={`user:${u.id}`}>
+                      {u.full_name}
+                    </option>
+                  ))}
+              </optgroup>
+            </select>
+          </div>
+          <div>
+            <label className={tw.label}>Access</label>
+            <select
+              className={tw.input}
+              value={access}
+              onChange={(e) => setAccess(e.target.value as ShareAccess)}
+            >
+              {ShareAccessLevels.map((l) => (
+                <option key={l.value} value={l.value}>
+                  {l.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="button"
+            onClick={handleShare}
+            disabled={loading || !grantee}
+            className={tw.btnPrimary}
+          >
+            {loading ? "Sharing…" : "Share"}
+          </button>
+        </div>
+      )}
+
+      {shares.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-400">
+          Not shared with anyone beyond the owner and role-based access.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {shares.map((share) => (
+            <div key={share.id} className={clsx(tw.card, "flex items-center gap-3")}>
+              {share.teamId ? (
+                <Users size={16} className="shrink-0 text-gray-400" />
+              ) : (
+                <User size={16} className="shrink-0 text-gray-400" />
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium text-gray-900 dark:text-white">
+                  {share.granteeName}
+                </p>
+                <p className="text-xs text-gray-400">{share.teamId ? "Team" : "User"}</p>
+              </div>
+              {canShare ? (
+                <>
+                  <select
+                    className="rounded-lg border border-gray-300 px-2 py-1 text-xs dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+                    value={share.access}
+                    onChange={(e) => handleChangeAccess(share, e.target.value as ShareAccess)}
+                  >
+                    {ShareAccessLevels.map((l) => (
+                      <option key={l.value} value={l.value}>
+                        {l.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(share)}
+                    className="rounded p-1 text-gray-400 hover:text-red-600"
+                    title="Stop sharing"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </>
+              ) : (
+                <span className={clsx(tw.badge, "bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400")}>
+                  {ShareAccessLevels.find((l) => l.value === share.access)?.label}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
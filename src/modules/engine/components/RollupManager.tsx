@@ -0,0 +1,359 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { clsx } from "clsx";
+import { tw } from "./DynamicField";
+import {
+  createRollupFieldAction,
+  updateRollupFieldAction,
+  deleteRollupFieldAction,
+} from "@/modules/engine/actions/rollup.actions";
+import type { ModuleRowTyped } from "@/modules/engine/types/module.types";
+import type { ObjectTypeWithModules } from "@/modules/engine/types/object.types";
+import type { ObjectTypeRelation } from "@/modules/engine/types/relation.types";
+import type {
+  RollupAggregate,
+  RollupField,
+  RollupFieldInput,
+} from "@/modules/engine/types/rollup.types";
+import { RollupAggregates } from "@/modules/engine/types/rollup.types";
+import { Pencil, Plus, Sigma, Trash2 } from "lucide-react";
+
+// ── Types ────────────────────────────────────
+
+interface Props {
+  objectType: ObjectTypeWithModules;
+  modules: ModuleRowTyped[];
+  relations: ObjectTypeRelation[];
+  allObjectTypes: ObjectTypeWithModules[];
+  rollups: RollupField[];
+}
+
+const EMPTY_ROLLUP: RollupFieldInput = {
+  relationId: "",
+  key: "",
+  label: "",
+  aggregate: "count",
+};
+
+/** The object type on the other end of a relation from `typeId` */
+function relatedTypeId(relation: ObjectTypeRelation, typeId: string): string {
+  return relation.source_type_id === typeId ? relation.target_type_id : relation.source_type_id;
+}
+
+// ── Component ────────────────────────────────
+
+export function RollupManager({
+  objectType,
+  modules,
+  relations,
+  allObjectTypes,
+  rollups,
+}: Props) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | "new" | null>(null);
+
+  function describeRollup(rollup: RollupField): string {
+    const relation = relations.find((r) => r.id === rollup.relationId);
+    const related = relation
+      ? allObjectTypes.find((t) => t.id === relatedTypeId(relation, objectType.id))
+      : undefined;
+    const aggregate =
+      RollupAggregates.find((a) => a.value === rollup.aggregate)?.label ?? rollup.aggregate;
+    const target = rollup.aggregate === "count" ? "" : ` of ${rollup.moduleName}.${rollup.fieldKey}`;
+    return `${aggregate}${target} · related ${related?.display_name ?? "objects"}`;
+  }
+
+  async function handleDelete(rollup: RollupField) {
+    if (!confirm(`Delete rollup "${rollup.label}"?`)) return;
+    setError(null);
+    try {
+      const result = await deleteRollupFieldAction(rollup.id);
+      if (!result.success) {
+        setError(result.error ?? "Failed to delete rollup");
+        return;
+      }
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to delete rollup");
+    }
+  }
+
+  const activeRelations = relations.filter((r) => r.is_active);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Aggregate data from related records onto {objectType.display_name}.
+        </p>
+        {editingId === null && activeRelations.length > 0 && (
+          <button type="button" onClick={() => setEditingId("new")} className={tw.btnPrimary}>
+            <Plus size={14} className="mr-1 inline" />
+            New Rollup
+          </button>
+        )}
+      </div>
+
+      {error && <div className={tw.error}>{error}</div>}
+
+      {editingId === "new" && (
+        <RollupEditor
+          objectType={objectType}
+          modules={modules}
+          relations={activeRelations}
+          allObjectTypes={allObjectTypes}
+          initial={EMPTY_ROLLUP}
+          onCancel={() => setEditingId(null)}
+          onSave={async (input) => {
+            const result = await createRollupFieldAction(objectType.id, input);
+            if (result.success) setEditingId(null);
+            return result;
+          }}
+        />
+      )}
+
+      {rollups.length === 0 && editingId !== "new" ? (
+        <div className={tw.card}>
+          <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+            {activeRelations.length === 0
+              ? "Add a relation first — rollups aggregate over related records."
+              : "No rollups yet."}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {rollups.map((rollup) =>
+            editingId === rollup.id ? (
+              <RollupEditor
+                key={rollup.id}
+                objectType={objectType}
+                modules={modules}
+                relations={activeRelations}
+                allObjectTypes={allObjectTypes}
+                isEdit
+                initial={{
+                  relationId: rollup.relationId,
+                  key: rollup.key,
+                  label: rollup.label,
+                  aggregate: rollup.aggregate,
+                  moduleName: rollup.moduleName,
+                  fieldKey: rollup.fieldKey,
+                }}
+                onCancel={() => setEditingId(null)}
+                onSave={async (input) => {
+                  const result = await updateRollupFieldAction(rollup.id, input);
+                  if (result.success) setEditingId(null);
+                  return result;
+                }}
+              />
+            ) : (
+              <div key={rollup.id} className={clsx(tw.card, "flex items-center gap-3")}>
+                <Sigma size={16} className="shrink-0 text-sky-500" />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    {rollup.label}
+                    <span className="ml-2 text-xs font-normal text-gray-400">{rollup.key}</span>
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {describeRollup(rollup)}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setEditingId(rollup.id)}
+                  className="rounded p-1 text-gray-400 hover:text-blue-600"
+                >
+                  <Pencil size={14} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(rollup)}
+                  className="rounded p-1 text-gray-400 hover:text-red-600"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ── Rollup Editor ────────────────────────────
+
+function RollupEditor({
+  objectType,
+  modules,
+  relations,
+  allObjectTypes,
+  initial,
+  isEdit,
+  onCancel,
+  onSave,
+}: {
+  objectType: ObjectTypeWithModules;
+  modules: ModuleRowTyped[];
+  relations: ObjectTypeRelation[];
+  allObjectTypes: ObjectTypeWithModules[];
+  initial: RollupFieldInput;
+  isEdit?: boolean;
+  onCancel: () => void;
+  onSave: (input: RollupFieldInput) => Promise<ActionResult<{ id: string }>>;
+}) {
+  const router = useRouter();
+  const [rollup, setRollup] = useState<RollupFieldInput>(initial);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const relation = relations.find((r) => r.id === rollup.relationId);
+  const relatedType = relation
+    ? allObjectTypes.find((t) => t.id === relatedTypeId(relation, objectType.id))
+    : undefined;
+
+  // Fields of the related type that the aggregate can use
+  const numericOnly = rollup.aggregate === "sum" || rollup.aggregate === "avg";
+  const fieldOptions = (relatedType?.modules ?? [])
+    .map((m) => modules.find((mod) => mod.id === m.module_id))
+    .filter((m): m is ModuleRowTyped => !!m)
+    .flatMap((mod) =>
+      mod.schema.fields
+        .filter((f) => f.type !== "formula" && (!numericOnly || f.type === "number"))
+        .map((f) => ({
+          value: `${mod.name}.${f.key}`,
+          label: `${mod.display_name} › ${f.label}`,
+        }))
+    );
+
+  async function handleSave() {
+    setLoading(true);
+    setError(null);
+    try {
+      const input: RollupFieldInput =
+        rollup.aggregate === "count"
+          ? { ...rollup, moduleName: null, fieldKey: null }
+          : rollup;
+      const result = await onSave(input);
+      if (!result.success) {
+        setError(result.error ?? "Failed to save rollup");
+        return;
+      }
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to save rollup");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const selectedField =
+    rollup.moduleName && rollup.fieldKey ? `${rollup.moduleName}.${rollup.fieldKey}` : "";
+
+  return (
+    <div className={clsx(tw.card, "space-y-4")}>
+      {error && <div className={tw.error}>{error}</div>}
+
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        <div>
+          <label className={tw.label}>Label *</label>
+          <input
+            className={tw.input}
+            value={rollup.label}
+            onChange={(e) => setRollup({ ...rollup, label: e.target.value })}
+            placeholder="e.g. Open deal value"
+          />
+        </div>
+        <div>
+          <label className={tw.label}>Key *</label>
+          <input
+            className={tw.input}
+            value={rollup.key}
+            disabled={isEdit}
+            onChange={(e) => setRollup({ ...rollup, key: e.target.value })}
+            placeholder="e.g. deal_total"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+        <div>
+          <label className={tw.label}>Relation *</label>
+          <select
+            className={tw.input}
+            value={rollup.relationId}
+            onChange={(e) =>
+              setRollup({ ...rollup, relationId: e.target.value, moduleName: null, fieldKey: null })
+            }
+          >
+            <option value="">Select relation…</option>
+            {relations.map((r) => {
+              const other = allObjectTypes.find((t) => t.id === relatedTypeId(r, objectType.id));
+              const name =
+                r.source_type_id === objectType.id ? r.source_field_name : r.target_field_name;
+              return (
+                <option key={r.id} value={r.id}>
+                  {name} → {other?.display_name ?? "Unknown"}
+                </option>
+              );
+            })}
+          </select>
+        </div>
+        <div>
+          <label className={tw.label}>Aggregate *</label>
+          <select
+            className={tw.input}
+            value={rollup.aggregate}
+            onChange={(e) =>
+              setRollup({
+                ...rollup,
+                aggregate: e.target.value as RollupAggregate,
+                moduleName: null,
+                fieldKey: null,
+              })
+            }
+          >
+            {RollupAggregates.map((a) => (
+              <option key={a.value} value={a.value}>
+                {a.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {rollup.aggregate !== "count" && (
+          <div>
+            <label className={tw.label}>Field *</label>
+            <select
+              className={tw.input}
+              value={selectedField}
+              disabled={!relatedType}
+              onChange={(e) => {
+                const [moduleName, fieldKey] = e.target.value.split(".");
+                setRollup({ ...rollup, moduleName: moduleName || null, fieldKey: fieldKey || null });
+              }}
+            >
+              <option value="">Select field…</option>
+              {fieldOptions.map((f) => (
+                <option key={f.value} value={f.value}>
+                  {f.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className={tw.btnSecondary}>
+          Cancel
+        </button>
+        <button type="button" onClick={handleSave} disabled={loading} className={tw.btnPrimary}>
+          {loading ? "Saving..." : "Save Rollup"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+"use client";
+
+import { AlertTriangle, CheckCircle2, Info } from "lucide-react";
+import { tw } from "./DynamicField";
+import type { ModuleSchema } from "@/modules/engine/types/module.types";
+import type {
+  SchemaChangePreview,
+  SchemaMigrationStep,
+} from "@/modules/engine/types/schema-migration.types";
+
+interface Props {
+  preview: SchemaChangePreview;
+  /** The schema being saved (for rename targets and option choices) */
+  schema: ModuleSchema;
+  steps: SchemaMigrationStep[];
+  onChange: (steps: SchemaMigrationStep[]) => void;
+}
+
+/**
+ * Review a module schema change before saving.
+ *
+ * Shows the field diff and how many stored records are affected, and lets
+ * the admin declare migrations: rename or drop removed fields, default
+ * values for new required fields, and replacements for removed options.
+ */
+export function SchemaMigrationPanel({ preview, schema, steps, onChange }: Props) {
+  const { diff } = preview;
+
+  // ── Step helpers (one step per field and type) ──
+
+  function removedFieldStep(key: string) {
+    return steps.find(
+      (s) =>
+        (s.type === "rename_key" && s.from === key) ||
+        (s.type === "drop_field" && s.field === key)
+    );
+  }
+
+  function setRemovedFieldStep(key: string, choice: string) {
+    const rest = steps.filter(
+      (s) =>
+        !(s.type === "rename_key" && s.from === key) &&
+        !(s.type === "drop_field" && s.field === key)
+    );
+    if (choice === "") onChange(rest);
+    else if (choice === "__drop") onChange([...rest, { type: "drop_field", field: key }]);
+    else onChange([{ type: "rename_key", from: key, to: choice }, ...rest]);
+  }
+
+  function defaultStep(key: string) {
+    const step = steps.find((s) => s.type === "set_default" && s.field === key);
+    return step?.type === "set_default" ? String(step.value) : "";
+  }
+
+  function setDefaultStep(key: string, value: string) {
+    const rest = steps.filter((s) => !(s.type === "set_default" && s.field === key));
+    if (value === "") {
+      onChange(rest);
+      return;
+    }
+    const field = schema.fields.find((f) => f.key === key);
+    const typed =
+      field?.type === "number"
+        ? Number(value)
+        : field?.type === "boolean"
+          ? value === "true"
+          : value;
+    onChange([...rest, { type: "set_default", field: key, value: typed }]);
+  }
+
+  function optionMapping(key: string): Record<string, string> {
+    const step = steps.find((s) => s.type === "map_options" && s.field === key);
+    return step?.type === "map_options" ? step.mapping : {};
+  }
+
+  function setOptionMapping(key: string, from: string, to: string | null) {
+    const mapping = { ...optionMapping(key) };
+    if (to === null) delete mapping[from];
+    else mapping[from] = to;
+
+    const rest = steps.filter((s) => !(s.type === "map_options" && s.field === key));
+    onChange(
+      Object.keys(mapping).length > 0
+        ? [...rest, { type: "map_options", field: key, mapping }]
+        : rest
+    );
+  }
+
+  const renameTargets = diff.added.filter(
+    (f) => !steps.some((s) => s.type === "rename_key" && s.to === f.key)
+  );
+  const needsDefault = [
+    ...diff.added.filter((f) => f.required && f.default === undefined),
+    ...diff.changed
+      .filter((c) => c.after.required && !c.before.required && c.after.default === undefined)
+      .map((c) => c.after),
+  ];
+  const optionChanges = diff.changed.filter((c) => c.removedOptions.length > 0);
+  const blocking = preview.issues.filter((i) => i.blocking);
+
+  return (
+    <div className={`${tw.card} space-y-4`}>
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+          Schema change v{preview.fromVersion} → v{preview.toVersion}
+        </h3>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {preview.affectedCount} of {preview.totalCount} record
+          {preview.totalCount !== 1 ? "s" : ""} will be migrated
+        </span>
+      </div>
+
+      {/* Diff summary */}
+      <ul className="space-y-1 text-xs text-gray-600 dark:text-gray-400">
+        {diff.added.map((f) => (
+          <li key={`add-${f.key}`}>
+            <span className="font-medium text-green-600">+ {f.key}</span> ({f.type}
+            {f.required ? ", required" : ""})
+          </li>
+        ))}
+        {diff.removed.map((f) => (
+          <li key={`rm-${f.key}`}>
+            <span className="font-medium text-red-600">− {f.key}</span> ({f.type})
+          </li>
+        ))}
+        {diff.changed.map((c) => (
+          <li key={`ch-${c.key}`}>
+            <span className="font-medium text-amber-600">~ {c.key}</span>: {c.changes.join("; ")}
+          </li>
+        ))}
+      </ul>
+
+      {/* Removed fields: rename or drop */}
+      {diff.removed.length > 0 && (
+        <div className="space-y-2">
+          <label className={tw.label}>Removed fields</label>
+          {diff.removed.map((f) => {
+            const step = removedFieldStep(f.key);
+            const value =
+              step?.type === "rename_key" ? step.to : step?.type === "drop_field" ? "__drop" : "";
+            return (
+              <div key={f.key} className="flex items-center gap-2 text-sm">
+                <span className="w-40 truncate text-gray-700 dark:text-gray-300">{f.label}</span>
+                <select
+                  value={value}
+                  onChange={(e) => setRemovedFieldStep(f.key, e.target.value)}
+                  className={tw.input}
+                >
+                  <option value="">Leave data in place</option>
+                  <option value="__drop">Drop stored values</option>
+                  {[...renameTargets, ...diff.added.filter((a) => a.key === value)].map((a) => (
+                    <option key={a.key} value={a.key}>
+                      Rename to {a.key}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* New required fields: default value */}
+      {needsDefault.length > 0 && (
+        <div className="space-y-2">
+          <label className={tw.label}>Value for existing records</label>
+          {needsDefault.map((f) => (
+            <div key={f.key} className="flex items-center gap-2 text-sm">
+              <span className="w-40 truncate text-gray-700 dark:text-gray-300">{f.label}</span>
+              {f.type === "select" || f.type === "boolean" ? (
+                <select
+                  value={defaultStep(f.key)}
+                  onChange={(e) => setDefaultStep(f.key, e.target.value)}
+                  className={tw.input}
+                >
+                  <option value="">No default</option>
+                  {f.type === "boolean" ? (
+                    <>
+                      <option value="true">Yes</option>
+                      <option value="false">No</option>
+                    </>
+                  ) : (
+                    (f.options ?? []).map((o) => (
+                      <option key={o.value} value={o.value}>
+                        {o.label}
+                      </option>
+                    ))
+                  )}
+                </select>
+              ) : (
+                <input
+                  type={f.type === "number" ? "number" : "text"}
+                  value={defaultStep(f.key)}
+                  onChange={(e) => setDefaultStep(f.key, e.target.value)}
+                  placeholder="Default value"
+                  className={tw.input}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Removed options: map to replacements */}
+      {optionChanges.map((c) => (
+        <div key={c.key} className="space-y-2">
+          <label className={tw.label}>Removed options of {c.after.label}</label>
+          {c.removedOptions.map((value) => {
+            const mapping = optionMapping(c.key);
+            return (
+              <div key={value} className="flex items-center gap-2 text-sm">
+                <span className="w-40 truncate text-gray-700 dark:text-gray-300">{value}</span>
+                <select
+                  value={value in mapping ? mapping[value] || "__clear" : ""}
+                  onChange={(e) =>
+                    setOptionMapping(
+                      c.key,
+                      value,
+                      e.target.value === ""
+                        ? null
+                        : e.target.value === "__clear"
+                          ? ""
+                          : e.target.value
+                    )
+                  }
+                  className={tw.input}
+                >
+                  <option value="">Keep stored value</option>
+                  <option value="__clear">Clear value</option>
+                  {(c.after.options ?? []).map((o) => (
+                    <option key={o.value} value={o.value}>
+                      Change to {o.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+
+      {/* Issues */}
+      {preview.issues.length === 0 ? (
+        <div className="flex items-center gap-2 text-xs text-green-600 dark:text-green-400">
+          <CheckCircle2 size={14} />
+          Existing records are compatible with the new schema.
+        </div>
+      ) : (
+        <ul className="space-y-1">
+          {preview.issues.map((issue, i) => (
+            <li
+              key={i}
+              className={`flex items-start gap-2 text-xs ${
+                issue.blocking
+                  ? "text-red-600 dark:text-red-400"
+                  : "text-gray-500 dark:text-gray-400"
+              }`}
+            >
+              {issue.blocking ? (
+                <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+              ) : (
+                <Info size={14} className="mt-0.5 flex-shrink-0" />
+              )}
+              <span>
+                {issue.message} ({issue.recordCount} record{issue.recordCount !== 1 ? "s" : ""})
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {blocking.length > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Resolve the issues above, then check the change again.
+        </p>
+      )}
+    </div>
+  );
+}
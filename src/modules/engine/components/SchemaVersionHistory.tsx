@@ -0,0 +1,132 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { RotateCw } from "lucide-react";
+import { tw } from "./DynamicField";
+import {
+  getModuleSchemaVersionsAction,
+  retrySchemaMigrationAction,
+} from "@/modules/engine/actions/module.actions";
+import type {
+  ModuleSchemaVersion,
+  SchemaMigrationStep,
+  SchemaVersionStatus,
+} from "@/modules/engine/types/schema-migration.types";
+
+interface Props {
+  moduleId: string;
+}
+
+const STATUS_COLORS: Record<SchemaVersionStatus, string> = {
+  pending: "bg-amber-100 text-amber-700 dark:bg-amber-950 dark:text-amber-300",
+  running: "bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-300",
+  completed: "bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-300",
+  failed: "bg-red-100 text-red-700 dark:bg-red-950 dark:text-red-300",
+};
+
+function describeStep(step: SchemaMigrationStep): string {
+  switch (step.type) {
+    case "rename_key":
+      return `rename ${step.from} → ${step.to}`;
+    case "set_default":
+      return `default ${step.field} = ${String(step.value)}`;
+    case "map_options":
+      return `map ${step.field}: ${Object.entries(step.mapping)
+        .map(([from, to]) => `${from} → ${to || "∅"}`)
+        .join(", ")}`;
+    case "drop_field":
+      return `drop ${step.field}`;
+  }
+}
+
+/**
+ * Schema versions of a module with the status of each data migration.
+ * Polls while a migration is pending or running.
+ */
+export function SchemaVersionHistory({ moduleId }: Props) {
+  const [versions, setVersions] = useState<ModuleSchemaVersion[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(
+    () =>
+      getModuleSchemaVersionsAction(moduleId).then((result) => {
+        if (!result.success) {
+          setError(result.error);
+          return;
+        }
+        setVersions(result.data);
+      }),
+    [moduleId]
+  );
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const active = versions.some((v) => v.status === "pending" || v.status === "running");
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(load, 3000);
+    return () => clearInterval(timer);
+  }, [active, load]);
+
+  async function handleRetry(versionId: string) {
+    setError(null);
+    const result = await retrySchemaMigrationAction(versionId);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    await load();
+  }
+
+  if (versions.length === 0 && !error) return null;
+
+  return (
+    <div className="space-y-2">
+      <label className={tw.label}>Schema History</label>
+      {error && <div className={tw.error}>{error}</div>}
+      <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200 dark:divide-gray-800 dark:border-gray-800">
+        {versions.map((v) => (
+          <li key={v.id} className="flex items-start justify-between gap-3 px-3 py-2 text-xs">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-gray-900 dark:text-white">v{v.version}</span>
+                <span className="text-gray-400">{new Date(v.createdAt).toLocaleString()}</span>
+                <span className="text-gray-400">· {v.schema.fields.length} fields</span>
+              </div>
+              {v.migrations.length > 0 && (
+                <p className="mt-0.5 truncate text-gray-500 dark:text-gray-400">
+                  {v.migrations.map(describeStep).join("; ")}
+                </p>
+              )}
+              {v.error && <p className="mt-0.5 text-red-600 dark:text-red-400">{v.error}</p>}
+            </div>
+            <div className="flex flex-shrink-0 items-center gap-2">
+              {v.affectedCount > 0 && (
+                <span className="text-gray-500 dark:text-gray-400">
+                  {v.processedCount}/{v.affectedCount} records
+                </span>
+              )}
+              <span
+                className={`inline-flex rounded-full px-2 py-0.5 font-medium ${STATUS_COLORS[v.status]}`}
+              >
+                {v.status}
+              </span>
+              {v.status === "failed" && (
+                <button
+                  type="button"
+                  onClick={() => handleRetry(v.id)}
+                  className="rounded p-1 text-gray-400 hover:text-blue-600"
+                  title="Retry migration"
+                >
+                  <RotateCw size={12} />
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
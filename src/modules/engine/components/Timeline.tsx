@@ -1,9 +1,15 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
 import { tw } from "./DynamicField";
-import type { TimelineEvent } from "@/modules/engine/services/timeline.service";
-import { addNoteAction } from "@/modules/engine/actions/timeline.actions";
+import {
+  TimelineEventTypes,
+  type TimelineEvent,
+  type TimelineEventType,
+  type TimelineFieldChange,
+} from "@/modules/engine/types/timeline.types";
+import { addNoteAction, getTimelineAction } from "@/modules/engine/actions/timeline.actions";
 import { useRouter } from "next/navigation";
 import {
   Clock,
@@ -13,38 +19,92 @@ import {
   Layers,
   Zap,
   Send,
+  PencilLine,
+  UserRound,
+  FilePlus,
+  Handshake,
 } from "lucide-react";
 
 interface Props {
   objectId: string;
+  /** First page of events, newest first */
   events: TimelineEvent[];
+  /** Cursor of the next page, null when all events are loaded */
+  nextCursor?: string | null;
 }
 
 const EVENT_ICONS: Record<string, React.ReactNode> = {
   status_change: <ArrowRightLeft size={14} />,
+  field_change: <PencilLine size={14} />,
+  owner_change: <UserRound size={14} />,
   note: <MessageSquare size={14} />,
   relation_added: <Link2 size={14} />,
   relation_removed: <Link2 size={14} />,
   module_attached: <Layers size={14} />,
   module_detached: <Layers size={14} />,
+  object_created: <FilePlus size={14} />,
+  proposal: <Handshake size={14} />,
   custom: <Zap size={14} />,
 };
 
 const EVENT_COLORS: Record<string, string> = {
   status_change: "bg-blue-100 text-blue-600 dark:bg-blue-900 dark:text-blue-400",
+  field_change: "bg-sky-100 text-sky-600 dark:bg-sky-900 dark:text-sky-400",
+  owner_change: "bg-indigo-100 text-indigo-600 dark:bg-indigo-900 dark:text-indigo-400",
   note: "bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400",
   relation_added: "bg-green-100 text-green-600 dark:bg-green-900 dark:text-green-400",
   relation_removed: "bg-red-100 text-red-600 dark:bg-red-900 dark:text-red-400",
   module_attached: "bg-purple-100 text-purple-600 dark:bg-purple-900 dark:text-purple-400",
   module_detached: "bg-orange-100 text-orange-600 dark:bg-orange-900 dark:text-orange-400",
+  object_created: "bg-emerald-100 text-emerald-600 dark:bg-emerald-900 dark:text-emerald-400",
+  proposal: "bg-teal-100 text-teal-600 dark:bg-teal-900 dark:text-teal-400",
   custom: "bg-amber-100 text-amber-600 dark:bg-amber-900 dark:text-amber-400",
 };
 
-export function Timeline({ objectId, events }: Props) {
+export function Timeline({ objectId, events: initialEvents, nextCursor: initialCursor = null }: Props) {
   const router = useRouter();
   const [note, setNote] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [events, setEvents] = useState(initialEvents);
+  const [cursor, setCursor] = useState<string | null>(initialCursor);
+  const [eventTypes, setEventTypes] = useState<TimelineEventType[]>([]);
+  const [fetching, setFetching] = useState(false);
+
+  // Load a page; without a cursor it replaces the list
+  const load = useCallback(
+    async (types: TimelineEventType[], after: string | null) => {
+      setFetching(true);
+      setError(null);
+      const result = await getTimelineAction(objectId, {
+        eventTypes: types,
+        cursor: after ?? undefined,
+      });
+      setFetching(false);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      setEvents((prev) => (after ? [...prev, ...result.data.events] : result.data.events));
+      setCursor(result.data.nextCursor);
+    },
+    [objectId]
+  );
+
+  // Fresh server data (e.g. after adding a note) replaces the list
+  useEffect(() => {
+    setEvents(initialEvents);
+    setCursor(initialCursor);
+    setEventTypes([]);
+  }, [initialEvents, initialCursor]);
+
+  function toggleEventType(type: TimelineEventType) {
+    const next = eventTypes.includes(type)
+      ? eventTypes.filter((t) => t !== type)
+      : [...eventTypes, type];
+    setEventTypes(next);
+    load(next, null);
+  }
 
   async function handleAddNote(e: React.FormEvent) {
     e.preventDefault();
@@ -91,10 +151,44 @@ export function Timeline({ objectId, events }: Props) {
         {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
       </form>
 
+      {/* Event type filter */}
+      <div className="flex flex-wrap items-center gap-1.5">
+        {TimelineEventTypes.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => toggleEventType(value)}
+            disabled={fetching}
+            className={`rounded-full border px-2.5 py-0.5 text-xs transition-colors ${
+              eventTypes.includes(value)
+                ? "border-blue-300 bg-blue-50 text-blue-700 dark:border-blue-700 dark:bg-blue-950 dark:text-blue-300"
+                : "border-gray-200 text-gray-500 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-gray-800"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+        {eventTypes.length > 0 && (
+          <button
+            type="button"
+            onClick={() => {
+              setEventTypes([]);
+              load([], null);
+            }}
+            disabled={fetching}
+            className="px-1.5 text-xs text-gray-400 hover:text-gray-600"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
       {/* Timeline */}
       {events.length === 0 ? (
         <p className="py-4 text-center text-sm text-gray-500">
-          No timeline events yet. Add a note or change a status to start tracking.
+          {eventTypes.length > 0
+            ? "No events of these types."
+            : "No timeline events yet. Add a note or change a status to start tracking."}
         </p>
       ) : (
         <div className="relative">
@@ -105,11 +199,7 @@ export function Timeline({ objectId, events }: Props) {
             {events.map((event) => (
               <div key={event.id} className="relative flex gap-3 pl-2">
                 {/* Icon dot */}
-                <div
-                  className={`relative z-10 flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full ${EVENT_COLORS[event.eventType] ?? EVENT_COLORS.custom}`}
-                >
-                  {EVENT_ICONS[event.eventType] ?? EVENT_ICONS.custom}
-                </div>
+                <TimelineEventIcon eventType={event.eventType} />
 
                 {/* Content */}
                 <div className="flex-1 pb-4">
@@ -130,29 +220,110 @@ export function Timeline({ objectId, events }: Props) {
                     </span>
                   </div>
 
-                  {/* Metadata chips for status changes */}
-                  {event.eventType === "status_change" && event.metadata && (
-                    <div className="mt-1 flex items-center gap-1 text-xs">
-                      <span className="rounded bg-gray-100 px-1.5 py-0.5 text-gray-600 dark:bg-gray-800 dark:text-gray-400">
-                        {String(event.metadata.oldValue ?? "?")}
-                      </span>
-                      <span className="text-gray-400">→</span>
-                      <span className="rounded bg-blue-50 px-1.5 py-0.5 text-blue-700 dark:bg-blue-950 dark:text-blue-300">
-                        {String(event.metadata.newValue ?? "?")}
-                      </span>
-                    </div>
-                  )}
+                  <TimelineEventDetails event={event} />
                 </div>
               </div>
             ))}
           </div>
+
+          {cursor && (
+            <div className="pt-2 text-center">
+              <button
+                type="button"
+                onClick={() => load(eventTypes, cursor)}
+                disabled={fetching}
+                className={tw.btnSecondary}
+              >
+                {fetching ? "Loading…" : "Load more"}
+              </button>
+            </div>
+          )}
         </div>
       )}
     </div>
   );
 }
 
-function formatRelativeTime(dateStr: string): string {
+/** The colored icon dot of an event */
+export function TimelineEventIcon({ eventType }: { eventType: string }) {
+  return (
+    <div
+      className={`relative z-10 flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full ${EVENT_COLORS[eventType] ?? EVENT_COLORS.custom}`}
+    >
+      {EVENT_ICONS[eventType] ?? EVENT_ICONS.custom}
+    </div>
+  );
+}
+
+/** What changed, below an event's title */
+export function TimelineEventDetails({ event }: { event: TimelineEvent }) {
+  return (
+    <>
+      {/* Metadata chips for status changes */}
+      {event.eventType === "status_change" && event.metadata && (
+        <ChangeChips
+          from={String(event.metadata.oldValue ?? "?")}
+          to={String(event.metadata.newValue ?? "?")}
+        />
+      )}
+
+      {/* Previous and new owner */}
+      {event.eventType === "owner_change" && (
+        <ChangeChips
+          from={String(event.metadata.oldName ?? "Nobody")}
+          to={String(event.metadata.newName ?? "Nobody")}
+        />
+      )}
+
+      {/* One row per changed field */}
+      {event.eventType === "field_change" && (
+        <div className="mt-1 space-y-1">
+          {((event.metadata.changes ?? []) as TimelineFieldChange[]).map((c) => (
+            <div key={c.field} className="flex flex-wrap items-center gap-1 text-xs">
+              <span className="text-gray-500">{c.label}:</span>
+              <ChangeChips from={formatValue(c.oldValue)} to={formatValue(c.newValue)} inline />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Link to the other side of a relation */}
+      {(event.eventType === "relation_added" || event.eventType === "relation_removed") &&
+        typeof event.metadata.relatedObjectId === "string" && (
+          <Link
+            href={`/objects/${event.metadata.relatedObjectId}`}
+            className="mt-1 inline-block text-xs text-blue-600 hover:underline dark:text-blue-400"
+          >
+            View {String(event.metadata.relatedObjectName ?? "record")}
+          </Link>
+        )}
+    </>
+  );
+}
+
+function ChangeChips({ from, to, inline }: { from: string; to: string; inline?: boolean }) {
+  return (
+    <span className={`${inline ? "inline-flex" : "mt-1 flex"} items-center gap-1 text-xs`}>
+      <span className="rounded bg-gray-100 px-1.5 py-0.5 text-gray-600 dark:bg-gray-800 dark:text-gray-400">
+        {from}
+      </span>
+      <span className="text-gray-400">→</span>
+      <span className="rounded bg-blue-50 px-1.5 py-0.5 text-blue-700 dark:bg-blue-950 dark:text-blue-300">
+        {to}
+      </span>
+    </span>
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value == null || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.map(String).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function formatRelativeTime(dateStr: string): string {
   const now = new Date();
   const date = new Date(dateStr);
   const diffMs = now.getTime() - date.getTime();
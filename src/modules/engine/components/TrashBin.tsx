@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { purgeObjectAction, restoreObjectAction } from "@/modules/engine/actions/trash.actions";
+import type { TrashedObject } from "@/modules/engine/types/trash.types";
+
+// ── Types ────────────────────────────────────
+
+interface Props {
+  objects: TrashedObject[];
+  retentionDays: number;
+}
+
+type TrashGroup = { type: TrashedObject["objectType"]; objects: TrashedObject[] };
+
+function groupByType(objects: TrashedObject[]): TrashGroup[] {
+  const groups = new Map<string, TrashGroup>();
+  for (const obj of objects) {
+    const group = groups.get(obj.objectType.id) ?? { type: obj.objectType, objects: [] };
+    group.objects.push(obj);
+    groups.set(obj.objectType.id, group);
+  }
+  return [...groups.values()].sort((a, b) =>
+    a.type.displayName.localeCompare(b.type.displayName)
+  );
+}
+
+// ── Component ────────────────────────────────
+
+/**
+ * Deleted objects grouped by type, with restore and delete-forever actions.
+ */
+export function TrashBin({ objects, retentionDays }: Props) {
+  const router = useRouter();
+  const [typeFilter, setTypeFilter] = useState<string>("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const groups = groupByType(objects);
+  const visibleGroups = typeFilter ? groups.filter((g) => g.type.id === typeFilter) : groups;
+
+  async function handleRestore(obj: TrashedObject) {
+    setError(null);
+    setBusyId(obj.id);
+    try {
+      const result = await restoreObjectAction(obj.id);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to restore object");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function handlePurge(obj: TrashedObject) {
+    if (!confirm(`Delete "${obj.displayName}" permanently? This cannot be undone.`)) return;
+    setError(null);
+    setBusyId(obj.id);
+    try {
+      const result = await purgeObjectAction(obj.id);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to delete object");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  if (objects.length === 0) {
+    return (
+      <div className="rounded-xl border border-dashed border-gray-300 p-10 text-center dark:border-gray-700">
+        <Trash2 size={28} className="mx-auto text-gray-300 dark:text-gray-600" />
+        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">The trash is empty.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Objects are deleted permanently {retentionDays} days after they were moved to the trash.
+        </p>
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value)}
+          className="rounded-lg border border-gray-300 px-2 py-1.5 text-sm dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+        >
+          <option value="">All types ({objects.length})</option>
+          {groups.map((g) => (
+            <option key={g.type.id} value={g.type.id}>
+              {g.type.displayName} ({g.objects.length})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600 dark:bg-red-950 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {visibleGroups.map((group) => (
+        <div
+          key={group.type.id}
+          className="rounded-xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-gray-900"
+        >
+          <div className="flex items-center gap-2 border-b border-gray-100 px-4 py-3 dark:border-gray-800">
+            <span
+              className="inline-block h-3 w-3 flex-shrink-0 rounded-full"
+              style={{ backgroundColor: group.type.color }}
+            />
+            <h2 className="text-sm font-semibold text-gray-900 dark:text-white">
+              {group.type.displayName}
+            </h2>
+            <span className="text-xs text-gray-400">{group.objects.length}</span>
+          </div>
+          <ul>
+            {group.objects.map((obj) => (
+              <li
+                key={obj.id}
+                className="flex items-center justify-between gap-4 border-b border-gray-100 px-4 py-3 last:border-0 dark:border-gray-800/50"
+              >
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium text-gray-900 dark:text-white">
+                    {obj.displayName}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Deleted {new Date(obj.deletedAt).toLocaleDateString()}
+                    {obj.deletedBy && ` by ${obj.deletedBy}`} · purged on{" "}
+                    {new Date(obj.purgeAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex flex-shrink-0 items-center gap-2">
+                  <button
+                    onClick={() => handleRestore(obj)}
+                    disabled={busyId === obj.id}
+                    className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-800"
+                  >
+                    <RotateCcw size={12} />
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => handlePurge(obj)}
+                    disabled={busyId === obj.id}
+                    className="inline-flex items-center gap-1 rounded-lg px-3 py-1.5 text-xs font-medium text-red-600 hover:bg-red-50 disabled:opacity-50 dark:text-red-400 dark:hover:bg-red-950"
+                  >
+                    <Trash2 size={12} />
+                    Delete forever
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,431 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { clsx } from "clsx";
+import { tw } from "./DynamicField";
+import {
+  saveWorkflowAction,
+  deleteWorkflowAction,
+} from "@/modules/engine/actions/workflow.actions";
+import type { ModuleRowTyped, ModuleFieldDef } from "@/modules/engine/types/module.types";
+import type { ObjectTypeWithModules } from "@/modules/engine/types/object.types";
+import type {
+  Workflow,
+  WorkflowState,
+  WorkflowTransition,
+  WorkflowFieldRef,
+} from "@/modules/engine/types/workflow.types";
+import { GitBranch, Trash2, X } from "lucide-react";
+
+// ── Types ────────────────────────────────────
+
+interface Props {
+  objectType: ObjectTypeWithModules;
+  modules: ModuleRowTyped[];
+  workflow: Workflow | null;
+}
+
+// ── Component ────────────────────────────────
+
+export function WorkflowEditor({ objectType, modules, workflow }: Props) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Modules attached to this type, with their schemas
+  const typeModules = objectType.modules
+    .map((m) => modules.find((mod) => mod.id === m.module_id))
+    .filter((m): m is ModuleRowTyped => !!m);
+
+  // Candidate stage fields: select fields on attached modules
+  const stageFieldCandidates: { moduleName: string; field: ModuleFieldDef }[] = [];
+  for (const mod of typeModules) {
+    for (const field of mod.schema.fields) {
+      if (field.type === "select") {
+        stageFieldCandidates.push({ moduleName: mod.name, field });
+      }
+    }
+  }
+
+  // All fields that can be required by a transition
+  const allFieldRefs: (WorkflowFieldRef & { label: string })[] = typeModules.flatMap((mod) =>
+    mod.schema.fields.map((f) => ({
+      module: mod.name,
+      field: f.key,
+      label: `${mod.display_name} › ${f.label}`,
+    }))
+  );
+
+  const initialCandidate =
+    stageFieldCandidates.find((c) => c.moduleName === "stage") ?? stageFieldCandidates[0];
+
+  const [stageField, setStageField] = useState(
+    workflow
+      ? `${workflow.moduleName}.${workflow.fieldKey}`
+      : initialCandidate
+        ? `${initialCandidate.moduleName}.${initialCandidate.field.key}`
+        : ""
+  );
+  const [states, setStates] = useState<WorkflowState[]>(workflow?.states ?? []);
+  const [transitions, setTransitions] = useState<WorkflowTransition[]>(
+    workflow?.transitions ?? []
+  );
+  const [isActive, setIsActive] = useState(workflow?.isActive ?? true);
+
+  const [moduleName, fieldKey] = stageField.split(".");
+
+  function loadStatesFromField() {
+    const candidate = stageFieldCandidates.find(
+      (c) => c.moduleName === moduleName && c.field.key === fieldKey
+    );
+    if (!candidate) return;
+    const options = candidate.field.options ?? [];
+    setStates(
+      options.map((o, idx) => ({
+        value: o.value,
+        label: o.label,
+        color: o.color,
+        isInitial: idx === 0,
+      }))
+    );
+    setTransitions([]);
+  }
+
+  function updateState(idx: number, partial: Partial<WorkflowState>) {
+    setStates((prev) => prev.map((s, i) => (i === idx ? { ...s, ...partial } : s)));
+  }
+
+  /** Terminal states can't be left, so their outgoing transitions go */
+  function markTerminal(idx: number, isTerminal: boolean) {
+    const value = states[idx].value;
+    updateState(idx, { isTerminal });
+    if (isTerminal) setTransitions((prev) => prev.filter((t) => t.from !== value));
+  }
+
+  function removeState(idx: number) {
+    const removed = states[idx];
+    setStates((prev) => prev.filter((_, i) => i !== idx));
+    setTransitions((prev) =>
+      prev.filter((t) => t.from !== removed.value && t.to !== removed.value)
+    );
+  }
+
+  function hasTransition(from: string, to: string): boolean {
+    return transitions.some((t) => t.from === from && t.to === to);
+  }
+
+  function toggleTransition(from: string, to: string) {
+    setTransitions((prev) =>
+      hasTransition(from, to)
+        ? prev.filter((t) => !(t.from === from && t.to === to))
+        : [...prev, { from, to }]
+    );
+  }
+
+  function updateRequiredFields(from: string, to: string, refs: WorkflowFieldRef[]) {
+    setTransitions((prev) =>
+      prev.map((t) =>
+        t.from === from && t.to === to ? { ...t, requiredFields: refs } : t
+      )
+    );
+  }
+
+  async function handleSave() {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await saveWorkflowAction(objectType.id, {
+        moduleName,
+        fieldKey,
+        states,
+        transitions,
+        isActive,
+      });
+      if (!result.success) {
+        setError(result.error ?? "Failed to save workflow");
+        return;
+      }
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to save workflow");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!confirm("Remove this workflow? Stage changes will no longer be restricted.")) return;
+    setError(null);
+    try {
+      const result = await deleteWorkflowAction(objectType.id);
+      if (!result.success) {
+        setError(result.error ?? "Failed to remove workflow");
+        return;
+      }
+      setStates([]);
+      setTransitions([]);
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to remove workflow");
+    }
+  }
+
+  const stateLabel = (value: string) =>
+    states.find((s) => s.value === value)?.label ?? value;
+
+  if (stageFieldCandidates.length === 0) {
+    return (
+      <div className={tw.card}>
+        <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+          Workflows need a select field to track the stage. Attach a module with a
+          select field (e.g. Stage) to {objectType.display_name} first.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Control which stages {objectType.display_name} records can move between.
+        </p>
+        {workflow && (
+          <button type="button" onClick={handleDelete} className={tw.btnSecondary}>
+            <Trash2 size={14} className="mr-1 inline" />
+            Remove Workflow
+          </button>
+        )}
+      </div>
+
+      {error && <div className={tw.error}>{error}</div>}
+
+      {/* Stage field */}
+      <div className={tw.card}>
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+          <div>
+            <label className={tw.label}>Stage Field</label>
+            <select
+              className={tw.input}
+              value={stageField}
+              onChange={(e) => setStageField(e.target.value)}
+            >
+              {stageFieldCandidates.map((c) => (
+                <option
+                  key={`${c.moduleName}.${c.field.key}`}
+                  value={`${c.moduleName}.${c.field.key}`}
+                >
+                  {c.moduleName} › {c.field.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-end justify-between gap-2">
+            <button type="button" onClick={loadStatesFromField} className={tw.btnSecondary}>
+              Load states from field options
+            </button>
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              <input
+                type="checkbox"
+                checked={isActive}
+                onChange={(e) => setIsActive(e.target.checked)}
+              />
+              Enforced
+            </label>
+          </div>
+        </div>
+      </div>
+
+      {/* States */}
+      <div className={tw.card}>
+        <div className="mb-3 flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white">States</h3>
+          <button
+            type="button"
+            onClick={() => setStates((prev) => [...prev, { value: "", label: "" }])}
+            className="text-xs font-medium text-blue-600 hover:text-blue-700"
+          >
+            + Add State
+          </button>
+        </div>
+        {states.length === 0 ? (
+          <p className="text-xs text-gray-400">
+            No states yet. Load them from the field options or add them manually.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {states.map((state, idx) => (
+              <div key={idx} className="flex items-center gap-2">
+                <input
+                  className={tw.input}
+                  placeholder="Label"
+                  value={state.label}
+                  onChange={(e) => updateState(idx, { label: e.target.value })}
+                />
+                <input
+                  className={tw.input}
+                  placeholder="Value"
+                  value={state.value}
+                  onChange={(e) => updateState(idx, { value: e.target.value })}
+                />
+                <label className="flex shrink-0 items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={state.isInitial ?? false}
+                    onChange={(e) => updateState(idx, { isInitial: e.target.checked })}
+                  />
+                  Initial
+                </label>
+                <label className="flex shrink-0 items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={state.isTerminal ?? false}
+                    onChange={(e) => markTerminal(idx, e.target.checked)}
+                  />
+                  Terminal
+                </label>
+                <button
+                  type="button"
+                  onClick={() => removeState(idx)}
+                  className="rounded p-1 text-gray-400 hover:text-red-600"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Transition matrix */}
+      {states.length > 1 && (
+        <div className={tw.card}>
+          <h3 className="mb-3 text-sm font-semibold text-gray-900 dark:text-white">
+            Allowed Transitions
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="text-xs">
+              <thead>
+                <tr>
+                  <th className="px-2 py-1 text-left text-gray-400">From ↓ / To →</th>
+                  {states.map((to) => (
+                    <th key={to.value} className="px-2 py-1 text-center font-medium text-gray-600 dark:text-gray-300">
+                      {to.label || to.value}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {states.map((from) => (
+                  <tr key={from.value}>
+                    <td className="px-2 py-1 font-medium text-gray-600 dark:text-gray-300">
+                      {from.label || from.value}
+                    </td>
+                    {states.map((to) => (
+                      <td key={to.value} className="px-2 py-1 text-center">
+                        {from.value === to.value ? (
+                          <span className="text-gray-300 dark:text-gray-600">—</span>
+                        ) : (
+                          <input
+                            type="checkbox"
+                            checked={hasTransition(from.value, to.value)}
+                            disabled={from.isTerminal}
+                            onChange={() => toggleTransition(from.value, to.value)}
+                          />
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Required fields per transition */}
+      {transitions.length > 0 && (
+        <div className={tw.card}>
+          <h3 className="mb-3 text-sm font-semibold text-gray-900 dark:text-white">
+            Required Fields per Transition
+          </h3>
+          <div className="space-y-2">
+            {transitions.map((t) => {
+              const required = t.requiredFields ?? [];
+              const available = allFieldRefs.filter(
+                (ref) => !required.some((r) => r.module === ref.module && r.field === ref.field)
+              );
+              return (
+                <div
+                  key={`${t.from}-${t.to}`}
+                  className="flex flex-wrap items-center gap-2 rounded-lg border border-gray-200 px-3 py-2 dark:border-gray-800"
+                >
+                  <GitBranch size={14} className="text-gray-400" />
+                  <span className="text-sm text-gray-900 dark:text-white">
+                    {stateLabel(t.from)} → {stateLabel(t.to)}
+                  </span>
+                  {required.map((ref) => (
+                    <span
+                      key={`${ref.module}.${ref.field}`}
+                      className={clsx(tw.badge, "gap-1 bg-blue-50 text-blue-700 dark:bg-blue-950 dark:text-blue-300")}
+                    >
+                      {ref.module}.{ref.field}
+                      <button
+                        type="button"
+                        onClick={() =>
+                          updateRequiredFields(
+                            t.from,
+                            t.to,
+                            required.filter((r) => r !== ref)
+                          )
+                        }
+                      >
+                        <X size={10} />
+                      </button>
+                    </span>
+                  ))}
+                  {available.length > 0 && (
+                    <select
+                      className="rounded border border-gray-300 px-2 py-1 text-xs dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+                      value=""
+                      onChange={(e) => {
+                        const ref = available.find(
+                          (r) => `${r.module}.${r.field}` === e.target.value
+                        );
+                        if (ref) {
+                          updateRequiredFields(t.from, t.to, [
+                            ...required,
+                            { module: ref.module, field: ref.field },
+                          ]);
+                        }
+                      }}
+                    >
+                      <option value="">+ Require field…</option>
+                      {available.map((ref) => (
+                        <option key={`${ref.module}.${ref.field}`} value={`${ref.module}.${ref.field}`}>
+                          {ref.label}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={handleSave}
+          className={tw.btnPrimary}
+          disabled={loading || states.length === 0}
+        >
+          {loading ? "Saving…" : workflow ? "Update Workflow" : "Create Workflow"}
+        </button>
+      </div>
+    </div>
+  );
+}
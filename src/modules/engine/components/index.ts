@@ -3,6 +3,7 @@
  */
 export { DynamicField, tw } from "./DynamicField";
 export { DynamicForm } from "./DynamicForm";
+export { ObjectPicker } from "./ObjectPicker";
 export { ObjectCreateForm } from "./ObjectCreateForm";
 export { ObjectEditForm } from "./ObjectEditForm";
 export { ObjectDetailView } from "./ObjectDetailView";
@@ -17,3 +18,16 @@ export { PipelineView } from "./PipelineView";
 export { Timeline } from "./Timeline";
 export { ProcessorInsights } from "./ProcessorInsights";
 export { PageRenderer } from "./PageRenderer";
+export { WorkflowEditor } from "./WorkflowEditor";
+export { AutomationManager } from "./AutomationManager";
+export { RollupManager } from "./RollupManager";
+export { DuplicateRuleManager } from "./DuplicateRuleManager";
+export { ImportWizard } from "./ImportWizard";
+export { SchemaMigrationPanel } from "./SchemaMigrationPanel";
+export { SchemaVersionHistory } from "./SchemaVersionHistory";
+export { RecordSharing } from "./RecordSharing";
+export { TrashBin } from "./TrashBin";
+export { ActivityFeed } from "./ActivityFeed";
+export { RecordHistory } from "./RecordHistory";
+export { DuplicateQueue } from "./DuplicateQueue";
+export { MergeTool } from "./MergeTool";
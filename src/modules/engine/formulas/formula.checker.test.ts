@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import type { ModuleFieldDef, ModuleSchema } from "../types/module.types";
+import {
+  FormulaTypeError,
+  checkModuleFormulas,
+  compileFormula,
+  type FormulaSchemaMap,
+} from "./formula.checker";
+import { FormulaSyntaxError } from "./formula.parser";
+
+function field(key: string, type: ModuleFieldDef["type"], extra: Partial<ModuleFieldDef> = {}): ModuleFieldDef {
+  return { key, type, label: key, ...extra };
+}
+
+const monetary: ModuleSchema = {
+  fields: [
+    field("amount", "number"),
+    field("probability", "number"),
+    field("currency", "text"),
+    field("paid", "boolean"),
+    field("close_date", "date"),
+    field("labels", "multiselect"),
+    field("account", "relation", { targetType: "company" }),
+    field("contacts", "relation", { targetType: "contact", multiple: true }),
+    field("weighted", "formula", { formula: "amount * probability / 100" }),
+  ],
+};
+
+const schemas: FormulaSchemaMap = new Map([
+  ["monetary", monetary],
+  ["stage", { fields: [field("stage", "select")] }],
+]);
+
+const typeOf = (expression: string, moduleName = "monetary") =>
+  compileFormula(expression, moduleName, schemas).type;
+
+describe("compileFormula", () => {
+  it("infers literal and field types", () => {
+    expect(typeOf("1")).toBe("number");
+    expect(typeOf('"a"')).toBe("string");
+    expect(typeOf("true")).toBe("boolean");
+    expect(typeOf("null")).toBe("any");
+    expect(typeOf("monetary.paid")).toBe("boolean");
+    expect(typeOf("close_date")).toBe("date");
+    expect(typeOf("labels")).toBe("list");
+    expect(typeOf("account")).toBe("string");
+    expect(typeOf("contacts")).toBe("list");
+    expect(typeOf("stage.stage")).toBe("string");
+  });
+
+  it("checks referenced formulas for their type", () => {
+    expect(typeOf("weighted * 2")).toBe("number");
+  });
+
+  it("resolves bare names to the own module, then to object properties", () => {
+    expect(compileFormula("amount", "monetary", schemas).ast).toEqual({
+      kind: "ref",
+      module: "monetary",
+      field: "amount",
+    });
+    expect(compileFormula("created_at", "monetary", schemas)).toEqual({
+      ast: { kind: "prop", name: "created_at" },
+      type: "date",
+    });
+  });
+
+  it("infers operator result types", () => {
+    expect(typeOf("amount + 1")).toBe("number");
+    expect(typeOf("currency + amount")).toBe("string");
+    expect(typeOf("close_date + 7")).toBe("date");
+    expect(typeOf("7 + close_date")).toBe("date");
+    expect(typeOf("close_date - created_at")).toBe("number");
+    expect(typeOf("close_date - 1")).toBe("date");
+    expect(typeOf("amount % 3")).toBe("number");
+    expect(typeOf("-amount")).toBe("number");
+    expect(typeOf("!paid")).toBe("boolean");
+    expect(typeOf("amount > 100 && paid")).toBe("boolean");
+    expect(typeOf('close_date < "2026-01-01"')).toBe("boolean");
+    expect(typeOf("null + null")).toBe("any");
+  });
+
+  it("infers function result types", () => {
+    expect(typeOf("if(paid, amount, 0)")).toBe("number");
+    expect(typeOf('if(paid, amount, "none")')).toBe("any");
+    expect(typeOf("coalesce(currency, \"USD\")")).toBe("string");
+    expect(typeOf("round(amount, 2)")).toBe("number");
+    expect(typeOf("len(labels)")).toBe("number");
+    expect(typeOf('contains(labels, "vip")')).toBe("boolean");
+    expect(typeOf("concat(amount, currency)")).toBe("string");
+    expect(typeOf("days_since(close_date)")).toBe("number");
+    expect(typeOf("today()")).toBe("date");
+  });
+
+  it.each([
+    ["missing", "Unknown field 'missing'"],
+    ["billing.amount", "Unknown module 'billing'"],
+    ["monetary.missing", "Unknown field 'monetary.missing'"],
+    ["sqrt(amount)", "Unknown function 'sqrt()'"],
+    ["if(paid, 1)", "Wrong number of arguments: if(condition, then, else)"],
+    ["today(1)", "Wrong number of arguments: today()"],
+    ["currency * 2", "Operator '*' cannot combine string and number"],
+    ["paid - 1", "Operator '-' cannot combine boolean and number"],
+    ["paid + amount", "Operator '+' cannot combine boolean and number"],
+    ["paid < true", "Operator '<' cannot combine boolean and boolean"],
+    ["amount < currency", "Operator '<' cannot combine number and string"],
+    ["labels > labels", "Operator '>' cannot combine list and list"],
+    ["-currency", "Cannot negate a string"],
+    ["round(currency)", "round() expects numbers"],
+    ["len(amount)", "len() expects text or a list"],
+    ["contains(amount, 1)", "contains() expects text or a list"],
+    ["year(amount)", "year() expects a date"],
+    ["days_between(close_date, paid)", "days_between() expects dates"],
+  ])("rejects %j", (expression, message) => {
+    expect(() => compileFormula(expression, "monetary", schemas)).toThrow(FormulaTypeError);
+    expect(() => compileFormula(expression, "monetary", schemas)).toThrow(message);
+  });
+
+  it("passes syntax errors through", () => {
+    expect(() => compileFormula("amount +", "monetary", schemas)).toThrow(FormulaSyntaxError);
+  });
+});
+
+describe("checkModuleFormulas", () => {
+  it("fills in the inferred result type", () => {
+    const { schema, errors } = checkModuleFormulas("monetary", monetary, schemas);
+
+    expect(errors).toEqual([]);
+    expect(schema.fields.find((f) => f.key === "weighted")?.resultType).toBe("number");
+  });
+
+  it("shows mixed-type formulas as text", () => {
+    const { schema } = checkModuleFormulas(
+      "monetary",
+      { fields: [...monetary.fields, field("label", "formula", { formula: 'if(paid, amount, "open")' })] },
+      schemas
+    );
+
+    expect(schema.fields.find((f) => f.key === "label")?.resultType).toBe("string");
+  });
+
+  it("reports empty, list-valued, invalid and circular formulas per field", () => {
+    const { errors } = checkModuleFormulas(
+      "calc",
+      {
+        fields: [
+          field("empty", "formula", { formula: " " }),
+          field("list", "formula", { formula: "monetary.labels" }),
+          field("bad", "formula", { formula: "monetary.currency * 2" }),
+          field("a", "formula", { formula: "b + 1" }),
+          field("b", "formula", { formula: "a + 1" }),
+        ],
+      },
+      schemas
+    );
+
+    expect(errors).toEqual([
+      { field: "empty", message: "Formula is empty" },
+      { field: "list", message: "A formula cannot return a list" },
+      { field: "bad", message: "Operator '*' cannot combine string and number" },
+      { field: "a", message: "Circular reference through 'calc.a'" },
+      { field: "b", message: "Circular reference through 'calc.b'" },
+    ]);
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * OMP Engine — Formula Type Checker
+ *
+ * Resolves field references against the module schemas and infers the
+ * type of every expression, so mistakes (unknown fields, `text * 2`,
+ * circular formulas) are reported when a schema is saved rather than
+ * silently producing empty values on read.
+ */
+
+import type { ModuleFieldDef, ModuleSchema } from "../types/module.types";
+import type {
+  CompiledFormula,
+  FormulaFieldError,
+  FormulaNode,
+  FormulaResultType,
+  FormulaValueType,
+} from "../types/formula.types";
+import { FORMULA_FUNCTIONS } from "./formula.functions";
+import { parseFormula } from "./formula.parser";
+
+/** Object row properties formulas may reference by bare name */
+export const OBJECT_PROPERTIES: Record<string, FormulaValueType> = {
+  created_at: "date",
+  updated_at: "date",
+};
+
+export class FormulaTypeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FormulaTypeError";
+  }
+}
+
+/** Module schemas keyed by module name */
+export type FormulaSchemaMap = Map<string, ModuleSchema>;
+
+// ── Helpers ──────────────────────────────────
+
+function isA(type: FormulaValueType, ...expected: FormulaValueType[]): boolean {
+  return type === "any" || expected.includes(type);
+}
+
+class Checker {
+  constructor(
+    private moduleName: string,
+    private schemas: FormulaSchemaMap,
+    /** `module.field` keys of formulas being checked, for cycle detection */
+    private visiting: Set<string>
+  ) {}
+
+  check(node: FormulaNode): { node: FormulaNode; type: FormulaValueType } {
+    switch (node.kind) {
+      case "number":
+        return { node, type: "number" };
+      case "string":
+        return { node, type: "string" };
+      case "boolean":
+        return { node, type: "boolean" };
+      case "null":
+        return { node, type: "any" };
+      case "prop":
+        return { node, type: OBJECT_PROPERTIES[node.name] ?? "any" };
+      case "ref":
+        return this.checkRef(node.module, node.field);
+      case "unary": {
+        const operand = this.check(node.operand);
+        if (node.op === "-" && !isA(operand.type, "number")) {
+          throw new FormulaTypeError(`Cannot negate a ${operand.type}`);
+        }
+        return {
+          node: { ...node, operand: operand.node },
+          type: node.op === "-" ? "number" : "boolean",
+        };
+      }
+      case "binary": {
+        const left = this.check(node.left);
+        const right = this.check(node.right);
+        return {
+          node: { ...node, left: left.node, right: right.node },
+          type: binaryType(node.op, left.type, right.type),
+        };
+      }
+      case "call": {
+        const fn = FORMULA_FUNCTIONS[node.name];
+        if (!fn) throw new FormulaTypeError(`Unknown function '${node.name}()'`);
+        if (node.args.length < fn.minArgs || node.args.length > fn.maxArgs) {
+          throw new FormulaTypeError(`Wrong number of arguments: ${fn.description}`);
+        }
+        const args = node.args.map((a) => this.check(a));
+        const result = fn.check(args.map((a) => a.type));
+        if (!isValueType(result)) throw new FormulaTypeError(result);
+        return { node: { ...node, args: args.map((a) => a.node) }, type: result };
+      }
+    }
+  }
+
+  private checkRef(
+    module: string | null,
+    field: string
+  ): { node: FormulaNode; type: FormulaValueType } {
+    if (module === null) {
+      // Bare names: a field of the same module, else an object property
+      const own = this.schemas.get(this.moduleName)?.fields.find((f) => f.key === field);
+      if (own) return this.checkRef(this.moduleName, field);
+      if (field in OBJECT_PROPERTIES) {
+        return { node: { kind: "prop", name: field }, type: OBJECT_PROPERTIES[field] };
+      }
+      throw new FormulaTypeError(`Unknown field '${field}'`);
+    }
+
+    const schema = this.schemas.get(module);
+    if (!schema) throw new FormulaTypeError(`Unknown module '${module}'`);
+    const def = schema.fields.find((f) => f.key === field);
+    if (!def) throw new FormulaTypeError(`Unknown field '${module}.${field}'`);
+
+    return {
+      node: { kind: "ref", module, field },
+      type: fieldValueType(module, def, this.schemas, this.visiting),
+    };
+  }
+}
+
+function isValueType(value: string): value is FormulaValueType {
+  return ["number", "string", "boolean", "date", "list", "any"].includes(value);
+}
+
+function binaryType(
+  op: string,
+  left: FormulaValueType,
+  right: FormulaValueType
+): FormulaValueType {
+  const fail = () => {
+    throw new FormulaTypeError(`Operator '${op}' cannot combine ${left} and ${right}`);
+  };
+
+  switch (op) {
+    case "+":
+      if (isA(left, "number") && isA(right, "number")) {
+        return left === "any" && right === "any" ? "any" : "number";
+      }
+      if (left === "date" && isA(right, "number")) return "date";
+      if (isA(left, "number") && right === "date") return "date";
+      if (left === "string" || right === "string") return "string";
+      return fail();
+    case "-":
+      if (left === "date" && right === "date") return "number";
+      if (left === "date" && isA(right, "number")) return "date";
+      if (isA(left, "number", "date") && isA(right, "number", "date")) {
+        return left === "date" || right === "date" ? "any" : "number";
+      }
+      return fail();
+    case "*":
+    case "/":
+    case "%":
+      if (isA(left, "number") && isA(right, "number")) return "number";
+      return fail();
+    case "<":
+    case "<=":
+    case ">":
+    case ">=":
+      if (left === "any" || right === "any" || left === right) {
+        if (left === "boolean" || left === "list") return fail();
+        return "boolean";
+      }
+      // Dates compare against ISO date strings
+      if ((left === "date" && right === "string") || (left === "string" && right === "date")) {
+        return "boolean";
+      }
+      return fail();
+    default:
+      // == != && ||
+      return "boolean";
+  }
+}
+
+/**
+ * Formula value type of a field. For formula fields the referenced
+ * formula is checked too, which is where cycles are detected.
+ */
+function fieldValueType(
+  module: string,
+  def: ModuleFieldDef,
+  schemas: FormulaSchemaMap,
+  visiting: Set<string>
+): FormulaValueType {
+  switch (def.type) {
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "date":
+    case "datetime":
+      return "date";
+    case "multiselect":
+      return "list";
+    case "relation":
+      return def.multiple ? "list" : "string";
+    case "formula": {
+      const key = `${module}.${def.key}`;
+      if (visiting.has(key)) {
+        throw new FormulaTypeError(`Circular reference through '${key}'`);
+      }
+      return compileFormula(def.formula ?? "", module, schemas, new Set([...visiting, key])).type;
+    }
+    default:
+      return "string";
+  }
+}
+
+// ── Public API ───────────────────────────────
+
+/**
+ * Parse and type-check a formula owned by `moduleName`.
+ * Throws FormulaSyntaxError or FormulaTypeError.
+ */
+export function compileFormula(
+  expression: string,
+  moduleName: string,
+  schemas: FormulaSchemaMap,
+  visiting: Set<string> = new Set()
+): CompiledFormula {
+  const ast = parseFormula(expression);
+  const { node, type } = new Checker(moduleName, schemas, visiting).check(ast);
+  return { ast: node, type };
+}
+
+/**
+ * Check every formula field of a module schema. Returns the schema with
+ * each formula's inferred `resultType` filled in, plus any errors.
+ * `schemas` should hold the other modules; this module's entry is replaced.
+ */
+export function checkModuleFormulas(
+  moduleName: string,
+  schema: ModuleSchema,
+  schemas: FormulaSchemaMap
+): { schema: ModuleSchema; errors: FormulaFieldError[] } {
+  const all = new Map(schemas);
+  all.set(moduleName, schema);
+
+  const errors: FormulaFieldError[] = [];
+  const fields = schema.fields.map((field) => {
+    if (field.type !== "formula") return field;
+
+    if (!field.formula?.trim()) {
+      errors.push({ field: field.key, message: "Formula is empty" });
+      return field;
+    }
+
+    try {
+      const compiled = compileFormula(
+        field.formula,
+        moduleName,
+        all,
+        new Set([`${moduleName}.${field.key}`])
+      );
+      if (compiled.type === "list") {
+        errors.push({ field: field.key, message: "A formula cannot return a list" });
+        return field;
+      }
+      // "any" (e.g. if() with mixed branches) is displayed as text
+      const resultType: FormulaResultType = compiled.type === "any" ? "string" : compiled.type;
+      return { ...field, resultType };
+    } catch (err) {
+      errors.push({
+        field: field.key,
+        message: err instanceof Error ? err.message : "Invalid formula",
+      });
+      return field;
+    }
+  });
+
+  return { schema: { fields }, errors };
+}
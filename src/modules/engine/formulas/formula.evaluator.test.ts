@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import type { ModuleFieldDef } from "../types/module.types";
+import { compileFormula, type FormulaSchemaMap } from "./formula.checker";
+import { evaluateFormula } from "./formula.evaluator";
+import type { FormulaValue } from "./formula.functions";
+
+function field(key: string, type: ModuleFieldDef["type"]): ModuleFieldDef {
+  return { key, type, label: key };
+}
+
+const schemas: FormulaSchemaMap = new Map([
+  [
+    "deal",
+    {
+      fields: [
+        field("amount", "number"),
+        field("discount", "number"),
+        field("name", "text"),
+        field("closed", "boolean"),
+        field("close_date", "date"),
+        field("labels", "multiselect"),
+      ],
+    },
+  ],
+]);
+
+const record: Record<string, FormulaValue> = {
+  amount: 1000,
+  discount: null,
+  name: "Acme",
+  closed: false,
+  close_date: new Date("2026-03-10T00:00:00Z"),
+  labels: ["vip", "renewal"],
+};
+
+function run(expression: string, values: Record<string, FormulaValue> = record) {
+  const compiled = compileFormula(expression, "deal", schemas);
+  return evaluateFormula(compiled, {
+    ref: (_module, key) => values[key] ?? null,
+    prop: (name) => (name === "created_at" ? new Date("2026-03-01T00:00:00Z") : null),
+  });
+}
+
+describe("evaluateFormula", () => {
+  it("evaluates arithmetic with precedence", () => {
+    expect(run("amount + 10 * 2")).toBe(1020);
+    expect(run("(amount + 10) * 2")).toBe(2020);
+    expect(run("10 - 4 - 3")).toBe(3);
+    expect(run("-amount % 300")).toBe(-100);
+    expect(run("round(amount / 3)")).toBe(333);
+  });
+
+  it("propagates missing values through arithmetic and comparisons", () => {
+    expect(run("amount - discount")).toBeNull();
+    expect(run("discount * 2")).toBeNull();
+    expect(run("-discount")).toBeNull();
+    expect(run("discount > 5")).toBeNull();
+    expect(run("close_date - discount")).toBeNull();
+  });
+
+  it("treats a missing side of text concatenation as empty", () => {
+    expect(run('name + " deal"')).toBe("Acme deal");
+    expect(run('name + " deal"', { ...record, name: null })).toBe(" deal");
+    expect(run("name + amount")).toBe("Acme1000");
+  });
+
+  it("returns null for division or remainder by zero", () => {
+    expect(run("amount / 0")).toBeNull();
+    expect(run("amount % 0")).toBeNull();
+    expect(run("amount / (amount - 1000)")).toBeNull();
+  });
+
+  it("does date arithmetic in days", () => {
+    expect(run("close_date + 5")).toBe("2026-03-15T00:00:00.000Z");
+    expect(run("close_date - 10")).toBe("2026-02-28T00:00:00.000Z");
+    expect(run("close_date - created_at")).toBe(9);
+  });
+
+  it("compares numbers, text and dates", () => {
+    expect(run("amount >= 1000")).toBe(true);
+    expect(run('name < "Beta"')).toBe(true);
+    expect(run('close_date > "2026-03-01"')).toBe(true);
+    expect(run("close_date <= created_at")).toBe(false);
+    expect(run("amount == 1000")).toBe(true);
+    expect(run('name != "Acme"')).toBe(false);
+    expect(run("discount == null")).toBe(true);
+  });
+
+  it("short-circuits logic and treats empty lists as false", () => {
+    expect(run("closed || amount > 500")).toBe(true);
+    expect(run("closed && amount / 0 > 1")).toBe(false);
+    expect(run("!labels")).toBe(false);
+    expect(run("!labels", { ...record, labels: [] })).toBe(true);
+  });
+
+  it("evaluates only the branch if() takes", () => {
+    expect(run('if(closed, amount / 0, "open")')).toBe("open");
+    expect(run("if(amount > 500, amount * 0.1, 0)")).toBe(100);
+  });
+
+  it("returns JSON-safe values", () => {
+    expect(run("concat(labels)")).toBe("vip, renewal");
+    expect(run("coalesce(labels)")).toBe("vip, renewal");
+    expect(run("today()")).toMatch(/^\d{4}-\d{2}-\d{2}T00:00:00\.000Z$/);
+    expect(run("amount * amount", { ...record, amount: 1e308 })).toBeNull();
+  });
+
+  it("returns null when a stored value can't be used", () => {
+    expect(run("amount * 2", { ...record, amount: "lots" })).toBeNull();
+  });
+});
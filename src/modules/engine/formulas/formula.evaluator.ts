@@ -0,0 +1,192 @@
+/**
+ * OMP Engine — Formula Evaluator
+ *
+ * Walks a compiled formula AST. There is no `eval` and no access to
+ * anything but the values the caller resolves, and only whitelisted
+ * functions can be called. Missing values propagate as null, and runtime
+ * failures (division by zero, bad dates) produce null instead of throwing.
+ */
+
+import type { CompiledFormula, FormulaNode } from "../types/formula.types";
+import {
+  DAY_MS,
+  FORMULA_FUNCTIONS,
+  daysBetween,
+  toDate,
+  toNumber,
+  toText,
+  type FormulaValue,
+} from "./formula.functions";
+
+export interface FormulaContext {
+  /** Value of `module.field` on the object being evaluated */
+  ref: (module: string, field: string) => FormulaValue;
+  /** Value of a built-in object property such as created_at */
+  prop: (name: string) => FormulaValue;
+}
+
+// ── Helpers ──────────────────────────────────
+
+function truthy(value: FormulaValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+/** Comparable primitive: dates by timestamp, everything else as-is */
+function comparable(value: FormulaValue): number | string | boolean | null {
+  if (value instanceof Date) return value.getTime();
+  if (Array.isArray(value)) return value.join(",");
+  return value;
+}
+
+function compare(left: FormulaValue, right: FormulaValue): number | null {
+  if (left === null || right === null) return null;
+
+  if (left instanceof Date || right instanceof Date) {
+    const a = toDate(left);
+    const b = toDate(right);
+    return a && b ? a.getTime() - b.getTime() : null;
+  }
+  if (typeof left === "number" || typeof right === "number") {
+    const a = toNumber(left);
+    const b = toNumber(right);
+    return a !== null && b !== null ? a - b : null;
+  }
+  return toText(left).localeCompare(toText(right));
+}
+
+function addDays(date: Date, days: number | null): Date | null {
+  return days === null ? null : new Date(date.getTime() + days * DAY_MS);
+}
+
+function evaluateBinary(
+  op: string,
+  left: FormulaValue,
+  right: FormulaValue
+): FormulaValue {
+  switch (op) {
+    case "==":
+    case "!=": {
+      const equal = comparable(left) === comparable(right);
+      return op === "==" ? equal : !equal;
+    }
+    case "<":
+    case "<=":
+    case ">":
+    case ">=": {
+      const diff = compare(left, right);
+      if (diff === null) return null;
+      if (op === "<") return diff < 0;
+      if (op === "<=") return diff <= 0;
+      if (op === ">") return diff > 0;
+      return diff >= 0;
+    }
+    case "+":
+      if (left === null || right === null) {
+        // Text concatenation treats a missing side as empty
+        if (typeof left === "string" || typeof right === "string") {
+          return toText(left) + toText(right);
+        }
+        return null;
+      }
+      if (left instanceof Date) return addDays(left, toNumber(right));
+      if (right instanceof Date) return addDays(right, toNumber(left));
+      if (typeof left === "string" || typeof right === "string") {
+        return toText(left) + toText(right);
+      }
+      break;
+    case "-":
+      if (left === null || right === null) return null;
+      if (left instanceof Date && right instanceof Date) return daysBetween(right, left);
+      if (left instanceof Date) {
+        const days = toNumber(right);
+        return addDays(left, days === null ? null : -days);
+      }
+      break;
+  }
+
+  // Arithmetic
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a === null || b === null) return null;
+  switch (op) {
+    case "+":
+      return a + b;
+    case "-":
+      return a - b;
+    case "*":
+      return a * b;
+    case "/":
+      return b === 0 ? null : a / b;
+    case "%":
+      return b === 0 ? null : a % b;
+    default:
+      return null;
+  }
+}
+
+function evaluateNode(node: FormulaNode, ctx: FormulaContext): FormulaValue {
+  switch (node.kind) {
+    case "number":
+    case "string":
+    case "boolean":
+      return node.value;
+    case "null":
+      return null;
+    case "prop":
+      return ctx.prop(node.name);
+    case "ref":
+      // The checker resolves bare names; an unresolved ref has no value
+      return node.module === null ? null : ctx.ref(node.module, node.field);
+    case "unary": {
+      const value = evaluateNode(node.operand, ctx);
+      if (node.op === "!") return !truthy(value);
+      const n = toNumber(value);
+      return n === null ? null : -n;
+    }
+    case "binary": {
+      if (node.op === "&&") {
+        return truthy(evaluateNode(node.left, ctx)) && truthy(evaluateNode(node.right, ctx));
+      }
+      if (node.op === "||") {
+        return truthy(evaluateNode(node.left, ctx)) || truthy(evaluateNode(node.right, ctx));
+      }
+      return evaluateBinary(node.op, evaluateNode(node.left, ctx), evaluateNode(node.right, ctx));
+    }
+    case "call": {
+      const fn = FORMULA_FUNCTIONS[node.name];
+      if (!fn) return null;
+      if (node.name === "if") {
+        // Only evaluate the branch that is taken
+        const [cond, then, otherwise] = node.args;
+        return evaluateNode(truthy(evaluateNode(cond, ctx)) ? then : otherwise, ctx);
+      }
+      const args = node.args.map((a) => evaluateNode(a, ctx));
+      return fn.evaluate(args);
+    }
+  }
+}
+
+// ── Public API ───────────────────────────────
+
+/**
+ * Evaluate a compiled formula. Returns a JSON-safe value: dates become
+ * ISO strings, and non-finite numbers or runtime errors become null.
+ */
+export function evaluateFormula(
+  compiled: CompiledFormula,
+  ctx: FormulaContext
+): number | string | boolean | null {
+  let value: FormulaValue;
+  try {
+    value = evaluateNode(compiled.ast, ctx);
+  } catch {
+    return null;
+  }
+
+  if (value === null) return null;
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.toISOString();
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  return value;
+}
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  FORMULA_FUNCTIONS,
+  daysBetween,
+  toDate,
+  toNumber,
+  toText,
+  unifyTypes,
+  type FormulaValue,
+} from "./formula.functions";
+
+const call = (name: string, ...args: FormulaValue[]) => FORMULA_FUNCTIONS[name].evaluate(args);
+
+describe("conversions", () => {
+  it("converts values to numbers", () => {
+    expect(toNumber(4)).toBe(4);
+    expect(toNumber(Infinity)).toBeNull();
+    expect(toNumber(true)).toBe(1);
+    expect(toNumber("12.5")).toBe(12.5);
+    expect(toNumber(" ")).toBeNull();
+    expect(toNumber("abc")).toBeNull();
+    expect(toNumber(["a", "b"])).toBe(2);
+    expect(toNumber(new Date(1000))).toBe(1000);
+    expect(toNumber(null)).toBeNull();
+  });
+
+  it("converts values to dates and text", () => {
+    expect(toDate("2026-03-01")?.toISOString()).toBe("2026-03-01T00:00:00.000Z");
+    expect(toDate("not a date")).toBeNull();
+    expect(toDate(new Date("invalid"))).toBeNull();
+    expect(toDate(5)).toBeNull();
+    expect(toText(null)).toBe("");
+    expect(toText(["a", "b"])).toBe("a, b");
+    expect(toText(new Date("2026-03-01T00:00:00Z"))).toBe("2026-03-01T00:00:00.000Z");
+  });
+
+  it("counts whole calendar days between dates", () => {
+    expect(daysBetween("2026-03-01T23:00:00Z", "2026-03-02T01:00:00Z")).toBe(1);
+    expect(daysBetween("2026-03-10", "2026-03-01")).toBe(-9);
+    expect(daysBetween("2026-03-10", null)).toBeNull();
+  });
+
+  it("unifies branch types", () => {
+    expect(unifyTypes(["number", "any", "number"])).toBe("number");
+    expect(unifyTypes(["number", "string"])).toBe("any");
+    expect(unifyTypes(["any"])).toBe("any");
+  });
+});
+
+describe("FORMULA_FUNCTIONS", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-15T15:30:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("if picks a branch", () => {
+    expect(call("if", true, 1, 2)).toBe(1);
+    expect(call("if", null, 1, 2)).toBe(2);
+  });
+
+  it("coalesce returns the first non-empty value", () => {
+    expect(call("coalesce", null, "", "x", "y")).toBe("x");
+    expect(call("coalesce", null, "")).toBeNull();
+  });
+
+  it("rounds, floors, ceils and takes absolute values", () => {
+    expect(call("round", 2.345, 2)).toBe(2.35);
+    expect(call("round", 2.5)).toBe(3);
+    expect(call("round", null)).toBeNull();
+    expect(call("floor", 2.7)).toBe(2);
+    expect(call("ceil", 2.1)).toBe(3);
+    expect(call("abs", -4)).toBe(4);
+    expect(call("abs", "x")).toBeNull();
+  });
+
+  it("min and max skip empty values", () => {
+    expect(call("min", 3, null, 1)).toBe(1);
+    expect(call("max", 3, "7", null)).toBe(7);
+    expect(call("min", null)).toBeNull();
+  });
+
+  it("handles text", () => {
+    expect(call("concat", "a", 1, null, true)).toBe("a1true");
+    expect(call("lower", "MiXeD")).toBe("mixed");
+    expect(call("upper", "MiXeD")).toBe("MIXED");
+    expect(call("trim", "  x  ")).toBe("x");
+    expect(call("lower", null)).toBeNull();
+    expect(call("text", 5)).toBe("5");
+    expect(call("text", null)).toBeNull();
+    expect(call("number", "42")).toBe(42);
+    expect(call("number", "x")).toBeNull();
+  });
+
+  it("measures and searches text and lists", () => {
+    expect(call("len", "four")).toBe(4);
+    expect(call("len", ["a", "b"])).toBe(2);
+    expect(call("len", null)).toBe(0);
+    expect(call("contains", "Acme Corp", "acme")).toBe(true);
+    expect(call("contains", ["vip", "new"], "vip")).toBe(true);
+    expect(call("contains", ["vip"], "VIP")).toBe(false);
+    expect(call("contains", null, "x")).toBe(false);
+  });
+
+  it("reads the current date", () => {
+    expect(call("today")).toEqual(new Date("2026-03-15T00:00:00Z"));
+    expect(call("now")).toEqual(new Date("2026-03-15T15:30:00Z"));
+  });
+
+  it("works with dates", () => {
+    expect(call("days_since", "2026-03-10")).toBe(5);
+    expect(call("days_since", null)).toBeNull();
+    expect(call("days_between", "2026-01-01", "2026-02-01")).toBe(31);
+    expect(call("year", "2025-12-31")).toBe(2025);
+    expect(call("month", "2025-12-31")).toBe(12);
+    expect(call("month", "nope")).toBeNull();
+  });
+
+  it("declares arity and a type check for every function", () => {
+    for (const [name, fn] of Object.entries(FORMULA_FUNCTIONS)) {
+      expect(fn.minArgs, name).toBeLessThanOrEqual(fn.maxArgs);
+      expect(fn.description.startsWith(`${name}(`), name).toBe(true);
+      expect(typeof fn.check(Array(fn.minArgs).fill("any")), name).toBe("string");
+    }
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * OMP Engine — Formula Functions
+ *
+ * The whitelist of functions formulas may call. Each entry declares its
+ * arity, how to infer its result type for the checker, and how to
+ * evaluate it. Nothing outside this table is callable.
+ */
+
+import type { FormulaValueType } from "../types/formula.types";
+
+/** Runtime value of a formula expression */
+export type FormulaValue = number | string | boolean | Date | string[] | null;
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface FormulaFunction {
+  minArgs: number;
+  maxArgs: number;
+  description: string;
+  /** Result type, or an error message if the argument types don't fit */
+  check: (args: FormulaValueType[]) => FormulaValueType | string;
+  evaluate: (args: FormulaValue[]) => FormulaValue;
+}
+
+// ── Helpers ──────────────────────────────────
+
+function fits(actual: FormulaValueType, ...expected: FormulaValueType[]): boolean {
+  return actual === "any" || expected.includes(actual);
+}
+
+/** Check for numeric functions: every argument must be a number */
+function numbersOnly(name: string) {
+  return (args: FormulaValueType[]): FormulaValueType | string =>
+    args.every((a) => fits(a, "number")) ? "number" : `${name}() expects numbers`;
+}
+
+/** Common type of branches, or "any" when they differ */
+export function unifyTypes(types: FormulaValueType[]): FormulaValueType {
+  const known = [...new Set(types.filter((t) => t !== "any"))];
+  return known.length === 1 ? known[0] : "any";
+}
+
+export function toNumber(value: FormulaValue): number | null {
+  if (value === null) return null;
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (value instanceof Date) return value.getTime();
+  if (Array.isArray(value)) return value.length;
+  const n = Number(value);
+  return value.trim() !== "" && !Number.isNaN(n) ? n : null;
+}
+
+export function toDate(value: FormulaValue): Date | null {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+  if (typeof value === "string" && value) {
+    const d = new Date(value);
+    return Number.isNaN(d.getTime()) ? null : d;
+  }
+  return null;
+}
+
+export function toText(value: FormulaValue): string {
+  if (value === null) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+}
+
+function startOfDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+export function daysBetween(a: FormulaValue, b: FormulaValue): number | null {
+  const from = toDate(a);
+  const to = toDate(b);
+  if (!from || !to) return null;
+  return Math.round((startOfDay(to) - startOfDay(from)) / DAY_MS);
+}
+
+function numeric(fn: (n: number) => number) {
+  return ([value]: FormulaValue[]): FormulaValue => {
+    const n = toNumber(value);
+    return n === null ? null : fn(n);
+  };
+}
+
+// ── Function Table ───────────────────────────
+
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  if: {
+    minArgs: 3,
+    maxArgs: 3,
+    description: "if(condition, then, else)",
+    check: ([, a, b]) => unifyTypes([a, b]),
+    evaluate: ([cond, a, b]) => (cond ? a : b),
+  },
+  coalesce: {
+    minArgs: 1,
+    maxArgs: 10,
+    description: "coalesce(a, b, …) — first non-empty value",
+    check: (args) => unifyTypes(args),
+    evaluate: (args) => args.find((a) => a !== null && a !== "") ?? null,
+  },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    description: "round(number, digits?)",
+    check: numbersOnly("round"),
+    evaluate: ([value, digits]) => {
+      const n = toNumber(value);
+      if (n === null) return null;
+      const factor = 10 ** (toNumber(digits ?? null) ?? 0);
+      return Math.round(n * factor) / factor;
+    },
+  },
+  floor: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: "floor(number)",
+    check: numbersOnly("floor"),
+    evaluate: numeric(Math.floor),
+  },
+  ceil: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: "ceil(number)",
+    check: numbersOnly("ceil"),
+    evaluate: numeric(Math.ceil),
+  },
+  abs: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: "abs(number)",
+    check: numbersOnly("abs"),
+    evaluate: numeric(Math.abs),
+  },
+  min: {
+    minArgs: 1,
+    maxArgs: 10,
+    description: "min(a, b, …)",
+    check: numbersOnly("min"),
+    evaluate: (args) => {
+      const nums = args.map(toNumber).filter((n): n is number => n !== null);
+      return nums.length > 0 ? Math.min(...nums) : null;
+    },
+  },
+  max: {
+    minArgs: 1,
+    maxArgs: 10,
+    description: "max(a, b, …)",
+    check: numbersOnly("max"),
+    evaluate: (args) => {
+      const nums = args.map(toNumber).filter((n): n is number => n !== null);
+      return nums.length > 0 ? Math.max(...nums) : null;
+    },
+  },
+  concat: {
+    minArgs: 1,
+    maxArgs: 10,
+    description: "concat(a, b, …)",
+    check: () => "string",
+    evaluate: (args) => args.map(toText).join(""),
+  },
+  lower: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: "lower(text)",
+    check: () => "string",
+    evaluate: ([v]) => (v === null ? null : toText(v).toLowerCase()),
+  },
+  upper: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: "upper(text)",
+    check: () => "string",
+    evaluate: ([v]) => (v === null ? null : toText(v).toUpperCase()),
+  },
+  trim: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: "trim(text)",
+    check: () => "string",
+    evaluate: ([v]) => (v === null ? null : toText(v).trim()),
+  },
+  len: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: "len(text or list)",
+    check: ([a]) => (fits(a, "string", "list") ? "number" : "len() expects text or a list"),
+    evaluate: ([v]) => (v === null ? 0 : Array.isArray(v) ? v.length : toText(v).length),
+  },
+  contains: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: "contains(text or list, value)",
+    check: ([a]) =>
+      fits(a, "string", "list") ? "boolean" : "contains() expects text or a list",
+    evaluate: ([haystack, needle]) => {
+      if (haystack === null || needle === null) return false;
+      if (Array.isArray(haystack)) return haystack.includes(toText(needle));
+      return toText(haystack).toLowerCase().includes(toText(needle).toLowerCase());
+    },
+  },
+  number: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: "number(value)",
+    check: () => "number",
+    evaluate: ([v]) => toNumber(v),
+  },
+  text: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: "text(value)",
+    check: () => "string",
+    evaluate: ([v]) => (v === null ? null : toText(v)),
+  },
+  today: {
+    minArgs: 0,
+    maxArgs: 0,
+    description: "today()",
+    check: () => "date",
+    evaluate: () => new Date(startOfDay(new Date())),
+  },
+  now: {
+    minArgs: 0,
+    maxArgs: 0,
+    description: "now()",
+    check: () => "date",
+    evaluate: () => new Date(),
+  },
+  days_since: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: "days_since(date) — whole days until today",
+    check: ([a]) => (fits(a, "date", "string") ? "number" : "days_since() expects a date"),
+    evaluate: ([v]) => daysBetween(v, new Date()),
+  },
+  days_between: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: "days_between(from, to)",
+    check: (args) =>
+      args.every((a) => fits(a, "date", "string")) ? "number" : "days_between() expects dates",
+    evaluate: ([a, b]) => daysBetween(a, b),
+  },
+  year: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: "year(date)",
+    check: ([a]) => (fits(a, "date", "string") ? "number" : "year() expects a date"),
+    evaluate: ([v]) => toDate(v)?.getUTCFullYear() ?? null,
+  },
+  month: {
+    minArgs: 1,
+    maxArgs: 1,
+    description: "month(date) — 1 to 12",
+    check: ([a]) => (fits(a, "date", "string") ? "number" : "month() expects a date"),
+    evaluate: ([v]) => {
+      const d = toDate(v);
+      return d ? d.getUTCMonth() + 1 : null;
+    },
+  },
+};
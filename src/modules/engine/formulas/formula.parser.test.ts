@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import type { FormulaNode } from "../types/formula.types";
+import { FormulaSyntaxError, MAX_FORMULA_LENGTH, parseFormula } from "./formula.parser";
+
+/** Compact prefix notation of an AST, so expected trees stay readable */
+function show(node: FormulaNode): string {
+  switch (node.kind) {
+    case "number":
+    case "boolean":
+      return String(node.value);
+    case "string":
+      return JSON.stringify(node.value);
+    case "null":
+      return "null";
+    case "ref":
+      return node.module ? `${node.module}.${node.field}` : node.field;
+    case "prop":
+      return `@${node.name}`;
+    case "unary":
+      return `(${node.op} ${show(node.operand)})`;
+    case "binary":
+      return `(${node.op} ${show(node.left)} ${show(node.right)})`;
+    case "call":
+      return `${node.name}(${node.args.map(show).join(", ")})`;
+  }
+}
+
+const parse = (expression: string) => show(parseFormula(expression));
+
+describe("parseFormula", () => {
+  it("parses literals", () => {
+    expect(parse("42")).toBe("42");
+    expect(parse("3.5")).toBe("3.5");
+    expect(parse(".5")).toBe("0.5");
+    expect(parse('"deal"')).toBe('"deal"');
+    expect(parse("'it\\'s'")).toBe('"it\'s"');
+    expect(parse("true")).toBe("true");
+    expect(parse("false")).toBe("false");
+    expect(parse("null")).toBe("null");
+  });
+
+  it("parses field references and calls", () => {
+    expect(parse("monetary.amount")).toBe("monetary.amount");
+    expect(parse("amount")).toBe("amount");
+    expect(parse("today()")).toBe("today()");
+    expect(parse("ROUND(amount, 2)")).toBe("round(amount, 2)");
+  });
+
+  it("binds multiplication tighter than addition", () => {
+    expect(parse("1 + 2 * 3")).toBe("(+ 1 (* 2 3))");
+    expect(parse("1 * 2 + 3")).toBe("(+ (* 1 2) 3)");
+    expect(parse("10 % 3 - 1")).toBe("(- (% 10 3) 1)");
+  });
+
+  it("orders comparison, equality, && and || from tightest to loosest", () => {
+    expect(parse("a + 1 < b")).toBe("(< (+ a 1) b)");
+    expect(parse("a < b == c > d")).toBe("(== (< a b) (> c d))");
+    expect(parse("a == b && c != d")).toBe("(&& (== a b) (!= c d))");
+    expect(parse("a || b && c")).toBe("(|| a (&& b c))");
+  });
+
+  it("associates binary operators to the left", () => {
+    expect(parse("10 - 4 - 3")).toBe("(- (- 10 4) 3)");
+    expect(parse("12 / 3 / 2")).toBe("(/ (/ 12 3) 2)");
+    expect(parse("a || b || c")).toBe("(|| (|| a b) c)");
+  });
+
+  it("binds unary operators tighter than binary ones", () => {
+    expect(parse("-a * b")).toBe("(* (- a) b)");
+    expect(parse("!a && b")).toBe("(&& (! a) b)");
+    expect(parse("--a")).toBe("(- (- a))");
+  });
+
+  it("lets parentheses override precedence", () => {
+    expect(parse("(1 + 2) * 3")).toBe("(* (+ 1 2) 3)");
+    expect(parse("a - (b - c)")).toBe("(- a (- b c))");
+  });
+
+  it("parses nested call arguments", () => {
+    expect(parse("if(a > 1, concat(b, \"x\"), max(1, 2, 3))")).toBe(
+      'if((> a 1), concat(b, "x"), max(1, 2, 3))'
+    );
+  });
+
+  it.each([
+    ["", "Formula is empty"],
+    ["1 +", "Unexpected end of formula"],
+    ["1 2", "Unexpected '2'"],
+    ["(1 + 2", "Expected ')'"],
+    ['"open', "Unterminated string"],
+    ["1.2.3", "Invalid number '1.2.3'"],
+    ["a # b", "Unexpected character '#'"],
+    ["monetary.", "Expected a field name after 'monetary.'"],
+    ["max(1,)", "Unexpected ')'"],
+  ])("rejects %j", (expression, message) => {
+    expect(() => parseFormula(expression)).toThrow(FormulaSyntaxError);
+    expect(() => parseFormula(expression)).toThrow(message);
+  });
+
+  it("reports the position of a syntax error", () => {
+    try {
+      parseFormula("1 + * 2");
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(FormulaSyntaxError);
+      expect((err as FormulaSyntaxError).position).toBe(4);
+    }
+  });
+
+  it("rejects formulas that are too long or nested too deeply", () => {
+    expect(() => parseFormula("1".repeat(MAX_FORMULA_LENGTH + 1))).toThrow("longer than");
+    expect(() => parseFormula(`${"(".repeat(100)}1${")".repeat(100)}`)).toThrow(
+      "nested too deeply"
+    );
+  });
+});
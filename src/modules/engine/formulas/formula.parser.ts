@@ -0,0 +1,252 @@
+/**
+ * OMP Engine — Formula Parser
+ *
+ * Tokenizes and parses formula expressions into an AST with a
+ * recursive-descent parser. Grammar (lowest precedence first):
+ *
+ *   or         := and ("||" and)*
+ *   and        := equality ("&&" equality)*
+ *   equality   := comparison (("==" | "!=") comparison)*
+ *   comparison := additive (("<" | "<=" | ">" | ">=") additive)*
+ *   additive   := term (("+" | "-") term)*
+ *   term       := unary (("*" | "/" | "%") unary)*
+ *   unary      := ("-" | "!") unary | primary
+ *   primary    := number | string | true | false | null
+ *               | name "(" args ")" | name "." name | name | "(" or ")"
+ */
+
+import type { FormulaBinaryOp, FormulaNode } from "../types/formula.types";
+
+/** Longest expression accepted */
+export const MAX_FORMULA_LENGTH = 1000;
+/** Deepest nesting accepted, so hostile input can't exhaust the stack */
+const MAX_DEPTH = 64;
+
+export class FormulaSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} at position ${position + 1}`);
+    this.name = "FormulaSyntaxError";
+  }
+}
+
+type Token =
+  | { type: "number"; value: number; pos: number }
+  | { type: "string"; value: string; pos: number }
+  | { type: "name"; value: string; pos: number }
+  | { type: "op"; value: string; pos: number }
+  | { type: "eof"; pos: number };
+
+const OPERATORS = [
+  "==", "!=", "<=", ">=", "&&", "||",
+  "+", "-", "*", "/", "%", "<", ">", "!", "(", ")", ",", ".",
+];
+
+// ── Tokenizer ────────────────────────────────
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(input[i + 1] ?? ""))) {
+      const start = i;
+      while (i < input.length && /[0-9.]/.test(input[i])) i++;
+      const text = input.slice(start, i);
+      const value = Number(text);
+      if (Number.isNaN(value)) throw new FormulaSyntaxError(`Invalid number '${text}'`, start);
+      tokens.push({ type: "number", value, pos: start });
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < input.length && input[i] !== char) {
+        if (input[i] === "\\" && i + 1 < input.length) i++;
+        value += input[i];
+        i++;
+      }
+      if (i >= input.length) throw new FormulaSyntaxError("Unterminated string", start);
+      i++;
+      tokens.push({ type: "string", value, pos: start });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const start = i;
+      while (i < input.length && /[A-Za-z0-9_]/.test(input[i])) i++;
+      tokens.push({ type: "name", value: input.slice(start, i), pos: start });
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => input.startsWith(o, i));
+    if (!op) throw new FormulaSyntaxError(`Unexpected character '${char}'`, i);
+    tokens.push({ type: "op", value: op, pos: i });
+    i += op.length;
+  }
+
+  tokens.push({ type: "eof", pos: input.length });
+  return tokens;
+}
+
+// ── Parser ───────────────────────────────────
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    const node = this.parseBinary(0);
+    const next = this.peek();
+    if (next.type !== "eof") {
+      throw new FormulaSyntaxError(`Unexpected ${describe(next)}`, next.pos);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token.type === "op" && token.value === value;
+  }
+
+  private expectOp(value: string): void {
+    const token = this.next();
+    if (token.type !== "op" || token.value !== value) {
+      throw new FormulaSyntaxError(`Expected '${value}' but found ${describe(token)}`, token.pos);
+    }
+  }
+
+  /** Binary operator levels, lowest precedence first */
+  private static LEVELS: FormulaBinaryOp[][] = [
+    ["||"],
+    ["&&"],
+    ["==", "!="],
+    ["<", "<=", ">", ">="],
+    ["+", "-"],
+    ["*", "/", "%"],
+  ];
+
+  private parseBinary(level: number): FormulaNode {
+    if (level >= Parser.LEVELS.length) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    while (true) {
+      const token = this.peek();
+      const op = Parser.LEVELS[level].find((o) => token.type === "op" && token.value === o);
+      if (!op) return left;
+      this.next();
+      const right = this.parseBinary(level + 1);
+      left = { kind: "binary", op, left, right };
+    }
+  }
+
+  private parseUnary(): FormulaNode {
+    if (this.isOp("-") || this.isOp("!")) {
+      const op = (this.next() as { value: "-" | "!" }).value;
+      return { kind: "unary", op, operand: this.nested(() => this.parseUnary()) };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case "number":
+        return { kind: "number", value: token.value };
+      case "string":
+        return { kind: "string", value: token.value };
+      case "name": {
+        if (token.value === "true") return { kind: "boolean", value: true };
+        if (token.value === "false") return { kind: "boolean", value: false };
+        if (token.value === "null") return { kind: "null" };
+
+        if (this.isOp("(")) {
+          this.next();
+          const args: FormulaNode[] = [];
+          if (!this.isOp(")")) {
+            while (true) {
+              args.push(this.nested(() => this.parseBinary(0)));
+              if (!this.isOp(",")) break;
+              this.next();
+            }
+          }
+          this.expectOp(")");
+          return { kind: "call", name: token.value.toLowerCase(), args };
+        }
+
+        if (this.isOp(".")) {
+          this.next();
+          const field = this.next();
+          if (field.type !== "name") {
+            throw new FormulaSyntaxError(`Expected a field name after '${token.value}.'`, field.pos);
+          }
+          return { kind: "ref", module: token.value, field: field.value };
+        }
+
+        return { kind: "ref", module: null, field: token.value };
+      }
+      case "op":
+        if (token.value === "(") {
+          const inner = this.nested(() => this.parseBinary(0));
+          this.expectOp(")");
+          return inner;
+        }
+        throw new FormulaSyntaxError(`Unexpected '${token.value}'`, token.pos);
+      case "eof":
+        throw new FormulaSyntaxError("Unexpected end of formula", token.pos);
+    }
+  }
+
+  private nested<T>(fn: () => T): T {
+    if (++this.depth > MAX_DEPTH) {
+      throw new FormulaSyntaxError("Formula is nested too deeply", this.peek().pos);
+    }
+    try {
+      return fn();
+    } finally {
+      this.depth--;
+    }
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case "eof":
+      return "end of formula";
+    case "string":
+      return `"${token.value}"`;
+    default:
+      return `'${token.value}'`;
+  }
+}
+
+/**
+ * Parse a formula expression into an AST.
+ * Throws FormulaSyntaxError on invalid input.
+ */
+export function parseFormula(expression: string): FormulaNode {
+  if (!expression.trim()) throw new FormulaSyntaxError("Formula is empty", 0);
+  if (expression.length > MAX_FORMULA_LENGTH) {
+    throw new FormulaSyntaxError(`Formula is longer than ${MAX_FORMULA_LENGTH} characters`, 0);
+  }
+  return new Parser(tokenize(expression)).parse();
+}
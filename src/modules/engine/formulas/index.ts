@@ -0,0 +1,159 @@
+/**
+ * OMP Engine — Formula Fields
+ *
+ * Formula fields are computed on read from the other fields of the same
+ * object and are never stored. Schemas are checked when saved
+ * (checkModuleFormulas); objects get their values filled in by
+ * computeFormulas after module permissions have been applied, so a
+ * formula can only see data the reader can see.
+ */
+
+import type { AttachedModule, ModuleFieldDef, ModuleSchema } from "../types/module.types";
+import type { CompiledFormula } from "../types/formula.types";
+import { compileFormula, type FormulaSchemaMap } from "./formula.checker";
+import { evaluateFormula } from "./formula.evaluator";
+import { toDate, type FormulaValue } from "./formula.functions";
+
+export { parseFormula, FormulaSyntaxError, MAX_FORMULA_LENGTH } from "./formula.parser";
+export {
+  compileFormula,
+  checkModuleFormulas,
+  FormulaTypeError,
+  OBJECT_PROPERTIES,
+  type FormulaSchemaMap,
+} from "./formula.checker";
+export { evaluateFormula, type FormulaContext } from "./formula.evaluator";
+export { FORMULA_FUNCTIONS } from "./formula.functions";
+
+/** Compiled formulas keyed by `module.field`; null when the formula is invalid */
+export type FormulaCache = Map<string, CompiledFormula | null>;
+
+// ── Helpers ──────────────────────────────────
+
+export function hasFormulaFields(schema: ModuleSchema): boolean {
+  return schema.fields.some((f) => f.type === "formula");
+}
+
+/** Drop formula keys from submitted data — their values are never stored */
+export function stripComputedFields(
+  schema: ModuleSchema,
+  data: Record<string, unknown>
+): Record<string, unknown> {
+  const computed = new Set(schema.fields.filter((f) => f.type === "formula").map((f) => f.key));
+  if (computed.size === 0) return data;
+  return Object.fromEntries(Object.entries(data).filter(([key]) => !computed.has(key)));
+}
+
+/** Module schemas keyed by name, for compiling formulas */
+export function buildFormulaSchemaMap(
+  modules: Iterable<{ name: string; schema: ModuleSchema }>
+): FormulaSchemaMap {
+  return new Map([...modules].map((m) => [m.name, m.schema]));
+}
+
+/** Convert a stored JSON value into a formula value of the field's type */
+function fromStored(def: ModuleFieldDef, value: unknown): FormulaValue {
+  if (value === undefined || value === null || value === "") return null;
+
+  switch (def.type) {
+    case "number": {
+      const n = typeof value === "number" ? value : Number(value);
+      return Number.isFinite(n) ? n : null;
+    }
+    case "boolean":
+      return value === true || value === "true";
+    case "date":
+    case "datetime":
+      return typeof value === "string" ? toDate(value) : null;
+    case "multiselect":
+      return Array.isArray(value) ? value.map(String) : [String(value)];
+    case "relation":
+      if (def.multiple) return Array.isArray(value) ? value.map(String) : [String(value)];
+      return typeof value === "string" ? value : null;
+    default:
+      return typeof value === "object" ? null : String(value);
+  }
+}
+
+function compileCached(
+  moduleName: string,
+  def: ModuleFieldDef,
+  schemas: FormulaSchemaMap,
+  cache: FormulaCache
+): CompiledFormula | null {
+  const key = `${moduleName}.${def.key}`;
+  if (!cache.has(key)) {
+    try {
+      cache.set(key, compileFormula(def.formula ?? "", moduleName, schemas, new Set([key])));
+    } catch {
+      // Invalid formulas are rejected on save; one that broke since (a
+      // referenced field was removed) just has no value
+      cache.set(key, null);
+    }
+  }
+  return cache.get(key) ?? null;
+}
+
+// ── Public API ───────────────────────────────
+
+/**
+ * Fill in formula field values on an object's modules.
+ *
+ * `modules` should already be filtered by read permission: references to
+ * modules that aren't attached (or aren't visible) evaluate to null.
+ * Pass the same `cache` when computing many objects.
+ */
+export function computeFormulas(
+  row: { created_at: string; updated_at: string },
+  modules: AttachedModule[],
+  schemas: FormulaSchemaMap,
+  cache: FormulaCache = new Map()
+): AttachedModule[] {
+  if (!modules.some((m) => hasFormulaFields(m.schema))) return modules;
+
+  const byName = new Map(modules.map((m) => [m.moduleName, m]));
+  const computed = new Map<string, FormulaValue>();
+  const evaluating = new Set<string>();
+
+  function formulaValue(mod: AttachedModule, def: ModuleFieldDef): FormulaValue {
+    const key = `${mod.moduleName}.${def.key}`;
+    if (computed.has(key)) return computed.get(key) ?? null;
+    // Cycles are rejected on save; guard anyway
+    if (evaluating.has(key)) return null;
+
+    evaluating.add(key);
+    const compiled = compileCached(mod.moduleName, def, schemas, cache);
+    const value = compiled ? evaluateFormula(compiled, ctx) : null;
+    evaluating.delete(key);
+
+    const typed = def.resultType === "date" && typeof value === "string" ? toDate(value) : value;
+    computed.set(key, typed);
+    return typed;
+  }
+
+  const ctx = {
+    ref(moduleName: string, field: string): FormulaValue {
+      const mod = byName.get(moduleName);
+      const def = mod?.schema.fields.find((f) => f.key === field);
+      if (!mod || !def) return null;
+      return def.type === "formula" ? formulaValue(mod, def) : fromStored(def, mod.data[field]);
+    },
+    prop(name: string): FormulaValue {
+      if (name === "created_at") return toDate(row.created_at);
+      if (name === "updated_at") return toDate(row.updated_at);
+      return null;
+    },
+  };
+
+  return modules.map((mod) => {
+    const formulas = mod.schema.fields.filter((f) => f.type === "formula");
+    if (formulas.length === 0) return mod;
+
+    const data = { ...mod.data };
+    for (const def of formulas) {
+      const value = formulaValue(mod, def);
+      data[def.key] = value instanceof Date ? value.toISOString() : value;
+    }
+    return { ...mod, data };
+  });
+}
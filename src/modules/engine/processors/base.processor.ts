@@ -50,12 +50,36 @@ export type ProcessorResult<T = unknown> = {
   success: true;
   data: T;
   processor: string;
+  /** Module fields the result was computed from ("moduleId:fieldKey") */
+  sourceFields?: string[];
 } | {
   success: false;
   error: string;
   processor: string;
 };
 
+/**
+ * Copy of an object whose module data records each field read into
+ * `reads` as "moduleId:fieldKey".
+ */
+function trackFieldReads(
+  object: ObjectWithModules,
+  reads: Set<string>
+): ObjectWithModules {
+  return {
+    ...object,
+    modules: object.modules.map((m) => ({
+      ...m,
+      data: new Proxy(m.data, {
+        get(target, key, receiver) {
+          if (typeof key === "string") reads.add(`${m.moduleId}:${key}`);
+          return Reflect.get(target, key, receiver);
+        },
+      }),
+    })),
+  };
+}
+
 /**
  * Abstract processor base class.
  * Subclasses implement `process()` with domain-specific logic.
@@ -113,6 +137,7 @@ export abstract class BaseProcessor<TResult = unknown> {
 
   /**
    * Safe execution wrapper with eligibility check and error handling.
+   * Successful results list the module fields the processor read.
    */
   async execute(ctx: ProcessorContext): Promise<ProcessorResult<TResult>> {
     if (!this.isEligible(ctx.object)) {
@@ -124,7 +149,12 @@ export abstract class BaseProcessor<TResult = unknown> {
     }
 
     try {
-      return await this.process(ctx);
+      const reads = new Set<string>();
+      const result = await this.process({
+        ...ctx,
+        object: trackFieldReads(ctx.object, reads),
+      });
+      return result.success ? { ...result, sourceFields: [...reads] } : result;
     } catch (err) {
       return {
         success: false,
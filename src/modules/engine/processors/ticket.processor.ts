@@ -2,7 +2,8 @@
  * OMP Engine — Ticket Processor
  *
  * Operates on objects that have a "stage" module.
- * Enforces status transition rules, assignment validation,
+ * Reports status transition rules from the object type's workflow
+ * (falling back to the built-in lead workflow), assignment validation,
  * and SLA-related business logic.
  *
  * Eligible objects: any object with a "stage" module (leads, tickets, issues, etc.)
@@ -15,6 +16,12 @@ import {
   type ProcessorContext,
   type ProcessorResult,
 } from "./base.processor";
+import {
+  DEFAULT_STAGE_WORKFLOW,
+  getAllowedTransitions,
+  isTerminalState,
+} from "../types/workflow.types";
+import { getActiveWorkflow } from "../services/workflow.service";
 
 export interface TicketResult {
   /** Current status/stage */
@@ -35,27 +42,6 @@ export interface TicketResult {
   isStale: boolean;
 }
 
-/**
- * Defines valid stage transitions.
- * A ticket can only move to stages defined here.
- * "*" means any stage is valid (used as a fallback).
- */
-const TRANSITION_MAP: Record<string, string[]> = {
-  new: ["contacted", "interested", "lost"],
-  contacted: ["interested", "negotiation", "lost"],
-  interested: ["qualified", "negotiation", "lost"],
-  qualified: ["proposal", "negotiation", "lost"],
-  proposal: ["negotiation", "won", "lost"],
-  negotiation: ["won", "lost"],
-  won: [], // Terminal
-  lost: ["new"], // Can be re-opened
-  completed: [],
-  closed: [],
-};
-
-/** Stages considered terminal (no further action expected) */
-const TERMINAL_STAGES = new Set(["won", "lost", "completed", "closed"]);
-
 /** Days after which a non-terminal ticket is considered stale */
 const STALE_THRESHOLD_DAYS = 7;
 
@@ -73,20 +59,29 @@ export class TicketProcessor extends BaseProcessor<TicketResult> {
   ): Promise<ProcessorResult<TicketResult>> {
     const { object, timestamp } = ctx;
 
+    // ── Resolve workflow ──
+    const configured = await getActiveWorkflow(object.object_type_id);
+    const workflow = configured ?? DEFAULT_STAGE_WORKFLOW;
+
     // ── Extract stage data ──
-    const currentStage = (
-      this.getFieldValue<string>(object, "stage", "stage") ??
-      this.getFieldValue<string>(object, "stage", "status") ??
-      "new"
-    ).toLowerCase().trim();
+    const currentStage = configured
+      ? String(
+          this.getFieldValue(object, configured.moduleName, configured.fieldKey) ?? ""
+        )
+      : (
+          this.getFieldValue<string>(object, "stage", "stage") ??
+          this.getFieldValue<string>(object, "stage", "status") ??
+          "new"
+        ).toLowerCase().trim();
 
     // ── Determine valid transitions ──
-    const validTransitions =
-      TRANSITION_MAP[currentStage] ??
-      // Fallback: allow any non-current stage
-      Object.keys(TRANSITION_MAP).filter((s) => s !== currentStage);
+    const isKnownStage = workflow.states.some((s) => s.value === currentStage);
+    const validTransitions = isKnownStage
+      ? getAllowedTransitions(workflow, currentStage)
+      : // Fallback: allow any non-current stage
+        workflow.states.map((s) => s.value).filter((s) => s !== currentStage);
 
-    const isTerminal = TERMINAL_STAGES.has(currentStage);
+    const isTerminal = isTerminalState(workflow, currentStage);
 
     // ── Extract priority ──
     const rawPriority =
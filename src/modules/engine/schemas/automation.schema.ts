@@ -0,0 +1,74 @@
+/**
+ * OMP Engine — Automation Rule Schemas
+ *
+ * Zod schemas for validating automation rule inputs.
+ */
+
+import { z } from "zod/v4";
+
+const triggerSchema = z.object({
+  type: z.enum(["object_created", "field_changed", "stage_entered", "relation_added"]),
+  module: z.string().min(1).optional(),
+  field: z.string().min(1).optional(),
+  stage: z.string().min(1).optional(),
+  relationType: z.string().min(1).optional(),
+});
+
+const conditionSchema = z.object({
+  module: z.string().min(1),
+  field: z.string().min(1),
+  operator: z.enum([
+    "eq",
+    "neq",
+    "gt",
+    "lt",
+    "gte",
+    "lte",
+    "contains",
+    "is_empty",
+    "is_not_empty",
+  ]),
+  value: z.union([z.string(), z.number(), z.boolean()]).optional(),
+});
+
+const actionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("set_field"),
+    module: z.string().min(1),
+    field: z.string().min(1),
+    value: z.unknown(),
+  }),
+  z.object({
+    type: z.literal("create_related_object"),
+    objectTypeId: z.string().uuid(),
+    relationType: z.string().min(1),
+    modules: z.record(z.string(), z.record(z.string(), z.unknown())),
+  }),
+  z.object({
+    type: z.literal("add_timeline_note"),
+    note: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal("assign_owner"),
+    ownerId: z.string().uuid(),
+  }),
+]);
+
+export const automationRuleSchema = z
+  .object({
+    name: z.string().min(1).max(100),
+    description: z.string().max(500).optional(),
+    trigger: triggerSchema,
+    conditions: z.array(conditionSchema),
+    actions: z.array(actionSchema).min(1, "A rule needs at least one action"),
+    isActive: z.boolean().optional(),
+    position: z.number().int().min(0).optional(),
+  })
+  .refine((r) => r.trigger.type !== "field_changed" || !!r.trigger.module, {
+    message: "Field-changed triggers must name a module",
+    path: ["trigger", "module"],
+  })
+  .refine((r) => r.trigger.type !== "stage_entered" || !!r.trigger.stage, {
+    message: "Stage-entered triggers must name a stage",
+    path: ["trigger", "stage"],
+  });
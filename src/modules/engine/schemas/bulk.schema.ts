@@ -0,0 +1,42 @@
+/**
+ * OMP Engine — Bulk Action Schemas
+ *
+ * Zod schemas for validating bulk job inputs.
+ */
+
+import { z } from "zod/v4";
+
+/** Most objects a single bulk job may touch */
+export const MAX_BULK_OBJECTS = 5000;
+
+export const bulkActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("set_field"),
+    moduleName: z.string().min(1),
+    fieldKey: z.string().min(1),
+    value: z.unknown(),
+  }),
+  z.object({ type: z.literal("change_stage"), value: z.string().min(1) }),
+  z.object({ type: z.literal("reassign_owner"), ownerId: z.string().uuid().nullable() }),
+  z.object({ type: z.literal("attach_module"), moduleId: z.string().uuid() }),
+  z.object({ type: z.literal("detach_module"), moduleId: z.string().uuid() }),
+  z.object({
+    type: z.literal("add_relation"),
+    toObjectId: z.string().uuid(),
+    relationType: z.string().min(1),
+  }),
+  z.object({ type: z.literal("delete") }),
+]);
+
+export const bulkSelectionSchema = z.union([
+  z.object({
+    objectTypeId: z.string().uuid(),
+    ids: z.array(z.string().uuid()).min(1, "Select at least one record").max(MAX_BULK_OBJECTS),
+  }),
+  z.object({ objectTypeId: z.string().uuid(), viewId: z.string().uuid() }),
+]);
+
+export const bulkJobSchema = z.object({
+  selection: bulkSelectionSchema,
+  action: bulkActionSchema,
+});
@@ -0,0 +1,40 @@
+/**
+ * OMP Engine — Duplicate Detection Schemas
+ *
+ * Zod schemas for validating duplicate rule and merge inputs.
+ */
+
+import { z } from "zod/v4";
+
+export const duplicateRuleSchema = z.object({
+  name: z.string().min(1).max(100),
+  matchKeys: z
+    .array(
+      z.object({
+        moduleName: z.string().min(1),
+        fieldKey: z.string().min(1),
+        match: z.enum(["exact", "email", "phone", "fuzzy"]),
+      })
+    )
+    .min(1, "Add at least one match key")
+    .max(5),
+  threshold: z.number().gt(0).max(1).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const mergeSchema = z
+  .object({
+    survivorId: z.string().uuid(),
+    loserId: z.string().uuid(),
+    fields: z.array(
+      z.object({
+        moduleName: z.string().min(1),
+        fieldKey: z.string().min(1),
+        source: z.enum(["survivor", "loser"]),
+      })
+    ),
+  })
+  .refine((m) => m.survivorId !== m.loserId, {
+    message: "Pick two different objects",
+    path: ["loserId"],
+  });
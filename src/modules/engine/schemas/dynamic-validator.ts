@@ -7,6 +7,7 @@
 
 import { z } from "zod/v4";
 import type { ModuleFieldDef, ModuleSchema } from "../types/module.types";
+import { MAX_FORMULA_LENGTH } from "../formulas/formula.parser";
 
 /**
  * Build a Zod schema from a single field definition.
@@ -69,6 +70,15 @@ function buildFieldSchema(field: ModuleFieldDef): z.ZodType {
       break;
     }
 
+    case "formula":
+      // Computed on read; any submitted value is stripped before saving
+      return z.any().optional();
+
+    case "relation":
+      // Object IDs; the referenced objects are checked by the relation service
+      schema = field.multiple ? z.array(z.uuid()) : z.uuid();
+      break;
+
     default:
       schema = z.string();
   }
@@ -132,7 +142,11 @@ export function applyDefaults(
   const result = { ...data };
 
   for (const field of moduleSchema.fields) {
-    if (field.default !== undefined && result[field.key] === undefined) {
+    if (
+      field.type !== "formula" &&
+      field.default !== undefined &&
+      result[field.key] === undefined
+    ) {
       result[field.key] = field.default;
     }
   }
@@ -146,35 +160,46 @@ export function applyDefaults(
  */
 export const moduleSchemaValidator = z.object({
   fields: z.array(
-    z.object({
-      key: z.string().min(1),
-      type: z.enum([
-        "text",
-        "email",
-        "phone",
-        "number",
-        "date",
-        "datetime",
-        "textarea",
-        "select",
-        "multiselect",
-        "boolean",
-        "url",
-      ]),
-      label: z.string().min(1),
-      required: z.boolean().optional(),
-      default: z.union([z.string(), z.number(), z.boolean()]).optional(),
-      options: z
-        .array(
-          z.object({
-            value: z.string(),
-            label: z.string(),
-            color: z.string().optional(),
-          })
-        )
-        .optional(),
-      min: z.number().optional(),
-      max: z.number().optional(),
-    })
+    z
+      .object({
+        key: z.string().min(1),
+        type: z.enum([
+          "text",
+          "email",
+          "phone",
+          "number",
+          "date",
+          "datetime",
+          "textarea",
+          "select",
+          "multiselect",
+          "boolean",
+          "url",
+          "formula",
+          "relation",
+        ]),
+        label: z.string().min(1),
+        required: z.boolean().optional(),
+        default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+        options: z
+          .array(
+            z.object({
+              value: z.string(),
+              label: z.string(),
+              color: z.string().optional(),
+            })
+          )
+          .optional(),
+        min: z.number().optional(),
+        max: z.number().optional(),
+        formula: z.string().max(MAX_FORMULA_LENGTH).optional(),
+        resultType: z.enum(["number", "string", "boolean", "date"]).optional(),
+        targetType: z.string().min(1).optional(),
+        multiple: z.boolean().optional(),
+      })
+      .refine((f) => f.type !== "relation" || !!f.targetType, {
+        message: "Relation fields need a target object type",
+        path: ["targetType"],
+      })
   ),
 });
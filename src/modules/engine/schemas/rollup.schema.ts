@@ -0,0 +1,25 @@
+/**
+ * OMP Engine — Rollup Field Schemas
+ *
+ * Zod schemas for validating rollup field inputs.
+ */
+
+import { z } from "zod/v4";
+
+export const rollupFieldSchema = z
+  .object({
+    relationId: z.string().uuid(),
+    key: z
+      .string()
+      .min(1)
+      .max(64)
+      .regex(/^[a-z][a-z0-9_]*$/, "Use lowercase letters, digits and underscores"),
+    label: z.string().min(1).max(100),
+    aggregate: z.enum(["count", "sum", "avg", "min", "max", "latest"]),
+    moduleName: z.string().min(1).nullable().optional(),
+    fieldKey: z.string().min(1).nullable().optional(),
+  })
+  .refine((r) => r.aggregate === "count" || (!!r.moduleName && !!r.fieldKey), {
+    message: "Pick the related field to aggregate",
+    path: ["fieldKey"],
+  });
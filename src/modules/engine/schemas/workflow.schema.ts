@@ -0,0 +1,36 @@
+/**
+ * OMP Engine — Workflow Definition Schemas
+ *
+ * Zod schemas for validating workflow save inputs.
+ */
+
+import { z } from "zod/v4";
+
+const fieldRefSchema = z.object({
+  module: z.string().min(1),
+  field: z.string().min(1),
+});
+
+export const workflowSaveSchema = z.object({
+  moduleName: z.string().min(1),
+  fieldKey: z.string().min(1),
+  states: z
+    .array(
+      z.object({
+        value: z.string().min(1),
+        label: z.string().min(1),
+        color: z.string().optional(),
+        isInitial: z.boolean().optional(),
+        isTerminal: z.boolean().optional(),
+      })
+    )
+    .min(1, "A workflow needs at least one state"),
+  transitions: z.array(
+    z.object({
+      from: z.string().min(1),
+      to: z.string().min(1),
+      requiredFields: z.array(fieldRefSchema).optional(),
+    })
+  ),
+  isActive: z.boolean().optional(),
+});
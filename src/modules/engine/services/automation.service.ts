@@ -0,0 +1,426 @@
+/**
+ * OMP Engine — Automation Service
+ *
+ * CRUD for per-object-type automation rules, and the runtime that evaluates
+ * them when the object and relation services raise lifecycle events.
+ *
+ * Actions run through the regular service layer with the triggering user's
+ * context, so they are subject to the same permission and validation checks
+ * as manual edits. Actions may raise further events (e.g. set_field →
+ * field_changed); chains are cut off after MAX_CHAIN_DEPTH levels.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { AuthContext } from "@/lib/permissions/rbac";
+import { requirePermission } from "@/lib/permissions/rbac";
+import { Actions } from "@/lib/permissions/actions";
+import { AppError } from "@/lib/utils/errors";
+import { auditLog } from "@/lib/audit/logger";
+import type { Json } from "@/lib/supabase/database.types";
+import type {
+  AutomationAction,
+  AutomationCondition,
+  AutomationEvent,
+  AutomationRule,
+  AutomationRuleInput,
+  AutomationRuleRow,
+  AutomationTrigger,
+} from "../types/automation.types";
+import { automationRuleSchema } from "../schemas/automation.schema";
+import {
+  getObject,
+  createObject,
+  updateObjectModule,
+  updateObjectOwner,
+} from "./object.service";
+import { createRelation } from "./relation.service";
+import { addTimelineNote } from "./timeline.service";
+
+/** Maximum number of nested automation runs triggered by automation actions */
+const MAX_CHAIN_DEPTH = 3;
+
+const chainDepth = new AsyncLocalStorage<number>();
+
+// ── Helpers ──────────────────────────────────
+
+function mapRow(row: AutomationRuleRow): AutomationRule {
+  return {
+    id: row.id,
+    objectTypeId: row.object_type_id,
+    name: row.name,
+    description: row.description,
+    trigger: row.trigger as unknown as AutomationTrigger,
+    conditions: (row.conditions ?? []) as unknown as AutomationCondition[],
+    actions: (row.actions ?? []) as unknown as AutomationAction[],
+    isActive: row.is_active,
+    position: row.position,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function parseInput(input: AutomationRuleInput): AutomationRuleInput {
+  const parsed = automationRuleSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AppError(
+      "VALIDATION",
+      parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join(", ")
+    );
+  }
+  return parsed.data as AutomationRuleInput;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Evaluate a single condition against an object's module data.
+ */
+export function evaluateCondition(
+  condition: AutomationCondition,
+  moduleData: Record<string, Record<string, unknown>>
+): boolean {
+  const actual = moduleData[condition.module]?.[condition.field];
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case "is_empty":
+      return isEmptyValue(actual);
+    case "is_not_empty":
+      return !isEmptyValue(actual);
+    case "eq":
+      return Array.isArray(actual)
+        ? actual.includes(expected)
+        : String(actual ?? "") === String(expected ?? "");
+    case "neq":
+      return Array.isArray(actual)
+        ? !actual.includes(expected)
+        : String(actual ?? "") !== String(expected ?? "");
+    case "contains":
+      return String(actual ?? "")
+        .toLowerCase()
+        .includes(String(expected ?? "").toLowerCase());
+    case "gt":
+    case "lt":
+    case "gte":
+    case "lte": {
+      const a = Number(actual);
+      const b = Number(expected);
+      if (isEmptyValue(actual) || Number.isNaN(a) || Number.isNaN(b)) return false;
+      if (condition.operator === "gt") return a > b;
+      if (condition.operator === "lt") return a < b;
+      if (condition.operator === "gte") return a >= b;
+      return a <= b;
+    }
+  }
+}
+
+/**
+ * Whether a rule's trigger configuration matches an event.
+ */
+function matchesTrigger(trigger: AutomationTrigger, event: AutomationEvent): boolean {
+  if (trigger.type !== event.trigger) return false;
+
+  switch (trigger.type) {
+    case "object_created":
+      return true;
+    case "field_changed":
+      return (
+        trigger.module === event.module &&
+        (!trigger.field || (event.changedFields ?? []).includes(trigger.field))
+      );
+    case "stage_entered":
+      return trigger.stage === event.stage;
+    case "relation_added":
+      return !trigger.relationType || trigger.relationType === event.relationType;
+  }
+}
+
+async function executeAction(
+  ctx: AuthContext,
+  event: AutomationEvent,
+  action: AutomationAction
+): Promise<Record<string, unknown>> {
+  const admin = createAdminClient();
+
+  switch (action.type) {
+    case "set_field": {
+      const { data: mod } = await admin
+        .from("modules")
+        .select("id")
+        .eq("name", action.module)
+        .single();
+      if (!mod) throw new AppError("NOT_FOUND", `Module '${action.module}' not found`);
+
+      const object = await getObject(ctx, event.objectId);
+      const current = object.modules.find((m) => m.moduleId === mod.id)?.data ?? {};
+      await updateObjectModule(ctx, event.objectId, mod.id, {
+        ...current,
+        [action.field]: action.value,
+      });
+      return { type: action.type, module: action.module, field: action.field };
+    }
+
+    case "create_related_object": {
+      const created = await createObject(ctx, {
+        objectTypeId: action.objectTypeId,
+        modules: action.modules,
+      });
+      await createRelation(ctx, {
+        fromObjectId: event.objectId,
+        toObjectId: created.id,
+        relationType: action.relationType,
+      });
+      return { type: action.type, createdObjectId: created.id };
+    }
+
+    case "add_timeline_note": {
+      const timelineEvent = await addTimelineNote(ctx, event.objectId, action.note);
+      return { type: action.type, timelineEventId: timelineEvent.id };
+    }
+
+    case "assign_owner": {
+      await updateObjectOwner(ctx, event.objectId, action.ownerId);
+      return { type: action.type, ownerId: action.ownerId };
+    }
+  }
+}
+
+// ── Runtime ──────────────────────────────────
+
+/**
+ * Run every active rule of the object's type that matches the event.
+ * Never throws — failures are recorded in the audit log and must not
+ * block the mutation that raised the event.
+ */
+export async function runAutomations(
+  ctx: AuthContext,
+  event: AutomationEvent
+): Promise<void> {
+  const depth = chainDepth.getStore() ?? 0;
+  if (depth >= MAX_CHAIN_DEPTH) return;
+
+  let rules: AutomationRule[];
+  try {
+    const admin = createAdminClient();
+    const { data } = await admin
+      .from("automation_rules")
+      .select("*")
+      .eq("object_type_id", event.objectTypeId)
+      .eq("is_active", true)
+      .filter("trigger->>type", "eq", event.trigger)
+      .order("position");
+    rules = (data ?? []).map(mapRow).filter((r) => matchesTrigger(r.trigger, event));
+  } catch {
+    return;
+  }
+
+  if (rules.length === 0) return;
+
+  await chainDepth.run(depth + 1, async () => {
+    for (const rule of rules) {
+      const results: Record<string, unknown>[] = [];
+      let error: string | undefined;
+
+      try {
+        if (rule.conditions.length > 0) {
+          const object = await getObject(ctx, event.objectId);
+          const moduleData = Object.fromEntries(
+            object.modules.map((m) => [m.moduleName, m.data])
+          );
+          if (!rule.conditions.every((c) => evaluateCondition(c, moduleData))) {
+            continue;
+          }
+        }
+
+        for (const action of rule.actions) {
+          results.push(await executeAction(ctx, event, action));
+        }
+      } catch (err) {
+        error = err instanceof Error ? err.message : "Automation failed";
+      }
+
+      try {
+        await auditLog(ctx, {
+          action: "automation:run",
+          category: "data",
+          entityType: "automation_rule",
+          entityId: rule.id,
+          metadata: {
+            ruleName: rule.name,
+            trigger: event.trigger,
+            objectId: event.objectId,
+            success: !error,
+            error,
+            actions: results,
+            chainDepth: depth,
+          },
+        });
+      } catch {
+        // non-critical
+      }
+    }
+  });
+}
+
+// ── Service Methods ──────────────────────────
+
+/**
+ * Get automation rules, optionally for a single object type. Like the
+ * other rule methods this needs type management permission.
+ */
+export async function getAutomationRules(
+  ctx: AuthContext,
+  objectTypeId?: string
+): Promise<AutomationRule[]> {
+  requirePermission(ctx, Actions.OBJECT_TYPE_MANAGE);
+
+  const admin = createAdminClient();
+
+  let query = admin
+    .from("automation_rules")
+    .select("*")
+    .order("position")
+    .order("created_at");
+
+  if (objectTypeId) query = query.eq("object_type_id", objectTypeId);
+
+  const { data, error } = await query;
+  if (error) throw new AppError("DB_ERROR", error.message);
+  return (data ?? []).map(mapRow);
+}
+
+/**
+ * Create an automation rule on an object type.
+ */
+export async function createAutomationRule(
+  ctx: AuthContext,
+  objectTypeId: string,
+  input: AutomationRuleInput
+): Promise<AutomationRule> {
+  requirePermission(ctx, Actions.OBJECT_TYPE_MANAGE);
+  const rule = parseInput(input);
+
+  const admin = createAdminClient();
+
+  const { data, error } = await admin
+    .from("automation_rules")
+    .insert({
+      object_type_id: objectTypeId,
+      name: rule.name,
+      description: rule.description ?? null,
+      trigger: rule.trigger as unknown as Json,
+      conditions: rule.conditions as unknown as Json,
+      actions: rule.actions as unknown as Json,
+      is_active: rule.isActive ?? true,
+      position: rule.position ?? 0,
+      created_by: ctx.userId,
+    })
+    .select()
+    .single();
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  await auditLog(ctx, {
+    action: "automation:create",
+    category: "settings",
+    entityType: "automation_rule",
+    entityId: data.id,
+    newValues: { objectTypeId, ...rule } as unknown as Record<string, unknown>,
+  });
+
+  return mapRow(data);
+}
+
+/**
+ * Replace an automation rule's definition.
+ */
+export async function updateAutomationRule(
+  ctx: AuthContext,
+  ruleId: string,
+  input: AutomationRuleInput
+): Promise<AutomationRule> {
+  requirePermission(ctx, Actions.OBJECT_TYPE_MANAGE);
+  const rule = parseInput(input);
+
+  const admin = createAdminClient();
+
+  const { data: old } = await admin
+    .from("automation_rules")
+    .select("*")
+    .eq("id", ruleId)
+    .single();
+
+  if (!old) throw new AppError("NOT_FOUND", "Automation rule not found");
+
+  const { data, error } = await admin
+    .from("automation_rules")
+    .update({
+      name: rule.name,
+      description: rule.description ?? null,
+      trigger: rule.trigger as unknown as Json,
+      conditions: rule.conditions as unknown as Json,
+      actions: rule.actions as unknown as Json,
+      is_active: rule.isActive ?? old.is_active,
+      position: rule.position ?? old.position,
+    })
+    .eq("id", ruleId)
+    .select()
+    .single();
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  await auditLog(ctx, {
+    action: "automation:update",
+    category: "settings",
+    entityType: "automation_rule",
+    entityId: ruleId,
+    oldValues: old as unknown as Record<string, unknown>,
+    newValues: rule as unknown as Record<string, unknown>,
+  });
+
+  return mapRow(data);
+}
+
+/**
+ * Delete an automation rule.
+ */
+export async function deleteAutomationRule(
+  ctx: AuthContext,
+  ruleId: string
+): Promise<void> {
+  requirePermission(ctx, Actions.OBJECT_TYPE_MANAGE);
+
+  const admin = createAdminClient();
+
+  const { data: old } = await admin
+    .from("automation_rules")
+    .select("*")
+    .eq("id", ruleId)
+    .single();
+
+  if (!old) throw new AppError("NOT_FOUND", "Automation rule not found");
+
+  const { error } = await admin
+    .from("automation_rules")
+    .delete()
+    .eq("id", ruleId);
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  await auditLog(ctx, {
+    action: "automation:delete",
+    category: "settings",
+    entityType: "automation_rule",
+    entityId: ruleId,
+    oldValues: old as unknown as Record<string, unknown>,
+  });
+}
@@ -0,0 +1,422 @@
+/**
+ * OMP Engine — Bulk Action Service
+ *
+ * Applies one action to many objects as a background job. The selection
+ * is resolved to object IDs up front (explicit IDs, or everything matching
+ * a view), then each object goes through the regular object, relation and
+ * trash services with the caller's context — so record access, module and
+ * field permissions, validation and workflows apply per record, and one
+ * record failing doesn't stop the rest. Progress is written to bulk_jobs
+ * as the job runs.
+ */
+
+import { after } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { AuthContext } from "@/lib/permissions/rbac";
+import { AppError } from "@/lib/utils/errors";
+import { auditLog } from "@/lib/audit/logger";
+import type { Json } from "@/lib/supabase/database.types";
+import type {
+  BulkAction,
+  BulkJob,
+  BulkJobError,
+  BulkJobInput,
+  BulkJobRow,
+  BulkJobStatus,
+  BulkSelection,
+} from "../types/bulk.types";
+import { parseModuleSchema } from "../types/module.types";
+import { bulkJobSchema, MAX_BULK_OBJECTS } from "../schemas/bulk.schema";
+import {
+  attachModule,
+  deleteObject,
+  detachModule,
+  getObjects,
+  updateObjectModule,
+  updateObjectOwner,
+} from "./object.service";
+import { createRelation } from "./relation.service";
+import { getActiveWorkflow } from "./workflow.service";
+import { getView } from "./view.service";
+import { viewFiltersToObjectFilters } from "./view-query.service";
+import { isInScope, requireRecordScope } from "./sharing.service";
+
+/** Objects loaded per page when resolving a view selection */
+const SELECTION_PAGE_SIZE = 500;
+/** Records processed between progress writes */
+const PROGRESS_INTERVAL = 10;
+/** Failures kept on the job for the result summary */
+const MAX_JOB_ERRORS = 100;
+/** IDs per `in` filter, to keep request URLs short */
+const ID_CHUNK_SIZE = 200;
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+/** A set_field or change_stage action resolved to its module */
+type FieldTarget = { moduleId: string; fieldKey: string; value: unknown };
+
+// ── Helpers ──────────────────────────────────
+
+function mapRow(row: BulkJobRow): BulkJob {
+  return {
+    id: row.id,
+    objectTypeId: row.object_type_id,
+    action: row.action as unknown as BulkAction,
+    status: row.status as BulkJobStatus,
+    total: row.total,
+    processed: row.processed,
+    succeeded: row.succeeded,
+    failed: row.failed,
+    errors: (Array.isArray(row.errors) ? row.errors : []) as unknown as BulkJobError[],
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+function parseInput(input: BulkJobInput): BulkJobInput {
+  const parsed = bulkJobSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AppError(
+      "VALIDATION",
+      parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join(", ")
+    );
+  }
+  return parsed.data as BulkJobInput;
+}
+
+function chunk<T>(items: T[], size = ID_CHUNK_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+/**
+ * Check an action against the object type before any record is touched,
+ * and resolve field actions to the module they write.
+ */
+async function prepareAction(
+  admin: AdminClient,
+  objectTypeId: string,
+  action: BulkAction
+): Promise<FieldTarget | null> {
+  switch (action.type) {
+    case "set_field":
+    case "change_stage": {
+      let moduleName: string;
+      let fieldKey: string;
+      if (action.type === "set_field") {
+        ({ moduleName, fieldKey } = action);
+      } else {
+        // The stage field is the one the type's workflow drives
+        const workflow = await getActiveWorkflow(objectTypeId);
+        moduleName = workflow?.moduleName ?? "stage";
+        fieldKey = workflow?.fieldKey ?? "status";
+      }
+
+      const { data: typeModules } = await admin
+        .from("object_type_modules")
+        .select("module_id, modules(name, schema)")
+        .eq("object_type_id", objectTypeId);
+      const typeModule = (typeModules ?? []).find(
+        (tm) => (tm as unknown as { modules: { name: string } | null }).modules?.name === moduleName
+      );
+      if (!typeModule) {
+        throw new AppError("VALIDATION", `Module '${moduleName}' is not attached to this type`);
+      }
+
+      const schema = parseModuleSchema(
+        (typeModule as unknown as { modules: { schema: Json } }).modules.schema
+      );
+      const field = schema.fields.find((f) => f.key === fieldKey);
+      if (!field) {
+        throw new AppError("VALIDATION", `Field '${moduleName}.${fieldKey}' does not exist`);
+      }
+      if (field.type === "formula") {
+        throw new AppError("VALIDATION", "Formula fields are computed and cannot be set");
+      }
+      return { moduleId: typeModule.module_id, fieldKey, value: action.value ?? null };
+    }
+    case "attach_module":
+    case "detach_module": {
+      const { data: mod } = await admin
+        .from("modules")
+        .select("id")
+        .eq("id", action.moduleId)
+        .single();
+      if (!mod) throw new AppError("NOT_FOUND", "Module not found");
+      return null;
+    }
+    case "reassign_owner": {
+      if (!action.ownerId) return null;
+      const { data: profile } = await admin
+        .from("profiles")
+        .select("id")
+        .eq("id", action.ownerId)
+        .single();
+      if (!profile) throw new AppError("NOT_FOUND", "User not found");
+      return null;
+    }
+    case "add_relation": {
+      const { data: target } = await admin
+        .from("objects")
+        .select("id")
+        .eq("id", action.toObjectId)
+        .is("deleted_at", null)
+        .single();
+      if (!target) throw new AppError("NOT_FOUND", "Related object not found");
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Apply the action to one object. Throws when the user may not change it
+ * or the change is invalid.
+ */
+async function applyToObject(
+  ctx: AuthContext,
+  admin: AdminClient,
+  objectId: string,
+  action: BulkAction,
+  target: FieldTarget | null
+): Promise<void> {
+  switch (action.type) {
+    case "set_field":
+    case "change_stage": {
+      const { moduleId, fieldKey, value } = target!;
+      // Start from the stored data so fields hidden from the user are kept
+      const { data: om } = await admin
+        .from("object_modules")
+        .select("data")
+        .eq("object_id", objectId)
+        .eq("module_id", moduleId)
+        .single();
+      if (!om) throw new AppError("VALIDATION", "The module is not attached to this record");
+
+      const data = (om.data ?? {}) as Record<string, unknown>;
+      await updateObjectModule(ctx, objectId, moduleId, { ...data, [fieldKey]: value });
+      return;
+    }
+    case "reassign_owner":
+      await updateObjectOwner(ctx, objectId, action.ownerId);
+      return;
+    case "attach_module":
+      await attachModule(ctx, objectId, action.moduleId, {});
+      return;
+    case "detach_module":
+      await detachModule(ctx, objectId, action.moduleId);
+      return;
+    case "add_relation":
+      await createRelation(ctx, {
+        fromObjectId: objectId,
+        toObjectId: action.toObjectId,
+        relationType: action.relationType,
+      });
+      return;
+    case "delete":
+      await deleteObject(ctx, objectId);
+      return;
+  }
+}
+
+async function runBulkJob(ctx: AuthContext, jobId: string): Promise<void> {
+  const admin = createAdminClient();
+
+  const { data: row } = await admin.from("bulk_jobs").select("*").eq("id", jobId).single();
+  if (!row) return;
+  const job = mapRow(row);
+
+  await admin
+    .from("bulk_jobs")
+    .update({ status: "running", started_at: new Date().toISOString() })
+    .eq("id", jobId);
+
+  const progress = { processed: 0, succeeded: 0, failed: 0 };
+  const errors: BulkJobError[] = [];
+  const writeProgress = (extra: { status?: BulkJobStatus; finished_at?: string } = {}) =>
+    admin
+      .from("bulk_jobs")
+      .update({ ...progress, errors: errors as unknown as Json, ...extra })
+      .eq("id", jobId);
+
+  try {
+    const target = await prepareAction(admin, job.objectTypeId, job.action);
+
+    for (const objectId of row.object_ids) {
+      try {
+        await applyToObject(ctx, admin, objectId, job.action, target);
+        progress.succeeded++;
+      } catch (err) {
+        progress.failed++;
+        if (errors.length < MAX_JOB_ERRORS) {
+          errors.push({
+            objectId,
+            message: err instanceof Error ? err.message : "Failed to update record",
+          });
+        }
+      }
+      progress.processed++;
+      if (progress.processed % PROGRESS_INTERVAL === 0) await writeProgress();
+    }
+
+    await writeProgress({ status: "completed", finished_at: new Date().toISOString() });
+  } catch (err) {
+    errors.push({
+      objectId: "",
+      message: err instanceof Error ? err.message : "Bulk job failed",
+    });
+    await writeProgress({ status: "failed", finished_at: new Date().toISOString() });
+  }
+
+  await auditLog(ctx, {
+    action: "bulk:run",
+    category: "data",
+    entityType: "bulk_job",
+    entityId: jobId,
+    newValues: { action: job.action } as unknown as Record<string, unknown>,
+    metadata: { total: job.total, ...progress },
+  });
+}
+
+function scheduleBulkJob(ctx: AuthContext, jobId: string): void {
+  const run = () => runBulkJob(ctx, jobId).catch(() => undefined);
+  try {
+    after(run);
+  } catch {
+    void run();
+  }
+}
+
+// ── Service Methods ──────────────────────────
+
+/**
+ * IDs of the live objects in a selection that the user can read: the
+ * given IDs of the type, or every object matching the view's filters.
+ * Throws rather than return part of a view selection: one of more than
+ * MAX_BULK_OBJECTS records, or one whose computed-field filters ran over a
+ * capped candidate set.
+ */
+export async function resolveSelection(
+  ctx: AuthContext,
+  selection: BulkSelection
+): Promise<string[]> {
+  const scope = await requireRecordScope(ctx, "read");
+  const admin = createAdminClient();
+
+  if ("ids" in selection) {
+    const ids: string[] = [];
+    for (const batch of chunk([...new Set(selection.ids)])) {
+      const { data } = await admin
+        .from("objects")
+        .select("id, owner_id, created_by")
+        .eq("object_type_id", selection.objectTypeId)
+        .in("id", batch)
+        .is("deleted_at", null);
+      for (const obj of data ?? []) {
+        if (isInScope(scope, obj)) ids.push(obj.id);
+      }
+    }
+    return ids;
+  }
+
+  const view = await getView(selection.viewId);
+  if (
+    !view ||
+    view.objectTypeId !== selection.objectTypeId ||
+    (view.visibility !== "workspace" && view.createdBy !== ctx.userId)
+  ) {
+    throw new AppError("NOT_FOUND", "View not found");
+  }
+
+  const { data: objectType } = await admin
+    .from("object_types")
+    .select("name")
+    .eq("id", selection.objectTypeId)
+    .single();
+  if (!objectType) throw new AppError("NOT_FOUND", "Object type not found");
+
+  const filters = viewFiltersToObjectFilters(view.filters);
+
+  // Keyset pages; queries on computed fields have no cursor and page by
+  // offset. One record past the cap tells a full selection from a larger one
+  const ids: string[] = [];
+  let cursor: string | undefined;
+  let page = 1;
+  while (ids.length <= MAX_BULK_OBJECTS) {
+    const { objects, total, nextCursor, truncated } = await getObjects(ctx, {
+      objectType: objectType.name,
+      filters: filters.length > 0 ? filters : undefined,
+      cursor,
+      page,
+      limit: SELECTION_PAGE_SIZE,
+    });
+    if (truncated) {
+      throw new AppError(
+        "VALIDATION",
+        "The view filters on computed fields over too many records to select them all; narrow its filters"
+      );
+    }
+    ids.push(...objects.map((o) => o.id));
+    if (nextCursor) cursor = nextCursor;
+    else if (objects.length === SELECTION_PAGE_SIZE && ids.length < total) page++;
+    else break;
+  }
+  if (ids.length > MAX_BULK_OBJECTS) {
+    throw new AppError("VALIDATION", `A selection can hold at most ${MAX_BULK_OBJECTS} records`);
+  }
+  return ids;
+}
+
+/**
+ * Start a bulk job over a selection. The job runs in the background;
+ * poll getBulkJob for its progress.
+ */
+export async function startBulkJob(ctx: AuthContext, input: BulkJobInput): Promise<BulkJob> {
+  const { selection, action } = parseInput(input);
+
+  const admin = createAdminClient();
+  // Fail fast on an invalid action rather than once per record
+  await prepareAction(admin, selection.objectTypeId, action);
+
+  const objectIds = await resolveSelection(ctx, selection);
+  if (objectIds.length === 0) {
+    throw new AppError("VALIDATION", "No records in the selection");
+  }
+
+  const { data, error } = await admin
+    .from("bulk_jobs")
+    .insert({
+      object_type_id: selection.objectTypeId,
+      action: action as unknown as Json,
+      object_ids: objectIds,
+      total: objectIds.length,
+      created_by: ctx.userId,
+    })
+    .select()
+    .single();
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  scheduleBulkJob(ctx, data.id);
+  return mapRow(data);
+}
+
+/**
+ * A bulk job started by the user, with its current progress.
+ */
+export async function getBulkJob(ctx: AuthContext, jobId: string): Promise<BulkJob> {
+  const admin = createAdminClient();
+
+  const { data } = await admin
+    .from("bulk_jobs")
+    .select("*")
+    .eq("id", jobId)
+    .eq("created_by", ctx.userId)
+    .single();
+
+  if (!data) throw new AppError("NOT_FOUND", "Bulk job not found");
+  return mapRow(data);
+}
@@ -0,0 +1,1005 @@
+/**
+ * OMP Engine — Duplicate Service
+ *
+ * Duplicate rules per object type, the scan that flags likely duplicate
+ * pairs into the review queue, and the merge that folds one object (the
+ * loser) into another (the survivor): chosen field values are copied over,
+ * relations and timeline events are re-pointed to the survivor, and the
+ * loser goes to the trash. A merge is audited as one "object:merge" entry
+ * on the survivor.
+ */
+
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { AuthContext } from "@/lib/permissions/rbac";
+import { requireModuleAccess, requirePermission } from "@/lib/permissions/rbac";
+import { Actions } from "@/lib/permissions/actions";
+import { AppError } from "@/lib/utils/errors";
+import { auditLog } from "@/lib/audit/logger";
+import type { Json } from "@/lib/supabase/database.types";
+import type {
+  DuplicateCandidate,
+  DuplicateMatchKey,
+  DuplicateRule,
+  DuplicateRuleInput,
+  DuplicateRuleRow,
+  DuplicateScanSummary,
+  DuplicateStatus,
+  MergeInput,
+  MergeSummary,
+} from "../types/duplicate.types";
+import type { ModuleSchema } from "../types/module.types";
+import { parseModuleSchema } from "../types/module.types";
+import { duplicateRuleSchema, mergeSchema } from "../schemas/duplicate.schema";
+import { validateModuleData, applyDefaults } from "../schemas/dynamic-validator";
+import { stripComputedFields } from "../formulas";
+import { relationFieldIds, validateRelationFields } from "./relation.service";
+import { getRelatedObjectIds, refreshRollups } from "./rollup.service";
+import { assertInScope, isInScope, requireRecordScope } from "./sharing.service";
+import { assertFieldWrites } from "./field-permission.service";
+import { loadDisplayNames } from "./trash.service";
+import { checkWorkflowTransition, getActiveWorkflow } from "./workflow.service";
+
+/** Most object_modules rows read per object type during a scan */
+const MAX_SCAN_ROWS = 20000;
+/** Rows read per request during a scan */
+const SCAN_PAGE_SIZE = 1000;
+/** Objects compared pairwise within one block; larger blocks are cut */
+const MAX_BLOCK_SIZE = 500;
+/** Leading characters that group fuzzy-only rules into blocks */
+const FUZZY_BLOCK_PREFIX = 2;
+/** Most open pairs listed in the review queue */
+const MAX_QUEUE_ITEMS = 200;
+/** Candidate rows inserted per statement */
+const INSERT_BATCH_SIZE = 500;
+/** IDs per `in` filter, to keep request URLs short */
+const ID_CHUNK_SIZE = 200;
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+type ModuleDef = { id: string; name: string; displayName: string; schema: ModuleSchema };
+
+type StoredModule = { def: ModuleDef; data: Record<string, unknown> };
+
+type FlaggedPair = { a: string; b: string; score: number };
+
+type CandidateJoin = {
+  object_types: { name: string } | null;
+  duplicate_rules: { name: string } | null;
+};
+
+// ── Helpers ──────────────────────────────────
+
+function mapRule(row: DuplicateRuleRow): DuplicateRule {
+  return {
+    id: row.id,
+    objectTypeId: row.object_type_id,
+    name: row.name,
+    matchKeys: (Array.isArray(row.match_keys) ? row.match_keys : []) as unknown as DuplicateMatchKey[],
+    threshold: Number(row.threshold),
+    isActive: row.is_active,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function parseInput<T>(schema: typeof duplicateRuleSchema | typeof mergeSchema, input: T): T {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    throw new AppError(
+      "VALIDATION",
+      parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join(", ")
+    );
+  }
+  return parsed.data as T;
+}
+
+function chunk<T>(items: T[], size = ID_CHUNK_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+/** Order a pair the way duplicate_candidates stores it */
+function orderPair(x: string, y: string): [string, string] {
+  return x < y ? [x, y] : [y, x];
+}
+
+/**
+ * A field value in comparable form, or "" when it can't match anything.
+ */
+function normalizeValue(value: unknown, match: DuplicateMatchKey["match"]): string {
+  if (value === null || value === undefined) return "";
+  const text = Array.isArray(value) ? value.map(String).sort().join(",") : String(value);
+
+  switch (match) {
+    case "email":
+      return text.trim().toLowerCase();
+    case "phone": {
+      // Compare national numbers: drop formatting and country prefixes
+      const digits = text.replace(/\D/g, "");
+      return digits.length >= 7 ? digits.slice(-10) : "";
+    }
+    case "fuzzy":
+      return text
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9\s]/g, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+    default:
+      return text.trim().toLowerCase();
+  }
+}
+
+/** 1 for identical strings, down to 0 (Levenshtein distance over length) */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(
+        prev[j] + 1,
+        row[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    prev = row;
+  }
+  return 1 - prev[b.length] / longest;
+}
+
+/**
+ * Pairs of objects matching every key of a rule. Objects are grouped into
+ * blocks that must agree — the exact keys, or the start of the first fuzzy
+ * key — and only compared within their block.
+ */
+function findPairs(rule: DuplicateRule, values: Map<string, string[]>): FlaggedPair[] {
+  const fuzzy = rule.matchKeys.map((k) => k.match === "fuzzy");
+  const hasExactKey = fuzzy.some((f) => !f);
+
+  const blocks = new Map<string, string[]>();
+  for (const [id, normalized] of values) {
+    if (normalized.some((v) => v === "")) continue;
+    const blockKey = hasExactKey
+      ? normalized.filter((_, i) => !fuzzy[i]).join("\u0000")
+      : normalized[0].slice(0, FUZZY_BLOCK_PREFIX);
+    const block = blocks.get(blockKey) ?? [];
+    block.push(id);
+    blocks.set(blockKey, block);
+  }
+
+  const compare = (a: string, b: string): FlaggedPair | null => {
+    const va = values.get(a)!;
+    const vb = values.get(b)!;
+    let total = 0;
+    for (let i = 0; i < va.length; i++) {
+      const score = fuzzy[i] ? similarity(va[i], vb[i]) : 1;
+      if (score < rule.threshold) return null;
+      total += score;
+    }
+    const [first, second] = orderPair(a, b);
+    return { a: first, b: second, score: Math.round((total / va.length) * 1000) / 1000 };
+  };
+
+  const pairs: FlaggedPair[] = [];
+  for (const block of blocks.values()) {
+    if (block.length < 2) continue;
+    const ids = block.slice(0, MAX_BLOCK_SIZE);
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const pair = compare(ids[i], ids[j]);
+        if (pair) pairs.push(pair);
+      }
+    }
+  }
+  return pairs;
+}
+
+async function loadModuleDefs(admin: AdminClient): Promise<ModuleDef[]> {
+  const { data, error } = await admin.from("modules").select("id, name, display_name, schema");
+  if (error) throw new AppError("DB_ERROR", error.message);
+  return (data ?? []).map((m) => ({
+    id: m.id,
+    name: m.name,
+    displayName: m.display_name,
+    schema: parseModuleSchema(m.schema),
+  }));
+}
+
+/**
+ * Normalized match key values of every live object of a type that has at
+ * least one of the rule modules.
+ */
+async function loadMatchValues(
+  admin: AdminClient,
+  objectTypeId: string,
+  rules: DuplicateRule[],
+  defs: ModuleDef[]
+): Promise<Map<string, Map<string, string[]>>> {
+  const moduleIds = new Map(defs.map((d) => [d.name, d.id]));
+  const needed = [
+    ...new Set(
+      rules.flatMap((r) => r.matchKeys.map((k) => moduleIds.get(k.moduleName))).filter(
+        (id): id is string => !!id
+      )
+    ),
+  ];
+
+  const dataByObject = new Map<string, Map<string, Record<string, unknown>>>();
+  for (let from = 0; from < MAX_SCAN_ROWS && needed.length > 0; from += SCAN_PAGE_SIZE) {
+    const { data, error } = await admin
+      .from("object_modules")
+      .select("object_id, module_id, data, objects!inner(object_type_id, deleted_at)")
+      .in("module_id", needed)
+      .eq("objects.object_type_id", objectTypeId)
+      .is("objects.deleted_at", null)
+      .order("id")
+      .range(from, from + SCAN_PAGE_SIZE - 1);
+
+    if (error) throw new AppError("DB_ERROR", error.message);
+
+    for (const om of data ?? []) {
+      const modules = dataByObject.get(om.object_id) ?? new Map();
+      modules.set(om.module_id, (om.data ?? {}) as Record<string, unknown>);
+      dataByObject.set(om.object_id, modules);
+    }
+    if ((data ?? []).length < SCAN_PAGE_SIZE) break;
+  }
+
+  const result = new Map<string, Map<string, string[]>>();
+  for (const rule of rules) {
+    const values = new Map<string, string[]>();
+    for (const [objectId, modules] of dataByObject) {
+      values.set(
+        objectId,
+        rule.matchKeys.map((k) => {
+          const moduleId = moduleIds.get(k.moduleName);
+          const data = moduleId ? modules.get(moduleId) : undefined;
+          return normalizeValue(data?.[k.fieldKey], k.match);
+        })
+      );
+    }
+    result.set(rule.id, values);
+  }
+  return result;
+}
+
+/**
+ * Store flagged pairs. Pairs already in the queue — open, dismissed or
+ * merged — are left as they are. Returns how many pairs are new.
+ */
+async function insertCandidates(
+  admin: AdminClient,
+  objectTypeId: string,
+  ruleId: string,
+  pairs: FlaggedPair[]
+): Promise<number> {
+  let inserted = 0;
+  for (const batch of chunk(pairs, INSERT_BATCH_SIZE)) {
+    const { data, error } = await admin
+      .from("duplicate_candidates")
+      .upsert(
+        batch.map((p) => ({
+          object_type_id: objectTypeId,
+          rule_id: ruleId,
+          object_a_id: p.a,
+          object_b_id: p.b,
+          score: p.score,
+        })),
+        { onConflict: "object_a_id,object_b_id", ignoreDuplicates: true }
+      )
+      .select("id");
+
+    if (error) throw new AppError("DB_ERROR", error.message);
+    inserted += (data ?? []).length;
+  }
+  return inserted;
+}
+
+/**
+ * Check a rule's match keys against the modules attached to its type.
+ */
+async function validateRule(
+  admin: AdminClient,
+  objectTypeId: string,
+  input: DuplicateRuleInput
+): Promise<void> {
+  const { data: typeModules } = await admin
+    .from("object_type_modules")
+    .select("modules(name, schema)")
+    .eq("object_type_id", objectTypeId);
+
+  const modules = (typeModules ?? [])
+    .map((tm) => (tm as unknown as { modules: { name: string; schema: Json } | null }).modules)
+    .filter((m): m is { name: string; schema: Json } => !!m);
+
+  for (const key of input.matchKeys) {
+    const mod = modules.find((m) => m.name === key.moduleName);
+    if (!mod) {
+      throw new AppError("VALIDATION", `Module '${key.moduleName}' is not attached to this type`);
+    }
+    const field = parseModuleSchema(mod.schema).fields.find((f) => f.key === key.fieldKey);
+    if (!field) {
+      throw new AppError("VALIDATION", `Field '${key.moduleName}.${key.fieldKey}' does not exist`);
+    }
+    if (field.type === "formula") {
+      throw new AppError("VALIDATION", "Formula fields are computed on read and cannot be matched");
+    }
+  }
+}
+
+/**
+ * Remove the merged objects from relation field values, since a merged
+ * object can't link to itself. Returns `data` itself when nothing changed.
+ */
+function dropMergedLinks(
+  schema: ModuleSchema,
+  data: Record<string, unknown>,
+  ids: string[]
+): Record<string, unknown> {
+  let result = data;
+  for (const field of schema.fields.filter((f) => f.type === "relation")) {
+    const value = data[field.key];
+    if (!relationFieldIds(value).some((id) => ids.includes(id))) continue;
+    result = {
+      ...result,
+      [field.key]: Array.isArray(value) ? value.filter((v) => !ids.includes(v)) : null,
+    };
+  }
+  return result;
+}
+
+/**
+ * Module data stored on an object, unredacted.
+ */
+async function loadStoredModules(
+  admin: AdminClient,
+  objectId: string,
+  defs: ModuleDef[]
+): Promise<Map<string, StoredModule>> {
+  const { data, error } = await admin
+    .from("object_modules")
+    .select("module_id, data")
+    .eq("object_id", objectId);
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  const result = new Map<string, StoredModule>();
+  for (const om of data ?? []) {
+    const def = defs.find((d) => d.id === om.module_id);
+    if (def) result.set(def.name, { def, data: (om.data ?? {}) as Record<string, unknown> });
+  }
+  return result;
+}
+
+/**
+ * Re-point the loser's relations to the survivor. Links between the two,
+ * and links the survivor already has, are dropped. Returns the number of
+ * relations moved.
+ */
+async function moveRelations(
+  admin: AdminClient,
+  survivorId: string,
+  loserId: string
+): Promise<number> {
+  const [{ data: loserRows }, { data: survivorRows }] = await Promise.all([
+    admin
+      .from("object_relations")
+      .select("id, from_object_id, to_object_id, relation_type")
+      .or(`from_object_id.eq.${loserId},to_object_id.eq.${loserId}`),
+    admin
+      .from("object_relations")
+      .select("from_object_id, to_object_id, relation_type")
+      .or(`from_object_id.eq.${survivorId},to_object_id.eq.${survivorId}`),
+  ]);
+
+  const linkKey = (from: string, to: string, type: string) => `${from}:${to}:${type}`;
+  const existing = new Set(
+    (survivorRows ?? []).map((r) => linkKey(r.from_object_id, r.to_object_id, r.relation_type))
+  );
+
+  let moved = 0;
+  const dropped: string[] = [];
+  for (const row of loserRows ?? []) {
+    const from = row.from_object_id === loserId ? survivorId : row.from_object_id;
+    const to = row.to_object_id === loserId ? survivorId : row.to_object_id;
+    const key = linkKey(from, to, row.relation_type);
+
+    if (from === to || existing.has(key)) {
+      dropped.push(row.id);
+      continue;
+    }
+
+    const { error } = await admin
+      .from("object_relations")
+      .update({ from_object_id: from, to_object_id: to })
+      .eq("id", row.id);
+    if (error) throw new AppError("DB_ERROR", error.message);
+
+    existing.add(key);
+    moved++;
+
+    // Other objects' relation fields pointing at the loser
+    if (row.to_object_id === loserId && row.from_object_id !== survivorId) {
+      await repointRelationField(admin, row.from_object_id, row.relation_type, loserId, survivorId);
+    }
+  }
+
+  for (const ids of chunk(dropped)) {
+    const { error } = await admin.from("object_relations").delete().in("id", ids);
+    if (error) throw new AppError("DB_ERROR", error.message);
+  }
+  return moved;
+}
+
+/**
+ * Replace an object ID inside a relation field of another object's module
+ * data, so the field keeps matching its mirrored relation.
+ */
+async function repointRelationField(
+  admin: AdminClient,
+  objectId: string,
+  fieldKey: string,
+  fromId: string,
+  toId: string
+): Promise<void> {
+  const { data } = await admin
+    .from("object_modules")
+    .select("id, data")
+    .eq("object_id", objectId);
+
+  for (const om of data ?? []) {
+    const moduleData = (om.data ?? {}) as Record<string, unknown>;
+    const value = moduleData[fieldKey];
+    if (!relationFieldIds(value).includes(fromId)) continue;
+
+    const next = Array.isArray(value)
+      ? [...new Set(value.map((v) => (v === fromId ? toId : v)))]
+      : toId;
+    await admin
+      .from("object_modules")
+      .update({ data: { ...moduleData, [fieldKey]: next } as unknown as Json })
+      .eq("id", om.id);
+  }
+}
+
+/**
+ * Make the survivor's relation field links match its merged module data:
+ * links moved over from the loser that the chosen values don't keep are
+ * removed, and newly referenced objects are linked. Done directly rather
+ * than through syncRelationFields so the merge stays one audit entry.
+ */
+async function syncMergedRelationFields(
+  admin: AdminClient,
+  survivorId: string,
+  modules: StoredModule[]
+): Promise<void> {
+  for (const { def, data } of modules) {
+    for (const field of def.schema.fields.filter((f) => f.type === "relation" && f.targetType)) {
+      const ids = relationFieldIds(data[field.key]);
+
+      const { data: existing } = await admin
+        .from("object_relations")
+        .select("id, to_object_id")
+        .eq("from_object_id", survivorId)
+        .eq("relation_type", field.key);
+
+      const stale = (existing ?? []).filter((r) => !ids.includes(r.to_object_id)).map((r) => r.id);
+      if (stale.length > 0) {
+        const { error } = await admin.from("object_relations").delete().in("id", stale);
+        if (error) throw new AppError("DB_ERROR", error.message);
+      }
+
+      const linked = new Set((existing ?? []).map((r) => r.to_object_id));
+      const added = ids.filter((id) => !linked.has(id));
+      if (added.length > 0) {
+        const { error } = await admin.from("object_relations").insert(
+          added.map((id) => ({
+            from_object_id: survivorId,
+            to_object_id: id,
+            relation_type: field.key,
+          }))
+        );
+        if (error) throw new AppError("DB_ERROR", error.message);
+      }
+    }
+  }
+}
+
+async function loadCandidateRows(
+  admin: AdminClient,
+  filter: { id?: string; objectTypeId?: string }
+) {
+  let query = admin
+    .from("duplicate_candidates")
+    .select("*, object_types(name), duplicate_rules(name)")
+    .eq("status", "open")
+    .order("score", { ascending: false })
+    .order("created_at", { ascending: false })
+    .limit(MAX_QUEUE_ITEMS);
+  if (filter.id) query = query.eq("id", filter.id);
+  if (filter.objectTypeId) query = query.eq("object_type_id", filter.objectTypeId);
+
+  const { data, error } = await query;
+  if (error) throw new AppError("DB_ERROR", error.message);
+  return data ?? [];
+}
+
+/**
+ * Open pairs whose objects are both live and readable by the user.
+ */
+async function buildCandidates(
+  ctx: AuthContext,
+  rows: Awaited<ReturnType<typeof loadCandidateRows>>
+): Promise<DuplicateCandidate[]> {
+  const scope = await requireRecordScope(ctx, "read");
+  const admin = createAdminClient();
+
+  const ids = [...new Set(rows.flatMap((r) => [r.object_a_id, r.object_b_id]))];
+  const objects = new Map<
+    string,
+    { id: string; object_type_id: string; owner_id: string | null; created_by: string; created_at: string }
+  >();
+  for (const batch of chunk(ids)) {
+    const { data } = await admin
+      .from("objects")
+      .select("id, object_type_id, owner_id, created_by, created_at")
+      .in("id", batch)
+      .is("deleted_at", null);
+    for (const obj of data ?? []) {
+      if (isInScope(scope, obj)) objects.set(obj.id, obj);
+    }
+  }
+
+  const displayNames = await loadDisplayNames(ctx, [...objects.values()]);
+  const summary = (id: string) => {
+    const obj = objects.get(id)!;
+    return {
+      id,
+      displayName: displayNames.get(id) ?? "Unnamed Object",
+      createdAt: obj.created_at,
+    };
+  };
+
+  return rows
+    .filter((r) => objects.has(r.object_a_id) && objects.has(r.object_b_id))
+    .map((r) => {
+      const join = r as unknown as CandidateJoin;
+      return {
+        id: r.id,
+        objectTypeId: r.object_type_id,
+        objectTypeName: join.object_types?.name ?? "unknown",
+        ruleName: join.duplicate_rules?.name ?? null,
+        score: Number(r.score),
+        status: r.status as DuplicateStatus,
+        objectA: summary(r.object_a_id),
+        objectB: summary(r.object_b_id),
+        createdAt: r.created_at,
+      };
+    });
+}
+
+// ── Rules ────────────────────────────────────
+
+/**
+ * Get duplicate rules, optionally for a single object type.
+ */
+export async function getDuplicateRules(
+  ctx: AuthContext,
+  objectTypeId?: string
+): Promise<DuplicateRule[]> {
+  const admin = createAdminClient();
+
+  let query = admin.from("duplicate_rules").select("*").order("created_at");
+  if (objectTypeId) query = query.eq("object_type_id", objectTypeId);
+
+  const { data, error } = await query;
+  if (error) throw new AppError("DB_ERROR", error.message);
+  return (data ?? []).map(mapRule);
+}
+
+/**
+ * Define a duplicate rule on an object type.
+ */
+export async function createDuplicateRule(
+  ctx: AuthContext,
+  objectTypeId: string,
+  input: DuplicateRuleInput
+): Promise<DuplicateRule> {
+  requirePermission(ctx, Actions.OBJECT_TYPE_MANAGE);
+  const rule = parseInput(duplicateRuleSchema, input);
+
+  const admin = createAdminClient();
+  await validateRule(admin, objectTypeId, rule);
+
+  const { data, error } = await admin
+    .from("duplicate_rules")
+    .insert({
+      object_type_id: objectTypeId,
+      name: rule.name,
+      match_keys: rule.matchKeys as unknown as Json,
+      threshold: rule.threshold ?? 0.85,
+      is_active: rule.isActive ?? true,
+      created_by: ctx.userId,
+    })
+    .select()
+    .single();
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  await auditLog(ctx, {
+    action: "duplicate_rule:create",
+    category: "settings",
+    entityType: "duplicate_rule",
+    entityId: data.id,
+    newValues: { objectTypeId, ...rule } as unknown as Record<string, unknown>,
+  });
+
+  return mapRule(data);
+}
+
+/**
+ * Replace a duplicate rule's definition. Pairs it already flagged stay in
+ * the queue.
+ */
+export async function updateDuplicateRule(
+  ctx: AuthContext,
+  ruleId: string,
+  input: DuplicateRuleInput
+): Promise<DuplicateRule> {
+  requirePermission(ctx, Actions.OBJECT_TYPE_MANAGE);
+  const rule = parseInput(duplicateRuleSchema, input);
+
+  const admin = createAdminClient();
+
+  const { data: old } = await admin
+    .from("duplicate_rules")
+    .select("*")
+    .eq("id", ruleId)
+    .single();
+
+  if (!old) throw new AppError("NOT_FOUND", "Duplicate rule not found");
+
+  await validateRule(admin, old.object_type_id, rule);
+
+  const { data, error } = await admin
+    .from("duplicate_rules")
+    .update({
+      name: rule.name,
+      match_keys: rule.matchKeys as unknown as Json,
+      threshold: rule.threshold ?? Number(old.threshold),
+      is_active: rule.isActive ?? old.is_active,
+    })
+    .eq("id", ruleId)
+    .select()
+    .single();
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  await auditLog(ctx, {
+    action: "duplicate_rule:update",
+    category: "settings",
+    entityType: "duplicate_rule",
+    entityId: ruleId,
+    oldValues: old as unknown as Record<string, unknown>,
+    newValues: rule as unknown as Record<string, unknown>,
+  });
+
+  return mapRule(data);
+}
+
+/**
+ * Delete a duplicate rule. Pairs it flagged stay in the queue.
+ */
+export async function deleteDuplicateRule(ctx: AuthContext, ruleId: string): Promise<void> {
+  requirePermission(ctx, Actions.OBJECT_TYPE_MANAGE);
+
+  const admin = createAdminClient();
+
+  const { data: old } = await admin
+    .from("duplicate_rules")
+    .select("*")
+    .eq("id", ruleId)
+    .single();
+
+  if (!old) throw new AppError("NOT_FOUND", "Duplicate rule not found");
+
+  const { error } = await admin.from("duplicate_rules").delete().eq("id", ruleId);
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  await auditLog(ctx, {
+    action: "duplicate_rule:delete",
+    category: "settings",
+    entityType: "duplicate_rule",
+    entityId: ruleId,
+    oldValues: old as unknown as Record<string, unknown>,
+  });
+}
+
+// ── Scan ─────────────────────────────────────
+
+/**
+ * Run the active duplicate rules — of one object type, or of all — and add
+ * newly flagged pairs to the review queue. Runs without a user context
+ * (scheduled route or "Scan now"); callers check permissions.
+ */
+export async function scanDuplicates(objectTypeId?: string): Promise<DuplicateScanSummary> {
+  const admin = createAdminClient();
+
+  let query = admin.from("duplicate_rules").select("*").eq("is_active", true);
+  if (objectTypeId) query = query.eq("object_type_id", objectTypeId);
+  const { data, error } = await query;
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  const rules = (data ?? []).map(mapRule);
+  const summary: DuplicateScanSummary = { objectsScanned: 0, pairsFlagged: 0 };
+  if (rules.length === 0) return summary;
+
+  const defs = await loadModuleDefs(admin);
+  const rulesByType = new Map<string, DuplicateRule[]>();
+  for (const rule of rules) {
+    rulesByType.set(rule.objectTypeId, [...(rulesByType.get(rule.objectTypeId) ?? []), rule]);
+  }
+
+  for (const [typeId, typeRules] of rulesByType) {
+    const valuesByRule = await loadMatchValues(admin, typeId, typeRules, defs);
+    const scanned = new Set<string>();
+
+    for (const rule of typeRules) {
+      const values = valuesByRule.get(rule.id)!;
+      for (const id of values.keys()) scanned.add(id);
+      summary.pairsFlagged += await insertCandidates(admin, typeId, rule.id, findPairs(rule, values));
+    }
+    summary.objectsScanned += scanned.size;
+  }
+
+  return summary;
+}
+
+/**
+ * "Scan now" from the review queue.
+ */
+export async function runDuplicateScan(
+  ctx: AuthContext,
+  objectTypeId?: string
+): Promise<DuplicateScanSummary> {
+  requirePermission(ctx, Actions.OBJECT_MERGE);
+  return scanDuplicates(objectTypeId);
+}
+
+// ── Review Queue ─────────────────────────────
+
+/**
+ * Open duplicate pairs, most similar first.
+ */
+export async function getDuplicateCandidates(
+  ctx: AuthContext,
+  objectTypeId?: string
+): Promise<DuplicateCandidate[]> {
+  requirePermission(ctx, Actions.OBJECT_MERGE);
+  const admin = createAdminClient();
+  return buildCandidates(ctx, await loadCandidateRows(admin, { objectTypeId }));
+}
+
+/**
+ * A single open pair, for the merge tool.
+ */
+export async function getDuplicateCandidate(
+  ctx: AuthContext,
+  candidateId: string
+): Promise<DuplicateCandidate> {
+  requirePermission(ctx, Actions.OBJECT_MERGE);
+  const admin = createAdminClient();
+  const [candidate] = await buildCandidates(ctx, await loadCandidateRows(admin, { id: candidateId }));
+  if (!candidate) throw new AppError("NOT_FOUND", "Duplicate pair not found");
+  return candidate;
+}
+
+/**
+ * Mark a pair as not duplicates. Later scans won't flag it again.
+ */
+export async function dismissDuplicate(ctx: AuthContext, candidateId: string): Promise<void> {
+  requirePermission(ctx, Actions.OBJECT_MERGE);
+
+  const admin = createAdminClient();
+  const { data, error } = await admin
+    .from("duplicate_candidates")
+    .update({ status: "dismissed", reviewed_by: ctx.userId, reviewed_at: new Date().toISOString() })
+    .eq("id", candidateId)
+    .eq("status", "open")
+    .select()
+    .single();
+
+  if (error || !data) throw new AppError("NOT_FOUND", "Duplicate pair not found");
+
+  await auditLog(ctx, {
+    action: "duplicate:dismiss",
+    category: "data",
+    entityType: "duplicate_candidate",
+    entityId: candidateId,
+    metadata: { objectAId: data.object_a_id, objectBId: data.object_b_id },
+  });
+}
+
+// ── Merge ────────────────────────────────────
+
+/**
+ * Merge the loser into the survivor. The survivor keeps its own values
+ * except for the fields taken from the loser, and gets the loser's modules
+ * it doesn't have. Field masks, module validation and stage workflow
+ * transitions apply as for an edit; automations don't run.
+ *
+ * Every write before trashing the loser can be repeated, and trashing it
+ * comes last, so a merge that fails partway can simply be run again.
+ */
+export async function mergeObjects(ctx: AuthContext, input: MergeInput): Promise<MergeSummary> {
+  requirePermission(ctx, Actions.OBJECT_MERGE);
+  const { survivorId, loserId, fields } = parseInput(mergeSchema, input);
+
+  const [updateScope, deleteScope] = await Promise.all([
+    requireRecordScope(ctx, "update"),
+    requireRecordScope(ctx, "delete"),
+  ]);
+
+  const admin = createAdminClient();
+
+  const { data: objects } = await admin
+    .from("objects")
+    .select("*, object_types(name)")
+    .in("id", [survivorId, loserId])
+    .is("deleted_at", null);
+
+  const survivor = (objects ?? []).find((o) => o.id === survivorId);
+  const loser = (objects ?? []).find((o) => o.id === loserId);
+  if (!survivor || !loser) throw new AppError("NOT_FOUND", "Object not found");
+  if (survivor.object_type_id !== loser.object_type_id) {
+    throw new AppError("VALIDATION", "Only objects of the same type can be merged");
+  }
+
+  assertInScope(updateScope, survivor);
+  assertInScope(deleteScope, loser);
+
+  const typeId = survivor.object_type_id;
+  const typeName =
+    (survivor as unknown as { object_types: { name: string } | null }).object_types?.name ??
+    "unknown";
+
+  const defs = await loadModuleDefs(admin);
+  const [survivorModules, loserModules] = await Promise.all([
+    loadStoredModules(admin, survivorId, defs),
+    loadStoredModules(admin, loserId, defs),
+  ]);
+
+  // Build and check the survivor's new module data
+  const merged = new Map<string, StoredModule>();
+  for (const [name, loserModule] of loserModules) {
+    const current = survivorModules.get(name);
+    const taken = fields.filter((f) => f.moduleName === name && f.source === "loser");
+    if (current && taken.length === 0) continue;
+
+    const { def } = loserModule;
+    requireModuleAccess(ctx, def.id, typeId, "write");
+
+    const previous = current?.data ?? applyDefaults(def.schema, {});
+    const data = current
+      ? {
+          ...current.data,
+          ...Object.fromEntries(taken.map((f) => [f.fieldKey, loserModule.data[f.fieldKey] ?? null])),
+        }
+      : loserModule.data;
+
+    assertFieldWrites(ctx, def.id, typeId, def.schema, data, previous);
+    const withDefaults = applyDefaults(def.schema, stripComputedFields(def.schema, data));
+    const validation = validateModuleData(def.schema, withDefaults);
+    if (!validation.success) {
+      throw new AppError(
+        "VALIDATION",
+        `${def.displayName}: ${validation.errors.join(", ")}`
+      );
+    }
+
+    const cleaned = dropMergedLinks(def.schema, withDefaults, [survivorId, loserId]);
+    await validateRelationFields(ctx, survivor, def.schema, cleaned);
+    merged.set(name, { def, data: cleaned });
+  }
+
+  // Survivor relation fields pointing at the loser would point at itself
+  for (const [name, current] of survivorModules) {
+    if (merged.has(name)) continue;
+    const cleaned = dropMergedLinks(current.def.schema, current.data, [survivorId, loserId]);
+    if (cleaned !== current.data) merged.set(name, { def: current.def, data: cleaned });
+  }
+
+  // A stage taken from the loser must be a move the workflow allows
+  const workflow = await getActiveWorkflow(typeId);
+  const stageModule = workflow ? merged.get(workflow.moduleName) : undefined;
+  if (workflow && stageModule) {
+    const from = survivorModules.get(workflow.moduleName)?.data[workflow.fieldKey];
+    const to = stageModule.data[workflow.fieldKey];
+    const moduleData = Object.fromEntries(
+      [...new Map([...survivorModules, ...merged])].map(([name, m]) => [name, m.data])
+    );
+    const violation = checkWorkflowTransition(workflow, from, to, moduleData);
+    if (violation) throw new AppError("VALIDATION", violation);
+  }
+
+  const relatedIds = [
+    ...new Set([
+      ...(await getRelatedObjectIds(survivorId)),
+      ...(await getRelatedObjectIds(loserId)),
+    ]),
+  ];
+
+  for (const { def, data } of merged.values()) {
+    const { error } = await admin
+      .from("object_modules")
+      .upsert(
+        { object_id: survivorId, module_id: def.id, data: data as unknown as Json },
+        { onConflict: "object_id,module_id" }
+      );
+    if (error) throw new AppError("DB_ERROR", error.message);
+  }
+
+  const relationsMoved = await moveRelations(admin, survivorId, loserId);
+
+  await syncMergedRelationFields(admin, survivorId, [
+    ...new Map([...survivorModules, ...merged]).values(),
+  ]);
+
+  const { data: movedEvents, error: timelineError } = await admin
+    .from("timeline_events")
+    .update({ object_id: survivorId })
+    .eq("object_id", loserId)
+    .select("id");
+  if (timelineError) throw new AppError("DB_ERROR", timelineError.message);
+
+  // Trashing the loser completes the merge; its pair then drops out of
+  // the review queue even if marking the pair below fails
+  const { error: deleteError } = await admin
+    .from("objects")
+    .update({ deleted_at: new Date().toISOString(), deleted_by: ctx.userId })
+    .eq("id", loserId);
+  if (deleteError) throw new AppError("DB_ERROR", deleteError.message);
+
+  const [a, b] = orderPair(survivorId, loserId);
+  await admin
+    .from("duplicate_candidates")
+    .update({ status: "merged", reviewed_by: ctx.userId, reviewed_at: new Date().toISOString() })
+    .eq("object_a_id", a)
+    .eq("object_b_id", b);
+
+  await refreshRollups([survivorId, ...relatedIds.filter((id) => id !== loserId)]);
+
+  const summary: MergeSummary = {
+    survivorId,
+    loserId,
+    relationsMoved,
+    timelineEventsMoved: (movedEvents ?? []).length,
+  };
+
+  const moduleData = (modules: Map<string, StoredModule>) =>
+    Object.fromEntries([...modules].map(([name, m]) => [name, m.data]));
+
+  await auditLog(ctx, {
+    action: "object:merge",
+    category: "data",
+    entityType: typeName,
+    entityId: survivorId,
+    oldValues: { survivor: moduleData(survivorModules), loser: moduleData(loserModules) },
+    newValues: { modules: moduleData(merged) },
+    metadata: {
+      loserId,
+      fields: fields.filter((f) => f.source === "loser").map((f) => `${f.moduleName}.${f.fieldKey}`),
+      relationsMoved: summary.relationsMoved,
+      timelineEventsMoved: summary.timelineEventsMoved,
+    },
+  });
+
+  return summary;
+}
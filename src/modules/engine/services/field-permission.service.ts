@@ -0,0 +1,139 @@
+/**
+ * OMP Engine — Field Permission Service
+ *
+ * Applies the per-role field masks from migration 015 to module data.
+ * Hidden fields are stripped from what the user reads; hidden and
+ * read-only fields can't be changed by what the user writes.
+ */
+
+import type { AuthContext } from "@/lib/permissions/rbac";
+import { getFieldPermission } from "@/lib/permissions/rbac";
+import { AppError } from "@/lib/utils/errors";
+import type { AttachedModule, ModuleSchema } from "../types/module.types";
+
+// ── Helpers ──────────────────────────────────
+
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Whether two field values are equal; empty values (null, "", []) count
+ * as the same.
+ */
+export function sameValue(a: unknown, b: unknown): boolean {
+  if (isEmptyValue(a) && isEmptyValue(b)) return true;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function lockedFields(
+  ctx: AuthContext,
+  moduleId: string,
+  objectTypeId: string,
+  schema: ModuleSchema
+) {
+  return schema.fields.filter(
+    (f) =>
+      f.type !== "formula" &&
+      !getFieldPermission(ctx, moduleId, objectTypeId, f.key).canWrite
+  );
+}
+
+// ── Reads ────────────────────────────────────
+
+/**
+ * Keys of a module's fields the user can't see on objects of a type.
+ */
+export function getHiddenFieldKeys(
+  ctx: AuthContext,
+  moduleId: string,
+  objectTypeId: string
+): Set<string> {
+  const hidden = new Set<string>();
+  for (const key of ctx.fieldPermissions.keys()) {
+    const [maskModule, maskType, ...field] = key.split(":");
+    if (maskModule !== moduleId) continue;
+    if (maskType !== "all" && maskType !== objectTypeId) continue;
+
+    const fieldKey = field.join(":");
+    if (!getFieldPermission(ctx, moduleId, objectTypeId, fieldKey).canRead) {
+      hidden.add(fieldKey);
+    }
+  }
+  return hidden;
+}
+
+/**
+ * Strip hidden fields from an object's modules — from both the data and
+ * the schema, so forms and formulas treat them as absent — and list the
+ * read-only ones. Run before computing formulas so a formula can't reveal
+ * a hidden field.
+ */
+export function redactModules(
+  ctx: AuthContext,
+  objectTypeId: string,
+  modules: AttachedModule[]
+): AttachedModule[] {
+  return modules.map((m) => {
+    const hidden = getHiddenFieldKeys(ctx, m.moduleId, objectTypeId);
+    const readOnly = lockedFields(ctx, m.moduleId, objectTypeId, m.schema)
+      .map((f) => f.key)
+      .filter((key) => !hidden.has(key));
+    if (hidden.size === 0 && readOnly.length === 0) return m;
+
+    return {
+      ...m,
+      schema: { ...m.schema, fields: m.schema.fields.filter((f) => !hidden.has(f.key)) },
+      data: Object.fromEntries(Object.entries(m.data).filter(([key]) => !hidden.has(key))),
+      readOnlyFields: readOnly,
+    };
+  });
+}
+
+// ── Writes ───────────────────────────────────
+
+/**
+ * Throws FORBIDDEN when `data` changes a field the user can't write.
+ * `previous` is the stored module data, or the schema defaults for new
+ * module data. Fields missing from `data` count as unchanged.
+ */
+export function assertFieldWrites(
+  ctx: AuthContext,
+  moduleId: string,
+  objectTypeId: string,
+  schema: ModuleSchema,
+  data: Record<string, unknown>,
+  previous: Record<string, unknown>
+): void {
+  for (const field of lockedFields(ctx, moduleId, objectTypeId, schema)) {
+    if (field.key in data && !sameValue(data[field.key], previous[field.key])) {
+      throw new AppError("FORBIDDEN", `You can't edit the field '${field.label}'`);
+    }
+  }
+}
+
+/**
+ * Carry over stored values of fields the user can't write, so saving a
+ * form that never showed them doesn't wipe them.
+ */
+export function keepLockedFields(
+  ctx: AuthContext,
+  moduleId: string,
+  objectTypeId: string,
+  schema: ModuleSchema,
+  data: Record<string, unknown>,
+  previous: Record<string, unknown>
+): Record<string, unknown> {
+  const result = { ...data };
+  for (const field of lockedFields(ctx, moduleId, objectTypeId, schema)) {
+    if (!(field.key in data) && previous[field.key] !== undefined) {
+      result[field.key] = previous[field.key];
+    }
+  }
+  return result;
+}
@@ -0,0 +1,300 @@
+/**
+ * OMP Engine — Record History Service
+ *
+ * Rebuilds an object's module data at every audited change by replaying
+ * its audit log (create, module updates, attach/detach, merges), and reverts an
+ * object to a past version by re-applying that version's data through
+ * updateObjectModule / attachModule — so validation, workflows, field
+ * masks and record access apply exactly as for a manual edit.
+ */
+
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { AuthContext } from "@/lib/permissions/rbac";
+import { getFieldPermission, getModulePermission } from "@/lib/permissions/rbac";
+import { AppError } from "@/lib/utils/errors";
+import { auditLog } from "@/lib/audit/logger";
+import type { Json } from "@/lib/supabase/database.types";
+import { parseModuleSchema } from "../types/module.types";
+import type { ObjectWithModules } from "../types/object.types";
+import { HistoryActions } from "../types/history.types";
+import type {
+  FieldChange,
+  HistoryAction,
+  ModuleSnapshot,
+  ObjectHistory,
+  ObjectVersion,
+} from "../types/history.types";
+import { attachModule, getObject, updateObjectModule } from "./object.service";
+import { getHiddenFieldKeys, sameValue } from "./field-permission.service";
+
+/** Most audit entries replayed for one object */
+const MAX_HISTORY_ENTRIES = 200;
+
+type ModuleDef = {
+  id: string;
+  name: string;
+  displayName: string;
+  fieldLabels: Map<string, string>;
+};
+
+type HistoryRow = {
+  id: string;
+  user_id: string | null;
+  action: string;
+  old_values: Json | null;
+  new_values: Json | null;
+  metadata: Json;
+  created_at: string;
+};
+
+// ── Helpers ──────────────────────────────────
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function diffSnapshots(
+  before: ModuleSnapshot,
+  after: ModuleSnapshot,
+  defsByName: Map<string, ModuleDef>
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const moduleName of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const from = before[moduleName] ?? {};
+    const to = after[moduleName] ?? {};
+    const def = defsByName.get(moduleName);
+
+    for (const fieldKey of new Set([...Object.keys(from), ...Object.keys(to)])) {
+      if (sameValue(from[fieldKey], to[fieldKey])) continue;
+      changes.push({
+        moduleName,
+        moduleLabel: def?.displayName ?? moduleName,
+        fieldKey,
+        fieldLabel: def?.fieldLabels.get(fieldKey) ?? fieldKey,
+        before: from[fieldKey] ?? null,
+        after: to[fieldKey] ?? null,
+      });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Module data after one audit entry, plus the data the entry says it
+ * started from (an update's old values win over the replayed state, so
+ * changes made outside the audited paths don't show up as part of it).
+ */
+function applyEntry(
+  state: ModuleSnapshot,
+  row: HistoryRow,
+  defsById: Map<string, ModuleDef>
+): { before: ModuleSnapshot; after: ModuleSnapshot } {
+  const after = { ...state };
+  const before = { ...state };
+  const newValues = asRecord(row.new_values);
+  const metadata = asRecord(row.metadata);
+
+  switch (row.action) {
+    case "object:create":
+    case "object:merge":
+      for (const [name, data] of Object.entries(asRecord(newValues.modules))) {
+        after[name] = asRecord(data);
+      }
+      break;
+    case "object:update_module": {
+      const name = metadata.moduleName;
+      if (typeof name !== "string") break;
+      if (row.old_values) before[name] = asRecord(row.old_values);
+      after[name] = newValues;
+      break;
+    }
+    case "object:attach_module":
+      if (typeof newValues.moduleName === "string") {
+        after[newValues.moduleName] = asRecord(newValues.data);
+      }
+      break;
+    case "object:detach_module": {
+      const def = typeof metadata.moduleId === "string" ? defsById.get(metadata.moduleId) : undefined;
+      if (def) delete after[def.name];
+      break;
+    }
+  }
+
+  return { before, after };
+}
+
+/**
+ * Drop modules the user can't read and fields hidden from them.
+ */
+function redactSnapshot(
+  ctx: AuthContext,
+  objectTypeId: string,
+  snapshot: ModuleSnapshot,
+  defsByName: Map<string, ModuleDef>
+): ModuleSnapshot {
+  const result: ModuleSnapshot = {};
+  for (const [name, data] of Object.entries(snapshot)) {
+    const def = defsByName.get(name);
+    if (!def || !getModulePermission(ctx, def.id, objectTypeId).canRead) continue;
+
+    const hidden = getHiddenFieldKeys(ctx, def.id, objectTypeId);
+    result[name] = Object.fromEntries(Object.entries(data).filter(([key]) => !hidden.has(key)));
+  }
+  return result;
+}
+
+async function loadModuleDefs(): Promise<ModuleDef[]> {
+  const admin = createAdminClient();
+  const { data, error } = await admin.from("modules").select("id, name, display_name, schema");
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  return (data ?? []).map((m) => ({
+    id: m.id,
+    name: m.name,
+    displayName: m.display_name,
+    fieldLabels: new Map(parseModuleSchema(m.schema).fields.map((f) => [f.key, f.label])),
+  }));
+}
+
+async function buildHistory(
+  ctx: AuthContext,
+  object: ObjectWithModules,
+  defs: ModuleDef[]
+): Promise<ObjectHistory> {
+  const admin = createAdminClient();
+  const { data, error } = await admin
+    .from("audit_logs")
+    .select("id, user_id, action, old_values, new_values, metadata, created_at")
+    .eq("entity_id", object.id)
+    .in("action", HistoryActions.map((a) => a.value))
+    .order("created_at", { ascending: false })
+    .limit(MAX_HISTORY_ENTRIES + 1);
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  const truncated = (data ?? []).length > MAX_HISTORY_ENTRIES;
+  const rows = (data ?? []).slice(0, MAX_HISTORY_ENTRIES).reverse();
+
+  const userIds = [...new Set(rows.map((r) => r.user_id).filter((id): id is string => !!id))];
+  const { data: profiles } =
+    userIds.length > 0
+      ? await admin.from("profiles").select("id, full_name").in("id", userIds)
+      : { data: [] };
+  const actorNames = new Map((profiles ?? []).map((p) => [p.id, p.full_name]));
+
+  const defsById = new Map(defs.map((d) => [d.id, d]));
+  const defsByName = new Map(defs.map((d) => [d.name, d]));
+  const redact = (snapshot: ModuleSnapshot) =>
+    redactSnapshot(ctx, object.object_type_id, snapshot, defsByName);
+
+  let state: ModuleSnapshot = {};
+  const versions: ObjectVersion[] = [];
+  for (const row of rows) {
+    const { before, after } = applyEntry(state, row, defsById);
+    const snapshot = redact(after);
+    versions.push({
+      id: row.id,
+      action: row.action as HistoryAction,
+      createdAt: row.created_at,
+      actorName: row.user_id ? (actorNames.get(row.user_id) ?? null) : null,
+      changes: diffSnapshots(redact(before), snapshot, defsByName),
+      snapshot,
+    });
+    state = after;
+  }
+
+  const moduleNames = new Set(versions.flatMap((v) => Object.keys(v.snapshot)));
+  return {
+    objectId: object.id,
+    versions: versions.reverse(),
+    modules: defs
+      .filter((d) => moduleNames.has(d.name))
+      .map((d) => ({
+        name: d.name,
+        displayName: d.displayName,
+        fields: [...d.fieldLabels].map(([key, label]) => ({ key, label })),
+      })),
+    truncated,
+  };
+}
+
+// ── Service Methods ──────────────────────────
+
+/**
+ * Versions of an object's module data, newest first, limited to what the
+ * user can read.
+ */
+export async function getObjectHistory(
+  ctx: AuthContext,
+  objectId: string
+): Promise<ObjectHistory> {
+  const object = await getObject(ctx, objectId);
+  return buildHistory(ctx, object, await loadModuleDefs());
+}
+
+/**
+ * Re-apply the module data of a past version. Modules attached since are
+ * left alone, detached ones are attached again, and fields the user can't
+ * edit keep their current value. Returns the names of the changed modules.
+ */
+export async function revertObjectToVersion(
+  ctx: AuthContext,
+  objectId: string,
+  versionId: string
+): Promise<string[]> {
+  const object = await getObject(ctx, objectId);
+  const defs = await loadModuleDefs();
+  const history = await buildHistory(ctx, object, defs);
+
+  const version = history.versions.find((v) => v.id === versionId);
+  if (!version) throw new AppError("NOT_FOUND", "Version not found");
+
+  const changed: string[] = [];
+  for (const [moduleName, data] of Object.entries(version.snapshot)) {
+    const current = object.modules.find((m) => m.moduleName === moduleName);
+
+    if (!current) {
+      const def = defs.find((d) => d.name === moduleName);
+      if (!def) continue;
+      const writable = Object.fromEntries(
+        Object.entries(data).filter(
+          ([key]) => getFieldPermission(ctx, def.id, object.object_type_id, key).canWrite
+        )
+      );
+      await attachModule(ctx, objectId, def.id, writable);
+      changed.push(moduleName);
+      continue;
+    }
+
+    const skipped = new Set([
+      ...(current.readOnlyFields ?? []),
+      ...current.schema.fields.filter((f) => f.type === "formula").map((f) => f.key),
+    ]);
+    const writable = Object.fromEntries(
+      Object.entries(data).filter(([key]) => !skipped.has(key))
+    );
+    const differs = Object.keys({ ...writable, ...current.data }).some(
+      (key) => !skipped.has(key) && !sameValue(writable[key], current.data[key])
+    );
+    if (!differs) continue;
+
+    await updateObjectModule(ctx, objectId, current.moduleId, writable);
+    changed.push(moduleName);
+  }
+
+  if (changed.length === 0) {
+    throw new AppError("VALIDATION", "The record already matches this version");
+  }
+
+  await auditLog(ctx, {
+    action: "object:revert",
+    category: "data",
+    entityType: object.object_type?.name ?? "unknown",
+    entityId: objectId,
+    metadata: { versionId, versionAt: version.createdAt, modules: changed },
+  });
+
+  return changed;
+}
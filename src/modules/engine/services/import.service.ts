@@ -0,0 +1,425 @@
+/**
+ * OMP Engine — Import Service
+ *
+ * Bulk-creates objects of one type from parsed CSV/JSON rows.
+ * Each column is mapped onto a module field; every row is coerced,
+ * validated against its module schemas, optionally deduplicated on a
+ * key field, and the valid rows are inserted as a batch.
+ */
+
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { AuthContext } from "@/lib/permissions/rbac";
+import { hasPermission, getModulePermission, getFieldPermission } from "@/lib/permissions/rbac";
+import { Actions } from "@/lib/permissions/actions";
+import { AppError } from "@/lib/utils/errors";
+import { auditLog } from "@/lib/audit/logger";
+import type { Json } from "@/lib/supabase/database.types";
+import type { ModuleFieldDef, ModuleSchema } from "../types/module.types";
+import { parseModuleSchema } from "../types/module.types";
+import type {
+  ImportColumnMapping,
+  ImportInput,
+  ImportResult,
+  ImportRowError,
+} from "../types/import.types";
+import { validateModuleData, applyDefaults } from "../schemas/dynamic-validator";
+import { getActiveWorkflow, checkWorkflowInitialState } from "./workflow.service";
+
+/** Upper bound on rows accepted by a single import */
+export const MAX_IMPORT_ROWS = 5000;
+/** Objects inserted per database round trip on commit */
+const INSERT_BATCH_SIZE = 200;
+
+interface TypeModule {
+  moduleId: string;
+  name: string;
+  displayName: string;
+  required: boolean;
+  schema: ModuleSchema;
+}
+
+interface PreparedRow {
+  row: number;
+  dedupeValue: string | null;
+  modules: Record<string, Record<string, unknown>>;
+}
+
+// ── Helpers ──────────────────────────────────
+
+/**
+ * Convert a raw cell value to the shape a field type expects.
+ * Empty cells become undefined so defaults and optionality apply.
+ */
+function coerceValue(field: ModuleFieldDef, raw: unknown): unknown {
+  if (raw === null || raw === undefined) return undefined;
+  if (typeof raw === "string" && raw.trim() === "") return undefined;
+
+  const text = typeof raw === "string" ? raw.trim() : raw;
+
+  switch (field.type) {
+    case "number": {
+      if (typeof text === "number") return text;
+      const num = Number(String(text).replace(/,/g, ""));
+      return Number.isNaN(num) ? text : num;
+    }
+    case "boolean": {
+      if (typeof text === "boolean") return text;
+      const lower = String(text).toLowerCase();
+      if (["true", "yes", "y", "1"].includes(lower)) return true;
+      if (["false", "no", "n", "0"].includes(lower)) return false;
+      return text;
+    }
+    case "multiselect":
+      if (Array.isArray(text)) return text.map(String);
+      return String(text)
+        .split(/[;,]/)
+        .map((v) => v.trim())
+        .filter(Boolean);
+    case "select":
+      // Accept option labels as well as values
+      if (field.options) {
+        const match = field.options.find(
+          (o) => o.value === text || o.label.toLowerCase() === String(text).toLowerCase()
+        );
+        if (match) return match.value;
+      }
+      return String(text);
+    default:
+      return typeof text === "string" ? text : String(text);
+  }
+}
+
+function normalizeKey(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const key = String(value).trim().toLowerCase();
+  return key === "" ? null : key;
+}
+
+async function loadTypeModules(objectTypeId: string): Promise<TypeModule[]> {
+  const admin = createAdminClient();
+
+  const { data: typeModules, error } = await admin
+    .from("object_type_modules")
+    .select("*, modules(*)")
+    .eq("object_type_id", objectTypeId)
+    .order("position");
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  return (typeModules ?? []).map((tm) => {
+    const mod = (tm as unknown as { modules: TableRow<"modules"> }).modules;
+    return {
+      moduleId: tm.module_id,
+      name: mod.name,
+      displayName: mod.display_name,
+      required: tm.required,
+      schema: parseModuleSchema(mod.schema),
+    };
+  });
+}
+
+/**
+ * Existing dedupe key values for objects of the type, lower-cased.
+ */
+async function loadExistingKeys(
+  objectTypeId: string,
+  moduleId: string,
+  fieldKey: string
+): Promise<Set<string>> {
+  const admin = createAdminClient();
+  const keys = new Set<string>();
+  const pageSize = 1000;
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await admin
+      .from("object_modules")
+      .select(`value:data->>${fieldKey}, objects!inner(object_type_id, deleted_at)` as "*")
+      .eq("module_id", moduleId)
+      .eq("objects.object_type_id", objectTypeId)
+      .is("objects.deleted_at", null)
+      .range(from, from + pageSize - 1);
+
+    if (error) throw new AppError("DB_ERROR", error.message);
+
+    for (const row of (data ?? []) as unknown as { value: string | null }[]) {
+      const key = normalizeKey(row.value);
+      if (key) keys.add(key);
+    }
+
+    if (!data || data.length < pageSize) break;
+  }
+
+  return keys;
+}
+
+function validateMappings(
+  mappings: ImportColumnMapping[],
+  modules: TypeModule[]
+): void {
+  if (mappings.length === 0) {
+    throw new AppError("VALIDATION", "Map at least one column to a field");
+  }
+
+  const seen = new Set<string>();
+  for (const m of mappings) {
+    const mod = modules.find((tm) => tm.name === m.module);
+    if (!mod) {
+      throw new AppError("VALIDATION", `Module '${m.module}' is not attached to this type`);
+    }
+    const field = mod.schema.fields.find((f) => f.key === m.field);
+    if (!field) {
+      throw new AppError("VALIDATION", `Field '${m.module}.${m.field}' does not exist`);
+    }
+    if (field.type === "formula") {
+      throw new AppError("VALIDATION", `Field '${m.module}.${m.field}' is computed and cannot be imported`);
+    }
+    if (field.type === "relation") {
+      throw new AppError("VALIDATION", `Field '${m.module}.${m.field}' is a relation; link records after importing`);
+    }
+    const target = `${m.module}.${m.field}`;
+    if (seen.has(target)) {
+      throw new AppError("VALIDATION", `Field '${target}' is mapped more than once`);
+    }
+    seen.add(target);
+  }
+}
+
+// ── Service Methods ──────────────────────────
+
+/**
+ * Validate and (unless dryRun) import rows as new objects of one type.
+ *
+ * Invalid rows and duplicates are reported per row rather than aborting
+ * the import; valid rows are created. A single summary audit entry is
+ * written per committed import instead of one per object.
+ */
+export async function importObjects(
+  ctx: AuthContext,
+  input: ImportInput
+): Promise<ImportResult> {
+  if (!hasPermission(ctx, Actions.OBJECT_CREATE)) {
+    throw new AppError("FORBIDDEN", "Cannot create objects");
+  }
+
+  if (input.rows.length === 0) {
+    throw new AppError("VALIDATION", "The file contains no rows");
+  }
+  if (input.rows.length > MAX_IMPORT_ROWS) {
+    throw new AppError(
+      "VALIDATION",
+      `Imports are limited to ${MAX_IMPORT_ROWS} rows per file`
+    );
+  }
+
+  const admin = createAdminClient();
+
+  const { data: objectType } = await admin
+    .from("object_types")
+    .select("*")
+    .eq("id", input.objectTypeId)
+    .single();
+
+  if (!objectType) throw new AppError("NOT_FOUND", "Object type not found");
+
+  const modules = await loadTypeModules(input.objectTypeId);
+  validateMappings(input.mappings, modules);
+
+  // Every module that receives data, plus required ones, must be writable
+  const mappedModules = modules.filter(
+    (tm) => tm.required || input.mappings.some((m) => m.module === tm.name)
+  );
+  for (const tm of mappedModules) {
+    if (!getModulePermission(ctx, tm.moduleId, input.objectTypeId).canWrite) {
+      throw new AppError("FORBIDDEN", `Missing write access for module '${tm.displayName}'`);
+    }
+  }
+
+  // ...and so must every mapped field
+  for (const m of input.mappings) {
+    const tm = modules.find((t) => t.name === m.module)!;
+    if (!getFieldPermission(ctx, tm.moduleId, input.objectTypeId, m.field).canWrite) {
+      throw new AppError("FORBIDDEN", `You can't edit the field '${m.module}.${m.field}'`);
+    }
+  }
+
+  let dedupeModule: TypeModule | undefined;
+  let existingKeys = new Set<string>();
+  if (input.dedupeKey) {
+    dedupeModule = modules.find((tm) => tm.name === input.dedupeKey!.module);
+    const mapped = input.mappings.some(
+      (m) => m.module === input.dedupeKey!.module && m.field === input.dedupeKey!.field
+    );
+    if (!dedupeModule || !mapped) {
+      throw new AppError("VALIDATION", "The dedupe key must be a mapped field");
+    }
+    existingKeys = await loadExistingKeys(
+      input.objectTypeId,
+      dedupeModule.moduleId,
+      input.dedupeKey.field
+    );
+  }
+
+  const workflow = await getActiveWorkflow(input.objectTypeId);
+
+  const errors: ImportRowError[] = [];
+  const prepared: PreparedRow[] = [];
+  const seenKeys = new Set<string>();
+  let skipped = 0;
+
+  input.rows.forEach((source, index) => {
+    const rowNumber = index + 1;
+    const rowErrors: ImportRowError[] = [];
+    const moduleData: Record<string, Record<string, unknown>> = {};
+
+    // Coerce mapped cells into module data
+    for (const m of input.mappings) {
+      const mod = modules.find((tm) => tm.name === m.module)!;
+      const field = mod.schema.fields.find((f) => f.key === m.field)!;
+      const value = coerceValue(field, source[m.column]);
+      if (value === undefined) continue;
+      moduleData[m.module] = { ...moduleData[m.module], [m.field]: value };
+    }
+
+    for (const tm of modules) {
+      let data = moduleData[tm.name];
+      if (!data) {
+        // Required modules still get a record so required fields are reported
+        if (!tm.required) continue;
+        data = {};
+      }
+
+      const withDefaults = applyDefaults(tm.schema, data);
+      const validation = validateModuleData(tm.schema, withDefaults);
+      if (!validation.success) {
+        for (const message of validation.errors) {
+          const fieldKey = message.split(":")[0];
+          const column = input.mappings.find(
+            (m) => m.module === tm.name && m.field === fieldKey
+          )?.column;
+          rowErrors.push({ row: rowNumber, column, message: `${tm.displayName} → ${message}` });
+        }
+      }
+      moduleData[tm.name] = withDefaults;
+    }
+
+    if (workflow && moduleData[workflow.moduleName]) {
+      const violation = checkWorkflowInitialState(
+        workflow,
+        moduleData[workflow.moduleName][workflow.fieldKey]
+      );
+      if (violation) rowErrors.push({ row: rowNumber, message: violation });
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      return;
+    }
+
+    let dedupeValue: string | null = null;
+    if (input.dedupeKey) {
+      dedupeValue = normalizeKey(
+        moduleData[input.dedupeKey.module]?.[input.dedupeKey.field]
+      );
+      if (dedupeValue && (existingKeys.has(dedupeValue) || seenKeys.has(dedupeValue))) {
+        skipped++;
+        errors.push({
+          row: rowNumber,
+          column: input.mappings.find(
+            (m) => m.module === input.dedupeKey!.module && m.field === input.dedupeKey!.field
+          )?.column,
+          message: existingKeys.has(dedupeValue)
+            ? "Skipped: an existing record has the same key"
+            : "Skipped: duplicate of an earlier row in this file",
+        });
+        return;
+      }
+      if (dedupeValue) seenKeys.add(dedupeValue);
+    }
+
+    prepared.push({ row: rowNumber, dedupeValue, modules: moduleData });
+  });
+
+  const failed = new Set(
+    errors.filter((e) => !e.message.startsWith("Skipped:")).map((e) => e.row)
+  ).size;
+
+  const result: ImportResult = {
+    dryRun: input.dryRun ?? false,
+    total: input.rows.length,
+    created: prepared.length,
+    skipped,
+    failed,
+    errors,
+  };
+
+  if (input.dryRun || prepared.length === 0) return result;
+
+  // ── Commit ──
+  const moduleIdByName = new Map(modules.map((tm) => [tm.name, tm.moduleId]));
+  let created = 0;
+
+  for (let i = 0; i < prepared.length; i += INSERT_BATCH_SIZE) {
+    const batch = prepared.slice(i, i + INSERT_BATCH_SIZE);
+
+    const { data: objects, error: objError } = await admin
+      .from("objects")
+      .insert(
+        batch.map(() => ({
+          object_type_id: input.objectTypeId,
+          owner_id: ctx.userId,
+          created_by: ctx.userId,
+        }))
+      )
+      .select("id");
+
+    if (objError || !objects) {
+      throw new AppError(
+        "DB_ERROR",
+        `Import stopped after ${created} objects: ${objError?.message ?? "insert failed"}`
+      );
+    }
+
+    const moduleInserts = batch.flatMap((p, idx) =>
+      Object.entries(p.modules).map(([name, data]) => ({
+        object_id: objects[idx].id,
+        module_id: moduleIdByName.get(name)!,
+        data: data as unknown as Json,
+      }))
+    );
+
+    if (moduleInserts.length > 0) {
+      const { error: modError } = await admin
+        .from("object_modules")
+        .insert(moduleInserts);
+
+      if (modError) {
+        // Don't leave half-created objects behind
+        await admin.from("objects").delete().in("id", objects.map((o) => o.id));
+        throw new AppError(
+          "DB_ERROR",
+          `Import stopped after ${created} objects: ${modError.message}`
+        );
+      }
+    }
+
+    created += objects.length;
+  }
+
+  await auditLog(ctx, {
+    action: "object:import",
+    category: "data",
+    entityType: objectType.name,
+    newValues: {
+      object_type: objectType.name,
+      file: input.fileName ?? null,
+      total: result.total,
+      created,
+      skipped,
+      failed,
+      mappings: input.mappings,
+      dedupe_key: input.dedupeKey ?? null,
+    },
+  });
+
+  return { ...result, created };
+}
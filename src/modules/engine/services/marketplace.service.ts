@@ -14,6 +14,7 @@ import type { Json } from "@/lib/supabase/database.types";
 import type { ObjectWithModules } from "../types/object.types";
 import type { AttachedModule, ModuleSchema } from "../types/module.types";
 import { parseModuleSchema } from "../types/module.types";
+import { trackObjectCreated, trackProposalEvent } from "./timeline.service";
 
 /* ------------------------------------------------------------------ */
 /*  Helpers (mirrored from object.service to avoid coupling)          */
@@ -120,6 +121,7 @@ export async function getMarketplaceProjects(
   const { data: objects } = await admin
     .from("objects")
     .select("*, object_types(*)")
+    .is("deleted_at", null)
     .in("id", publicObjectIds)
     .order("created_at", { ascending: false });
 
@@ -201,6 +203,7 @@ export async function getMarketplaceProject(
   const { data: obj, error } = await admin
     .from("objects")
     .select("*, object_types(*)")
+    .is("deleted_at", null)
     .eq("id", projectId)
     .single();
   if (error || !obj) throw new AppError("NOT_FOUND", "Project not found");
@@ -251,6 +254,7 @@ export async function getMarketplaceProject(
     const { data: propObjects } = await admin
       .from("objects")
       .select("*, object_types(*)")
+      .is("deleted_at", null)
       .in("id", proposalIds)
       .order("created_at", { ascending: false });
 
@@ -339,6 +343,7 @@ export async function submitProposal(
   const { data: projObj } = await admin
     .from("objects")
     .select("id, owner_id, created_by")
+    .is("deleted_at", null)
     .eq("id", projectId)
     .single();
   if (!projObj) throw new AppError("NOT_FOUND", "Project not found");
@@ -367,6 +372,7 @@ export async function submitProposal(
     const { data: mine } = await admin
       .from("objects")
       .select("id")
+      .is("deleted_at", null)
       .in("id", existingIds)
       .or(`owner_id.eq.${ctx.userId},created_by.eq.${ctx.userId}`);
     if (mine && mine.length > 0) {
@@ -422,6 +428,9 @@ export async function submitProposal(
     newValues: { projectId } as Record<string, unknown>,
   });
 
+  await trackObjectCreated(ctx, proposal.id, "Proposal");
+  await trackProposalEvent(ctx, "submitted", proposal.id, projectId);
+
   return { proposalId: proposal.id };
 }
 
@@ -440,6 +449,7 @@ export async function acceptProposal(
   const { data: project } = await admin
     .from("objects")
     .select("id, owner_id, created_by")
+    .is("deleted_at", null)
     .eq("id", projectId)
     .single();
   if (!project) throw new AppError("NOT_FOUND", "Project not found");
@@ -450,6 +460,7 @@ export async function acceptProposal(
   const { data: proposal } = await admin
     .from("objects")
     .select("id, owner_id, created_by")
+    .is("deleted_at", null)
     .eq("id", proposalId)
     .single();
   if (!proposal) throw new AppError("NOT_FOUND", "Proposal not found");
@@ -560,6 +571,9 @@ export async function acceptProposal(
     newValues: { projectId, proposalId, dealId } as Record<string, unknown>,
   });
 
+  if (dealId !== proposalId) await trackObjectCreated(ctx, dealId, "Deal");
+  await trackProposalEvent(ctx, "accepted", proposalId, projectId, { dealId });
+
   return { dealId };
 }
 
@@ -577,6 +591,7 @@ export async function rejectProposal(
   const { data: project } = await admin
     .from("objects")
     .select("id, owner_id, created_by")
+    .is("deleted_at", null)
     .eq("id", projectId)
     .single();
   if (!project) throw new AppError("NOT_FOUND", "Project not found");
@@ -606,4 +621,6 @@ export async function rejectProposal(
     entityId: proposalId,
     newValues: { projectId, proposalId } as Record<string, unknown>,
   });
+
+  await trackProposalEvent(ctx, "rejected", proposalId, projectId);
 }
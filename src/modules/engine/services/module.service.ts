@@ -16,8 +16,75 @@ import type {
   ModuleRowTyped,
   ModuleCreateInput,
   ModuleUpdateInput,
+  ModuleSchema,
 } from "../types/module.types";
 import { parseModuleSchema } from "../types/module.types";
+import { createSchemaVersion, isSameSchema } from "./schema-migration.service";
+import { buildFormulaSchemaMap, checkModuleFormulas } from "../formulas";
+
+// ── Helpers ──────────────────────────────────
+
+/**
+ * Type-check the formula fields of a schema being saved, and the formulas
+ * of other modules that may reference it. Returns the schema with each
+ * formula's inferred result type; throws VALIDATION listing every error.
+ */
+async function checkSchemaFormulas(
+  admin: ReturnType<typeof createAdminClient>,
+  moduleName: string,
+  schema: ModuleSchema,
+  previousName?: string
+): Promise<ModuleSchema> {
+  const { data: modules } = await admin.from("modules").select("name, schema");
+  const others = (modules ?? [])
+    .filter((m) => m.name !== moduleName && m.name !== previousName)
+    .map((m) => ({ name: m.name, schema: parseModuleSchema(m.schema) }));
+
+  const schemas = buildFormulaSchemaMap(others);
+  const own = checkModuleFormulas(moduleName, schema, schemas);
+  const errors = own.errors.map((e) => `${e.field}: ${e.message}`);
+
+  if (errors.length === 0) {
+    schemas.set(moduleName, own.schema);
+    for (const other of others) {
+      if (!other.schema.fields.some((f) => f.type === "formula")) continue;
+      for (const e of checkModuleFormulas(other.name, other.schema, schemas).errors) {
+        errors.push(`${other.name}.${e.field} (uses this module): ${e.message}`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new AppError("VALIDATION", `Formula errors — ${errors.join("; ")}`);
+  }
+  return own.schema;
+}
+
+/**
+ * Relation fields must point at an existing object type.
+ */
+async function checkRelationTargets(
+  admin: ReturnType<typeof createAdminClient>,
+  schema: ModuleSchema
+): Promise<void> {
+  const targets = [
+    ...new Set(
+      schema.fields
+        .filter((f) => f.type === "relation")
+        .map((f) => f.targetType ?? "")
+    ),
+  ];
+  if (targets.length === 0) return;
+
+  const { data } = await admin.from("object_types").select("name").in("name", targets);
+  const known = new Set((data ?? []).map((t) => t.name));
+  const missing = targets.filter((t) => !known.has(t));
+  if (missing.length > 0) {
+    throw new AppError("VALIDATION", `Unknown relation target type: ${missing.join(", ")}`);
+  }
+}
+
+// ── Service Methods ──────────────────────────
 
 /**
  * Get all registered modules.
@@ -87,6 +154,9 @@ export async function createModule(
   requirePermission(ctx, Actions.MODULE_MANAGE);
 
   const admin = createAdminClient();
+  const schema = await checkSchemaFormulas(admin, input.name, input.schema);
+  await checkRelationTargets(admin, schema);
+
   const { data, error } = await admin
     .from("modules")
     .insert({
@@ -94,7 +164,7 @@ export async function createModule(
       display_name: input.display_name,
       description: input.description ?? null,
       icon: input.icon ?? null,
-      schema: input.schema as unknown as Json,
+      schema: schema as unknown as Json,
     })
     .select()
     .single();
@@ -106,6 +176,14 @@ export async function createModule(
     throw new AppError("DB_ERROR", error.message);
   }
 
+  await admin.from("module_schema_versions").insert({
+    module_id: data.id,
+    version: 1,
+    schema: schema as unknown as Json,
+    created_by: ctx.userId,
+    completed_at: data.created_at,
+  });
+
   await auditLog(ctx, {
     action: "module:create",
     category: "settings",
@@ -119,6 +197,8 @@ export async function createModule(
 
 /**
  * Update a module definition.
+ * A schema change creates a new schema version; existing records are
+ * checked against it and rewritten by the declared migrations.
  */
 export async function updateModule(
   ctx: AuthContext,
@@ -143,7 +223,27 @@ export async function updateModule(
   if (input.display_name !== undefined) updateData.display_name = input.display_name;
   if (input.description !== undefined) updateData.description = input.description;
   if (input.icon !== undefined) updateData.icon = input.icon;
-  if (input.schema !== undefined) updateData.schema = input.schema;
+
+  const schema =
+    input.schema !== undefined
+      ? await checkSchemaFormulas(admin, input.name ?? old.name, input.schema, old.name)
+      : undefined;
+  if (schema) await checkRelationTargets(admin, schema);
+
+  let schemaChange: Awaited<ReturnType<typeof createSchemaVersion>> | null = null;
+  if (
+    schema !== undefined &&
+    !isSameSchema(schema, parseModuleSchema(old.schema))
+  ) {
+    schemaChange = await createSchemaVersion(
+      ctx,
+      old,
+      schema,
+      input.migrations ?? []
+    );
+    updateData.schema = schema;
+    updateData.schema_version = schemaChange.version.version;
+  }
 
   const { data, error } = await admin
     .from("modules")
@@ -161,6 +261,13 @@ export async function updateModule(
     entityId: moduleId,
     oldValues: old as unknown as Record<string, unknown>,
     newValues: input as unknown as Record<string, unknown>,
+    metadata: schemaChange
+      ? {
+          schema_version: schemaChange.version.version,
+          migrations: input.migrations ?? [],
+          affected_records: schemaChange.preview.affectedCount,
+        }
+      : undefined,
   });
 
   return { ...data, schema: parseModuleSchema(data.schema) };
@@ -15,6 +15,7 @@ import type {
   ObjectTypeRelation,
   ObjectTypeRelationCreateInput,
 } from "../types/relation.types";
+import { refreshRollupsForRelation } from "./rollup.service";
 
 /**
  * Get all schema-level relation definitions, optionally filtered by object type.
@@ -142,6 +143,7 @@ export async function toggleObjectTypeRelation(
     entityId: relationId,
     newValues: { is_active: isActive },
   });
+  if (isActive) await refreshRollupsForRelation(relationId);
 }
 
 /**
@@ -11,6 +11,7 @@ import {
   hasPermission,
   requireModuleAccess,
   getModulePermission,
+  getFieldPermission,
 } from "@/lib/permissions/rbac";
 import { Actions } from "@/lib/permissions/actions";
 import { AppError } from "@/lib/utils/errors";
@@ -21,15 +22,78 @@ import type {
   ObjectCreateInput,
   ObjectQueryParams,
   ObjectFilter,
+  ObjectFilterNode,
+  ObjectRow,
+  ObjectPage,
+  ObjectGroupParams,
+  ObjectGroups,
+  FieldAggregates,
 } from "../types/object.types";
 import type { AttachedModule, ModuleSchema } from "../types/module.types";
 import { parseModuleSchema } from "../types/module.types";
 import { validateModuleData, applyDefaults } from "../schemas/dynamic-validator";
-import { trackStatusChange } from "./timeline.service";
+import {
+  trackFieldChanges,
+  trackModuleChange,
+  trackObjectCreated,
+  trackOwnerChange,
+  trackStatusChange,
+} from "./timeline.service";
+import {
+  getActiveWorkflow,
+  checkWorkflowInitialState,
+  checkWorkflowTransition,
+} from "./workflow.service";
+import { runAutomations } from "./automation.service";
+import {
+  relationFieldIds,
+  syncRelationFields,
+  validateRelationFields,
+} from "./relation.service";
+import {
+  getRelatedObjectIds,
+  getRollupValues,
+  refreshRollups,
+  refreshRollupsForModuleChange,
+} from "./rollup.service";
+import { ROLLUP_MODULE } from "../types/rollup.types";
+import { RECORD_MODULE, isFilterGroup } from "../types/view-filter.types";
+import { searchObjectIds } from "./search.service";
+import { assertInScope, getRecordScope, isInScope, requireRecordScope } from "./sharing.service";
+import {
+  compileGroupQuery,
+  compileObjectQuery,
+  pruneFilterNodes,
+  resolveFilterNodes,
+  runObjectGroups,
+  runObjectQuery,
+  someFilterLeaf,
+} from "./view-query.service";
+import { assertFieldWrites, keepLockedFields, redactModules } from "./field-permission.service";
+import { loadDisplayNames } from "./trash.service";
+import {
+  buildFormulaSchemaMap,
+  computeFormulas,
+  stripComputedFields,
+  type FormulaCache,
+} from "../formulas";
+
+/**
+ * Most objects loaded for a query that is sorted or filtered in memory
+ * (a sort or filter on a formula field or rollup — neither is stored with
+ * the module data — or search results ranked by relevance).
+ */
+const MAX_IN_MEMORY_OBJECTS = 1000;
+/** IDs per `in` filter, to keep request URLs short */
+const ID_CHUNK_SIZE = 200;
 
 // ── Helpers ──────────────────────────────────
 
-function buildDisplayName(modules: AttachedModule[]): string {
+/**
+ * Display name of an object from its module data: identity name, then
+ * company name, then the first name- or title-like field.
+ */
+export function buildDisplayName(modules: Pick<AttachedModule, "moduleName" | "data">[]): string {
   // Try identity module first
   const identity = modules.find((c) => c.moduleName === "identity");
   if (identity?.data?.name) return String(identity.data.name);
@@ -47,6 +111,26 @@ function buildDisplayName(modules: AttachedModule[]): string {
   return "Unnamed Object";
 }
 
+/**
+ * Load an object's module data keyed by module name.
+ */
+async function loadModuleDataByName(
+  admin: ReturnType<typeof createAdminClient>,
+  objectId: string
+): Promise<Record<string, Record<string, unknown>>> {
+  const { data } = await admin
+    .from("object_modules")
+    .select("data, modules(name)")
+    .eq("object_id", objectId);
+
+  const result: Record<string, Record<string, unknown>> = {};
+  for (const om of data ?? []) {
+    const name = (om as any).modules?.name;
+    if (name) result[name] = (om.data ?? {}) as Record<string, unknown>;
+  }
+  return result;
+}
+
 function buildAttachedModules(
   objectModules: any[],
   moduleDefs: Map<string, { name: string; display_name: string; icon: string | null; schema: Json }>
@@ -65,21 +149,212 @@ function buildAttachedModules(
   });
 }
 
+function formulaSchemas(
+  moduleDefs: Map<string, { name: string; schema: Json }>
+) {
+  return buildFormulaSchemaMap(
+    [...moduleDefs.values()].map((m) => ({ name: m.name, schema: parseModuleSchema(m.schema) }))
+  );
+}
+
+function isFormulaField(
+  moduleDefs: Map<string, { name: string; schema: Json }>,
+  moduleName: string,
+  fieldKey: string
+): boolean {
+  for (const def of moduleDefs.values()) {
+    if (def.name !== moduleName) continue;
+    return parseModuleSchema(def.schema).fields.some(
+      (f) => f.key === fieldKey && f.type === "formula"
+    );
+  }
+  return false;
+}
+
+/** Rollups and formula fields are filtered after loading */
+function isComputedField(
+  moduleDefs: Map<string, { name: string; schema: Json }>,
+  moduleName: string,
+  fieldKey: string
+): boolean {
+  return moduleName === ROLLUP_MODULE || isFormulaField(moduleDefs, moduleName, fieldKey);
+}
+
+/**
+ * Whether the reader can see a module field on the queried objects (every
+ * type when the query spans types). Rollup visibility is settled by
+ * getRollupValues.
+ */
+function isReadableField(
+  ctx: AuthContext,
+  moduleDefs: Map<string, { id: string; name: string }>,
+  objectTypeId: string | null,
+  moduleName: string,
+  fieldKey: string
+): boolean {
+  if (moduleName === ROLLUP_MODULE || moduleName === RECORD_MODULE) return true;
+  const def = [...moduleDefs.values()].find((m) => m.name === moduleName);
+  return !def || getFieldPermission(ctx, def.id, objectTypeId, fieldKey).canRead;
+}
+
+/** Load object_modules rows for many objects, a chunk of IDs at a time */
+async function loadObjectModules(
+  admin: ReturnType<typeof createAdminClient>,
+  objectIds: string[]
+) {
+  const rows = [];
+  for (let i = 0; i < objectIds.length; i += ID_CHUNK_SIZE) {
+    const { data } = await admin
+      .from("object_modules")
+      .select("*")
+      .in("object_id", objectIds.slice(i, i + ID_CHUNK_SIZE));
+    rows.push(...(data ?? []));
+  }
+  return rows;
+}
+
+/**
+ * Display names of the objects referenced by relation fields, keyed by
+ * the referencing object's ID. Names come from the modules and fields the
+ * user can read; trashed objects and objects outside the user's read scope
+ * are left out.
+ */
+async function loadReferences(
+  ctx: AuthContext,
+  objects: { id: string; modules: AttachedModule[] }[]
+): Promise<Map<string, Record<string, string>>> {
+  const idsByObject = new Map<string, string[]>();
+  for (const obj of objects) {
+    const ids = obj.modules.flatMap((m) =>
+      m.schema.fields
+        .filter((f) => f.type === "relation")
+        .flatMap((f) => relationFieldIds(m.data[f.key]))
+    );
+    if (ids.length > 0) idsByObject.set(obj.id, ids);
+  }
+
+  const result = new Map<string, Record<string, string>>();
+  const allIds = [...new Set([...idsByObject.values()].flat())];
+  if (allIds.length === 0) return result;
+
+  const scope = await getRecordScope(ctx, "read");
+  if (!scope) return result;
+
+  const admin = createAdminClient();
+  const visible: { id: string; object_type_id: string }[] = [];
+  for (let i = 0; i < allIds.length; i += ID_CHUNK_SIZE) {
+    const { data } = await admin
+      .from("objects")
+      .select("id, object_type_id, owner_id, created_by")
+      .in("id", allIds.slice(i, i + ID_CHUNK_SIZE))
+      .is("deleted_at", null);
+    visible.push(...(data ?? []).filter((o) => isInScope(scope, o)));
+  }
+  const names = await loadDisplayNames(ctx, visible);
+
+  for (const [objectId, ids] of idsByObject) {
+    const refs: Record<string, string> = {};
+    for (const id of ids) {
+      const name = names.get(id);
+      if (name !== undefined) refs[id] = name;
+    }
+    result.set(objectId, refs);
+  }
+  return result;
+}
+
+function fieldValue(obj: ObjectWithModules, moduleName: string, fieldKey: string): unknown {
+  if (moduleName === ROLLUP_MODULE) return obj.rollups?.[fieldKey];
+  if (moduleName === RECORD_MODULE) return obj[fieldKey as keyof ObjectRow];
+  return obj.modules.find((m) => m.moduleName === moduleName)?.data[fieldKey];
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === null || value === undefined || value === "";
+}
+
+/** Order values: numbers numerically, everything else as text */
+function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "boolean" && typeof b === "boolean") return Number(a) - Number(b);
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+/** Evaluate a filter against a computed value (mirrors query_objects) */
+function matchesFilter(value: unknown, filter: ObjectFilter): boolean {
+  const target = filter.value;
+  switch (filter.operator) {
+    case "is_empty":
+      return isEmptyValue(value) || (Array.isArray(value) && value.length === 0);
+    case "is_not_empty":
+      return !isEmptyValue(value) && !(Array.isArray(value) && value.length === 0);
+    case "in": {
+      const list = (Array.isArray(target) ? target : String(target ?? "").split(","))
+        .map((v) => String(v).trim());
+      const values = Array.isArray(value) ? value : [value];
+      return values.some((v) => list.includes(String(v ?? "")));
+    }
+    case "eq":
+      return String(value ?? "") === String(target);
+    case "neq":
+      return String(value ?? "") !== String(target);
+    case "contains":
+      return String(value ?? "").toLowerCase().includes(String(target).toLowerCase());
+    case "starts_with":
+      return String(value ?? "").toLowerCase().startsWith(String(target).toLowerCase());
+    default: {
+      if (isEmptyValue(value)) return false;
+      const numeric = typeof value === "number" && !Number.isNaN(Number(target));
+      const diff = numeric
+        ? value - Number(target)
+        : String(value).localeCompare(String(target));
+      if (filter.operator === "gt") return diff > 0;
+      if (filter.operator === "lt") return diff < 0;
+      if (filter.operator === "gte") return diff >= 0;
+      return diff <= 0;
+    }
+  }
+}
+
+/** Evaluate a filter tree against an object's values */
+function matchesNode(obj: ObjectWithModules, node: ObjectFilterNode): boolean {
+  if (!isFilterGroup(node)) {
+    return matchesFilter(fieldValue(obj, node.moduleName, node.fieldKey), node);
+  }
+  return node.conjunction === "or"
+    ? node.conditions.length === 0 || node.conditions.some((c) => matchesNode(obj, c))
+    : node.conditions.every((c) => matchesNode(obj, c));
+}
+
+/** sum/avg/min/max of the numeric values among `values` */
+function aggregateValues(values: unknown[]): FieldAggregates {
+  const numbers = values
+    .filter((v) => !isEmptyValue(v) && typeof v !== "boolean")
+    .map(Number)
+    .filter((n) => Number.isFinite(n));
+  if (numbers.length === 0) return { sum: null, avg: null, min: null, max: null };
+  const sum = numbers.reduce((a, b) => a + b, 0);
+  return {
+    sum,
+    avg: sum / numbers.length,
+    min: Math.min(...numbers),
+    max: Math.max(...numbers),
+  };
+}
+
 // ── Service Methods ──────────────────────────
 
 /**
- * List objects with optional filtering by type and module data.
+ * List objects with optional filtering by type and module data. Filters
+ * and sorts on stored fields run in the database (see view-query.service),
+ * paged by offset or by `cursor`; search ranking and computed fields are
+ * applied in memory over a capped candidate set.
  */
 export async function getObjects(
   ctx: AuthContext,
   params: ObjectQueryParams = {}
-): Promise<{ objects: ObjectWithModules[]; total: number }> {
-  const canReadAll = hasPermission(ctx, Actions.OBJECT_READ);
-  const canReadOwn = hasPermission(ctx, Actions.OBJECT_READ_OWN);
-
-  if (!canReadAll && !canReadOwn) {
-    throw new AppError("FORBIDDEN", "No read access");
-  }
+): Promise<ObjectPage> {
+  const scope = await requireRecordScope(ctx, "read");
 
   const admin = createAdminClient();
   const limit = params.limit ?? 50;
@@ -91,10 +366,8 @@ export async function getObjects(
     (allModules ?? []).map((c) => [c.id, c])
   );
 
-  // Build base query
-  let query = admin.from("objects").select("*, object_types(*)", { count: "exact" });
-
   // Filter by object type
+  let objectTypeId: string | null = null;
   if (params.objectType) {
     const { data: typeRow } = await admin
       .from("object_types")
@@ -102,68 +375,243 @@ export async function getObjects(
       .eq("name", params.objectType)
       .single();
 
-    if (typeRow) {
-      query = query.eq("object_type_id", typeRow.id);
-    }
+    if (typeRow) objectTypeId = typeRow.id;
   }
 
-  // Ownership filter for own-only permission
-  if (!canReadAll && canReadOwn) {
-    query = query.or(`owner_id.eq.${ctx.userId},created_by.eq.${ctx.userId}`);
-  }
-
-  // Apply module data filters
-  if (params.filters && params.filters.length > 0) {
-    const objectIds = await filterByModuleData(admin, params.filters, moduleDefs);
-    if (objectIds.length === 0) {
-      return { objects: [], total: 0 };
-    }
-    query = query.in("id", objectIds);
-  }
+  // Filters and sorts on fields hidden from the reader are ignored;
+  // relative dates and "current user" resolve for this reader, now
+  const filters = resolveFilterNodes(
+    pruneFilterNodes(params.filters ?? [], (f) =>
+      isReadableField(ctx, moduleDefs, objectTypeId, f.moduleName, f.fieldKey)
+    ),
+    { userId: ctx.userId }
+  );
+  const sorts = (
+    params.sorts ??
+    (params.sortModule && params.sortField
+      ? [
+          {
+            moduleName: params.sortModule,
+            fieldKey: params.sortField,
+            direction: params.sortOrder === "asc" ? ("asc" as const) : ("desc" as const),
+          },
+        ]
+      : [])
+  ).filter((s) => isReadableField(ctx, moduleDefs, objectTypeId, s.moduleName, s.fieldKey));
+
+  // Formula and rollup values aren't in the module data, so filters (and
+  // the groups around them) on them run after computing
+  const computedFilters = filters.filter((node) =>
+    someFilterLeaf(node, (f) => isComputedField(moduleDefs, f.moduleName, f.fieldKey))
+  );
+  const storedFilters = filters.filter((f) => !computedFilters.includes(f));
 
-  // Apply text search across module data
+  // Full-text search across module data; results are ordered by rank
+  // unless an explicit sort is given
+  let searchRanks: Map<string, number> | null = null;
   if (params.search && params.search.trim().length > 0) {
-    const searchIds = await searchByModuleData(admin, params.search.trim());
-    if (searchIds.length === 0) {
-      return { objects: [], total: 0 };
+    const hits = await searchObjectIds(ctx, params.search.trim(), {
+      objectTypeId,
+      limit: MAX_IN_MEMORY_OBJECTS,
+      scope,
+    });
+    if (hits.length === 0) {
+      return { objects: [], total: 0, nextCursor: null };
     }
-    query = query.in("id", searchIds);
+    searchRanks = new Map(hits.map((h) => [h.id, h.rank]));
   }
 
-  // Sort and paginate
-  query = query.order("created_at", { ascending: false }).range(offset, offset + limit - 1);
-
-  const { data: objects, error, count } = await query;
+  // Sorting by computed fields, ranking search results and computed
+  // filters need the computed objects, so load a capped candidate set and
+  // page in memory
+  const inMemory =
+    computedFilters.length > 0 ||
+    sorts.some((s) => isComputedField(moduleDefs, s.moduleName, s.fieldKey)) ||
+    (searchRanks !== null && sorts.length === 0);
+
+  const query = compileObjectQuery(moduleDefs.values(), storedFilters, inMemory ? [] : sorts);
+  const page = await runObjectQuery(scope, query, {
+    objectTypeId,
+    ids: searchRanks ? [...searchRanks.keys()] : undefined,
+    cursor: inMemory ? undefined : params.cursor,
+    offset: inMemory ? 0 : offset,
+    limit: inMemory ? MAX_IN_MEMORY_OBJECTS : limit,
+  });
 
-  if (error) throw new AppError("DB_ERROR", error.message);
+  // Load the page's objects, keeping the query order
+  const objects = [];
+  for (let i = 0; i < page.ids.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await admin
+      .from("objects")
+      .select("*, object_types(*)")
+      .in("id", page.ids.slice(i, i + ID_CHUNK_SIZE));
+    if (error) throw new AppError("DB_ERROR", error.message);
+    objects.push(...(data ?? []));
+  }
+  const position = new Map(page.ids.map((id, i) => [id, i]));
+  objects.sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0));
 
   // Load all object_modules for returned objects
-  const objectIds = (objects ?? []).map((e) => e.id);
-  const { data: objModules } = await admin
-    .from("object_modules")
-    .select("*")
-    .in("object_id", objectIds);
+  const objModules = await loadObjectModules(admin, page.ids);
+  const rollups = await getRollupValues(ctx, objects);
+
+  const schemas = formulaSchemas(moduleDefs);
+  const formulaCache: FormulaCache = new Map();
 
   // Build result
-  const result: ObjectWithModules[] = (objects ?? []).map((obj) => {
-    const oModules = (objModules ?? []).filter((om) => om.object_id === obj.id);
+  let result: ObjectWithModules[] = objects.map((obj) => {
+    const oModules = objModules.filter((om) => om.object_id === obj.id);
     const attachedModules = buildAttachedModules(oModules, moduleDefs);
 
-    // Filter modules by permission
-    const visibleModules = attachedModules.filter((m) => {
-      const perm = getModulePermission(ctx, m.moduleId, obj.object_type_id);
-      return perm.canRead;
-    });
+    // Filter modules by permission, then hide masked fields
+    const visibleModules = redactModules(
+      ctx,
+      obj.object_type_id,
+      attachedModules.filter((m) => {
+        const perm = getModulePermission(ctx, m.moduleId, obj.object_type_id);
+        return perm.canRead;
+      })
+    );
 
     return {
       ...obj,
       object_type: (obj as any).object_types,
-      modules: visibleModules,
+      modules: computeFormulas(obj, visibleModules, schemas, formulaCache),
       displayName: buildDisplayName(visibleModules),
+      rollups: rollups.get(obj.id) ?? {},
     };
   });
 
-  return { objects: result, total: count ?? 0 };
+  const references = await loadReferences(ctx, result);
+  result = result.map((obj) => ({ ...obj, references: references.get(obj.id) ?? {} }));
+
+  if (!inMemory) return { objects: result, total: page.total, nextCursor: page.nextCursor };
+
+  if (computedFilters.length > 0) {
+    result = result.filter((obj) =>
+      computedFilters.every((node) => matchesNode(obj, node))
+    );
+  }
+
+  if (sorts.length > 0) {
+    result.sort((a, b) => {
+      for (const sort of sorts) {
+        const va = fieldValue(a, sort.moduleName, sort.fieldKey);
+        const vb = fieldValue(b, sort.moduleName, sort.fieldKey);
+        // Empty values stay last in both directions
+        if (isEmptyValue(va) || isEmptyValue(vb)) {
+          const diff = Number(isEmptyValue(va)) - Number(isEmptyValue(vb));
+          if (diff !== 0) return diff;
+          continue;
+        }
+        const diff = compareValues(va, vb) * (sort.direction === "asc" ? 1 : -1);
+        if (diff !== 0) return diff;
+      }
+      return 0;
+    });
+  } else if (searchRanks) {
+    const ranks = searchRanks;
+    result.sort((a, b) => (ranks.get(b.id) ?? 0) - (ranks.get(a.id) ?? 0));
+  }
+
+  const total = computedFilters.length > 0 ? result.length : page.total;
+  return {
+    objects: result.slice(offset, offset + limit),
+    total,
+    nextCursor: null,
+    truncated: page.total > MAX_IN_MEMORY_OBJECTS,
+  };
+}
+
+/**
+ * Count and aggregate the objects a query matches, per value of a group
+ * field and in total, for grouped tables. Runs in the database over every
+ * match; filters or a group field on computed fields fall back to
+ * grouping the capped in-memory candidate set, which is also the only
+ * path that aggregates formula and rollup values.
+ */
+export async function getObjectGroups(
+  ctx: AuthContext,
+  params: ObjectGroupParams
+): Promise<ObjectGroups> {
+  const scope = await requireRecordScope(ctx, "read");
+
+  const admin = createAdminClient();
+
+  const { data: allModules } = await admin.from("modules").select("*");
+  const moduleDefs = new Map(
+    (allModules ?? []).map((c) => [c.id, c])
+  );
+
+  let objectTypeId: string | null = null;
+  if (params.objectType) {
+    const { data: typeRow } = await admin
+      .from("object_types")
+      .select("id")
+      .eq("name", params.objectType)
+      .single();
+
+    if (typeRow) objectTypeId = typeRow.id;
+  }
+
+  // Hidden fields are neither grouped nor aggregated
+  const readable = (f: { moduleName: string; fieldKey: string }) =>
+    isReadableField(ctx, moduleDefs, objectTypeId, f.moduleName, f.fieldKey);
+  const groupBy = params.groupBy && readable(params.groupBy) ? params.groupBy : null;
+  const aggregates = (params.aggregates ?? []).filter(readable);
+  const filters = resolveFilterNodes(pruneFilterNodes(params.filters ?? [], readable), {
+    userId: ctx.userId,
+  });
+
+  const inMemory =
+    (groupBy !== null && isComputedField(moduleDefs, groupBy.moduleName, groupBy.fieldKey)) ||
+    filters.some((node) =>
+      someFilterLeaf(node, (f) => isComputedField(moduleDefs, f.moduleName, f.fieldKey))
+    );
+
+  if (!inMemory) {
+    const query = compileGroupQuery(moduleDefs.values(), filters, groupBy, aggregates);
+    return runObjectGroups(scope, query, { objectTypeId });
+  }
+
+  // getObjects sorts the group field ascending with empty values last,
+  // so groups come out in table order
+  const { objects } = await getObjects(ctx, {
+    objectType: params.objectType,
+    filters: params.filters,
+    sorts: groupBy ? [{ ...groupBy, direction: "asc" }] : [],
+    limit: MAX_IN_MEMORY_OBJECTS,
+  });
+
+  const summarize = (list: ObjectWithModules[]) => {
+    const result: Record<string, FieldAggregates> = {};
+    for (const agg of aggregates) {
+      result[`${agg.moduleName}.${agg.fieldKey}`] = aggregateValues(
+        list.map((obj) => fieldValue(obj, agg.moduleName, agg.fieldKey))
+      );
+    }
+    return result;
+  };
+
+  const buckets = new Map<string | null, ObjectWithModules[]>();
+  if (groupBy) {
+    for (const obj of objects) {
+      const raw = fieldValue(obj, groupBy.moduleName, groupBy.fieldKey);
+      const value = isEmptyValue(raw) ? null : String(raw);
+      const bucket = buckets.get(value);
+      if (bucket) bucket.push(obj);
+      else buckets.set(value, [obj]);
+    }
+  }
+
+  return {
+    groups: [...buckets].map(([value, list]) => ({
+      value,
+      count: list.length,
+      aggregates: summarize(list),
+    })),
+    total: { count: objects.length, aggregates: summarize(objects) },
+  };
 }
 
 /**
@@ -173,12 +621,7 @@ export async function getObject(
   ctx: AuthContext,
   objectId: string
 ): Promise<ObjectWithModules> {
-  const canReadAll = hasPermission(ctx, Actions.OBJECT_READ);
-  const canReadOwn = hasPermission(ctx, Actions.OBJECT_READ_OWN);
-
-  if (!canReadAll && !canReadOwn) {
-    throw new AppError("FORBIDDEN", "No read access");
-  }
+  const scope = await requireRecordScope(ctx, "read");
 
   const admin = createAdminClient();
 
@@ -186,16 +629,12 @@ export async function getObject(
     .from("objects")
     .select("*, object_types(*)")
     .eq("id", objectId)
+    .is("deleted_at", null)
     .single();
 
   if (error || !obj) throw new AppError("NOT_FOUND", "Object not found");
 
-  // Ownership check for own-only
-  if (!canReadAll && canReadOwn) {
-    if (obj.owner_id !== ctx.userId && obj.created_by !== ctx.userId) {
-      throw new AppError("FORBIDDEN", "Not your object");
-    }
-  }
+  assertInScope(scope, obj);
 
   // Load module definitions
   const { data: allModules } = await admin.from("modules").select("*");
@@ -211,17 +650,26 @@ export async function getObject(
 
   const attachedModules = buildAttachedModules(objModules ?? [], moduleDefs);
 
-  // Filter by module permissions
-  const visibleModules = attachedModules.filter((m) => {
-    const perm = getModulePermission(ctx, m.moduleId, obj.object_type_id);
-    return perm.canRead;
-  });
+  // Filter by module permissions, then hide masked fields
+  const visibleModules = redactModules(
+    ctx,
+    obj.object_type_id,
+    attachedModules.filter((m) => {
+      const perm = getModulePermission(ctx, m.moduleId, obj.object_type_id);
+      return perm.canRead;
+    })
+  );
+
+  const rollups = await getRollupValues(ctx, [obj]);
+  const references = await loadReferences(ctx, [{ id: obj.id, modules: visibleModules }]);
 
   return {
     ...obj,
     object_type: (obj as any).object_types,
-    modules: visibleModules,
+    modules: computeFormulas(obj, visibleModules, formulaSchemas(moduleDefs)),
     displayName: buildDisplayName(visibleModules),
+    rollups: rollups.get(obj.id) ?? {},
+    references: references.get(obj.id) ?? {},
   };
 }
 
@@ -271,7 +719,7 @@ export async function createObject(
     if (!data) continue;
 
     const schema = parseModuleSchema(mod.schema);
-    const withDefaults = applyDefaults(schema, data);
+    const withDefaults = applyDefaults(schema, stripComputedFields(schema, data));
     const validation = validateModuleData(schema, withDefaults);
 
     if (!validation.success) {
@@ -283,6 +731,41 @@ export async function createObject(
 
     // Check write permission
     requireModuleAccess(ctx, tm.module_id, input.objectTypeId, "write");
+    assertFieldWrites(
+      ctx,
+      tm.module_id,
+      input.objectTypeId,
+      schema,
+      data,
+      applyDefaults(schema, {})
+    );
+
+    await validateRelationFields(
+      ctx,
+      { id: null, object_type_id: input.objectTypeId },
+      schema,
+      withDefaults
+    );
+  }
+
+  // New objects must start in one of the workflow's initial stages
+  const workflow = await getActiveWorkflow(input.objectTypeId);
+  if (workflow) {
+    const stageModule = (typeModules ?? []).find(
+      (tm) => (tm as any).modules?.name === workflow.moduleName
+    );
+    const stageData = input.modules[workflow.moduleName];
+    if (stageModule && stageData) {
+      const withDefaults = applyDefaults(
+        parseModuleSchema((stageModule as any).modules.schema),
+        stageData
+      );
+      const violation = checkWorkflowInitialState(
+        workflow,
+        withDefaults[workflow.fieldKey]
+      );
+      if (violation) throw new AppError("VALIDATION", violation);
+    }
   }
 
   // Create object
@@ -300,13 +783,15 @@ export async function createObject(
 
   // Insert module data
   const moduleInserts = [];
+  const relationSyncs: { schema: ModuleSchema; data: Record<string, unknown> }[] = [];
   for (const tm of typeModules ?? []) {
     const mod = (tm as any).modules;
     const data = input.modules[mod.name];
     if (!data) continue;
 
     const schema = parseModuleSchema(mod.schema);
-    const withDefaults = applyDefaults(schema, data);
+    const withDefaults = applyDefaults(schema, stripComputedFields(schema, data));
+    relationSyncs.push({ schema, data: withDefaults });
 
     moduleInserts.push({
       object_id: obj.id,
@@ -323,6 +808,15 @@ export async function createObject(
     if (modError) throw new AppError("DB_ERROR", modError.message);
   }
 
+  await trackObjectCreated(ctx, obj.id, objectType.display_name);
+
+  // Start the new object's counts at zero
+  await refreshRollups([obj.id]);
+
+  for (const { schema, data } of relationSyncs) {
+    await syncRelationFields(ctx, obj.id, schema, data);
+  }
+
   await auditLog(ctx, {
     action: "object:create",
     category: "data",
@@ -334,6 +828,12 @@ export async function createObject(
     },
   });
 
+  await runAutomations(ctx, {
+    trigger: "object_created",
+    objectId: obj.id,
+    objectTypeId: input.objectTypeId,
+  });
+
   return getObject(ctx, obj.id);
 }
 
@@ -346,12 +846,7 @@ export async function updateObjectModule(
   moduleId: string,
   data: Record<string, unknown>
 ): Promise<ObjectWithModules> {
-  const canUpdateAll = hasPermission(ctx, Actions.OBJECT_UPDATE);
-  const canUpdateOwn = hasPermission(ctx, Actions.OBJECT_UPDATE_OWN);
-
-  if (!canUpdateAll && !canUpdateOwn) {
-    throw new AppError("FORBIDDEN", "No update access");
-  }
+  const scope = await requireRecordScope(ctx, "update");
 
   const admin = createAdminClient();
 
@@ -360,15 +855,12 @@ export async function updateObjectModule(
     .from("objects")
     .select("*, object_types(*)")
     .eq("id", objectId)
+    .is("deleted_at", null)
     .single();
 
   if (!obj) throw new AppError("NOT_FOUND", "Object not found");
 
-  if (!canUpdateAll && canUpdateOwn) {
-    if (obj.owner_id !== ctx.userId && obj.created_by !== ctx.userId) {
-      throw new AppError("FORBIDDEN", "Not your object");
-    }
-  }
+  assertInScope(scope, obj);
 
   // Check module write permission
   requireModuleAccess(ctx, moduleId, obj.object_type_id, "write");
@@ -382,8 +874,24 @@ export async function updateObjectModule(
 
   if (!mod) throw new AppError("NOT_FOUND", "Module not found");
 
+  // Get old data for field permission, audit and workflow checks
+  const { data: oldOm } = await admin
+    .from("object_modules")
+    .select("data")
+    .eq("object_id", objectId)
+    .eq("module_id", moduleId)
+    .single();
+
   const schema = parseModuleSchema(mod.schema);
-  const withDefaults = applyDefaults(schema, data);
+  const stored = (oldOm?.data ?? {}) as Record<string, unknown>;
+  assertFieldWrites(ctx, moduleId, obj.object_type_id, schema, data, stored);
+  const withDefaults = applyDefaults(
+    schema,
+    stripComputedFields(
+      schema,
+      keepLockedFields(ctx, moduleId, obj.object_type_id, schema, data, stored)
+    )
+  );
   const validation = validateModuleData(schema, withDefaults);
 
   if (!validation.success) {
@@ -393,13 +901,20 @@ export async function updateObjectModule(
     );
   }
 
-  // Get old data for audit
-  const { data: oldOm } = await admin
-    .from("object_modules")
-    .select("data")
-    .eq("object_id", objectId)
-    .eq("module_id", moduleId)
-    .single();
+  await validateRelationFields(ctx, obj, schema, withDefaults);
+
+  // Enforce the object type's stage workflow
+  const workflow = await getActiveWorkflow(obj.object_type_id);
+  if (workflow && workflow.moduleName === mod.name) {
+    const from = (oldOm?.data as Record<string, unknown> | undefined)?.[workflow.fieldKey];
+    const to = withDefaults[workflow.fieldKey];
+    if (from !== to) {
+      const moduleData = await loadModuleDataByName(admin, objectId);
+      moduleData[mod.name] = withDefaults;
+      const violation = checkWorkflowTransition(workflow, from, to, moduleData);
+      if (violation) throw new AppError("VALIDATION", violation);
+    }
+  }
 
   // Upsert module data
   const { error } = await admin
@@ -415,6 +930,8 @@ export async function updateObjectModule(
 
   if (error) throw new AppError("DB_ERROR", error.message);
 
+  await syncRelationFields(ctx, objectId, schema, withDefaults);
+
   const objectTypeName = (obj as any).object_types?.name ?? "unknown";
 
   await auditLog(ctx, {
@@ -427,40 +944,134 @@ export async function updateObjectModule(
     metadata: { moduleName: mod.name },
   });
 
-  // Track status changes in timeline (stage module)
-  if (mod.name === "stage") {
-    const oldStatus = (oldOm?.data as Record<string, unknown>)?.status as string | undefined;
-    const newStatus = withDefaults.status as string | undefined;
+  // Track the stage field as a status change, other fields as field changes
+  const oldData = (oldOm?.data ?? {}) as Record<string, unknown>;
+  const stageModule = workflow?.moduleName ?? "stage";
+  const stageField = workflow?.fieldKey ?? "status";
+  if (mod.name === stageModule) {
+    const oldStatus = oldData[stageField] as string | undefined;
+    const newStatus = withDefaults[stageField] as string | undefined;
     if (oldStatus !== newStatus && newStatus) {
       try {
         await trackStatusChange(
           ctx,
           objectId,
           oldStatus ?? "none",
-          newStatus
+          newStatus,
+          mod.name
         );
       } catch {
         // non-critical — don't block the update
       }
     }
   }
+  await trackFieldChanges(
+    ctx,
+    objectId,
+    mod,
+    schema,
+    oldData,
+    withDefaults,
+    mod.name === stageModule ? [stageField] : []
+  );
+
+  // Fire automations for changed fields and stage entries
+  const changedFields = Object.keys({ ...oldData, ...withDefaults }).filter(
+    (key) => JSON.stringify(oldData[key]) !== JSON.stringify(withDefaults[key])
+  );
+
+  if (changedFields.length > 0) {
+    // Rollups of related objects that aggregate this module
+    await refreshRollupsForModuleChange(objectId, obj.object_type_id, mod.name);
+
+    await runAutomations(ctx, {
+      trigger: "field_changed",
+      objectId,
+      objectTypeId: obj.object_type_id,
+      module: mod.name,
+      changedFields,
+    });
+
+    const newStage = withDefaults[stageField];
+    if (mod.name === stageModule && changedFields.includes(stageField) && newStage) {
+      await runAutomations(ctx, {
+        trigger: "stage_entered",
+        objectId,
+        objectTypeId: obj.object_type_id,
+        module: mod.name,
+        stage: String(newStage),
+      });
+    }
+  }
 
   return getObject(ctx, objectId);
 }
 
 /**
- * Delete an object and all its modules (cascades).
+ * Reassign an object's owner.
  */
-export async function deleteObject(
+export async function updateObjectOwner(
   ctx: AuthContext,
-  objectId: string
+  objectId: string,
+  ownerId: string | null
 ): Promise<void> {
-  const canDeleteAll = hasPermission(ctx, Actions.OBJECT_DELETE);
-  const canDeleteOwn = hasPermission(ctx, Actions.OBJECT_DELETE_OWN);
+  const scope = await requireRecordScope(ctx, "update");
+
+  const admin = createAdminClient();
+
+  const { data: obj } = await admin
+    .from("objects")
+    .select("*, object_types(*)")
+    .eq("id", objectId)
+    .is("deleted_at", null)
+    .single();
 
-  if (!canDeleteAll && !canDeleteOwn) {
-    throw new AppError("FORBIDDEN", "No delete access");
+  if (!obj) throw new AppError("NOT_FOUND", "Object not found");
+
+  assertInScope(scope, obj);
+
+  if (ownerId) {
+    const { data: profile } = await admin
+      .from("profiles")
+      .select("id")
+      .eq("id", ownerId)
+      .single();
+
+    if (!profile) throw new AppError("NOT_FOUND", "User not found");
+  }
+
+  const { error } = await admin
+    .from("objects")
+    .update({ owner_id: ownerId })
+    .eq("id", objectId);
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  const objectTypeName = (obj as any).object_types?.name ?? "unknown";
+
+  await auditLog(ctx, {
+    action: "object:update_owner",
+    category: "data",
+    entityType: objectTypeName,
+    entityId: objectId,
+    oldValues: { owner_id: obj.owner_id },
+    newValues: { owner_id: ownerId },
+  });
+
+  if (obj.owner_id !== ownerId) {
+    await trackOwnerChange(ctx, objectId, obj.owner_id, ownerId);
   }
+}
+
+/**
+ * Move an object to the trash. Its modules, relations and shares are kept
+ * so it can be restored; purgeExpiredTrash deletes it for good later.
+ */
+export async function deleteObject(
+  ctx: AuthContext,
+  objectId: string
+): Promise<void> {
+  const scope = await requireRecordScope(ctx, "delete");
 
   const admin = createAdminClient();
 
@@ -468,20 +1079,24 @@ export async function deleteObject(
     .from("objects")
     .select("*, object_types(*)")
     .eq("id", objectId)
+    .is("deleted_at", null)
     .single();
 
   if (!obj) throw new AppError("NOT_FOUND", "Object not found");
 
-  if (!canDeleteAll && canDeleteOwn) {
-    if (obj.owner_id !== ctx.userId && obj.created_by !== ctx.userId) {
-      throw new AppError("FORBIDDEN", "Not your object");
-    }
-  }
+  assertInScope(scope, obj);
+
+  const relatedIds = await getRelatedObjectIds(objectId);
 
-  const { error } = await admin.from("objects").delete().eq("id", objectId);
+  const { error } = await admin
+    .from("objects")
+    .update({ deleted_at: new Date().toISOString(), deleted_by: ctx.userId })
+    .eq("id", objectId);
 
   if (error) throw new AppError("DB_ERROR", error.message);
 
+  await refreshRollups(relatedIds);
+
   const objectTypeName = (obj as any).object_types?.name ?? "unknown";
 
   await auditLog(ctx, {
@@ -502,12 +1117,7 @@ export async function attachModule(
   moduleId: string,
   data: Record<string, unknown>
 ): Promise<ObjectWithModules> {
-  const canUpdateAll = hasPermission(ctx, Actions.OBJECT_UPDATE);
-  const canUpdateOwn = hasPermission(ctx, Actions.OBJECT_UPDATE_OWN);
-
-  if (!canUpdateAll && !canUpdateOwn) {
-    throw new AppError("FORBIDDEN", "No update access");
-  }
+  const scope = await requireRecordScope(ctx, "update");
 
   const admin = createAdminClient();
 
@@ -515,15 +1125,12 @@ export async function attachModule(
     .from("objects")
     .select("*")
     .eq("id", objectId)
+    .is("deleted_at", null)
     .single();
 
   if (!obj) throw new AppError("NOT_FOUND", "Object not found");
 
-  if (!canUpdateAll && canUpdateOwn) {
-    if (obj.owner_id !== ctx.userId && obj.created_by !== ctx.userId) {
-      throw new AppError("FORBIDDEN", "Not your object");
-    }
-  }
+  assertInScope(scope, obj);
 
   requireModuleAccess(ctx, moduleId, obj.object_type_id, "write");
 
@@ -537,7 +1144,8 @@ export async function attachModule(
   if (!mod) throw new AppError("NOT_FOUND", "Module not found");
 
   const schema = parseModuleSchema(mod.schema);
-  const withDefaults = applyDefaults(schema, data);
+  assertFieldWrites(ctx, moduleId, obj.object_type_id, schema, data, applyDefaults(schema, {}));
+  const withDefaults = applyDefaults(schema, stripComputedFields(schema, data));
   const validation = validateModuleData(schema, withDefaults);
 
   if (!validation.success) {
@@ -547,6 +1155,8 @@ export async function attachModule(
     );
   }
 
+  await validateRelationFields(ctx, obj, schema, withDefaults);
+
   const { error } = await admin.from("object_modules").insert({
     object_id: objectId,
     module_id: moduleId,
@@ -568,6 +1178,13 @@ export async function attachModule(
     newValues: { moduleName: mod.name, data: withDefaults },
   });
 
+  await trackModuleChange(ctx, objectId, "module_attached", mod);
+
+  await syncRelationFields(ctx, objectId, schema, withDefaults);
+
+  // Rollups of related objects that aggregate this module
+  await refreshRollupsForModuleChange(objectId, obj.object_type_id, mod.name);
+
   return getObject(ctx, objectId);
 }
 
@@ -579,12 +1196,7 @@ export async function detachModule(
   objectId: string,
   moduleId: string
 ): Promise<ObjectWithModules> {
-  const canUpdateAll = hasPermission(ctx, Actions.OBJECT_UPDATE);
-  const canUpdateOwn = hasPermission(ctx, Actions.OBJECT_UPDATE_OWN);
-
-  if (!canUpdateAll && !canUpdateOwn) {
-    throw new AppError("FORBIDDEN", "No update access");
-  }
+  const scope = await requireRecordScope(ctx, "update");
 
   const admin = createAdminClient();
 
@@ -592,15 +1204,12 @@ export async function detachModule(
     .from("objects")
     .select("*")
     .eq("id", objectId)
+    .is("deleted_at", null)
     .single();
 
   if (!obj) throw new AppError("NOT_FOUND", "Object not found");
 
-  if (!canUpdateAll && canUpdateOwn) {
-    if (obj.owner_id !== ctx.userId && obj.created_by !== ctx.userId) {
-      throw new AppError("FORBIDDEN", "Not your object");
-    }
-  }
+  assertInScope(scope, obj);
 
   // Check if this module is required for the object type
   const { data: typeMod } = await admin
@@ -616,6 +1225,15 @@ export async function detachModule(
 
   requireModuleAccess(ctx, moduleId, obj.object_type_id, "delete");
 
+  // Relations mirrored from the module's relation fields go with it
+  const { data: mod } = await admin
+    .from("modules")
+    .select("id, name, display_name, schema")
+    .eq("id", moduleId)
+    .single();
+  const schema = parseModuleSchema(mod?.schema ?? null);
+  await validateRelationFields(ctx, obj, schema, {});
+
   const { error } = await admin
     .from("object_modules")
     .delete()
@@ -624,6 +1242,8 @@ export async function detachModule(
 
   if (error) throw new AppError("DB_ERROR", error.message);
 
+  await syncRelationFields(ctx, objectId, schema, {});
+
   await auditLog(ctx, {
     action: "object:detach_module",
     category: "data",
@@ -632,104 +1252,11 @@ export async function detachModule(
     metadata: { moduleId },
   });
 
-  return getObject(ctx, objectId);
-}
-
-// ── Internal Filter Helper ───────────────────
-
-async function filterByModuleData(
-  admin: ReturnType<typeof createAdminClient>,
-  filters: ObjectFilter[],
-  moduleDefs: Map<string, any>
-): Promise<string[]> {
-  // Find module IDs by name
-  const moduleByName = new Map<string, string>();
-  for (const [id, def] of moduleDefs) {
-    moduleByName.set(def.name, id);
-  }
-
-  // Start with all object IDs and intersect
-  let resultIds: Set<string> | null = null;
-
-  for (const filter of filters) {
-    const moduleId = moduleByName.get(filter.moduleName);
-    if (!moduleId) continue;
-
-    // Build JSONB filter query
-    let query = admin
-      .from("object_modules")
-      .select("object_id")
-      .eq("module_id", moduleId);
-
-    // Apply JSONB operator based on filter operator
-    switch (filter.operator) {
-      case "eq":
-        query = query.eq(`data->${filter.fieldKey}` as any, filter.value);
-        break;
-      case "neq":
-        query = query.neq(`data->${filter.fieldKey}` as any, filter.value);
-        break;
-      case "gt":
-        query = query.gt(`data->${filter.fieldKey}` as any, filter.value);
-        break;
-      case "lt":
-        query = query.lt(`data->${filter.fieldKey}` as any, filter.value);
-        break;
-      case "gte":
-        query = query.gte(`data->${filter.fieldKey}` as any, filter.value);
-        break;
-      case "lte":
-        query = query.lte(`data->${filter.fieldKey}` as any, filter.value);
-        break;
-      case "contains":
-        query = query.ilike(`data->>${filter.fieldKey}` as any, `%${filter.value}%`);
-        break;
-      case "starts_with":
-        query = query.ilike(`data->>${filter.fieldKey}` as any, `${filter.value}%`);
-        break;
-    }
-
-    const { data } = await query;
-    const ids = new Set<string>((data ?? []).map((r: any) => r.object_id as string));
-
-    if (resultIds === null) {
-      resultIds = ids;
-    } else {
-      // Intersect
-      const prev = resultIds;
-      resultIds = new Set<string>();
-      for (const id of prev) {
-        if (ids.has(id)) resultIds.add(id);
-      }
-    }
+  if (mod) {
+    await trackModuleChange(ctx, objectId, "module_detached", mod);
+    // Rollups of related objects that aggregate this module
+    await refreshRollupsForModuleChange(objectId, obj.object_type_id, mod.name);
   }
 
-  return resultIds ? [...resultIds] : [];
-}
-
-/**
- * Search objects by text across all module data fields (name, title, email, company_name, etc.)
- */
-async function searchByModuleData(
-  admin: ReturnType<typeof createAdminClient>,
-  searchTerm: string
-): Promise<string[]> {
-  // Use JSONB text search: cast data to text and do ilike
-  const { data } = await admin
-    .from("object_modules")
-    .select("object_id")
-    .or(
-      [
-        `data->>name.ilike.%${searchTerm}%`,
-        `data->>first_name.ilike.%${searchTerm}%`,
-        `data->>last_name.ilike.%${searchTerm}%`,
-        `data->>email.ilike.%${searchTerm}%`,
-        `data->>title.ilike.%${searchTerm}%`,
-        `data->>company_name.ilike.%${searchTerm}%`,
-        `data->>phone.ilike.%${searchTerm}%`,
-      ].join(",")
-    );
-
-  const ids = new Set<string>((data ?? []).map((r: any) => r.object_id as string));
-  return [...ids];
+  return getObject(ctx, objectId);
 }
@@ -11,11 +11,12 @@ import { hasPermission } from "@/lib/permissions/rbac";
 import { Actions } from "@/lib/permissions/actions";
 import { AppError } from "@/lib/utils/errors";
 import { auditLog } from "@/lib/audit/logger";
+import type { TimelineEventType } from "../types/timeline.types";
 
 export interface PageWidget {
   id: string;
   pageId: string;
-  widgetType: "stat_card" | "chart" | "object_list" | "pipeline" | "timeline" | "table_view" | "processor_report";
+  widgetType: "stat_card" | "chart" | "object_list" | "pipeline" | "timeline" | "table_view" | "processor_report" | "activity_feed";
   title: string;
   config: WidgetConfig;
   position: number;
@@ -29,7 +30,7 @@ export interface WidgetConfig {
   aggType?: "sum" | "avg" | "count" | "min" | "max";
   /** For chart: chart type */
   chartType?: "bar" | "pie" | "line" | "area";
-  /** For object_list and pipeline: filter by object type */
+  /** For object_list, pipeline and activity_feed: filter by object type */
   objectType?: string;
   /** For pipeline: which field to group by */
   groupByField?: string;
@@ -38,6 +39,8 @@ export interface WidgetConfig {
   processorName?: string;
   /** For timeline: object ID */
   objectId?: string;
+  /** For activity_feed: only these event types */
+  eventTypes?: TimelineEventType[];
   /** General: color */
   color?: string;
   /** General: max items */
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AuthContext } from "@/lib/permissions/rbac";
+import { ReportingProcessor } from "../processors/reporting.processor";
+import type { ObjectWithModules } from "../types/object.types";
+import type { ProcessorResultRow } from "../types/processor.types";
+
+const stored: ProcessorResultRow[] = [];
+
+// History reads go through the admin client; every query step resolves to
+// the stored rows
+vi.mock("@/lib/supabase/admin", () => {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    order: () => query,
+    limit: () => query,
+    then: (resolve: (value: { data: ProcessorResultRow[]; error: null }) => unknown) =>
+      resolve({ data: stored, error: null }),
+  };
+  return { createAdminClient: () => ({ from: () => query }) };
+});
+
+vi.mock("./object.service", () => ({ getObject: vi.fn(), getObjects: vi.fn() }));
+
+const { getProcessorHistory } = await import("./processor-result.service");
+
+const MONETARY = "mod-monetary";
+const STAGE = "mod-stage";
+const DEAL = "type-deal";
+
+const deal = {
+  id: "deal-1",
+  object_type_id: DEAL,
+  owner_id: null,
+  created_by: "user-1",
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  displayName: "Acme renewal",
+  modules: [
+    { id: "om-1", moduleId: MONETARY, moduleName: "monetary", displayName: "Monetary", icon: null, schema: { fields: [] }, data: { amount: 50000, currency: "EUR" } },
+    { id: "om-2", moduleId: STAGE, moduleName: "stage", displayName: "Stage", icon: null, schema: { fields: [] }, data: { stage: "proposal" } },
+  ],
+} as unknown as ObjectWithModules;
+
+function reader(hidden: string[] = []): AuthContext {
+  return {
+    userId: "user-2",
+    permissions: new Set(["object:read"]),
+    modulePermissions: new Map([["all:all", { canRead: true, canWrite: false, canDelete: false }]]),
+    fieldPermissions: new Map(hidden.map((key) => [key, { canRead: false, canWrite: false }])),
+  };
+}
+
+async function storeReportingResult() {
+  const result = await new ReportingProcessor().execute({
+    auth: reader(),
+    object: deal,
+    timestamp: "2026-01-02T00:00:00Z",
+  });
+  if (!result.success) throw new Error(result.error);
+  stored.push({
+    id: "result-1",
+    run_id: "run-1",
+    object_id: deal.id,
+    object_type_id: DEAL,
+    processor: result.processor,
+    success: true,
+    data: result.data as unknown as ProcessorResultRow["data"],
+    error: null,
+    source_fields: result.sourceFields ?? [],
+    computed_at: "2026-01-02T00:00:00Z",
+  });
+}
+
+describe("getProcessorHistory", () => {
+  beforeEach(async () => {
+    stored.length = 0;
+    await storeReportingResult();
+  });
+
+  it("records the fields a processor read", () => {
+    expect(stored[0].source_fields).toEqual(
+      expect.arrayContaining([`${MONETARY}:amount`, `${MONETARY}:currency`, `${STAGE}:stage`])
+    );
+  });
+
+  it("returns results to readers who see every source field", async () => {
+    const history = await getProcessorHistory(reader(), deal.id);
+
+    expect(history).toHaveLength(1);
+    expect(history[0].data).toMatchObject({ value: 50000 });
+  });
+
+  it("leaves out results built from a masked monetary.amount", async () => {
+    const history = await getProcessorHistory(reader([`${MONETARY}:all:amount`]), deal.id);
+
+    expect(history).toEqual([]);
+  });
+
+  it("leaves out results built from a module the reader can't read", async () => {
+    const ctx = reader();
+    ctx.modulePermissions = new Map([
+      [`${STAGE}:all`, { canRead: true, canWrite: false, canDelete: false }],
+      [`${MONETARY}:all`, { canRead: false, canWrite: false, canDelete: false }],
+    ]);
+
+    expect(await getProcessorHistory(ctx, deal.id)).toEqual([]);
+  });
+});
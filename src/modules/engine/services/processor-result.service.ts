@@ -0,0 +1,225 @@
+/**
+ * OMP Engine — Processor Result Service
+ *
+ * Runs every registered processor over all eligible objects on a schedule
+ * and persists the results, so insights can be tracked over time and read
+ * back without recomputing them per request.
+ */
+
+import { randomUUID } from "node:crypto";
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { AuthContext } from "@/lib/permissions/rbac";
+import { getModulePermission, getSystemAuthContext } from "@/lib/permissions/rbac";
+import { AppError } from "@/lib/utils/errors";
+import type { Json } from "@/lib/supabase/database.types";
+import { getHiddenFieldKeys } from "./field-permission.service";
+import { requireRecordScope, scopeFilter } from "./sharing.service";
+import type {
+  ProcessorResultRow,
+  ProcessorRunSummary,
+  StoredProcessorResult,
+} from "../types/processor.types";
+import { initProcessors, runProcessors } from "../processors";
+import { getObject, getObjects } from "./object.service";
+
+/** Objects loaded per page during a scheduled run */
+const RUN_BATCH_SIZE = 100;
+/** Stored results older than this are pruned at the end of each run */
+const RETENTION_DAYS = 90;
+
+// ── Helpers ──────────────────────────────────
+
+function mapRow<T>(row: ProcessorResultRow): StoredProcessorResult<T> {
+  return {
+    id: row.id,
+    runId: row.run_id,
+    objectId: row.object_id,
+    objectTypeId: row.object_type_id,
+    processor: row.processor,
+    success: row.success,
+    data: row.data as T | null,
+    error: row.error,
+    computedAt: row.computed_at,
+  };
+}
+
+/**
+ * Drop results computed from a module the reader can't read or a field
+ * they can't see. Scheduled runs read every field, so a stored result can
+ * carry values (amounts, contact details) the reader's masks hide.
+ */
+export function redactProcessorResults(
+  ctx: AuthContext,
+  rows: ProcessorResultRow[]
+): ProcessorResultRow[] {
+  const hiddenByModule = new Map<string, Set<string> | null>();
+  const hiddenFields = (moduleId: string, objectTypeId: string) => {
+    const key = `${moduleId}:${objectTypeId}`;
+    if (!hiddenByModule.has(key)) {
+      hiddenByModule.set(
+        key,
+        getModulePermission(ctx, moduleId, objectTypeId).canRead
+          ? getHiddenFieldKeys(ctx, moduleId, objectTypeId)
+          : null
+      );
+    }
+    return hiddenByModule.get(key);
+  };
+
+  return rows.filter((row) =>
+    row.source_fields.every((source) => {
+      const [moduleId, ...field] = source.split(":");
+      const hidden = hiddenFields(moduleId, row.object_type_id);
+      return !!hidden && !hidden.has(field.join(":"));
+    })
+  );
+}
+
+// ── Scheduled Run ────────────────────────────
+
+/**
+ * Run all eligible processors over every object and store the results.
+ * Uses the read-only system context, so no user session is needed.
+ */
+export async function runScheduledProcessors(): Promise<ProcessorRunSummary> {
+  initProcessors();
+
+  const admin = createAdminClient();
+  const ctx = getSystemAuthContext();
+  const runId = randomUUID();
+  const startedAt = new Date().toISOString();
+
+  let page = 1;
+  let objectsScanned = 0;
+  let resultsSaved = 0;
+  let failures = 0;
+
+  while (true) {
+    const { objects } = await getObjects(ctx, { page, limit: RUN_BATCH_SIZE });
+    if (objects.length === 0) break;
+
+    const rows = [];
+    for (const object of objects) {
+      const results = await runProcessors(ctx, object);
+      for (const result of results) {
+        if (!result.success) failures++;
+        rows.push({
+          run_id: runId,
+          object_id: object.id,
+          object_type_id: object.object_type_id,
+          processor: result.processor,
+          success: result.success,
+          data: result.success ? (result.data as Json) : null,
+          error: result.success ? null : result.error,
+          source_fields: result.success ? (result.sourceFields ?? []) : [],
+          computed_at: startedAt,
+        });
+      }
+    }
+
+    if (rows.length > 0) {
+      const { error } = await admin.from("processor_results").insert(rows);
+      if (error) throw new AppError("DB_ERROR", error.message);
+      resultsSaved += rows.length;
+    }
+
+    objectsScanned += objects.length;
+    if (objects.length < RUN_BATCH_SIZE) break;
+    page++;
+  }
+
+  const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  await admin
+    .from("processor_results")
+    .delete()
+    .lt("computed_at", cutoff.toISOString());
+
+  return {
+    runId,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    objectsScanned,
+    resultsSaved,
+    failures,
+  };
+}
+
+// ── Service Methods ──────────────────────────
+
+/**
+ * Stored results for one object, oldest first (for trend charts).
+ * Results built from fields the reader can't see are left out.
+ */
+export async function getProcessorHistory<T = unknown>(
+  ctx: AuthContext,
+  objectId: string,
+  params: { processor?: string; limit?: number } = {}
+): Promise<StoredProcessorResult<T>[]> {
+  // Enforces read access to the object
+  await getObject(ctx, objectId);
+
+  const admin = createAdminClient();
+
+  let query = admin
+    .from("processor_results")
+    .select("*")
+    .eq("object_id", objectId)
+    .order("computed_at", { ascending: false })
+    .limit(params.limit ?? 30);
+
+  if (params.processor) query = query.eq("processor", params.processor);
+
+  const { data, error } = await query;
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  return redactProcessorResults(ctx, data ?? []).map((r) => mapRow<T>(r)).reverse();
+}
+
+/**
+ * Results from the most recent scheduled run of a processor,
+ * optionally for a single object type. Lets dashboards read stored
+ * insights instead of recomputing them. Results built from fields the
+ * reader can't see are left out.
+ */
+export async function getLatestProcessorResults<T = unknown>(
+  ctx: AuthContext,
+  processor: string,
+  objectTypeId?: string
+): Promise<StoredProcessorResult<T>[]> {
+  const scope = await requireRecordScope(ctx, "read");
+
+  const admin = createAdminClient();
+
+  const { data: latest } = await admin
+    .from("processor_results")
+    .select("run_id")
+    .eq("processor", processor)
+    .order("computed_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!latest) return [];
+
+  let query = admin
+    .from("processor_results")
+    .select("*")
+    .eq("run_id", latest.run_id)
+    .eq("processor", processor);
+
+  if (objectTypeId) query = query.eq("object_type_id", objectTypeId);
+
+  // Restrict to own, team and shared records below the "all" tier
+  if (!scope.all) {
+    const { data: visible } = await admin
+      .from("objects")
+      .select("id")
+      .is("deleted_at", null)
+      .or(scopeFilter(scope));
+    query = query.in("object_id", (visible ?? []).map((o) => o.id));
+  }
+
+  const { data, error } = await query;
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  return redactProcessorResults(ctx, data ?? []).map((r) => mapRow<T>(r));
+}
@@ -7,7 +7,11 @@
 
 import { createAdminClient } from "@/lib/supabase/admin";
 import type { AuthContext } from "@/lib/permissions/rbac";
-import { requirePermission } from "@/lib/permissions/rbac";
+import {
+  getFieldPermission,
+  getModulePermission,
+  requirePermission,
+} from "@/lib/permissions/rbac";
 import { Actions } from "@/lib/permissions/actions";
 import { AppError } from "@/lib/utils/errors";
 
@@ -36,6 +40,37 @@ export interface DashboardStats {
   }[];
 }
 
+/**
+ * Whether the user can read a module field on every object type.
+ * Aggregates span types, so one hidden type hides the field.
+ */
+async function canReadFieldEverywhere(
+  ctx: AuthContext,
+  moduleName: string,
+  fieldKey: string
+): Promise<boolean> {
+  if (ctx.fieldPermissions.size === 0) return true;
+
+  const admin = createAdminClient();
+  const { data: mod } = await admin
+    .from("modules")
+    .select("id")
+    .eq("name", moduleName)
+    .maybeSingle();
+
+  return !mod || getFieldPermission(ctx, mod.id, null, fieldKey).canRead;
+}
+
+async function requireReadableField(
+  ctx: AuthContext,
+  moduleName: string,
+  fieldKey: string
+): Promise<void> {
+  if (!(await canReadFieldEverywhere(ctx, moduleName, fieldKey))) {
+    throw new AppError("FORBIDDEN", `Field ${moduleName}.${fieldKey} is hidden`);
+  }
+}
+
 /**
  * Get dashboard overview stats.
  */
@@ -68,6 +103,7 @@ export async function getDashboardStats(
   const { data: recentRaw } = await admin
     .from("objects")
     .select("id, object_type_id, created_at, object_types(name)")
+    .is("deleted_at", null)
     .order("created_at", { ascending: false })
     .limit(10);
 
@@ -111,6 +147,7 @@ export async function aggregateField(
   aggType: "sum" | "avg" | "count" | "min" | "max" = "sum"
 ): Promise<number> {
   requirePermission(ctx, Actions.DASHBOARD_VIEW);
+  await requireReadableField(ctx, moduleName, fieldKey);
 
   const admin = createAdminClient();
   const { data, error } = await admin.rpc("aggregate_module_field", {
@@ -132,6 +169,7 @@ export async function countByField(
   fieldKey: string
 ): Promise<FieldDistribution[]> {
   requirePermission(ctx, Actions.DASHBOARD_VIEW);
+  await requireReadableField(ctx, moduleName, fieldKey);
 
   const admin = createAdminClient();
   const { data, error } = await admin.rpc("count_by_module_field", {
@@ -203,13 +241,20 @@ export async function getEnhancedDashboardData(
     }
   }
 
+  // Summaries over fields hidden from the user are left out
+  const [showStatus, showAmount] = await Promise.all([
+    canReadFieldEverywhere(ctx, "stage", "status"),
+    canReadFieldEverywhere(ctx, "monetary", "amount"),
+  ]);
+  const skipped = Promise.resolve({ data: null, error: null });
+
   // Run all queries in parallel
   const [stats, pipelineResult, monetaryResult, conversionResult, monthlyResult] =
     await Promise.all([
       getDashboardStats(ctx),
-      safeRpc("pipeline_distribution"),
-      safeRpc("monetary_summary"),
-      safeRpc("conversion_rate"),
+      showStatus ? safeRpc("pipeline_distribution") : skipped,
+      showAmount ? safeRpc("monetary_summary") : skipped,
+      showStatus ? safeRpc("conversion_rate") : skipped,
       safeRpc("monthly_object_evolution", { p_months: 6 }),
     ]);
 
@@ -324,7 +369,8 @@ export async function getPipelineObjects(
   let objectQuery = admin
     .from("objects")
     .select("id, object_type_id, created_at, object_types(name, display_name)")
-    .in("id", objectIds);
+    .in("id", objectIds)
+    .is("deleted_at", null);
 
   if (objectType) {
     const { data: typeRow } = await admin
@@ -350,6 +396,8 @@ export async function getPipelineObjects(
 
   const result = objects.map((obj: any) => {
     const objMods = (allObjModules ?? []).filter((m: any) => m.object_id === obj.id);
+    const canRead = (mod: { module_id: string } | undefined, fieldKey: string) =>
+      !!mod && getFieldPermission(ctx, mod.module_id, obj.object_type_id, fieldKey).canRead;
 
     const stage = objMods.find((m: any) => (m as any).modules?.name === "stage");
     const identity = objMods.find((m: any) => (m as any).modules?.name === "identity");
@@ -365,13 +413,21 @@ export async function getPipelineObjects(
       id: obj.id,
       displayName,
       objectType: (obj as any).object_types?.display_name ?? "Unknown",
-      status: String((stage?.data as any)?.status ?? "new"),
+      status: canRead(stage, "status") ? String((stage!.data as any)?.status ?? "new") : "new",
       stageModuleId: stageMod.id,
-      monetaryValue: monetary ? Number((monetary.data as any)?.amount ?? 0) : undefined,
-      monetaryCurrency: monetary ? String((monetary.data as any)?.currency ?? "USD") : undefined,
-      assignedTo: assignment ? String((assignment.data as any)?.assigned_to ?? "") : undefined,
+      monetaryValue: canRead(monetary, "amount")
+        ? Number((monetary!.data as any)?.amount ?? 0)
+        : undefined,
+      monetaryCurrency: canRead(monetary, "currency")
+        ? String((monetary!.data as any)?.currency ?? "USD")
+        : undefined,
+      assignedTo: canRead(assignment, "assigned_to")
+        ? String((assignment!.data as any)?.assigned_to ?? "")
+        : undefined,
       createdAt: obj.created_at,
-      priority: assignment ? String((assignment.data as any)?.priority ?? "medium") : undefined,
+      priority: canRead(assignment, "priority")
+        ? String((assignment!.data as any)?.priority ?? "medium")
+        : undefined,
     };
   });
 
@@ -381,6 +437,7 @@ export async function getPipelineObjects(
 // ── Widget Data Fetching ─────────────────────
 
 import type { PageWidget, WidgetConfig } from "./page.service";
+import { getActivityFeed } from "./timeline.service";
 
 /**
  * Fetch data for all widgets on a page.
@@ -429,11 +486,18 @@ async function fetchSingleWidgetData(
       return fetchTimelineData(admin, config);
 
     case "table_view":
-      return fetchTableViewData(admin, config);
+      return fetchTableViewData(ctx, admin, config);
 
     case "processor_report":
       return { message: "Processor report widget" };
 
+    case "activity_feed":
+      return getActivityFeed(ctx, {
+        objectType: config.objectType || undefined,
+        eventTypes: config.eventTypes,
+        limit: config.limit ?? 10,
+      });
+
     default:
       return null;
   }
@@ -463,7 +527,8 @@ async function fetchStatCardData(
       const { count } = await admin
         .from("objects")
         .select("id", { count: "exact", head: true })
-        .eq("object_type_id", typeRow.id);
+        .eq("object_type_id", typeRow.id)
+        .is("deleted_at", null);
       return { value: count ?? 0, subtitle: typeRow.display_name };
     }
   }
@@ -471,7 +536,8 @@ async function fetchStatCardData(
   // Fallback: total objects
   const { count } = await admin
     .from("objects")
-    .select("id", { count: "exact", head: true });
+    .select("id", { count: "exact", head: true })
+    .is("deleted_at", null);
   return { value: count ?? 0, subtitle: "Total objects" };
 }
 
@@ -510,6 +576,7 @@ async function fetchObjectListData(
   let query = admin
     .from("objects")
     .select("id, object_type_id, created_at, object_types(name, display_name)")
+    .is("deleted_at", null)
     .order("created_at", { ascending: false })
     .limit(limit);
 
@@ -561,6 +628,8 @@ async function fetchPipelineWidgetData(
   admin: any,
   config: WidgetConfig
 ): Promise<any> {
+  await requireReadableField(ctx, "stage", "status");
+
   try {
     const { data: pipeline } = await (admin as any).rpc("pipeline_distribution");
     if (pipeline && Array.isArray(pipeline)) {
@@ -616,6 +685,7 @@ async function fetchTimelineData(
 }
 
 async function fetchTableViewData(
+  ctx: AuthContext,
   admin: any,
   config: WidgetConfig
 ): Promise<any> {
@@ -624,6 +694,7 @@ async function fetchTableViewData(
   let query = admin
     .from("objects")
     .select("id, object_type_id, created_at, updated_at, object_types(name, display_name)")
+    .is("deleted_at", null)
     .order("created_at", { ascending: false })
     .limit(limit);
 
@@ -645,11 +716,15 @@ async function fetchTableViewData(
   const objectIds = objects.map((o: any) => o.id);
   const { data: allMods } = await admin
     .from("object_modules")
-    .select("object_id, data, modules(name)")
+    .select("object_id, module_id, data, modules(name)")
     .in("object_id", objectIds);
 
   const rows = objects.map((o: any) => {
-    const objMods = (allMods ?? []).filter((m: any) => m.object_id === o.id);
+    // Only modules and fields the user can read
+    const objMods = (allMods ?? []).filter(
+      (m: any) =>
+        m.object_id === o.id && getModulePermission(ctx, m.module_id, o.object_type_id).canRead
+    );
 
     const row: Record<string, any> = {
       id: o.id,
@@ -661,6 +736,7 @@ async function fetchTableViewData(
       const modName = (mod as any).modules?.name ?? "unknown";
       if (mod.data && typeof mod.data === "object") {
         for (const [key, value] of Object.entries(mod.data as Record<string, unknown>)) {
+          if (!getFieldPermission(ctx, mod.module_id, o.object_type_id, key).canRead) continue;
           row[`${modName}.${key}`] = value;
         }
       }
@@ -2,6 +2,10 @@
  * OMP Engine — Relation Service
  *
  * Manages graph-based relationships between objects.
+ * Every relation must be allowed by an active schema-level definition
+ * (object_type_relations) between the two object types, including its
+ * cardinality. Relation fields in module data are mirrored here, with the
+ * field key as the relation type.
  */
 
 import { createAdminClient } from "@/lib/supabase/admin";
@@ -12,7 +16,288 @@ import { AppError } from "@/lib/utils/errors";
 import { auditLog } from "@/lib/audit/logger";
 import type { Json } from "@/lib/supabase/database.types";
 import type { RelatedObject } from "../types/object.types";
-import type { RelationCreateInput, RelationRow } from "../types/relation.types";
+import type {
+  ObjectTypeRelationRow,
+  RelationCreateInput,
+  RelationRow,
+} from "../types/relation.types";
+import type { ModuleSchema } from "../types/module.types";
+import { parseModuleSchema } from "../types/module.types";
+import { runAutomations } from "./automation.service";
+import { refreshRollups } from "./rollup.service";
+import { trackRelationChange } from "./timeline.service";
+import { assertInScope, getRecordScope, isInScope, requireRecordScope } from "./sharing.service";
+import { loadDisplayNames } from "./trash.service";
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+interface ObjectRef {
+  /** null for an object that hasn't been created yet */
+  id: string | null;
+  object_type_id: string;
+}
+
+// ── Helpers ──────────────────────────────────
+
+/** Object IDs held by a relation field value */
+export function relationFieldIds(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === "string" && v !== "");
+  return typeof value === "string" && value !== "" ? [value] : [];
+}
+
+/**
+ * How many objects of `typeId` are linked to `objectId`, in either
+ * direction, optionally only through the given relation types.
+ * Objects in `ignore` (links about to be removed) don't count.
+ */
+async function countLinksToType(
+  admin: AdminClient,
+  objectId: string,
+  typeId: string,
+  relationTypes: string[] | null,
+  ignore: string[]
+): Promise<number> {
+  let outgoing = admin.from("object_relations").select("to_object_id").eq("from_object_id", objectId);
+  let incoming = admin.from("object_relations").select("from_object_id").eq("to_object_id", objectId);
+  if (relationTypes) {
+    outgoing = outgoing.in("relation_type", relationTypes);
+    incoming = incoming.in("relation_type", relationTypes);
+  }
+  const [{ data: out }, { data: inc }] = await Promise.all([outgoing, incoming]);
+
+  const ids = new Set([
+    ...(out ?? []).map((r) => r.to_object_id),
+    ...(inc ?? []).map((r) => r.from_object_id),
+  ]);
+  for (const id of ignore) ids.delete(id);
+  if (ids.size === 0) return 0;
+
+  const { count } = await admin
+    .from("objects")
+    .select("id", { count: "exact", head: true })
+    .eq("object_type_id", typeId)
+    .in("id", [...ids])
+    .is("deleted_at", null);
+  return count ?? 0;
+}
+
+/**
+ * Check a new relation against the active schema-level definitions
+ * between the two objects' types. Returns a violation message, or null
+ * when some definition allows it.
+ *
+ * Types without any active definition stay unrestricted, so relations
+ * created before definitions existed keep working; once an admin declares
+ * a definition for either type, only declared pairs can be linked.
+ *
+ * Definitions whose field names match `relationType` take precedence;
+ * otherwise any definition between the types applies. Cardinality:
+ * many_to_one lets each source object link to one target, one_to_many
+ * lets each target object link to one source.
+ */
+async function checkRelationAllowed(
+  admin: AdminClient,
+  from: ObjectRef,
+  to: ObjectRef,
+  relationType: string,
+  ignore: string[] = []
+): Promise<string | null> {
+  const a = from.object_type_id;
+  const b = to.object_type_id;
+
+  const { data: definitions } = await admin
+    .from("object_type_relations")
+    .select("*")
+    .eq("is_active", true)
+    .or(
+      `and(source_type_id.eq.${a},target_type_id.eq.${b}),and(source_type_id.eq.${b},target_type_id.eq.${a})`
+    );
+
+  const { data: types } = await admin
+    .from("object_types")
+    .select("id, display_name")
+    .in("id", [a, b]);
+  const typeName = (id: string) => types?.find((t) => t.id === id)?.display_name ?? "object";
+
+  if (!definitions || definitions.length === 0) {
+    const { count: declared } = await admin
+      .from("object_type_relations")
+      .select("id", { count: "exact", head: true })
+      .eq("is_active", true)
+      .or(`source_type_id.in.(${a},${b}),target_type_id.in.(${a},${b})`);
+    if (!declared) return null;
+    return `No relation is defined between ${typeName(a)} and ${typeName(b)}`;
+  }
+
+  const named = definitions.filter(
+    (d) => d.source_field_name === relationType || d.target_field_name === relationType
+  );
+  const candidates: ObjectTypeRelationRow[] = named.length > 0 ? named : definitions;
+
+  let violation = "";
+  for (const def of candidates) {
+    if (def.relation_type === "many_to_many") return null;
+
+    // Which object sits at the definition's source end
+    const [source, target] = def.source_type_id === a ? [from, to] : [to, from];
+    const [single, otherType] =
+      def.relation_type === "many_to_one"
+        ? [source, def.target_type_id]
+        : [target, def.source_type_id];
+
+    const linked = single.id
+      ? await countLinksToType(
+          admin,
+          single.id,
+          otherType,
+          named.length > 0 ? [def.source_field_name, def.target_field_name] : null,
+          ignore
+        )
+      : 0;
+    if (linked === 0) return null;
+
+    violation = `A ${typeName(single.object_type_id)} can only be linked to one ${typeName(otherType)}`;
+  }
+  return violation;
+}
+
+/**
+ * Remove an object ID from the relation fields that mirror a relation,
+ * after the relation itself was deleted.
+ */
+async function unlinkRelationField(
+  admin: AdminClient,
+  fromObjectId: string,
+  fieldKey: string,
+  toObjectId: string
+): Promise<void> {
+  const { data: objModules } = await admin
+    .from("object_modules")
+    .select("id, data, modules(schema)")
+    .eq("object_id", fromObjectId);
+
+  for (const om of objModules ?? []) {
+    const schema = parseModuleSchema(
+      (om as unknown as { modules: { schema: Json } | null }).modules?.schema ?? null
+    );
+    const field = schema.fields.find((f) => f.key === fieldKey && f.type === "relation");
+    if (!field) continue;
+
+    const data = { ...((om.data ?? {}) as Record<string, unknown>) };
+    const ids = relationFieldIds(data[fieldKey]);
+    if (!ids.includes(toObjectId)) continue;
+
+    const remaining = ids.filter((id) => id !== toObjectId);
+    if (field.multiple) data[fieldKey] = remaining;
+    else delete data[fieldKey];
+
+    await admin.from("object_modules").update({ data: data as unknown as Json }).eq("id", om.id);
+  }
+}
+
+// ── Relation Fields ──────────────────────────
+
+/**
+ * Check the relation fields of module data before it is saved: referenced
+ * objects must exist and be of the field's target type, and every new
+ * link must be allowed by the schema-level relation definitions.
+ */
+export async function validateRelationFields(
+  ctx: AuthContext,
+  object: ObjectRef,
+  schema: ModuleSchema,
+  data: Record<string, unknown>
+): Promise<void> {
+  const fields = schema.fields.filter((f) => f.type === "relation" && f.targetType);
+  if (fields.length === 0) return;
+
+  const admin = createAdminClient();
+
+  for (const field of fields) {
+    const ids = relationFieldIds(data[field.key]);
+
+    const { data: existing } = object.id
+      ? await admin
+          .from("object_relations")
+          .select("to_object_id")
+          .eq("from_object_id", object.id)
+          .eq("relation_type", field.key)
+      : { data: [] };
+    const linked = new Set((existing ?? []).map((r) => r.to_object_id));
+
+    const added = ids.filter((id) => !linked.has(id));
+    const removed = [...linked].filter((id) => !ids.includes(id));
+    if (added.length > 0 && !hasPermission(ctx, Actions.RELATION_CREATE)) {
+      throw new AppError("FORBIDDEN", `${field.label}: cannot create relations`);
+    }
+    if (removed.length > 0 && !hasPermission(ctx, Actions.RELATION_DELETE)) {
+      throw new AppError("FORBIDDEN", `${field.label}: cannot remove relations`);
+    }
+    if (added.length === 0) continue;
+
+    const { data: targets } = await admin
+      .from("objects")
+      .select("id, object_type_id, object_types(name)")
+      .in("id", added)
+      .is("deleted_at", null);
+
+    for (const id of added) {
+      const target = (targets ?? []).find((t) => t.id === id);
+      if (!target) {
+        throw new AppError("VALIDATION", `${field.label}: referenced object not found`);
+      }
+      const targetTypeName = (target as unknown as { object_types: { name: string } | null })
+        .object_types?.name;
+      if (targetTypeName !== field.targetType) {
+        throw new AppError("VALIDATION", `${field.label}: must reference a ${field.targetType}`);
+      }
+      if (id === object.id) {
+        throw new AppError("VALIDATION", `${field.label}: cannot reference itself`);
+      }
+
+      const violation = await checkRelationAllowed(admin, object, target, field.key, removed);
+      if (violation) throw new AppError("VALIDATION", `${field.label}: ${violation}`);
+    }
+  }
+}
+
+/**
+ * Mirror saved relation field values into object_relations: link newly
+ * referenced objects and unlink ones no longer referenced.
+ */
+export async function syncRelationFields(
+  ctx: AuthContext,
+  objectId: string,
+  schema: ModuleSchema,
+  data: Record<string, unknown>
+): Promise<void> {
+  const fields = schema.fields.filter((f) => f.type === "relation" && f.targetType);
+  if (fields.length === 0) return;
+
+  const admin = createAdminClient();
+
+  for (const field of fields) {
+    const ids = relationFieldIds(data[field.key]);
+
+    const { data: existing } = await admin
+      .from("object_relations")
+      .select("id, to_object_id")
+      .eq("from_object_id", objectId)
+      .eq("relation_type", field.key);
+
+    for (const rel of existing ?? []) {
+      if (!ids.includes(rel.to_object_id)) await deleteRelation(ctx, rel.id);
+    }
+    const linked = new Set((existing ?? []).map((r) => r.to_object_id));
+    for (const id of ids) {
+      if (!linked.has(id)) {
+        await createRelation(ctx, { fromObjectId: objectId, toObjectId: id, relationType: field.key });
+      }
+    }
+  }
+}
+
+// ── Service Methods ──────────────────────────
 
 /**
  * Get all relations for an object (both directions).
@@ -42,42 +327,37 @@ export async function getRelations(
 
   if (relatedIds.size === 0) return [];
 
-  // Load related objects with their type info
-  const { data: relatedObjects } = await admin
+  // Related objects the user can open; trashed ones are skipped
+  const scope = await getRecordScope(ctx, "read");
+  if (!scope) return [];
+
+  const { data: relatedObjects, error } = await admin
     .from("objects")
-    .select("id, object_types(name)")
-    .in("id", [...relatedIds]);
+    .select("id, object_type_id, owner_id, created_by")
+    .in("id", [...relatedIds])
+    .is("deleted_at", null);
 
-  // Load module data for display names
-  const { data: relatedMods } = await admin
-    .from("object_modules")
-    .select("object_id, data, modules(name)")
-    .in("object_id", [...relatedIds]);
-
-  // Build display names
-  const displayNames = new Map<string, string>();
-  for (const id of relatedIds) {
-    const mods = (relatedMods ?? []).filter((m) => m.object_id === id);
-    const identity = mods.find((m) => (m as any).modules?.name === "identity");
-    const org = mods.find((m) => (m as any).modules?.name === "organization");
-
-    if (identity?.data && (identity.data as any).name) {
-      displayNames.set(id, String((identity.data as any).name));
-    } else if (org?.data && (org.data as any).company_name) {
-      displayNames.set(id, String((org.data as any).company_name));
-    } else {
-      displayNames.set(id, "Unnamed Object");
-    }
-  }
+  if (error) throw new AppError("DB_ERROR", error.message);
 
-  const objectTypeMap = new Map<string, string>();
-  (relatedObjects ?? []).forEach((e) => {
-    objectTypeMap.set(e.id, (e as any).object_types?.name ?? "unknown");
-  });
+  const visible = (relatedObjects ?? []).filter((o) => isInScope(scope, o));
+  if (visible.length === 0) return [];
+
+  // Display names from the modules and fields the user can read
+  const typeIds = [...new Set(visible.map((o) => o.object_type_id))];
+  const [displayNames, { data: types }] = await Promise.all([
+    loadDisplayNames(ctx, visible),
+    admin.from("object_types").select("id, name").in("id", typeIds),
+  ]);
+
+  const typeNames = new Map((types ?? []).map((t) => [t.id, t.name]));
+  const objectTypeMap = new Map(
+    visible.map((o) => [o.id, typeNames.get(o.object_type_id) ?? "unknown"])
+  );
 
   const results: RelatedObject[] = [];
 
   for (const r of outgoing ?? []) {
+    if (!objectTypeMap.has(r.to_object_id)) continue;
     results.push({
       relationId: r.id,
       relationType: r.relation_type,
@@ -91,6 +371,7 @@ export async function getRelations(
   }
 
   for (const r of incoming ?? []) {
+    if (!objectTypeMap.has(r.from_object_id)) continue;
     results.push({
       relationId: r.id,
       relationType: r.relation_type,
@@ -107,37 +388,60 @@ export async function getRelations(
 }
 
 /**
- * Create a new relation between two objects.
+ * Create a new relation between two objects. Both must be within the
+ * user's update scope.
  */
 export async function createRelation(
   ctx: AuthContext,
   input: RelationCreateInput
 ): Promise<RelationRow> {
   requirePermission(ctx, Actions.RELATION_CREATE);
+  const scope = await requireRecordScope(ctx, "update");
 
   const admin = createAdminClient();
 
   // Verify both objects exist
   const { data: fromObj } = await admin
     .from("objects")
-    .select("id")
+    .select("id, object_type_id, owner_id, created_by")
     .eq("id", input.fromObjectId)
+    .is("deleted_at", null)
     .single();
 
   if (!fromObj) throw new AppError("NOT_FOUND", "Source object not found");
 
   const { data: toObj } = await admin
     .from("objects")
-    .select("id")
+    .select("id, object_type_id, owner_id, created_by")
     .eq("id", input.toObjectId)
+    .is("deleted_at", null)
     .single();
 
   if (!toObj) throw new AppError("NOT_FOUND", "Target object not found");
 
+  // Linking changes both records, so the user must be able to update both
+  assertInScope(scope, fromObj);
+  assertInScope(scope, toObj);
+
   if (input.fromObjectId === input.toObjectId) {
     throw new AppError("VALIDATION", "Cannot create self-relation");
   }
 
+  const { count: duplicates } = await admin
+    .from("object_relations")
+    .select("id", { count: "exact", head: true })
+    .eq("relation_type", input.relationType)
+    .or(
+      `and(from_object_id.eq.${fromObj.id},to_object_id.eq.${toObj.id}),and(from_object_id.eq.${toObj.id},to_object_id.eq.${fromObj.id})`
+    );
+
+  if (duplicates && duplicates > 0) {
+    throw new AppError("VALIDATION", "These objects are already related");
+  }
+
+  const violation = await checkRelationAllowed(admin, fromObj, toObj, input.relationType);
+  if (violation) throw new AppError("VALIDATION", violation);
+
   const { data, error } = await admin
     .from("object_relations")
     .insert({
@@ -159,17 +463,38 @@ export async function createRelation(
     newValues: input as unknown as Record<string, unknown>,
   });
 
+  await trackRelationChange(ctx, "relation_added", data);
+
+  await refreshRollups([fromObj.id, toObj.id]);
+
+  // Both ends of the relation can react to it
+  await runAutomations(ctx, {
+    trigger: "relation_added",
+    objectId: fromObj.id,
+    objectTypeId: fromObj.object_type_id,
+    relationType: input.relationType,
+    relatedObjectId: toObj.id,
+  });
+  await runAutomations(ctx, {
+    trigger: "relation_added",
+    objectId: toObj.id,
+    objectTypeId: toObj.object_type_id,
+    relationType: input.relationType,
+    relatedObjectId: fromObj.id,
+  });
+
   return data;
 }
 
 /**
- * Delete a relation.
+ * Delete a relation. Both ends must be within the user's update scope.
  */
 export async function deleteRelation(
   ctx: AuthContext,
   relationId: string
 ): Promise<void> {
   requirePermission(ctx, Actions.RELATION_DELETE);
+  const scope = await requireRecordScope(ctx, "update");
 
   const admin = createAdminClient();
 
@@ -181,6 +506,13 @@ export async function deleteRelation(
 
   if (!old) throw new AppError("NOT_FOUND", "Relation not found");
 
+  const { data: ends } = await admin
+    .from("objects")
+    .select("id, owner_id, created_by")
+    .in("id", [old.from_object_id, old.to_object_id]);
+
+  for (const end of ends ?? []) assertInScope(scope, end);
+
   const { error } = await admin
     .from("object_relations")
     .delete()
@@ -195,4 +527,9 @@ export async function deleteRelation(
     entityId: relationId,
     oldValues: old as unknown as Record<string, unknown>,
   });
+
+  await trackRelationChange(ctx, "relation_removed", old);
+
+  await unlinkRelationField(admin, old.from_object_id, old.relation_type, old.to_object_id);
+  await refreshRollups([old.from_object_id, old.to_object_id]);
 }
@@ -0,0 +1,671 @@
+/**
+ * OMP Engine — Rollup Service
+ *
+ * CRUD for rollup fields, and the refresh that keeps their materialized
+ * values current. The object and relation services call the refresh hooks
+ * after every mutation that can change an aggregate: relations added or
+ * removed, related module data updated, related objects deleted. Only the
+ * affected objects and rollups are recomputed.
+ */
+
+import { after } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { AuthContext } from "@/lib/permissions/rbac";
+import {
+  getFieldPermission,
+  getModulePermission,
+  requirePermission,
+} from "@/lib/permissions/rbac";
+import { Actions } from "@/lib/permissions/actions";
+import { AppError } from "@/lib/utils/errors";
+import { auditLog } from "@/lib/audit/logger";
+import type { Json } from "@/lib/supabase/database.types";
+import type {
+  RollupAggregate,
+  RollupField,
+  RollupFieldInput,
+  RollupFieldRow,
+} from "../types/rollup.types";
+import { parseModuleSchema } from "../types/module.types";
+import { rollupFieldSchema } from "../schemas/rollup.schema";
+import { getRecordScope, isInScope } from "./sharing.service";
+
+/** Objects recomputed per batch when a rollup field is (re)defined */
+const BACKFILL_BATCH_SIZE = 200;
+/** IDs per `in` filter, to keep request URLs short */
+const ID_CHUNK_SIZE = 200;
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+/** A rollup field with the object type on the other end of its relation */
+interface ResolvedRollup extends RollupField {
+  relatedTypeId: string;
+}
+
+// ── Helpers ──────────────────────────────────
+
+function mapRow(row: RollupFieldRow): RollupField {
+  return {
+    id: row.id,
+    objectTypeId: row.object_type_id,
+    relationId: row.relation_id,
+    key: row.key,
+    label: row.label,
+    aggregate: row.aggregate as RollupAggregate,
+    moduleName: row.module_name,
+    fieldKey: row.field_key,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function parseInput(input: RollupFieldInput): RollupFieldInput {
+  const parsed = rollupFieldSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AppError(
+      "VALIDATION",
+      parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join(", ")
+    );
+  }
+  return parsed.data as RollupFieldInput;
+}
+
+function chunk<T>(items: T[], size = ID_CHUNK_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+/**
+ * Load rollup fields with their relation's other end. Rollups over
+ * inactive relations are skipped.
+ */
+async function loadRollups(
+  admin: AdminClient,
+  filter: { objectTypeIds?: string[]; ids?: string[] }
+): Promise<ResolvedRollup[]> {
+  let query = admin
+    .from("rollup_fields")
+    .select("*, object_type_relations(source_type_id, target_type_id, is_active)");
+  if (filter.objectTypeIds) query = query.in("object_type_id", filter.objectTypeIds);
+  if (filter.ids) query = query.in("id", filter.ids);
+
+  const { data } = await query;
+  const rollups: ResolvedRollup[] = [];
+  for (const row of data ?? []) {
+    const relation = (row as unknown as {
+      object_type_relations: {
+        source_type_id: string;
+        target_type_id: string;
+        is_active: boolean;
+      } | null;
+    }).object_type_relations;
+    if (!relation?.is_active) continue;
+
+    rollups.push({
+      ...mapRow(row),
+      relatedTypeId:
+        relation.source_type_id === row.object_type_id
+          ? relation.target_type_id
+          : relation.source_type_id,
+    });
+  }
+  return rollups;
+}
+
+/** IDs of objects linked to any of `objectIds`, in either direction */
+async function loadNeighbors(
+  admin: AdminClient,
+  objectIds: string[]
+): Promise<Map<string, Set<string>>> {
+  const neighbors = new Map<string, Set<string>>(objectIds.map((id) => [id, new Set()]));
+
+  for (const ids of chunk(objectIds)) {
+    const [{ data: outgoing }, { data: incoming }] = await Promise.all([
+      admin.from("object_relations").select("from_object_id, to_object_id").in("from_object_id", ids),
+      admin.from("object_relations").select("from_object_id, to_object_id").in("to_object_id", ids),
+    ]);
+    for (const r of outgoing ?? []) neighbors.get(r.from_object_id)?.add(r.to_object_id);
+    for (const r of incoming ?? []) neighbors.get(r.to_object_id)?.add(r.from_object_id);
+  }
+  return neighbors;
+}
+
+/**
+ * Aggregate one rollup over the related objects' values.
+ * `related` is ordered newest first (for "latest").
+ */
+function aggregateValues(aggregate: RollupAggregate, related: string[], values: Map<string, unknown>): Json {
+  if (aggregate === "count") return related.length;
+
+  const present = related.map((id) => values.get(id)).filter((v) => !isEmptyValue(v));
+
+  if (aggregate === "latest") return (present[0] ?? null) as Json;
+
+  if (aggregate === "sum" || aggregate === "avg") {
+    const numbers = present.map(Number).filter((n) => Number.isFinite(n));
+    const sum = numbers.reduce((a, b) => a + b, 0);
+    if (aggregate === "sum") return sum;
+    return numbers.length > 0 ? sum / numbers.length : null;
+  }
+
+  // min / max: numerically when every value is a number, else as text (ISO dates sort)
+  if (present.length === 0) return null;
+  const numeric = present.every((v) => typeof v === "number");
+  const sorted = [...present].sort((a, b) =>
+    numeric ? Number(a) - Number(b) : String(a).localeCompare(String(b))
+  );
+  return (aggregate === "min" ? sorted[0] : sorted[sorted.length - 1]) as Json;
+}
+
+/**
+ * Recompute the given rollups for a set of objects (all of the rollups'
+ * object type) and store the values.
+ */
+async function computeRollups(
+  admin: AdminClient,
+  objectIds: string[],
+  rollups: ResolvedRollup[]
+): Promise<void> {
+  if (objectIds.length === 0 || rollups.length === 0) return;
+
+  const neighbors = await loadNeighbors(admin, objectIds);
+  const allNeighborIds = [...new Set([...neighbors.values()].flatMap((s) => [...s]))];
+
+  // Related objects outside the trash, with their type, newest first
+  const neighborInfo = new Map<string, { typeId: string; createdAt: string }>();
+  for (const ids of chunk(allNeighborIds)) {
+    const { data } = await admin
+      .from("objects")
+      .select("id, object_type_id, created_at")
+      .in("id", ids)
+      .is("deleted_at", null);
+    for (const o of data ?? []) {
+      neighborInfo.set(o.id, { typeId: o.object_type_id, createdAt: o.created_at });
+    }
+  }
+
+  // Stored values of the aggregated fields, keyed by module then object
+  const moduleNames = [...new Set(rollups.map((r) => r.moduleName).filter((m): m is string => !!m))];
+  const moduleData = new Map<string, Map<string, Record<string, unknown>>>();
+  if (moduleNames.length > 0 && allNeighborIds.length > 0) {
+    const { data: mods } = await admin.from("modules").select("id, name").in("name", moduleNames);
+    for (const mod of mods ?? []) {
+      const byObject = new Map<string, Record<string, unknown>>();
+      for (const ids of chunk(allNeighborIds)) {
+        const { data } = await admin
+          .from("object_modules")
+          .select("object_id, data")
+          .eq("module_id", mod.id)
+          .in("object_id", ids);
+        for (const om of data ?? []) {
+          byObject.set(om.object_id, (om.data ?? {}) as Record<string, unknown>);
+        }
+      }
+      moduleData.set(mod.name, byObject);
+    }
+  }
+
+  const computedAt = new Date().toISOString();
+  const rows = [];
+  for (const objectId of objectIds) {
+    for (const rollup of rollups) {
+      const related = [...(neighbors.get(objectId) ?? [])]
+        .filter((id) => neighborInfo.get(id)?.typeId === rollup.relatedTypeId)
+        .sort((a, b) =>
+          neighborInfo.get(b)!.createdAt.localeCompare(neighborInfo.get(a)!.createdAt)
+        );
+
+      const byObject = rollup.moduleName ? moduleData.get(rollup.moduleName) : undefined;
+      const values = new Map<string, unknown>(
+        related.map((id) => [id, rollup.fieldKey ? byObject?.get(id)?.[rollup.fieldKey] : null])
+      );
+
+      rows.push({
+        rollup_id: rollup.id,
+        object_id: objectId,
+        value: aggregateValues(rollup.aggregate, related, values),
+        related_count: related.length,
+        computed_at: computedAt,
+      });
+    }
+  }
+
+  for (const batch of chunk(rows, 500)) {
+    const { error } = await admin
+      .from("rollup_values")
+      .upsert(batch, { onConflict: "rollup_id,object_id" });
+    if (error) throw new AppError("DB_ERROR", error.message);
+  }
+}
+
+/**
+ * Recompute every rollup (optionally narrowed) on the given objects.
+ */
+async function refreshObjects(
+  admin: AdminClient,
+  objectIds: string[],
+  scope: { relatedTypeId?: string; moduleName?: string } = {}
+): Promise<void> {
+  if (objectIds.length === 0) return;
+
+  const objectsByType = new Map<string, string[]>();
+  for (const ids of chunk(objectIds)) {
+    const { data } = await admin
+      .from("objects")
+      .select("id, object_type_id")
+      .in("id", ids)
+      .is("deleted_at", null);
+    for (const o of data ?? []) {
+      objectsByType.set(o.object_type_id, [...(objectsByType.get(o.object_type_id) ?? []), o.id]);
+    }
+  }
+  if (objectsByType.size === 0) return;
+
+  const rollups = (await loadRollups(admin, { objectTypeIds: [...objectsByType.keys()] })).filter(
+    (r) =>
+      (!scope.relatedTypeId || r.relatedTypeId === scope.relatedTypeId) &&
+      (!scope.moduleName || r.moduleName === scope.moduleName)
+  );
+
+  for (const [typeId, ids] of objectsByType) {
+    await computeRollups(
+      admin,
+      ids,
+      rollups.filter((r) => r.objectTypeId === typeId)
+    );
+  }
+}
+
+/**
+ * Compute a rollup field for every object of its type.
+ */
+async function backfillRollupField(rollupId: string): Promise<void> {
+  const admin = createAdminClient();
+  const [rollup] = await loadRollups(admin, { ids: [rollupId] });
+  if (!rollup) return;
+
+  let lastId: string | null = null;
+  while (true) {
+    let query = admin
+      .from("objects")
+      .select("id")
+      .eq("object_type_id", rollup.objectTypeId)
+      .is("deleted_at", null)
+      .order("id")
+      .limit(BACKFILL_BATCH_SIZE);
+    if (lastId) query = query.gt("id", lastId);
+
+    const { data } = await query;
+    const ids = (data ?? []).map((o) => o.id);
+    if (ids.length === 0) break;
+
+    await computeRollups(admin, ids, [rollup]);
+    if (ids.length < BACKFILL_BATCH_SIZE) break;
+    lastId = ids[ids.length - 1];
+  }
+}
+
+function scheduleBackfill(rollupId: string): void {
+  const run = () => backfillRollupField(rollupId).catch(() => undefined);
+  try {
+    after(run);
+  } catch {
+    void run();
+  }
+}
+
+/**
+ * Check a rollup definition against its relation and the related type's
+ * modules.
+ */
+async function validateRollup(
+  admin: AdminClient,
+  objectTypeId: string,
+  input: RollupFieldInput
+): Promise<void> {
+  const { data: relation } = await admin
+    .from("object_type_relations")
+    .select("source_type_id, target_type_id")
+    .eq("id", input.relationId)
+    .single();
+
+  if (!relation) throw new AppError("NOT_FOUND", "Relation definition not found");
+  if (relation.source_type_id !== objectTypeId && relation.target_type_id !== objectTypeId) {
+    throw new AppError("VALIDATION", "The relation does not involve this object type");
+  }
+  if (input.aggregate === "count") return;
+
+  const relatedTypeId =
+    relation.source_type_id === objectTypeId ? relation.target_type_id : relation.source_type_id;
+
+  const { data: typeModules } = await admin
+    .from("object_type_modules")
+    .select("modules(name, schema)")
+    .eq("object_type_id", relatedTypeId);
+
+  const mod = (typeModules ?? [])
+    .map((tm) => (tm as unknown as { modules: { name: string; schema: Json } | null }).modules)
+    .find((m) => m?.name === input.moduleName);
+  if (!mod) {
+    throw new AppError("VALIDATION", `Module '${input.moduleName}' is not attached to the related type`);
+  }
+
+  const field = parseModuleSchema(mod.schema).fields.find((f) => f.key === input.fieldKey);
+  if (!field) {
+    throw new AppError("VALIDATION", `Field '${input.moduleName}.${input.fieldKey}' does not exist`);
+  }
+  if (field.type === "formula") {
+    throw new AppError("VALIDATION", "Formula fields are computed on read and cannot be rolled up");
+  }
+  if ((input.aggregate === "sum" || input.aggregate === "avg") && field.type !== "number") {
+    throw new AppError("VALIDATION", `${input.aggregate} needs a number field`);
+  }
+}
+
+// ── Refresh Hooks ────────────────────────────
+
+/**
+ * IDs of the objects linked to an object. Capture these before deleting
+ * an object so their rollups can be refreshed afterwards.
+ */
+export async function getRelatedObjectIds(objectId: string): Promise<string[]> {
+  const admin = createAdminClient();
+  const neighbors = await loadNeighbors(admin, [objectId]);
+  return [...(neighbors.get(objectId) ?? [])];
+}
+
+/**
+ * Recompute all rollups of the given objects.
+ * Never throws — rollups must not block the mutation that changed them.
+ */
+export async function refreshRollups(objectIds: string[]): Promise<void> {
+  try {
+    await refreshObjects(createAdminClient(), objectIds);
+  } catch {
+    // non-critical — values are recomputed on the next change
+  }
+}
+
+/**
+ * An object's module data changed: recompute the rollups of the objects
+ * linked to it that aggregate that module.
+ */
+export async function refreshRollupsForModuleChange(
+  objectId: string,
+  objectTypeId: string,
+  moduleName: string
+): Promise<void> {
+  try {
+    const admin = createAdminClient();
+    const neighbors = await loadNeighbors(admin, [objectId]);
+    await refreshObjects(admin, [...(neighbors.get(objectId) ?? [])], {
+      relatedTypeId: objectTypeId,
+      moduleName,
+    });
+  } catch {
+    // non-critical
+  }
+}
+
+/**
+ * A relation definition was re-activated: values went stale while it was
+ * off, so recompute its rollups in the background.
+ */
+export async function refreshRollupsForRelation(relationId: string): Promise<void> {
+  const admin = createAdminClient();
+  const { data } = await admin.from("rollup_fields").select("id").eq("relation_id", relationId);
+  for (const row of data ?? []) scheduleBackfill(row.id);
+}
+
+// ── Reading ──────────────────────────────────
+
+/**
+ * For each object, the types of its related objects that include one
+ * outside the reader's record scope. Empty for readers who see every record.
+ */
+async function loadOutOfScopeTypes(
+  ctx: AuthContext,
+  admin: AdminClient,
+  objectIds: string[]
+): Promise<Map<string, Set<string>>> {
+  const withheld = new Map<string, Set<string>>();
+  const scope = await getRecordScope(ctx, "read");
+  if (scope?.all) return withheld;
+
+  const neighbors = await loadNeighbors(admin, objectIds);
+  const allNeighborIds = [...new Set([...neighbors.values()].flatMap((s) => [...s]))];
+
+  const hiddenTypes = new Map<string, string>();
+  for (const ids of chunk(allNeighborIds)) {
+    const { data } = await admin
+      .from("objects")
+      .select("id, object_type_id, owner_id, created_by")
+      .in("id", ids)
+      .is("deleted_at", null);
+    for (const o of data ?? []) {
+      if (!scope || !isInScope(scope, o)) hiddenTypes.set(o.id, o.object_type_id);
+    }
+  }
+
+  for (const [objectId, related] of neighbors) {
+    for (const id of related) {
+      const typeId = hiddenTypes.get(id);
+      if (!typeId) continue;
+      const types = withheld.get(objectId) ?? new Set<string>();
+      types.add(typeId);
+      withheld.set(objectId, types);
+    }
+  }
+  return withheld;
+}
+
+/**
+ * Rollup values for a set of objects, keyed by object ID then rollup key.
+ * Rollups over a module the reader can't read on the related type are
+ * left out; counts are always visible. Values are stored once for every
+ * reader, so an object's rollups over a related type are also left out
+ * when any related object of that type is outside the reader's scope.
+ */
+export async function getRollupValues(
+  ctx: AuthContext,
+  objects: { id: string; object_type_id: string }[]
+): Promise<Map<string, Record<string, unknown>>> {
+  const result = new Map<string, Record<string, unknown>>();
+  if (objects.length === 0) return result;
+
+  const admin = createAdminClient();
+  const typeIds = [...new Set(objects.map((o) => o.object_type_id))];
+  const rollups = await loadRollups(admin, { objectTypeIds: typeIds });
+  if (rollups.length === 0) return result;
+
+  const { data: mods } = await admin.from("modules").select("id, name");
+  const moduleIds = new Map((mods ?? []).map((m) => [m.name, m.id]));
+  const visible = rollups.filter((r) => {
+    if (!r.moduleName) return true;
+    const moduleId = moduleIds.get(r.moduleName);
+    return (
+      !!moduleId &&
+      getModulePermission(ctx, moduleId, r.relatedTypeId).canRead &&
+      (!r.fieldKey || getFieldPermission(ctx, moduleId, r.relatedTypeId, r.fieldKey).canRead)
+    );
+  });
+  const byId = new Map(visible.map((r) => [r.id, r]));
+  if (byId.size === 0) return result;
+
+  const withheld = await loadOutOfScopeTypes(ctx, admin, objects.map((o) => o.id));
+
+  for (const ids of chunk(objects.map((o) => o.id))) {
+    const { data } = await admin
+      .from("rollup_values")
+      .select("rollup_id, object_id, value")
+      .in("rollup_id", [...byId.keys()])
+      .in("object_id", ids);
+
+    for (const row of data ?? []) {
+      const rollup = byId.get(row.rollup_id);
+      if (!rollup || withheld.get(row.object_id)?.has(rollup.relatedTypeId)) continue;
+      const values = result.get(row.object_id) ?? {};
+      values[rollup.key] = row.value;
+      result.set(row.object_id, values);
+    }
+  }
+
+  return result;
+}
+
+// ── Service Methods ──────────────────────────
+
+/**
+ * Get rollup fields, optionally for a single object type.
+ */
+export async function getRollupFields(
+  ctx: AuthContext,
+  objectTypeId?: string
+): Promise<RollupField[]> {
+  const admin = createAdminClient();
+
+  let query = admin.from("rollup_fields").select("*").order("created_at");
+  if (objectTypeId) query = query.eq("object_type_id", objectTypeId);
+
+  const { data, error } = await query;
+  if (error) throw new AppError("DB_ERROR", error.message);
+  return (data ?? []).map(mapRow);
+}
+
+/**
+ * Define a rollup field on an object type. Values for existing objects
+ * are computed in the background.
+ */
+export async function createRollupField(
+  ctx: AuthContext,
+  objectTypeId: string,
+  input: RollupFieldInput
+): Promise<RollupField> {
+  requirePermission(ctx, Actions.OBJECT_TYPE_MANAGE);
+  const rollup = parseInput(input);
+
+  const admin = createAdminClient();
+  await validateRollup(admin, objectTypeId, rollup);
+
+  const { data, error } = await admin
+    .from("rollup_fields")
+    .insert({
+      object_type_id: objectTypeId,
+      relation_id: rollup.relationId,
+      key: rollup.key,
+      label: rollup.label,
+      aggregate: rollup.aggregate,
+      module_name: rollup.aggregate === "count" ? null : rollup.moduleName,
+      field_key: rollup.aggregate === "count" ? null : rollup.fieldKey,
+      created_by: ctx.userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new AppError("VALIDATION", `A rollup with key '${rollup.key}' already exists on this type`);
+    }
+    throw new AppError("DB_ERROR", error.message);
+  }
+
+  await auditLog(ctx, {
+    action: "rollup:create",
+    category: "settings",
+    entityType: "rollup_field",
+    entityId: data.id,
+    newValues: { objectTypeId, ...rollup } as unknown as Record<string, unknown>,
+  });
+
+  scheduleBackfill(data.id);
+  return mapRow(data);
+}
+
+/**
+ * Replace a rollup field's definition and recompute its values.
+ * The key is fixed once created, since views reference it.
+ */
+export async function updateRollupField(
+  ctx: AuthContext,
+  rollupId: string,
+  input: RollupFieldInput
+): Promise<RollupField> {
+  requirePermission(ctx, Actions.OBJECT_TYPE_MANAGE);
+
+  const admin = createAdminClient();
+
+  const { data: old } = await admin
+    .from("rollup_fields")
+    .select("*")
+    .eq("id", rollupId)
+    .single();
+
+  if (!old) throw new AppError("NOT_FOUND", "Rollup field not found");
+
+  const rollup = parseInput({ ...input, key: old.key });
+  await validateRollup(admin, old.object_type_id, rollup);
+
+  const { data, error } = await admin
+    .from("rollup_fields")
+    .update({
+      relation_id: rollup.relationId,
+      label: rollup.label,
+      aggregate: rollup.aggregate,
+      module_name: rollup.aggregate === "count" ? null : rollup.moduleName,
+      field_key: rollup.aggregate === "count" ? null : rollup.fieldKey,
+    })
+    .eq("id", rollupId)
+    .select()
+    .single();
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  await auditLog(ctx, {
+    action: "rollup:update",
+    category: "settings",
+    entityType: "rollup_field",
+    entityId: rollupId,
+    oldValues: old as unknown as Record<string, unknown>,
+    newValues: rollup as unknown as Record<string, unknown>,
+  });
+
+  scheduleBackfill(rollupId);
+  return mapRow(data);
+}
+
+/**
+ * Delete a rollup field and its stored values.
+ */
+export async function deleteRollupField(
+  ctx: AuthContext,
+  rollupId: string
+): Promise<void> {
+  requirePermission(ctx, Actions.OBJECT_TYPE_MANAGE);
+
+  const admin = createAdminClient();
+
+  const { data: old } = await admin
+    .from("rollup_fields")
+    .select("*")
+    .eq("id", rollupId)
+    .single();
+
+  if (!old) throw new AppError("NOT_FOUND", "Rollup field not found");
+
+  const { error } = await admin.from("rollup_fields").delete().eq("id", rollupId);
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  await auditLog(ctx, {
+    action: "rollup:delete",
+    category: "settings",
+    entityType: "rollup_field",
+    entityId: rollupId,
+    oldValues: old as unknown as Record<string, unknown>,
+  });
+}
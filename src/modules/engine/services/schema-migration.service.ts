@@ -0,0 +1,573 @@
+/**
+ * OMP Engine — Schema Migration Service
+ *
+ * Versions module schemas and keeps stored object data in step with them.
+ * A schema change is diffed against the current version; removed fields,
+ * new required fields and removed select options that existing records
+ * still depend on must be resolved with declared migration steps. The steps
+ * are then applied to existing object_modules rows by a batch job.
+ */
+
+import { after } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { AuthContext } from "@/lib/permissions/rbac";
+import { requirePermission } from "@/lib/permissions/rbac";
+import { Actions } from "@/lib/permissions/actions";
+import { AppError } from "@/lib/utils/errors";
+import type { Json } from "@/lib/supabase/database.types";
+import type { ModuleFieldDef, ModuleRow, ModuleSchema } from "../types/module.types";
+import { parseModuleSchema } from "../types/module.types";
+import type {
+  ModuleSchemaDiff,
+  ModuleSchemaVersion,
+  ModuleSchemaVersionRow,
+  SchemaChangePreview,
+  SchemaFieldChange,
+  SchemaMigrationIssue,
+  SchemaMigrationStep,
+  SchemaVersionStatus,
+} from "../types/schema-migration.types";
+
+/** object_modules rows read (and rewritten) per batch */
+const MIGRATION_BATCH_SIZE = 500;
+
+// ── Helpers ──────────────────────────────────
+
+function mapVersion(row: ModuleSchemaVersionRow): ModuleSchemaVersion {
+  return {
+    id: row.id,
+    moduleId: row.module_id,
+    version: row.version,
+    schema: parseModuleSchema(row.schema),
+    migrations: row.migrations as unknown as SchemaMigrationStep[],
+    status: row.status as SchemaVersionStatus,
+    affectedCount: row.affected_count,
+    processedCount: row.processed_count,
+    error: row.error,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    completedAt: row.completed_at,
+  };
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Iterate every object_modules row of a module in id order.
+ */
+async function forEachModuleRow(
+  moduleId: string,
+  handle: (rows: { id: string; object_id: string; data: Json }[]) => Promise<void> | void
+): Promise<void> {
+  const admin = createAdminClient();
+  let lastId: string | null = null;
+
+  while (true) {
+    let query = admin
+      .from("object_modules")
+      .select("id, object_id, data")
+      .eq("module_id", moduleId)
+      .order("id")
+      .limit(MIGRATION_BATCH_SIZE);
+
+    if (lastId) query = query.gt("id", lastId);
+
+    const { data, error } = await query;
+    if (error) throw new AppError("DB_ERROR", error.message);
+    if (!data || data.length === 0) break;
+
+    await handle(data);
+
+    if (data.length < MIGRATION_BATCH_SIZE) break;
+    lastId = data[data.length - 1].id;
+  }
+}
+
+/**
+ * Structural equality of two schemas, ignoring property order.
+ */
+export function isSameSchema(a: ModuleSchema, b: ModuleSchema): boolean {
+  const canonical = (value: unknown): unknown =>
+    Array.isArray(value)
+      ? value.map(canonical)
+      : value && typeof value === "object"
+        ? Object.fromEntries(
+            Object.keys(value)
+              .sort()
+              .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+              .map((k) => [k, canonical((value as Record<string, unknown>)[k])])
+          )
+        : value;
+  return JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+}
+
+/**
+ * Field-level diff between two schemas, keyed by field key.
+ */
+export function diffModuleSchemas(
+  current: ModuleSchema,
+  next: ModuleSchema
+): ModuleSchemaDiff {
+  const oldByKey = new Map(current.fields.map((f) => [f.key, f]));
+  const newByKey = new Map(next.fields.map((f) => [f.key, f]));
+
+  const added = next.fields.filter((f) => !oldByKey.has(f.key));
+  const removed = current.fields.filter((f) => !newByKey.has(f.key));
+  const changed: SchemaFieldChange[] = [];
+
+  for (const field of next.fields) {
+    const prev = oldByKey.get(field.key);
+    if (!prev) continue;
+
+    const changes: string[] = [];
+    if (prev.type !== field.type) changes.push(`type ${prev.type} → ${field.type}`);
+    if (prev.label !== field.label) changes.push(`label "${prev.label}" → "${field.label}"`);
+    if (!prev.required && field.required) changes.push("now required");
+    if (prev.required && !field.required) changes.push("no longer required");
+    if (prev.default !== field.default) changes.push("default changed");
+    if (prev.formula !== field.formula) changes.push("formula changed");
+
+    const newValues = new Set((field.options ?? []).map((o) => o.value));
+    const removedOptions = (prev.options ?? [])
+      .map((o) => o.value)
+      .filter((v) => !newValues.has(v));
+    if (removedOptions.length > 0) {
+      changes.push(`options removed: ${removedOptions.join(", ")}`);
+    }
+    if ((field.options ?? []).some((o) => !(prev.options ?? []).some((p) => p.value === o.value))) {
+      changes.push("options added");
+    }
+
+    if (changes.length > 0) {
+      changed.push({ key: field.key, before: prev, after: field, changes, removedOptions });
+    }
+  }
+
+  return { added, removed, changed };
+}
+
+/**
+ * Apply migration steps, in order, to one record's module data.
+ * Returns a new object; the input is not modified.
+ */
+export function applyMigrationSteps(
+  data: Record<string, unknown>,
+  steps: SchemaMigrationStep[]
+): Record<string, unknown> {
+  const result = { ...data };
+
+  for (const step of steps) {
+    switch (step.type) {
+      case "rename_key":
+        if (step.from in result) {
+          if (isEmpty(result[step.to])) result[step.to] = result[step.from];
+          delete result[step.from];
+        }
+        break;
+
+      case "set_default":
+        if (isEmpty(result[step.field])) result[step.field] = step.value;
+        break;
+
+      case "map_options": {
+        const value = result[step.field];
+        if (typeof value === "string" && value in step.mapping) {
+          const mapped = step.mapping[value];
+          if (mapped) result[step.field] = mapped;
+          else delete result[step.field];
+        } else if (Array.isArray(value)) {
+          const mapped = value
+            .map((v) => (typeof v === "string" && v in step.mapping ? step.mapping[v] : v))
+            .filter((v) => v !== "");
+          result[step.field] = [...new Set(mapped)];
+        }
+        break;
+      }
+
+      case "drop_field":
+        delete result[step.field];
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Reject steps that reference fields or options the schemas don't have.
+ */
+function validateSteps(
+  current: ModuleSchema,
+  next: ModuleSchema,
+  steps: SchemaMigrationStep[]
+): void {
+  const oldKeys = new Set(current.fields.map((f) => f.key));
+  const newFields = new Map(next.fields.map((f) => [f.key, f]));
+
+  for (const step of steps) {
+    switch (step.type) {
+      case "rename_key":
+        if (!oldKeys.has(step.from)) {
+          throw new AppError("VALIDATION", `Cannot rename '${step.from}': not in the current schema`);
+        }
+        if (!newFields.has(step.to)) {
+          throw new AppError("VALIDATION", `Cannot rename to '${step.to}': not in the new schema`);
+        }
+        break;
+
+      case "set_default":
+        if (!newFields.has(step.field)) {
+          throw new AppError("VALIDATION", `Cannot set default for '${step.field}': not in the new schema`);
+        }
+        break;
+
+      case "map_options": {
+        const field = newFields.get(step.field);
+        if (!field || (field.type !== "select" && field.type !== "multiselect")) {
+          throw new AppError("VALIDATION", `Cannot map options of '${step.field}': not a select field`);
+        }
+        const valid = new Set((field.options ?? []).map((o) => o.value));
+        const invalid = Object.values(step.mapping).filter((v) => v && !valid.has(v));
+        if (invalid.length > 0) {
+          throw new AppError("VALIDATION", `Unknown options for '${step.field}': ${invalid.join(", ")}`);
+        }
+        break;
+      }
+
+      case "drop_field":
+        if (newFields.has(step.field)) {
+          throw new AppError("VALIDATION", `Cannot drop '${step.field}': it is still in the schema`);
+        }
+        break;
+    }
+  }
+}
+
+/**
+ * Scan existing records: how many the steps rewrite, and how many still
+ * conflict with the new schema afterwards.
+ */
+async function analyzeRecords(
+  moduleId: string,
+  diff: ModuleSchemaDiff,
+  steps: SchemaMigrationStep[]
+): Promise<{ issues: SchemaMigrationIssue[]; affectedCount: number; totalCount: number }> {
+  const checks: {
+    field: string;
+    message: string;
+    blocking: boolean;
+    test: (data: Record<string, unknown>) => boolean;
+  }[] = [];
+
+  for (const field of diff.removed) {
+    checks.push({
+      field: field.key,
+      message: `Field '${field.key}' was removed; its data would be orphaned. Rename it to a new field or drop it.`,
+      blocking: true,
+      test: (d) => !isEmpty(d[field.key]),
+    });
+  }
+
+  const newlyRequired: ModuleFieldDef[] = [
+    ...diff.added.filter((f) => f.required),
+    ...diff.changed.filter((c) => c.after.required && !c.before.required).map((c) => c.after),
+  ];
+  for (const field of newlyRequired) {
+    // Formula values are computed on read, never stored
+    if (field.default !== undefined || field.type === "formula") continue;
+    checks.push({
+      field: field.key,
+      message: `Field '${field.key}' is required but existing records have no value. Set a default.`,
+      blocking: true,
+      test: (d) => isEmpty(d[field.key]),
+    });
+  }
+
+  for (const change of diff.changed) {
+    if (change.removedOptions.length > 0) {
+      const removed = new Set(change.removedOptions);
+      checks.push({
+        field: change.key,
+        message: `Options ${change.removedOptions.join(", ")} of '${change.key}' were removed. Map them to another option.`,
+        blocking: true,
+        test: (d) => {
+          const v = d[change.key];
+          return Array.isArray(v) ? v.some((x) => removed.has(x)) : removed.has(v as string);
+        },
+      });
+    }
+    if (change.before.type !== change.after.type) {
+      checks.push({
+        field: change.key,
+        message: `Values of '${change.key}' are stored as ${change.before.type} and are not converted to ${change.after.type}.`,
+        blocking: false,
+        test: (d) => !isEmpty(d[change.key]),
+      });
+    }
+  }
+
+  const counts = new Array<number>(checks.length).fill(0);
+  let affectedCount = 0;
+  let totalCount = 0;
+
+  await forEachModuleRow(moduleId, (rows) => {
+    for (const row of rows) {
+      totalCount++;
+      const data = (row.data ?? {}) as Record<string, unknown>;
+      const migrated = applyMigrationSteps(data, steps);
+      if (JSON.stringify(migrated) !== JSON.stringify(data)) affectedCount++;
+      checks.forEach((check, i) => {
+        if (check.test(migrated)) counts[i]++;
+      });
+    }
+  });
+
+  const issues = checks
+    .map((check, i) => ({
+      field: check.field,
+      message: check.message,
+      recordCount: counts[i],
+      blocking: check.blocking && counts[i] > 0,
+    }))
+    .filter((issue) => issue.recordCount > 0);
+
+  return { issues, affectedCount, totalCount };
+}
+
+function scheduleMigration(versionId: string): void {
+  try {
+    after(() => runSchemaMigration(versionId));
+  } catch {
+    void runSchemaMigration(versionId);
+  }
+}
+
+async function buildPreview(
+  mod: ModuleRow,
+  schema: ModuleSchema,
+  steps: SchemaMigrationStep[]
+): Promise<SchemaChangePreview> {
+  const current = parseModuleSchema(mod.schema);
+  validateSteps(current, schema, steps);
+
+  const diff = diffModuleSchemas(current, schema);
+  const { issues, affectedCount, totalCount } = await analyzeRecords(
+    mod.id,
+    diff,
+    steps
+  );
+
+  return {
+    fromVersion: mod.schema_version,
+    toVersion: mod.schema_version + 1,
+    diff,
+    issues,
+    affectedCount,
+    totalCount,
+  };
+}
+
+// ── Service Methods ──────────────────────────
+
+/**
+ * Preview a schema change: the diff, unresolved issues, and how many
+ * existing records the declared steps would rewrite.
+ */
+export async function previewSchemaChange(
+  ctx: AuthContext,
+  moduleId: string,
+  schema: ModuleSchema,
+  steps: SchemaMigrationStep[] = []
+): Promise<SchemaChangePreview> {
+  requirePermission(ctx, Actions.MODULE_MANAGE);
+
+  const admin = createAdminClient();
+  const { data: mod } = await admin
+    .from("modules")
+    .select("*")
+    .eq("id", moduleId)
+    .single();
+
+  if (!mod) throw new AppError("NOT_FOUND", "Module not found");
+
+  return buildPreview(mod, schema, steps);
+}
+
+/**
+ * Check a schema change against existing data and record it as a new
+ * version. Called by updateModule before the module row is written;
+ * throws if blocking issues remain. When records need rewriting the
+ * version starts as pending and the batch job is scheduled.
+ */
+export async function createSchemaVersion(
+  ctx: AuthContext,
+  mod: ModuleRow,
+  schema: ModuleSchema,
+  steps: SchemaMigrationStep[]
+): Promise<{ version: ModuleSchemaVersion; preview: SchemaChangePreview }> {
+  const admin = createAdminClient();
+
+  const { count: running } = await admin
+    .from("module_schema_versions")
+    .select("*", { count: "exact", head: true })
+    .eq("module_id", mod.id)
+    .in("status", ["pending", "running"]);
+
+  if (running && running > 0) {
+    throw new AppError(
+      "VALIDATION",
+      "A data migration for this module is still running. Try again when it finishes."
+    );
+  }
+
+  const preview = await buildPreview(mod, schema, steps);
+  const blocking = preview.issues.filter((i) => i.blocking);
+  if (blocking.length > 0) {
+    throw new AppError("VALIDATION", blocking.map((i) => i.message).join(" "));
+  }
+
+  const needsJob = steps.length > 0 && preview.affectedCount > 0;
+
+  const { data, error } = await admin
+    .from("module_schema_versions")
+    .insert({
+      module_id: mod.id,
+      version: preview.toVersion,
+      schema: schema as unknown as Json,
+      migrations: steps as unknown as Json,
+      status: needsJob ? "pending" : "completed",
+      affected_count: preview.affectedCount,
+      created_by: ctx.userId,
+      completed_at: needsJob ? null : new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  if (needsJob) scheduleMigration(data.id);
+
+  return { version: mapVersion(data), preview };
+}
+
+/**
+ * Batch job: apply a version's migration steps to every stored record of
+ * the module. Claims the version first so concurrent runs don't overlap.
+ */
+export async function runSchemaMigration(versionId: string): Promise<void> {
+  const admin = createAdminClient();
+
+  const { data: version } = await admin
+    .from("module_schema_versions")
+    .update({ status: "running", processed_count: 0, error: null })
+    .eq("id", versionId)
+    .eq("status", "pending")
+    .select()
+    .maybeSingle();
+
+  if (!version) return;
+
+  const steps = version.migrations as unknown as SchemaMigrationStep[];
+  let processed = 0;
+
+  try {
+    await forEachModuleRow(version.module_id, async (rows) => {
+      const updates = [];
+      for (const row of rows) {
+        const data = (row.data ?? {}) as Record<string, unknown>;
+        const migrated = applyMigrationSteps(data, steps);
+        if (JSON.stringify(migrated) !== JSON.stringify(data)) {
+          updates.push({
+            id: row.id,
+            object_id: row.object_id,
+            module_id: version.module_id,
+            data: migrated as unknown as Json,
+          });
+        }
+      }
+
+      if (updates.length > 0) {
+        const { error } = await admin
+          .from("object_modules")
+          .upsert(updates, { onConflict: "id" });
+        if (error) throw new AppError("DB_ERROR", error.message);
+      }
+
+      processed += updates.length;
+      await admin
+        .from("module_schema_versions")
+        .update({ processed_count: processed })
+        .eq("id", versionId);
+    });
+
+    await admin
+      .from("module_schema_versions")
+      .update({
+        status: "completed",
+        processed_count: processed,
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", versionId);
+  } catch (err) {
+    await admin
+      .from("module_schema_versions")
+      .update({
+        status: "failed",
+        processed_count: processed,
+        error: err instanceof Error ? err.message : "Migration failed",
+      })
+      .eq("id", versionId);
+  }
+}
+
+/**
+ * Schema history of a module, newest first.
+ */
+export async function getModuleSchemaVersions(
+  ctx: AuthContext,
+  moduleId: string
+): Promise<ModuleSchemaVersion[]> {
+  requirePermission(ctx, Actions.MODULE_MANAGE);
+
+  const admin = createAdminClient();
+  const { data, error } = await admin
+    .from("module_schema_versions")
+    .select("*")
+    .eq("module_id", moduleId)
+    .order("version", { ascending: false });
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+  return (data ?? []).map(mapVersion);
+}
+
+/**
+ * Re-run a failed migration. Steps are idempotent, so records that were
+ * already rewritten are left as they are.
+ */
+export async function retrySchemaMigration(
+  ctx: AuthContext,
+  versionId: string
+): Promise<void> {
+  requirePermission(ctx, Actions.MODULE_MANAGE);
+
+  const admin = createAdminClient();
+  const { data, error } = await admin
+    .from("module_schema_versions")
+    .update({ status: "pending", error: null })
+    .eq("id", versionId)
+    .eq("status", "failed")
+    .select("id")
+    .maybeSingle();
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+  if (!data) throw new AppError("VALIDATION", "Only failed migrations can be retried");
+
+  scheduleMigration(versionId);
+}
@@ -0,0 +1,230 @@
+/**
+ * OMP Engine — Search Service
+ *
+ * Full-text search over module data through the `object_search_index`
+ * table, which holds one document per object module built from every
+ * text-like field of the module schema. Matches in modules the user can't
+ * read are dropped, so hidden data never surfaces an object; in modules
+ * with hidden fields, the match is re-checked against the visible fields.
+ */
+
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { AuthContext } from "@/lib/permissions/rbac";
+import { getModulePermission } from "@/lib/permissions/rbac";
+import { AppError } from "@/lib/utils/errors";
+import type { GlobalSearchResults } from "../types/search.types";
+import type { RecordScope } from "../types/sharing.types";
+import { getObjects } from "./object.service";
+import { searchViews } from "./view.service";
+import { getPages } from "./page.service";
+import { getRecordScope, requireRecordScope } from "./sharing.service";
+import { getHiddenFieldKeys } from "./field-permission.service";
+
+/** Most index rows read for one search */
+const MAX_SEARCH_ROWS = 1000;
+/** IDs per `in` filter, to keep request URLs short */
+const ID_CHUNK_SIZE = 200;
+
+// ── Helpers ──────────────────────────────────
+
+/**
+ * Build a prefix tsquery from free text: every word must match the start
+ * of a word in the document (`acme co` → `acme:* & co:*`).
+ * Returns null when the text has no searchable words.
+ */
+export function buildSearchQuery(term: string): string | null {
+  const words = searchWords(term);
+  if (words.length === 0) return null;
+  return words.map((w) => `${w}:*`).join(" & ");
+}
+
+function searchWords(term: string): string[] {
+  return term
+    .toLowerCase()
+    .split(/\s+/)
+    .map((w) => w.replace(/[&|!():*<>'"\\]/g, ""))
+    .filter((w) => w.length > 0);
+}
+
+/**
+ * Whether every search word prefixes a word of the visible field values —
+ * an approximation of the index match, used when some fields are hidden.
+ */
+function matchesVisibleFields(
+  data: Record<string, unknown>,
+  hidden: Set<string>,
+  words: string[]
+): boolean {
+  const tokens = Object.entries(data)
+    .filter(([key, value]) => !hidden.has(key) && value !== null && value !== undefined)
+    .flatMap(([, value]) => (Array.isArray(value) ? value : [value]))
+    .flatMap((value) => String(value).toLowerCase().split(/[^\p{L}\p{N}]+/u));
+  return words.every((w) => tokens.some((t) => t.startsWith(w)));
+}
+
+/**
+ * Drop index rows of modules with hidden fields whose match comes only
+ * from those fields.
+ */
+async function dropHiddenMatches<
+  T extends { object_id: string; module_id: string; object_type_id: string },
+>(ctx: AuthContext, rows: T[], term: string): Promise<T[]> {
+  const hiddenByRow = new Map(
+    rows.map((row) => [row, getHiddenFieldKeys(ctx, row.module_id, row.object_type_id)])
+  );
+  const masked = rows.filter((row) => hiddenByRow.get(row)!.size > 0);
+  if (masked.length === 0) return rows;
+
+  const admin = createAdminClient();
+  const objectIds = [...new Set(masked.map((r) => r.object_id))];
+  const moduleIds = [...new Set(masked.map((r) => r.module_id))];
+  const dataByKey = new Map<string, Record<string, unknown>>();
+  for (let i = 0; i < objectIds.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await admin
+      .from("object_modules")
+      .select("object_id, module_id, data")
+      .in("object_id", objectIds.slice(i, i + ID_CHUNK_SIZE))
+      .in("module_id", moduleIds);
+
+    if (error) throw new AppError("DB_ERROR", error.message);
+    for (const om of data ?? []) {
+      dataByKey.set(`${om.object_id}:${om.module_id}`, (om.data ?? {}) as Record<string, unknown>);
+    }
+  }
+
+  const words = searchWords(term);
+  return rows.filter((row) => {
+    const hidden = hiddenByRow.get(row)!;
+    if (hidden.size === 0) return true;
+    const data = dataByKey.get(`${row.object_id}:${row.module_id}`) ?? {};
+    return matchesVisibleFields(data, hidden, words);
+  });
+}
+
+function escapeLike(term: string): string {
+  return term.replace(/[%_\\]/g, "\\$&");
+}
+
+// ── Service Methods ──────────────────────────
+
+/**
+ * Rank objects matching `term`, best first. Only objects in the user's
+ * read scope (or the given `scope`) match, and only module documents the
+ * user can read count towards a match.
+ */
+export async function searchObjectIds(
+  ctx: AuthContext,
+  term: string,
+  options: { objectTypeId?: string | null; limit?: number; scope?: RecordScope } = {}
+): Promise<{ id: string; rank: number }[]> {
+  const query = buildSearchQuery(term);
+  if (!query) return [];
+
+  const scope = options.scope ?? (await requireRecordScope(ctx, "read"));
+
+  const admin = createAdminClient();
+  const { data, error } = await admin.rpc("search_object_index", {
+    p_query: query,
+    p_object_type_id: options.objectTypeId ?? null,
+    p_scope_user_ids: scope.all ? null : scope.userIds,
+    p_scope_object_ids: scope.all ? [] : scope.objectIds,
+    p_limit: MAX_SEARCH_ROWS,
+  });
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  const readable = await dropHiddenMatches(
+    ctx,
+    (data ?? []).filter(
+      (row) => getModulePermission(ctx, row.module_id, row.object_type_id).canRead
+    ),
+    term
+  );
+
+  // An object ranks by its best visible module
+  const ranks = new Map<string, number>();
+  for (const row of readable) {
+    ranks.set(row.object_id, Math.max(ranks.get(row.object_id) ?? 0, row.rank));
+  }
+
+  return [...ranks.entries()]
+    .map(([id, rank]) => ({ id, rank }))
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, options.limit ?? MAX_SEARCH_ROWS);
+}
+
+/**
+ * Search everything the user can open: records across all object types,
+ * plus object types, views and pages by name.
+ */
+export async function globalSearch(
+  ctx: AuthContext,
+  term: string,
+  limit = 8
+): Promise<GlobalSearchResults> {
+  const text = term.trim();
+  const results: GlobalSearchResults = { objects: [], objectTypes: [], views: [], pages: [] };
+  if (!text) return results;
+
+  const admin = createAdminClient();
+  if (await getRecordScope(ctx, "read")) {
+    // getObjects orders search results by rank
+    const { objects } = await getObjects(ctx, { search: text, limit });
+    results.objects = objects.map((obj) => ({
+      id: obj.id,
+      displayName: obj.displayName,
+      objectType: {
+        name: obj.object_type.name,
+        displayName: obj.object_type.display_name,
+        icon: obj.object_type.icon ?? "Box",
+        color: obj.object_type.color ?? "#6B7280",
+      },
+    }));
+  }
+
+  const { data: types, error } = await admin
+    .from("object_types")
+    .select("id, name, display_name, icon, color")
+    .eq("is_active", true)
+    .ilike("display_name", `%${escapeLike(text)}%`)
+    .order("display_name")
+    .limit(limit);
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+  results.objectTypes = (types ?? []).map((t) => ({
+    id: t.id,
+    name: t.name,
+    displayName: t.display_name,
+    icon: t.icon ?? "Box",
+    color: t.color ?? "#6B7280",
+  }));
+
+  const views = await searchViews(ctx, text, limit);
+  if (views.length > 0) {
+    const { data: viewTypes } = await admin
+      .from("object_types")
+      .select("id, name, display_name")
+      .in("id", [...new Set(views.map((v) => v.objectTypeId))]);
+    const typeById = new Map((viewTypes ?? []).map((t) => [t.id, t]));
+
+    results.views = views
+      .filter((v) => typeById.has(v.objectTypeId))
+      .map((v) => {
+        const type = typeById.get(v.objectTypeId)!;
+        return {
+          id: v.id,
+          name: v.name,
+          objectTypeName: type.name,
+          objectTypeDisplayName: type.display_name,
+        };
+      });
+  }
+
+  const needle = text.toLowerCase();
+  results.pages = (await getPages(ctx))
+    .filter((p) => p.name.toLowerCase().includes(needle))
+    .slice(0, limit)
+    .map((p) => ({ id: p.id, name: p.name, slug: p.slug }));
+
+  return results;
+}
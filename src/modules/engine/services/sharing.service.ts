@@ -0,0 +1,322 @@
+/**
+ * OMP Engine — Record Sharing Service
+ *
+ * Resolves which records a user may read, update or delete — own records,
+ * teammates' records with the team tier, every record with the "all" tier,
+ * and records shared with the user or one of their teams — and manages
+ * the per-record share grants. Mirrors auth_can_access_object() in
+ * migration 014, which applies the same rules under RLS.
+ */
+
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { AuthContext } from "@/lib/permissions/rbac";
+import { hasPermission, requirePermission } from "@/lib/permissions/rbac";
+import { Actions } from "@/lib/permissions/actions";
+import type { Action } from "@/lib/permissions/actions";
+import { AppError } from "@/lib/utils/errors";
+import { auditLog } from "@/lib/audit/logger";
+import { getTeamIdsForUser, getTeammateIds } from "@/modules/teams/services/team.service";
+import type {
+  RecordAccess,
+  RecordAccessLevel,
+  RecordScope,
+  RecordShare,
+  RecordShareInput,
+  RecordShareRow,
+  ShareAccess,
+} from "../types/sharing.types";
+
+type OwnedRecord = { id: string; owner_id: string | null; created_by: string };
+
+const TIERS: Record<RecordAccessLevel, { all: Action; team: Action; own: Action }> = {
+  read: {
+    all: Actions.OBJECT_READ,
+    team: Actions.OBJECT_READ_TEAM,
+    own: Actions.OBJECT_READ_OWN,
+  },
+  update: {
+    all: Actions.OBJECT_UPDATE,
+    team: Actions.OBJECT_UPDATE_TEAM,
+    own: Actions.OBJECT_UPDATE_OWN,
+  },
+  delete: {
+    all: Actions.OBJECT_DELETE,
+    team: Actions.OBJECT_DELETE_TEAM,
+    own: Actions.OBJECT_DELETE_OWN,
+  },
+};
+
+// ── Helpers ──────────────────────────────────
+
+/**
+ * IDs of objects shared with the user directly or through a team.
+ * Write grants count for reads too.
+ */
+async function getSharedObjectIds(userId: string, access: ShareAccess): Promise<string[]> {
+  const admin = createAdminClient();
+  const teamIds = await getTeamIdsForUser(userId);
+
+  const grantees = [`user_id.eq.${userId}`];
+  if (teamIds.length > 0) grantees.push(`team_id.in.(${teamIds.join(",")})`);
+
+  let query = admin.from("record_shares").select("object_id").or(grantees.join(","));
+  if (access === "write") query = query.eq("access", "write");
+
+  const { data, error } = await query;
+  if (error) throw new AppError("DB_ERROR", error.message);
+  return [...new Set((data ?? []).map((s) => s.object_id))];
+}
+
+function mapShare(row: RecordShareRow, granteeName: string): RecordShare {
+  return {
+    id: row.id,
+    objectId: row.object_id,
+    userId: row.user_id,
+    teamId: row.team_id,
+    granteeName,
+    access: row.access as ShareAccess,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+async function loadRecord(objectId: string): Promise<OwnedRecord> {
+  const admin = createAdminClient();
+  const { data } = await admin
+    .from("objects")
+    .select("id, owner_id, created_by")
+    .eq("id", objectId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!data) throw new AppError("NOT_FOUND", "Object not found");
+  return data;
+}
+
+// ── Access Resolution ────────────────────────
+
+/**
+ * The records the user can reach for an operation, or null when they
+ * can reach none (no permission tier and nothing shared).
+ */
+export async function getRecordScope(
+  ctx: AuthContext,
+  level: RecordAccessLevel
+): Promise<RecordScope | null> {
+  const tier = TIERS[level];
+  if (hasPermission(ctx, tier.all)) return { all: true };
+
+  const userIds = hasPermission(ctx, tier.team)
+    ? await getTeammateIds(ctx.userId)
+    : hasPermission(ctx, tier.own)
+      ? [ctx.userId]
+      : [];
+
+  // Shares grant read or write, never delete
+  const objectIds =
+    level === "delete"
+      ? []
+      : await getSharedObjectIds(ctx.userId, level === "update" ? "write" : "read");
+
+  if (userIds.length === 0 && objectIds.length === 0) return null;
+  return { all: false, userIds, objectIds };
+}
+
+/**
+ * Like getRecordScope, but throws when the user can reach no records.
+ */
+export async function requireRecordScope(
+  ctx: AuthContext,
+  level: RecordAccessLevel
+): Promise<RecordScope> {
+  const scope = await getRecordScope(ctx, level);
+  if (!scope) throw new AppError("FORBIDDEN", `No ${level} access`);
+  return scope;
+}
+
+export function isInScope(scope: RecordScope, record: OwnedRecord): boolean {
+  if (scope.all) return true;
+  return (
+    (record.owner_id !== null && scope.userIds.includes(record.owner_id)) ||
+    scope.userIds.includes(record.created_by) ||
+    scope.objectIds.includes(record.id)
+  );
+}
+
+/**
+ * Throws FORBIDDEN unless the record is within the scope.
+ */
+export function assertInScope(scope: RecordScope, record: OwnedRecord): void {
+  if (!isInScope(scope, record)) throw new AppError("FORBIDDEN", "Not your object");
+}
+
+/**
+ * PostgREST `or` filter restricting an `objects` query to a limited scope.
+ */
+export function scopeFilter(scope: Extract<RecordScope, { all: false }>): string {
+  const parts: string[] = [];
+  if (scope.userIds.length > 0) {
+    const ids = scope.userIds.join(",");
+    parts.push(`owner_id.in.(${ids})`, `created_by.in.(${ids})`);
+  }
+  if (scope.objectIds.length > 0) parts.push(`id.in.(${scope.objectIds.join(",")})`);
+  return parts.join(",");
+}
+
+/**
+ * What the user may do with a record they can read — drives the record
+ * page's edit, delete and share controls.
+ */
+export async function getRecordAccess(
+  ctx: AuthContext,
+  record: OwnedRecord
+): Promise<RecordAccess> {
+  const [update, remove] = await Promise.all([
+    getRecordScope(ctx, "update"),
+    getRecordScope(ctx, "delete"),
+  ]);
+  const canUpdate = !!update && isInScope(update, record);
+
+  return {
+    canUpdate,
+    canDelete: !!remove && isInScope(remove, record),
+    canShare: canUpdate && hasPermission(ctx, Actions.OBJECT_SHARE),
+  };
+}
+
+// ── Share Grants ─────────────────────────────
+
+/**
+ * List the share grants of a record the user can read.
+ */
+export async function getRecordShares(
+  ctx: AuthContext,
+  objectId: string
+): Promise<RecordShare[]> {
+  const scope = await requireRecordScope(ctx, "read");
+  assertInScope(scope, await loadRecord(objectId));
+
+  const admin = createAdminClient();
+  const { data, error } = await admin
+    .from("record_shares")
+    .select("*")
+    .eq("object_id", objectId)
+    .order("created_at");
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+  const rows = data ?? [];
+
+  const userIds = rows.flatMap((r) => (r.user_id ? [r.user_id] : []));
+  const teamIds = rows.flatMap((r) => (r.team_id ? [r.team_id] : []));
+  const [{ data: profiles }, { data: teams }] = await Promise.all([
+    userIds.length > 0
+      ? admin.from("profiles").select("id, full_name").in("id", userIds)
+      : Promise.resolve({ data: [] as { id: string; full_name: string }[] }),
+    teamIds.length > 0
+      ? admin.from("teams").select("id, name").in("id", teamIds)
+      : Promise.resolve({ data: [] as { id: string; name: string }[] }),
+  ]);
+
+  const names = new Map<string, string>([
+    ...(profiles ?? []).map((p): [string, string] => [p.id, p.full_name]),
+    ...(teams ?? []).map((t): [string, string] => [t.id, t.name]),
+  ]);
+
+  return rows.map((r) =>
+    mapShare(r, names.get(r.user_id ?? r.team_id ?? "") ?? "Unknown")
+  );
+}
+
+/**
+ * Grant a user or team access to a record, or change an existing grant's
+ * access level. Requires object:share and update access to the record.
+ */
+export async function shareRecord(
+  ctx: AuthContext,
+  objectId: string,
+  input: RecordShareInput
+): Promise<void> {
+  requirePermission(ctx, Actions.OBJECT_SHARE);
+
+  const userId = input.userId || null;
+  const teamId = input.teamId || null;
+  if ((userId === null) === (teamId === null)) {
+    throw new AppError("VALIDATION", "Share with either a user or a team");
+  }
+  if (input.access !== "read" && input.access !== "write") {
+    throw new AppError("VALIDATION", "Access must be read or write");
+  }
+
+  const record = await loadRecord(objectId);
+  assertInScope(await requireRecordScope(ctx, "update"), record);
+
+  if (userId && (userId === record.owner_id || userId === record.created_by)) {
+    throw new AppError("VALIDATION", "This user already owns the record");
+  }
+
+  const admin = createAdminClient();
+
+  if (userId) {
+    const { data: profile } = await admin.from("profiles").select("id").eq("id", userId).single();
+    if (!profile) throw new AppError("NOT_FOUND", "User not found");
+  } else {
+    const { data: team } = await admin.from("teams").select("id").eq("id", teamId!).single();
+    if (!team) throw new AppError("NOT_FOUND", "Team not found");
+  }
+
+  let existingQuery = admin.from("record_shares").select("id, access").eq("object_id", objectId);
+  existingQuery = userId
+    ? existingQuery.eq("user_id", userId)
+    : existingQuery.eq("team_id", teamId!);
+  const { data: existing } = await existingQuery.maybeSingle();
+
+  const { error } = existing
+    ? await admin.from("record_shares").update({ access: input.access }).eq("id", existing.id)
+    : await admin.from("record_shares").insert({
+        object_id: objectId,
+        user_id: userId,
+        team_id: teamId,
+        access: input.access,
+        created_by: ctx.userId,
+      });
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  await auditLog(ctx, {
+    action: "object:share",
+    category: "data",
+    entityType: "object",
+    entityId: objectId,
+    oldValues: existing ? { access: existing.access } : undefined,
+    newValues: { user_id: userId, team_id: teamId, access: input.access },
+  });
+}
+
+/**
+ * Remove a share grant.
+ */
+export async function revokeRecordShare(ctx: AuthContext, shareId: string): Promise<void> {
+  requirePermission(ctx, Actions.OBJECT_SHARE);
+
+  const admin = createAdminClient();
+  const { data: share } = await admin
+    .from("record_shares")
+    .select("*")
+    .eq("id", shareId)
+    .single();
+
+  if (!share) throw new AppError("NOT_FOUND", "Share not found");
+
+  assertInScope(await requireRecordScope(ctx, "update"), await loadRecord(share.object_id));
+
+  const { error } = await admin.from("record_shares").delete().eq("id", shareId);
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  await auditLog(ctx, {
+    action: "object:unshare",
+    category: "data",
+    entityType: "object",
+    entityId: share.object_id,
+    oldValues: { user_id: share.user_id, team_id: share.team_id, access: share.access },
+  });
+}
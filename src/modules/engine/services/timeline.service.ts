@@ -2,66 +2,366 @@
  * OMP Engine — Timeline Service
  *
  * Tracks lifecycle events for any object (status changes, notes, relations, etc.)
+ *
+ * Engine mutations write structured events through the track* helpers:
+ * new records, field and owner changes, modules attached or detached,
+ * relations added or removed and marketplace proposals (on both related
+ * objects). Tracking is best effort; a failed write never blocks the
+ * mutation behind it.
+ *
+ * getActivityFeed lists the events of every object the user can read,
+ * across the workspace.
  */
 
+import { z } from "zod/v4";
 import { createAdminClient } from "@/lib/supabase/admin";
 import type { AuthContext } from "@/lib/permissions/rbac";
-import { hasPermission } from "@/lib/permissions/rbac";
-import { Actions } from "@/lib/permissions/actions";
+import { getModulePermission } from "@/lib/permissions/rbac";
 import { AppError } from "@/lib/utils/errors";
+import type { Database, Json } from "@/lib/supabase/database.types";
+import type { ModuleSchema } from "../types/module.types";
+import { addDays, isDayValue } from "../types/view-layout.types";
+import type {
+  ActivityFeedItem,
+  ActivityFeedPage,
+  ActivityFeedParams,
+  TimelineCreateInput,
+  TimelineEvent,
+  TimelineFieldChange,
+  TimelinePage,
+  TimelineQueryParams,
+} from "../types/timeline.types";
+import type { RecordScope } from "../types/sharing.types";
+import { assertInScope, isInScope, requireRecordScope } from "./sharing.service";
+import { getHiddenFieldKeys, sameValue } from "./field-permission.service";
+import { loadDisplayNames } from "./trash.service";
+
+/** Default and largest page size of timelines and the activity feed */
+const PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+type TimelineRow = Database["public"]["Tables"]["timeline_events"]["Row"];
+
+type FeedRow = TimelineRow & { object_type_id: string };
 
-export interface TimelineEvent {
+type RelationRef = {
   id: string;
-  objectId: string;
-  eventType: string;
-  title: string;
-  description: string | null;
-  metadata: Record<string, unknown>;
-  createdBy: string | null;
-  createdAt: string;
+  from_object_id: string;
+  to_object_id: string;
+  relation_type: string;
+};
+
+// ── Helpers ──────────────────────────────────
+
+function toEvent(row: TimelineRow): TimelineEvent {
+  return {
+    id: row.id,
+    objectId: row.object_id,
+    eventType: row.event_type,
+    title: row.title,
+    description: row.description,
+    metadata: (row.metadata ?? {}) as Record<string, unknown>,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+function encodeCursor(event: TimelineEvent): string {
+  return Buffer.from(JSON.stringify([event.createdAt, event.id])).toString("base64url");
+}
+
+/** A cursor is the last event's [created_at, id]; it ends up in filter strings */
+const cursorSchema = z.tuple([z.iso.datetime({ offset: true }), z.uuid()]);
+
+function decodeCursor(cursor: string): [string, string] {
+  try {
+    const parsed = cursorSchema.safeParse(
+      JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"))
+    );
+    if (parsed.success) return parsed.data;
+  } catch {
+    /* fall through */
+  }
+  throw new AppError("VALIDATION", "Invalid page cursor");
+}
+
+function fieldChangeTitle(moduleLabel: string, changes: TimelineFieldChange[]): string {
+  return `${moduleLabel}: ${changes.map((c) => c.label).join(", ")} updated`;
 }
 
-export interface TimelineCreateInput {
-  objectId: string;
-  eventType: "status_change" | "note" | "relation_added" | "relation_removed" | "module_attached" | "module_detached" | "custom";
-  title: string;
-  description?: string;
-  metadata?: Record<string, unknown>;
+/**
+ * Leave out the field changes of modules and fields the user can't read,
+ * from the payload and the title; null when none are left.
+ */
+function visibleFieldChanges(
+  ctx: AuthContext,
+  objectTypeId: string,
+  event: TimelineEvent
+): TimelineEvent | null {
+  const moduleId = event.metadata.moduleId;
+  if (typeof moduleId !== "string") return event;
+  if (!getModulePermission(ctx, moduleId, objectTypeId).canRead) return null;
+
+  const hidden = getHiddenFieldKeys(ctx, moduleId, objectTypeId);
+  const allChanges = (event.metadata.changes ?? []) as TimelineFieldChange[];
+  const changes = allChanges.filter((c) => !hidden.has(c.field));
+  if (changes.length === 0) return null;
+  if (changes.length === allChanges.length) return event;
+
+  const moduleLabel = String(event.metadata.moduleDisplayName ?? event.metadata.module ?? "Module");
+  return {
+    ...event,
+    title: fieldChangeTitle(moduleLabel, changes),
+    metadata: { ...event.metadata, changes },
+  };
 }
 
 /**
- * Get timeline events for an object.
+ * Name the other side of relation events for this reader. Events store only
+ * its ID; records outside the reader's scope stay unnamed and unlinked.
+ */
+async function nameRelatedObjects<T extends TimelineEvent>(
+  ctx: AuthContext,
+  scope: RecordScope,
+  events: T[]
+): Promise<T[]> {
+  const isRelationEvent = (e: TimelineEvent) =>
+    e.eventType === "relation_added" || e.eventType === "relation_removed";
+  const ids = [
+    ...new Set(
+      events
+        .filter(isRelationEvent)
+        .map((e) => e.metadata.relatedObjectId)
+        .filter((id): id is string => typeof id === "string")
+    ),
+  ];
+  if (ids.length === 0) return events;
+
+  const admin = createAdminClient();
+  const { data } = await admin
+    .from("objects")
+    .select("id, object_type_id, owner_id, created_by")
+    .in("id", ids)
+    .is("deleted_at", null);
+  const names = await loadDisplayNames(
+    ctx,
+    (data ?? []).filter((o) => isInScope(scope, o))
+  );
+
+  return events.map((e) => {
+    if (!isRelationEvent(e)) return e;
+    const added = e.eventType === "relation_added";
+    const name = names.get(String(e.metadata.relatedObjectId));
+    if (name === undefined) {
+      return {
+        ...e,
+        title: added ? "Linked to a record" : "Unlinked from a record",
+        metadata: Object.fromEntries(
+          Object.entries(e.metadata).filter(
+            ([key]) => key !== "relatedObjectId" && key !== "relatedObjectName"
+          )
+        ),
+      };
+    }
+    return {
+      ...e,
+      title: added ? `Linked to ${name}` : `Unlinked from ${name}`,
+      metadata: { ...e.metadata, relatedObjectName: name },
+    };
+  });
+}
+
+/** Write events; a failed write doesn't fail the caller */
+async function recordEvents(ctx: AuthContext, inputs: TimelineCreateInput[]): Promise<void> {
+  if (inputs.length === 0) return;
+
+  const admin = createAdminClient();
+  await admin.from("timeline_events").insert(
+    inputs.map((input) => ({
+      object_id: input.objectId,
+      event_type: input.eventType,
+      title: input.title,
+      description: input.description ?? null,
+      metadata: (input.metadata ?? {}) as Json,
+      created_by: ctx.userId,
+    }))
+  );
+}
+
+// ── Service Methods ──────────────────────────
+
+/**
+ * Get a page of an object's timeline events, newest first.
  */
 export async function getTimeline(
   ctx: AuthContext,
   objectId: string,
-  limit = 50
-): Promise<TimelineEvent[]> {
-  if (!hasPermission(ctx, Actions.OBJECT_READ) && !hasPermission(ctx, Actions.OBJECT_READ_OWN)) {
-    throw new AppError("FORBIDDEN", "No read access");
-  }
+  params: TimelineQueryParams = {}
+): Promise<TimelinePage> {
+  const scope = await requireRecordScope(ctx, "read");
 
   const admin = createAdminClient();
 
-  const { data, error } = await (admin as any)
+  const { data: obj } = await admin
+    .from("objects")
+    .select("id, object_type_id, owner_id, created_by")
+    .eq("id", objectId)
+    .single();
+
+  if (!obj) throw new AppError("NOT_FOUND", "Object not found");
+
+  assertInScope(scope, obj);
+
+  const limit = Math.min(Math.max(params.limit ?? PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  // Keyset pages on (created_at, id), both descending
+  let query = admin
     .from("timeline_events")
     .select("*")
     .eq("object_id", objectId)
     .order("created_at", { ascending: false })
-    .limit(limit);
+    .order("id", { ascending: false })
+    .limit(limit + 1);
+
+  if (params.eventTypes && params.eventTypes.length > 0) {
+    query = query.in("event_type", params.eventTypes);
+  }
+  if (params.cursor) {
+    const [createdAt, id] = decodeCursor(params.cursor);
+    query = query.or(
+      `created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt.${id})`
+    );
+  }
+
+  const { data, error } = await query;
 
   if (error) throw new AppError("DB_ERROR", error.message);
 
-  return (data ?? []).map((e: any) => ({
-    id: e.id,
-    objectId: e.object_id,
-    eventType: e.event_type,
-    title: e.title,
-    description: e.description,
-    metadata: (e.metadata ?? {}) as Record<string, unknown>,
-    createdBy: e.created_by,
-    createdAt: e.created_at,
-  }));
+  const rows = (data ?? []).map(toEvent);
+  const page = rows.slice(0, limit);
+
+  const events = page
+    .map((e) => (e.eventType === "field_change" ? visibleFieldChanges(ctx, obj.object_type_id, e) : e))
+    .filter((e): e is TimelineEvent => e !== null);
+
+  return {
+    events: await nameRelatedObjects(ctx, scope, events),
+    nextCursor: rows.length > limit ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
+
+/**
+ * Get a page of timeline events across every object the user can read,
+ * newest first. Events newer than the user's last visit to the feed are
+ * marked unread.
+ */
+export async function getActivityFeed(
+  ctx: AuthContext,
+  params: ActivityFeedParams = {}
+): Promise<ActivityFeedPage> {
+  const scope = await requireRecordScope(ctx, "read");
+
+  const admin = createAdminClient();
+
+  let objectTypeId: string | null = null;
+  if (params.objectType) {
+    const { data: type } = await admin
+      .from("object_types")
+      .select("id")
+      .eq("name", params.objectType)
+      .single();
+    if (!type) throw new AppError("NOT_FOUND", `Object type '${params.objectType}' not found`);
+    objectTypeId = type.id;
+  }
+
+  const limit = Math.min(Math.max(params.limit ?? PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const [cursorAt, cursorId] = params.cursor ? decodeCursor(params.cursor) : [null, null];
+
+  const [{ data, error }, { data: profile }] = await Promise.all([
+    admin.rpc("query_activity_feed", {
+      p_object_type_id: objectTypeId,
+      p_actor_id: params.userId ?? null,
+      p_event_types: params.eventTypes && params.eventTypes.length > 0 ? params.eventTypes : null,
+      p_from: isDayValue(params.from) ? `${params.from.slice(0, 10)}T00:00:00Z` : null,
+      p_to: isDayValue(params.to) ? `${addDays(params.to.slice(0, 10), 1)}T00:00:00Z` : null,
+      p_scope_user_ids: scope.all ? null : scope.userIds,
+      p_scope_object_ids: scope.all ? [] : scope.objectIds,
+      p_cursor_at: cursorAt,
+      p_cursor_id: cursorId,
+      p_limit: limit + 1,
+    }),
+    admin.from("profiles").select("activity_seen_at").eq("id", ctx.userId).single(),
+  ]);
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  const rows = (data ?? []) as unknown as FeedRow[];
+  const page = rows.slice(0, limit);
+  const lastSeenAt = profile?.activity_seen_at ?? null;
+
+  // Object names and types, and actor names, for the page
+  const objects = [...new Map(page.map((r) => [r.object_id, r.object_type_id])).entries()].map(
+    ([id, object_type_id]) => ({ id, object_type_id })
+  );
+  const typeIds = [...new Set(page.map((r) => r.object_type_id))];
+  const actorIds = [...new Set(page.map((r) => r.created_by).filter((id): id is string => !!id))];
+  const [names, { data: types }, { data: actors }] = await Promise.all([
+    loadDisplayNames(ctx, objects),
+    typeIds.length
+      ? admin.from("object_types").select("id, name, display_name, icon, color").in("id", typeIds)
+      : Promise.resolve({ data: [] }),
+    actorIds.length
+      ? admin.from("profiles").select("id, full_name").in("id", actorIds)
+      : Promise.resolve({ data: [] }),
+  ]);
+
+  const items: ActivityFeedItem[] = [];
+  for (const row of page) {
+    const event =
+      row.event_type === "field_change"
+        ? visibleFieldChanges(ctx, row.object_type_id, toEvent(row))
+        : toEvent(row);
+    if (!event) continue;
+
+    const type = (types ?? []).find((t) => t.id === row.object_type_id);
+    items.push({
+      ...event,
+      object: {
+        id: row.object_id,
+        displayName: names.get(row.object_id) ?? "Unnamed Object",
+        objectType: {
+          name: type?.name ?? "unknown",
+          displayName: type?.display_name ?? "Object",
+          icon: type?.icon ?? null,
+          color: type?.color ?? null,
+        },
+      },
+      actorName: (actors ?? []).find((a) => a.id === row.created_by)?.full_name ?? null,
+      unread:
+        row.created_by !== ctx.userId &&
+        (lastSeenAt === null || new Date(row.created_at) > new Date(lastSeenAt)),
+    });
+  }
+
+  return {
+    items: await nameRelatedObjects(ctx, scope, items),
+    nextCursor: rows.length > limit ? encodeCursor(toEvent(page[page.length - 1])) : null,
+    lastSeenAt,
+  };
+}
+
+/**
+ * Record that the user has seen the activity feed up to now.
+ */
+export async function markActivitySeen(ctx: AuthContext): Promise<void> {
+  const admin = createAdminClient();
+
+  const { error } = await admin
+    .from("profiles")
+    .update({ activity_seen_at: new Date().toISOString() })
+    .eq("id", ctx.userId);
+
+  if (error) throw new AppError("DB_ERROR", error.message);
 }
 
 /**
@@ -118,6 +418,171 @@ export async function trackStatusChange(
   });
 }
 
+/**
+ * Track a new record.
+ */
+export async function trackObjectCreated(
+  ctx: AuthContext,
+  objectId: string,
+  objectTypeName: string
+): Promise<void> {
+  await recordEvents(ctx, [
+    {
+      objectId,
+      eventType: "object_created",
+      title: `${objectTypeName} created`,
+    },
+  ]);
+}
+
+/**
+ * Track a marketplace proposal being submitted, accepted or rejected, on
+ * both the proposal and its project.
+ */
+export async function trackProposalEvent(
+  ctx: AuthContext,
+  action: "submitted" | "accepted" | "rejected",
+  proposalId: string,
+  projectId: string,
+  metadata: Record<string, unknown> = {}
+): Promise<void> {
+  const title = `Proposal ${action}`;
+  await recordEvents(ctx, [
+    {
+      objectId: proposalId,
+      eventType: "proposal",
+      title,
+      metadata: { ...metadata, action, proposalId, projectId },
+    },
+    {
+      objectId: projectId,
+      eventType: "proposal",
+      title,
+      metadata: { ...metadata, action, proposalId, projectId },
+    },
+  ]);
+}
+
+/**
+ * Track the fields of a module that changed in one update. Relation fields
+ * are left out (their relation events cover them), as are `skip` fields.
+ */
+export async function trackFieldChanges(
+  ctx: AuthContext,
+  objectId: string,
+  mod: { id: string; name: string; display_name: string },
+  schema: ModuleSchema,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  skip: string[] = []
+): Promise<void> {
+  const changes: TimelineFieldChange[] = schema.fields
+    .filter(
+      (f) => f.type !== "relation" && !skip.includes(f.key) && !sameValue(before[f.key], after[f.key])
+    )
+    .map((f) => ({
+      field: f.key,
+      label: f.label,
+      oldValue: before[f.key] ?? null,
+      newValue: after[f.key] ?? null,
+    }));
+
+  if (changes.length === 0) return;
+
+  await recordEvents(ctx, [
+    {
+      objectId,
+      eventType: "field_change",
+      title: fieldChangeTitle(mod.display_name, changes),
+      metadata: { module: mod.name, moduleId: mod.id, moduleDisplayName: mod.display_name, changes },
+    },
+  ]);
+}
+
+/**
+ * Track an object's owner changing.
+ */
+export async function trackOwnerChange(
+  ctx: AuthContext,
+  objectId: string,
+  oldOwnerId: string | null,
+  newOwnerId: string | null
+): Promise<void> {
+  const admin = createAdminClient();
+  const ids = [oldOwnerId, newOwnerId].filter((id): id is string => !!id);
+  const { data: profiles } = ids.length
+    ? await admin.from("profiles").select("id, full_name").in("id", ids)
+    : { data: [] };
+  const nameOf = (id: string | null) =>
+    id ? (profiles ?? []).find((p) => p.id === id)?.full_name ?? "Unknown user" : null;
+
+  const newName = nameOf(newOwnerId);
+
+  await recordEvents(ctx, [
+    {
+      objectId,
+      eventType: "owner_change",
+      title: newName ? `Owner changed to ${newName}` : "Owner removed",
+      metadata: {
+        oldValue: oldOwnerId,
+        newValue: newOwnerId,
+        oldName: nameOf(oldOwnerId),
+        newName,
+      },
+    },
+  ]);
+}
+
+/**
+ * Track a module being attached to or detached from an object.
+ */
+export async function trackModuleChange(
+  ctx: AuthContext,
+  objectId: string,
+  eventType: "module_attached" | "module_detached",
+  mod: { id: string; name: string; display_name: string }
+): Promise<void> {
+  await recordEvents(ctx, [
+    {
+      objectId,
+      eventType,
+      title: `${mod.display_name} module ${eventType === "module_attached" ? "attached" : "detached"}`,
+      metadata: { module: mod.name, moduleId: mod.id },
+    },
+  ]);
+}
+
+/**
+ * Track a relation being added or removed, on both related objects. The
+ * other side's name is resolved when the timeline is read, for the reader.
+ */
+export async function trackRelationChange(
+  ctx: AuthContext,
+  eventType: "relation_added" | "relation_removed",
+  relation: RelationRef
+): Promise<void> {
+  const sides = [
+    { objectId: relation.from_object_id, relatedId: relation.to_object_id, direction: "to" },
+    { objectId: relation.to_object_id, relatedId: relation.from_object_id, direction: "from" },
+  ];
+
+  await recordEvents(
+    ctx,
+    sides.map((side) => ({
+      objectId: side.objectId,
+      eventType,
+      title: eventType === "relation_added" ? "Relation added" : "Relation removed",
+      description: `Relation: ${relation.relation_type}`,
+      metadata: {
+        relationId: relation.id,
+        relationType: relation.relation_type,
+        direction: side.direction,
+        relatedObjectId: side.relatedId,
+      },
+    }))
+  );
+}
+
 /**
  * Add a note to an object's timeline.
  */
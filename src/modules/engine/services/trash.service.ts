@@ -0,0 +1,271 @@
+/**
+ * OMP Engine — Trash Service
+ *
+ * deleteObject only moves an object to the trash (objects.deleted_at).
+ * Trashed objects keep their modules, relations and shares, so restoring
+ * one brings all of it back. Objects that stay in the trash longer than
+ * TRASH_RETENTION_DAYS are purged for good by purgeExpiredTrash, which
+ * lets the usual cascades remove their modules and relations.
+ */
+
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { AuthContext } from "@/lib/permissions/rbac";
+import { getModulePermission } from "@/lib/permissions/rbac";
+import { AppError } from "@/lib/utils/errors";
+import { auditLog } from "@/lib/audit/logger";
+import type { TrashedObject, TrashPurgeSummary, TrashQueryParams } from "../types/trash.types";
+import { buildDisplayName } from "./object.service";
+import { getRelatedObjectIds, refreshRollups } from "./rollup.service";
+import { assertInScope, requireRecordScope, scopeFilter } from "./sharing.service";
+import { getHiddenFieldKeys } from "./field-permission.service";
+
+/** Days an object stays in the trash before it is purged */
+const DEFAULT_RETENTION_DAYS = 30;
+/** Most trashed objects listed at once */
+const MAX_TRASH_ITEMS = 500;
+/** Objects hard-deleted per statement during a purge */
+const PURGE_BATCH_SIZE = 200;
+/** IDs per `in` filter, to keep request URLs short */
+const ID_CHUNK_SIZE = 200;
+
+type TrashedRow = {
+  id: string;
+  object_type_id: string;
+  owner_id: string | null;
+  created_by: string;
+  deleted_at: string | null;
+};
+
+// ── Helpers ──────────────────────────────────
+
+/**
+ * Days an object stays in the trash, from TRASH_RETENTION_DAYS.
+ */
+export function getTrashRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+function purgeDate(deletedAt: string, retentionDays: number): string {
+  return new Date(new Date(deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Load a trashed object the user may restore or purge.
+ */
+async function loadTrashedObject(ctx: AuthContext, objectId: string) {
+  const scope = await requireRecordScope(ctx, "delete");
+  const admin = createAdminClient();
+
+  const { data: obj } = await admin
+    .from("objects")
+    .select("*, object_types(name)")
+    .eq("id", objectId)
+    .not("deleted_at", "is", null)
+    .single();
+
+  if (!obj) throw new AppError("NOT_FOUND", "Object not found in the trash");
+
+  assertInScope(scope, obj);
+  const typeName =
+    (obj as unknown as { object_types: { name: string } | null }).object_types?.name ?? "unknown";
+  return { obj, typeName };
+}
+
+/**
+ * Display names of objects, built from the modules and fields the user
+ * can read. Works for trashed objects too.
+ */
+export async function loadDisplayNames(
+  ctx: AuthContext,
+  objects: Pick<TrashedRow, "id" | "object_type_id">[]
+): Promise<Map<string, string>> {
+  const admin = createAdminClient();
+  const typeById = new Map(objects.map((o) => [o.id, o.object_type_id]));
+  const modulesByObject = new Map<string, { moduleName: string; data: Record<string, unknown> }[]>();
+
+  const ids = objects.map((o) => o.id);
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    const { data } = await admin
+      .from("object_modules")
+      .select("object_id, module_id, data, modules(name)")
+      .in("object_id", ids.slice(i, i + ID_CHUNK_SIZE));
+
+    for (const om of data ?? []) {
+      const typeId = typeById.get(om.object_id)!;
+      if (!getModulePermission(ctx, om.module_id, typeId).canRead) continue;
+
+      const hidden = getHiddenFieldKeys(ctx, om.module_id, typeId);
+      const list = modulesByObject.get(om.object_id) ?? [];
+      list.push({
+        moduleName: (om as unknown as { modules: { name: string } | null }).modules?.name ?? "",
+        data: Object.fromEntries(
+          Object.entries((om.data ?? {}) as Record<string, unknown>).filter(
+            ([key]) => !hidden.has(key)
+          )
+        ),
+      });
+      modulesByObject.set(om.object_id, list);
+    }
+  }
+
+  return new Map(ids.map((id) => [id, buildDisplayName(modulesByObject.get(id) ?? [])]));
+}
+
+// ── Service Methods ──────────────────────────
+
+/**
+ * Trashed objects the user could have deleted, most recently deleted first.
+ */
+export async function getTrash(
+  ctx: AuthContext,
+  params: TrashQueryParams = {}
+): Promise<TrashedObject[]> {
+  const scope = await requireRecordScope(ctx, "delete");
+  const admin = createAdminClient();
+
+  let query = admin
+    .from("objects")
+    .select(
+      "id, object_type_id, owner_id, created_by, deleted_at, deleted_by, object_types(id, name, display_name, icon, color)"
+    )
+    .not("deleted_at", "is", null)
+    .order("deleted_at", { ascending: false })
+    .limit(MAX_TRASH_ITEMS);
+
+  if (params.objectType) {
+    const { data: typeRow } = await admin
+      .from("object_types")
+      .select("id")
+      .eq("name", params.objectType)
+      .single();
+    if (!typeRow) return [];
+    query = query.eq("object_type_id", typeRow.id);
+  }
+
+  if (!scope.all) query = query.or(scopeFilter(scope));
+
+  const { data: objects, error } = await query;
+  if (error) throw new AppError("DB_ERROR", error.message);
+  if (!objects || objects.length === 0) return [];
+
+  const displayNames = await loadDisplayNames(ctx, objects);
+
+  const deleterIds = [
+    ...new Set(objects.map((o) => o.deleted_by).filter((id): id is string => !!id)),
+  ];
+  const { data: deleters } =
+    deleterIds.length > 0
+      ? await admin.from("profiles").select("id, full_name").in("id", deleterIds)
+      : { data: [] };
+  const deleterNames = new Map((deleters ?? []).map((p) => [p.id, p.full_name]));
+
+  const retentionDays = getTrashRetentionDays();
+  return objects.map((o) => {
+    const type = (
+      o as unknown as {
+        object_types: {
+          id: string;
+          name: string;
+          display_name: string;
+          icon: string | null;
+          color: string | null;
+        } | null;
+      }
+    ).object_types;
+    const deletedAt = o.deleted_at!;
+
+    return {
+      id: o.id,
+      displayName: displayNames.get(o.id) ?? "Unnamed Object",
+      objectType: {
+        id: o.object_type_id,
+        name: type?.name ?? "unknown",
+        displayName: type?.display_name ?? "Unknown",
+        icon: type?.icon ?? "Box",
+        color: type?.color ?? "#6B7280",
+      },
+      deletedAt,
+      deletedBy: o.deleted_by ? (deleterNames.get(o.deleted_by) ?? null) : null,
+      purgeAt: purgeDate(deletedAt, retentionDays),
+    };
+  });
+}
+
+/**
+ * Take an object out of the trash. Its modules, relations and shares were
+ * kept, so only the rollups that count it need recomputing.
+ */
+export async function restoreObject(ctx: AuthContext, objectId: string): Promise<void> {
+  const { obj, typeName } = await loadTrashedObject(ctx, objectId);
+  const admin = createAdminClient();
+
+  const { error } = await admin
+    .from("objects")
+    .update({ deleted_at: null, deleted_by: null })
+    .eq("id", objectId);
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  // Related objects moved on while this one was trashed, so refresh both ends
+  const relatedIds = await getRelatedObjectIds(objectId);
+  await refreshRollups([objectId, ...relatedIds]);
+
+  await auditLog(ctx, {
+    action: "object:restore",
+    category: "data",
+    entityType: typeName,
+    entityId: objectId,
+    oldValues: { deleted_at: obj.deleted_at, deleted_by: obj.deleted_by },
+  });
+}
+
+/**
+ * Delete a trashed object for good, before its retention period is over.
+ */
+export async function purgeObject(ctx: AuthContext, objectId: string): Promise<void> {
+  const { obj, typeName } = await loadTrashedObject(ctx, objectId);
+  const admin = createAdminClient();
+
+  const { error } = await admin.from("objects").delete().eq("id", objectId);
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  await auditLog(ctx, {
+    action: "object:purge",
+    category: "data",
+    entityType: typeName,
+    entityId: objectId,
+    oldValues: obj as unknown as Record<string, unknown>,
+  });
+}
+
+/**
+ * Delete every object that has been in the trash longer than the
+ * retention period. Runs from the scheduler, so no user session is needed.
+ */
+export async function purgeExpiredTrash(): Promise<TrashPurgeSummary> {
+  const admin = createAdminClient();
+  const retentionDays = getTrashRetentionDays();
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+  let purged = 0;
+  while (true) {
+    const { data, error } = await admin
+      .from("objects")
+      .select("id")
+      .lt("deleted_at", cutoff)
+      .limit(PURGE_BATCH_SIZE);
+    if (error) throw new AppError("DB_ERROR", error.message);
+
+    const ids = (data ?? []).map((o) => o.id);
+    if (ids.length === 0) break;
+
+    const { error: deleteError } = await admin.from("objects").delete().in("id", ids);
+    if (deleteError) throw new AppError("DB_ERROR", deleteError.message);
+
+    purged += ids.length;
+    if (ids.length < PURGE_BATCH_SIZE) break;
+  }
+
+  return { purged, retentionDays, cutoff };
+}
@@ -0,0 +1,566 @@
+/**
+ * OMP Engine — View Query Compiler
+ *
+ * Compiles object filters and sorts — including the ones saved on views —
+ * into the spec that query_objects() (migrations 019–020) runs as a single
+ * statement: module names resolve to module IDs, field types pick numeric,
+ * boolean or text comparisons, and `contains` / `starts_with` become ILIKE
+ * patterns. Filters are a tree of AND/OR groups; relative dates and the
+ * current-user placeholder are resolved here, so the database only sees
+ * concrete values. Pages come by offset or, for stable paging over large
+ * views, by an opaque keyset cursor taken from the last row of the
+ * previous page. Grouped tables get their per-group counts and numeric
+ * aggregates from query_object_groups() (migration 023) over the same
+ * filters, independent of the page loaded.
+ */
+
+import { createAdminClient } from "@/lib/supabase/admin";
+import { AppError } from "@/lib/utils/errors";
+import type { Json } from "@/lib/supabase/database.types";
+import type {
+  FieldAggregates,
+  FilterValue,
+  ObjectFieldRef,
+  ObjectFilter,
+  ObjectFilterNode,
+  ObjectGroups,
+  ObjectSort,
+} from "../types/object.types";
+import type { RecordScope } from "../types/sharing.types";
+import { parseModuleSchema } from "../types/module.types";
+import {
+  CURRENT_USER,
+  RECORD_MODULE,
+  RecordFields,
+  isFilterGroup,
+  type ViewFilterNode,
+} from "../types/view-filter.types";
+import type { ViewFieldRef } from "../types/view-layout.types";
+import type { ViewSort } from "./view.service";
+
+// ── Types ────────────────────────────────────
+
+type FieldKind = "text" | "number" | "boolean" | "timestamp";
+
+type CompiledOp =
+  | "eq"
+  | "neq"
+  | "gt"
+  | "lt"
+  | "gte"
+  | "lte"
+  | "ilike"
+  | "in"
+  | "empty"
+  | "not_empty";
+
+interface CompiledFilter {
+  /** null: a column of `objects` */
+  moduleId: string | null;
+  key: string;
+  kind: FieldKind;
+  op: CompiledOp;
+  value: Json;
+}
+
+interface CompiledGroup {
+  conjunction: "and" | "or";
+  conditions: CompiledNode[];
+}
+
+type CompiledNode = CompiledFilter | CompiledGroup;
+
+interface CompiledSort {
+  /** null: a column of `objects` */
+  moduleId: string | null;
+  key: string;
+  kind: FieldKind;
+  direction: "asc" | "desc";
+}
+
+export interface CompiledQuery {
+  /** ANDed at the top level */
+  filters: CompiledNode[];
+  sorts: CompiledSort[];
+}
+
+interface CompiledField {
+  /** null: a column of `objects` */
+  moduleId: string | null;
+  key: string;
+  kind: FieldKind;
+}
+
+export interface CompiledGroupQuery {
+  filters: CompiledNode[];
+  group: CompiledField | null;
+  /** Numeric fields, keyed "moduleName.fieldKey" */
+  aggregates: (CompiledField & { ref: string })[];
+}
+
+export interface ObjectQueryPage {
+  ids: string[];
+  total: number;
+  nextCursor: string | null;
+}
+
+type ModuleDef = { id: string; name: string; schema: Json };
+
+/** Order when no sort is given: newest first */
+const DEFAULT_SORT: CompiledSort = {
+  moduleId: null,
+  key: "created_at",
+  kind: "timestamp",
+  direction: "desc",
+};
+
+/** Record columns that hold timestamps; the others hold user IDs */
+const RECORD_TIMESTAMPS = new Set(["created_at", "updated_at"]);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ── Helpers ──────────────────────────────────
+
+function fieldKind(def: ModuleDef, fieldKey: string): FieldKind {
+  const field = parseModuleSchema(def.schema).fields.find((f) => f.key === fieldKey);
+  if (field?.type === "number") return "number";
+  if (field?.type === "boolean") return "boolean";
+  return "text";
+}
+
+function escapeLike(term: string): string {
+  return term.replace(/[%_\\]/g, "\\$&");
+}
+
+function listValue(value: FilterValue): string[] {
+  const items = Array.isArray(value) ? value : String(value ?? "").split(",");
+  return items.map((v) => String(v).trim()).filter((v) => v !== "");
+}
+
+/** Kind of a record column, for a comparison against `value` */
+function recordKind(key: string, value: string): FieldKind {
+  return RECORD_TIMESTAMPS.has(key) && !Number.isNaN(Date.parse(value)) ? "timestamp" : "text";
+}
+
+/**
+ * Compile one filter on a module field, or on a record column when `def`
+ * is null. Values that don't fit a numeric, boolean or timestamp field
+ * compare as text.
+ */
+function compileFilter(def: ModuleDef | null, filter: ObjectFilter): CompiledFilter {
+  const base = { moduleId: def?.id ?? null, key: filter.fieldKey };
+  const text = String(filter.value ?? "");
+
+  switch (filter.operator) {
+    case "is_empty":
+      return { ...base, kind: "text", op: "empty", value: null };
+    case "is_not_empty":
+      return { ...base, kind: "text", op: "not_empty", value: null };
+    case "contains":
+      return { ...base, kind: "text", op: "ilike", value: `%${escapeLike(text)}%` };
+    case "starts_with":
+      return { ...base, kind: "text", op: "ilike", value: `${escapeLike(text)}%` };
+    case "in":
+      return { ...base, kind: "text", op: "in", value: listValue(filter.value) };
+    case "eq":
+    case "neq":
+    case "gt":
+    case "lt":
+    case "gte":
+    case "lte": {
+      if (!def) {
+        return { ...base, kind: recordKind(filter.fieldKey, text), op: filter.operator, value: text };
+      }
+      let kind = fieldKind(def, filter.fieldKey);
+      if (kind === "number" && (text.trim() === "" || Number.isNaN(Number(text)))) kind = "text";
+      if (kind === "boolean" && text !== "true" && text !== "false") kind = "text";
+      return { ...base, kind, op: filter.operator, value: text };
+    }
+    default:
+      // Relative dates are resolved before compiling
+      throw new AppError("VALIDATION", `Unresolved filter operator: ${filter.operator}`);
+  }
+}
+
+/** Compile a filter tree; conditions on unknown modules or columns are dropped */
+function compileNode(
+  byName: Map<string, ModuleDef>,
+  node: ObjectFilterNode
+): CompiledNode | null {
+  if (isFilterGroup(node)) {
+    const conditions = node.conditions
+      .map((child) => compileNode(byName, child))
+      .filter((child): child is CompiledNode => child !== null);
+    if (conditions.length === 0) return null;
+    return { conjunction: node.conjunction === "or" ? "or" : "and", conditions };
+  }
+  if (node.moduleName === RECORD_MODULE) {
+    return RecordFields.some((f) => f.key === node.fieldKey) ? compileFilter(null, node) : null;
+  }
+  const def = byName.get(node.moduleName);
+  return def ? compileFilter(def, node) : null;
+}
+
+/** Start of the given UTC day, shifted by `days` */
+function utcDay(now: Date, days = 0): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + days));
+}
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** [start, end) of a relative date operator, as UTC days */
+function relativeRange(filter: ObjectFilter, now: Date): [Date, Date] | null {
+  const days = Math.max(0, Math.floor(Number(filter.value) || 0));
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+
+  switch (filter.operator) {
+    case "today":
+      return [utcDay(now), utcDay(now, 1)];
+    case "in_last_days":
+      return [utcDay(now, -days), utcDay(now, 1)];
+    case "in_next_days":
+      return [utcDay(now), utcDay(now, days + 1)];
+    case "this_week": {
+      // Weeks start on Monday
+      const start = utcDay(now, -((now.getUTCDay() + 6) % 7));
+      return [start, new Date(start.getTime() + 7 * DAY_MS)];
+    }
+    case "this_month":
+      return [new Date(Date.UTC(year, month, 1)), new Date(Date.UTC(year, month + 1, 1))];
+    case "this_quarter": {
+      const first = month - (month % 3);
+      return [new Date(Date.UTC(year, first, 1)), new Date(Date.UTC(year, first + 3, 1))];
+    }
+    case "this_year":
+      return [new Date(Date.UTC(year, 0, 1)), new Date(Date.UTC(year + 1, 0, 1))];
+    default:
+      return null;
+  }
+}
+
+function resolveValue(value: FilterValue, userId: string): FilterValue {
+  if (Array.isArray(value)) return value.map((v) => (v === CURRENT_USER ? userId : v));
+  return value === CURRENT_USER ? userId : value;
+}
+
+function encodeCursor(values: Json): string {
+  return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+function decodeCursor(cursor: string, sortCount: number): Json[] {
+  try {
+    const values = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    // Sort values, then the row's id
+    if (Array.isArray(values) && values.length === sortCount + 1) return values;
+  } catch {
+    /* fall through */
+  }
+  throw new AppError("VALIDATION", "Invalid page cursor");
+}
+
+/** Compile a field reference, or null for unknown modules and columns */
+function compileField(byName: Map<string, ModuleDef>, ref: ObjectFieldRef): CompiledField | null {
+  if (ref.moduleName === RECORD_MODULE) {
+    if (!RecordFields.some((f) => f.key === ref.fieldKey)) return null;
+    return {
+      moduleId: null,
+      key: ref.fieldKey,
+      kind: RECORD_TIMESTAMPS.has(ref.fieldKey) ? "timestamp" : "text",
+    };
+  }
+  const def = byName.get(ref.moduleName);
+  return def ? { moduleId: def.id, key: ref.fieldKey, kind: fieldKind(def, ref.fieldKey) } : null;
+}
+
+function compileFilters(byName: Map<string, ModuleDef>, filters: ObjectFilterNode[]): CompiledNode[] {
+  const compiled: CompiledNode[] = [];
+  for (const filter of filters) {
+    const node = compileNode(byName, filter);
+    if (node) compiled.push(node);
+  }
+  return compiled;
+}
+
+function moduleMap(moduleDefs: Iterable<ModuleDef>): Map<string, ModuleDef> {
+  const byName = new Map<string, ModuleDef>();
+  for (const def of moduleDefs) byName.set(def.name, def);
+  return byName;
+}
+
+// ── Compiler ─────────────────────────────────
+
+/**
+ * Map saved view filters to object filters.
+ */
+export function viewFiltersToObjectFilters(filters: ViewFilterNode[]): ObjectFilterNode[] {
+  return filters.map((f) =>
+    isFilterGroup(f)
+      ? { conjunction: f.conjunction, conditions: viewFiltersToObjectFilters(f.conditions) }
+      : {
+          moduleName: f.module,
+          fieldKey: f.field,
+          operator: f.operator,
+          value: (f.value ?? null) as FilterValue,
+        }
+  );
+}
+
+/**
+ * Map saved view sorts to object sorts.
+ */
+export function viewSortsToObjectSorts(sorts: ViewSort[]): ObjectSort[] {
+  return sorts.map((s) => ({ moduleName: s.module, fieldKey: s.field, direction: s.direction }));
+}
+
+/**
+ * Records a date layout shows for a range of days: those starting in it
+ * or, given an end field, overlapping it (a record without an end lasts
+ * its start day).
+ */
+export function dateRangeFilter(
+  startField: ViewFieldRef,
+  endField: ViewFieldRef | null,
+  range: { start: string; end: string }
+): ObjectFilterNode {
+  const start = { moduleName: startField.module, fieldKey: startField.field };
+  const startsBefore: ObjectFilter = { ...start, operator: "lt", value: range.end };
+  const startsIn: ObjectFilterNode = {
+    conjunction: "and",
+    conditions: [{ ...start, operator: "gte", value: range.start }, startsBefore],
+  };
+  if (!endField) return startsIn;
+
+  const end = { moduleName: endField.module, fieldKey: endField.field };
+  return {
+    conjunction: "and",
+    conditions: [
+      startsBefore,
+      {
+        conjunction: "or",
+        conditions: [
+          { ...end, operator: "gte", value: range.start },
+          {
+            conjunction: "and",
+            conditions: [
+              { ...end, operator: "is_empty", value: null },
+              { ...start, operator: "gte", value: range.start },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Resolve what depends on who queries and when: the current-user
+ * placeholder becomes the user's ID, and relative date operators become
+ * a range of UTC days (`gte` start AND `lt` end).
+ */
+export function resolveFilterNodes(
+  nodes: ObjectFilterNode[],
+  context: { userId: string; now?: Date }
+): ObjectFilterNode[] {
+  const now = context.now ?? new Date();
+  return nodes.map((node): ObjectFilterNode => {
+    if (isFilterGroup(node)) {
+      return { ...node, conditions: resolveFilterNodes(node.conditions, context) };
+    }
+    const range = relativeRange(node, now);
+    if (range) {
+      return {
+        conjunction: "and",
+        conditions: [
+          { ...node, operator: "gte", value: isoDay(range[0]) },
+          { ...node, operator: "lt", value: isoDay(range[1]) },
+        ],
+      };
+    }
+    const value =
+      node.operator === "in" && typeof node.value === "string"
+        ? listValue(node.value)
+        : node.value;
+    return { ...node, value: resolveValue(value, context.userId) };
+  });
+}
+
+/**
+ * Drop the conditions `keep` rejects, and groups left empty.
+ */
+export function pruneFilterNodes(
+  nodes: ObjectFilterNode[],
+  keep: (filter: ObjectFilter) => boolean
+): ObjectFilterNode[] {
+  const result: ObjectFilterNode[] = [];
+  for (const node of nodes) {
+    if (!isFilterGroup(node)) {
+      if (keep(node)) result.push(node);
+      continue;
+    }
+    const conditions = pruneFilterNodes(node.conditions, keep);
+    if (conditions.length > 0) result.push({ ...node, conditions });
+  }
+  return result;
+}
+
+/**
+ * Whether any condition in the tree satisfies `predicate`.
+ */
+export function someFilterLeaf(
+  node: ObjectFilterNode,
+  predicate: (filter: ObjectFilter) => boolean
+): boolean {
+  return isFilterGroup(node)
+    ? node.conditions.some((child) => someFilterLeaf(child, predicate))
+    : predicate(node);
+}
+
+/**
+ * Compile filters and sorts on stored module data and record columns
+ * (RECORD_MODULE). Filters must be resolved (see resolveFilterNodes).
+ * Conditions and sorts on unknown modules are dropped; the caller handles
+ * computed fields (formulas, rollups) and field permissions.
+ */
+export function compileObjectQuery(
+  moduleDefs: Iterable<ModuleDef>,
+  filters: ObjectFilterNode[],
+  sorts: ObjectSort[]
+): CompiledQuery {
+  const byName = moduleMap(moduleDefs);
+
+  const compiledSorts: CompiledSort[] = [];
+  for (const sort of sorts) {
+    const field = compileField(byName, sort);
+    if (field) compiledSorts.push({ ...field, direction: sort.direction === "asc" ? "asc" : "desc" });
+  }
+
+  return {
+    filters: compileFilters(byName, filters),
+    sorts: compiledSorts.length > 0 ? compiledSorts : [DEFAULT_SORT],
+  };
+}
+
+/**
+ * Compile the filters, group field and aggregated fields of a grouped
+ * query. Only number fields are aggregated; other fields and unknown
+ * modules are dropped, as in compileObjectQuery.
+ */
+export function compileGroupQuery(
+  moduleDefs: Iterable<ModuleDef>,
+  filters: ObjectFilterNode[],
+  groupBy: ObjectFieldRef | null,
+  aggregates: ObjectFieldRef[]
+): CompiledGroupQuery {
+  const byName = moduleMap(moduleDefs);
+
+  const compiledAggregates: CompiledGroupQuery["aggregates"] = [];
+  for (const ref of aggregates) {
+    const field = compileField(byName, ref);
+    if (field?.moduleId && field.kind === "number") {
+      compiledAggregates.push({ ...field, ref: `${ref.moduleName}.${ref.fieldKey}` });
+    }
+  }
+
+  return {
+    filters: compileFilters(byName, filters),
+    group: groupBy ? compileField(byName, groupBy) : null,
+    aggregates: compiledAggregates,
+  };
+}
+
+// ── Execution ────────────────────────────────
+
+/**
+ * Run a compiled query: one page of live object IDs in order, the total
+ * matching, and a cursor for the next page. `ids` restricts the query to
+ * those objects; `cursor` takes precedence over `offset`.
+ */
+export async function runObjectQuery(
+  scope: RecordScope,
+  query: CompiledQuery,
+  options: {
+    objectTypeId?: string | null;
+    ids?: string[];
+    cursor?: string;
+    offset?: number;
+    limit: number;
+  }
+): Promise<ObjectQueryPage> {
+  const admin = createAdminClient();
+  const after = options.cursor ? decodeCursor(options.cursor, query.sorts.length) : null;
+
+  // One extra row tells whether another page follows
+  const { data, error } = await admin.rpc("query_objects", {
+    p_object_type_id: options.objectTypeId ?? null,
+    p_filters: query.filters as unknown as Json,
+    p_sorts: query.sorts as unknown as Json,
+    p_scope_user_ids: scope.all ? null : scope.userIds,
+    p_scope_object_ids: scope.all ? [] : scope.objectIds,
+    p_ids: options.ids ?? null,
+    p_after: after,
+    p_offset: after ? 0 : options.offset ?? 0,
+    p_limit: options.limit + 1,
+  });
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  const result = data as unknown as { total: number; rows: { id: string; sort: Json }[] };
+  const page = result.rows.slice(0, options.limit);
+  const last = page[page.length - 1];
+
+  return {
+    ids: page.map((r) => r.id),
+    total: result.total,
+    nextCursor: result.rows.length > options.limit && last ? encodeCursor(last.sort) : null,
+  };
+}
+
+/**
+ * Run a compiled group query: counts and aggregates per group value and
+ * over every matching record.
+ */
+export async function runObjectGroups(
+  scope: RecordScope,
+  query: CompiledGroupQuery,
+  options: { objectTypeId?: string | null; groupLimit?: number } = {}
+): Promise<ObjectGroups> {
+  const admin = createAdminClient();
+
+  const { data, error } = await admin.rpc("query_object_groups", {
+    p_object_type_id: options.objectTypeId ?? null,
+    p_filters: query.filters as unknown as Json,
+    p_group: query.group as unknown as Json,
+    p_aggregates: query.aggregates.map(({ moduleId, key }) => ({ moduleId, key })),
+    p_scope_user_ids: scope.all ? null : scope.userIds,
+    p_scope_object_ids: scope.all ? [] : scope.objectIds,
+    p_group_limit: options.groupLimit ?? 200,
+  });
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  type Bucket = { value?: string | null; count: number; aggregates: Record<string, unknown>[] };
+  const result = data as unknown as { groups: Bucket[]; total: Bucket };
+
+  // Aggregates come back by position; key them by field
+  const keyed = (values: Record<string, unknown>[]) => {
+    const out: Record<string, FieldAggregates> = {};
+    query.aggregates.forEach((agg, i) => {
+      const num = (v: unknown) => (v == null ? null : Number(v));
+      const a = values[i] ?? {};
+      out[agg.ref] = { sum: num(a.sum), avg: num(a.avg), min: num(a.min), max: num(a.max) };
+    });
+    return out;
+  };
+
+  return {
+    groups: result.groups.map((g) => ({
+      value: g.value ?? null,
+      count: Number(g.count),
+      aggregates: keyed(g.aggregates),
+    })),
+    total: { count: Number(result.total.count), aggregates: keyed(result.total.aggregates) },
+  };
+}
@@ -2,21 +2,23 @@
  * OMP Engine — View Service
  *
  * CRUD for saved view configurations per object type.
- * Views store layout type, filters, sorts, and visible fields.
+ * Views store layout type and settings, filters, sorts, and visible fields.
  */
 
 import { createAdminClient } from "@/lib/supabase/admin";
+import type { Database } from "@/lib/supabase/database.types";
 import type { AuthContext } from "@/lib/permissions/rbac";
 import { AppError } from "@/lib/utils/errors";
+import type { ViewFilterNode } from "../types/view-filter.types";
+import type { ViewLayoutConfig, ViewLayoutType } from "../types/view-layout.types";
 
-// ── Types ────────────────────────────────────
+export type {
+  ViewFilter,
+  ViewFilterGroup,
+  ViewFilterNode,
+} from "../types/view-filter.types";
 
-export interface ViewFilter {
-  module: string;
-  field: string;
-  operator: "eq" | "neq" | "contains" | "gt" | "lt" | "gte" | "lte" | "is_empty" | "is_not_empty" | "in";
-  value: unknown;
-}
+// ── Types ────────────────────────────────────
 
 export interface ViewSort {
   module: string;
@@ -36,10 +38,12 @@ export interface View {
   objectTypeId: string;
   name: string;
   icon: string;
-  layoutType: "table" | "kanban";
+  layoutType: ViewLayoutType;
+  layoutConfig: ViewLayoutConfig;
   kanbanFieldKey: string | null;
   kanbanModuleName: string | null;
-  filters: ViewFilter[];
+  /** Conditions and groups, ANDed at the top level */
+  filters: ViewFilterNode[];
   sorts: ViewSort[];
   visibleFields: ViewFieldConfig[];
   groupByField: string | null;
@@ -55,10 +59,11 @@ export interface ViewCreateInput {
   objectTypeId: string;
   name: string;
   icon?: string;
-  layoutType?: "table" | "kanban";
+  layoutType?: ViewLayoutType;
+  layoutConfig?: ViewLayoutConfig;
   kanbanFieldKey?: string;
   kanbanModuleName?: string;
-  filters?: ViewFilter[];
+  filters?: ViewFilterNode[];
   sorts?: ViewSort[];
   visibleFields?: ViewFieldConfig[];
   groupByField?: string;
@@ -69,10 +74,11 @@ export interface ViewCreateInput {
 export interface ViewUpdateInput {
   name?: string;
   icon?: string;
-  layoutType?: "table" | "kanban";
+  layoutType?: ViewLayoutType;
+  layoutConfig?: ViewLayoutConfig;
   kanbanFieldKey?: string | null;
   kanbanModuleName?: string | null;
-  filters?: ViewFilter[];
+  filters?: ViewFilterNode[];
   sorts?: ViewSort[];
   visibleFields?: ViewFieldConfig[];
   groupByField?: string | null;
@@ -80,24 +86,27 @@ export interface ViewUpdateInput {
   visibility?: "workspace" | "unlisted";
 }
 
+type ViewRow = Database["public"]["Tables"]["views"]["Row"];
+
 // ── Helpers ──────────────────────────────────
 
-function mapRow(row: any): View {
+function mapRow(row: ViewRow): View {
   return {
     id: row.id,
     objectTypeId: row.object_type_id,
     name: row.name,
     icon: row.icon ?? "List",
-    layoutType: row.layout_type,
+    layoutType: row.layout_type as ViewLayoutType,
+    layoutConfig: (row.layout_config ?? {}) as ViewLayoutConfig,
     kanbanFieldKey: row.kanban_field_key,
     kanbanModuleName: row.kanban_module_name,
-    filters: (row.filters ?? []) as ViewFilter[],
-    sorts: (row.sorts ?? []) as ViewSort[],
-    visibleFields: (row.visible_fields ?? []) as ViewFieldConfig[],
+    filters: (row.filters ?? []) as unknown as ViewFilterNode[],
+    sorts: (row.sorts ?? []) as unknown as ViewSort[],
+    visibleFields: (row.visible_fields ?? []) as unknown as ViewFieldConfig[],
     groupByField: row.group_by_field,
     groupByModule: row.group_by_module,
     isDefault: row.is_default,
-    visibility: row.visibility,
+    visibility: row.visibility as View["visibility"],
     createdBy: row.created_by,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
@@ -143,6 +152,28 @@ export async function getView(viewId: string): Promise<View | null> {
   return mapRow(data);
 }
 
+/**
+ * Find views visible to the user whose name contains `term`.
+ */
+export async function searchViews(
+  ctx: AuthContext,
+  term: string,
+  limit = 10
+): Promise<View[]> {
+  const admin = createAdminClient();
+
+  const { data, error } = await admin
+    .from("views")
+    .select("*")
+    .ilike("name", `%${term.replace(/[%_\\]/g, "\\$&")}%`)
+    .or(`visibility.eq.workspace,created_by.eq.${ctx.userId}`)
+    .order("name", { ascending: true })
+    .limit(limit);
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+  return (data ?? []).map(mapRow);
+}
+
 /**
  * Create a new view.
  */
@@ -159,6 +190,7 @@ export async function createView(
       name: input.name,
       icon: input.icon ?? "List",
       layout_type: input.layoutType ?? "table",
+      layout_config: input.layoutConfig ?? {},
       kanban_field_key: input.kanbanFieldKey ?? null,
       kanban_module_name: input.kanbanModuleName ?? null,
       filters: (input.filters ?? []) as any,
@@ -190,6 +222,7 @@ export async function updateView(
   if (input.name !== undefined) updateData.name = input.name;
   if (input.icon !== undefined) updateData.icon = input.icon;
   if (input.layoutType !== undefined) updateData.layout_type = input.layoutType;
+  if (input.layoutConfig !== undefined) updateData.layout_config = input.layoutConfig;
   if (input.kanbanFieldKey !== undefined) updateData.kanban_field_key = input.kanbanFieldKey;
   if (input.kanbanModuleName !== undefined) updateData.kanban_module_name = input.kanbanModuleName;
   if (input.filters !== undefined) updateData.filters = input.filters as any;
@@ -0,0 +1,294 @@
+/**
+ * OMP Engine — Workflow Service
+ *
+ * CRUD for per-object-type stage workflows, plus the transition checks the
+ * object service runs whenever a workflow's stage field changes.
+ */
+
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { AuthContext } from "@/lib/permissions/rbac";
+import { requirePermission } from "@/lib/permissions/rbac";
+import { Actions } from "@/lib/permissions/actions";
+import { AppError } from "@/lib/utils/errors";
+import { auditLog } from "@/lib/audit/logger";
+import type { Json } from "@/lib/supabase/database.types";
+import type {
+  Workflow,
+  WorkflowRow,
+  WorkflowSaveInput,
+  WorkflowState,
+  WorkflowTransition,
+} from "../types/workflow.types";
+import { workflowSaveSchema } from "../schemas/workflow.schema";
+
+// ── Helpers ──────────────────────────────────
+
+function mapRow(row: WorkflowRow): Workflow {
+  return {
+    id: row.id,
+    objectTypeId: row.object_type_id,
+    moduleName: row.module_name,
+    fieldKey: row.field_key,
+    states: (row.states ?? []) as unknown as WorkflowState[],
+    transitions: (row.transitions ?? []) as unknown as WorkflowTransition[],
+    isActive: row.is_active,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Semantic checks on a workflow definition that the Zod schema can't express.
+ */
+function assertValidDefinition(input: WorkflowSaveInput): void {
+  const values = new Set<string>();
+  for (const state of input.states) {
+    if (values.has(state.value)) {
+      throw new AppError("VALIDATION", `Duplicate state '${state.value}'`);
+    }
+    values.add(state.value);
+  }
+
+  const terminal = new Set(input.states.filter((s) => s.isTerminal).map((s) => s.value));
+  const seen = new Set<string>();
+  for (const t of input.transitions) {
+    if (!values.has(t.from) || !values.has(t.to)) {
+      throw new AppError(
+        "VALIDATION",
+        `Transition '${t.from}' → '${t.to}' references an unknown state`
+      );
+    }
+    if (t.from === t.to) {
+      throw new AppError("VALIDATION", `State '${t.from}' cannot transition to itself`);
+    }
+    if (terminal.has(t.from)) {
+      throw new AppError("VALIDATION", `Terminal state '${t.from}' cannot have outgoing transitions`);
+    }
+    const key = `${t.from}→${t.to}`;
+    if (seen.has(key)) {
+      throw new AppError("VALIDATION", `Duplicate transition '${t.from}' → '${t.to}'`);
+    }
+    seen.add(key);
+  }
+}
+
+// ── Transition Checks ────────────────────────
+
+/**
+ * Check whether a new object may start in the given state.
+ * Returns an error message, or null when allowed.
+ */
+export function checkWorkflowInitialState(
+  workflow: Workflow,
+  value: unknown
+): string | null {
+  if (isEmptyValue(value)) return null;
+
+  const state = workflow.states.find((s) => s.value === value);
+  if (!state) {
+    return `'${String(value)}' is not a stage in this workflow`;
+  }
+
+  const initialStates = workflow.states.filter((s) => s.isInitial);
+  if (initialStates.length > 0 && !state.isInitial) {
+    return `New records must start in: ${initialStates.map((s) => s.label).join(", ")}`;
+  }
+
+  return null;
+}
+
+/**
+ * Check whether an object may move from one state to another.
+ * `moduleData` holds the object's module data keyed by module name, with the
+ * pending update already applied, so required fields can be verified.
+ * Returns an error message, or null when allowed.
+ */
+export function checkWorkflowTransition(
+  workflow: Workflow,
+  from: unknown,
+  to: unknown,
+  moduleData: Record<string, Record<string, unknown>>
+): string | null {
+  if (from === to) return null;
+
+  if (isEmptyValue(to)) {
+    return `${workflow.moduleName}.${workflow.fieldKey} cannot be cleared`;
+  }
+
+  const target = workflow.states.find((s) => s.value === to);
+  if (!target) {
+    return `'${String(to)}' is not a stage in this workflow`;
+  }
+
+  // First assignment behaves like object creation
+  if (isEmptyValue(from)) {
+    return checkWorkflowInitialState(workflow, to);
+  }
+
+  // Records holding a value the workflow doesn't know (legacy data) may be
+  // moved into any declared state.
+  const source = workflow.states.find((s) => s.value === from);
+  if (!source) return null;
+
+  // Also covers definitions saved before terminal states were enforced
+  if (source.isTerminal) {
+    return `'${source.label}' is a terminal stage and cannot be left`;
+  }
+
+  const transition = workflow.transitions.find(
+    (t) => t.from === from && t.to === to
+  );
+  if (!transition) {
+    return `Transition from '${source.label}' to '${target.label}' is not allowed`;
+  }
+
+  const missing = (transition.requiredFields ?? []).filter(
+    (ref) => isEmptyValue(moduleData[ref.module]?.[ref.field])
+  );
+  if (missing.length > 0) {
+    return `Moving to '${target.label}' requires: ${missing
+      .map((ref) => `${ref.module}.${ref.field}`)
+      .join(", ")}`;
+  }
+
+  return null;
+}
+
+// ── Service Methods ──────────────────────────
+
+/**
+ * Get all workflow definitions. Like getActiveWorkflow this needs no
+ * permission: stage fields show their workflow to every reader.
+ */
+export async function getWorkflows(): Promise<Workflow[]> {
+  const admin = createAdminClient();
+
+  const { data, error } = await admin
+    .from("object_type_workflows")
+    .select("*")
+    .order("created_at", { ascending: true });
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+  return (data ?? []).map(mapRow);
+}
+
+/**
+ * Get the active workflow for an object type, if one is configured.
+ */
+export async function getActiveWorkflow(
+  objectTypeId: string
+): Promise<Workflow | null> {
+  const admin = createAdminClient();
+
+  const { data } = await admin
+    .from("object_type_workflows")
+    .select("*")
+    .eq("object_type_id", objectTypeId)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  return data ? mapRow(data) : null;
+}
+
+/**
+ * Create or replace the workflow for an object type.
+ */
+export async function saveWorkflow(
+  ctx: AuthContext,
+  objectTypeId: string,
+  input: WorkflowSaveInput
+): Promise<Workflow> {
+  requirePermission(ctx, Actions.OBJECT_TYPE_MANAGE);
+
+  const parsed = workflowSaveSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AppError(
+      "VALIDATION",
+      parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join(", ")
+    );
+  }
+  assertValidDefinition(parsed.data);
+
+  const admin = createAdminClient();
+
+  const { data: old } = await admin
+    .from("object_type_workflows")
+    .select("*")
+    .eq("object_type_id", objectTypeId)
+    .maybeSingle();
+
+  const { data, error } = await admin
+    .from("object_type_workflows")
+    .upsert(
+      {
+        object_type_id: objectTypeId,
+        module_name: parsed.data.moduleName,
+        field_key: parsed.data.fieldKey,
+        states: parsed.data.states as unknown as Json,
+        transitions: parsed.data.transitions as unknown as Json,
+        is_active: parsed.data.isActive ?? true,
+        created_by: old?.created_by ?? ctx.userId,
+      },
+      { onConflict: "object_type_id" }
+    )
+    .select()
+    .single();
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  await auditLog(ctx, {
+    action: "workflow:save",
+    category: "settings",
+    entityType: "object_type",
+    entityId: objectTypeId,
+    oldValues: old as unknown as Record<string, unknown> | undefined,
+    newValues: parsed.data as unknown as Record<string, unknown>,
+  });
+
+  return mapRow(data);
+}
+
+/**
+ * Remove the workflow from an object type. Stage changes become unrestricted.
+ */
+export async function deleteWorkflow(
+  ctx: AuthContext,
+  objectTypeId: string
+): Promise<void> {
+  requirePermission(ctx, Actions.OBJECT_TYPE_MANAGE);
+
+  const admin = createAdminClient();
+
+  const { data: old } = await admin
+    .from("object_type_workflows")
+    .select("*")
+    .eq("object_type_id", objectTypeId)
+    .maybeSingle();
+
+  if (!old) throw new AppError("NOT_FOUND", "Workflow not found");
+
+  const { error } = await admin
+    .from("object_type_workflows")
+    .delete()
+    .eq("object_type_id", objectTypeId);
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  await auditLog(ctx, {
+    action: "workflow:delete",
+    category: "settings",
+    entityType: "object_type",
+    entityId: objectTypeId,
+    oldValues: old as unknown as Record<string, unknown>,
+  });
+}
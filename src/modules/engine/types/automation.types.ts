@@ -0,0 +1,137 @@
+/**
+ * OMP Engine — Automation Type Definitions
+ *
+ * An automation rule belongs to an object type. It fires on a lifecycle
+ * trigger, checks conditions over the object's module data, then runs
+ * its actions in order.
+ */
+
+export type AutomationRuleRow = TableRow<"automation_rules">;
+
+// ── Triggers ─────────────────────────────────
+
+export type AutomationTriggerType =
+  | "object_created"
+  | "field_changed"
+  | "stage_entered"
+  | "relation_added";
+
+export const AutomationTriggerTypes: { value: AutomationTriggerType; label: string }[] = [
+  { value: "object_created", label: "Object created" },
+  { value: "field_changed", label: "Module field changed" },
+  { value: "stage_entered", label: "Stage entered" },
+  { value: "relation_added", label: "Relation added" },
+];
+
+export interface AutomationTrigger {
+  type: AutomationTriggerType;
+  /** field_changed: module to watch */
+  module?: string;
+  /** field_changed: field to watch (any field of the module if omitted) */
+  field?: string;
+  /** stage_entered: stage value */
+  stage?: string;
+  /** relation_added: relation type (any if omitted) */
+  relationType?: string;
+}
+
+// ── Conditions ───────────────────────────────
+
+export type AutomationConditionOperator =
+  | "eq"
+  | "neq"
+  | "gt"
+  | "lt"
+  | "gte"
+  | "lte"
+  | "contains"
+  | "is_empty"
+  | "is_not_empty";
+
+export interface AutomationCondition {
+  module: string;
+  field: string;
+  operator: AutomationConditionOperator;
+  value?: string | number | boolean;
+}
+
+// ── Actions ──────────────────────────────────
+
+export type AutomationAction =
+  | {
+      type: "set_field";
+      module: string;
+      field: string;
+      value: unknown;
+    }
+  | {
+      type: "create_related_object";
+      objectTypeId: string;
+      relationType: string;
+      /** Module data keyed by module name */
+      modules: Record<string, Record<string, unknown>>;
+    }
+  | {
+      type: "add_timeline_note";
+      note: string;
+    }
+  | {
+      type: "assign_owner";
+      ownerId: string;
+    };
+
+export type AutomationActionType = AutomationAction["type"];
+
+export const AutomationActionTypes: { value: AutomationActionType; label: string }[] = [
+  { value: "set_field", label: "Set a field" },
+  { value: "create_related_object", label: "Create a related object" },
+  { value: "add_timeline_note", label: "Add a timeline note" },
+  { value: "assign_owner", label: "Assign an owner" },
+];
+
+// ── Rules ────────────────────────────────────
+
+export interface AutomationRule {
+  id: string;
+  objectTypeId: string;
+  name: string;
+  description: string | null;
+  trigger: AutomationTrigger;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  isActive: boolean;
+  position: number;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AutomationRuleInput {
+  name: string;
+  description?: string;
+  trigger: AutomationTrigger;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  isActive?: boolean;
+  position?: number;
+}
+
+// ── Runtime Events ───────────────────────────
+
+/**
+ * A lifecycle event raised by the object/relation services.
+ */
+export interface AutomationEvent {
+  trigger: AutomationTriggerType;
+  objectId: string;
+  objectTypeId: string;
+  /** field_changed / stage_entered: module that changed */
+  module?: string;
+  /** field_changed: keys whose values changed */
+  changedFields?: string[];
+  /** stage_entered: the new stage value */
+  stage?: string;
+  /** relation_added: relation type and the object on the other end */
+  relationType?: string;
+  relatedObjectId?: string;
+}
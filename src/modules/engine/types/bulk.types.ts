@@ -0,0 +1,63 @@
+/**
+ * OMP Engine — Bulk Action Type Definitions
+ *
+ * A bulk job applies one action to a selection of objects of one type —
+ * explicit IDs, or everything matching a saved view — and reports its
+ * progress and failures as it runs.
+ */
+
+export type BulkJobRow = TableRow<"bulk_jobs">;
+
+export type BulkAction =
+  | { type: "set_field"; moduleName: string; fieldKey: string; value: unknown }
+  | { type: "change_stage"; value: string }
+  | { type: "reassign_owner"; ownerId: string | null }
+  | { type: "attach_module"; moduleId: string }
+  | { type: "detach_module"; moduleId: string }
+  | { type: "add_relation"; toObjectId: string; relationType: string }
+  | { type: "delete" };
+
+export type BulkActionType = BulkAction["type"];
+
+export const BulkActionTypes: { value: BulkActionType; label: string }[] = [
+  { value: "set_field", label: "Set field" },
+  { value: "change_stage", label: "Change stage" },
+  { value: "reassign_owner", label: "Reassign owner" },
+  { value: "attach_module", label: "Attach module" },
+  { value: "detach_module", label: "Detach module" },
+  { value: "add_relation", label: "Add relation" },
+  { value: "delete", label: "Delete" },
+];
+
+export type BulkSelection =
+  | { objectTypeId: string; ids: string[] }
+  /** Every object matching the view's filters */
+  | { objectTypeId: string; viewId: string };
+
+export interface BulkJobInput {
+  selection: BulkSelection;
+  action: BulkAction;
+}
+
+export type BulkJobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface BulkJobError {
+  objectId: string;
+  message: string;
+}
+
+export interface BulkJob {
+  id: string;
+  objectTypeId: string;
+  action: BulkAction;
+  status: BulkJobStatus;
+  total: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  /** The first failures, with the reason for each */
+  errors: BulkJobError[];
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
@@ -0,0 +1,88 @@
+/**
+ * OMP Engine — Duplicate Detection Type Definitions
+ *
+ * Duplicate rules flag pairs of objects of one type that likely describe
+ * the same record. Flagged pairs wait in a review queue until they are
+ * merged or dismissed.
+ */
+
+export type DuplicateRuleRow = TableRow<"duplicate_rules">;
+export type DuplicateCandidateRow = TableRow<"duplicate_candidates">;
+
+export type DuplicateMatch = "exact" | "email" | "phone" | "fuzzy";
+
+export const DuplicateMatches: { value: DuplicateMatch; label: string }[] = [
+  { value: "exact", label: "Exact (case-insensitive)" },
+  { value: "email", label: "Email" },
+  { value: "phone", label: "Phone (digits only)" },
+  { value: "fuzzy", label: "Fuzzy text" },
+];
+
+export interface DuplicateMatchKey {
+  moduleName: string;
+  fieldKey: string;
+  match: DuplicateMatch;
+}
+
+export interface DuplicateRule {
+  id: string;
+  objectTypeId: string;
+  name: string;
+  matchKeys: DuplicateMatchKey[];
+  /** Minimum similarity (0–1) for fuzzy keys */
+  threshold: number;
+  isActive: boolean;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DuplicateRuleInput {
+  name: string;
+  matchKeys: DuplicateMatchKey[];
+  threshold?: number;
+  isActive?: boolean;
+}
+
+export type DuplicateStatus = "open" | "dismissed" | "merged";
+
+/** One side of a flagged pair */
+export interface DuplicateObjectSummary {
+  id: string;
+  displayName: string;
+  createdAt: string;
+}
+
+export interface DuplicateCandidate {
+  id: string;
+  objectTypeId: string;
+  objectTypeName: string;
+  ruleName: string | null;
+  score: number;
+  status: DuplicateStatus;
+  objectA: DuplicateObjectSummary;
+  objectB: DuplicateObjectSummary;
+  createdAt: string;
+}
+
+export interface DuplicateScanSummary {
+  objectsScanned: number;
+  pairsFlagged: number;
+}
+
+/** Which object a merged field takes its value from */
+export type MergeSource = "survivor" | "loser";
+
+export interface MergeInput {
+  survivorId: string;
+  loserId: string;
+  /** Fields taken from the loser; every other field keeps the survivor's value */
+  fields: { moduleName: string; fieldKey: string; source: MergeSource }[];
+}
+
+export interface MergeSummary {
+  survivorId: string;
+  loserId: string;
+  relationsMoved: number;
+  timelineEventsMoved: number;
+}
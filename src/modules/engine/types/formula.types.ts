@@ -0,0 +1,53 @@
+/**
+ * OMP Engine — Formula Type Definitions
+ *
+ * Formula fields hold an expression over other fields of the same object
+ * (e.g. `monetary.amount * monetary.probability / 100`). Values are
+ * computed on read and never stored.
+ */
+
+/** Value types the checker infers for expressions */
+export type FormulaValueType = "number" | "string" | "boolean" | "date" | "list" | "any";
+
+/** Result types a formula field can declare (stored on the field definition) */
+export type FormulaResultType = Exclude<FormulaValueType, "list" | "any">;
+
+export type FormulaBinaryOp =
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%"
+  | "=="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "&&"
+  | "||";
+
+export type FormulaNode =
+  | { kind: "number"; value: number }
+  | { kind: "string"; value: string }
+  | { kind: "boolean"; value: boolean }
+  | { kind: "null" }
+  /** `module.field`, or a bare name (module null) resolved by the checker */
+  | { kind: "ref"; module: string | null; field: string }
+  /** Built-in object property such as created_at (set by the checker) */
+  | { kind: "prop"; name: string }
+  | { kind: "unary"; op: "-" | "!"; operand: FormulaNode }
+  | { kind: "binary"; op: FormulaBinaryOp; left: FormulaNode; right: FormulaNode }
+  | { kind: "call"; name: string; args: FormulaNode[] };
+
+export interface FormulaFieldError {
+  /** Key of the formula field */
+  field: string;
+  message: string;
+}
+
+/** A checked formula, with references resolved, ready to evaluate */
+export interface CompiledFormula {
+  ast: FormulaNode;
+  type: FormulaValueType;
+}
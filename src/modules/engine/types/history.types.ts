@@ -0,0 +1,54 @@
+/**
+ * OMP Engine — Record History Type Definitions
+ *
+ * An object's history is rebuilt from its audit log: every audited change
+ * to its module data becomes a version holding the field-level changes and
+ * the module data as it stood right after the change.
+ */
+
+/** Audit actions that make up an object's history */
+export const HistoryActions = [
+  { value: "object:create", label: "Created" },
+  { value: "object:update_module", label: "Updated" },
+  { value: "object:attach_module", label: "Module attached" },
+  { value: "object:detach_module", label: "Module detached" },
+  { value: "object:revert", label: "Reverted" },
+  { value: "object:merge", label: "Merged" },
+  { value: "object:delete", label: "Moved to trash" },
+  { value: "object:restore", label: "Restored" },
+] as const;
+
+export type HistoryAction = (typeof HistoryActions)[number]["value"];
+
+export interface FieldChange {
+  moduleName: string;
+  moduleLabel: string;
+  fieldKey: string;
+  fieldLabel: string;
+  before: unknown;
+  after: unknown;
+}
+
+/** Module data keyed by module name, then field key */
+export type ModuleSnapshot = Record<string, Record<string, unknown>>;
+
+export interface ObjectVersion {
+  /** ID of the audit log entry */
+  id: string;
+  action: HistoryAction;
+  createdAt: string;
+  actorName: string | null;
+  changes: FieldChange[];
+  /** Module data right after this change */
+  snapshot: ModuleSnapshot;
+}
+
+export interface ObjectHistory {
+  objectId: string;
+  /** Newest first */
+  versions: ObjectVersion[];
+  /** Labels of the modules and fields that appear in the history */
+  modules: { name: string; displayName: string; fields: { key: string; label: string }[] }[];
+  /** True when older entries were cut off (the oldest version may be partial) */
+  truncated: boolean;
+}
@@ -0,0 +1,51 @@
+/**
+ * OMP Engine — Import Type Definitions
+ *
+ * Bulk import maps columns of a CSV/JSON file onto module fields of one
+ * object type, validates every row, and commits the valid rows as a batch.
+ */
+
+export type ImportFormat = "csv" | "json";
+
+export interface ImportColumnMapping {
+  /** Column header in the source file */
+  column: string;
+  module: string;
+  field: string;
+}
+
+export interface ImportDedupeKey {
+  module: string;
+  field: string;
+}
+
+export interface ImportInput {
+  objectTypeId: string;
+  /** Parsed source records keyed by column header */
+  rows: Record<string, unknown>[];
+  mappings: ImportColumnMapping[];
+  /** Rows whose key matches an existing object (or an earlier row) are skipped */
+  dedupeKey?: ImportDedupeKey;
+  /** Validate only — nothing is written */
+  dryRun?: boolean;
+  /** Source file name, recorded in the audit entry */
+  fileName?: string;
+}
+
+export interface ImportRowError {
+  /** 1-based data row number (header excluded) */
+  row: number;
+  column?: string;
+  message: string;
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  total: number;
+  /** Rows created (or that would be created on a dry run) */
+  created: number;
+  /** Rows skipped as duplicates */
+  skipped: number;
+  failed: number;
+  errors: ImportRowError[];
+}
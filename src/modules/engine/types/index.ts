@@ -1,3 +1,19 @@
 export * from "./object.types";
 export * from "./module.types";
 export * from "./relation.types";
+export * from "./workflow.types";
+export * from "./automation.types";
+export * from "./processor.types";
+export * from "./import.types";
+export * from "./schema-migration.types";
+export * from "./formula.types";
+export * from "./rollup.types";
+export * from "./search.types";
+export * from "./sharing.types";
+export * from "./trash.types";
+export * from "./history.types";
+export * from "./duplicate.types";
+export * from "./bulk.types";
+export * from "./view-filter.types";
+export * from "./view-layout.types";
+export * from "./timeline.types";
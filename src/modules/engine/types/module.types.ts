@@ -3,6 +3,8 @@
  */
 
 import type { Json } from "@/lib/supabase/database.types";
+import type { SchemaMigrationStep } from "./schema-migration.types";
+import type { FormulaResultType } from "./formula.types";
 
 // ── Field Types ──────────────────────────────
 
@@ -17,7 +19,9 @@ export type ModuleFieldType =
   | "select"
   | "multiselect"
   | "boolean"
-  | "url";
+  | "url"
+  | "formula"
+  | "relation";
 
 export interface SelectOption {
   value: string;
@@ -34,6 +38,14 @@ export interface ModuleFieldDef {
   options?: SelectOption[];
   min?: number;
   max?: number;
+  /** Expression for formula fields, e.g. `monetary.amount * 2` */
+  formula?: string;
+  /** Inferred by the formula checker when the schema is saved */
+  resultType?: FormulaResultType;
+  /** Object type name a relation field points to */
+  targetType?: string;
+  /** Relation fields: hold several objects instead of one */
+  multiple?: boolean;
 }
 
 export interface ModuleSchema {
@@ -71,6 +83,8 @@ export interface ModuleUpdateInput {
   description?: string;
   icon?: string;
   schema?: ModuleSchema;
+  /** Data migrations for existing records when the schema changes */
+  migrations?: SchemaMigrationStep[];
 }
 
 // ── Module with data (for object views) ──────
@@ -83,6 +97,8 @@ export interface AttachedModule {
   icon: string | null;
   schema: ModuleSchema;
   data: Record<string, unknown>;
+  /** Fields the reader can see but not edit (field-level permissions) */
+  readOnlyFields?: string[];
 }
 
 /**
@@ -93,3 +109,21 @@ export function parseModuleSchema(raw: Json): ModuleSchema {
   const fields = (obj?.fields ?? []) as ModuleFieldDef[];
   return { fields };
 }
+
+/**
+ * The field type a value is displayed as. Formula fields display as
+ * their inferred result type.
+ */
+export function displayFieldType(field: ModuleFieldDef): ModuleFieldType {
+  if (field.type !== "formula") return field.type;
+  switch (field.resultType) {
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "date":
+      return "date";
+    default:
+      return "text";
+  }
+}
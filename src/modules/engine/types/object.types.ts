@@ -44,6 +44,10 @@ export interface ObjectWithModules extends ObjectRow {
   modules: AttachedModule[];
   /** Display label derived from identity/organization module */
   displayName: string;
+  /** Rollup field values keyed by rollup key (only rollups the reader can see) */
+  rollups?: Record<string, unknown>;
+  /** Display names of the objects referenced by relation fields, by ID */
+  references?: Record<string, string>;
 }
 
 export interface ObjectWithRelations extends ObjectWithModules {
@@ -113,22 +117,101 @@ export type FilterOperator =
   | "gte"
   | "lte"
   | "contains"
-  | "starts_with";
+  | "starts_with"
+  | "is_empty"
+  | "is_not_empty"
+  | "in"
+  | "in_last_days"
+  | "in_next_days"
+  | "today"
+  | "this_week"
+  | "this_month"
+  | "this_quarter"
+  | "this_year";
+
+/** A single value, or a list for `in` (empty operators ignore it) */
+export type FilterValue = string | number | boolean | null | (string | number)[];
 
 export interface ObjectFilter {
   moduleName: string;
   fieldKey: string;
   operator: FilterOperator;
-  value: string | number;
+  value: FilterValue;
+}
+
+/** Conditions joined by AND or OR; groups nest */
+export interface ObjectFilterGroup {
+  conjunction: "and" | "or";
+  conditions: ObjectFilterNode[];
+}
+
+export type ObjectFilterNode = ObjectFilter | ObjectFilterGroup;
+
+export interface ObjectSort {
+  moduleName: string;
+  fieldKey: string;
+  direction: "asc" | "desc";
 }
 
 export interface ObjectQueryParams {
   objectType?: string;
-  filters?: ObjectFilter[];
+  /** Conditions and groups, ANDed at the top level */
+  filters?: ObjectFilterNode[];
   search?: string;
+  /** Sort keys in order of precedence; the sortModule/sortField pair is a single-key shorthand */
+  sorts?: ObjectSort[];
   sortModule?: string;
   sortField?: string;
   sortOrder?: "asc" | "desc";
   page?: number;
   limit?: number;
+  /** nextCursor of the previous page — resumes after it instead of using `page` */
+  cursor?: string;
+}
+
+export interface ObjectPage {
+  objects: ObjectWithModules[];
+  total: number;
+  /** Cursor for the following page, or null on the last page and for in-memory queries */
+  nextCursor: string | null;
+  /** An in-memory query hit its candidate cap, so matches beyond it are missing */
+  truncated?: boolean;
+}
+
+// ── Group Types ──────────────────────────────
+
+export interface ObjectFieldRef {
+  moduleName: string;
+  fieldKey: string;
+}
+
+/** Numeric aggregates of one field; null when no record has a number there */
+export interface FieldAggregates {
+  sum: number | null;
+  avg: number | null;
+  min: number | null;
+  max: number | null;
+}
+
+export interface ObjectGroup {
+  /** The group field's stored value as text; null for records without one */
+  value: string | null;
+  count: number;
+  /** Aggregates keyed by "moduleName.fieldKey" */
+  aggregates: Record<string, FieldAggregates>;
+}
+
+export interface ObjectGroupParams {
+  objectType?: string;
+  filters?: ObjectFilterNode[];
+  /** Field to group by; without it only the total is computed */
+  groupBy?: ObjectFieldRef | null;
+  /** Numeric fields to aggregate */
+  aggregates?: ObjectFieldRef[];
+}
+
+export interface ObjectGroups {
+  /** In the order the group field sorts ascending, empty last */
+  groups: ObjectGroup[];
+  total: { count: number; aggregates: Record<string, FieldAggregates> };
 }
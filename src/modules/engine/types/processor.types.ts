@@ -0,0 +1,29 @@
+/**
+ * OMP Engine — Stored Processor Result Type Definitions
+ *
+ * Scheduled runs persist each processor's output per object so insights
+ * can be charted over time.
+ */
+
+export type ProcessorResultRow = TableRow<"processor_results">;
+
+export interface StoredProcessorResult<T = unknown> {
+  id: string;
+  runId: string;
+  objectId: string;
+  objectTypeId: string;
+  processor: string;
+  success: boolean;
+  data: T | null;
+  error: string | null;
+  computedAt: string;
+}
+
+export interface ProcessorRunSummary {
+  runId: string;
+  startedAt: string;
+  finishedAt: string;
+  objectsScanned: number;
+  resultsSaved: number;
+  failures: number;
+}
@@ -0,0 +1,51 @@
+/**
+ * OMP Engine — Rollup Field Type Definitions
+ *
+ * A rollup field aggregates a value over the objects related to an object
+ * through a schema-level relation (e.g. the sum of a company's deal
+ * amounts). Values are materialized and refreshed incrementally.
+ */
+
+export type RollupFieldRow = TableRow<"rollup_fields">;
+export type RollupValueRow = TableRow<"rollup_values">;
+
+export type RollupAggregate = "count" | "sum" | "avg" | "min" | "max" | "latest";
+
+export const RollupAggregates: { value: RollupAggregate; label: string }[] = [
+  { value: "count", label: "Count" },
+  { value: "sum", label: "Sum" },
+  { value: "avg", label: "Average" },
+  { value: "min", label: "Minimum" },
+  { value: "max", label: "Maximum" },
+  { value: "latest", label: "Latest value" },
+];
+
+/**
+ * Module name rollup columns use in views, so they can sit next to module
+ * fields in column, sort and filter configs.
+ */
+export const ROLLUP_MODULE = "_rollup";
+
+export interface RollupField {
+  id: string;
+  objectTypeId: string;
+  relationId: string;
+  key: string;
+  label: string;
+  aggregate: RollupAggregate;
+  /** Field of the related objects (null for count) */
+  moduleName: string | null;
+  fieldKey: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RollupFieldInput {
+  relationId: string;
+  key: string;
+  label: string;
+  aggregate: RollupAggregate;
+  moduleName?: string | null;
+  fieldKey?: string | null;
+}
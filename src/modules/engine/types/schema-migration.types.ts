@@ -0,0 +1,81 @@
+/**
+ * OMP Engine — Module Schema Migration Type Definitions
+ *
+ * Each schema change creates a new module version. Declared field
+ * migrations rewrite existing object_modules.data so stored records keep
+ * matching the schema.
+ */
+
+import type { ModuleFieldDef, ModuleSchema } from "./module.types";
+
+export type ModuleSchemaVersionRow = TableRow<"module_schema_versions">;
+
+// ── Migration Steps ──────────────────────────
+
+export type SchemaMigrationStep =
+  /** Move a value from an old key to a new key */
+  | { type: "rename_key"; from: string; to: string }
+  /** Fill a (new required) field on records that have no value */
+  | { type: "set_default"; field: string; value: string | number | boolean }
+  /** Replace select/multiselect values; an empty target clears the value */
+  | { type: "map_options"; field: string; mapping: Record<string, string> }
+  /** Remove a field's stored value */
+  | { type: "drop_field"; field: string };
+
+export type SchemaMigrationStepType = SchemaMigrationStep["type"];
+
+// ── Diff & Preview ───────────────────────────
+
+export interface SchemaFieldChange {
+  key: string;
+  before: ModuleFieldDef;
+  after: ModuleFieldDef;
+  /** Human-readable list, e.g. "type text → number", "now required" */
+  changes: string[];
+  /** Select option values that no longer exist */
+  removedOptions: string[];
+}
+
+export interface ModuleSchemaDiff {
+  added: ModuleFieldDef[];
+  removed: ModuleFieldDef[];
+  changed: SchemaFieldChange[];
+}
+
+export interface SchemaMigrationIssue {
+  field: string;
+  message: string;
+  /** Records that would be orphaned or become invalid */
+  recordCount: number;
+  /** Blocking issues must be resolved with a migration step before saving */
+  blocking: boolean;
+}
+
+export interface SchemaChangePreview {
+  fromVersion: number;
+  toVersion: number;
+  diff: ModuleSchemaDiff;
+  issues: SchemaMigrationIssue[];
+  /** Records whose data the migration steps will rewrite */
+  affectedCount: number;
+  totalCount: number;
+}
+
+// ── Versions ─────────────────────────────────
+
+export type SchemaVersionStatus = "pending" | "running" | "completed" | "failed";
+
+export interface ModuleSchemaVersion {
+  id: string;
+  moduleId: string;
+  version: number;
+  schema: ModuleSchema;
+  migrations: SchemaMigrationStep[];
+  status: SchemaVersionStatus;
+  affectedCount: number;
+  processedCount: number;
+  error: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
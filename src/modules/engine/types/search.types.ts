@@ -0,0 +1,45 @@
+/**
+ * OMP Engine — Search Type Definitions
+ *
+ * Results of the global search: objects matched through the full-text
+ * index, plus object types, views and pages matched by name.
+ */
+
+export interface ObjectSearchHit {
+  id: string;
+  displayName: string;
+  objectType: {
+    name: string;
+    displayName: string;
+    icon: string;
+    color: string;
+  };
+}
+
+export interface ObjectTypeSearchHit {
+  id: string;
+  name: string;
+  displayName: string;
+  icon: string;
+  color: string;
+}
+
+export interface ViewSearchHit {
+  id: string;
+  name: string;
+  objectTypeName: string;
+  objectTypeDisplayName: string;
+}
+
+export interface PageSearchHit {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+export interface GlobalSearchResults {
+  objects: ObjectSearchHit[];
+  objectTypes: ObjectTypeSearchHit[];
+  views: ViewSearchHit[];
+  pages: PageSearchHit[];
+}
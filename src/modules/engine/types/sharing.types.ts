@@ -0,0 +1,52 @@
+/**
+ * OMP Engine — Record Sharing Type Definitions
+ *
+ * Record access is resolved in tiers: own records, records of teammates
+ * (object:<op>:team), all records, plus explicit share grants that give a
+ * user or a team read or write access to one object.
+ */
+
+export type RecordShareRow = TableRow<"record_shares">;
+
+export type ShareAccess = "read" | "write";
+
+export const ShareAccessLevels: { value: ShareAccess; label: string }[] = [
+  { value: "read", label: "Can view" },
+  { value: "write", label: "Can edit" },
+];
+
+/** Operation a record access check is made for */
+export type RecordAccessLevel = "read" | "update" | "delete";
+
+/**
+ * Records a user can reach for one operation: every record, or those
+ * owned/created by `userIds` plus the explicitly shared `objectIds`.
+ */
+export type RecordScope =
+  | { all: true }
+  | { all: false; userIds: string[]; objectIds: string[] };
+
+/** What the current user may do with one record */
+export interface RecordAccess {
+  canUpdate: boolean;
+  canDelete: boolean;
+  canShare: boolean;
+}
+
+export interface RecordShare {
+  id: string;
+  objectId: string;
+  userId: string | null;
+  teamId: string | null;
+  /** User or team name */
+  granteeName: string;
+  access: ShareAccess;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface RecordShareInput {
+  userId?: string | null;
+  teamId?: string | null;
+  access: ShareAccess;
+}
@@ -0,0 +1,103 @@
+/**
+ * OMP Engine — Timeline Type Definitions
+ *
+ * An object's timeline is its activity stream: notes plus the structured
+ * events engine mutations write (field, status and owner changes, modules
+ * attached or detached, relations added or removed, records created,
+ * marketplace proposals). Relation and proposal events land on both
+ * related objects.
+ *
+ * The activity feed lists the events of every object the user can read.
+ */
+
+/** Event types, in the order the timeline filter offers them */
+export const TimelineEventTypes = [
+  { value: "note", label: "Notes" },
+  { value: "object_created", label: "New records" },
+  { value: "status_change", label: "Status changes" },
+  { value: "field_change", label: "Field changes" },
+  { value: "owner_change", label: "Owner changes" },
+  { value: "module_attached", label: "Modules attached" },
+  { value: "module_detached", label: "Modules detached" },
+  { value: "relation_added", label: "Relations added" },
+  { value: "relation_removed", label: "Relations removed" },
+  { value: "proposal", label: "Proposals" },
+  { value: "custom", label: "Other" },
+] as const;
+
+export type TimelineEventType = (typeof TimelineEventTypes)[number]["value"];
+
+export interface TimelineEvent {
+  id: string;
+  objectId: string;
+  eventType: string;
+  title: string;
+  description: string | null;
+  metadata: Record<string, unknown>;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface TimelineCreateInput {
+  objectId: string;
+  eventType: TimelineEventType;
+  title: string;
+  description?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/** One changed field of a field_change event (in metadata.changes) */
+export interface TimelineFieldChange {
+  field: string;
+  label: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export interface TimelineQueryParams {
+  /** Only these event types; all when empty */
+  eventTypes?: TimelineEventType[];
+  /** nextCursor of the previous page */
+  cursor?: string;
+  limit?: number;
+}
+
+export interface TimelinePage {
+  /** Newest first */
+  events: TimelineEvent[];
+  /** Cursor of the next (older) page, or null on the last one */
+  nextCursor: string | null;
+}
+
+export interface ActivityFeedParams {
+  /** Object type name */
+  objectType?: string;
+  /** Only events by this user */
+  userId?: string;
+  eventTypes?: TimelineEventType[];
+  /** First and last day (YYYY-MM-DD), both included */
+  from?: string;
+  to?: string;
+  /** nextCursor of the previous page */
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ActivityFeedItem extends TimelineEvent {
+  object: {
+    id: string;
+    displayName: string;
+    objectType: { name: string; displayName: string; icon: string | null; color: string | null };
+  };
+  actorName: string | null;
+  /** Newer than the user's last visit to the feed, and by someone else */
+  unread: boolean;
+}
+
+export interface ActivityFeedPage {
+  /** Newest first */
+  items: ActivityFeedItem[];
+  nextCursor: string | null;
+  /** When the user last opened the feed */
+  lastSeenAt: string | null;
+}
@@ -0,0 +1,34 @@
+/**
+ * OMP Engine — Trash Type Definitions
+ *
+ * Deleted objects stay in the trash (objects.deleted_at set) with their
+ * modules and relations until they are restored or purged after the
+ * retention period.
+ */
+
+export interface TrashedObject {
+  id: string;
+  displayName: string;
+  objectType: {
+    id: string;
+    name: string;
+    displayName: string;
+    icon: string;
+    color: string;
+  };
+  deletedAt: string;
+  /** Name of the user who deleted the object, if still known */
+  deletedBy: string | null;
+  /** When the object will be purged for good */
+  purgeAt: string;
+}
+
+export interface TrashQueryParams {
+  objectType?: string;
+}
+
+export interface TrashPurgeSummary {
+  purged: number;
+  retentionDays: number;
+  cutoff: string;
+}
@@ -0,0 +1,95 @@
+/**
+ * OMP Engine — View Filter Type Definitions
+ *
+ * A view's filters are a tree: conditions on a field, and groups that
+ * join their conditions with AND or OR. The top level of View.filters is
+ * ANDed. Relative date operators and the current-user placeholder are
+ * resolved on the server each time the view is queried.
+ */
+
+import type { ModuleFieldDef } from "./module.types";
+
+export type ViewFilterOperator =
+  | "eq"
+  | "neq"
+  | "contains"
+  | "gt"
+  | "lt"
+  | "gte"
+  | "lte"
+  | "is_empty"
+  | "is_not_empty"
+  | "in"
+  // Relative dates
+  | "in_last_days"
+  | "in_next_days"
+  | "today"
+  | "this_week"
+  | "this_month"
+  | "this_quarter"
+  | "this_year";
+
+export interface ViewFilter {
+  module: string;
+  field: string;
+  operator: ViewFilterOperator;
+  value: unknown;
+}
+
+export interface ViewFilterGroup {
+  conjunction: "and" | "or";
+  conditions: ViewFilterNode[];
+}
+
+export type ViewFilterNode = ViewFilter | ViewFilterGroup;
+
+export const ViewFilterOperators: {
+  value: ViewFilterOperator;
+  label: string;
+  /** What the value input takes */
+  input: "text" | "days" | "none";
+  dateOnly?: boolean;
+}[] = [
+  { value: "eq", label: "is", input: "text" },
+  { value: "neq", label: "is not", input: "text" },
+  { value: "contains", label: "contains", input: "text" },
+  { value: "in", label: "is any of", input: "text" },
+  { value: "gt", label: "greater than", input: "text" },
+  { value: "lt", label: "less than", input: "text" },
+  { value: "gte", label: "≥", input: "text" },
+  { value: "lte", label: "≤", input: "text" },
+  { value: "is_empty", label: "is empty", input: "none" },
+  { value: "is_not_empty", label: "is not empty", input: "none" },
+  { value: "in_last_days", label: "in the last … days", input: "days", dateOnly: true },
+  { value: "in_next_days", label: "in the next … days", input: "days", dateOnly: true },
+  { value: "today", label: "is today", input: "none", dateOnly: true },
+  { value: "this_week", label: "is this week", input: "none", dateOnly: true },
+  { value: "this_month", label: "is this month", input: "none", dateOnly: true },
+  { value: "this_quarter", label: "is this quarter", input: "none", dateOnly: true },
+  { value: "this_year", label: "is this year", input: "none", dateOnly: true },
+];
+
+/** Filter value standing for the signed-in user */
+export const CURRENT_USER = "@me";
+
+/** Deepest nesting of groups the filter builder offers */
+export const MAX_FILTER_DEPTH = 3;
+
+/**
+ * Module name of the record's own columns (owner, creator, timestamps),
+ * so they can be filtered and sorted next to module fields.
+ */
+export const RECORD_MODULE = "_record";
+
+export const RecordFields: ModuleFieldDef[] = [
+  { key: "owner_id", type: "text", label: "Owner" },
+  { key: "created_by", type: "text", label: "Created by" },
+  { key: "created_at", type: "datetime", label: "Created at" },
+  { key: "updated_at", type: "datetime", label: "Updated at" },
+];
+
+export function isFilterGroup<N extends object>(
+  node: N
+): node is Extract<N, { conditions: unknown[] }> {
+  return "conditions" in node && Array.isArray((node as { conditions: unknown }).conditions);
+}
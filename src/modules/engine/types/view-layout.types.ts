@@ -0,0 +1,148 @@
+/**
+ * OMP Engine — View Layout Type Definitions
+ *
+ * Layouts a view renders its records in, and the per-layout settings
+ * saved with the view (views.layout_config). Calendar and timeline
+ * layouts place records by date fields and load one date range at a time;
+ * ranges are UTC days written YYYY-MM-DD, the end exclusive. Grouped
+ * tables keep the view's group field (views.group_by_*) and the aggregate
+ * each numeric column totals with; kanban boards keep their swimlanes,
+ * WIP limits and the numeric field column footers sum.
+ */
+
+export type ViewLayoutType = "table" | "kanban" | "calendar" | "timeline" | "gallery";
+
+export const ViewLayoutTypes: { value: ViewLayoutType; label: string }[] = [
+  { value: "table", label: "Table" },
+  { value: "kanban", label: "Kanban" },
+  { value: "calendar", label: "Calendar" },
+  { value: "timeline", label: "Timeline" },
+  { value: "gallery", label: "Gallery" },
+];
+
+export type CalendarMode = "month" | "week" | "day";
+
+export type AggregateFunction = "sum" | "avg" | "min" | "max";
+
+export const AggregateFunctions: { value: AggregateFunction; label: string }[] = [
+  { value: "sum", label: "Sum" },
+  { value: "avg", label: "Average" },
+  { value: "min", label: "Min" },
+  { value: "max", label: "Max" },
+];
+
+export interface ViewFieldRef {
+  module: string;
+  field: string;
+}
+
+export interface ViewLayoutConfig {
+  /** Calendar and timeline: the date field records are placed on */
+  startField?: ViewFieldRef;
+  /** Timeline: the date field bars end on (a bar spans one day without it) */
+  endField?: ViewFieldRef;
+  calendarMode?: CalendarMode;
+  /** Gallery: field holding the card's cover image URL */
+  coverField?: ViewFieldRef;
+  /** Gallery: field shown as the card title instead of the record name */
+  titleField?: ViewFieldRef;
+  /** Grouped table: aggregate per numeric column, keyed "module.field" (default sum) */
+  aggregates?: Record<string, AggregateFunction>;
+  /** Kanban: second field cards are split into rows by */
+  swimlaneField?: ViewFieldRef;
+  /** Kanban: most cards a column should hold, keyed by column value */
+  wipLimits?: Record<string, number>;
+  /** Kanban: numeric field the column footers sum */
+  sumField?: ViewFieldRef;
+}
+
+/** Field types a table can group by: one plain value per record */
+export const GROUPABLE_FIELD_TYPES = [
+  "text",
+  "email",
+  "phone",
+  "url",
+  "number",
+  "boolean",
+  "date",
+  "select",
+];
+
+/** Field types a kanban board can split into swimlanes: one plain text value */
+export const SWIMLANE_FIELD_TYPES = ["text", "email", "phone", "url", "select"];
+
+/** Secondary fields gallery and kanban cards show when the view picks none */
+export const DEFAULT_CARD_FIELDS = 3;
+
+/** Layouts that place records by date */
+export const DATE_LAYOUTS: ViewLayoutType[] = ["calendar", "timeline"];
+
+/** Most records a calendar or timeline loads for one range */
+export const DATE_LAYOUT_LIMIT = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDay(day: string): Date {
+  const [y, m, d] = day.slice(0, 10).split("-").map(Number);
+  return new Date(Date.UTC(y, (m || 1) - 1, d || 1));
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Whether a stored value starts with a YYYY-MM-DD date */
+export function isDayValue(value: unknown): value is string {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}/.test(value);
+}
+
+export function addDays(day: string, days: number): string {
+  return formatDay(new Date(parseDay(day).getTime() + days * DAY_MS));
+}
+
+/** Whole days from `from` to `to` */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / DAY_MS);
+}
+
+/** Shift a date or datetime value by whole days, keeping its time */
+export function shiftDateValue(value: string, days: number): string {
+  return addDays(value, days) + value.slice(10);
+}
+
+/** Monday on or before the day */
+export function startOfWeek(day: string): string {
+  return addDays(day, -((parseDay(day).getUTCDay() + 6) % 7));
+}
+
+/**
+ * Range of days a date layout shows around `anchor`: the weeks covering
+ * the anchor's month, its week or the day itself for calendars, and the
+ * anchor's month for timelines.
+ */
+export function dateLayoutRange(
+  layout: ViewLayoutType,
+  mode: CalendarMode,
+  anchor: string
+): { start: string; end: string } {
+  const first = anchor.slice(0, 8) + "01";
+  const nextMonth = formatDay(
+    new Date(Date.UTC(parseDay(first).getUTCFullYear(), parseDay(first).getUTCMonth() + 1, 1))
+  );
+
+  if (layout === "timeline") return { start: first, end: nextMonth };
+
+  switch (mode) {
+    case "day":
+      return { start: anchor, end: addDays(anchor, 1) };
+    case "week": {
+      const start = startOfWeek(anchor);
+      return { start, end: addDays(start, 7) };
+    }
+    default: {
+      const start = startOfWeek(first);
+      const end = startOfWeek(addDays(nextMonth, 6));
+      return { start, end };
+    }
+  }
+}
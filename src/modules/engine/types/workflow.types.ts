@@ -0,0 +1,115 @@
+/**
+ * OMP Engine — Workflow Type Definitions
+ *
+ * A workflow declares which values a stage field can take on an object type
+ * and which transitions between them are allowed.
+ */
+
+export type WorkflowRow = TableRow<"object_type_workflows">;
+
+// ── Definition ───────────────────────────────
+
+export interface WorkflowState {
+  value: string;
+  label: string;
+  color?: string;
+  /** New objects must start in one of the initial states (if any are flagged) */
+  isInitial?: boolean;
+  /** Objects can't leave this state; it may have no outgoing transitions */
+  isTerminal?: boolean;
+}
+
+export interface WorkflowFieldRef {
+  module: string;
+  field: string;
+}
+
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  /** Fields that must be filled in before the transition is allowed */
+  requiredFields?: WorkflowFieldRef[];
+}
+
+export interface Workflow {
+  id: string;
+  objectTypeId: string;
+  moduleName: string;
+  fieldKey: string;
+  states: WorkflowState[];
+  transitions: WorkflowTransition[];
+  isActive: boolean;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkflowSaveInput {
+  moduleName: string;
+  fieldKey: string;
+  states: WorkflowState[];
+  transitions: WorkflowTransition[];
+  isActive?: boolean;
+}
+
+/**
+ * Built-in lead workflow on stage.status.
+ * Used by processors when an object type has no workflow of its own.
+ */
+export const DEFAULT_STAGE_WORKFLOW: WorkflowSaveInput = {
+  moduleName: "stage",
+  fieldKey: "status",
+  states: [
+    { value: "new", label: "New", isInitial: true },
+    { value: "contacted", label: "Contacted" },
+    { value: "interested", label: "Interested" },
+    { value: "qualified", label: "Qualified" },
+    { value: "proposal", label: "Proposal" },
+    { value: "negotiation", label: "Negotiation" },
+    { value: "won", label: "Won", isTerminal: true },
+    { value: "lost", label: "Lost", isTerminal: true },
+    { value: "completed", label: "Completed", isTerminal: true },
+    { value: "closed", label: "Closed", isTerminal: true },
+  ],
+  transitions: [
+    { from: "new", to: "contacted" },
+    { from: "new", to: "interested" },
+    { from: "new", to: "lost" },
+    { from: "contacted", to: "interested" },
+    { from: "contacted", to: "negotiation" },
+    { from: "contacted", to: "lost" },
+    { from: "interested", to: "qualified" },
+    { from: "interested", to: "negotiation" },
+    { from: "interested", to: "lost" },
+    { from: "qualified", to: "proposal" },
+    { from: "qualified", to: "negotiation" },
+    { from: "qualified", to: "lost" },
+    { from: "proposal", to: "negotiation" },
+    { from: "proposal", to: "won" },
+    { from: "proposal", to: "lost" },
+    { from: "negotiation", to: "won" },
+    { from: "negotiation", to: "lost" },
+  ],
+};
+
+/**
+ * List the states reachable from `from` in a single transition.
+ */
+export function getAllowedTransitions(
+  workflow: Pick<WorkflowSaveInput, "transitions">,
+  from: string
+): string[] {
+  return workflow.transitions
+    .filter((t) => t.from === from)
+    .map((t) => t.to);
+}
+
+/**
+ * Whether a state is flagged terminal in the workflow.
+ */
+export function isTerminalState(
+  workflow: Pick<WorkflowSaveInput, "states">,
+  value: string
+): boolean {
+  return workflow.states.some((s) => s.value === value && s.isTerminal);
+}
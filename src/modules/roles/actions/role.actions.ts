@@ -3,6 +3,7 @@
 import { revalidatePath } from "next/cache";
 import { getAuthContext } from "@/lib/permissions/rbac";
 import * as roleService from "../services/role.service";
+import type { RoleFieldPermission } from "@/modules/users/types/user.types";
 
 export async function getRolesAction(): Promise<ActionResult<Awaited<ReturnType<typeof roleService.getRoles>>>> {
   try {
@@ -77,6 +78,22 @@ export async function updateRolePermissionsAction(
   }
 }
 
+export async function updateRoleFieldPermissionsAction(
+  roleId: string,
+  masks: RoleFieldPermission[]
+): Promise<ActionResult<void>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Unauthorized" };
+
+    await roleService.updateRoleFieldPermissions(ctx, roleId, masks);
+    revalidatePath("/settings/roles");
+    return { success: true, data: undefined };
+  } catch (err: unknown) {
+    return { success: false, error: err instanceof Error ? err.message : "Failed to update field access" };
+  }
+}
+
 export async function deleteRoleAction(roleId: string): Promise<ActionResult<void>> {
   try {
     const ctx = await getAuthContext();
@@ -0,0 +1,194 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { updateRoleFieldPermissionsAction } from "../actions/role.actions";
+import type {
+  FieldPermissionTargets,
+  RoleFieldPermission,
+} from "@/modules/users/types/user.types";
+
+interface Props {
+  roleId: string;
+  masks: RoleFieldPermission[];
+  targets: FieldPermissionTargets;
+}
+
+type FieldAccess = "write" | "read" | "none";
+
+const ACCESS_OPTIONS: { value: FieldAccess; label: string }[] = [
+  { value: "write", label: "Editable" },
+  { value: "read", label: "Read-only" },
+  { value: "none", label: "Hidden" },
+];
+
+const ALL_TYPES = "all";
+
+function maskKey(objectTypeId: string | null, moduleId: string, fieldKey: string) {
+  return `${objectTypeId ?? ALL_TYPES}:${moduleId}:${fieldKey}`;
+}
+
+function toAccess(mask: RoleFieldPermission): FieldAccess {
+  if (!mask.canRead) return "none";
+  return mask.canWrite ? "write" : "read";
+}
+
+/**
+ * Per-field access of a role, for all object types or one type.
+ * Fields left editable inherit the role's module permission.
+ */
+export function FieldPermissionMatrix({ roleId, masks, targets }: Props) {
+  const router = useRouter();
+  const [scope, setScope] = useState<string>(ALL_TYPES);
+  const [draft, setDraft] = useState<Record<string, FieldAccess>>(() =>
+    Object.fromEntries(
+      masks.map((m) => [maskKey(m.objectTypeId, m.moduleId, m.fieldKey), toAccess(m)])
+    )
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const scopeTypeId = scope === ALL_TYPES ? null : scope;
+
+  /** "Editable" is the default, except where it lifts an all-types mask */
+  function isMask(key: string, access: FieldAccess) {
+    if (access !== "write") return true;
+    const [typeKey, ...rest] = key.split(":");
+    return typeKey !== ALL_TYPES && (draft[`${ALL_TYPES}:${rest.join(":")}`] ?? "write") !== "write";
+  }
+
+  function countMasks(objectTypeId: string | null) {
+    const prefix = `${objectTypeId ?? ALL_TYPES}:`;
+    return Object.entries(draft).filter(
+      ([key, access]) => key.startsWith(prefix) && isMask(key, access)
+    ).length;
+  }
+
+  function setAccess(moduleId: string, fieldKey: string, access: FieldAccess) {
+    setSaved(false);
+    setDraft((prev) => ({ ...prev, [maskKey(scopeTypeId, moduleId, fieldKey)]: access }));
+  }
+
+  async function handleSave() {
+    setError(null);
+    setSaving(true);
+    try {
+      const next: RoleFieldPermission[] = Object.entries(draft)
+        .filter(([key, access]) => isMask(key, access))
+        .map(([key, access]) => {
+          const [typeKey, moduleId, ...field] = key.split(":");
+          return {
+            moduleId,
+            objectTypeId: typeKey === ALL_TYPES ? null : typeKey,
+            fieldKey: field.join(":"),
+            canRead: access !== "none",
+            canWrite: access === "write",
+          };
+        });
+      const result = await updateRoleFieldPermissionsAction(roleId, next);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      setSaved(true);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Update failed");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h4 className="text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+            Field access
+          </h4>
+          <p className="text-xs text-gray-400">
+            Hide fields or make them read-only. A type-specific setting overrides the one for all
+            types.
+          </p>
+        </div>
+        <select
+          value={scope}
+          onChange={(e) => setScope(e.target.value)}
+          className="rounded-lg border border-gray-300 px-2 py-1.5 text-sm dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+        >
+          <option value={ALL_TYPES}>
+            All object types{countMasks(null) > 0 ? ` (${countMasks(null)})` : ""}
+          </option>
+          {targets.objectTypes.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.displayName}
+              {countMasks(t.id) > 0 ? ` (${countMasks(t.id)})` : ""}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600 dark:bg-red-950 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-3 lg:grid-cols-2">
+        {targets.modules.map((mod) => (
+          <div
+            key={mod.id}
+            className="rounded-lg border border-gray-200 p-3 dark:border-gray-700"
+          >
+            <p className="mb-2 text-sm font-medium text-gray-900 dark:text-white">
+              {mod.displayName}
+            </p>
+            <div className="space-y-1.5">
+              {mod.fields.map((field) => {
+                const access =
+                  draft[maskKey(scopeTypeId, mod.id, field.key)] ??
+                  (scopeTypeId ? draft[maskKey(null, mod.id, field.key)] : undefined) ??
+                  "write";
+                return (
+                  <div key={field.key} className="flex items-center justify-between gap-2">
+                    <span className="truncate text-xs text-gray-700 dark:text-gray-300">
+                      {field.label}
+                      <span className="ml-1 text-gray-400">({field.key})</span>
+                    </span>
+                    <select
+                      value={access}
+                      onChange={(e) => setAccess(mod.id, field.key, e.target.value as FieldAccess)}
+                      className={
+                        access === "write"
+                          ? "rounded border border-gray-300 px-1.5 py-0.5 text-xs dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+                          : "rounded border border-amber-300 bg-amber-50 px-1.5 py-0.5 text-xs text-amber-800 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-300"
+                      }
+                    >
+                      {ACCESS_OPTIONS.map((o) => (
+                        <option key={o.value} value={o.value}>
+                          {o.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-end gap-3">
+        {saved && <span className="text-xs text-green-600">Saved</span>}
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? "Saving…" : "Save Field Access"}
+        </button>
+      </div>
+    </div>
+  );
+}
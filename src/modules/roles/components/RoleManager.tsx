@@ -9,11 +9,17 @@ import {
   updateRolePermissionsAction,
   deleteRoleAction,
 } from "../actions/role.actions";
-import type { RoleWithPermissions, PermissionRow } from "@/modules/users/types/user.types";
+import type {
+  FieldPermissionTargets,
+  PermissionRow,
+  RoleWithPermissions,
+} from "@/modules/users/types/user.types";
+import { FieldPermissionMatrix } from "./FieldPermissionMatrix";
 
 interface Props {
   initialRoles: RoleWithPermissions[];
   allPermissions: PermissionRow[];
+  fieldTargets: FieldPermissionTargets;
 }
 
 /** Group permissions by prefix (e.g., "lead", "settings", "dashboard") */
@@ -28,7 +34,7 @@ function groupPermissions(perms: PermissionRow[]): Record<string, PermissionRow[
   return groups;
 }
 
-export function RoleManager({ initialRoles, allPermissions }: Props) {
+export function RoleManager({ initialRoles, allPermissions, fieldTargets }: Props) {
   const router = useRouter();
   const [roles, setRoles] = useState(initialRoles);
   const [expandedRole, setExpandedRole] = useState<string | null>(null);
@@ -296,6 +302,13 @@ export function RoleManager({ initialRoles, allPermissions }: Props) {
                     Save Permissions
                   </button>
                 </div>
+                <div className="mt-4 border-t border-gray-200 pt-4 dark:border-gray-800">
+                  <FieldPermissionMatrix
+                    roleId={role.id}
+                    masks={role.fieldPermissions}
+                    targets={fieldTargets}
+                  />
+                </div>
               </div>
             )}
           </div>
@@ -3,7 +3,13 @@ import { requirePermission, type AuthContext } from "@/lib/permissions/rbac";
 import { Actions } from "@/lib/permissions/actions";
 import { auditLog } from "@/lib/audit/logger";
 import { AppError } from "@/lib/utils/errors";
-import type { RoleWithPermissions, PermissionRow } from "@/modules/users/types/user.types";
+import { parseModuleSchema } from "@/modules/engine/types/module.types";
+import type {
+  FieldPermissionTargets,
+  PermissionRow,
+  RoleFieldPermission,
+  RoleWithPermissions,
+} from "@/modules/users/types/user.types";
 
 /**
  * List all roles with their permissions.
@@ -38,9 +44,29 @@ export async function getRoles(ctx: AuthContext): Promise<RoleWithPermissions[]>
     permMap.get(roleId)!.push(perm);
   });
 
+  // Field masks per role
+  const { data: masks, error: masksErr } = await admin
+    .from("role_field_permissions")
+    .select("role_id, module_id, object_type_id, field_key, can_read, can_write");
+
+  if (masksErr) throw new AppError("DB_ERROR", masksErr.message);
+
+  const maskMap = new Map<string, RoleFieldPermission[]>();
+  masks?.forEach((m) => {
+    if (!maskMap.has(m.role_id)) maskMap.set(m.role_id, []);
+    maskMap.get(m.role_id)!.push({
+      moduleId: m.module_id,
+      objectTypeId: m.object_type_id,
+      fieldKey: m.field_key,
+      canRead: m.can_read,
+      canWrite: m.can_write,
+    });
+  });
+
   return (roles ?? []).map((r) => ({
     ...r,
     permissions: permMap.get(r.id) ?? [],
+    fieldPermissions: maskMap.get(r.id) ?? [],
   }));
 }
 
@@ -60,6 +86,40 @@ export async function getAllPermissions(ctx: AuthContext): Promise<PermissionRow
   return data ?? [];
 }
 
+/**
+ * Modules (with their fields) and object types that field masks can target.
+ */
+export async function getFieldPermissionTargets(
+  ctx: AuthContext
+): Promise<FieldPermissionTargets> {
+  requirePermission(ctx, Actions.ROLE_MANAGE);
+
+  const admin = createAdminClient();
+  const [{ data: modules, error: modErr }, { data: types, error: typeErr }] =
+    await Promise.all([
+      admin.from("modules").select("id, display_name, schema").order("display_name"),
+      admin
+        .from("object_types")
+        .select("id, display_name")
+        .eq("is_active", true)
+        .order("display_name"),
+    ]);
+
+  if (modErr) throw new AppError("DB_ERROR", modErr.message);
+  if (typeErr) throw new AppError("DB_ERROR", typeErr.message);
+
+  return {
+    modules: (modules ?? [])
+      .map((m) => ({
+        id: m.id,
+        displayName: m.display_name,
+        fields: parseModuleSchema(m.schema).fields.map((f) => ({ key: f.key, label: f.label })),
+      }))
+      .filter((m) => m.fields.length > 0),
+    objectTypes: (types ?? []).map((t) => ({ id: t.id, displayName: t.display_name })),
+  };
+}
+
 /**
  * Create a new role.
  */
@@ -149,6 +209,101 @@ export async function updateRolePermissions(
   });
 }
 
+/**
+ * Replace a role's field masks. Write access requires read access. Masks
+ * granting full access are dropped — an unmasked field inherits the module
+ * permission — unless they lift an all-types mask for one type.
+ */
+export async function updateRoleFieldPermissions(
+  ctx: AuthContext,
+  roleId: string,
+  masks: RoleFieldPermission[]
+): Promise<void> {
+  requirePermission(ctx, Actions.ROLE_MANAGE);
+
+  const admin = createAdminClient();
+
+  const { data: role } = await admin.from("roles").select("id").eq("id", roleId).single();
+  if (!role) throw new AppError("NOT_FOUND", "Role not found");
+
+  const normalized = masks.map((m) => ({ ...m, canWrite: m.canRead && m.canWrite }));
+  const isFull = (m: RoleFieldPermission) => m.canRead && m.canWrite;
+  const restricted = normalized.filter(
+    (m) =>
+      !isFull(m) ||
+      (m.objectTypeId !== null &&
+        normalized.some(
+          (all) =>
+            all.objectTypeId === null &&
+            all.moduleId === m.moduleId &&
+            all.fieldKey === m.fieldKey &&
+            !isFull(all)
+        ))
+  );
+
+  // Every mask must name an existing field of an existing module
+  const moduleIds = [...new Set(restricted.map((m) => m.moduleId))];
+  if (moduleIds.length > 0) {
+    const { data: modules } = await admin
+      .from("modules")
+      .select("id, schema")
+      .in("id", moduleIds);
+    const fieldsByModule = new Map(
+      (modules ?? []).map((m) => [m.id, parseModuleSchema(m.schema).fields.map((f) => f.key)])
+    );
+    for (const m of restricted) {
+      if (!fieldsByModule.get(m.moduleId)?.includes(m.fieldKey)) {
+        throw new AppError("VALIDATION", `Unknown field: ${m.fieldKey}`);
+      }
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const m of restricted) {
+    const key = `${m.moduleId}:${m.objectTypeId ?? "all"}:${m.fieldKey}`;
+    if (seen.has(key)) throw new AppError("VALIDATION", `Duplicate mask for ${m.fieldKey}`);
+    seen.add(key);
+  }
+
+  // Get current masks for audit
+  const { data: oldMasks } = await admin
+    .from("role_field_permissions")
+    .select("module_id, object_type_id, field_key, can_read, can_write")
+    .eq("role_id", roleId);
+
+  // Delete all current masks and re-insert
+  const { error: delErr } = await admin
+    .from("role_field_permissions")
+    .delete()
+    .eq("role_id", roleId);
+
+  if (delErr) throw new AppError("DB_ERROR", delErr.message);
+
+  if (restricted.length > 0) {
+    const { error } = await admin.from("role_field_permissions").insert(
+      restricted.map((m) => ({
+        role_id: roleId,
+        module_id: m.moduleId,
+        object_type_id: m.objectTypeId,
+        field_key: m.fieldKey,
+        can_read: m.canRead,
+        can_write: m.canWrite,
+      }))
+    );
+
+    if (error) throw new AppError("DB_ERROR", error.message);
+  }
+
+  await auditLog(ctx, {
+    action: "role:update_field_permissions",
+    category: "admin",
+    entityType: "role",
+    entityId: roleId,
+    oldValues: { fieldPermissions: oldMasks ?? [] },
+    newValues: { fieldPermissions: restricted },
+  });
+}
+
 /**
  * Update a role's name/description.
  */
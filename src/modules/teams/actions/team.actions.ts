@@ -0,0 +1,80 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getAuthContext } from "@/lib/permissions/rbac";
+import * as teamService from "../services/team.service";
+import type { TeamInput } from "../types/team.types";
+
+export async function createTeamAction(input: TeamInput): Promise<ActionResult<{ id: string }>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Unauthorized" };
+
+    const team = await teamService.createTeam(ctx, input);
+    revalidatePath("/settings/teams");
+    return { success: true, data: { id: team.id } };
+  } catch (err: unknown) {
+    return { success: false, error: err instanceof Error ? err.message : "Failed to create team" };
+  }
+}
+
+export async function updateTeamAction(
+  teamId: string,
+  input: TeamInput
+): Promise<ActionResult<void>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Unauthorized" };
+
+    await teamService.updateTeam(ctx, teamId, input);
+    revalidatePath("/settings/teams");
+    return { success: true, data: undefined };
+  } catch (err: unknown) {
+    return { success: false, error: err instanceof Error ? err.message : "Failed to update team" };
+  }
+}
+
+export async function deleteTeamAction(teamId: string): Promise<ActionResult<void>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Unauthorized" };
+
+    await teamService.deleteTeam(ctx, teamId);
+    revalidatePath("/settings/teams");
+    return { success: true, data: undefined };
+  } catch (err: unknown) {
+    return { success: false, error: err instanceof Error ? err.message : "Failed to delete team" };
+  }
+}
+
+export async function addTeamMemberAction(
+  teamId: string,
+  userId: string
+): Promise<ActionResult<void>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Unauthorized" };
+
+    await teamService.addTeamMember(ctx, teamId, userId);
+    revalidatePath("/settings/teams");
+    return { success: true, data: undefined };
+  } catch (err: unknown) {
+    return { success: false, error: err instanceof Error ? err.message : "Failed to add member" };
+  }
+}
+
+export async function removeTeamMemberAction(
+  teamId: string,
+  userId: string
+): Promise<ActionResult<void>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Unauthorized" };
+
+    await teamService.removeTeamMember(ctx, teamId, userId);
+    revalidatePath("/settings/teams");
+    return { success: true, data: undefined };
+  } catch (err: unknown) {
+    return { success: false, error: err instanceof Error ? err.message : "Failed to remove member" };
+  }
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Edit, Plus, Trash2, UserPlus, X } from "lucide-react";
+import {
+  createTeamAction,
+  updateTeamAction,
+  deleteTeamAction,
+  addTeamMemberAction,
+  removeTeamMemberAction,
+} from "../actions/team.actions";
+import type { Team, TeamInput } from "../types/team.types";
+
+interface Props {
+  teams: Team[];
+  users: { id: string; full_name: string }[];
+}
+
+const EMPTY_INPUT: TeamInput = { name: "", description: "" };
+
+export function TeamManager({ teams, users }: Props) {
+  const router = useRouter();
+  const [editingId, setEditingId] = useState<string | "new" | null>(null);
+  const [form, setForm] = useState<TeamInput>(EMPTY_INPUT);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function startEdit(team: Team) {
+    setForm({ name: team.name, description: team.description ?? "" });
+    setEditingId(team.id);
+  }
+
+  /** Run an action, surfacing its error or refreshing on success */
+  async function run(action: () => Promise<ActionResult<unknown>>, fallback: string) {
+    setError(null);
+    try {
+      const result = await action();
+      if (!result.success) {
+        setError(result.error);
+        return false;
+      }
+      router.refresh();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+      return false;
+    }
+  }
+
+  async function handleSave() {
+    setLoading(true);
+    const ok = await run(
+      () =>
+        editingId === "new"
+          ? createTeamAction(form)
+          : updateTeamAction(editingId as string, form),
+      "Failed to save team"
+    );
+    setLoading(false);
+    if (ok) setEditingId(null);
+  }
+
+  async function handleDelete(team: Team) {
+    if (!confirm(`Delete team "${team.name}"? Records shared with the team lose that access.`)) return;
+    await run(() => deleteTeamAction(team.id), "Failed to delete team");
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600 dark:bg-red-950 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {editingId === null ? (
+        <button
+          onClick={() => {
+            setForm(EMPTY_INPUT);
+            setEditingId("new");
+          }}
+          className="flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+        >
+          <Plus size={16} />
+          Add Team
+        </button>
+      ) : (
+        <div className="space-y-4 rounded-xl border border-gray-200 bg-white p-4 dark:border-gray-800 dark:bg-gray-900">
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Name
+              </label>
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+                placeholder="e.g. EMEA Sales"
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Description
+              </label>
+              <input
+                value={form.description ?? ""}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-end gap-2">
+            <button
+              onClick={() => setEditingId(null)}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-800"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={loading || !form.name.trim()}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loading ? "Saving…" : editingId === "new" ? "Create Team" : "Save Changes"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {teams.length === 0 ? (
+        <div className="rounded-xl border border-gray-200 bg-white p-8 text-center text-sm text-gray-400 dark:border-gray-800 dark:bg-gray-900">
+          No teams yet.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+          {teams.map((team) => {
+            const candidates = users.filter(
+              (u) => !team.members.some((m) => m.userId === u.id)
+            );
+            return (
+              <div
+                key={team.id}
+                className="space-y-3 rounded-xl border border-gray-200 bg-white p-4 dark:border-gray-800 dark:bg-gray-900"
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <h2 className="font-semibold text-gray-900 dark:text-white">{team.name}</h2>
+                    {team.description && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">{team.description}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => startEdit(team)}
+                      className="rounded p-1 text-gray-400 hover:text-blue-600"
+                      title="Edit team"
+                    >
+                      <Edit size={14} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(team)}
+                      className="rounded p-1 text-gray-400 hover:text-red-600"
+                      title="Delete team"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-1.5">
+                  {team.members.length === 0 && (
+                    <span className="text-xs text-gray-400">No members</span>
+                  )}
+                  {team.members.map((m) => (
+                    <span
+                      key={m.userId}
+                      className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2.5 py-1 text-xs font-medium text-gray-700 dark:bg-gray-800 dark:text-gray-300"
+                    >
+                      {m.fullName}
+                      <button
+                        onClick={() =>
+                          run(() => removeTeamMemberAction(team.id, m.userId), "Failed to remove member")
+                        }
+                        className="text-gray-400 hover:text-red-600"
+                        title="Remove from team"
+                      >
+                        <X size={12} />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+
+                {candidates.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <UserPlus size={14} className="text-gray-400" />
+                    <select
+                      value=""
+                      onChange={(e) => {
+                        const userId = e.target.value;
+                        if (userId) {
+                          run(() => addTeamMemberAction(team.id, userId), "Failed to add member");
+                        }
+                      }}
+                      className="flex-1 rounded-lg border border-gray-300 px-2 py-1.5 text-sm dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+                    >
+                      <option value="">Add member…</option>
+                      {candidates.map((u) => (
+                        <option key={u.id} value={u.id}>
+                          {u.full_name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
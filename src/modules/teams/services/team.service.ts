@@ -0,0 +1,252 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+import { requirePermission, type AuthContext } from "@/lib/permissions/rbac";
+import { Actions } from "@/lib/permissions/actions";
+import { auditLog } from "@/lib/audit/logger";
+import { AppError } from "@/lib/utils/errors";
+import type { Team, TeamInput, TeamRow } from "../types/team.types";
+
+function validateInput(input: TeamInput): void {
+  if (!input.name.trim()) throw new AppError("VALIDATION", "Name is required");
+}
+
+async function requireTeam(teamId: string): Promise<TeamRow> {
+  const admin = createAdminClient();
+  const { data } = await admin.from("teams").select("*").eq("id", teamId).single();
+  if (!data) throw new AppError("NOT_FOUND", "Team not found");
+  return data;
+}
+
+/**
+ * Team IDs the user belongs to.
+ */
+export async function getTeamIdsForUser(userId: string): Promise<string[]> {
+  const admin = createAdminClient();
+
+  const { data, error } = await admin
+    .from("team_members")
+    .select("team_id")
+    .eq("user_id", userId);
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+  return (data ?? []).map((m) => m.team_id);
+}
+
+/**
+ * Users sharing at least one team with `userId`, including the user.
+ */
+export async function getTeammateIds(userId: string): Promise<string[]> {
+  const teamIds = await getTeamIdsForUser(userId);
+  if (teamIds.length === 0) return [userId];
+
+  const admin = createAdminClient();
+  const { data, error } = await admin
+    .from("team_members")
+    .select("user_id")
+    .in("team_id", teamIds);
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+  return [...new Set([userId, ...(data ?? []).map((m) => m.user_id)])];
+}
+
+/**
+ * List all teams with their members.
+ */
+export async function getTeams(ctx: AuthContext): Promise<Team[]> {
+  requirePermission(ctx, Actions.TEAM_MANAGE);
+
+  const admin = createAdminClient();
+
+  const { data: teams, error } = await admin
+    .from("teams")
+    .select("*")
+    .order("name");
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  const { data: members } = await admin
+    .from("team_members")
+    .select("team_id, user_id")
+    .order("created_at");
+
+  const userIds = [...new Set((members ?? []).map((m) => m.user_id))];
+  const { data: profiles } = userIds.length > 0
+    ? await admin.from("profiles").select("id, full_name").in("id", userIds)
+    : { data: [] };
+  const nameById = new Map((profiles ?? []).map((p) => [p.id, p.full_name]));
+
+  return (teams ?? []).map((t) => ({
+    id: t.id,
+    name: t.name,
+    description: t.description,
+    members: (members ?? [])
+      .filter((m) => m.team_id === t.id)
+      .map((m) => ({ userId: m.user_id, fullName: nameById.get(m.user_id) ?? "Unknown user" })),
+    createdAt: t.created_at,
+    updatedAt: t.updated_at,
+  }));
+}
+
+/**
+ * List teams as id/name pairs for pickers (e.g. sharing a record).
+ */
+export async function getTeamOptions(): Promise<{ id: string; name: string }[]> {
+  const admin = createAdminClient();
+
+  const { data, error } = await admin
+    .from("teams")
+    .select("id, name")
+    .order("name");
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+  return data ?? [];
+}
+
+/**
+ * Create a team.
+ */
+export async function createTeam(ctx: AuthContext, input: TeamInput): Promise<TeamRow> {
+  requirePermission(ctx, Actions.TEAM_MANAGE);
+  validateInput(input);
+
+  const admin = createAdminClient();
+
+  const { data, error } = await admin
+    .from("teams")
+    .insert({
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      created_by: ctx.userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === "23505") throw new AppError("VALIDATION", "A team with this name already exists");
+    throw new AppError("DB_ERROR", error.message);
+  }
+
+  await auditLog(ctx, {
+    action: "team:create",
+    category: "admin",
+    entityType: "team",
+    entityId: data.id,
+    newValues: { name: data.name },
+  });
+
+  return data;
+}
+
+/**
+ * Rename a team or change its description.
+ */
+export async function updateTeam(
+  ctx: AuthContext,
+  teamId: string,
+  input: TeamInput
+): Promise<void> {
+  requirePermission(ctx, Actions.TEAM_MANAGE);
+  validateInput(input);
+
+  const team = await requireTeam(teamId);
+  const admin = createAdminClient();
+
+  const { error } = await admin
+    .from("teams")
+    .update({ name: input.name.trim(), description: input.description?.trim() || null })
+    .eq("id", teamId);
+
+  if (error) {
+    if (error.code === "23505") throw new AppError("VALIDATION", "A team with this name already exists");
+    throw new AppError("DB_ERROR", error.message);
+  }
+
+  await auditLog(ctx, {
+    action: "team:update",
+    category: "admin",
+    entityType: "team",
+    entityId: teamId,
+    oldValues: { name: team.name, description: team.description },
+    newValues: { name: input.name, description: input.description ?? null },
+  });
+}
+
+/**
+ * Delete a team. Its memberships and share grants go with it.
+ */
+export async function deleteTeam(ctx: AuthContext, teamId: string): Promise<void> {
+  requirePermission(ctx, Actions.TEAM_MANAGE);
+
+  const team = await requireTeam(teamId);
+  const admin = createAdminClient();
+
+  const { error } = await admin.from("teams").delete().eq("id", teamId);
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  await auditLog(ctx, {
+    action: "team:delete",
+    category: "admin",
+    entityType: "team",
+    entityId: teamId,
+    oldValues: { name: team.name },
+  });
+}
+
+/**
+ * Add a user to a team.
+ */
+export async function addTeamMember(
+  ctx: AuthContext,
+  teamId: string,
+  userId: string
+): Promise<void> {
+  requirePermission(ctx, Actions.TEAM_MANAGE);
+
+  await requireTeam(teamId);
+  const admin = createAdminClient();
+
+  const { data: profile } = await admin.from("profiles").select("id").eq("id", userId).single();
+  if (!profile) throw new AppError("NOT_FOUND", "User not found");
+
+  const { error } = await admin
+    .from("team_members")
+    .upsert({ team_id: teamId, user_id: userId }, { onConflict: "team_id,user_id" });
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  await auditLog(ctx, {
+    action: "team:add_member",
+    category: "admin",
+    entityType: "team",
+    entityId: teamId,
+    newValues: { user_id: userId },
+  });
+}
+
+/**
+ * Remove a user from a team.
+ */
+export async function removeTeamMember(
+  ctx: AuthContext,
+  teamId: string,
+  userId: string
+): Promise<void> {
+  requirePermission(ctx, Actions.TEAM_MANAGE);
+
+  const admin = createAdminClient();
+
+  const { error } = await admin
+    .from("team_members")
+    .delete()
+    .eq("team_id", teamId)
+    .eq("user_id", userId);
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  await auditLog(ctx, {
+    action: "team:remove_member",
+    category: "admin",
+    entityType: "team",
+    entityId: teamId,
+    oldValues: { user_id: userId },
+  });
+}
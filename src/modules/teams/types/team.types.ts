@@ -0,0 +1,28 @@
+/**
+ * Team Type Definitions
+ *
+ * Teams group users for the team permission tier (object:<op>:team) and
+ * can receive record share grants as a whole.
+ */
+
+export type TeamRow = TableRow<"teams">;
+export type TeamMemberRow = TableRow<"team_members">;
+
+export interface TeamMember {
+  userId: string;
+  fullName: string;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  description: string | null;
+  members: TeamMember[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TeamInput {
+  name: string;
+  description?: string | null;
+}
@@ -1,6 +1,6 @@
 import { createAdminClient } from "@/lib/supabase/admin";
 import { createClient } from "@/lib/supabase/server";
-import { requirePermission, type AuthContext } from "@/lib/permissions/rbac";
+import { hasPermission, requirePermission, type AuthContext } from "@/lib/permissions/rbac";
 import { Actions } from "@/lib/permissions/actions";
 import { auditLog } from "@/lib/audit/logger";
 import { AppError } from "@/lib/utils/errors";
@@ -54,6 +54,37 @@ export async function getUsers(ctx: AuthContext): Promise<UserWithRoles[]> {
   }));
 }
 
+/** Permissions that show user names: reading records, or managing users, teams or the data model */
+const USER_OPTION_ACTIONS = [
+  Actions.OBJECT_READ,
+  Actions.OBJECT_READ_TEAM,
+  Actions.OBJECT_READ_OWN,
+  Actions.USER_MANAGE,
+  Actions.TEAM_MANAGE,
+  Actions.MODULE_MANAGE,
+];
+
+/**
+ * List users as id/name pairs for pickers (e.g. owner selection).
+ */
+export async function getUserOptions(
+  ctx: AuthContext
+): Promise<{ id: string; full_name: string }[]> {
+  if (!USER_OPTION_ACTIONS.some((action) => hasPermission(ctx, action))) {
+    throw new AppError("FORBIDDEN", "Missing permission to list users");
+  }
+
+  const admin = createAdminClient();
+
+  const { data, error } = await admin
+    .from("profiles")
+    .select("id, full_name")
+    .order("full_name");
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+  return data ?? [];
+}
+
 /**
  * Assign a role to a user.
  */
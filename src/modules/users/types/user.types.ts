@@ -22,4 +22,20 @@ export interface PermissionRow {
 
 export interface RoleWithPermissions extends RoleRow {
   permissions: PermissionRow[];
+  fieldPermissions: RoleFieldPermission[];
+}
+
+/** A field mask of a role; objectTypeId null applies to every type */
+export interface RoleFieldPermission {
+  moduleId: string;
+  objectTypeId: string | null;
+  fieldKey: string;
+  canRead: boolean;
+  canWrite: boolean;
+}
+
+/** Modules, fields and object types a field mask can target */
+export interface FieldPermissionTargets {
+  modules: { id: string; displayName: string; fields: { key: string; label: string }[] }[];
+  objectTypes: { id: string; displayName: string }[];
 }
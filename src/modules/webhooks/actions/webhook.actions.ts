@@ -0,0 +1,94 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getAuthContext } from "@/lib/permissions/rbac";
+import * as webhookService from "../services/webhook.service";
+import type {
+  WebhookDelivery,
+  WebhookDeliveryQuery,
+  WebhookInput,
+} from "../types/webhook.types";
+
+export async function createWebhookAction(
+  input: WebhookInput
+): Promise<ActionResult<{ id: string; secret: string }>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Unauthorized" };
+
+    const { webhook, secret } = await webhookService.createWebhook(ctx, input);
+    revalidatePath("/settings/webhooks");
+    return { success: true, data: { id: webhook.id, secret } };
+  } catch (err: unknown) {
+    return { success: false, error: err instanceof Error ? err.message : "Failed to create webhook" };
+  }
+}
+
+export async function updateWebhookAction(
+  webhookId: string,
+  input: WebhookInput
+): Promise<ActionResult<void>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Unauthorized" };
+
+    await webhookService.updateWebhook(ctx, webhookId, input);
+    revalidatePath("/settings/webhooks");
+    return { success: true, data: undefined };
+  } catch (err: unknown) {
+    return { success: false, error: err instanceof Error ? err.message : "Failed to update webhook" };
+  }
+}
+
+export async function rotateWebhookSecretAction(
+  webhookId: string
+): Promise<ActionResult<{ secret: string }>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Unauthorized" };
+
+    const secret = await webhookService.rotateWebhookSecret(ctx, webhookId);
+    return { success: true, data: { secret } };
+  } catch (err: unknown) {
+    return { success: false, error: err instanceof Error ? err.message : "Failed to rotate secret" };
+  }
+}
+
+export async function deleteWebhookAction(webhookId: string): Promise<ActionResult<void>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Unauthorized" };
+
+    await webhookService.deleteWebhook(ctx, webhookId);
+    revalidatePath("/settings/webhooks");
+    return { success: true, data: undefined };
+  } catch (err: unknown) {
+    return { success: false, error: err instanceof Error ? err.message : "Failed to delete webhook" };
+  }
+}
+
+export async function getWebhookDeliveriesAction(
+  query: WebhookDeliveryQuery
+): Promise<ActionResult<{ deliveries: WebhookDelivery[]; total: number }>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Unauthorized" };
+
+    const data = await webhookService.getWebhookDeliveries(ctx, query);
+    return { success: true, data };
+  } catch (err: unknown) {
+    return { success: false, error: err instanceof Error ? err.message : "Failed to load deliveries" };
+  }
+}
+
+export async function retryWebhookDeliveryAction(deliveryId: string): Promise<ActionResult<void>> {
+  try {
+    const ctx = await getAuthContext();
+    if (!ctx) return { success: false, error: "Unauthorized" };
+
+    await webhookService.retryWebhookDelivery(ctx, deliveryId);
+    return { success: true, data: undefined };
+  } catch (err: unknown) {
+    return { success: false, error: err instanceof Error ? err.message : "Failed to retry delivery" };
+  }
+}
@@ -0,0 +1,285 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { Filter, ChevronLeft, ChevronRight, RotateCw } from "lucide-react";
+import {
+  getWebhookDeliveriesAction,
+  retryWebhookDeliveryAction,
+} from "../actions/webhook.actions";
+import type {
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from "../types/webhook.types";
+
+interface Props {
+  webhooks: Webhook[];
+  initialDeliveries: WebhookDelivery[];
+  initialTotal: number;
+}
+
+const STATUSES: { value: "" | WebhookDeliveryStatus; label: string }[] = [
+  { value: "", label: "All Statuses" },
+  { value: "pending", label: "Pending" },
+  { value: "succeeded", label: "Succeeded" },
+  { value: "failed", label: "Failed" },
+];
+
+const STATUS_COLORS: Record<WebhookDeliveryStatus, string> = {
+  pending: "bg-amber-100 text-amber-700 dark:bg-amber-950 dark:text-amber-300",
+  succeeded: "bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-300",
+  failed: "bg-red-100 text-red-700 dark:bg-red-950 dark:text-red-300",
+};
+
+const PAGE_SIZE = 25;
+
+export function WebhookDeliveryLog({ webhooks, initialDeliveries, initialTotal }: Props) {
+  const [deliveries, setDeliveries] = useState(initialDeliveries);
+  const [total, setTotal] = useState(initialTotal);
+  const [page, setPage] = useState(1);
+  const [webhookId, setWebhookId] = useState("");
+  const [status, setStatus] = useState<"" | WebhookDeliveryStatus>("");
+  const [loading, setLoading] = useState(false);
+  const [retrying, setRetrying] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const totalPages = Math.ceil(total / PAGE_SIZE);
+
+  const fetchDeliveries = useCallback(
+    async (p: number, hookId: string, st: "" | WebhookDeliveryStatus) => {
+      setLoading(true);
+      try {
+        const result = await getWebhookDeliveriesAction({
+          webhookId: hookId || undefined,
+          status: st || undefined,
+          page: p,
+          limit: PAGE_SIZE,
+        });
+        if (!result.success) {
+          setError(result.error);
+          return;
+        }
+        setDeliveries(result.data.deliveries);
+        setTotal(result.data.total);
+      } finally {
+        setLoading(false);
+      }
+    },
+    []
+  );
+
+  // Refetch whenever filter/page changes (skip initial load)
+  useEffect(() => {
+    if (page === 1 && !webhookId && !status) return;
+    fetchDeliveries(page, webhookId, status);
+  }, [page, webhookId, status, fetchDeliveries]);
+
+  async function handleRetry(deliveryId: string) {
+    setError(null);
+    setRetrying(deliveryId);
+    try {
+      const result = await retryWebhookDeliveryAction(deliveryId);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      await fetchDeliveries(page, webhookId, status);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to retry delivery");
+    } finally {
+      setRetrying(null);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600 dark:bg-red-950 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Filter size={16} className="text-gray-400" />
+        <select
+          value={webhookId}
+          onChange={(e) => {
+            setWebhookId(e.target.value);
+            setPage(1);
+          }}
+          className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+        >
+          <option value="">All Webhooks</option>
+          {webhooks.map((w) => (
+            <option key={w.id} value={w.id}>
+              {w.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={status}
+          onChange={(e) => {
+            setStatus(e.target.value as "" | WebhookDeliveryStatus);
+            setPage(1);
+          }}
+          className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+        >
+          {STATUSES.map((s) => (
+            <option key={s.value} value={s.value}>
+              {s.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => fetchDeliveries(page, webhookId, status)}
+          className="rounded-lg border border-gray-300 p-2 text-gray-600 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-gray-800"
+          title="Refresh"
+        >
+          <RotateCw size={14} />
+        </button>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {total} deliver{total === 1 ? "y" : "ies"}
+        </span>
+      </div>
+
+      {/* Table */}
+      <div className="overflow-x-auto rounded-xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-gray-900">
+        <table className="w-full text-left text-sm">
+          <thead className="border-b border-gray-200 bg-gray-50 dark:border-gray-800 dark:bg-gray-900/50">
+            <tr>
+              <th className="px-4 py-3 font-medium text-gray-500 dark:text-gray-400">Time</th>
+              <th className="px-4 py-3 font-medium text-gray-500 dark:text-gray-400">Webhook</th>
+              <th className="px-4 py-3 font-medium text-gray-500 dark:text-gray-400">Event</th>
+              <th className="px-4 py-3 font-medium text-gray-500 dark:text-gray-400">Status</th>
+              <th className="px-4 py-3 font-medium text-gray-500 dark:text-gray-400">Attempts</th>
+              <th className="px-4 py-3 font-medium text-gray-500 dark:text-gray-400">Response</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-gray-400">
+                  <div className="flex items-center justify-center gap-2">
+                    <div className="h-4 w-4 animate-spin rounded-full border-2 border-gray-200 border-t-blue-600" />
+                    Loading…
+                  </div>
+                </td>
+              </tr>
+            ) : deliveries.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-gray-400">
+                  No deliveries yet.
+                </td>
+              </tr>
+            ) : (
+              deliveries.map((d) => (
+                <Fragment key={d.id}>
+                  <tr
+                    onClick={() => setExpandedId(expandedId === d.id ? null : d.id)}
+                    className="cursor-pointer border-b border-gray-100 last:border-0 hover:bg-gray-50 dark:border-gray-800/50 dark:hover:bg-gray-800/30"
+                  >
+                    <td className="whitespace-nowrap px-4 py-3 text-gray-600 dark:text-gray-400">
+                      {new Date(d.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700 dark:text-gray-300">{d.webhookName}</td>
+                    <td className="px-4 py-3 font-mono text-xs text-gray-700 dark:text-gray-300">
+                      {d.event}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_COLORS[d.status]}`}
+                      >
+                        {d.status}
+                      </span>
+                      {d.status === "pending" && d.attempts > 0 && (
+                        <p className="mt-0.5 text-xs text-gray-400">
+                          next {new Date(d.nextAttemptAt).toLocaleTimeString()}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600 dark:text-gray-400">{d.attempts}</td>
+                    <td className="px-4 py-3 text-gray-600 dark:text-gray-400">
+                      {d.responseStatus ?? (d.error ? "—" : "")}
+                      {d.durationMs !== null && (
+                        <span className="ml-1 text-xs text-gray-400">{d.durationMs}ms</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {d.status !== "succeeded" && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleRetry(d.id);
+                          }}
+                          disabled={retrying === d.id}
+                          className="rounded px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 disabled:opacity-50 dark:hover:bg-blue-950"
+                        >
+                          {retrying === d.id ? "Sending…" : "Retry"}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {expandedId === d.id && (
+                    <tr>
+                      <td colSpan={7} className="bg-gray-50 px-4 py-3 dark:bg-gray-800/50">
+                        <div className="grid grid-cols-2 gap-4 text-xs">
+                          <div>
+                            <h4 className="mb-1 font-semibold text-gray-600 dark:text-gray-400">
+                              Payload
+                            </h4>
+                            <pre className="max-h-60 overflow-auto rounded bg-white p-2 text-gray-700 dark:bg-gray-900 dark:text-gray-300">
+                              {JSON.stringify(d.payload, null, 2)}
+                            </pre>
+                          </div>
+                          <div>
+                            <h4 className="mb-1 font-semibold text-gray-600 dark:text-gray-400">
+                              Last Response
+                            </h4>
+                            {d.error && (
+                              <p className="mb-1 text-red-600 dark:text-red-400">{d.error}</p>
+                            )}
+                            <pre className="max-h-60 overflow-auto rounded bg-white p-2 text-gray-700 dark:bg-gray-900 dark:text-gray-300">
+                              {d.responseBody || "No response body."}
+                            </pre>
+                          </div>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Page {page} of {totalPages}
+          </p>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="rounded-lg border border-gray-300 p-2 text-sm text-gray-600 hover:bg-gray-50 disabled:opacity-40 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-gray-800"
+            >
+              <ChevronLeft size={16} />
+            </button>
+            <button
+              onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+              disabled={page === totalPages}
+              className="rounded-lg border border-gray-300 p-2 text-sm text-gray-600 hover:bg-gray-50 disabled:opacity-40 dark:border-gray-700 dark:text-gray-400 dark:hover:bg-gray-800"
+            >
+              <ChevronRight size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
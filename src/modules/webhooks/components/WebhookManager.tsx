@@ -0,0 +1,376 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Plus, Trash2, Edit, KeyRound, X, ToggleLeft, ToggleRight } from "lucide-react";
+import {
+  createWebhookAction,
+  updateWebhookAction,
+  rotateWebhookSecretAction,
+  deleteWebhookAction,
+} from "../actions/webhook.actions";
+import type { Webhook, WebhookEvent, WebhookInput } from "../types/webhook.types";
+import { WebhookEvents } from "../types/webhook.types";
+
+interface Props {
+  initialWebhooks: Webhook[];
+  objectTypes: { id: string; display_name: string }[];
+}
+
+const EMPTY_INPUT: WebhookInput = {
+  name: "",
+  url: "",
+  events: [],
+  objectTypeIds: [],
+  isActive: true,
+};
+
+export function WebhookManager({ initialWebhooks, objectTypes }: Props) {
+  const router = useRouter();
+  const [webhooks, setWebhooks] = useState(initialWebhooks);
+  const [editingId, setEditingId] = useState<string | "new" | null>(null);
+  const [form, setForm] = useState<WebhookInput>(EMPTY_INPUT);
+  const [revealedSecret, setRevealedSecret] = useState<{ webhookId: string; secret: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Sync with server data after router.refresh()
+  useEffect(() => {
+    setWebhooks(initialWebhooks);
+  }, [initialWebhooks]);
+
+  function startCreate() {
+    setForm(EMPTY_INPUT);
+    setEditingId("new");
+  }
+
+  function startEdit(webhook: Webhook) {
+    setForm({
+      name: webhook.name,
+      url: webhook.url,
+      events: webhook.events,
+      objectTypeIds: webhook.objectTypeIds,
+      isActive: webhook.isActive,
+    });
+    setEditingId(webhook.id);
+  }
+
+  function toggleEvent(event: WebhookEvent) {
+    setForm((prev) => ({
+      ...prev,
+      events: prev.events.includes(event)
+        ? prev.events.filter((e) => e !== event)
+        : [...prev.events, event],
+    }));
+  }
+
+  function toggleObjectType(id: string) {
+    setForm((prev) => ({
+      ...prev,
+      objectTypeIds: prev.objectTypeIds.includes(id)
+        ? prev.objectTypeIds.filter((t) => t !== id)
+        : [...prev.objectTypeIds, id],
+    }));
+  }
+
+  async function handleSave() {
+    setError(null);
+    setLoading(true);
+    try {
+      if (editingId === "new") {
+        const result = await createWebhookAction(form);
+        if (!result.success) {
+          setError(result.error);
+          return;
+        }
+        setRevealedSecret({ webhookId: result.data.id, secret: result.data.secret });
+      } else if (editingId) {
+        const result = await updateWebhookAction(editingId, form);
+        if (!result.success) {
+          setError(result.error);
+          return;
+        }
+      }
+      setEditingId(null);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save webhook");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleToggle(webhook: Webhook) {
+    setError(null);
+    try {
+      const result = await updateWebhookAction(webhook.id, {
+        name: webhook.name,
+        url: webhook.url,
+        events: webhook.events,
+        objectTypeIds: webhook.objectTypeIds,
+        isActive: !webhook.isActive,
+      });
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update webhook");
+    }
+  }
+
+  async function handleRotate(webhook: Webhook) {
+    if (!confirm(`Rotate the signing secret for "${webhook.name}"? The old secret stops working immediately.`)) return;
+    setError(null);
+    try {
+      const result = await rotateWebhookSecretAction(webhook.id);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      setRevealedSecret({ webhookId: webhook.id, secret: result.data.secret });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to rotate secret");
+    }
+  }
+
+  async function handleDelete(webhook: Webhook) {
+    if (!confirm(`Delete webhook "${webhook.name}" and its delivery log?`)) return;
+    setError(null);
+    try {
+      const result = await deleteWebhookAction(webhook.id);
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete webhook");
+    }
+  }
+
+  const typeName = (id: string) =>
+    objectTypes.find((t) => t.id === id)?.display_name ?? "Unknown type";
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600 dark:bg-red-950 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {revealedSecret && (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-200">
+          <div className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <p className="font-medium">Signing secret — copy it now, it won&apos;t be shown again.</p>
+              <code className="mt-2 block break-all rounded bg-white px-2 py-1 font-mono text-xs dark:bg-gray-900">
+                {revealedSecret.secret}
+              </code>
+            </div>
+            <button
+              onClick={() => setRevealedSecret(null)}
+              className="rounded p-1 hover:bg-amber-100 dark:hover:bg-amber-900"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {editingId === null ? (
+        <button
+          onClick={startCreate}
+          className="flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+        >
+          <Plus size={16} />
+          Add Webhook
+        </button>
+      ) : (
+        <div className="space-y-4 rounded-xl border border-gray-200 bg-white p-4 dark:border-gray-800 dark:bg-gray-900">
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Name
+              </label>
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+                placeholder="e.g. ERP sync"
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Endpoint URL
+              </label>
+              <input
+                value={form.url}
+                onChange={(e) => setForm({ ...form, url: e.target.value })}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm dark:border-gray-700 dark:bg-gray-800 dark:text-white"
+                placeholder="https://example.com/hooks/aresscrm"
+              />
+            </div>
+          </div>
+
+          <div>
+            <p className="mb-2 text-sm font-medium text-gray-700 dark:text-gray-300">Events</p>
+            <div className="grid grid-cols-1 gap-1.5 sm:grid-cols-2 lg:grid-cols-3">
+              {WebhookEvents.map((e) => (
+                <label
+                  key={e.value}
+                  className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400"
+                >
+                  <input
+                    type="checkbox"
+                    checked={form.events.includes(e.value)}
+                    onChange={() => toggleEvent(e.value)}
+                  />
+                  {e.label}
+                  <span className="font-mono text-xs text-gray-400">{e.value}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="mb-1 text-sm font-medium text-gray-700 dark:text-gray-300">
+              Object types
+            </p>
+            <p className="mb-2 text-xs text-gray-400">
+              Leave empty to receive events for every object type.
+            </p>
+            <div className="flex flex-wrap gap-1.5">
+              {objectTypes.map((t) => (
+                <button
+                  key={t.id}
+                  type="button"
+                  onClick={() => toggleObjectType(t.id)}
+                  className={`rounded-full px-2.5 py-1 text-xs font-medium ${
+                    form.objectTypeIds.includes(t.id)
+                      ? "bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-300"
+                      : "bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-400"
+                  }`}
+                >
+                  {t.display_name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-end gap-2">
+            <button
+              onClick={() => setEditingId(null)}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-800"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={loading || !form.name.trim() || !form.url.trim() || form.events.length === 0}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loading ? "Saving…" : editingId === "new" ? "Create Webhook" : "Save Changes"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-gray-900">
+        <table className="w-full text-left text-sm">
+          <thead className="border-b border-gray-200 bg-gray-50 dark:border-gray-800 dark:bg-gray-900/50">
+            <tr>
+              <th className="px-4 py-3 font-medium text-gray-500 dark:text-gray-400">Webhook</th>
+              <th className="px-4 py-3 font-medium text-gray-500 dark:text-gray-400">Events</th>
+              <th className="px-4 py-3 font-medium text-gray-500 dark:text-gray-400">Object types</th>
+              <th className="px-4 py-3 font-medium text-gray-500 dark:text-gray-400">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {webhooks.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="px-4 py-8 text-center text-gray-400">
+                  No webhooks configured.
+                </td>
+              </tr>
+            ) : (
+              webhooks.map((webhook) => (
+                <tr
+                  key={webhook.id}
+                  className="border-b border-gray-100 last:border-0 hover:bg-gray-50 dark:border-gray-800/50 dark:hover:bg-gray-800/30"
+                >
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900 dark:text-white">{webhook.name}</span>
+                      {!webhook.isActive && (
+                        <span className="rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-500 dark:bg-gray-800 dark:text-gray-400">
+                          Paused
+                        </span>
+                      )}
+                    </div>
+                    <p className="mt-0.5 max-w-xs truncate font-mono text-xs text-gray-400">{webhook.url}</p>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex flex-wrap gap-1">
+                      {webhook.events.map((e) => (
+                        <span
+                          key={e}
+                          className="rounded bg-gray-100 px-1.5 py-0.5 font-mono text-xs text-gray-600 dark:bg-gray-800 dark:text-gray-400"
+                        >
+                          {e}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-gray-600 dark:text-gray-400">
+                    {webhook.objectTypeIds.length === 0
+                      ? "All"
+                      : webhook.objectTypeIds.map(typeName).join(", ")}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => handleToggle(webhook)}
+                        className="rounded p-1 text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+                        title={webhook.isActive ? "Pause" : "Resume"}
+                      >
+                        {webhook.isActive ? (
+                          <ToggleRight size={16} className="text-green-600" />
+                        ) : (
+                          <ToggleLeft size={16} />
+                        )}
+                      </button>
+                      <button
+                        onClick={() => startEdit(webhook)}
+                        className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-blue-600 dark:hover:bg-gray-800"
+                        title="Edit"
+                      >
+                        <Edit size={14} />
+                      </button>
+                      <button
+                        onClick={() => handleRotate(webhook)}
+                        className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-amber-600 dark:hover:bg-gray-800"
+                        title="Rotate secret"
+                      >
+                        <KeyRound size={14} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(webhook)}
+                        className="rounded p-1 text-gray-400 hover:bg-red-50 hover:text-red-600 dark:hover:bg-red-950"
+                        title="Delete"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
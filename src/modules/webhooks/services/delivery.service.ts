@@ -0,0 +1,293 @@
+/**
+ * Webhook Delivery Service
+ *
+ * Turns audited events into queued webhook deliveries and works the queue.
+ *
+ * Deliveries are POSTed as JSON with these headers:
+ *   X-AressCRM-Event      event name (e.g. object:create)
+ *   X-AressCRM-Delivery   delivery id (stable across retries)
+ *   X-AressCRM-Timestamp  unix seconds at send time
+ *   X-AressCRM-Signature  sha256=<hex HMAC of "<timestamp>.<body>" keyed by the secret>
+ *
+ * Failed attempts are retried with exponential backoff. The queue is worked
+ * right after each request that enqueues deliveries, and by
+ * POST /api/webhooks/deliver for scheduled retries.
+ */
+
+import { createHmac } from "node:crypto";
+import { after } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { Json } from "@/lib/supabase/database.types";
+import type { WebhookEvent, WebhookPayload } from "../types/webhook.types";
+import { AUDIT_ACTION_EVENT_ALIASES, WebhookEvents } from "../types/webhook.types";
+
+const MAX_ATTEMPTS = 6;
+const BASE_BACKOFF_SECONDS = 30;
+const REQUEST_TIMEOUT_MS = 10_000;
+/** How long a claimed delivery is hidden from other queue workers */
+const CLAIM_LEASE_SECONDS = 60;
+const MAX_RESPONSE_BODY = 2_000;
+
+interface AuditedEvent {
+  action: string;
+  entityType?: string;
+  entityId?: string;
+  oldValues?: Record<string, unknown>;
+  newValues?: Record<string, unknown>;
+  metadata?: Record<string, unknown>;
+}
+
+// ── Helpers ──────────────────────────────────
+
+function toWebhookEvent(action: string): WebhookEvent | null {
+  const event = AUDIT_ACTION_EVENT_ALIASES[action] ?? action;
+  return WebhookEvents.some((e) => e.value === event) ? (event as WebhookEvent) : null;
+}
+
+/**
+ * Sign a delivery body. Receivers recompute this over the raw body and the
+ * X-AressCRM-Timestamp header, and compare with X-AressCRM-Signature.
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/** Delay before the next attempt, after `attempts` failed attempts */
+function backoffSeconds(attempts: number): number {
+  return BASE_BACKOFF_SECONDS * 2 ** (attempts - 1);
+}
+
+/**
+ * Object types touched by an event: the entity itself, both ends of a
+ * relation, or the type recorded on a deleted object.
+ */
+async function resolveObjectTypeIds(
+  admin: ReturnType<typeof createAdminClient>,
+  entry: AuditedEvent
+): Promise<string[]> {
+  const objectIds = new Set<string>();
+  const typeIds = new Set<string>();
+
+  if (entry.entityId && entry.entityType !== "relation") objectIds.add(entry.entityId);
+  for (const values of [entry.newValues, entry.oldValues]) {
+    for (const key of ["fromObjectId", "toObjectId", "from_object_id", "to_object_id"]) {
+      if (typeof values?.[key] === "string") objectIds.add(values[key] as string);
+    }
+    if (typeof values?.object_type_id === "string") typeIds.add(values.object_type_id);
+  }
+
+  if (objectIds.size > 0) {
+    const { data } = await admin
+      .from("objects")
+      .select("object_type_id")
+      .in("id", [...objectIds]);
+    for (const o of data ?? []) typeIds.add(o.object_type_id);
+  }
+
+  return [...typeIds];
+}
+
+/**
+ * Run the queue after the response is sent. Outside a request scope
+ * (scripts, tests) fall back to a detached promise.
+ */
+function scheduleQueueRun(): void {
+  try {
+    after(() => processWebhookQueue());
+  } catch {
+    void processWebhookQueue();
+  }
+}
+
+// ── Queue ────────────────────────────────────
+
+/**
+ * Queue a delivery for every active webhook subscribed to an audited event.
+ * Never throws — webhooks must not block the mutation being audited.
+ */
+export async function enqueueWebhookEvent(
+  actorId: string | null,
+  entry: AuditedEvent
+): Promise<void> {
+  const event = toWebhookEvent(entry.action);
+  if (!event) return;
+
+  try {
+    const admin = createAdminClient();
+
+    const { data: webhooks } = await admin
+      .from("webhooks")
+      .select("id, object_type_ids")
+      .eq("is_active", true)
+      .contains("events", [event]);
+
+    if (!webhooks || webhooks.length === 0) return;
+
+    const objectTypeIds = await resolveObjectTypeIds(admin, entry);
+    const occurredAt = new Date().toISOString();
+
+    const inserts = webhooks
+      .filter(
+        (w) =>
+          w.object_type_ids.length === 0 ||
+          objectTypeIds.length === 0 ||
+          objectTypeIds.some((id) => w.object_type_ids.includes(id))
+      )
+      .map((w) => {
+        const payload: Omit<WebhookPayload, "id"> = {
+          event,
+          occurredAt,
+          actorId,
+          entityType: entry.entityType ?? null,
+          entityId: entry.entityId ?? null,
+          objectTypeIds,
+          data: {
+            oldValues: entry.oldValues,
+            newValues: entry.newValues,
+            metadata: entry.metadata,
+          },
+        };
+        return {
+          webhook_id: w.id,
+          event,
+          payload: payload as unknown as Json,
+        };
+      });
+
+    if (inserts.length === 0) return;
+
+    const { error } = await admin.from("webhook_deliveries").insert(inserts);
+    if (error) return;
+
+    scheduleQueueRun();
+  } catch {
+    // non-critical — don't block the audited mutation
+  }
+}
+
+/**
+ * Attempt one delivery and record the outcome. The caller must have
+ * claimed the delivery.
+ */
+export async function attemptDelivery(deliveryId: string): Promise<void> {
+  const admin = createAdminClient();
+
+  const { data: delivery } = await admin
+    .from("webhook_deliveries")
+    .select("*, webhooks(url, secret, is_active)")
+    .eq("id", deliveryId)
+    .single();
+
+  if (!delivery) return;
+
+  const webhook = (delivery as unknown as {
+    webhooks: { url: string; secret: string; is_active: boolean } | null;
+  }).webhooks;
+
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+
+  if (!webhook || !webhook.is_active) {
+    await admin
+      .from("webhook_deliveries")
+      .update({
+        status: "failed",
+        attempts,
+        last_attempt_at: now.toISOString(),
+        error: "Webhook is disabled",
+      })
+      .eq("id", deliveryId);
+    return;
+  }
+
+  const body = JSON.stringify({ id: delivery.id, ...(delivery.payload as object) });
+  const timestamp = Math.floor(now.getTime() / 1000);
+  const started = Date.now();
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const res = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "AressCRM-Webhooks/1.0",
+        "X-AressCRM-Event": delivery.event,
+        "X-AressCRM-Delivery": delivery.id,
+        "X-AressCRM-Timestamp": String(timestamp),
+        "X-AressCRM-Signature": signPayload(webhook.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = res.status;
+    responseBody = (await res.text()).slice(0, MAX_RESPONSE_BODY);
+    if (!res.ok) error = `HTTP ${res.status}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : "Request failed";
+  }
+
+  const succeeded = !error;
+  const exhausted = !succeeded && attempts >= MAX_ATTEMPTS;
+
+  await admin
+    .from("webhook_deliveries")
+    .update({
+      status: succeeded ? "succeeded" : exhausted ? "failed" : "pending",
+      attempts,
+      last_attempt_at: now.toISOString(),
+      next_attempt_at: succeeded || exhausted
+        ? now.toISOString()
+        : new Date(now.getTime() + backoffSeconds(attempts) * 1000).toISOString(),
+      response_status: responseStatus,
+      response_body: responseBody,
+      error,
+      duration_ms: Date.now() - started,
+    })
+    .eq("id", deliveryId);
+}
+
+/**
+ * Deliver pending deliveries whose next attempt is due.
+ * Each delivery is claimed first so concurrent workers don't send it twice.
+ */
+export async function processWebhookQueue(
+  limit = 20
+): Promise<{ processed: number }> {
+  const admin = createAdminClient();
+  const now = new Date();
+
+  const { data: due } = await admin
+    .from("webhook_deliveries")
+    .select("id, next_attempt_at")
+    .eq("status", "pending")
+    .lte("next_attempt_at", now.toISOString())
+    .order("next_attempt_at")
+    .limit(limit);
+
+  let processed = 0;
+  for (const d of due ?? []) {
+    const { data: claimed } = await admin
+      .from("webhook_deliveries")
+      .update({
+        next_attempt_at: new Date(now.getTime() + CLAIM_LEASE_SECONDS * 1000).toISOString(),
+      })
+      .eq("id", d.id)
+      .eq("status", "pending")
+      .eq("next_attempt_at", d.next_attempt_at)
+      .select("id");
+
+    if (!claimed || claimed.length === 0) continue;
+
+    try {
+      await attemptDelivery(d.id);
+      processed++;
+    } catch {
+      // leave it pending — the lease expires and it is picked up again
+    }
+  }
+
+  return { processed };
+}
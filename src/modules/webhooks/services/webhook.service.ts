@@ -0,0 +1,296 @@
+import { randomBytes } from "node:crypto";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { requirePermission, type AuthContext } from "@/lib/permissions/rbac";
+import { Actions } from "@/lib/permissions/actions";
+import { auditLog } from "@/lib/audit/logger";
+import { AppError } from "@/lib/utils/errors";
+import type {
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryQuery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookInput,
+  WebhookPayload,
+  WebhookRow,
+} from "../types/webhook.types";
+import { WebhookEvents } from "../types/webhook.types";
+import { attemptDelivery } from "./delivery.service";
+
+function mapWebhook(row: WebhookRow): Webhook {
+  return {
+    id: row.id,
+    name: row.name,
+    url: row.url,
+    events: row.events as WebhookEvent[],
+    objectTypeIds: row.object_type_ids,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+function validateInput(input: WebhookInput): void {
+  if (!input.name.trim()) throw new AppError("VALIDATION", "Name is required");
+
+  let url: URL;
+  try {
+    url = new URL(input.url);
+  } catch {
+    throw new AppError("VALIDATION", "URL is not valid");
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new AppError("VALIDATION", "URL must use http or https");
+  }
+
+  if (input.events.length === 0) {
+    throw new AppError("VALIDATION", "Select at least one event");
+  }
+  const unknown = input.events.filter((e) => !WebhookEvents.some((we) => we.value === e));
+  if (unknown.length > 0) {
+    throw new AppError("VALIDATION", `Unknown events: ${unknown.join(", ")}`);
+  }
+}
+
+/**
+ * List all webhooks. Secrets are not included.
+ */
+export async function getWebhooks(ctx: AuthContext): Promise<Webhook[]> {
+  requirePermission(ctx, Actions.SETTINGS_MANAGE);
+
+  const admin = createAdminClient();
+
+  const { data, error } = await admin
+    .from("webhooks")
+    .select("*")
+    .order("created_at", { ascending: false });
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+  return (data ?? []).map(mapWebhook);
+}
+
+/**
+ * Create a webhook. The generated signing secret is returned once.
+ */
+export async function createWebhook(
+  ctx: AuthContext,
+  input: WebhookInput
+): Promise<{ webhook: Webhook; secret: string }> {
+  requirePermission(ctx, Actions.SETTINGS_MANAGE);
+  validateInput(input);
+
+  const admin = createAdminClient();
+  const secret = generateSecret();
+
+  const { data, error } = await admin
+    .from("webhooks")
+    .insert({
+      name: input.name.trim(),
+      url: input.url.trim(),
+      secret,
+      events: input.events,
+      object_type_ids: input.objectTypeIds,
+      is_active: input.isActive ?? true,
+      created_by: ctx.userId,
+    })
+    .select()
+    .single();
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  await auditLog(ctx, {
+    action: "webhook:create",
+    category: "settings",
+    entityType: "webhook",
+    entityId: data.id,
+    newValues: input as unknown as Record<string, unknown>,
+  });
+
+  return { webhook: mapWebhook(data), secret };
+}
+
+/**
+ * Update a webhook's name, URL, filters or active flag.
+ */
+export async function updateWebhook(
+  ctx: AuthContext,
+  webhookId: string,
+  input: WebhookInput
+): Promise<Webhook> {
+  requirePermission(ctx, Actions.SETTINGS_MANAGE);
+  validateInput(input);
+
+  const admin = createAdminClient();
+
+  const { data: old } = await admin
+    .from("webhooks")
+    .select("*")
+    .eq("id", webhookId)
+    .single();
+
+  if (!old) throw new AppError("NOT_FOUND", "Webhook not found");
+
+  const { data, error } = await admin
+    .from("webhooks")
+    .update({
+      name: input.name.trim(),
+      url: input.url.trim(),
+      events: input.events,
+      object_type_ids: input.objectTypeIds,
+      is_active: input.isActive ?? old.is_active,
+    })
+    .eq("id", webhookId)
+    .select()
+    .single();
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  await auditLog(ctx, {
+    action: "webhook:update",
+    category: "settings",
+    entityType: "webhook",
+    entityId: webhookId,
+    oldValues: mapWebhook(old) as unknown as Record<string, unknown>,
+    newValues: input as unknown as Record<string, unknown>,
+  });
+
+  return mapWebhook(data);
+}
+
+/**
+ * Replace a webhook's signing secret. The new secret is returned once.
+ */
+export async function rotateWebhookSecret(
+  ctx: AuthContext,
+  webhookId: string
+): Promise<string> {
+  requirePermission(ctx, Actions.SETTINGS_MANAGE);
+
+  const admin = createAdminClient();
+  const secret = generateSecret();
+
+  const { data, error } = await admin
+    .from("webhooks")
+    .update({ secret })
+    .eq("id", webhookId)
+    .select("id")
+    .single();
+
+  if (error || !data) throw new AppError("NOT_FOUND", "Webhook not found");
+
+  await auditLog(ctx, {
+    action: "webhook:rotate_secret",
+    category: "settings",
+    entityType: "webhook",
+    entityId: webhookId,
+  });
+
+  return secret;
+}
+
+/**
+ * Delete a webhook and its delivery log.
+ */
+export async function deleteWebhook(
+  ctx: AuthContext,
+  webhookId: string
+): Promise<void> {
+  requirePermission(ctx, Actions.SETTINGS_MANAGE);
+
+  const admin = createAdminClient();
+
+  const { data: old } = await admin
+    .from("webhooks")
+    .select("*")
+    .eq("id", webhookId)
+    .single();
+
+  if (!old) throw new AppError("NOT_FOUND", "Webhook not found");
+
+  const { error } = await admin.from("webhooks").delete().eq("id", webhookId);
+
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  await auditLog(ctx, {
+    action: "webhook:delete",
+    category: "settings",
+    entityType: "webhook",
+    entityId: webhookId,
+    oldValues: mapWebhook(old) as unknown as Record<string, unknown>,
+  });
+}
+
+/**
+ * Browse the delivery log, newest first.
+ */
+export async function getWebhookDeliveries(
+  ctx: AuthContext,
+  query: WebhookDeliveryQuery = {}
+): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+  requirePermission(ctx, Actions.SETTINGS_MANAGE);
+
+  const admin = createAdminClient();
+  const page = query.page ?? 1;
+  const limit = query.limit ?? 25;
+
+  let q = admin
+    .from("webhook_deliveries")
+    .select("*, webhooks(name)", { count: "exact" })
+    .order("created_at", { ascending: false })
+    .range((page - 1) * limit, page * limit - 1);
+
+  if (query.webhookId) q = q.eq("webhook_id", query.webhookId);
+  if (query.status) q = q.eq("status", query.status);
+
+  const { data, count, error } = await q;
+  if (error) throw new AppError("DB_ERROR", error.message);
+
+  const deliveries = (data ?? []).map((d) => ({
+    id: d.id,
+    webhookId: d.webhook_id,
+    webhookName: (d as unknown as { webhooks: { name: string } | null }).webhooks?.name ?? "Deleted webhook",
+    event: d.event,
+    payload: { id: d.id, ...(d.payload as object) } as WebhookPayload,
+    status: d.status as WebhookDeliveryStatus,
+    attempts: d.attempts,
+    nextAttemptAt: d.next_attempt_at,
+    lastAttemptAt: d.last_attempt_at,
+    responseStatus: d.response_status,
+    responseBody: d.response_body,
+    error: d.error,
+    durationMs: d.duration_ms,
+    createdAt: d.created_at,
+  }));
+
+  return { deliveries, total: count ?? 0 };
+}
+
+/**
+ * Re-send a delivery immediately, regardless of its backoff schedule.
+ */
+export async function retryWebhookDelivery(
+  ctx: AuthContext,
+  deliveryId: string
+): Promise<void> {
+  requirePermission(ctx, Actions.SETTINGS_MANAGE);
+
+  const admin = createAdminClient();
+
+  const { data, error } = await admin
+    .from("webhook_deliveries")
+    .update({ status: "pending", next_attempt_at: new Date().toISOString() })
+    .eq("id", deliveryId)
+    .neq("status", "succeeded")
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    throw new AppError("VALIDATION", "Delivery not found or already succeeded");
+  }
+
+  await attemptDelivery(deliveryId);
+}
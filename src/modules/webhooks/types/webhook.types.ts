@@ -0,0 +1,106 @@
+/**
+ * Webhook Type Definitions
+ *
+ * Webhook events reuse the audit action names, so every audited mutation
+ * listed in WebhookEvents can be subscribed to.
+ */
+
+export type WebhookRow = TableRow<"webhooks">;
+export type WebhookDeliveryRow = TableRow<"webhook_deliveries">;
+
+// ── Event Catalogue ──────────────────────────
+
+export const WebhookEvents = [
+  { value: "object:create", label: "Object created" },
+  { value: "object:update_module", label: "Object module updated" },
+  { value: "object:update_owner", label: "Object owner changed" },
+  { value: "object:attach_module", label: "Module attached" },
+  { value: "object:detach_module", label: "Module detached" },
+  { value: "object:delete", label: "Object moved to trash" },
+  { value: "object:restore", label: "Object restored" },
+  { value: "object:purge", label: "Object deleted permanently" },
+  { value: "object:revert", label: "Object reverted to a version" },
+  { value: "object:merge", label: "Duplicate objects merged" },
+  { value: "relation:create", label: "Relation created" },
+  { value: "relation:delete", label: "Relation deleted" },
+  { value: "proposal:submit", label: "Proposal submitted" },
+  { value: "proposal:accept", label: "Proposal accepted" },
+  { value: "proposal:reject", label: "Proposal rejected" },
+] as const;
+
+export type WebhookEvent = (typeof WebhookEvents)[number]["value"];
+
+/** Audit actions whose webhook event name differs from the action */
+export const AUDIT_ACTION_EVENT_ALIASES: Record<string, WebhookEvent> = {
+  "marketplace:proposal:submit": "proposal:submit",
+  "marketplace:proposal:accept": "proposal:accept",
+  "marketplace:proposal:reject": "proposal:reject",
+};
+
+// ── Subscriptions ────────────────────────────
+
+/** A webhook as shown to admins — the secret is never sent to the client */
+export interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  objectTypeIds: string[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookInput {
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  objectTypeIds: string[];
+  isActive?: boolean;
+}
+
+// ── Deliveries ───────────────────────────────
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  webhookName: string;
+  event: string;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  createdAt: string;
+}
+
+export interface WebhookDeliveryQuery {
+  webhookId?: string;
+  status?: WebhookDeliveryStatus;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * JSON body POSTed to subscribers.
+ */
+export interface WebhookPayload {
+  id: string;
+  event: string;
+  occurredAt: string;
+  actorId: string | null;
+  entityType: string | null;
+  entityId: string | null;
+  objectTypeIds: string[];
+  data: {
+    oldValues?: Record<string, unknown>;
+    newValues?: Record<string, unknown>;
+    metadata?: Record<string, unknown>;
+  };
+}
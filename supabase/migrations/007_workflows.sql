@@ -0,0 +1,38 @@
+-- ============================================================================
+-- Migration 007: Stage Workflows
+--
+-- Declarative stage-transition workflows per object type. A workflow names the
+-- module field that holds the stage (e.g. stage.status), the states it can take,
+-- and the transitions allowed between them.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS object_type_workflows (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  object_type_id UUID NOT NULL UNIQUE REFERENCES object_types(id) ON DELETE CASCADE,
+  module_name    TEXT NOT NULL DEFAULT 'stage',
+  field_key      TEXT NOT NULL DEFAULT 'status',
+  -- States: [{ value, label, color?, isInitial?, isTerminal? }]
+  states         JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Transitions: [{ from, to, requiredFields?: [{ module, field }] }]
+  transitions    JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_active      BOOLEAN NOT NULL DEFAULT true,
+  created_by     UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE object_type_workflows IS 'Stage-transition workflow per object type. Enforced by the object service when the stage field changes.';
+COMMENT ON COLUMN object_type_workflows.module_name IS 'Module holding the stage field (e.g. "stage")';
+COMMENT ON COLUMN object_type_workflows.field_key IS 'Field key inside the module holding the stage value (e.g. "status")';
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_workflows_object_type ON object_type_workflows(object_type_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_object_type_workflows_updated_at
+  BEFORE UPDATE ON object_type_workflows
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- RLS — read for all authenticated, write via service_role
+ALTER TABLE object_type_workflows ENABLE ROW LEVEL SECURITY;
+CREATE POLICY workflows_read ON object_type_workflows FOR SELECT TO authenticated USING (true);
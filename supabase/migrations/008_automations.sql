@@ -0,0 +1,40 @@
+-- ============================================================================
+-- Migration 008: Automation Rules
+--
+-- Per-object-type automation rules. A rule fires on an object lifecycle
+-- trigger, checks conditions over module data, and runs a list of actions.
+-- Every run is recorded in audit_logs (action = 'automation:run').
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS automation_rules (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  object_type_id UUID NOT NULL REFERENCES object_types(id) ON DELETE CASCADE,
+  name           TEXT NOT NULL,
+  description    TEXT,
+  -- Trigger: { type, module?, field?, stage?, relationType? }
+  trigger        JSONB NOT NULL,
+  -- Conditions (ANDed): [{ module, field, operator, value? }]
+  conditions     JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Actions (run in order): [{ type, ... }]
+  actions        JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_active      BOOLEAN NOT NULL DEFAULT true,
+  position       INT NOT NULL DEFAULT 0,
+  created_by     UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE automation_rules IS 'Automation rules per object type: trigger + conditions + actions.';
+COMMENT ON COLUMN automation_rules.trigger IS 'object_created | field_changed | stage_entered | relation_added, with optional module/field/stage/relationType filters';
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_automation_rules_type ON automation_rules(object_type_id, position);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_automation_rules_updated_at
+  BEFORE UPDATE ON automation_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- RLS — read for all authenticated, write via service_role
+ALTER TABLE automation_rules ENABLE ROW LEVEL SECURITY;
+CREATE POLICY automation_rules_read ON automation_rules FOR SELECT TO authenticated USING (true);
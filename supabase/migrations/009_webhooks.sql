@@ -0,0 +1,64 @@
+-- ============================================================================
+-- Migration 009: Outbound Webhooks
+--
+-- Webhook subscriptions and their delivery queue. Events are the audit action
+-- names (object:create, relation:create, proposal:accept, ...). Each matching
+-- event is queued as a delivery, POSTed with an HMAC-SHA256 signature, and
+-- retried with exponential backoff until it succeeds or runs out of attempts.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS webhooks (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name            TEXT NOT NULL,
+  url             TEXT NOT NULL,
+  secret          TEXT NOT NULL,
+  -- Subscribed event names, e.g. {object:create, relation:create}
+  events          TEXT[] NOT NULL DEFAULT '{}',
+  -- Optional object type filter (empty = all types)
+  object_type_ids UUID[] NOT NULL DEFAULT '{}',
+  is_active       BOOLEAN NOT NULL DEFAULT true,
+  created_by      UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE webhooks IS 'Outbound webhook subscriptions. The secret signs every delivery.';
+COMMENT ON COLUMN webhooks.object_type_ids IS 'Only object/relation events touching these object types are delivered (empty = all)';
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id      UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  event           TEXT NOT NULL,
+  payload         JSONB NOT NULL,
+  -- pending → succeeded | failed (after max attempts)
+  status          TEXT NOT NULL DEFAULT 'pending'
+                  CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts        INT NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_attempt_at TIMESTAMPTZ,
+  response_status INT,
+  response_body   TEXT,
+  error           TEXT,
+  duration_ms     INT,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE webhook_deliveries IS 'Webhook delivery queue and log. Pending rows are picked up once next_attempt_at has passed.';
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at DESC);
+
+-- Triggers for updated_at
+CREATE TRIGGER update_webhooks_updated_at
+  BEFORE UPDATE ON webhooks
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER update_webhook_deliveries_updated_at
+  BEFORE UPDATE ON webhook_deliveries
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- RLS — no policies: secrets and payloads are only accessible via service_role
+ALTER TABLE webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
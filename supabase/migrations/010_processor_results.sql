@@ -0,0 +1,33 @@
+-- ============================================================================
+-- Migration 010: Processor Results
+--
+-- Stores the output of scheduled processor runs so insights (health score,
+-- staleness, weighted value, ...) can be tracked over time and dashboards can
+-- read them instead of recomputing on every request.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS processor_results (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- All results written by one scheduled run share a run_id
+  run_id         UUID NOT NULL,
+  object_id      UUID NOT NULL REFERENCES objects(id) ON DELETE CASCADE,
+  object_type_id UUID NOT NULL REFERENCES object_types(id) ON DELETE CASCADE,
+  processor      TEXT NOT NULL,
+  success        BOOLEAN NOT NULL,
+  data           JSONB,
+  error          TEXT,
+  -- Module fields the result was computed from, as 'module_id:field_key'
+  source_fields  TEXT[] NOT NULL DEFAULT '{}',
+  computed_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE processor_results IS 'Processor outputs persisted by scheduled runs. One row per object, processor and run.';
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_processor_results_object ON processor_results(object_id, processor, computed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_processor_results_processor ON processor_results(processor, computed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_processor_results_run ON processor_results(run_id);
+
+-- RLS — results come from every module and field, so only service_role
+-- reads them (the service drops results built from fields the reader can't see)
+ALTER TABLE processor_results ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,44 @@
+-- ============================================================================
+-- Migration 011: Module Schema Versions
+--
+-- Every change to a module's schema creates a new version. Each version
+-- records the declared field migrations (rename key, set default, map select
+-- options, drop field) and the progress of the batch job that rewrites
+-- existing object_modules.data to match the new schema.
+-- ============================================================================
+
+ALTER TABLE modules ADD COLUMN IF NOT EXISTS schema_version INT NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS module_schema_versions (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  module_id       UUID NOT NULL REFERENCES modules(id) ON DELETE CASCADE,
+  version         INT NOT NULL,
+  schema          JSONB NOT NULL,
+  -- Ordered list of field migrations applied to existing data
+  migrations      JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- pending → running → completed | failed
+  status          TEXT NOT NULL DEFAULT 'completed'
+                  CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  affected_count  INT NOT NULL DEFAULT 0,
+  processed_count INT NOT NULL DEFAULT 0,
+  error           TEXT,
+  created_by      UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at    TIMESTAMPTZ,
+  UNIQUE (module_id, version)
+);
+
+COMMENT ON TABLE module_schema_versions IS 'Schema history per module, with the data migrations declared for each change and their batch job status.';
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_module_schema_versions_module ON module_schema_versions(module_id, version DESC);
+CREATE INDEX IF NOT EXISTS idx_module_schema_versions_status ON module_schema_versions(status) WHERE status IN ('pending', 'running');
+
+-- Existing schemas become version 1
+INSERT INTO module_schema_versions (module_id, version, schema)
+SELECT id, 1, schema FROM modules
+ON CONFLICT (module_id, version) DO NOTHING;
+
+-- RLS — read for all authenticated, write via service_role
+ALTER TABLE module_schema_versions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY module_schema_versions_read ON module_schema_versions FOR SELECT TO authenticated USING (true);
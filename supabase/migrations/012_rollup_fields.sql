@@ -0,0 +1,62 @@
+-- ============================================================================
+-- Migration 012: Rollup Fields
+--
+-- Rollup fields aggregate data from related objects onto an object type,
+-- through a schema-level relation (object_type_relations): e.g. the count of
+-- a company's deals, the sum of their monetary.amount, or the latest deal's
+-- stage. Related objects are the ones linked through object_relations whose
+-- type is the other end of the relation definition.
+--
+-- Values are materialized in rollup_values and refreshed incrementally when
+-- relations or related module data change.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS rollup_fields (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- The object type the rollup is shown on
+  object_type_id UUID NOT NULL REFERENCES object_types(id) ON DELETE CASCADE,
+  relation_id    UUID NOT NULL REFERENCES object_type_relations(id) ON DELETE CASCADE,
+  key            TEXT NOT NULL,
+  label          TEXT NOT NULL,
+  aggregate      TEXT NOT NULL CHECK (aggregate IN ('count', 'sum', 'avg', 'min', 'max', 'latest')),
+  -- Field of the related objects to aggregate (NULL for count)
+  module_name    TEXT,
+  field_key      TEXT,
+  created_by     UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (object_type_id, key),
+  CHECK (aggregate = 'count' OR (module_name IS NOT NULL AND field_key IS NOT NULL))
+);
+
+COMMENT ON TABLE rollup_fields IS 'Aggregates over related objects, defined per object type through a schema-level relation.';
+COMMENT ON COLUMN rollup_fields.aggregate IS 'count | sum | avg | min | max | latest (value of the most recently created related object)';
+
+CREATE TABLE IF NOT EXISTS rollup_values (
+  rollup_id     UUID NOT NULL REFERENCES rollup_fields(id) ON DELETE CASCADE,
+  object_id     UUID NOT NULL REFERENCES objects(id) ON DELETE CASCADE,
+  value         JSONB,
+  related_count INT NOT NULL DEFAULT 0,
+  computed_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (rollup_id, object_id)
+);
+
+COMMENT ON TABLE rollup_values IS 'Materialized rollup values, one row per rollup field and object.';
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_rollup_fields_type ON rollup_fields(object_type_id);
+CREATE INDEX IF NOT EXISTS idx_rollup_fields_relation ON rollup_fields(relation_id);
+CREATE INDEX IF NOT EXISTS idx_rollup_values_object ON rollup_values(object_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_rollup_fields_updated_at
+  BEFORE UPDATE ON rollup_fields
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- RLS — definitions readable by all authenticated, write via service_role
+ALTER TABLE rollup_fields ENABLE ROW LEVEL SECURITY;
+CREATE POLICY rollup_fields_read ON rollup_fields FOR SELECT TO authenticated USING (true);
+
+-- Values aggregate fields the reader may not see, so only service_role
+-- reads them (the service checks module and field permissions)
+ALTER TABLE rollup_values ENABLE ROW LEVEL SECURITY;
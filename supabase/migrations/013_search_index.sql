@@ -0,0 +1,152 @@
+-- ============================================================================
+-- Migration 013: Full-text Search Index
+--
+-- One search document per object module, built from every text-like field
+-- declared in the module's schema (text, email, phone, url, textarea, select,
+-- multiselect). Documents are kept per module so search can drop modules the
+-- reader isn't allowed to see. Triggers keep the index current when module
+-- data or schemas change.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS object_search_index (
+  object_id      UUID NOT NULL REFERENCES objects(id) ON DELETE CASCADE,
+  module_id      UUID NOT NULL REFERENCES modules(id) ON DELETE CASCADE,
+  object_type_id UUID NOT NULL REFERENCES object_types(id) ON DELETE CASCADE,
+  content        TEXT NOT NULL DEFAULT '',
+  document       TSVECTOR NOT NULL DEFAULT ''::tsvector,
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (object_id, module_id)
+);
+
+COMMENT ON TABLE object_search_index IS 'Full-text search documents, one per object module, from the text-like fields of the module schema.';
+
+CREATE INDEX IF NOT EXISTS idx_object_search_document ON object_search_index USING GIN (document);
+CREATE INDEX IF NOT EXISTS idx_object_search_type ON object_search_index(object_type_id);
+
+-- ──────────────────────────────────────────────
+-- Document builder
+-- ──────────────────────────────────────────────
+
+-- Concatenate the text-like field values of module data, per the module schema
+CREATE OR REPLACE FUNCTION build_search_content(p_module_id uuid, p_data jsonb)
+RETURNS text LANGUAGE sql STABLE AS $$
+  SELECT COALESCE(string_agg(val, ' '), '')
+  FROM modules m
+  CROSS JOIN LATERAL jsonb_array_elements(COALESCE(m.schema->'fields', '[]'::jsonb)) AS f
+  CROSS JOIN LATERAL (
+    SELECT CASE jsonb_typeof(p_data->(f->>'key'))
+      WHEN 'array' THEN (
+        SELECT string_agg(elem, ' ')
+        FROM jsonb_array_elements_text(p_data->(f->>'key')) AS elem
+      )
+      WHEN 'string' THEN p_data->>(f->>'key')
+      ELSE NULL
+    END AS val
+  ) v
+  WHERE m.id = p_module_id
+    AND f->>'type' IN ('text', 'email', 'phone', 'url', 'textarea', 'select', 'multiselect')
+    AND v.val IS NOT NULL
+    AND v.val <> '';
+$$;
+
+-- Recompute the search document of one object module
+CREATE OR REPLACE FUNCTION index_object_module(p_object_id uuid, p_module_id uuid, p_data jsonb)
+RETURNS void LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_content text := build_search_content(p_module_id, p_data);
+BEGIN
+  INSERT INTO object_search_index (object_id, module_id, object_type_id, content, document, updated_at)
+  SELECT p_object_id, p_module_id, o.object_type_id, v_content, to_tsvector('simple', v_content), now()
+  FROM objects o
+  WHERE o.id = p_object_id
+  ON CONFLICT (object_id, module_id) DO UPDATE
+    SET content = EXCLUDED.content,
+        document = EXCLUDED.document,
+        updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+-- ──────────────────────────────────────────────
+-- Maintenance triggers
+-- ──────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION object_modules_search_sync()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM object_search_index
+    WHERE object_id = OLD.object_id AND module_id = OLD.module_id;
+    RETURN OLD;
+  END IF;
+
+  PERFORM index_object_module(NEW.object_id, NEW.module_id, NEW.data);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER object_modules_search_index
+  AFTER INSERT OR UPDATE OF data OR DELETE ON object_modules
+  FOR EACH ROW EXECUTE FUNCTION object_modules_search_sync();
+
+-- A schema change can add or remove text-like fields: rebuild the module's documents
+CREATE OR REPLACE FUNCTION modules_search_reindex()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF NEW.schema IS DISTINCT FROM OLD.schema THEN
+    PERFORM index_object_module(om.object_id, om.module_id, om.data)
+    FROM object_modules om
+    WHERE om.module_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER modules_search_reindex
+  AFTER UPDATE OF schema ON modules
+  FOR EACH ROW EXECUTE FUNCTION modules_search_reindex();
+
+-- ──────────────────────────────────────────────
+-- Query
+-- ──────────────────────────────────────────────
+
+-- Ranked matches per object module. p_query is a tsquery in 'simple'
+-- configuration (the service builds prefix queries like 'acme:* & co:*').
+-- Record scope works as in query_objects() and applies before the limit,
+-- so matches outside it never crowd out the reader's own records.
+CREATE OR REPLACE FUNCTION search_object_index(
+  p_query text,
+  p_object_type_id uuid DEFAULT NULL,
+  p_scope_user_ids uuid[] DEFAULT NULL,
+  p_scope_object_ids uuid[] DEFAULT '{}',
+  p_limit int DEFAULT 200
+)
+RETURNS TABLE (object_id uuid, module_id uuid, object_type_id uuid, rank real)
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT si.object_id, si.module_id, si.object_type_id,
+         ts_rank(si.document, to_tsquery('simple', p_query)) AS rank
+  FROM object_search_index si
+  JOIN objects o ON o.id = si.object_id
+  WHERE si.document @@ to_tsquery('simple', p_query)
+    AND (p_object_type_id IS NULL OR si.object_type_id = p_object_type_id)
+    AND (p_scope_user_ids IS NULL
+      OR o.owner_id = ANY(p_scope_user_ids)
+      OR o.created_by = ANY(p_scope_user_ids)
+      OR o.id = ANY(p_scope_object_ids))
+  ORDER BY rank DESC
+  LIMIT p_limit;
+$$;
+
+-- The caller passes the record scope, and documents hold hidden fields too,
+-- so only the server may search or write the index
+REVOKE EXECUTE ON FUNCTION search_object_index FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_object_index TO service_role;
+REVOKE EXECUTE ON FUNCTION index_object_module FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION index_object_module TO service_role;
+
+-- Backfill existing data
+SELECT index_object_module(om.object_id, om.module_id, om.data)
+FROM object_modules om;
+
+-- RLS — no policies: documents carry every text field, hidden ones
+-- included, so only service_role reads them (write via triggers)
+ALTER TABLE object_search_index ENABLE ROW LEVEL SECURITY;
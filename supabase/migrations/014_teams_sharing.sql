@@ -0,0 +1,235 @@
+-- ============================================================================
+-- Migration 014: Teams and Record Sharing
+--
+-- Adds a team tier between "own" and "all" record access: users with
+-- object:<op>:team may act on records owned or created by anyone they share
+-- a team with. Per-record share grants give a user or a whole team read or
+-- write access to a single object.
+--
+-- The app enforces these rules in the object service (all writes go through
+-- service_role); the RLS policies below mirror them for direct client access.
+-- ============================================================================
+
+-- ──────────────────────────────────────────────
+-- 1. Teams
+-- ──────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS teams (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name        TEXT NOT NULL UNIQUE,
+  description TEXT,
+  created_by  UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE teams IS 'Groups of users. Team-scoped permissions grant access to records owned or created by teammates.';
+
+CREATE TABLE IF NOT EXISTS team_members (
+  team_id    UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  user_id    UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (team_id, user_id)
+);
+
+COMMENT ON TABLE team_members IS 'Team membership. A user may belong to several teams.';
+
+CREATE INDEX IF NOT EXISTS idx_team_members_user ON team_members(user_id);
+
+CREATE TRIGGER update_teams_updated_at
+  BEFORE UPDATE ON teams
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ──────────────────────────────────────────────
+-- 2. Record Shares
+-- ──────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS record_shares (
+  id         UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  object_id  UUID NOT NULL REFERENCES objects(id) ON DELETE CASCADE,
+  user_id    UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  team_id    UUID REFERENCES teams(id) ON DELETE CASCADE,
+  access     TEXT NOT NULL DEFAULT 'read' CHECK (access IN ('read', 'write')),
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT record_shares_one_grantee CHECK ((user_id IS NULL) <> (team_id IS NULL))
+);
+
+COMMENT ON TABLE record_shares IS 'Explicit per-record grants to a user or a team. write implies read; neither grants delete.';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_record_shares_user
+  ON record_shares(object_id, user_id) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_record_shares_team
+  ON record_shares(object_id, team_id) WHERE team_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_record_shares_grantee_user ON record_shares(user_id);
+CREATE INDEX IF NOT EXISTS idx_record_shares_grantee_team ON record_shares(team_id);
+
+-- ──────────────────────────────────────────────
+-- 3. Permissions
+-- ──────────────────────────────────────────────
+
+INSERT INTO permissions (action, description) VALUES
+  ('object:read:team',   'Read objects owned or created by teammates'),
+  ('object:update:team', 'Update objects owned or created by teammates'),
+  ('object:delete:team', 'Delete objects owned or created by teammates'),
+  ('object:share',       'Share objects with users and teams'),
+  ('team:manage',        'Create teams and manage their members')
+ON CONFLICT (action) DO NOTHING;
+
+-- Admin gets all new permissions
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r, permissions p
+WHERE r.name = 'admin'
+  AND p.action IN (
+    'object:read:team', 'object:update:team', 'object:delete:team',
+    'object:share', 'team:manage'
+  )
+ON CONFLICT DO NOTHING;
+
+-- Manager can share records and manage teams
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r, permissions p
+WHERE r.name = 'manager'
+  AND p.action IN ('object:share', 'team:manage')
+ON CONFLICT DO NOTHING;
+
+-- Sales rep can share the records they may edit
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r, permissions p
+WHERE r.name = 'sales_rep'
+  AND p.action IN ('object:share')
+ON CONFLICT DO NOTHING;
+
+-- ──────────────────────────────────────────────
+-- 4. Access helpers
+-- ──────────────────────────────────────────────
+
+-- Whether the current user holds a permission action through any role
+CREATE OR REPLACE FUNCTION auth_has_permission(p_action text)
+RETURNS boolean LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_roles ur
+    JOIN role_permissions rp ON rp.role_id = ur.role_id
+    JOIN permissions p ON p.id = rp.permission_id
+    WHERE ur.user_id = auth.uid() AND p.action = p_action
+  );
+$$;
+
+-- Whether the current user shares a team with p_user_id
+CREATE OR REPLACE FUNCTION auth_is_teammate(p_user_id uuid)
+RETURNS boolean LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT p_user_id IS NOT NULL AND EXISTS (
+    SELECT 1
+    FROM team_members mine
+    JOIN team_members theirs ON theirs.team_id = mine.team_id
+    WHERE mine.user_id = auth.uid() AND theirs.user_id = p_user_id
+  );
+$$;
+
+-- Whether the current user may read ('read'), edit ('update') or delete
+-- ('delete') an object: own records, then the team tier, then "all", then
+-- share grants (read/update only).
+CREATE OR REPLACE FUNCTION auth_can_access_object(p_object_id uuid, p_level text)
+RETURNS boolean LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_owner uuid;
+  v_creator uuid;
+BEGIN
+  SELECT owner_id, created_by INTO v_owner, v_creator FROM objects WHERE id = p_object_id;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF v_owner = auth.uid() OR v_creator = auth.uid() THEN
+    RETURN true;
+  END IF;
+
+  IF auth_has_permission('object:' || p_level) THEN
+    RETURN true;
+  END IF;
+
+  IF auth_has_permission('object:' || p_level || ':team')
+     AND (auth_is_teammate(v_owner) OR auth_is_teammate(v_creator)) THEN
+    RETURN true;
+  END IF;
+
+  IF p_level = 'delete' THEN
+    RETURN false;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM record_shares s
+    WHERE s.object_id = p_object_id
+      AND (p_level = 'read' OR s.access = 'write')
+      AND (
+        s.user_id = auth.uid()
+        OR s.team_id IN (SELECT team_id FROM team_members WHERE user_id = auth.uid())
+      )
+  );
+END;
+$$;
+
+-- ──────────────────────────────────────────────
+-- 5. Row-Level Security
+-- ──────────────────────────────────────────────
+
+-- Teams — read for all authenticated, write via service_role
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+CREATE POLICY teams_read ON teams FOR SELECT TO authenticated USING (true);
+
+ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
+CREATE POLICY team_members_read ON team_members FOR SELECT TO authenticated USING (true);
+
+-- Record shares — visible to whoever can read the record, write via service_role
+ALTER TABLE record_shares ENABLE ROW LEVEL SECURITY;
+CREATE POLICY record_shares_read ON record_shares FOR SELECT TO authenticated
+  USING (auth_can_access_object(object_id, 'read'));
+
+-- Objects
+DROP POLICY IF EXISTS objects_read ON objects;
+DROP POLICY IF EXISTS objects_update ON objects;
+DROP POLICY IF EXISTS objects_delete ON objects;
+CREATE POLICY objects_read ON objects FOR SELECT TO authenticated
+  USING (auth_can_access_object(id, 'read'));
+CREATE POLICY objects_update ON objects FOR UPDATE TO authenticated
+  USING (auth_can_access_object(id, 'update'));
+CREATE POLICY objects_delete ON objects FOR DELETE TO authenticated
+  USING (auth_can_access_object(id, 'delete'));
+
+-- Object Modules
+DROP POLICY IF EXISTS object_modules_read ON object_modules;
+DROP POLICY IF EXISTS object_modules_insert ON object_modules;
+DROP POLICY IF EXISTS object_modules_update ON object_modules;
+DROP POLICY IF EXISTS object_modules_delete ON object_modules;
+CREATE POLICY object_modules_read ON object_modules FOR SELECT TO authenticated
+  USING (auth_can_access_object(object_id, 'read'));
+CREATE POLICY object_modules_insert ON object_modules FOR INSERT TO authenticated
+  WITH CHECK (auth_can_access_object(object_id, 'update'));
+CREATE POLICY object_modules_update ON object_modules FOR UPDATE TO authenticated
+  USING (auth_can_access_object(object_id, 'update'));
+CREATE POLICY object_modules_delete ON object_modules FOR DELETE TO authenticated
+  USING (auth_can_access_object(object_id, 'update'));
+
+-- Object Relations
+DROP POLICY IF EXISTS object_relations_read ON object_relations;
+DROP POLICY IF EXISTS object_relations_insert ON object_relations;
+DROP POLICY IF EXISTS object_relations_delete ON object_relations;
+CREATE POLICY object_relations_read ON object_relations FOR SELECT TO authenticated
+  USING (
+    auth_can_access_object(from_object_id, 'read')
+    OR auth_can_access_object(to_object_id, 'read')
+  );
+CREATE POLICY object_relations_insert ON object_relations FOR INSERT TO authenticated
+  WITH CHECK (
+    auth_can_access_object(from_object_id, 'update')
+    AND auth_can_access_object(to_object_id, 'update')
+  );
+CREATE POLICY object_relations_delete ON object_relations FOR DELETE TO authenticated
+  USING (
+    auth_can_access_object(from_object_id, 'update')
+    AND auth_can_access_object(to_object_id, 'update')
+  );
@@ -0,0 +1,45 @@
+-- ============================================================================
+-- Migration 015: Field-Level Permissions
+--
+-- role_module_permissions grants access to a whole module. Field masks narrow
+-- that down per role: a row hides a single field of a module (can_read =
+-- false) or makes it read-only (can_write = false), either for one object
+-- type or — with object_type_id NULL — for every type.
+--
+-- Fields without a mask inherit the module permission. Masks combine across
+-- a user's roles like module permissions do: a field stays hidden only if
+-- every role that can read the module hides it.
+--
+-- Module data is JSONB, so masks are enforced in the object service (reads
+-- are redacted, writes rejected) rather than by RLS.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS role_field_permissions (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  role_id        UUID NOT NULL REFERENCES roles(id) ON DELETE CASCADE,
+  module_id      UUID NOT NULL REFERENCES modules(id) ON DELETE CASCADE,
+  object_type_id UUID REFERENCES object_types(id) ON DELETE CASCADE, -- NULL = all types
+  field_key      TEXT NOT NULL,
+  can_read       BOOLEAN NOT NULL DEFAULT false,
+  can_write      BOOLEAN NOT NULL DEFAULT false,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Write access to a field the role can't read makes no sense
+  CONSTRAINT role_field_permissions_write_needs_read CHECK (can_read OR NOT can_write),
+  UNIQUE NULLS NOT DISTINCT (role_id, module_id, object_type_id, field_key)
+);
+
+COMMENT ON TABLE role_field_permissions IS 'Per-role field masks inside a module. Hides a field or makes it read-only; unmasked fields inherit role_module_permissions.';
+
+CREATE INDEX IF NOT EXISTS idx_role_field_perms_role ON role_field_permissions(role_id);
+
+CREATE TRIGGER update_role_field_permissions_updated_at
+  BEFORE UPDATE ON role_field_permissions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ──────────────────────────────────────────────
+-- RLS
+-- ──────────────────────────────────────────────
+
+ALTER TABLE role_field_permissions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY role_field_permissions_read ON role_field_permissions FOR SELECT TO authenticated USING (true);
@@ -0,0 +1,275 @@
+-- ============================================================================
+-- Migration 016: Trash (soft delete)
+--
+-- Deleting an object now only stamps deleted_at / deleted_by. Its modules,
+-- relations and shares stay in place, so restoring the object (clearing
+-- deleted_at) brings everything back. Trashed objects are purged for good
+-- once they are older than the retention period (TRASH_RETENTION_DAYS, see
+-- POST /api/objects/trash/purge) — the existing ON DELETE CASCADE clean-up
+-- applies at that point.
+--
+-- Every read path excludes trashed objects: the service layer filters on
+-- deleted_at IS NULL, and the dashboard / search / access functions below
+-- are recreated with the same filter.
+-- ============================================================================
+
+ALTER TABLE objects
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN objects.deleted_at IS 'When the object was moved to the trash. NULL = live object.';
+COMMENT ON COLUMN objects.deleted_by IS 'Who moved the object to the trash.';
+
+-- The trash page and the purge job only ever look at trashed rows
+CREATE INDEX IF NOT EXISTS idx_objects_deleted_at ON objects(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- ──────────────────────────────────────────────
+-- Engine helpers (from 004)
+-- ──────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION count_objects_by_type()
+RETURNS TABLE (
+  object_type_id uuid,
+  type_name text,
+  display_name text,
+  icon text,
+  color text,
+  count bigint
+) LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ot.id AS object_type_id,
+    ot.name AS type_name,
+    ot.display_name,
+    COALESCE(ot.icon, 'Box') AS icon,
+    COALESCE(ot.color, '#6B7280') AS color,
+    COUNT(o.id) AS count
+  FROM object_types ot
+  LEFT JOIN objects o ON o.object_type_id = ot.id AND o.deleted_at IS NULL
+  GROUP BY ot.id, ot.name, ot.display_name, ot.icon, ot.color
+  ORDER BY ot.name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION aggregate_module_field(
+  p_module_name text,
+  p_field_key text,
+  p_agg_type text DEFAULT 'sum'
+)
+RETURNS numeric LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  result numeric;
+  agg_fn text;
+BEGIN
+  -- Validate aggregation type
+  agg_fn := CASE p_agg_type
+    WHEN 'sum' THEN 'SUM'
+    WHEN 'avg' THEN 'AVG'
+    WHEN 'count' THEN 'COUNT'
+    WHEN 'min' THEN 'MIN'
+    WHEN 'max' THEN 'MAX'
+    ELSE 'SUM'
+  END;
+
+  EXECUTE format(
+    'SELECT %s((om.data->>%L)::numeric)
+     FROM object_modules om
+     JOIN modules m ON m.id = om.module_id
+     JOIN objects o ON o.id = om.object_id AND o.deleted_at IS NULL
+     WHERE m.name = %L',
+    agg_fn, p_field_key, p_module_name
+  ) INTO result;
+  RETURN COALESCE(result, 0);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION count_by_module_field(
+  p_module_name text,
+  p_field_key text
+)
+RETURNS TABLE (field_value text, count bigint) LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    om.data->>p_field_key AS field_value,
+    COUNT(*) AS count
+  FROM object_modules om
+  JOIN modules m ON m.id = om.module_id
+  JOIN objects o ON o.id = om.object_id AND o.deleted_at IS NULL
+  WHERE m.name = p_module_name
+    AND om.data->>p_field_key IS NOT NULL
+  GROUP BY om.data->>p_field_key
+  ORDER BY count DESC;
+END;
+$$;
+
+-- ──────────────────────────────────────────────
+-- Dashboard helpers (from 005)
+-- ──────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION pipeline_distribution(p_object_type TEXT DEFAULT NULL)
+RETURNS TABLE(status TEXT, count BIGINT, color TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COALESCE(om.data->>'status', 'unknown') AS status,
+    COUNT(*)::BIGINT AS count,
+    COALESCE(
+      (SELECT opt->>'color'
+       FROM modules m2,
+            jsonb_array_elements(m2.schema->'fields') AS f,
+            jsonb_array_elements(f->'options') AS opt
+       WHERE m2.name = 'stage'
+         AND f->>'key' = 'status'
+         AND opt->>'value' = COALESCE(om.data->>'status', 'unknown')
+       LIMIT 1),
+      '#6B7280'
+    ) AS color
+  FROM object_modules om
+  JOIN modules m ON m.id = om.module_id AND m.name = 'stage'
+  JOIN objects o ON o.id = om.object_id
+  LEFT JOIN object_types ot ON ot.id = o.object_type_id
+  WHERE (p_object_type IS NULL OR ot.name = p_object_type)
+    AND o.deleted_at IS NULL
+  GROUP BY om.data->>'status'
+  ORDER BY count DESC;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION monetary_summary(p_object_type TEXT DEFAULT NULL)
+RETURNS TABLE(
+  total_value NUMERIC,
+  avg_value NUMERIC,
+  total_weighted NUMERIC,
+  deal_count BIGINT,
+  currency TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COALESCE(SUM((om.data->>'amount')::NUMERIC), 0) AS total_value,
+    COALESCE(AVG((om.data->>'amount')::NUMERIC), 0) AS avg_value,
+    COALESCE(SUM(
+      (om.data->>'amount')::NUMERIC *
+      COALESCE((om.data->>'probability')::NUMERIC / 100.0, 0.5)
+    ), 0) AS total_weighted,
+    COUNT(*)::BIGINT AS deal_count,
+    COALESCE(MODE() WITHIN GROUP (ORDER BY om.data->>'currency'), 'USD') AS currency
+  FROM object_modules om
+  JOIN modules m ON m.id = om.module_id AND m.name = 'monetary'
+  JOIN objects o ON o.id = om.object_id
+  LEFT JOIN object_types ot ON ot.id = o.object_type_id
+  WHERE (p_object_type IS NULL OR ot.name = p_object_type)
+    AND o.deleted_at IS NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION conversion_rate(p_object_type TEXT DEFAULT NULL)
+RETURNS TABLE(won_count BIGINT, lost_count BIGINT, total_closed BIGINT, rate NUMERIC) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) FILTER (WHERE om.data->>'status' IN ('won', 'completed'))::BIGINT AS won_count,
+    COUNT(*) FILTER (WHERE om.data->>'status' = 'lost')::BIGINT AS lost_count,
+    COUNT(*) FILTER (WHERE om.data->>'status' IN ('won', 'completed', 'lost'))::BIGINT AS total_closed,
+    CASE
+      WHEN COUNT(*) FILTER (WHERE om.data->>'status' IN ('won', 'completed', 'lost')) = 0 THEN 0
+      ELSE ROUND(
+        COUNT(*) FILTER (WHERE om.data->>'status' IN ('won', 'completed'))::NUMERIC /
+        COUNT(*) FILTER (WHERE om.data->>'status' IN ('won', 'completed', 'lost'))::NUMERIC * 100,
+        1
+      )
+    END AS rate
+  FROM object_modules om
+  JOIN modules m ON m.id = om.module_id AND m.name = 'stage'
+  JOIN objects o ON o.id = om.object_id
+  LEFT JOIN object_types ot ON ot.id = o.object_type_id
+  WHERE (p_object_type IS NULL OR ot.name = p_object_type)
+    AND o.deleted_at IS NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION monthly_object_evolution(p_months INT DEFAULT 6)
+RETURNS TABLE(month TEXT, count BIGINT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    to_char(date_trunc('month', o.created_at), 'YYYY-MM') AS month,
+    COUNT(*)::BIGINT AS count
+  FROM objects o
+  WHERE o.created_at >= date_trunc('month', now()) - (p_months || ' months')::INTERVAL
+    AND o.deleted_at IS NULL
+  GROUP BY date_trunc('month', o.created_at)
+  ORDER BY date_trunc('month', o.created_at);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ──────────────────────────────────────────────
+-- Search (from 013)
+-- ──────────────────────────────────────────────
+
+-- Trashed objects keep their index rows so a restore needs no reindex
+CREATE OR REPLACE FUNCTION search_object_index(
+  p_query text,
+  p_object_type_id uuid DEFAULT NULL,
+  p_limit int DEFAULT 200
+)
+RETURNS TABLE (object_id uuid, module_id uuid, object_type_id uuid, rank real)
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT si.object_id, si.module_id, si.object_type_id,
+         ts_rank(si.document, to_tsquery('simple', p_query)) AS rank
+  FROM object_search_index si
+  JOIN objects o ON o.id = si.object_id AND o.deleted_at IS NULL
+  WHERE si.document @@ to_tsquery('simple', p_query)
+    AND (p_object_type_id IS NULL OR si.object_type_id = p_object_type_id)
+  ORDER BY rank DESC
+  LIMIT p_limit;
+$$;
+
+-- ──────────────────────────────────────────────
+-- Record access (from 014)
+-- ──────────────────────────────────────────────
+
+-- Trashed objects are only reachable through the service role (trash page)
+CREATE OR REPLACE FUNCTION auth_can_access_object(p_object_id uuid, p_level text)
+RETURNS boolean LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_owner uuid;
+  v_creator uuid;
+BEGIN
+  SELECT owner_id, created_by INTO v_owner, v_creator
+  FROM objects
+  WHERE id = p_object_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF v_owner = auth.uid() OR v_creator = auth.uid() THEN
+    RETURN true;
+  END IF;
+
+  IF auth_has_permission('object:' || p_level) THEN
+    RETURN true;
+  END IF;
+
+  IF auth_has_permission('object:' || p_level || ':team')
+     AND (auth_is_teammate(v_owner) OR auth_is_teammate(v_creator)) THEN
+    RETURN true;
+  END IF;
+
+  IF p_level = 'delete' THEN
+    RETURN false;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM record_shares s
+    WHERE s.object_id = p_object_id
+      AND (p_level = 'read' OR s.access = 'write')
+      AND (
+        s.user_id = auth.uid()
+        OR s.team_id IN (SELECT team_id FROM team_members WHERE user_id = auth.uid())
+      )
+  );
+END;
+$$;
@@ -0,0 +1,88 @@
+-- ============================================================================
+-- Migration 017: Duplicate Detection & Merge
+--
+-- duplicate_rules define, per object type, when two objects are likely the
+-- same record: every match key of a rule must agree (e.g. identity.email
+-- exactly, or a normalized phone plus a fuzzy name). An object type can
+-- have several rules; any of them flags a pair.
+--
+-- The duplicate service scans objects against the rules and stores the
+-- flagged pairs in duplicate_candidates, the review queue. Merging a pair
+-- keeps one object (the survivor), moves the other's relations and timeline
+-- onto it and sends the other to the trash.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS duplicate_rules (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  object_type_id UUID NOT NULL REFERENCES object_types(id) ON DELETE CASCADE,
+  name           TEXT NOT NULL,
+  -- [{ "moduleName": "identity", "fieldKey": "email", "match": "email" }, ...]
+  match_keys     JSONB NOT NULL DEFAULT '[]',
+  -- Minimum similarity (0–1) for fuzzy keys
+  threshold      NUMERIC NOT NULL DEFAULT 0.85 CHECK (threshold > 0 AND threshold <= 1),
+  is_active      BOOLEAN NOT NULL DEFAULT true,
+  created_by     UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE duplicate_rules IS 'Per object type rules flagging likely duplicate objects. All match keys of a rule must agree.';
+COMMENT ON COLUMN duplicate_rules.match_keys IS 'Array of { moduleName, fieldKey, match } where match is exact | email | phone | fuzzy.';
+
+CREATE TABLE IF NOT EXISTS duplicate_candidates (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  object_type_id UUID NOT NULL REFERENCES object_types(id) ON DELETE CASCADE,
+  rule_id        UUID REFERENCES duplicate_rules(id) ON DELETE SET NULL,
+  -- Stored with object_a_id < object_b_id so a pair is only flagged once
+  object_a_id    UUID NOT NULL REFERENCES objects(id) ON DELETE CASCADE,
+  object_b_id    UUID NOT NULL REFERENCES objects(id) ON DELETE CASCADE,
+  score          NUMERIC NOT NULL DEFAULT 1,
+  status         TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'merged')),
+  reviewed_by    UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at    TIMESTAMPTZ,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (object_a_id, object_b_id),
+  CHECK (object_a_id < object_b_id)
+);
+
+COMMENT ON TABLE duplicate_candidates IS 'Review queue of object pairs flagged by duplicate_rules. Dismissed pairs are not flagged again.';
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_duplicate_rules_type ON duplicate_rules(object_type_id);
+CREATE INDEX IF NOT EXISTS idx_duplicate_candidates_open ON duplicate_candidates(object_type_id, score DESC) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_duplicate_candidates_b ON duplicate_candidates(object_b_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_duplicate_rules_updated_at
+  BEFORE UPDATE ON duplicate_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ──────────────────────────────────────────────
+-- Permissions
+-- ──────────────────────────────────────────────
+
+INSERT INTO permissions (action, description) VALUES
+  ('object:merge', 'Review duplicate objects and merge them')
+ON CONFLICT (action) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r, permissions p
+WHERE r.name IN ('admin', 'manager')
+  AND p.action = 'object:merge'
+ON CONFLICT DO NOTHING;
+
+-- ──────────────────────────────────────────────
+-- RLS — write via service_role
+-- ──────────────────────────────────────────────
+
+ALTER TABLE duplicate_rules ENABLE ROW LEVEL SECURITY;
+CREATE POLICY duplicate_rules_read ON duplicate_rules FOR SELECT TO authenticated USING (true);
+
+-- A pair is visible to whoever can read both records
+ALTER TABLE duplicate_candidates ENABLE ROW LEVEL SECURITY;
+CREATE POLICY duplicate_candidates_read ON duplicate_candidates FOR SELECT TO authenticated
+  USING (
+    auth_can_access_object(object_a_id, 'read')
+    AND auth_can_access_object(object_b_id, 'read')
+  );
@@ -0,0 +1,49 @@
+-- ============================================================================
+-- Migration 018: Bulk Jobs
+--
+-- A bulk job applies one action (set a field, change stage, reassign owner,
+-- attach/detach a module, add a relation, delete) to a selection of objects
+-- of one type. The selection is resolved to object IDs when the job starts;
+-- the bulk service then runs the action record by record through the object
+-- services, so every record gets the usual permission checks, and keeps the
+-- counters below current for the progress bar.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS bulk_jobs (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  object_type_id UUID NOT NULL REFERENCES object_types(id) ON DELETE CASCADE,
+  -- { "type": "set_field", "moduleName": "stage", "fieldKey": "status", "value": "won" }
+  action         JSONB NOT NULL,
+  object_ids     UUID[] NOT NULL DEFAULT '{}',
+  status         TEXT NOT NULL DEFAULT 'queued'
+                   CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  total          INTEGER NOT NULL DEFAULT 0,
+  processed      INTEGER NOT NULL DEFAULT 0,
+  succeeded      INTEGER NOT NULL DEFAULT 0,
+  failed         INTEGER NOT NULL DEFAULT 0,
+  -- First failures: [{ "objectId": "...", "message": "..." }]
+  errors         JSONB NOT NULL DEFAULT '[]',
+  created_by     UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  started_at     TIMESTAMPTZ,
+  finished_at    TIMESTAMPTZ,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE bulk_jobs IS 'Bulk actions over a selection of objects, with progress counters and the first failures.';
+COMMENT ON COLUMN bulk_jobs.action IS 'The action and its parameters, keyed by type: set_field | change_stage | reassign_owner | attach_module | detach_module | add_relation | delete.';
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_bulk_jobs_created_by ON bulk_jobs(created_by, created_at DESC);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_bulk_jobs_updated_at
+  BEFORE UPDATE ON bulk_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ──────────────────────────────────────────────
+-- RLS — users read their own jobs, writes via service_role
+-- ──────────────────────────────────────────────
+
+ALTER TABLE bulk_jobs ENABLE ROW LEVEL SECURITY;
+CREATE POLICY bulk_jobs_read ON bulk_jobs FOR SELECT TO authenticated USING (created_by = auth.uid());
@@ -0,0 +1,234 @@
+-- ============================================================================
+-- Migration 019: Object Query
+--
+-- query_objects() runs a compiled object query — filters and sorts on
+-- module data, record scope and keyset pagination — as one SQL statement.
+-- The view query compiler (view-query.service.ts) resolves module names
+-- and field types and sends a normalized spec:
+--
+--   p_filters: [{ "moduleId": uuid, "key": "status", "kind": "text",
+--                 "op": "eq", "value": "won" }, …]
+--   p_sorts:   [{ "moduleId": uuid | null, "key": "amount", "kind": "number",
+--                 "direction": "desc" }, …]   -- moduleId null: an objects column
+--
+-- Every value is quoted with format(%L) before it reaches the statement.
+-- Rows are ordered by the sorts (empty values last), then by id. The result
+-- is { "total": n, "rows": [{ "id": uuid, "sort": [values…, id] }, …] };
+-- a row's sort values let the caller resume after it.
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_objects_type_created
+  ON objects(object_type_id, created_at DESC, id)
+  WHERE deleted_at IS NULL;
+
+-- ──────────────────────────────────────────────
+-- Expressions
+-- ──────────────────────────────────────────────
+
+-- Typed SQL expression for a field of a joined module's data
+CREATE OR REPLACE FUNCTION object_query_field(p_alias text, p_key text, p_kind text)
+RETURNS text LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  v_value text := format('%s.data->%L', p_alias, p_key);
+BEGIN
+  CASE p_kind
+    WHEN 'number' THEN
+      RETURN format(
+        'CASE WHEN jsonb_typeof(%1$s) = ''number'' THEN (%1$s#>>''{}'')::numeric'
+        ' WHEN jsonb_typeof(%1$s) = ''string'' AND (%1$s#>>''{}'') ~ ''^-?[0-9]+(\.[0-9]+)?$'''
+        ' THEN (%1$s#>>''{}'')::numeric END',
+        v_value);
+    WHEN 'boolean' THEN
+      RETURN format('CASE WHEN jsonb_typeof(%1$s) = ''boolean'' THEN (%1$s#>>''{}'')::boolean END', v_value);
+    ELSE
+      RETURN format('NULLIF(lower(%s.data->>%L), '''')', p_alias, p_key);
+  END CASE;
+END;
+$$;
+
+-- SQL type a sort value of the given kind is cast back to
+CREATE OR REPLACE FUNCTION object_query_cast(p_kind text)
+RETURNS text LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE p_kind
+    WHEN 'number' THEN 'numeric'
+    WHEN 'boolean' THEN 'boolean'
+    WHEN 'timestamp' THEN 'timestamptz'
+    ELSE 'text'
+  END;
+$$;
+
+-- ──────────────────────────────────────────────
+-- Query
+-- ──────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION query_objects(
+  p_object_type_id uuid DEFAULT NULL,
+  p_filters jsonb DEFAULT '[]'::jsonb,
+  p_sorts jsonb DEFAULT '[]'::jsonb,
+  -- NULL: every record; otherwise records owned or created by these users…
+  p_scope_user_ids uuid[] DEFAULT NULL,
+  -- …or one of these (shared) records
+  p_scope_object_ids uuid[] DEFAULT '{}',
+  -- Restrict to these objects (e.g. search hits)
+  p_ids uuid[] DEFAULT NULL,
+  -- Sort values of the last row of the previous page, then its id
+  p_after jsonb DEFAULT NULL,
+  p_offset int DEFAULT 0,
+  p_limit int DEFAULT 50
+)
+RETURNS jsonb
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_aliases jsonb := '{}'::jsonb;
+  v_joins text := '';
+  v_where text[] := ARRAY['o.deleted_at IS NULL'];
+  v_order text[] := '{}';
+  v_keys text[] := '{}';
+  v_kinds text[] := '{}';
+  v_directions text[] := '{}';
+  v_module uuid;
+  v_alias text;
+  v_item jsonb;
+  v_expr text;
+  v_text text;
+  v_json text;
+  v_cond text;
+  v_keyset text;
+  v_from text;
+  v_total bigint;
+  v_rows jsonb;
+  i int;
+BEGIN
+  -- One LEFT JOIN per module referenced by a filter or sort
+  FOR v_module IN
+    SELECT DISTINCT (e->>'moduleId')::uuid
+    FROM jsonb_array_elements(p_filters || p_sorts) e
+    WHERE e->>'moduleId' IS NOT NULL
+  LOOP
+    v_alias := 'm' || (SELECT count(*) FROM jsonb_object_keys(v_aliases));
+    v_aliases := v_aliases || jsonb_build_object(v_module::text, v_alias);
+    v_joins := v_joins || format(
+      ' LEFT JOIN object_modules %1$s ON %1$s.object_id = o.id AND %1$s.module_id = %2$L',
+      v_alias, v_module);
+  END LOOP;
+
+  IF p_object_type_id IS NOT NULL THEN
+    v_where := v_where || format('o.object_type_id = %L', p_object_type_id);
+  END IF;
+  IF p_scope_user_ids IS NOT NULL THEN
+    v_where := v_where ||
+      '(o.owner_id = ANY($1) OR o.created_by = ANY($1) OR o.id = ANY($2))';
+  END IF;
+  IF p_ids IS NOT NULL THEN
+    v_where := v_where || 'o.id = ANY($3)';
+  END IF;
+
+  -- Filters
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_filters) LOOP
+    v_alias := v_aliases->>(v_item->>'moduleId');
+    v_expr := object_query_field(v_alias, v_item->>'key', v_item->>'kind');
+    -- Raw text and JSON of the field, for emptiness, patterns and arrays
+    v_text := format('(%s.data->>%L)', v_alias, v_item->>'key');
+    v_json := format('%s.data->%L', v_alias, v_item->>'key');
+
+    v_cond := CASE v_item->>'op'
+      WHEN 'empty' THEN
+        format('(%1$s IS NULL OR %1$s IN (%2$L, %3$L))', v_text, '', '[]')
+      WHEN 'not_empty' THEN
+        format('(%1$s IS NOT NULL AND %1$s NOT IN (%2$L, %3$L))', v_text, '', '[]')
+      WHEN 'ilike' THEN
+        format('%s ILIKE %L', v_text, v_item->>'value')
+      WHEN 'in' THEN
+        format('(%1$s = ANY(%3$L::text[]) OR (jsonb_typeof(%2$s) = ''array'' AND %2$s ?| %3$L::text[]))',
+          v_text, v_json,
+          ARRAY(SELECT jsonb_array_elements_text(v_item->'value')))
+      ELSE NULL
+    END;
+
+    IF v_cond IS NULL THEN
+      -- Comparisons: typed for numbers and booleans, text otherwise
+      IF v_item->>'kind' IN ('number', 'boolean') THEN
+        v_cond := format('%s %s %L::%s', v_expr,
+          CASE v_item->>'op'
+            WHEN 'eq' THEN '=' WHEN 'neq' THEN '=' WHEN 'gt' THEN '>'
+            WHEN 'lt' THEN '<' WHEN 'gte' THEN '>=' ELSE '<=' END,
+          v_item->>'value', object_query_cast(v_item->>'kind'));
+      ELSIF v_item->>'op' IN ('eq', 'neq') THEN
+        v_cond := format('(%1$s = %3$L OR (jsonb_typeof(%2$s) = ''array'' AND %2$s ? %3$L))',
+          v_text, v_json, v_item->>'value');
+      ELSE
+        v_cond := format('%s %s %L', v_text,
+          CASE v_item->>'op'
+            WHEN 'gt' THEN '>' WHEN 'lt' THEN '<' WHEN 'gte' THEN '>=' ELSE '<=' END,
+          v_item->>'value');
+      END IF;
+      IF v_item->>'op' = 'neq' THEN
+        v_cond := format('NOT COALESCE(%s, false)', v_cond);
+      END IF;
+    END IF;
+
+    v_where := v_where || v_cond;
+  END LOOP;
+
+  v_from := 'FROM objects o' || v_joins || ' WHERE ' || array_to_string(v_where, ' AND ');
+  EXECUTE 'SELECT count(*) ' || v_from
+    INTO v_total
+    USING p_scope_user_ids, p_scope_object_ids, p_ids;
+
+  -- Sorts, with empty values last in both directions
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_sorts) LOOP
+    IF v_item->>'moduleId' IS NULL THEN
+      v_expr := format('o.%I', v_item->>'key');
+    ELSE
+      v_expr := object_query_field(v_aliases->>(v_item->>'moduleId'), v_item->>'key', v_item->>'kind');
+    END IF;
+    v_keys := v_keys || v_expr;
+    v_kinds := v_kinds || (v_item->>'kind');
+    v_directions := v_directions || lower(v_item->>'direction');
+    v_order := v_order || format('%s %s NULLS LAST', v_expr,
+      CASE WHEN lower(v_item->>'direction') = 'desc' THEN 'DESC' ELSE 'ASC' END);
+  END LOOP;
+  v_order := v_order || 'o.id ASC'::text;
+
+  -- Keyset: rows after p_after = [sort values…, id], built from the last key out
+  IF p_after IS NOT NULL THEN
+    v_keyset := format('o.id > %L::uuid', p_after->>coalesce(array_length(v_keys, 1), 0));
+    FOR i IN REVERSE coalesce(array_length(v_keys, 1), 0)..1 LOOP
+      IF p_after->(i - 1) IS NULL OR jsonb_typeof(p_after->(i - 1)) = 'null' THEN
+        -- The last row was empty here: only other empty rows can follow on this key
+        v_keyset := format('(%s IS NULL AND (%s))', v_keys[i], v_keyset);
+      ELSE
+        v_keyset := format(
+          '(%1$s IS NULL OR %1$s %2$s %3$L::%4$s OR (%1$s = %3$L::%4$s AND (%5$s)))',
+          v_keys[i],
+          CASE WHEN v_directions[i] = 'desc' THEN '<' ELSE '>' END,
+          p_after->>(i - 1),
+          object_query_cast(v_kinds[i]),
+          v_keyset);
+      END IF;
+    END LOOP;
+    v_from := v_from || ' AND ' || v_keyset;
+  END IF;
+
+  EXECUTE format(
+    'SELECT COALESCE(jsonb_agg(jsonb_build_object(''id'', q.id, ''sort'', q.sort) ORDER BY q.n), ''[]''::jsonb)'
+    ' FROM (SELECT o.id, jsonb_build_array(%s) AS sort, row_number() OVER (ORDER BY %s) AS n'
+    ' %s ORDER BY %s LIMIT %s OFFSET %s) q',
+    array_to_string(v_keys || 'o.id'::text, ', '),
+    array_to_string(v_order, ', '),
+    v_from,
+    array_to_string(v_order, ', '),
+    greatest(p_limit, 0),
+    greatest(p_offset, 0))
+    INTO v_rows
+    USING p_scope_user_ids, p_scope_object_ids, p_ids;
+
+  RETURN jsonb_build_object('total', v_total, 'rows', v_rows);
+END;
+$$;
+
+COMMENT ON FUNCTION query_objects IS 'Compiled object query: module data filters and sorts, record scope and keyset pagination in one statement.';
+
+-- The caller passes the record scope, so only the server may run it
+REVOKE EXECUTE ON FUNCTION query_objects FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION query_objects TO service_role;
@@ -0,0 +1,16 @@
+-- ============================================================================
+-- Migration 021: View Layouts
+--
+-- Calendar and timeline layouts, and per-layout settings on views:
+--
+--   layout_config: { "startField": { "module": "schedule", "field": "due" },
+--                    "endField": { … }, "calendarMode": "month" | "week" | "day" }
+-- ============================================================================
+
+ALTER TABLE views DROP CONSTRAINT IF EXISTS views_layout_type_check;
+ALTER TABLE views ADD CONSTRAINT views_layout_type_check
+  CHECK (layout_type IN ('table', 'kanban', 'calendar', 'timeline'));
+
+ALTER TABLE views ADD COLUMN IF NOT EXISTS layout_config JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN views.layout_config IS 'Per-layout settings: date fields for calendar and timeline, calendar mode.';
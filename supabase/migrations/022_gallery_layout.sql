@@ -0,0 +1,13 @@
+-- ============================================================================
+-- Migration 022: Gallery Layout
+--
+-- Views can show records as cards. The card's cover and title fields live
+-- in layout_config ({ "coverField": …, "titleField": … }); its secondary
+-- fields are the view's visible_fields.
+-- ============================================================================
+
+ALTER TABLE views DROP CONSTRAINT IF EXISTS views_layout_type_check;
+ALTER TABLE views ADD CONSTRAINT views_layout_type_check
+  CHECK (layout_type IN ('table', 'kanban', 'calendar', 'timeline', 'gallery'));
+
+COMMENT ON COLUMN views.layout_config IS 'Per-layout settings: date fields for calendar and timeline, calendar mode, gallery cover and title fields.';
@@ -0,0 +1,137 @@
+-- ============================================================================
+-- Migration 023: Object Groups
+--
+-- query_object_groups() counts and aggregates the objects a compiled query
+-- matches, per value of a group field and in total, so grouped tables show
+-- subtotals for every record and not just the loaded page:
+--
+--   p_group:      { "moduleId": uuid | null, "key": "status", "kind": "text" }
+--                 (null: no grouping, only the total)
+--   p_aggregates: [{ "moduleId": uuid, "key": "amount" }, …]   -- numeric fields
+--
+-- Filters, record scope and ids work as in query_objects(). The result is
+--
+--   { "groups": [{ "value": "won" | null, "count": n, "aggregates": [a, …] }, …],
+--     "total":  { "count": n, "aggregates": [a, …] } }
+--
+-- where each a is { "sum", "avg", "min", "max" } for the p_aggregates entry
+-- at the same position. Groups come in the order query_objects() sorts the
+-- group field ascending (empty last), so they line up with a table sorted
+-- by it.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION query_object_groups(
+  p_object_type_id uuid DEFAULT NULL,
+  p_filters jsonb DEFAULT '[]'::jsonb,
+  p_group jsonb DEFAULT NULL,
+  p_aggregates jsonb DEFAULT '[]'::jsonb,
+  p_scope_user_ids uuid[] DEFAULT NULL,
+  p_scope_object_ids uuid[] DEFAULT '{}',
+  p_ids uuid[] DEFAULT NULL,
+  p_group_limit int DEFAULT 200
+)
+RETURNS jsonb
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_aliases jsonb := '{}'::jsonb;
+  v_joins text := '';
+  v_where text[] := ARRAY['o.deleted_at IS NULL'];
+  v_aggs text[] := '{}';
+  v_module uuid;
+  v_alias text;
+  v_item jsonb;
+  v_expr text;
+  v_value text;
+  v_order text;
+  v_agg text;
+  v_from text;
+  v_groups jsonb;
+  v_total jsonb;
+BEGIN
+  -- A JSON null group is no group
+  IF jsonb_typeof(p_group) IS DISTINCT FROM 'object' THEN
+    p_group := NULL;
+  END IF;
+
+  -- One LEFT JOIN per module referenced by a filter, the group or an aggregate
+  FOR v_module IN
+    SELECT DISTINCT (e #>> '{}')::uuid
+    FROM jsonb_path_query(
+      p_filters || p_aggregates
+        || CASE WHEN p_group IS NULL THEN '[]'::jsonb ELSE jsonb_build_array(p_group) END,
+      'lax $.**.moduleId') e
+    WHERE jsonb_typeof(e) = 'string'
+  LOOP
+    v_alias := 'm' || (SELECT count(*) FROM jsonb_object_keys(v_aliases));
+    v_aliases := v_aliases || jsonb_build_object(v_module::text, v_alias);
+    v_joins := v_joins || format(
+      ' LEFT JOIN object_modules %1$s ON %1$s.object_id = o.id AND %1$s.module_id = %2$L',
+      v_alias, v_module);
+  END LOOP;
+
+  IF p_object_type_id IS NOT NULL THEN
+    v_where := v_where || format('o.object_type_id = %L', p_object_type_id);
+  END IF;
+  IF p_scope_user_ids IS NOT NULL THEN
+    v_where := v_where ||
+      '(o.owner_id = ANY($1) OR o.created_by = ANY($1) OR o.id = ANY($2))';
+  END IF;
+  IF p_ids IS NOT NULL THEN
+    v_where := v_where || 'o.id = ANY($3)';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_filters) LOOP
+    v_where := v_where || object_query_condition(v_aliases, v_item);
+  END LOOP;
+
+  v_from := 'FROM objects o' || v_joins || ' WHERE ' || array_to_string(v_where, ' AND ');
+
+  -- Aggregates of numeric fields (non-numeric values are skipped)
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_aggregates) LOOP
+    v_expr := object_query_field(v_aliases->>(v_item->>'moduleId'), v_item->>'key', 'number');
+    v_aggs := v_aggs || format(
+      'jsonb_build_object(''sum'', sum(%1$s), ''avg'', avg(%1$s), ''min'', min(%1$s), ''max'', max(%1$s))',
+      v_expr);
+  END LOOP;
+  v_agg := CASE WHEN coalesce(array_length(v_aggs, 1), 0) = 0 THEN '''[]''::jsonb'
+    ELSE 'jsonb_build_array(' || array_to_string(v_aggs, ', ') || ')' END;
+
+  EXECUTE format('SELECT jsonb_build_object(''count'', count(*), ''aggregates'', %s) %s', v_agg, v_from)
+    INTO v_total
+    USING p_scope_user_ids, p_scope_object_ids, p_ids;
+
+  IF p_group IS NULL THEN
+    RETURN jsonb_build_object('groups', '[]'::jsonb, 'total', v_total);
+  END IF;
+
+  -- Group on the stored text; order like the group field's sort
+  IF p_group->>'moduleId' IS NULL THEN
+    v_value := format('NULLIF(o.%I::text, '''')', object_query_column(p_group->>'key'));
+    v_order := CASE WHEN p_group->>'kind' = 'timestamp'
+      THEN format('min(o.%I)', p_group->>'key') ELSE format('lower(%s)', v_value) END;
+  ELSE
+    v_alias := v_aliases->>(p_group->>'moduleId');
+    v_value := format('NULLIF(%s.data->>%L, '''')', v_alias, p_group->>'key');
+    v_order := CASE WHEN p_group->>'kind' = 'number'
+      THEN 'min(' || object_query_field(v_alias, p_group->>'key', 'number') || ')'
+      ELSE format('lower(%s)', v_value) END;
+  END IF;
+
+  EXECUTE format(
+    'SELECT COALESCE(jsonb_agg(jsonb_build_object(''value'', g.g_value, ''count'', g.n, ''aggregates'', g.a) ORDER BY g.pos), ''[]''::jsonb)'
+    ' FROM (SELECT %1$s AS g_value, count(*) AS n, %2$s AS a,'
+    ' row_number() OVER (ORDER BY %3$s ASC NULLS LAST, %1$s) AS pos'
+    ' %4$s GROUP BY 1 ORDER BY %3$s ASC NULLS LAST, %1$s LIMIT %5$s) g',
+    v_value, v_agg, v_order, v_from, greatest(p_group_limit, 0))
+    INTO v_groups
+    USING p_scope_user_ids, p_scope_object_ids, p_ids;
+
+  RETURN jsonb_build_object('groups', v_groups, 'total', v_total);
+END;
+$$;
+
+COMMENT ON FUNCTION query_object_groups IS 'Per-group and total counts and numeric aggregates of a compiled object query.';
+
+-- The caller passes the record scope, so only the server may run it
+REVOKE EXECUTE ON FUNCTION query_object_groups FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION query_object_groups TO service_role;
@@ -0,0 +1,63 @@
+-- ============================================================================
+-- Migration 024: Activity Feed
+--
+-- A workspace-wide feed of timeline events across every object the user can
+-- read. query_activity_feed() returns one page of events, newest first:
+--
+--   [{ ...timeline_events row, "object_type_id": uuid }, …]
+--
+-- filtered by object type, actor, event types and a created_at range, with
+-- record scope working as in query_objects(). Pages are keyset on
+-- (created_at, id): pass the last event's pair as p_cursor_at / p_cursor_id.
+--
+-- profiles.activity_seen_at records when the user last opened the feed, so
+-- newer events from others show as unread.
+-- ============================================================================
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS activity_seen_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_timeline_events_created
+  ON timeline_events(created_at DESC, id DESC);
+
+CREATE OR REPLACE FUNCTION query_activity_feed(
+  p_object_type_id uuid DEFAULT NULL,
+  p_actor_id uuid DEFAULT NULL,
+  p_event_types text[] DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_scope_user_ids uuid[] DEFAULT NULL,
+  p_scope_object_ids uuid[] DEFAULT '{}',
+  p_cursor_at timestamptz DEFAULT NULL,
+  p_cursor_id uuid DEFAULT NULL,
+  p_limit int DEFAULT 50
+)
+RETURNS jsonb
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT COALESCE(
+    jsonb_agg(to_jsonb(f) ORDER BY f.created_at DESC, f.id DESC),
+    '[]'::jsonb)
+  FROM (
+    SELECT e.*, o.object_type_id
+    FROM timeline_events e
+    JOIN objects o ON o.id = e.object_id
+    WHERE o.deleted_at IS NULL
+      AND (p_object_type_id IS NULL OR o.object_type_id = p_object_type_id)
+      AND (p_actor_id IS NULL OR e.created_by = p_actor_id)
+      AND (p_event_types IS NULL OR e.event_type = ANY(p_event_types))
+      AND (p_from IS NULL OR e.created_at >= p_from)
+      AND (p_to IS NULL OR e.created_at < p_to)
+      AND (p_scope_user_ids IS NULL
+        OR o.owner_id = ANY(p_scope_user_ids)
+        OR o.created_by = ANY(p_scope_user_ids)
+        OR o.id = ANY(p_scope_object_ids))
+      AND (p_cursor_at IS NULL OR (e.created_at, e.id) < (p_cursor_at, p_cursor_id))
+    ORDER BY e.created_at DESC, e.id DESC
+    LIMIT greatest(p_limit, 0)
+  ) f;
+$$;
+
+COMMENT ON FUNCTION query_activity_feed IS 'One keyset page of timeline events across the objects in a record scope.';
+
+-- The caller passes the record scope, so only the server may run it
+REVOKE EXECUTE ON FUNCTION query_activity_feed FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION query_activity_feed TO service_role;
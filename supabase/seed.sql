@@ -219,10 +219,14 @@ INSERT INTO permissions (action, description) VALUES
   ('object:create',        'Create new objects'),
   ('object:read',          'Read all objects'),
   ('object:read:own',      'Read own objects only'),
+  ('object:read:team',     'Read objects owned or created by teammates'),
   ('object:update',        'Update any object'),
   ('object:update:own',    'Update own objects only'),
+  ('object:update:team',   'Update objects owned or created by teammates'),
   ('object:delete',        'Delete any object'),
   ('object:delete:own',    'Delete own objects only'),
+  ('object:delete:team',   'Delete objects owned or created by teammates'),
+  ('object:share',         'Share objects with users and teams'),
   ('relation:create',      'Create object relations'),
   ('relation:delete',      'Delete object relations'),
   ('module:manage',        'Create, edit, delete module definitions'),
@@ -231,6 +235,7 @@ INSERT INTO permissions (action, description) VALUES
   ('audit:view',           'View audit logs'),
   ('role:manage',          'Manage roles and permissions'),
   ('user:manage',          'Manage users and role assignments'),
+  ('team:manage',          'Create teams and manage their members'),
   ('settings:manage',      'Manage system settings')
 ON CONFLICT (action) DO NOTHING;
 
@@ -252,8 +257,8 @@ FROM roles r, permissions p
 WHERE r.name = 'manager'
   AND p.action IN (
     'object:create', 'object:read', 'object:update', 'object:delete',
-    'relation:create', 'relation:delete',
-    'dashboard:view', 'audit:view'
+    'object:share', 'relation:create', 'relation:delete',
+    'team:manage', 'dashboard:view', 'audit:view'
   )
 ON CONFLICT DO NOTHING;
 
@@ -264,7 +269,7 @@ FROM roles r, permissions p
 WHERE r.name = 'sales_rep'
   AND p.action IN (
     'object:create', 'object:read:own', 'object:update:own', 'object:delete:own',
-    'relation:create',
+    'object:share', 'relation:create',
     'dashboard:view'
   )
 ON CONFLICT DO NOTHING;